@@ -3,6 +3,7 @@ import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import { AuthProvider } from './hooks/useAuth';
 import ProtectedRoute from './components/auth/ProtectedRoute';
 import LoginPage from './components/auth/LoginPage';
+import SsoCallback from './components/auth/SsoCallback';
 import TwoFactorSetup from './components/auth/TwoFactorSetup';
 import MainLayout from './components/MainLayout';
 import DashboardPage from './pages/DashboardPage';
@@ -16,6 +17,7 @@ import IncidentManagement from './components/IncidentManagement';
 import AssetSecurityDashboard from './components/AssetSecurityDashboard';
 import MitigationsPage from './pages/MitigationsPage';
 import JoinOrganizationPage from './pages/JoinOrganizationPage';
+import IncidentReportPage from './pages/IncidentReportPage';
 import AuditLogViewer from './components/admin/AuditLogViewer';
 import NotificationsPage from './pages/NotificationsPage';
 import './index.css';
@@ -26,6 +28,7 @@ function App() {
       <AuthProvider>
         <Routes>
           <Route path="/login" element={<LoginPage />} />
+          <Route path="/auth/sso/callback" element={<SsoCallback />} />
           <Route 
             path="/setup-2fa" 
             element={
@@ -35,6 +38,7 @@ function App() {
             } 
           />
           <Route path="/join-organization" element={<JoinOrganizationPage />} />
+          <Route path="/report/:token" element={<IncidentReportPage />} />
           
           {/* Dashboard routes with layout */}
           <Route 
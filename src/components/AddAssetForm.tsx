@@ -4,6 +4,7 @@ import { Database } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
 import MitigationSelector from './MitigationSelector';
 import { AppliedMitigation } from '../types/mitigation';
+import { applyControls, inherentScoreOf } from '../utils/riskScoring';
 import { aiService } from '../services/aiService';
 import { supabase } from '../lib/supabase';
 import { useFormState } from '../hooks/useFormState';
@@ -89,11 +90,6 @@ const AddAssetForm: React.FC<AddAssetFormProps> = ({ onClose, onSubmit, assetToE
       score: 90,
       issues: [] as string[]
     },
-    incidents: {
-      total: 0,
-      lastIncident: 'None',
-      severity: 'low' as const
-    },
     responsible_officer: {
       name: '',
       email: '',
@@ -121,7 +117,6 @@ const AddAssetForm: React.FC<AddAssetFormProps> = ({ onClose, onSubmit, assetToE
         ai_risk_score: assetToEdit.ai_risk_score as any,
         security_systems: assetToEdit.security_systems as any,
         compliance: assetToEdit.compliance as any,
-        incidents: assetToEdit.incidents as any,
         responsible_officer: assetToEdit.responsible_officer as any
       };
       
@@ -218,7 +213,6 @@ const AddAssetForm: React.FC<AddAssetFormProps> = ({ onClose, onSubmit, assetToE
         personnel: formData.personnel,
         security_systems: formData.security_systems,
         compliance: formData.compliance,
-        incidents: formData.incidents,
         responsible_officer: formData.responsible_officer
       };
 
@@ -254,23 +248,8 @@ const AddAssetForm: React.FC<AddAssetFormProps> = ({ onClose, onSubmit, assetToE
         }
       }
       
-      // Calculate effective risk score based on mitigations
-      const totalRiskReduction = mitigations.reduce(
-        (sum, mitigation) => sum + mitigation.applied_risk_reduction_score, 
-        0
-      );
-      
-      // Ensure risk score doesn't go below 0
-      const effectiveRiskScore = Math.max(0, aiRiskScore.overall - totalRiskReduction);
-      
-      // Update the risk score with the effective value
-      const updatedRiskScore = {
-        ...aiRiskScore,
-        overall: effectiveRiskScore,
-        mitigationApplied: totalRiskReduction > 0,
-        originalScore: aiRiskScore.overall,
-        totalRiskReduction
-      };
+      // Record the inherent score, the applied controls and the residual score left after them
+      const updatedRiskScore = applyControls(aiRiskScore, mitigations);
 
       const finalAssetData: AssetInsert = {
         organization_id: profile?.organization_id || '',
@@ -283,7 +262,6 @@ const AddAssetForm: React.FC<AddAssetFormProps> = ({ onClose, onSubmit, assetToE
         ai_risk_score: updatedRiskScore,
         security_systems: formData.security_systems,
         compliance: formData.compliance,
-        incidents: formData.incidents,
         responsible_officer: formData.responsible_officer,
         mitigations: mitigations.length > 0 ? mitigations : null
       };
@@ -1154,6 +1132,7 @@ const AddAssetForm: React.FC<AddAssetFormProps> = ({ onClose, onSubmit, assetToE
               selectedMitigations={mitigations}
               onMitigationsChange={setMitigations}
               disabled={loading}
+              inherentScore={assetToEdit ? inherentScoreOf(formData.ai_risk_score) : undefined}
             />
           </div>
 
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { X, Save, Loader2, AlertCircle, Search, Building, User, Plus } from 'lucide-react';
+import { X, Save, Loader2, AlertCircle, Search, Building, User, Plus, Paperclip, Trash2, Copy, ListChecks } from 'lucide-react';
 import { Database } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
 import { useFormState } from '../hooks/useFormState';
@@ -7,6 +7,10 @@ import { useDepartments } from '../hooks/useDepartments';
 import { supabase } from '../lib/supabase';
 import LocationSearchInput from './common/LocationSearchInput';
 import { LocationData } from '../services/nominatimService';
+import { resolveIncidentWorkflow } from '../utils/incidentWorkflow';
+import { evidenceAccept, formatFileSize, isAllowedEvidenceType, maxEvidenceSize } from '../services/evidenceService';
+import { findDuplicateCandidates } from '../utils/incidentDuplicates';
+import { resolveIncidentPlaybooks } from '../utils/incidentPlaybooks';
 
 type IncidentReport = Database['public']['Tables']['incident_reports']['Row'];
 type IncidentInsert = Database['public']['Tables']['incident_reports']['Insert'];
@@ -15,18 +19,21 @@ type Asset = Database['public']['Tables']['assets']['Row'];
 
 interface AddEditIncidentFormProps {
   onClose: () => void;
-  onSubmit: (formData: IncidentInsert) => Promise<void>;
+  onSubmit: (formData: IncidentInsert, evidenceFiles: File[], duplicateOfIds: string[]) => Promise<void>;
   incidentToEdit?: IncidentReport | null;
+  // Checked for possible duplicates while a new incident is reported
+  existingIncidents?: IncidentReport[];
 }
 
 const AddEditIncidentForm: React.FC<AddEditIncidentFormProps> = ({ 
   onClose, 
   onSubmit, 
-  incidentToEdit 
+  incidentToEdit,
+  existingIncidents = []
 }) => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const { user, profile } = useAuth();
+  const { user, profile, organization } = useAuth();
   const { departments } = useDepartments();
   
   // State for personnel and assets
@@ -41,6 +48,10 @@ const AddEditIncidentForm: React.FC<AddEditIncidentFormProps> = ({
   const [selectedAsset, setSelectedAsset] = useState<Asset | null>(null);
   const [showAssetSearch, setShowAssetSearch] = useState(false);
   const [assetSearchTerm, setAssetSearchTerm] = useState('');
+  const [evidenceFiles, setEvidenceFiles] = useState<File[]>([]);
+  const [duplicateOfIds, setDuplicateOfIds] = useState<string[]>([]);
+  const [playbookId, setPlaybookId] = useState('');
+  const playbooks = resolveIncidentPlaybooks(organization?.settings);
   
   const { formData, updateFormData, setFormData } = useFormState({
     title: '',
@@ -55,6 +66,9 @@ const AddEditIncidentForm: React.FC<AddEditIncidentFormProps> = ({
     involved_parties: '',
     involved_personnel_ids: [] as string[],
     immediate_actions: '',
+    downtime_hours: '',
+    people_affected: '',
+    impacted_asset_ids: [] as string[],
     reporter_name: profile?.full_name || '',
     reporter_email: user?.email || '',
     reporter_phone: profile?.phone || ''
@@ -82,6 +96,9 @@ const AddEditIncidentForm: React.FC<AddEditIncidentFormProps> = ({
         involved_parties: incidentToEdit.involved_parties.join(', '),
         involved_personnel_ids: incidentToEdit.involved_personnel_ids || [],
         immediate_actions: incidentToEdit.immediate_actions || '',
+        downtime_hours: incidentToEdit.downtime_hours?.toString() ?? '',
+        people_affected: incidentToEdit.people_affected?.toString() ?? '',
+        impacted_asset_ids: incidentToEdit.impacted_asset_ids || [],
         reporter_name: incidentToEdit.reporter_name,
         reporter_email: incidentToEdit.reporter_email,
         reporter_phone: incidentToEdit.reporter_phone || ''
@@ -107,7 +124,7 @@ const AddEditIncidentForm: React.FC<AddEditIncidentFormProps> = ({
       setLoadingPersonnel(true);
       
       const { data, error } = await supabase
-        .from('personnel_details')
+        .from('personnel_directory')
         .select('*')
         .order('name');
       
@@ -169,7 +186,7 @@ const AddEditIncidentForm: React.FC<AddEditIncidentFormProps> = ({
   const fetchPersonnelByIds = async (personnelIds: string[]) => {
     try {
       const { data, error } = await supabase
-        .from('personnel_details')
+        .from('personnel_directory')
         .select('*')
         .in('id', personnelIds);
       
@@ -197,6 +214,10 @@ const AddEditIncidentForm: React.FC<AddEditIncidentFormProps> = ({
   const handleAssetSelect = (asset: Asset) => {
     setSelectedAsset(asset);
     updateFormData('location_asset_id', asset.id);
+    // The asset where the incident happened is usually impacted by it
+    if (!formData.impacted_asset_ids.includes(asset.id)) {
+      updateFormData('impacted_asset_ids', [...formData.impacted_asset_ids, asset.id]);
+    }
     
     // Set location based on asset details
     const assetLocation = asset.location as any;
@@ -263,6 +284,24 @@ const AddEditIncidentForm: React.FC<AddEditIncidentFormProps> = ({
     }
   };
 
+  const handleEvidenceSelected = (files: FileList | null) => {
+    if (!files) return;
+
+    const rejected: string[] = [];
+    const accepted = Array.from(files).filter(file => {
+      if (!isAllowedEvidenceType(file) || file.size > maxEvidenceSize) {
+        rejected.push(file.name);
+        return false;
+      }
+      return true;
+    });
+
+    setEvidenceFiles(prev => [...prev, ...accepted]);
+    setError(rejected.length > 0
+      ? `Only photos, PDFs and videos up to ${formatFileSize(maxEvidenceSize)} can be attached: ${rejected.join(', ')}`
+      : null);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -286,34 +325,21 @@ const AddEditIncidentForm: React.FC<AddEditIncidentFormProps> = ({
         involved_parties: formData.involved_parties ? formData.involved_parties.split(',').map(p => p.trim()) : [],
         involved_personnel_ids: formData.involved_personnel_ids.length > 0 ? formData.involved_personnel_ids : null,
         immediate_actions: formData.immediate_actions || null,
+        downtime_hours: formData.downtime_hours !== '' ? Math.max(0, Number(formData.downtime_hours)) : null,
+        people_affected: formData.people_affected !== '' ? Math.max(0, Math.round(Number(formData.people_affected))) : null,
+        impacted_asset_ids: formData.impacted_asset_ids,
         reporter_user_id: user?.id || null,
         reporter_name: formData.reporter_name,
         reporter_email: formData.reporter_email,
         reporter_phone: formData.reporter_phone || null,
-        status: incidentToEdit?.status || 'Open',
+        status: incidentToEdit?.status || resolveIncidentWorkflow(organization?.settings).initialState,
         organization_id: profile?.organization_id || '',
-        timeline: incidentToEdit?.timeline || [
-          {
-            timestamp: new Date().toISOString(),
-            action: 'Incident reported',
-            user: formData.reporter_name
-          }
-        ]
+        // The database snapshots the playbook's checklist from the organization settings
+        ...(!incidentToEdit && playbookId ? { playbook_id: playbookId } : {})
+        // The timeline is kept by the database: reporting, status changes and assignments add entries
       };
 
-      // If editing, add a timeline entry for the update
-      if (incidentToEdit) {
-        incidentData.timeline = [
-          ...incidentToEdit.timeline,
-          {
-            timestamp: new Date().toISOString(),
-            action: 'Incident updated',
-            user: profile?.full_name || user?.email || 'Unknown'
-          }
-        ];
-      }
-
-      await onSubmit(incidentData);
+      await onSubmit(incidentData, evidenceFiles, duplicateOfIds.filter(id => duplicateCandidates.some(candidate => candidate.incident.id === id)));
     } catch (err) {
       console.error('Error submitting incident:', err);
       setError(err instanceof Error ? err.message : 'Failed to submit incident report');
@@ -322,6 +348,34 @@ const AddEditIncidentForm: React.FC<AddEditIncidentFormProps> = ({
     }
   };
 
+  const duplicateCandidates = incidentToEdit ? [] : findDuplicateCandidates({
+    title: formData.title,
+    date_time: formData.date_time,
+    location_coordinates: formData.location_coordinates
+  }, existingIncidents).slice(0, 5);
+
+  // Pre-fills what the playbook prescribes; reporters can still adjust every field
+  const applyPlaybook = (id: string) => {
+    setPlaybookId(id);
+
+    const playbook = playbooks.find(item => item.id === id);
+    if (!playbook) return;
+
+    updateFormData('severity', playbook.severity);
+    if (playbook.department && departments.includes(playbook.department)) {
+      updateFormData('department', playbook.department);
+    }
+    if (playbook.immediateActions) {
+      updateFormData('immediate_actions', playbook.immediateActions);
+    }
+  };
+
+  const toggleDuplicateOf = (incidentId: string) => {
+    setDuplicateOfIds(prev => prev.includes(incidentId)
+      ? prev.filter(id => id !== incidentId)
+      : [...prev, incidentId]);
+  };
+
   // Filter personnel based on search term
   const filteredPersonnel = personnelSearchTerm.trim() === '' 
     ? allPersonnel 
@@ -364,6 +418,29 @@ const AddEditIncidentForm: React.FC<AddEditIncidentFormProps> = ({
           </div>
         )}
 
+        {!incidentToEdit && playbooks.length > 0 && (
+          <div className="p-4 bg-cyan-50 border border-cyan-200 rounded-lg">
+            <label className="block text-sm font-medium text-cyan-900 mb-2 flex items-center space-x-2">
+              <ListChecks className="w-4 h-4" />
+              <span>Playbook</span>
+            </label>
+            <select
+              value={playbookId}
+              onChange={(e) => applyPlaybook(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+            >
+              <option value="">No playbook</option>
+              {playbooks.map(playbook => (
+                <option key={playbook.id} value={playbook.id}>{playbook.name}</option>
+              ))}
+            </select>
+            <p className="text-xs text-cyan-800 mt-1">
+              {playbooks.find(playbook => playbook.id === playbookId)?.description
+                || 'Fills in the severity, department and immediate actions, and attaches a response checklist'}
+            </p>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           <div className="md:col-span-2">
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -690,7 +767,152 @@ const AddEditIncidentForm: React.FC<AddEditIncidentFormProps> = ({
             />
           </div>
         </div>
+
+        {duplicateCandidates.length > 0 && (
+          <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+            <div className="flex items-center space-x-2 mb-2">
+              <Copy className="w-5 h-5 text-yellow-600 flex-shrink-0" />
+              <h3 className="text-sm font-semibold text-yellow-800">Possible duplicates</h3>
+            </div>
+            <p className="text-sm text-yellow-800 mb-3">
+              These incidents were reported around the same time and place with a similar title. Tick any this report duplicates to link it to them.
+            </p>
+            <div className="space-y-2">
+              {duplicateCandidates.map(candidate => (
+                <label key={candidate.incident.id} className="flex items-start space-x-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={duplicateOfIds.includes(candidate.incident.id)}
+                    onChange={() => toggleDuplicateOf(candidate.incident.id)}
+                    className="mt-0.5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span>
+                    <span className="font-medium text-gray-900">{candidate.incident.title}</span>
+                    <span className="block text-xs text-gray-600">
+                      {new Date(candidate.incident.date_time).toLocaleString()} · {candidate.incident.location}
+                      {candidate.distanceKm !== null && ` · ${candidate.distanceKm.toFixed(1)} km away`}
+                      {` · ${Math.round(candidate.score * 100)}% match`}
+                    </span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
         
+        <div className="border-t border-gray-200 pt-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Business Impact</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Downtime (hours)
+              </label>
+              <input
+                type="number"
+                min={0}
+                step="0.5"
+                value={formData.downtime_hours}
+                onChange={(e) => updateFormData('downtime_hours', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Leave empty if unknown"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                People Affected
+              </label>
+              <input
+                type="number"
+                min={0}
+                step="1"
+                value={formData.people_affected}
+                onChange={(e) => updateFormData('people_affected', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Leave empty if unknown"
+              />
+            </div>
+
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Impacted Assets
+              </label>
+              {loadingAssets ? (
+                <div className="flex items-center space-x-2 text-sm text-gray-500">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  <span>Loading assets...</span>
+                </div>
+              ) : allAssets.length > 0 ? (
+                <div className="max-h-40 overflow-y-auto border border-gray-300 rounded-lg divide-y divide-gray-100">
+                  {allAssets.map(asset => (
+                    <label key={asset.id} className="flex items-center space-x-2 px-3 py-2 text-sm hover:bg-gray-50">
+                      <input
+                        type="checkbox"
+                        checked={formData.impacted_asset_ids.includes(asset.id)}
+                        onChange={(e) => updateFormData('impacted_asset_ids', e.target.checked
+                          ? [...formData.impacted_asset_ids, asset.id]
+                          : formData.impacted_asset_ids.filter(id => id !== asset.id))}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <Building className="w-4 h-4 text-gray-400" />
+                      <span className="text-gray-900">{asset.name}</span>
+                      <span className="text-xs text-gray-500 capitalize">{asset.type}</span>
+                    </label>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500 italic">No assets found</p>
+              )}
+              <p className="mt-1 text-xs text-gray-500">
+                Impacted assets show this incident in their incident history. Costs are recorded on the incident once it is saved.
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <div className="border-t border-gray-200 pt-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900">Evidence</h3>
+            <label className="flex items-center space-x-2 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 transition-colors cursor-pointer">
+              <Paperclip className="w-4 h-4" />
+              <span>Attach Files</span>
+              <input
+                type="file"
+                multiple
+                accept={evidenceAccept}
+                className="hidden"
+                onChange={(e) => {
+                  handleEvidenceSelected(e.target.files);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+          </div>
+          {evidenceFiles.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              Photos, PDFs and videos up to {formatFileSize(maxEvidenceSize)}. Files are uploaded when the report is saved.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {evidenceFiles.map((file, index) => (
+                <div key={`${file.name}-${index}`} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg">
+                  <span className="text-sm text-gray-900 truncate">{file.name}</span>
+                  <div className="flex items-center space-x-3">
+                    <span className="text-xs text-gray-500">{formatFileSize(file.size)}</span>
+                    <button
+                      type="button"
+                      onClick={() => setEvidenceFiles(prev => prev.filter((_, i) => i !== index))}
+                      className="text-red-600 hover:text-red-800"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
         <div className="border-t border-gray-200 pt-6">
           <h3 className="text-lg font-semibold text-gray-900 mb-4">Reporter Information</h3>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
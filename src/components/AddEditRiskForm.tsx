@@ -6,6 +6,8 @@ import { useDepartments } from '../hooks/useDepartments';
 import { supabase } from '../lib/supabase';
 import MitigationSelector from './MitigationSelector';
 import { AppliedMitigation } from '../types/mitigation';
+import { inherentRiskScore } from '../utils/riskScoring';
+import { requiresChangeReason } from '../utils/riskHistory';
 
 type Risk = Database['public']['Tables']['risks']['Row'];
 type RiskInsert = Database['public']['Tables']['risks']['Insert'];
@@ -45,6 +47,7 @@ const AddEditRiskForm: React.FC<AddEditRiskFormProps> = ({
     organization_id: '' // This will be set by the parent component
   });
   const [mitigations, setMitigations] = useState<AppliedMitigation[]>([]);
+  const [changeReason, setChangeReason] = useState('');
   const [users, setUsers] = useState<UserProfile[]>([]);
   const [loadingUsers, setLoadingUsers] = useState(false);
 
@@ -102,17 +105,28 @@ const AddEditRiskForm: React.FC<AddEditRiskFormProps> = ({
     fetchUsers();
   }, []);
 
+  const scoreChanged = !!riskToEdit && requiresChangeReason(riskToEdit, {
+    impact: formData.impact,
+    likelihood: formData.likelihood,
+    mitigations: mitigations.length > 0 ? mitigations : null
+  });
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
     setError(null);
 
     try {
+      if (scoreChanged && !changeReason.trim()) {
+        throw new Error('Please give a reason for changing the risk score');
+      }
+
       // Ensure organization_id is set
       const finalFormData = {
         ...formData,
         organization_id: profile?.organization_id || '',
-        mitigations: mitigations.length > 0 ? mitigations : null
+        mitigations: mitigations.length > 0 ? mitigations : null,
+        change_reason: riskToEdit ? changeReason.trim() || null : null
       };
 
       await onSubmit(finalFormData);
@@ -223,6 +237,8 @@ const AddEditRiskForm: React.FC<AddEditRiskFormProps> = ({
                 <option value="assessed">Assessed</option>
                 <option value="mitigated">Mitigated</option>
                 <option value="monitoring">Monitoring</option>
+                {/* Only an approved acceptance request accepts a risk; choosing another status revokes it */}
+                {riskToEdit?.status === 'accepted' && <option value="accepted">Accepted</option>}
                 <option value="closed">Closed</option>
               </select>
             </div>
@@ -361,8 +377,29 @@ const AddEditRiskForm: React.FC<AddEditRiskFormProps> = ({
               selectedMitigations={mitigations}
               onMitigationsChange={setMitigations}
               disabled={loading}
+              inherentScore={inherentRiskScore(formData.impact, formData.likelihood)}
+              scoreDecimals={1}
             />
           </div>
+
+          {riskToEdit && (
+            <div className="border-t border-gray-200 pt-6">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Reason for Change {scoreChanged && '*'}
+              </label>
+              <textarea
+                rows={2}
+                required={scoreChanged}
+                value={changeReason}
+                onChange={(e) => setChangeReason(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder={scoreChanged
+                  ? 'The risk score changes with this edit. Explain why, e.g. the outcome of a reassessment...'
+                  : 'Optionally note why this risk is being changed...'}
+              />
+              <p className="mt-1 text-xs text-gray-500">Recorded in the risk's history.</p>
+            </div>
+          )}
           
           <div className="flex justify-end space-x-4 pt-6 border-t border-gray-200">
             <button
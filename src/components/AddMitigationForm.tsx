@@ -137,7 +137,7 @@ const AddMitigationForm: React.FC<AddMitigationFormProps> = ({
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             />
             <p className="mt-1 text-xs text-gray-500">
-              This score represents how much this mitigation reduces the overall risk (0-100)
+              The share of the remaining risk this mitigation removes, in percent. Controls combine multiplicatively, and each counts for at most 90%
             </p>
           </div>
 
@@ -4,10 +4,11 @@ import { Database } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
 import MitigationSelector from './MitigationSelector';
 import { AppliedMitigation } from '../types/mitigation';
+import { applyControls, inherentScoreOf } from '../utils/riskScoring';
 import { aiService } from '../services/aiService';
 import { supabase } from '../lib/supabase';
 import { useFormState } from '../hooks/useFormState';
-import { countries } from '../utils/constants';
+import { clearanceLevels, countries } from '../utils/constants';
 import { useDepartments } from '../hooks/useDepartments';
 import LocationSearchInput from './common/LocationSearchInput';
 import { LocationData } from '../services/nominatimService';
@@ -160,6 +161,9 @@ const AddPersonnelForm: React.FC<AddPersonnelFormProps> = ({ onClose, onSubmit,
     }
   };
 
+  // The database refuses records classified above the editor's own clearance
+  const assignableClearanceLevels = clearanceLevels.slice(0, clearanceLevels.indexOf(profile?.clearance_level || 'Unclassified') + 1);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -214,23 +218,8 @@ const AddPersonnelForm: React.FC<AddPersonnelFormProps> = ({ onClose, onSubmit,
         }
       }
       
-      // Calculate effective risk score based on mitigations
-      const totalRiskReduction = mitigations.reduce(
-        (sum, mitigation) => sum + mitigation.applied_risk_reduction_score, 
-        0
-      );
-      
-      // Ensure risk score doesn't go below 0
-      const effectiveRiskScore = Math.max(0, aiRiskScore.overall - totalRiskReduction);
-      
-      // Update the risk score with the effective value
-      const updatedRiskScore = {
-        ...aiRiskScore,
-        overall: effectiveRiskScore,
-        mitigationApplied: totalRiskReduction > 0,
-        originalScore: aiRiskScore.overall,
-        totalRiskReduction
-      };
+      // Record the inherent score, the applied controls and the residual score left after them
+      const updatedRiskScore = applyControls(aiRiskScore, mitigations);
 
       // Add organization_id and updated risk score to the data
       const finalPersonnelData = {
@@ -433,10 +422,9 @@ const AddPersonnelForm: React.FC<AddPersonnelFormProps> = ({ onClose, onSubmit,
                   onChange={(e) => updateFormData('clearance_level', e.target.value)}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 >
-                  <option value="Unclassified">Unclassified</option>
-                  <option value="Confidential">Confidential</option>
-                  <option value="Secret">Secret</option>
-                  <option value="Top Secret">Top Secret</option>
+                  {assignableClearanceLevels.map(level => (
+                    <option key={level} value={level}>{level}</option>
+                  ))}
                 </select>
               </div>
 
@@ -539,6 +527,7 @@ const AddPersonnelForm: React.FC<AddPersonnelFormProps> = ({ onClose, onSubmit,
               selectedMitigations={mitigations}
               onMitigationsChange={setMitigations}
               disabled={loading}
+              inherentScore={personnelToEdit ? inherentScoreOf(formData.ai_risk_score) : undefined}
             />
           </div>
 
@@ -7,6 +7,7 @@ import TimelineBuilder from './timeline/TimelineBuilder';
 import { aiService } from '../services/aiService';
 import MitigationSelector from './MitigationSelector';
 import { AppliedMitigation } from '../types/mitigation';
+import { applyControls, inherentScoreOf } from '../utils/riskScoring';
 import { useFormState } from '../hooks/useFormState';
 import { countries, clearanceLevels } from '../utils/constants';
 import { useDepartments } from '../hooks/useDepartments';
@@ -94,7 +95,7 @@ const AddTravelPlanForm: React.FC<AddTravelPlanFormProps> = ({ onClose, onSubmit
       setLoadingPersonnel(true);
       
       const { data, error } = await supabase
-        .from('personnel_details')
+        .from('personnel_directory')
         .select('*')
         .order('name');
       
@@ -268,23 +269,8 @@ const AddTravelPlanForm: React.FC<AddTravelPlanFormProps> = ({ onClose, onSubmit
           setAiScoring(false);
         }
         
-        // Calculate effective risk score based on mitigations
-        const totalRiskReduction = mitigations.reduce(
-          (sum, mitigation) => sum + mitigation.applied_risk_reduction_score, 
-          0
-        );
-        
-        // Ensure risk score doesn't go below 0
-        const effectiveRiskScore = Math.max(0, aiRiskAssessment.overall - totalRiskReduction);
-        
-        // Update the risk assessment with the effective value
-        const updatedRiskAssessment = {
-          ...aiRiskAssessment,
-          overall: effectiveRiskScore,
-          mitigationApplied: totalRiskReduction > 0,
-          originalScore: aiRiskAssessment.overall,
-          totalRiskReduction
-        };
+        // Record the inherent score, the applied controls and the residual score left after them
+        const updatedRiskAssessment = applyControls(aiRiskAssessment, mitigations);
 
         // Prepare final data for new travel plan
         const travelPlanDataFinal: TravelPlanInsert = {
@@ -312,30 +298,8 @@ const AddTravelPlanForm: React.FC<AddTravelPlanFormProps> = ({ onClose, onSubmit
         // For editing, we don't recalculate AI risk score unless explicitly requested
         // Just update the existing travel plan with the new values
         
-        // Calculate effective risk score based on mitigations if they've changed
-        let updatedRiskAssessment = formData.risk_assessment;
-        
-        if (mitigations.length > 0) {
-          const totalRiskReduction = mitigations.reduce(
-            (sum, mitigation) => sum + mitigation.applied_risk_reduction_score, 
-            0
-          );
-          
-          // Get the original score (before mitigation) if available, otherwise use current overall
-          const originalScore = (formData.risk_assessment as any).originalScore || formData.risk_assessment.overall;
-          
-          // Ensure risk score doesn't go below 0
-          const effectiveRiskScore = Math.max(0, originalScore - totalRiskReduction);
-          
-          // Update the risk assessment with the effective value
-          updatedRiskAssessment = {
-            ...formData.risk_assessment,
-            overall: effectiveRiskScore,
-            mitigationApplied: totalRiskReduction > 0,
-            originalScore: originalScore,
-            totalRiskReduction
-          };
-        }
+        // Re-apply the controls to the inherent score, so removed mitigations no longer count
+        const updatedRiskAssessment = applyControls(formData.risk_assessment, mitigations);
 
         // Prepare update data
         const travelPlanUpdateData: TravelPlanUpdate = {
@@ -907,6 +871,7 @@ const AddTravelPlanForm: React.FC<AddTravelPlanFormProps> = ({ onClose, onSubmit
                       selectedMitigations={mitigations}
                       onMitigationsChange={setMitigations}
                       disabled={loading}
+                      inherentScore={travelPlanToEdit ? inherentScoreOf(formData.risk_assessment) : undefined}
                     />
                   </div>
                 </div>
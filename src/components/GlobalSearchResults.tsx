@@ -15,6 +15,8 @@ import {
   Brain
 } from 'lucide-react';
 import { SearchResult } from '../services/globalSearchService';
+import { useAuth } from '../hooks/useAuth';
+import { getStatusBadgeClass, getStatusCategory, resolveIncidentWorkflow } from '../utils/incidentWorkflow';
 
 interface GlobalSearchResultsProps {
   results: SearchResult[];
@@ -32,6 +34,8 @@ const GlobalSearchResults: React.FC<GlobalSearchResultsProps> = ({
   searchTerm
 }) => {
   const navigate = useNavigate();
+  const { organization } = useAuth();
+  const incidentWorkflow = resolveIncidentWorkflow(organization?.settings);
 
   const handleResultClick = (result: SearchResult) => {
     onResultClick();
@@ -90,10 +94,11 @@ const GlobalSearchResults: React.FC<GlobalSearchResultsProps> = ({
           default: return null;
         }
       case 'incident':
-        switch (status) {
-          case 'Open': return <AlertCircle className="w-4 h-4 text-red-500" />;
-          case 'In Progress': return <Clock className="w-4 h-4 text-yellow-500" />;
-          case 'Closed': return <CheckCircle className="w-4 h-4 text-green-500" />;
+        if (!status) return null;
+        switch (getStatusCategory(incidentWorkflow, status)) {
+          case 'open': return <AlertCircle className="w-4 h-4 text-red-500" />;
+          case 'active': return <Clock className="w-4 h-4 text-yellow-500" />;
+          case 'closed': return <CheckCircle className="w-4 h-4 text-green-500" />;
           default: return null;
         }
       case 'risk':
@@ -102,6 +107,7 @@ const GlobalSearchResults: React.FC<GlobalSearchResultsProps> = ({
           case 'assessed': return <AlertTriangle className="w-4 h-4 text-yellow-500" />;
           case 'mitigated': return <CheckCircle className="w-4 h-4 text-green-500" />;
           case 'monitoring': return <AlertCircle className="w-4 h-4 text-purple-500" />;
+          case 'accepted': return <CheckCircle className="w-4 h-4 text-teal-500" />;
           case 'closed': return <CheckCircle className="w-4 h-4 text-gray-500" />;
           default: return null;
         }
@@ -143,18 +149,14 @@ const GlobalSearchResults: React.FC<GlobalSearchResultsProps> = ({
           default: return 'bg-gray-100 text-gray-700';
         }
       case 'incident':
-        switch (status) {
-          case 'Open': return 'bg-red-100 text-red-700';
-          case 'In Progress': return 'bg-yellow-100 text-yellow-700';
-          case 'Closed': return 'bg-green-100 text-green-700';
-          default: return 'bg-gray-100 text-gray-700';
-        }
+        return status ? getStatusBadgeClass(incidentWorkflow, status) : 'bg-gray-100 text-gray-700';
       case 'risk':
         switch (status) {
           case 'identified': return 'bg-blue-100 text-blue-700';
           case 'assessed': return 'bg-yellow-100 text-yellow-700';
           case 'mitigated': return 'bg-green-100 text-green-700';
           case 'monitoring': return 'bg-purple-100 text-purple-700';
+          case 'accepted': return 'bg-teal-100 text-teal-700';
           case 'closed': return 'bg-gray-100 text-gray-700';
           default: return 'bg-gray-100 text-gray-700';
         }
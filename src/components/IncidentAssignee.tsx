@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Loader2, PhoneCall, UserCheck } from 'lucide-react';
+import { Database } from '../lib/supabase';
+import { MentionableUser } from '../utils/incidentTimeline';
+import {
+  OnCallOverride,
+  OnCallSchedule,
+  ResponderTeam,
+  findOnCallSchedule,
+  getOnCallUserId
+} from '../utils/incidentAssignment';
+
+type IncidentReport = Database['public']['Tables']['incident_reports']['Row'];
+
+interface IncidentAssigneeProps {
+  incident: IncidentReport;
+  users: MentionableUser[];
+  teams: ResponderTeam[];
+  schedules: OnCallSchedule[];
+  overrides: OnCallOverride[];
+  canEdit: boolean;
+  onAssign: (userId: string | null, teamId: string | null) => Promise<void>;
+}
+
+/**
+ * Current assignee of an incident, with reassignment to a user, a team or whoever is on call
+ */
+const IncidentAssignee: React.FC<IncidentAssigneeProps> = ({
+  incident,
+  users,
+  teams,
+  schedules,
+  overrides,
+  canEdit,
+  onAssign
+}) => {
+  const [editing, setEditing] = useState(false);
+  const [userId, setUserId] = useState(incident.assigned_user_id || '');
+  const [teamId, setTeamId] = useState(incident.assigned_team_id || '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const schedule = findOnCallSchedule(incident, schedules);
+  const onCallUserId = schedule ? getOnCallUserId(schedule, overrides) : null;
+  const onCallUser = users.find(candidate => candidate.user_id === onCallUserId);
+
+  const assign = async (nextUserId: string | null, nextTeamId: string | null) => {
+    try {
+      setSaving(true);
+      setError(null);
+      await onAssign(nextUserId, nextTeamId);
+      setEditing(false);
+    } catch (err) {
+      const { message } = err as { message?: string };
+      setError(message || 'Failed to assign the incident');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const startEditing = () => {
+    setUserId(incident.assigned_user_id || '');
+    setTeamId(incident.assigned_team_id || '');
+    setEditing(true);
+  };
+
+  return (
+    <div>
+      <label className="text-sm font-medium text-gray-500">Assigned To</label>
+      {!editing ? (
+        <div className="flex items-center justify-between">
+          <p className="text-gray-900">{incident.assigned_to || 'Unassigned'}</p>
+          {canEdit && !incident.merged_into && (
+            <button
+              onClick={startEditing}
+              className="text-sm text-blue-600 hover:text-blue-800"
+            >
+              {incident.assigned_to ? 'Reassign' : 'Assign'}
+            </button>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-2 mt-1">
+          <select
+            value={userId}
+            onChange={(e) => setUserId(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">No user</option>
+            {users.map(candidate => (
+              <option key={candidate.user_id} value={candidate.user_id}>{candidate.full_name}</option>
+            ))}
+          </select>
+          <select
+            value={teamId}
+            onChange={(e) => setTeamId(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">No team</option>
+            {teams.map(team => (
+              <option key={team.id} value={team.id}>{team.name}</option>
+            ))}
+          </select>
+          {schedule && onCallUser && (
+            <button
+              onClick={() => assign(onCallUser.user_id, schedule.team_id)}
+              disabled={saving}
+              className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+            >
+              <PhoneCall className="w-4 h-4" />
+              <span>On call: {onCallUser.full_name} ({schedule.name})</span>
+            </button>
+          )}
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => assign(userId || null, teamId || null)}
+              disabled={saving}
+              className="flex items-center space-x-1 px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserCheck className="w-4 h-4" />}
+              <span>Save</span>
+            </button>
+            <button
+              onClick={() => setEditing(false)}
+              className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+      {error && (
+        <p className="mt-1 text-sm text-red-600 flex items-center space-x-1">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          <span>{error}</span>
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default IncidentAssignee;
@@ -0,0 +1,194 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, Download } from 'lucide-react';
+import { Database } from '../lib/supabase';
+import {
+  CostAsset,
+  CostBreakdown,
+  IncidentCost,
+  IncidentCostSettings,
+  formatCurrency,
+  getCostBreakdown,
+  getCostSummary
+} from '../utils/incidentCosts';
+
+type IncidentReport = Database['public']['Tables']['incident_reports']['Row'];
+
+interface IncidentCostDashboardProps {
+  incidents: IncidentReport[];
+  costs: IncidentCost[];
+  assets: CostAsset[];
+  settings: IncidentCostSettings;
+}
+
+const periodOptions = [
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+  { value: '365', label: 'Last 12 months' },
+  { value: 'all', label: 'All time' }
+];
+
+const breakdownOptions: { value: CostBreakdown; label: string }[] = [
+  { value: 'department', label: 'Department' },
+  { value: 'asset', label: 'Asset' },
+  { value: 'category', label: 'Category' }
+];
+
+/**
+ * What incidents cost in the selected period, in the organization's base currency, broken down by
+ * department, asset or cost category. Costs count by the date they were incurred, impact by the date
+ * the incident happened
+ */
+const IncidentCostDashboard: React.FC<IncidentCostDashboardProps> = ({ incidents, costs, assets, settings }) => {
+  const [period, setPeriod] = useState('365');
+  const [breakdown, setBreakdown] = useState<CostBreakdown>('department');
+
+  const { periodIncidents, periodCosts } = useMemo(() => {
+    if (period === 'all') return { periodIncidents: incidents, periodCosts: costs };
+    const since = Date.now() - Number(period) * 24 * 60 * 60 * 1000;
+    return {
+      periodIncidents: incidents.filter(incident => new Date(incident.date_time).getTime() >= since),
+      periodCosts: costs.filter(cost => new Date(`${cost.incurred_on}T00:00:00`).getTime() >= since)
+    };
+  }, [incidents, costs, period]);
+
+  const summary = useMemo(
+    () => getCostSummary(periodIncidents, periodCosts, settings),
+    [periodIncidents, periodCosts, settings]
+  );
+  const rows = useMemo(
+    () => getCostBreakdown(breakdown, incidents, periodCosts, assets, settings),
+    [breakdown, incidents, periodCosts, assets, settings]
+  );
+  const breakdownLabel = breakdownOptions.find(option => option.value === breakdown)!.label;
+
+  const handleExport = () => {
+    const headers = [breakdownLabel, 'Incidents', `Total (${settings.baseCurrency})`, 'Share %'];
+
+    const csvContent = [
+      headers.join(','),
+      ...rows.map(row => [
+        `"${row.label.replace(/"/g, '""')}"`,
+        row.incidentCount,
+        row.total.toFixed(2),
+        summary.total > 0 ? Math.round((row.total / summary.total) * 100) : ''
+      ].join(','))
+    ].join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', `incident_costs_by_${breakdown}_${new Date().toISOString().split('T')[0]}.csv`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <select
+            value={period}
+            onChange={(e) => setPeriod(e.target.value)}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {periodOptions.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+            {breakdownOptions.map(option => (
+              <button
+                key={option.value}
+                onClick={() => setBreakdown(option.value)}
+                className={`px-3 py-2 text-sm ${breakdown === option.value ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <button
+          onClick={handleExport}
+          className="flex items-center space-x-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+        >
+          <Download className="w-4 h-4" />
+          <span>Export CSV</span>
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="p-4 bg-gray-50 rounded-lg">
+          <p className="text-sm text-gray-500">Total cost</p>
+          <p className="text-2xl font-bold text-gray-900">{formatCurrency(summary.total, settings.baseCurrency)}</p>
+        </div>
+        <div className="p-4 bg-gray-50 rounded-lg">
+          <p className="text-sm text-gray-500">Incidents with costs</p>
+          <p className="text-2xl font-bold text-gray-900">{summary.incidentCount}</p>
+        </div>
+        <div className="p-4 bg-gray-50 rounded-lg">
+          <p className="text-sm text-gray-500">Downtime</p>
+          <p className="text-2xl font-bold text-gray-900">{Math.round(summary.downtimeHours).toLocaleString()}h</p>
+        </div>
+        <div className="p-4 bg-gray-50 rounded-lg">
+          <p className="text-sm text-gray-500">People affected</p>
+          <p className="text-2xl font-bold text-gray-900">{summary.peopleAffected.toLocaleString()}</p>
+        </div>
+      </div>
+
+      {summary.unconvertedCurrencies.length > 0 && (
+        <div className="p-4 bg-orange-50 border border-orange-200 rounded-lg flex items-center space-x-2">
+          <AlertTriangle className="w-5 h-5 text-orange-500 flex-shrink-0" />
+          <span className="text-orange-700 text-sm">
+            Costs in {summary.unconvertedCurrencies.join(', ')} are left out because there is no exchange rate to{' '}
+            {settings.baseCurrency}. Admins can add rates in the organization settings.
+          </span>
+        </div>
+      )}
+
+      <div className="border border-gray-200 rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{breakdownLabel}</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Incidents</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider w-1/3">Share</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {rows.map(row => {
+              const share = summary.total > 0 ? (row.total / summary.total) * 100 : 0;
+              return (
+                <tr key={row.key}>
+                  <td className="px-4 py-3 text-sm text-gray-900">{row.label}</td>
+                  <td className="px-4 py-3 text-sm text-gray-700">{row.incidentCount}</td>
+                  <td className="px-4 py-3 text-sm font-semibold text-right text-gray-900">
+                    {formatCurrency(row.total, settings.baseCurrency)}
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex items-center space-x-2">
+                      <div className="flex-1 h-2 bg-gray-200 rounded-full">
+                        <div className="h-2 bg-blue-600 rounded-full" style={{ width: `${share}%` }} />
+                      </div>
+                      <span className="text-xs text-gray-500 w-10 text-right">{Math.round(share)}%</span>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+            {rows.length === 0 && (
+              <tr>
+                <td colSpan={4} className="px-4 py-6 text-center text-sm text-gray-500">No costs recorded in this period</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default IncidentCostDashboard;
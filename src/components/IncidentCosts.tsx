@@ -0,0 +1,322 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Building, Clock, DollarSign, Edit, Loader2, Plus, Trash2, Users } from 'lucide-react';
+import { Database } from '../lib/supabase';
+import { CostDraft } from '../hooks/useIncidentCosts';
+import {
+  CostAsset,
+  IncidentCost,
+  IncidentCostSettings,
+  commonCurrencies,
+  convertToBaseCurrency,
+  formatCurrency,
+  getIncidentCostTotal,
+  getUnconvertedCurrencies,
+  incidentCostCategories,
+  incidentCostCategoryLabels
+} from '../utils/incidentCosts';
+
+type IncidentReport = Database['public']['Tables']['incident_reports']['Row'];
+
+interface IncidentCostsProps {
+  incident: IncidentReport;
+  costs: IncidentCost[];
+  assets: CostAsset[];
+  settings: IncidentCostSettings;
+  canEdit: boolean;
+  onSave: (draft: CostDraft, id?: string) => Promise<void>;
+  onDelete: (cost: IncidentCost) => Promise<void>;
+}
+
+const emptyDraft = (currency: string): CostDraft => ({
+  category: 'direct_loss',
+  amount: 0,
+  currency,
+  asset_id: null,
+  description: '',
+  incurred_on: new Date().toISOString().slice(0, 10)
+});
+
+/**
+ * Business impact of an incident and its cost lines, totalled in the organization's base currency
+ */
+const IncidentCosts: React.FC<IncidentCostsProps> = ({
+  incident,
+  costs,
+  assets,
+  settings,
+  canEdit,
+  onSave,
+  onDelete
+}) => {
+  const [draft, setDraft] = useState<CostDraft | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const incidentCosts = costs.filter(cost => cost.incident_id === incident.id);
+  const total = getIncidentCostTotal(incident.id, incidentCosts, settings);
+  const unconverted = getUnconvertedCurrencies(incidentCosts, settings);
+  const impactedAssets = assets.filter(asset => incident.impacted_asset_ids.includes(asset.id));
+  const currencies = [...new Set([settings.baseCurrency, ...Object.keys(settings.exchangeRates), ...commonCurrencies])];
+  const editable = canEdit && !incident.merged_into;
+
+  const assetName = (id: string | null) => id ? assets.find(asset => asset.id === id)?.name || 'Deleted asset' : null;
+
+  const startEditing = (cost?: IncidentCost) => {
+    setError(null);
+    setEditingId(cost?.id || null);
+    setDraft(cost ? {
+      category: cost.category,
+      amount: cost.amount,
+      currency: cost.currency,
+      asset_id: cost.asset_id,
+      description: cost.description || '',
+      incurred_on: cost.incurred_on
+    } : emptyDraft(settings.baseCurrency));
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (!(draft.amount > 0)) {
+      setError('Enter an amount greater than zero');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      await onSave({ ...draft, description: draft.description?.trim() || null }, editingId || undefined);
+      setDraft(null);
+      setEditingId(null);
+    } catch (err) {
+      const { message } = err as { message?: string };
+      setError(message || 'Failed to save the cost');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (cost: IncidentCost) => {
+    try {
+      setError(null);
+      await onDelete(cost);
+    } catch (err) {
+      const { message } = err as { message?: string };
+      setError(message || 'Failed to remove the cost');
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-gray-900">Business Impact</h3>
+        {editable && !draft && (
+          <button
+            onClick={() => startEditing()}
+            className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add Cost</span>
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-3">
+        <div className="p-3 bg-gray-50 rounded-lg">
+          <p className="text-xs text-gray-500 flex items-center space-x-1"><DollarSign className="w-3 h-3" /><span>Total cost</span></p>
+          <p className="text-lg font-semibold text-gray-900">{formatCurrency(total, settings.baseCurrency)}</p>
+        </div>
+        <div className="p-3 bg-gray-50 rounded-lg">
+          <p className="text-xs text-gray-500 flex items-center space-x-1"><Clock className="w-3 h-3" /><span>Downtime</span></p>
+          <p className="text-lg font-semibold text-gray-900">
+            {incident.downtime_hours !== null ? `${incident.downtime_hours}h` : '-'}
+          </p>
+        </div>
+        <div className="p-3 bg-gray-50 rounded-lg">
+          <p className="text-xs text-gray-500 flex items-center space-x-1"><Users className="w-3 h-3" /><span>People affected</span></p>
+          <p className="text-lg font-semibold text-gray-900">{incident.people_affected ?? '-'}</p>
+        </div>
+        <div className="p-3 bg-gray-50 rounded-lg">
+          <p className="text-xs text-gray-500 flex items-center space-x-1"><Building className="w-3 h-3" /><span>Impacted assets</span></p>
+          <p className="text-lg font-semibold text-gray-900">{impactedAssets.length}</p>
+        </div>
+      </div>
+
+      {impactedAssets.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-3">
+          {impactedAssets.map(asset => (
+            <span key={asset.id} className="inline-flex items-center px-3 py-1 bg-indigo-100 text-indigo-700 rounded-full text-sm">
+              <Building className="w-4 h-4 mr-1" />
+              {asset.name}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {unconverted.length > 0 && (
+        <p className="mb-3 text-sm text-orange-600 flex items-center space-x-1">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          <span>
+            No exchange rate for {unconverted.join(', ')}; those costs are not in the total. Admins can add rates in
+            the organization settings.
+          </span>
+        </p>
+      )}
+
+      {error && (
+        <div className="mb-3 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+          <AlertTriangle className="w-5 h-5 text-red-500 flex-shrink-0" />
+          <span className="text-red-700 text-sm">{error}</span>
+        </div>
+      )}
+
+      {draft && (
+        <div className="mb-3 p-4 border border-blue-200 bg-blue-50 rounded-lg space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+              <select
+                value={draft.category}
+                onChange={(e) => setDraft({ ...draft, category: e.target.value as CostDraft['category'] })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {incidentCostCategories.map(category => (
+                  <option key={category} value={category}>{incidentCostCategoryLabels[category]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Incurred on</label>
+              <input
+                type="date"
+                value={draft.incurred_on || ''}
+                onChange={(e) => setDraft({ ...draft, incurred_on: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Amount</label>
+              <div className="flex space-x-2">
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={draft.amount || ''}
+                  onChange={(e) => setDraft({ ...draft, amount: parseFloat(e.target.value) || 0 })}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <select
+                  value={draft.currency}
+                  onChange={(e) => setDraft({ ...draft, currency: e.target.value })}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {currencies.map(currency => (
+                    <option key={currency} value={currency}>{currency}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Asset</label>
+              <select
+                value={draft.asset_id || ''}
+                onChange={(e) => setDraft({ ...draft, asset_id: e.target.value || null })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Not tied to an asset</option>
+                {(impactedAssets.length > 0 ? impactedAssets : assets).map(asset => (
+                  <option key={asset.id} value={asset.id}>{asset.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+            <input
+              type="text"
+              value={draft.description || ''}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              placeholder="e.g. Replacement of the loading bay door"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="flex items-center space-x-1 px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+              <span>{editingId ? 'Save Cost' : 'Add Cost'}</span>
+            </button>
+            <button
+              onClick={() => { setDraft(null); setEditingId(null); }}
+              className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {incidentCosts.length > 0 ? (
+        <div className="border border-gray-200 rounded-lg overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Description</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                {editable && <th className="px-4 py-2" />}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {incidentCosts.map(cost => {
+                const converted = convertToBaseCurrency(cost.amount, cost.currency, settings);
+                return (
+                  <tr key={cost.id}>
+                    <td className="px-4 py-2 text-sm text-gray-700 whitespace-nowrap">{new Date(`${cost.incurred_on}T00:00:00`).toLocaleDateString()}</td>
+                    <td className="px-4 py-2 text-sm text-gray-900">{incidentCostCategoryLabels[cost.category]}</td>
+                    <td className="px-4 py-2 text-sm text-gray-700">
+                      {cost.description || '-'}
+                      {cost.asset_id && <span className="block text-xs text-gray-500">{assetName(cost.asset_id)}</span>}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-right text-gray-900 whitespace-nowrap">
+                      {formatCurrency(cost.amount, cost.currency)}
+                      {cost.currency !== settings.baseCurrency && converted !== null && (
+                        <span className="block text-xs text-gray-500">{formatCurrency(converted, settings.baseCurrency)}</span>
+                      )}
+                    </td>
+                    {editable && (
+                      <td className="px-4 py-2 text-right whitespace-nowrap">
+                        <button
+                          onClick={() => startEditing(cost)}
+                          className="p-1 text-gray-400 hover:text-blue-600"
+                          title="Edit cost"
+                        >
+                          <Edit className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(cost)}
+                          className="p-1 text-gray-400 hover:text-red-600"
+                          title="Remove cost"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        !draft && <p className="text-sm text-gray-500 italic">No costs recorded</p>
+      )}
+    </div>
+  );
+};
+
+export default IncidentCosts;
@@ -0,0 +1,208 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Download, FileText, Film, Image as ImageIcon, Loader2, Trash2, Upload, AlertTriangle, Fingerprint } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import ConfirmationModal from './common/ConfirmationModal';
+import {
+  IncidentEvidence as Evidence,
+  deleteEvidence,
+  evidenceAccept,
+  formatFileSize,
+  getEvidenceDownloadUrl,
+  getEvidenceThumbnails,
+  listEvidence,
+  uploadEvidence
+} from '../services/evidenceService';
+
+interface IncidentEvidenceProps {
+  incidentId: string;
+  organizationId: string;
+}
+
+const getFileIcon = (contentType: string) => {
+  if (contentType.startsWith('image/')) return <ImageIcon className="w-6 h-6 text-gray-400" />;
+  if (contentType.startsWith('video/')) return <Film className="w-6 h-6 text-gray-400" />;
+  return <FileText className="w-6 h-6 text-gray-400" />;
+};
+
+/**
+ * Evidence files of an incident with previews, audited downloads and uploads
+ */
+const IncidentEvidence: React.FC<IncidentEvidenceProps> = ({ incidentId, organizationId }) => {
+  const [evidence, setEvidence] = useState<Evidence[]>([]);
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [evidenceToDelete, setEvidenceToDelete] = useState<Evidence | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { hasPermission, requireReauth } = useAuth();
+  const canUpload = hasPermission('incidents.update');
+  const canDelete = hasPermission('incidents.delete');
+
+  const fetchEvidence = useCallback(async () => {
+    setLoading(true);
+    const { data, error: listError } = await listEvidence(incidentId);
+
+    if (listError) {
+      setError('Failed to load evidence');
+    } else {
+      setEvidence(data || []);
+      if (data?.some(item => item.thumbnail_path)) {
+        const { data: urls } = await getEvidenceThumbnails(incidentId);
+        setThumbnails(urls || {});
+      }
+    }
+    setLoading(false);
+  }, [incidentId]);
+
+  useEffect(() => {
+    fetchEvidence();
+  }, [fetchEvidence]);
+
+  const handleFilesSelected = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    setUploading(true);
+    setError(null);
+    const errors: string[] = [];
+
+    for (const file of Array.from(files)) {
+      const { error: uploadError } = await uploadEvidence(organizationId, incidentId, file);
+      if (uploadError) errors.push(uploadError);
+    }
+
+    if (errors.length > 0) setError(errors.join('; '));
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    setUploading(false);
+    await fetchEvidence();
+  };
+
+  const handleDownload = async (item: Evidence) => {
+    setDownloadingId(item.id);
+    setError(null);
+    const { data: url, error: downloadError } = await getEvidenceDownloadUrl(item.id);
+    setDownloadingId(null);
+
+    if (downloadError || !url) {
+      setError(downloadError || 'Failed to download evidence');
+      return;
+    }
+
+    window.location.assign(url);
+  };
+
+  const confirmDelete = async () => {
+    if (!evidenceToDelete) return;
+    if (!await requireReauth('incidents.delete')) return;
+
+    const { error: deleteError } = await deleteEvidence(evidenceToDelete.id);
+    if (deleteError) {
+      setError(deleteError);
+      return;
+    }
+
+    setEvidence(prev => prev.filter(item => item.id !== evidenceToDelete.id));
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-gray-900">Evidence</h3>
+        {canUpload && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={evidenceAccept}
+              className="hidden"
+              onChange={(e) => handleFilesSelected(e.target.files)}
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={uploading}
+              className="flex items-center space-x-2 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-50"
+            >
+              {uploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+              <span>{uploading ? 'Uploading...' : 'Add Evidence'}</span>
+            </button>
+          </>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+          <AlertTriangle className="w-4 h-4 text-red-500 flex-shrink-0" />
+          <span className="text-red-700 text-sm">{error}</span>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center text-sm text-gray-500">
+          <Loader2 className="w-4 h-4 animate-spin mr-2" />
+          Loading evidence...
+        </div>
+      ) : evidence.length === 0 ? (
+        <p className="text-gray-500 italic">No evidence attached</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {evidence.map(item => (
+            <div key={item.id} className="flex items-start space-x-3 p-3 bg-gray-50 rounded-lg">
+              <div className="w-16 h-16 flex-shrink-0 bg-white border border-gray-200 rounded flex items-center justify-center overflow-hidden">
+                {thumbnails[item.id] ? (
+                  <img src={thumbnails[item.id]} alt={item.file_name} className="w-full h-full object-cover" />
+                ) : (
+                  getFileIcon(item.content_type)
+                )}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate" title={item.file_name}>{item.file_name}</p>
+                <p className="text-xs text-gray-500">
+                  {formatFileSize(item.size_bytes)} · {new Date(item.uploaded_at).toLocaleString()}
+                </p>
+                <p className="flex items-center text-xs text-gray-500 font-mono" title={`SHA-256 ${item.sha256}`}>
+                  <Fingerprint className="w-3 h-3 mr-1 flex-shrink-0" />
+                  {item.sha256.slice(0, 16)}…
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => handleDownload(item)}
+                  disabled={downloadingId === item.id}
+                  className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                  title="Download"
+                >
+                  {downloadingId === item.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                </button>
+                {canDelete && (
+                  <button
+                    onClick={() => setEvidenceToDelete(item)}
+                    className="text-red-600 hover:text-red-800"
+                    title="Delete evidence"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <ConfirmationModal
+        isOpen={!!evidenceToDelete}
+        onClose={() => setEvidenceToDelete(null)}
+        onConfirm={confirmDelete}
+        title="Delete Evidence"
+        message={`Are you sure you want to delete "${evidenceToDelete?.file_name}"? The file is removed from storage and the deletion is recorded in the audit log.`}
+        confirmText="Delete"
+        cancelText="Cancel"
+        type="danger"
+      />
+    </div>
+  );
+};
+
+export default IncidentEvidence;
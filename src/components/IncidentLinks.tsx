@@ -0,0 +1,270 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, ExternalLink, GitMerge, Link2, Loader2, Plus, Trash2 } from 'lucide-react';
+import { Database, supabase } from '../lib/supabase';
+import ConfirmationModal from './common/ConfirmationModal';
+import {
+  IncidentLinkType,
+  findDuplicateCandidates,
+  incidentLinkTypeLabels,
+  incidentLinkTypes
+} from '../utils/incidentDuplicates';
+
+type IncidentReport = Database['public']['Tables']['incident_reports']['Row'];
+type IncidentLink = Database['public']['Tables']['incident_links']['Row'];
+
+interface IncidentLinksProps {
+  incident: IncidentReport;
+  incidents: IncidentReport[];
+  canEdit: boolean;
+  onLink: (targetId: string, linkType: IncidentLinkType, note?: string) => Promise<unknown>;
+  onUnlink: (link: IncidentLink) => Promise<void>;
+  onMerge: (duplicateIds: string[]) => Promise<void>;
+  onOpenIncident: (incidentId: string) => void;
+}
+
+/**
+ * Relationships of an incident in both directions, and merging duplicates into it
+ */
+const IncidentLinks: React.FC<IncidentLinksProps> = ({
+  incident,
+  incidents,
+  canEdit,
+  onLink,
+  onUnlink,
+  onMerge,
+  onOpenIncident
+}) => {
+  const [links, setLinks] = useState<IncidentLink[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [linkType, setLinkType] = useState<IncidentLinkType>('related_to');
+  const [targetId, setTargetId] = useState('');
+  const [note, setNote] = useState('');
+  const [mergeIds, setMergeIds] = useState<string[]>([]);
+  const [showMergeConfirmation, setShowMergeConfirmation] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchLinks = useCallback(async () => {
+    setLoading(true);
+    const { data, error: fetchError } = await supabase
+      .from('incident_links')
+      .select('*')
+      .or(`source_incident_id.eq.${incident.id},target_incident_id.eq.${incident.id}`)
+      .order('created_at');
+
+    if (fetchError) {
+      setError('Failed to load linked incidents');
+    } else {
+      setLinks(data || []);
+    }
+    setLoading(false);
+  }, [incident.id]);
+
+  useEffect(() => {
+    fetchLinks();
+  }, [fetchLinks]);
+
+  const incidentsById = new Map(incidents.map(other => [other.id, other]));
+  const linkable = incidents
+    .filter(other => other.id !== incident.id && !other.merged_into)
+    .sort((a, b) => new Date(b.date_time).getTime() - new Date(a.date_time).getTime());
+
+  // Linked incidents and likely duplicates can be merged into this one
+  const mergeCandidateIds = incident.merged_into ? [] : Array.from(new Set([
+    ...links.map(link => link.source_incident_id === incident.id ? link.target_incident_id : link.source_incident_id),
+    ...findDuplicateCandidates(incident, incidents).map(candidate => candidate.incident.id)
+  ])).filter(id => {
+    const other = incidentsById.get(id);
+    return other && other.id !== incident.id && !other.merged_into;
+  });
+
+  const handleAddLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!targetId) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      await onLink(targetId, linkType, note.trim() || undefined);
+      setTargetId('');
+      setNote('');
+      await fetchLinks();
+    } catch (err) {
+      const { message } = err as { message?: string };
+      setError(message || 'Failed to link incidents');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemoveLink = async (link: IncidentLink) => {
+    try {
+      setError(null);
+      await onUnlink(link);
+      await fetchLinks();
+    } catch (err) {
+      const { message } = err as { message?: string };
+      setError(message || 'Failed to remove link');
+    }
+  };
+
+  const confirmMerge = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      await onMerge(mergeIds);
+      setMergeIds([]);
+      await fetchLinks();
+    } catch (err) {
+      const { message } = err as { message?: string };
+      setError(message || 'Failed to merge incidents');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleMergeId = (id: string) => {
+    setMergeIds(prev => prev.includes(id) ? prev.filter(existing => existing !== id) : [...prev, id]);
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold text-gray-900 mb-3 flex items-center space-x-2">
+        <Link2 className="w-5 h-5 text-gray-500" />
+        <span>Linked Incidents</span>
+      </h3>
+
+      {error && (
+        <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+          <AlertTriangle className="w-4 h-4 text-red-500 flex-shrink-0" />
+          <span className="text-red-700 text-sm">{error}</span>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center space-x-2 text-gray-500 text-sm">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          <span>Loading links...</span>
+        </div>
+      ) : links.length === 0 ? (
+        <p className="text-gray-500 italic mb-3">No linked incidents</p>
+      ) : (
+        <div className="space-y-2 mb-3">
+          {links.map(link => {
+            const outgoing = link.source_incident_id === incident.id;
+            const otherId = outgoing ? link.target_incident_id : link.source_incident_id;
+            const other = incidentsById.get(otherId);
+
+            return (
+              <div key={link.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                <div className="min-w-0">
+                  <p className="text-xs font-medium text-gray-500 uppercase">
+                    {incidentLinkTypeLabels[link.link_type][outgoing ? 'outgoing' : 'incoming']}
+                  </p>
+                  <button
+                    onClick={() => onOpenIncident(otherId)}
+                    className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800 truncate"
+                  >
+                    <span className="truncate">{other?.title || otherId.slice(0, 8)}</span>
+                    <ExternalLink className="w-3 h-3 flex-shrink-0" />
+                  </button>
+                  {link.note && <p className="text-xs text-gray-500">{link.note}</p>}
+                </div>
+                {canEdit && (
+                  <button
+                    onClick={() => handleRemoveLink(link)}
+                    className="text-red-600 hover:text-red-800"
+                    title="Remove link"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {canEdit && !incident.merged_into && (
+        <form onSubmit={handleAddLink} className="flex flex-wrap gap-2 mb-4">
+          <select
+            value={linkType}
+            onChange={(e) => setLinkType(e.target.value as IncidentLinkType)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {incidentLinkTypes.map(type => (
+              <option key={type} value={type}>{incidentLinkTypeLabels[type].outgoing}</option>
+            ))}
+          </select>
+          <select
+            value={targetId}
+            onChange={(e) => setTargetId(e.target.value)}
+            className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">Select incident</option>
+            {linkable.map(other => (
+              <option key={other.id} value={other.id}>
+                {other.title} ({new Date(other.date_time).toLocaleDateString()})
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note (optional)"
+            className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <button
+            type="submit"
+            disabled={saving || !targetId}
+            className="flex items-center space-x-1 px-3 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Link</span>
+          </button>
+        </form>
+      )}
+
+      {canEdit && mergeCandidateIds.length > 0 && (
+        <div className="border border-gray-200 rounded-lg p-4">
+          <p className="text-sm font-medium text-gray-900 mb-2">Merge duplicates into this incident</p>
+          <div className="space-y-1 mb-3">
+            {mergeCandidateIds.map(id => (
+              <label key={id} className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={mergeIds.includes(id)}
+                  onChange={() => toggleMergeId(id)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span>{incidentsById.get(id)?.title}</span>
+              </label>
+            ))}
+          </div>
+          <button
+            onClick={() => setShowMergeConfirmation(true)}
+            disabled={saving || mergeIds.length === 0}
+            className="flex items-center space-x-2 px-3 py-2 bg-teal-600 text-white rounded-lg text-sm hover:bg-teal-700 transition-colors disabled:opacity-50"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <GitMerge className="w-4 h-4" />}
+            <span>Merge Selected</span>
+          </button>
+        </div>
+      )}
+
+      <ConfirmationModal
+        isOpen={showMergeConfirmation}
+        onClose={() => setShowMergeConfirmation(false)}
+        onConfirm={confirmMerge}
+        title="Merge Incidents"
+        message={`Merge ${mergeIds.length} ${mergeIds.length === 1 ? 'incident' : 'incidents'} into "${incident.title}"? Their timelines, involved parties, documents and mitigations are combined here, and they remain only as redirects to this incident. This cannot be undone.`}
+        confirmText="Merge"
+        cancelText="Cancel"
+        type="warning"
+      />
+    </div>
+  );
+};
+
+export default IncidentLinks;
@@ -23,14 +23,54 @@ import {
   TrendingDown,
   Activity,
   Loader2,
-  Building
+  Building,
+  ArrowRight,
+  Timer,
+  BarChart3,
+  Globe,
+  ShieldCheck,
+  GitMerge,
+  PhoneCall,
+  Users,
+  DollarSign
 } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
 import { useDepartments } from '../hooks/useDepartments';
+import { useOnCall } from '../hooks/useOnCall';
+import { CostDraft, useIncidentCosts } from '../hooks/useIncidentCosts';
 import { useIncidents } from '../hooks/useIncidents';
 import AddEditIncidentForm from './AddEditIncidentForm';
+import IncidentSlaReport from './IncidentSlaReport';
+import IncidentEvidence from './IncidentEvidence';
+import IncidentTimeline from './IncidentTimeline';
+import IncidentLinks from './IncidentLinks';
+import IncidentPostReview from './IncidentPostReview';
+import IncidentPlaybook from './IncidentPlaybook';
+import IncidentAssignee from './IncidentAssignee';
+import ResponderWorkload from './ResponderWorkload';
+import OnCallSchedules from './OnCallSchedules';
+import IncidentCosts from './IncidentCosts';
+import IncidentCostDashboard from './IncidentCostDashboard';
 import Modal from './common/Modal';
 import ConfirmationModal from './common/ConfirmationModal';
+import {
+  IncidentTransition,
+  TransitionRequiredField,
+  getAvailableTransitions,
+  getMissingRequiredFields,
+  getStatusBadgeClass,
+  getStatusCategory,
+  requiredFieldLabels,
+  resolveIncidentWorkflow
+} from '../utils/incidentWorkflow';
+import { formatSlaMinutes, getIncidentSlaTimers, isSlaBreached, slaTargetLabels, SlaTimer } from '../utils/incidentSla';
+import { uploadEvidence } from '../services/evidenceService';
+import { NewTimelineEntry } from '../types/incidentTimeline';
+import { IncidentLinkType } from '../utils/incidentDuplicates';
+import { needsPostIncidentReview } from '../utils/incidentReview';
+import { resolveIncidentPlaybooks } from '../utils/incidentPlaybooks';
+import { IncidentCost, resolveIncidentCostSettings } from '../utils/incidentCosts';
+import { AppliedMitigation } from '../types/mitigation';
 
 const IncidentManagement: React.FC = () => {
   const [showReportForm, setShowReportForm] = useState(false);
@@ -44,8 +84,19 @@ const IncidentManagement: React.FC = () => {
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
   const [showDeleteConfirmation, setShowDeleteConfirmation] = useState(false);
   const [incidentToDelete, setIncidentToDelete] = useState<{id: string, title: string} | null>(null);
+  const [pendingTransition, setPendingTransition] = useState<IncidentTransition | null>(null);
+  const [transitionFields, setTransitionFields] = useState<Partial<Record<TransitionRequiredField, string>>>({});
+  const [transitionError, setTransitionError] = useState<string | null>(null);
+  const [evidenceError, setEvidenceError] = useState<string | null>(null);
+  const [transitioning, setTransitioning] = useState(false);
+  const [acknowledging, setAcknowledging] = useState(false);
+  const [verifying, setVerifying] = useState(false);
+  const [showSlaReport, setShowSlaReport] = useState(false);
+  const [showWorkload, setShowWorkload] = useState(false);
+  const [showOnCall, setShowOnCall] = useState(false);
+  const [showCosts, setShowCosts] = useState(false);
 
-  const { user, profile, hasPermission } = useAuth();
+  const { user, profile, organization, hasPermission, requireReauth } = useAuth();
   const { departments } = useDepartments();
   const { 
     incidents, 
@@ -53,22 +104,76 @@ const IncidentManagement: React.FC = () => {
     error, 
     addIncident, 
     updateIncident, 
+    transitionIncident,
+    acknowledgeIncident,
+    verifyIncident,
+    addTimelineEntry,
+    linkIncidents,
+    unlinkIncidents,
+    mergeIncidents,
+    assignIncident,
+    applyPlaybook,
+    completePlaybookStep,
     deleteIncident
   } = useIncidents();
 
+  const {
+    teams,
+    schedules,
+    overrides,
+    users,
+    saveTeam,
+    deleteTeam,
+    saveSchedule,
+    deleteSchedule,
+    addOverride,
+    deleteOverride
+  } = useOnCall();
+
+  const {
+    costs,
+    assets: costAssets,
+    fetchCosts,
+    saveCost,
+    deleteCost
+  } = useIncidentCosts();
+
+  const workflow = resolveIncidentWorkflow(organization?.settings);
+  const costSettings = resolveIncidentCostSettings(organization?.settings);
+
   // Add console log to track rendering and state
   console.log('IncidentManagement rendering, showReportForm:', showReportForm);
 
-  const handleSubmit = async (formData: any) => {
+  const handleSubmit = async (formData: any, evidenceFiles: File[], duplicateOfIds: string[]) => {
     try {
+      let savedIncident;
       if (editingIncident) {
         // Update existing incident
-        await updateIncident(editingIncident.id, formData);
+        savedIncident = await updateIncident(editingIncident.id, formData);
       } else {
         // Create new incident
-        await addIncident(formData);
+        savedIncident = await addIncident(formData);
+      }
+
+      if (savedIncident) {
+        for (const duplicateOfId of duplicateOfIds) {
+          await linkIncidents(savedIncident.id, duplicateOfId, 'duplicate_of');
+        }
       }
-      
+
+      // Evidence needs the saved incident's folder, so it is uploaded afterwards
+      setEvidenceError(null);
+      if (savedIncident && evidenceFiles.length > 0) {
+        const uploadErrors: string[] = [];
+        for (const file of evidenceFiles) {
+          const { error: uploadError } = await uploadEvidence(savedIncident.organization_id, savedIncident.id, file);
+          if (uploadError) uploadErrors.push(uploadError);
+        }
+        if (uploadErrors.length > 0) {
+          setEvidenceError(`The incident was saved but some evidence could not be uploaded: ${uploadErrors.join('; ')}`);
+        }
+      }
+
       // Close the form
       setShowReportForm(false);
       setEditingIncident(null);
@@ -85,6 +190,7 @@ const IncidentManagement: React.FC = () => {
 
   const confirmDeleteIncident = async () => {
     if (!incidentToDelete) return;
+    if (!await requireReauth('incidents.delete')) return;
     
     try {
       await deleteIncident(incidentToDelete.id);
@@ -98,6 +204,153 @@ const IncidentManagement: React.FC = () => {
     }
   };
 
+  const startTransition = (transition: IncidentTransition) => {
+    setTransitionError(null);
+    // The assignee is picked by user id; the database derives assigned_to from it
+    setTransitionFields(Object.fromEntries(
+      transition.requiredFields.map(field => [
+        field,
+        (field === 'assigned_to' ? selectedIncident?.assigned_user_id : selectedIncident?.[field]) || ''
+      ])
+    ));
+    setPendingTransition(transition);
+  };
+
+  const confirmTransition = async () => {
+    if (!pendingTransition || !selectedIncident) return;
+
+    const missing = getMissingRequiredFields(pendingTransition, transitionFields);
+    if (missing.length > 0) {
+      setTransitionError(`Please fill in: ${missing.map(field => requiredFieldLabels[field]).join(', ')}`);
+      return;
+    }
+
+    try {
+      setTransitioning(true);
+      setTransitionError(null);
+      const updated = await transitionIncident(selectedIncident.id, pendingTransition.to, transitionFields);
+      setSelectedIncident(updated);
+      setPendingTransition(null);
+    } catch (err) {
+      const { message } = err as { message?: string };
+      setTransitionError(message || 'Failed to change incident status');
+    } finally {
+      setTransitioning(false);
+    }
+  };
+
+  const handleAcknowledge = async () => {
+    if (!selectedIncident) return;
+
+    try {
+      setAcknowledging(true);
+      const updated = await acknowledgeIncident(selectedIncident.id);
+      setSelectedIncident(updated);
+    } catch (err) {
+      console.error('Error acknowledging incident:', err);
+    } finally {
+      setAcknowledging(false);
+    }
+  };
+
+  const handleVerify = async () => {
+    if (!selectedIncident) return;
+
+    try {
+      setVerifying(true);
+      const updated = await verifyIncident(selectedIncident.id);
+      setSelectedIncident(updated);
+    } catch (err) {
+      console.error('Error verifying incident:', err);
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const handleAddTimelineEntry = async (entry: NewTimelineEntry) => {
+    if (!selectedIncident) return;
+    const updated = await addTimelineEntry(selectedIncident.id, entry);
+    setSelectedIncident(updated);
+  };
+
+  const handleLinkIncident = async (targetId: string, linkType: IncidentLinkType, note?: string) => {
+    if (!selectedIncident) return;
+    return linkIncidents(selectedIncident.id, targetId, linkType, note);
+  };
+
+  const handleMergeIncidents = async (duplicateIds: string[]) => {
+    if (!selectedIncident) return;
+    const master = await mergeIncidents(selectedIncident.id, duplicateIds);
+    if (master) setSelectedIncident(master);
+    // Cost lines of the duplicates now belong to the master
+    await fetchCosts();
+  };
+
+  const handleApplyMitigation = async (mitigation: AppliedMitigation) => {
+    if (!selectedIncident) return;
+    const updated = await updateIncident(selectedIncident.id, {
+      mitigations: [...(selectedIncident.mitigations || []), mitigation]
+    });
+    if (updated) setSelectedIncident(updated);
+  };
+
+  const handleAssign = async (userId: string | null, teamId: string | null) => {
+    if (!selectedIncident) return;
+    const updated = await assignIncident(selectedIncident.id, { userId, teamId });
+    setSelectedIncident(updated);
+  };
+
+  const handleReassign = async (incidentId: string, userId: string | null) => {
+    const incident = incidents.find(candidate => candidate.id === incidentId);
+    await assignIncident(incidentId, { userId, teamId: incident?.assigned_team_id || null });
+  };
+
+  const handleSaveCost = async (draft: CostDraft, id?: string) => {
+    if (!selectedIncident) return;
+    await saveCost(selectedIncident.id, draft, id);
+  };
+
+  const handleDeleteCost = async (cost: IncidentCost) => {
+    await deleteCost(cost);
+  };
+
+  const handleApplyPlaybook = async (playbookId: string) => {
+    if (!selectedIncident) return;
+    const updated = await applyPlaybook(selectedIncident.id, playbookId);
+    setSelectedIncident(updated);
+  };
+
+  const handleTogglePlaybookStep = async (stepId: string, completed: boolean) => {
+    if (!selectedIncident) return;
+    const updated = await completePlaybookStep(selectedIncident.id, stepId, completed);
+    setSelectedIncident(updated);
+  };
+
+  const openIncident = (incidentId: string) => {
+    const incident = incidents.find(candidate => candidate.id === incidentId);
+    if (incident) setSelectedIncident(incident);
+  };
+
+  const describeSlaTimer = (timer: SlaTimer) => {
+    if (!timer.dueAt) return 'No target';
+    const minutesFromDue = ((timer.metAt ? new Date(timer.metAt) : new Date()).getTime() - new Date(timer.dueAt).getTime()) / 60000;
+    switch (timer.state) {
+      case 'met': return `Met ${formatSlaMinutes(minutesFromDue)} early`;
+      case 'missed': return `Missed by ${formatSlaMinutes(minutesFromDue)}`;
+      case 'overdue': return `Overdue by ${formatSlaMinutes(minutesFromDue)}`;
+      default: return `Due in ${formatSlaMinutes(minutesFromDue)}`;
+    }
+  };
+
+  const getSlaTimerColor = (state: SlaTimer['state']) => {
+    switch (state) {
+      case 'met': return 'text-green-600';
+      case 'missed': return 'text-orange-600';
+      case 'overdue': return 'text-red-600';
+      default: return 'text-gray-600';
+    }
+  };
+
   const handleEditIncident = (incident: any) => {
     setEditingIncident(incident);
     setShowReportForm(true);
@@ -113,26 +366,24 @@ const IncidentManagement: React.FC = () => {
     }
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'Open': return 'bg-red-100 text-red-700';
-      case 'In Progress': return 'bg-yellow-100 text-yellow-700';
-      case 'Closed': return 'bg-green-100 text-green-700';
-      default: return 'bg-gray-100 text-gray-700';
-    }
-  };
+  const getStatusColor = (status: string) => getStatusBadgeClass(workflow, status);
 
   const getStatusIcon = (status: string) => {
-    switch (status) {
-      case 'Open': return <XCircle className="w-4 h-4" />;
-      case 'In Progress': return <AlertCircle className="w-4 h-4" />;
-      case 'Closed': return <CheckCircle className="w-4 h-4" />;
+    switch (getStatusCategory(workflow, status)) {
+      case 'open': return <XCircle className="w-4 h-4" />;
+      case 'active': return <AlertCircle className="w-4 h-4" />;
+      case 'closed': return <CheckCircle className="w-4 h-4" />;
       default: return <Eye className="w-4 h-4" />;
     }
   };
 
   const filteredIncidents = incidents.filter(incident => {
-    const matchesStatus = filterStatus === 'all' || incident.status === filterStatus;
+    // Merged incidents only redirect to their master, so they are listed on request only
+    if (filterStatus === 'merged' || incident.merged_into) {
+      return filterStatus === 'merged' && !!incident.merged_into;
+    }
+    const matchesStatus = filterStatus === 'all' ||
+                         (filterStatus === 'unverified' ? !incident.verified : incident.status === filterStatus);
     const matchesSeverity = filterSeverity === 'all' || incident.severity === filterSeverity;
     const matchesDepartment = filterDepartment === 'all' || incident.department === filterDepartment;
     const matchesSearch = incident.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -161,13 +412,17 @@ const IncidentManagement: React.FC = () => {
     }
   };
 
+  const unmergedIncidents = incidents.filter(i => !i.merged_into);
+
   const incidentStats = {
-    total: incidents.length,
-    open: incidents.filter(i => i.status === 'Open').length,
-    inProgress: incidents.filter(i => i.status === 'In Progress').length,
-    closed: incidents.filter(i => i.status === 'Closed').length,
-    critical: incidents.filter(i => i.severity === 'Critical').length,
-    high: incidents.filter(i => i.severity === 'High').length
+    total: unmergedIncidents.length,
+    open: unmergedIncidents.filter(i => getStatusCategory(workflow, i.status) === 'open').length,
+    inProgress: unmergedIncidents.filter(i => getStatusCategory(workflow, i.status) === 'active').length,
+    closed: unmergedIncidents.filter(i => getStatusCategory(workflow, i.status) === 'closed').length,
+    critical: unmergedIncidents.filter(i => i.severity === 'Critical').length,
+    high: unmergedIncidents.filter(i => i.severity === 'High').length,
+    slaBreached: unmergedIncidents.filter(i => getStatusCategory(workflow, i.status) !== 'closed' && isSlaBreached(i)).length,
+    unverified: unmergedIncidents.filter(i => !i.verified).length
   };
 
   if (loading && incidents.length === 0) {
@@ -189,19 +444,75 @@ const IncidentManagement: React.FC = () => {
           <h1 className="text-2xl font-bold text-gray-900">Incident Management</h1>
           <p className="text-gray-600">Report, track, and manage security incidents</p>
         </div>
-        <button
-          onClick={() => {
-            console.log('Report Incident button clicked, setting showReportForm to true');
-            setShowReportForm(true);
-            setEditingIncident(null); // Ensure we're in "add" mode, not "edit" mode
-          }}
-          className="flex items-center space-x-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
-        >
-          <Plus className="w-4 h-4" />
-          <span>Report Incident</span>
-        </button>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => setShowSlaReport(true)}
+            className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            <BarChart3 className="w-4 h-4" />
+            <span>SLA Report</span>
+          </button>
+          <button
+            onClick={() => setShowWorkload(true)}
+            className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            <Users className="w-4 h-4" />
+            <span>Workload</span>
+          </button>
+          <button
+            onClick={() => setShowOnCall(true)}
+            className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            <PhoneCall className="w-4 h-4" />
+            <span>On-Call</span>
+          </button>
+          <button
+            onClick={() => setShowCosts(true)}
+            className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            <DollarSign className="w-4 h-4" />
+            <span>Costs</span>
+          </button>
+          <button
+            onClick={() => {
+              console.log('Report Incident button clicked, setting showReportForm to true');
+              setShowReportForm(true);
+              setEditingIncident(null); // Ensure we're in "add" mode, not "edit" mode
+            }}
+            className="flex items-center space-x-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Report Incident</span>
+          </button>
+        </div>
       </div>
 
+      {incidentStats.slaBreached > 0 && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+          <Timer className="w-5 h-5 text-red-500 flex-shrink-0" />
+          <span className="text-red-700 text-sm">
+            {incidentStats.slaBreached} open {incidentStats.slaBreached === 1 ? 'incident has' : 'incidents have'} breached an SLA target
+          </span>
+        </div>
+      )}
+
+      {incidentStats.unverified > 0 && (
+        <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Globe className="w-5 h-5 text-yellow-600 flex-shrink-0" />
+            <span className="text-yellow-800 text-sm">
+              {incidentStats.unverified} portal {incidentStats.unverified === 1 ? 'report is' : 'reports are'} awaiting verification
+            </span>
+          </div>
+          <button
+            onClick={() => setFilterStatus('unverified')}
+            className="text-sm font-medium text-yellow-800 hover:text-yellow-900"
+          >
+            Review queue
+          </button>
+        </div>
+      )}
+
       {error && (
         <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
           <AlertTriangle className="w-5 h-5 text-red-500 flex-shrink-0" />
@@ -209,6 +520,13 @@ const IncidentManagement: React.FC = () => {
         </div>
       )}
 
+      {evidenceError && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+          <AlertTriangle className="w-5 h-5 text-red-500 flex-shrink-0" />
+          <span className="text-red-700 text-sm">{evidenceError}</span>
+        </div>
+      )}
+
       {/* Statistics Overview */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-6 gap-4">
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
@@ -293,9 +611,11 @@ const IncidentManagement: React.FC = () => {
               className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             >
               <option value="all">All Status</option>
-              <option value="Open">Open</option>
-              <option value="In Progress">In Progress</option>
-              <option value="Closed">Closed</option>
+              <option value="unverified">{workflow.initialState} — unverified</option>
+              {workflow.states.map(state => (
+                <option key={state.name} value={state.name}>{state.name}</option>
+              ))}
+              <option value="merged">Merged</option>
             </select>
             
             <select
@@ -446,6 +766,24 @@ const IncidentManagement: React.FC = () => {
                       <span className={`ml-2 inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(incident.status)}`}>
                         {incident.status}
                       </span>
+                      {isSlaBreached(incident) && (
+                        <span
+                          className="ml-2 inline-flex items-center px-2 py-1 text-xs font-semibold rounded-full bg-red-600 text-white"
+                          title="SLA breached"
+                        >
+                          <Timer className="w-3 h-3 mr-1" />
+                          SLA
+                        </span>
+                      )}
+                      {!incident.verified && (
+                        <span
+                          className="ml-2 inline-flex items-center px-2 py-1 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800"
+                          title="Submitted through the reporting portal"
+                        >
+                          <Globe className="w-3 h-3 mr-1" />
+                          Unverified
+                        </span>
+                      )}
                     </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
@@ -507,6 +845,7 @@ const IncidentManagement: React.FC = () => {
             }}
             onSubmit={handleSubmit}
             incidentToEdit={editingIncident}
+            existingIncidents={incidents}
           />
         </Modal>
       )}
@@ -527,8 +866,32 @@ const IncidentManagement: React.FC = () => {
               <span className={`inline-flex px-3 py-1 text-sm font-semibold rounded-full ${getStatusColor(selectedIncident?.status)}`}>
                 {selectedIncident?.status}
               </span>
+              {selectedIncident && isSlaBreached(selectedIncident) && (
+                <span className="inline-flex items-center px-3 py-1 text-sm font-semibold rounded-full bg-red-600 text-white">
+                  <Timer className="w-4 h-4 mr-1" />
+                  SLA Breached
+                </span>
+              )}
+              {selectedIncident?.source === 'portal' && (
+                <span className={`inline-flex items-center px-3 py-1 text-sm font-semibold rounded-full ${
+                  selectedIncident.verified ? 'bg-gray-100 text-gray-700' : 'bg-yellow-100 text-yellow-800'
+                }`}>
+                  <Globe className="w-4 h-4 mr-1" />
+                  {selectedIncident.verified ? 'Portal report' : 'Unverified portal report'}
+                </span>
+              )}
             </div>
             <div className="flex items-center space-x-2">
+              {selectedIncident && !selectedIncident.verified && hasPermission('incidents.update') && (
+                <button
+                  onClick={handleVerify}
+                  disabled={verifying}
+                  className="flex items-center space-x-2 px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                >
+                  {verifying ? <Loader2 className="w-4 h-4 animate-spin" /> : <ShieldCheck className="w-4 h-4" />}
+                  <span>Verify Report</span>
+                </button>
+              )}
               {hasPermission('incidents.update') && (
                 <button 
                   onClick={() => {
@@ -557,6 +920,24 @@ const IncidentManagement: React.FC = () => {
         </div>
         
         <div className="p-6 space-y-6">
+          {selectedIncident?.merged_into && (
+            <div className="p-4 bg-teal-50 border border-teal-200 rounded-lg flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <GitMerge className="w-5 h-5 text-teal-600 flex-shrink-0" />
+                <span className="text-teal-800 text-sm">
+                  This incident was merged into "{incidents.find(i => i.id === selectedIncident.merged_into)?.title || 'another incident'}"
+                  {selectedIncident.merged_at && ` on ${new Date(selectedIncident.merged_at).toLocaleString()}`}. Continue working on the master record.
+                </span>
+              </div>
+              <button
+                onClick={() => openIncident(selectedIncident.merged_into)}
+                className="text-sm font-medium text-teal-800 hover:text-teal-900"
+              >
+                Open master incident
+              </button>
+            </div>
+          )}
+
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
             {/* Main Details */}
             <div className="lg:col-span-2 space-y-6">
@@ -567,6 +948,40 @@ const IncidentManagement: React.FC = () => {
                 </div>
               </div>
               
+              {hasPermission('incidents.update') && selectedIncident && (
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900 mb-3">Workflow</h3>
+                  {getAvailableTransitions(workflow, selectedIncident.status, profile?.role).length > 0 ? (
+                    <div className="flex flex-wrap gap-2">
+                      {getAvailableTransitions(workflow, selectedIncident.status, profile?.role).map(transition => (
+                        <button
+                          key={transition.to}
+                          onClick={() => startTransition(transition)}
+                          className="flex items-center space-x-2 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 transition-colors"
+                        >
+                          <ArrowRight className="w-4 h-4" />
+                          <span>Move to {transition.to}</span>
+                        </button>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-gray-500 italic">No status changes are available to you from {selectedIncident.status}.</p>
+                  )}
+                </div>
+              )}
+
+              {selectedIncident && (
+                <IncidentPlaybook
+                  key={selectedIncident.id}
+                  incident={selectedIncident}
+                  playbooks={resolveIncidentPlaybooks(organization?.settings)}
+                  canEdit={hasPermission('incidents.update')}
+                  userRole={profile?.role}
+                  onApply={handleApplyPlaybook}
+                  onToggleStep={handleTogglePlaybookStep}
+                />
+              )}
+
               {selectedIncident?.immediate_actions && (
                 <div>
                   <h3 className="text-lg font-semibold text-gray-900 mb-3">Immediate Actions Taken</h3>
@@ -576,6 +991,24 @@ const IncidentManagement: React.FC = () => {
                 </div>
               )}
               
+              {selectedIncident?.root_cause && (
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900 mb-3">Root Cause</h3>
+                  <div className="bg-gray-50 rounded-lg p-4">
+                    <p className="text-gray-700">{selectedIncident.root_cause}</p>
+                  </div>
+                </div>
+              )}
+
+              {selectedIncident?.resolution_summary && (
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900 mb-3">Resolution Summary</h3>
+                  <div className="bg-gray-50 rounded-lg p-4">
+                    <p className="text-gray-700">{selectedIncident.resolution_summary}</p>
+                  </div>
+                </div>
+              )}
+
               {/* Involved Parties */}
               <div>
                 <h3 className="text-lg font-semibold text-gray-900 mb-3">Involved Parties</h3>
@@ -595,6 +1028,47 @@ const IncidentManagement: React.FC = () => {
                 </div>
               </div>
               
+              {selectedIncident && (
+                <IncidentCosts
+                  key={selectedIncident.id}
+                  incident={selectedIncident}
+                  costs={costs}
+                  assets={costAssets}
+                  settings={costSettings}
+                  canEdit={hasPermission('incidents.update')}
+                  onSave={handleSaveCost}
+                  onDelete={handleDeleteCost}
+                />
+              )}
+
+              {selectedIncident && (
+                <IncidentEvidence
+                  incidentId={selectedIncident.id}
+                  organizationId={selectedIncident.organization_id}
+                />
+              )}
+
+              {selectedIncident && needsPostIncidentReview(selectedIncident, workflow) && (
+                <IncidentPostReview
+                  key={selectedIncident.id}
+                  incident={selectedIncident}
+                  canEdit={hasPermission('incidents.update')}
+                  onApplyMitigation={handleApplyMitigation}
+                />
+              )}
+
+              {selectedIncident && (
+                <IncidentLinks
+                  incident={selectedIncident}
+                  incidents={incidents}
+                  canEdit={hasPermission('incidents.update')}
+                  onLink={handleLinkIncident}
+                  onUnlink={unlinkIncidents}
+                  onMerge={handleMergeIncidents}
+                  onOpenIncident={openIncident}
+                />
+              )}
+
               {selectedIncident?.documents?.length > 0 && (
                 <div>
                   <h3 className="text-lg font-semibold text-gray-900 mb-3">Supporting Documents</h3>
@@ -646,13 +1120,51 @@ const IncidentManagement: React.FC = () => {
                     <label className="text-sm font-medium text-gray-500">Department</label>
                     <p className="text-gray-900">{selectedIncident?.department}</p>
                   </div>
-                  <div>
-                    <label className="text-sm font-medium text-gray-500">Assigned To</label>
-                    <p className="text-gray-900">{selectedIncident?.assigned_to || 'Unassigned'}</p>
-                  </div>
+                  {selectedIncident && (
+                    <IncidentAssignee
+                      key={selectedIncident.id}
+                      incident={selectedIncident}
+                      users={users}
+                      teams={teams}
+                      schedules={schedules}
+                      overrides={overrides}
+                      canEdit={hasPermission('incidents.update')}
+                      onAssign={handleAssign}
+                    />
+                  )}
                 </div>
               </div>
               
+              {selectedIncident && (
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900 mb-3">SLA</h3>
+                  <div className="space-y-3">
+                    {getIncidentSlaTimers(selectedIncident).map(timer => (
+                      <div key={timer.type}>
+                        <label className="text-sm font-medium text-gray-500">{slaTargetLabels[timer.type]}</label>
+                        <p className={`text-sm font-medium ${getSlaTimerColor(timer.state)}`}>{describeSlaTimer(timer)}</p>
+                        {timer.dueAt && (
+                          <p className="text-xs text-gray-500">Due {new Date(timer.dueAt).toLocaleString()}</p>
+                        )}
+                      </div>
+                    ))}
+                    {selectedIncident.escalation_level > 0 && (
+                      <p className="text-sm text-red-600">Escalated {selectedIncident.escalation_level} {selectedIncident.escalation_level === 1 ? 'time' : 'times'}</p>
+                    )}
+                    {!selectedIncident.acknowledged_at && hasPermission('incidents.update') && (
+                      <button
+                        onClick={handleAcknowledge}
+                        disabled={acknowledging}
+                        className="flex items-center space-x-2 px-3 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
+                      >
+                        {acknowledging ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle className="w-4 h-4" />}
+                        <span>Acknowledge</span>
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )}
+
               <div>
                 <h3 className="text-lg font-semibold text-gray-900 mb-3">Reporter Information</h3>
                 <div className="space-y-3">
@@ -660,10 +1172,14 @@ const IncidentManagement: React.FC = () => {
                     <label className="text-sm font-medium text-gray-500">Name</label>
                     <p className="text-gray-900">{selectedIncident?.reporter_name}</p>
                   </div>
-                  <div>
-                    <label className="text-sm font-medium text-gray-500">Email</label>
-                    <p className="text-gray-900">{selectedIncident?.reporter_email}</p>
-                  </div>
+                  {selectedIncident?.reporter_anonymous ? (
+                    <p className="text-sm text-gray-500 italic">Reported anonymously; follow-up is through the reporter's tracking code</p>
+                  ) : (
+                    <div>
+                      <label className="text-sm font-medium text-gray-500">Email</label>
+                      <p className="text-gray-900">{selectedIncident?.reporter_email}</p>
+                    </div>
+                  )}
                   {selectedIncident?.reporter_phone && (
                     <div>
                       <label className="text-sm font-medium text-gray-500">Phone</label>
@@ -676,30 +1192,84 @@ const IncidentManagement: React.FC = () => {
           </div>
           
           {/* Timeline */}
-          {selectedIncident?.timeline && selectedIncident.timeline.length > 0 && (
-            <div>
-              <h3 className="text-lg font-semibold text-gray-900 mb-4">Incident Timeline</h3>
-              <div className="space-y-4">
-                {selectedIncident.timeline.map((event: any, index: number) => (
-                  <div key={index} className="flex items-start space-x-3">
-                    <div className="w-2 h-2 bg-blue-500 rounded-full mt-2"></div>
-                    <div className="flex-1">
-                      <div className="flex items-center justify-between">
-                        <p className="text-sm font-medium text-gray-900">{event.action}</p>
-                        <span className="text-xs text-gray-500">
-                          {new Date(event.timestamp).toLocaleString()}
-                        </span>
-                      </div>
-                      <p className="text-sm text-gray-600">by {event.user}</p>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            </div>
+          {selectedIncident && (
+            <IncidentTimeline
+              timeline={selectedIncident.timeline}
+              canAddEntries={hasPermission('incidents.update')}
+              onAddEntry={handleAddTimelineEntry}
+            />
           )}
         </div>
       </Modal>
 
+      {/* SLA Compliance Report */}
+      <Modal
+        isOpen={showSlaReport}
+        onClose={() => setShowSlaReport(false)}
+        title="SLA Compliance"
+        size="2xl"
+      >
+        <IncidentSlaReport incidents={incidents} />
+      </Modal>
+
+      {/* Incident Costs */}
+      <Modal
+        isOpen={showCosts}
+        onClose={() => setShowCosts(false)}
+        title="Incident Costs"
+        size="2xl"
+      >
+        <IncidentCostDashboard
+          incidents={incidents}
+          costs={costs}
+          assets={costAssets}
+          settings={costSettings}
+        />
+      </Modal>
+
+      {/* Responder Workload */}
+      <Modal
+        isOpen={showWorkload}
+        onClose={() => setShowWorkload(false)}
+        title="Responder Workload"
+        size="2xl"
+      >
+        <ResponderWorkload
+          incidents={incidents}
+          workflow={workflow}
+          users={users}
+          canEdit={hasPermission('incidents.update')}
+          onReassign={handleReassign}
+          onOpenIncident={(incidentId) => {
+            setShowWorkload(false);
+            openIncident(incidentId);
+          }}
+        />
+      </Modal>
+
+      {/* On-Call Schedules */}
+      <Modal
+        isOpen={showOnCall}
+        onClose={() => setShowOnCall(false)}
+        title="On-Call"
+        size="2xl"
+      >
+        <OnCallSchedules
+          teams={teams}
+          schedules={schedules}
+          overrides={overrides}
+          users={users}
+          departments={departments}
+          canEdit={hasPermission('incidents.update')}
+          onSaveTeam={saveTeam}
+          onDeleteTeam={deleteTeam}
+          onSaveSchedule={saveSchedule}
+          onDeleteSchedule={deleteSchedule}
+          onAddOverride={addOverride}
+          onDeleteOverride={deleteOverride}
+        />
+      </Modal>
+
       {/* Confirmation Modal for Delete */}
       <ConfirmationModal
         isOpen={showDeleteConfirmation}
@@ -711,6 +1281,54 @@ const IncidentManagement: React.FC = () => {
         cancelText="Cancel"
         type="danger"
       />
+
+      {/* Confirmation Modal for Status Changes */}
+      <ConfirmationModal
+        isOpen={!!pendingTransition}
+        onClose={() => setPendingTransition(null)}
+        onConfirm={confirmTransition}
+        title={`Move to ${pendingTransition?.to}`}
+        message={`Change the status of "${selectedIncident?.title}" from ${pendingTransition?.from} to ${pendingTransition?.to}?`}
+        confirmText={transitioning ? 'Saving...' : 'Change Status'}
+        cancelText="Cancel"
+        type="info"
+        closeOnConfirm={false}
+        confirmDisabled={transitioning}
+      >
+        {pendingTransition && pendingTransition.requiredFields.length > 0 && (
+          <div className="space-y-3">
+            {pendingTransition.requiredFields.map(field => (
+              <div key={field}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {requiredFieldLabels[field]} *
+                </label>
+                {field === 'assigned_to' ? (
+                  <select
+                    value={transitionFields[field] || ''}
+                    onChange={(e) => setTransitionFields(prev => ({ ...prev, [field]: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="">Select assignee</option>
+                    {users.map(candidate => (
+                      <option key={candidate.user_id} value={candidate.user_id}>{candidate.full_name}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <textarea
+                    rows={3}
+                    value={transitionFields[field] || ''}
+                    onChange={(e) => setTransitionFields(prev => ({ ...prev, [field]: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        {transitionError && (
+          <p className="mt-3 text-sm text-red-600">{transitionError}</p>
+        )}
+      </ConfirmationModal>
     </div>
   );
 };
@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Clock, ListChecks, Loader2 } from 'lucide-react';
+import { Database } from '../lib/supabase';
+import { IncidentRole, incidentRoleLabels } from '../utils/incidentWorkflow';
+import { formatSlaMinutes } from '../utils/incidentSla';
+import {
+  IncidentPlaybook as PlaybookDefinition,
+  PlaybookStepStatus,
+  getPlaybookProgress,
+  getPlaybookStepStatus
+} from '../utils/incidentPlaybooks';
+
+type IncidentReport = Database['public']['Tables']['incident_reports']['Row'];
+
+interface IncidentPlaybookProps {
+  incident: IncidentReport;
+  playbooks: PlaybookDefinition[];
+  canEdit: boolean;
+  userRole?: IncidentRole;
+  onApply: (playbookId: string) => Promise<void>;
+  onToggleStep: (stepId: string, completed: boolean) => Promise<void>;
+}
+
+const stepStateColors: Record<PlaybookStepStatus['state'], string> = {
+  done: 'text-green-600',
+  late: 'text-orange-600',
+  overdue: 'text-red-600',
+  pending: 'text-gray-500'
+};
+
+/**
+ * Response checklist of the playbook an incident follows. Steps for the viewer's role are highlighted
+ */
+const IncidentPlaybook: React.FC<IncidentPlaybookProps> = ({
+  incident,
+  playbooks,
+  canEdit,
+  userRole,
+  onApply,
+  onToggleStep
+}) => {
+  const [playbookId, setPlaybookId] = useState('');
+  const [savingStepId, setSavingStepId] = useState<string | null>(null);
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const playbook = incident.playbook;
+
+  // Incidents without a playbook only show the section to people who can attach one
+  if (!playbook && (!canEdit || playbooks.length === 0 || incident.merged_into)) {
+    return null;
+  }
+
+  const handleApply = async () => {
+    if (!playbookId) return;
+
+    try {
+      setApplying(true);
+      setError(null);
+      await onApply(playbookId);
+    } catch (err) {
+      const { message } = err as { message?: string };
+      setError(message || 'Failed to apply the playbook');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const handleToggle = async (stepId: string, completed: boolean) => {
+    try {
+      setSavingStepId(stepId);
+      setError(null);
+      await onToggleStep(stepId, completed);
+    } catch (err) {
+      const { message } = err as { message?: string };
+      setError(message || 'Failed to update the checklist');
+    } finally {
+      setSavingStepId(null);
+    }
+  };
+
+  const describeStep = (status: PlaybookStepStatus) => {
+    if (!status.dueAt) return null;
+    const minutesFromDue = (Date.now() - new Date(status.dueAt).getTime()) / 60000;
+    switch (status.state) {
+      case 'overdue': return `Overdue by ${formatSlaMinutes(minutesFromDue)}`;
+      case 'pending': return `Due in ${formatSlaMinutes(minutesFromDue)}`;
+      case 'late': return 'Completed after target';
+      default: return null;
+    }
+  };
+
+  const progress = playbook ? getPlaybookProgress(playbook) : null;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+          <ListChecks className="w-5 h-5 text-gray-500" />
+          <span>{playbook ? `Playbook: ${playbook.name}` : 'Playbook'}</span>
+        </h3>
+        {progress && (
+          <span className="text-sm text-gray-600">{progress.done} of {progress.total} done</span>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+          <AlertTriangle className="w-4 h-4 text-red-500 flex-shrink-0" />
+          <span className="text-red-700 text-sm">{error}</span>
+        </div>
+      )}
+
+      {playbook && progress ? (
+        <>
+          <div className="w-full bg-gray-200 rounded-full h-2 mb-3">
+            <div
+              className="bg-cyan-600 h-2 rounded-full"
+              style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+            />
+          </div>
+          <div className="space-y-2">
+            {playbook.steps.map((step, index) => {
+              const status = getPlaybookStepStatus(incident, step);
+              const mine = !!step.role && step.role === userRole;
+              const dueText = describeStep(status);
+
+              return (
+                <div
+                  key={step.id}
+                  className={`flex items-start space-x-3 p-3 rounded-lg ${mine ? 'bg-cyan-50 border border-cyan-200' : 'bg-gray-50'}`}
+                >
+                  {savingStepId === step.id ? (
+                    <Loader2 className="w-4 h-4 mt-0.5 animate-spin text-gray-500 flex-shrink-0" />
+                  ) : (
+                    <input
+                      type="checkbox"
+                      checked={!!step.completed_at}
+                      onChange={(e) => handleToggle(step.id, e.target.checked)}
+                      disabled={!canEdit || savingStepId !== null}
+                      className="mt-0.5 rounded border-gray-300 text-cyan-600 focus:ring-cyan-500"
+                    />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className={`text-sm ${step.completed_at ? 'text-gray-500 line-through' : 'text-gray-900'}`}>
+                      {index + 1}. {step.title}
+                    </p>
+                    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-1 text-xs">
+                      <span className="px-2 py-0.5 bg-white border border-gray-200 rounded-full text-gray-600">
+                        {step.role ? incidentRoleLabels[step.role] : 'Any responder'}
+                      </span>
+                      {dueText && (
+                        <span className={`flex items-center space-x-1 ${stepStateColors[status.state]}`}>
+                          <Clock className="w-3 h-3" />
+                          <span>{dueText}</span>
+                        </span>
+                      )}
+                      {step.completed_at && (
+                        <span className="text-gray-500">
+                          Done by {step.completed_by_name || 'Unknown'} on {new Date(step.completed_at).toLocaleString()}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      ) : (
+        <div className="flex gap-2">
+          <select
+            value={playbookId}
+            onChange={(e) => setPlaybookId(e.target.value)}
+            className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">Select playbook</option>
+            {playbooks.map(definition => (
+              <option key={definition.id} value={definition.id}>{definition.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleApply}
+            disabled={applying || !playbookId}
+            className="flex items-center space-x-1 px-3 py-2 bg-cyan-600 text-white rounded-lg text-sm hover:bg-cyan-700 transition-colors disabled:opacity-50"
+          >
+            {applying ? <Loader2 className="w-4 h-4 animate-spin" /> : <ListChecks className="w-4 h-4" />}
+            <span>Apply Playbook</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IncidentPlaybook;
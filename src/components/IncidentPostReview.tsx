@@ -0,0 +1,667 @@
+import React, { useEffect, useState } from 'react';
+import {
+  AlertTriangle,
+  CheckCircle,
+  ClipboardCheck,
+  Loader2,
+  Plus,
+  RotateCcw,
+  Save,
+  Shield,
+  Target,
+  Trash2
+} from 'lucide-react';
+import { Database, supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import { ReviewRiskDraft, useIncidentReview } from '../hooks/useIncidentReview';
+import { AppliedMitigation } from '../types/mitigation';
+import { FishboneAnalysis, ReviewActionStatus, RootCauseMethod } from '../types/incidentReview';
+import {
+  fishboneCategories,
+  fishboneCategoryLabels,
+  getActionProgress,
+  isActionOverdue,
+  reviewActionStatusColors,
+  reviewActionStatusLabels,
+  reviewActionStatuses,
+  rootCauseMethodLabels
+} from '../utils/incidentReview';
+import { MentionableUser } from '../utils/incidentTimeline';
+import MitigationDisplay from './MitigationDisplay';
+
+type IncidentReport = Database['public']['Tables']['incident_reports']['Row'];
+type IncidentReview = Database['public']['Tables']['incident_reviews']['Row'];
+
+interface IncidentPostReviewProps {
+  incident: IncidentReport;
+  canEdit: boolean;
+  onApplyMitigation: (mitigation: AppliedMitigation) => Promise<void>;
+}
+
+interface ReviewDraft {
+  summary: string;
+  rca_method: RootCauseMethod;
+  five_whys: string[];
+  fishbone: FishboneAnalysis;
+  root_cause: string;
+  contributing_factors: string;
+  went_well: string;
+  went_badly: string;
+}
+
+const whyCount = 5;
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+// List fields are edited one item per line
+const toLines = (items: string[]) => items.join('\n');
+const fromLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+const toDraft = (review: IncidentReview): ReviewDraft => ({
+  summary: review.summary || '',
+  rca_method: review.rca_method,
+  five_whys: Array.from({ length: whyCount }, (_, index) => review.five_whys[index] || ''),
+  fishbone: review.fishbone,
+  root_cause: review.root_cause || '',
+  contributing_factors: toLines(review.contributing_factors),
+  went_well: toLines(review.went_well),
+  went_badly: toLines(review.went_badly)
+});
+
+const emptyRisk: ReviewRiskDraft = {
+  title: '',
+  description: '',
+  category: 'physical_security_vulnerabilities',
+  impact: 'medium',
+  likelihood: 'medium',
+  owner_user_id: null
+};
+
+/**
+ * Post-incident review of a closed High or Critical incident: root-cause analysis, lessons, action
+ * items tracked to completion, and risks or mitigations raised from the findings
+ */
+const IncidentPostReview: React.FC<IncidentPostReviewProps> = ({ incident, canEdit, onApplyMitigation }) => {
+  const { user, hasPermission } = useAuth();
+  const {
+    review,
+    actions,
+    spawnedRisks,
+    loading,
+    error,
+    startReview,
+    saveReview,
+    addAction,
+    updateAction,
+    deleteAction,
+    createRisk,
+    createMitigation
+  } = useIncidentReview(incident);
+
+  const [draft, setDraft] = useState<ReviewDraft | null>(null);
+  const [users, setUsers] = useState<MentionableUser[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [newAction, setNewAction] = useState({ description: '', owner_user_id: '', due_date: '' });
+  const [riskDraft, setRiskDraft] = useState<ReviewRiskDraft | null>(null);
+  const [mitigationDraft, setMitigationDraft] = useState<{ name: string; description: string; score: number } | null>(null);
+
+  useEffect(() => {
+    setDraft(review ? toDraft(review) : null);
+  }, [review]);
+
+  useEffect(() => {
+    const fetchUsers = async () => {
+      const { data } = await supabase
+        .from('user_profiles')
+        .select('user_id, full_name')
+        .order('full_name');
+      setUsers((data || []).filter(profile => profile.full_name));
+    };
+
+    fetchUsers();
+  }, []);
+
+  const editable = canEdit && review?.status === 'draft';
+  const userName = (userId: string | null) => users.find(candidate => candidate.user_id === userId)?.full_name || 'Unassigned';
+  const progress = getActionProgress(actions);
+
+  const run = async (task: () => Promise<unknown>, fallback: string) => {
+    try {
+      setSaving(true);
+      setFormError(null);
+      await task();
+      return true;
+    } catch (err) {
+      const { message } = err as { message?: string };
+      setFormError(message || fallback);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const draftUpdate = (status?: IncidentReview['status']) => draft ? {
+    summary: draft.summary.trim() || null,
+    rca_method: draft.rca_method,
+    five_whys: draft.five_whys.map(why => why.trim()).filter(Boolean),
+    fishbone: Object.fromEntries(
+      Object.entries(draft.fishbone)
+        .map(([category, causes]) => [category, (causes || []).map(cause => cause.trim()).filter(Boolean)])
+        .filter(([, causes]) => causes.length > 0)
+    ) as FishboneAnalysis,
+    root_cause: draft.root_cause.trim() || null,
+    contributing_factors: fromLines(draft.contributing_factors),
+    went_well: fromLines(draft.went_well),
+    went_badly: fromLines(draft.went_badly),
+    ...(status ? { status } : {})
+  } : {};
+
+  const handleAddAction = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newAction.description.trim()) return;
+
+    const added = await run(() => addAction({
+      description: newAction.description.trim(),
+      owner_user_id: newAction.owner_user_id || null,
+      due_date: newAction.due_date || null
+    }), 'Failed to add the action item');
+
+    if (added) setNewAction({ description: '', owner_user_id: '', due_date: '' });
+  };
+
+  const handleCreateRisk = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!riskDraft?.title.trim()) return;
+
+    const created = await run(() => createRisk({ ...riskDraft, title: riskDraft.title.trim() }), 'Failed to create the risk');
+    if (created) setRiskDraft(null);
+  };
+
+  const handleCreateMitigation = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!mitigationDraft?.name.trim()) return;
+
+    const created = await run(async () => {
+      const applied = await createMitigation({
+        name: mitigationDraft.name.trim(),
+        description: mitigationDraft.description.trim(),
+        category: 'incident',
+        default_risk_reduction_score: mitigationDraft.score
+      });
+      if (applied) await onApplyMitigation(applied);
+    }, 'Failed to create the mitigation');
+    if (created) setMitigationDraft(null);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center space-x-2 text-gray-500 text-sm">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        <span>Loading post-incident review...</span>
+      </div>
+    );
+  }
+
+  const shownError = formError || error;
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+          <ClipboardCheck className="w-5 h-5 text-gray-500" />
+          <span>Post-Incident Review</span>
+        </h3>
+        {review && (
+          <span className={`inline-flex px-3 py-1 text-xs font-semibold rounded-full ${
+            review.status === 'completed' ? 'bg-green-100 text-green-700' : 'bg-yellow-100 text-yellow-800'
+          }`}>
+            {review.status === 'completed'
+              ? `Completed ${review.completed_at ? new Date(review.completed_at).toLocaleDateString() : ''}`
+              : 'Draft'}
+          </span>
+        )}
+      </div>
+
+      {shownError && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+          <AlertTriangle className="w-4 h-4 text-red-500 flex-shrink-0" />
+          <span className="text-red-700 text-sm">{shownError}</span>
+        </div>
+      )}
+
+      {!review || !draft ? (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600">
+            Capture what caused this incident, what went well or badly, and the follow-up actions before the learning is lost.
+          </p>
+          {canEdit && (
+            <button
+              onClick={() => run(startReview, 'Failed to start the post-incident review')}
+              disabled={saving}
+              className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+              <span>Start Review</span>
+            </button>
+          )}
+        </div>
+      ) : (
+        <>
+          {/* Analysis */}
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Summary</label>
+              <textarea
+                rows={3}
+                value={draft.summary}
+                onChange={(e) => setDraft({ ...draft, summary: e.target.value })}
+                disabled={!editable}
+                className={inputClass}
+                placeholder="What happened and what was the impact?"
+              />
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium text-gray-700">Root-Cause Analysis</label>
+                <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+                  {(Object.keys(rootCauseMethodLabels) as RootCauseMethod[]).map(method => (
+                    <button
+                      key={method}
+                      type="button"
+                      onClick={() => setDraft({ ...draft, rca_method: method })}
+                      disabled={!editable}
+                      className={`px-3 py-1 text-sm ${
+                        draft.rca_method === method ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      {rootCauseMethodLabels[method]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {draft.rca_method === 'five_whys' ? (
+                <div className="space-y-2">
+                  {draft.five_whys.map((why, index) => (
+                    <div key={index} className="flex items-center space-x-2">
+                      <span className="w-16 text-sm text-gray-500 flex-shrink-0">Why {index + 1}?</span>
+                      <input
+                        type="text"
+                        value={why}
+                        onChange={(e) => setDraft({
+                          ...draft,
+                          five_whys: draft.five_whys.map((existing, i) => i === index ? e.target.value : existing)
+                        })}
+                        disabled={!editable}
+                        className={inputClass}
+                        placeholder={index === 0 ? 'Why did the incident happen?' : 'Why was that the case?'}
+                      />
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {fishboneCategories.map(category => (
+                    <div key={category}>
+                      <label className="block text-xs font-medium text-gray-500 uppercase mb-1">
+                        {fishboneCategoryLabels[category]}
+                      </label>
+                      <textarea
+                        rows={2}
+                        value={toLines(draft.fishbone[category] || [])}
+                        onChange={(e) => setDraft({
+                          ...draft,
+                          fishbone: { ...draft.fishbone, [category]: e.target.value.split('\n') }
+                        })}
+                        disabled={!editable}
+                        className={`${inputClass} text-sm`}
+                        placeholder="One cause per line"
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Root Cause *</label>
+              <textarea
+                rows={2}
+                value={draft.root_cause}
+                onChange={(e) => setDraft({ ...draft, root_cause: e.target.value })}
+                disabled={!editable}
+                className={inputClass}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {([
+                ['contributing_factors', 'Contributing Factors'],
+                ['went_well', 'What Went Well'],
+                ['went_badly', 'What Went Badly']
+              ] as const).map(([field, label]) => (
+                <div key={field}>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">{label}</label>
+                  <textarea
+                    rows={4}
+                    value={draft[field]}
+                    onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+                    disabled={!editable}
+                    className={`${inputClass} text-sm`}
+                    placeholder="One item per line"
+                  />
+                </div>
+              ))}
+            </div>
+
+            {canEdit && (
+              <div className="flex justify-end space-x-2">
+                {review.status === 'draft' ? (
+                  <>
+                    <button
+                      onClick={() => run(() => saveReview(draftUpdate()), 'Failed to save the review')}
+                      disabled={saving}
+                      className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                    >
+                      <Save className="w-4 h-4" />
+                      <span>Save Draft</span>
+                    </button>
+                    <button
+                      onClick={() => run(() => saveReview(draftUpdate('completed')), 'Failed to complete the review')}
+                      disabled={saving || !draft.root_cause.trim()}
+                      className="flex items-center space-x-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                    >
+                      {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle className="w-4 h-4" />}
+                      <span>Complete Review</span>
+                    </button>
+                  </>
+                ) : (
+                  <button
+                    onClick={() => run(() => saveReview({ status: 'draft' }), 'Failed to reopen the review')}
+                    disabled={saving}
+                    className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                    <span>Reopen Review</span>
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Action items */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="font-semibold text-gray-900">Action Items</h4>
+              {progress.total > 0 && (
+                <span className="text-sm text-gray-500">{progress.done} of {progress.total} done</span>
+              )}
+            </div>
+
+            {actions.length === 0 ? (
+              <p className="text-sm text-gray-500 italic mb-3">No action items</p>
+            ) : (
+              <div className="space-y-2 mb-3">
+                {actions.map(action => {
+                  const overdue = isActionOverdue(action);
+                  const canUpdate = canEdit || action.owner_user_id === user?.id;
+
+                  return (
+                    <div key={action.id} className={`p-3 rounded-lg border ${overdue ? 'border-red-200 bg-red-50' : 'border-gray-200 bg-gray-50'}`}>
+                      <div className="flex items-start justify-between space-x-3">
+                        <div className="min-w-0">
+                          <p className={`text-sm ${action.status === 'cancelled' ? 'line-through text-gray-500' : 'text-gray-900'}`}>
+                            {action.description}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {userName(action.owner_user_id)}
+                            {action.due_date && ` · due ${new Date(action.due_date).toLocaleDateString()}`}
+                            {overdue && <span className="text-red-600 font-medium"> · overdue</span>}
+                            {action.completed_at && ` · done ${new Date(action.completed_at).toLocaleDateString()}`}
+                          </p>
+                        </div>
+                        <div className="flex items-center space-x-2 flex-shrink-0">
+                          {canUpdate ? (
+                            <select
+                              value={action.status}
+                              onChange={(e) => run(
+                                () => updateAction(action.id, { status: e.target.value as ReviewActionStatus }),
+                                'Failed to update the action item'
+                              )}
+                              className="px-2 py-1 border border-gray-300 rounded-lg text-xs focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            >
+                              {reviewActionStatuses.map(status => (
+                                <option key={status} value={status}>{reviewActionStatusLabels[status]}</option>
+                              ))}
+                            </select>
+                          ) : (
+                            <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${reviewActionStatusColors[action.status]}`}>
+                              {reviewActionStatusLabels[action.status]}
+                            </span>
+                          )}
+                          {canEdit && (
+                            <button
+                              onClick={() => run(() => deleteAction(action.id), 'Failed to delete the action item')}
+                              className="text-red-600 hover:text-red-800"
+                              title="Delete action item"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {canEdit && (
+              <form onSubmit={handleAddAction} className="flex flex-wrap gap-2">
+                <input
+                  type="text"
+                  value={newAction.description}
+                  onChange={(e) => setNewAction({ ...newAction, description: e.target.value })}
+                  placeholder="What needs to be done?"
+                  className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <select
+                  value={newAction.owner_user_id}
+                  onChange={(e) => setNewAction({ ...newAction, owner_user_id: e.target.value })}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Owner</option>
+                  {users.map(candidate => (
+                    <option key={candidate.user_id} value={candidate.user_id}>{candidate.full_name}</option>
+                  ))}
+                </select>
+                <input
+                  type="date"
+                  value={newAction.due_date}
+                  onChange={(e) => setNewAction({ ...newAction, due_date: e.target.value })}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <button
+                  type="submit"
+                  disabled={saving || !newAction.description.trim()}
+                  className="flex items-center space-x-1 px-3 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  <Plus className="w-4 h-4" />
+                  <span>Add</span>
+                </button>
+              </form>
+            )}
+          </div>
+
+          {/* Follow-up */}
+          <div>
+            <h4 className="font-semibold text-gray-900 mb-2">Follow-up Risks and Mitigations</h4>
+
+            {spawnedRisks.length > 0 && (
+              <div className="space-y-1 mb-3">
+                {spawnedRisks.map(risk => (
+                  <div key={risk.id} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg text-sm">
+                    <span className="flex items-center space-x-2 text-gray-900">
+                      <Target className="w-4 h-4 text-orange-500" />
+                      <span>{risk.title}</span>
+                    </span>
+                    <span className="text-xs text-gray-500 capitalize">{risk.status} · score {risk.risk_score}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {(incident.mitigations || []).length > 0 && (
+              <div className="mb-3">
+                <MitigationDisplay mitigations={(incident.mitigations || []) as AppliedMitigation[]} compact />
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              {hasPermission('risks.create') && !riskDraft && (
+                <button
+                  onClick={() => setRiskDraft({
+                    ...emptyRisk,
+                    title: draft.root_cause.trim().slice(0, 120),
+                    description: `Identified in the post-incident review of "${incident.title}".`
+                  })}
+                  className="flex items-center space-x-1 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+                >
+                  <Target className="w-4 h-4" />
+                  <span>Raise Risk</span>
+                </button>
+              )}
+              {canEdit && !mitigationDraft && (
+                <button
+                  onClick={() => setMitigationDraft({ name: '', description: '', score: 10 })}
+                  className="flex items-center space-x-1 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+                >
+                  <Shield className="w-4 h-4" />
+                  <span>Add Mitigation</span>
+                </button>
+              )}
+            </div>
+
+            {riskDraft && (
+              <form onSubmit={handleCreateRisk} className="mt-3 p-3 border border-gray-200 rounded-lg space-y-2">
+                <input
+                  type="text"
+                  required
+                  value={riskDraft.title}
+                  onChange={(e) => setRiskDraft({ ...riskDraft, title: e.target.value })}
+                  placeholder="Risk title"
+                  className={`${inputClass} text-sm`}
+                />
+                <textarea
+                  rows={2}
+                  value={riskDraft.description}
+                  onChange={(e) => setRiskDraft({ ...riskDraft, description: e.target.value })}
+                  className={`${inputClass} text-sm`}
+                />
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                  <select
+                    value={riskDraft.category}
+                    onChange={(e) => setRiskDraft({ ...riskDraft, category: e.target.value as ReviewRiskDraft['category'] })}
+                    className={`${inputClass} text-sm`}
+                  >
+                    <option value="physical_security_vulnerabilities">Physical Security Vulnerabilities</option>
+                    <option value="environmental_hazards">Environmental Hazards</option>
+                    <option value="natural_disasters">Natural Disasters</option>
+                    <option value="infrastructure_failure">Infrastructure Failure</option>
+                    <option value="personnel_safety_security">Personnel Safety & Security</option>
+                    <option value="asset_damage_loss">Asset Damage/Loss</option>
+                  </select>
+                  {(['impact', 'likelihood'] as const).map(field => (
+                    <select
+                      key={field}
+                      value={riskDraft[field]}
+                      onChange={(e) => setRiskDraft({ ...riskDraft, [field]: e.target.value as ReviewRiskDraft['impact'] })}
+                      className={`${inputClass} text-sm`}
+                      title={field === 'impact' ? 'Impact' : 'Likelihood'}
+                    >
+                      <option value="very_low">Very Low {field}</option>
+                      <option value="low">Low {field}</option>
+                      <option value="medium">Medium {field}</option>
+                      <option value="high">High {field}</option>
+                      <option value="very_high">Very High {field}</option>
+                    </select>
+                  ))}
+                  <select
+                    value={riskDraft.owner_user_id || ''}
+                    onChange={(e) => setRiskDraft({ ...riskDraft, owner_user_id: e.target.value || null })}
+                    className={`${inputClass} text-sm`}
+                  >
+                    <option value="">Owner</option>
+                    {users.map(candidate => (
+                      <option key={candidate.user_id} value={candidate.user_id}>{candidate.full_name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex justify-end space-x-2">
+                  <button type="button" onClick={() => setRiskDraft(null)} className="px-3 py-2 text-sm text-gray-600 hover:text-gray-800">
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={saving || !riskDraft.title.trim()}
+                    className="px-3 py-2 bg-orange-600 text-white rounded-lg text-sm hover:bg-orange-700 transition-colors disabled:opacity-50"
+                  >
+                    Create Risk
+                  </button>
+                </div>
+              </form>
+            )}
+
+            {mitigationDraft && (
+              <form onSubmit={handleCreateMitigation} className="mt-3 p-3 border border-gray-200 rounded-lg space-y-2">
+                <input
+                  type="text"
+                  required
+                  value={mitigationDraft.name}
+                  onChange={(e) => setMitigationDraft({ ...mitigationDraft, name: e.target.value })}
+                  placeholder="Mitigation name"
+                  className={`${inputClass} text-sm`}
+                />
+                <textarea
+                  rows={2}
+                  value={mitigationDraft.description}
+                  onChange={(e) => setMitigationDraft({ ...mitigationDraft, description: e.target.value })}
+                  placeholder="Description"
+                  className={`${inputClass} text-sm`}
+                />
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <span>Risk reduction</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={mitigationDraft.score}
+                    onChange={(e) => setMitigationDraft({ ...mitigationDraft, score: Number(e.target.value) })}
+                    className="w-20 px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                  />
+                  <span>%</span>
+                </label>
+                <div className="flex justify-end space-x-2">
+                  <button type="button" onClick={() => setMitigationDraft(null)} className="px-3 py-2 text-sm text-gray-600 hover:text-gray-800">
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={saving || !mitigationDraft.name.trim()}
+                    className="px-3 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
+                  >
+                    Create and Apply
+                  </button>
+                </div>
+              </form>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default IncidentPostReview;
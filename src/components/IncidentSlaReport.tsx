@@ -0,0 +1,142 @@
+import React, { useMemo, useState } from 'react';
+import { Download, Timer } from 'lucide-react';
+import { Database } from '../lib/supabase';
+import { getSlaComplianceReport, slaTargetLabels, slaTargets, incidentSeverities } from '../utils/incidentSla';
+
+type IncidentReport = Database['public']['Tables']['incident_reports']['Row'];
+
+interface IncidentSlaReportProps {
+  incidents: IncidentReport[];
+}
+
+const periodOptions = [
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+  { value: 'all', label: 'All time' }
+];
+
+const getComplianceColor = (compliance: number | null) => {
+  if (compliance === null) return 'text-gray-400';
+  if (compliance >= 95) return 'text-green-600';
+  if (compliance >= 80) return 'text-yellow-600';
+  return 'text-red-600';
+};
+
+/**
+ * SLA compliance per severity and target for incidents created in the selected period
+ */
+const IncidentSlaReport: React.FC<IncidentSlaReportProps> = ({ incidents }) => {
+  const [period, setPeriod] = useState('30');
+
+  const periodIncidents = useMemo(() => {
+    if (period === 'all') return incidents;
+    const since = Date.now() - Number(period) * 24 * 60 * 60 * 1000;
+    return incidents.filter(incident => new Date(incident.created_at).getTime() >= since);
+  }, [incidents, period]);
+
+  const report = useMemo(() => getSlaComplianceReport(periodIncidents), [periodIncidents]);
+  const escalated = periodIncidents.filter(incident => incident.escalation_level > 0).length;
+
+  const getRow = (severity: string, target: string) =>
+    report.find(row => row.severity === severity && row.target === target)!;
+
+  const handleExport = () => {
+    const headers = ['Severity', 'Target', 'Measured', 'On Time', 'Compliance %'];
+
+    const csvContent = [
+      headers.join(','),
+      ...report.map(row => [
+        row.severity,
+        slaTargetLabels[row.target],
+        row.measured,
+        row.onTime,
+        row.compliance ?? ''
+      ].join(','))
+    ].join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', `incident_sla_compliance_${new Date().toISOString().split('T')[0]}.csv`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <select
+          value={period}
+          onChange={(e) => setPeriod(e.target.value)}
+          className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          {periodOptions.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleExport}
+          className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+        >
+          <Download className="w-4 h-4" />
+          <span>Export</span>
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="bg-gray-50 rounded-lg p-4">
+          <p className="text-sm text-gray-600">Incidents in period</p>
+          <p className="text-2xl font-bold text-gray-900">{periodIncidents.length}</p>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-4">
+          <p className="text-sm text-gray-600">Escalated</p>
+          <p className="text-2xl font-bold text-red-600">{escalated}</p>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gray-50 border-b border-gray-200">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Severity</th>
+              {slaTargets.map(target => (
+                <th key={target} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {slaTargetLabels[target]}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {incidentSeverities.map(severity => (
+              <tr key={severity}>
+                <td className="px-4 py-3 text-sm font-medium text-gray-900">{severity}</td>
+                {slaTargets.map(target => {
+                  const row = getRow(severity, target);
+                  return (
+                    <td key={target} className="px-4 py-3">
+                      <div className={`text-sm font-semibold ${getComplianceColor(row.compliance)}`}>
+                        {row.compliance === null ? '—' : `${row.compliance}%`}
+                      </div>
+                      <div className="text-xs text-gray-500">{row.onTime} of {row.measured} on time</div>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="flex items-center text-xs text-gray-500">
+        <Timer className="w-4 h-4 mr-1" />
+        Targets that are not due yet are not counted.
+      </p>
+    </div>
+  );
+};
+
+export default IncidentSlaReport;
@@ -0,0 +1,290 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Activity,
+  CheckCircle,
+  Loader2,
+  MessageSquare,
+  Paperclip,
+  Pencil,
+  Phone,
+  Send,
+  Timer,
+  UserCheck,
+  AlertTriangle,
+  GitMerge,
+  ListChecks
+} from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import {
+  AuthoredTimelineEntry,
+  AuthoredTimelineEntryType,
+  IncidentTimelineEntry,
+  IncidentTimelineEntryType,
+  NewTimelineEntry
+} from '../types/incidentTimeline';
+import {
+  MentionableUser,
+  authoredEntryTypes,
+  getChronology,
+  getMentionQuery,
+  isAuthoredEntry,
+  resolveMentions,
+  timelineEntryColors,
+  timelineEntryLabels
+} from '../utils/incidentTimeline';
+
+interface IncidentTimelineProps {
+  timeline: IncidentTimelineEntry[];
+  canAddEntries: boolean;
+  onAddEntry: (entry: NewTimelineEntry) => Promise<void>;
+}
+
+const entryIcons: Record<IncidentTimelineEntryType, React.ElementType> = {
+  status_change: Activity,
+  note: MessageSquare,
+  action_taken: CheckCircle,
+  evidence_added: Paperclip,
+  assignment: UserCheck,
+  external_contact: Phone,
+  sla_breach: Timer,
+  merge: GitMerge,
+  playbook: ListChecks
+};
+
+/**
+ * Chronology of an incident with a composer for notes, actions taken and external contacts.
+ * Entries are immutable; the author can add a correction, which is shown with the original
+ */
+const IncidentTimeline: React.FC<IncidentTimelineProps> = ({ timeline, canAddEntries, onAddEntry }) => {
+  const { user } = useAuth();
+  const [entryType, setEntryType] = useState<AuthoredTimelineEntryType>('note');
+  const [body, setBody] = useState('');
+  const [contact, setContact] = useState('');
+  const [correcting, setCorrecting] = useState<AuthoredTimelineEntry | null>(null);
+  const [users, setUsers] = useState<MentionableUser[]>([]);
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    if (!canAddEntries) return;
+
+    const fetchUsers = async () => {
+      const { data } = await supabase
+        .from('user_profiles')
+        .select('user_id, full_name')
+        .order('full_name');
+      setUsers((data || []).filter(profile => profile.full_name));
+    };
+
+    fetchUsers();
+  }, [canAddEntries]);
+
+  const mentionSuggestions = mentionQuery === null ? [] : users
+    .filter(candidate => candidate.full_name.toLowerCase().includes(mentionQuery.toLowerCase()))
+    .slice(0, 6);
+
+  const handleBodyChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setBody(e.target.value);
+    setMentionQuery(getMentionQuery(e.target.value, e.target.selectionStart));
+  };
+
+  const insertMention = (candidate: MentionableUser) => {
+    const caret = textareaRef.current?.selectionStart ?? body.length;
+    const before = body.slice(0, caret).replace(/@[^@\n]*$/, `@${candidate.full_name} `);
+    setBody(before + body.slice(caret));
+    setMentionQuery(null);
+    textareaRef.current?.focus();
+  };
+
+  const startCorrection = (entry: AuthoredTimelineEntry) => {
+    setCorrecting(entry);
+    setEntryType(entry.type);
+    setBody(entry.body);
+    setContact(entry.contact || '');
+    setError(null);
+  };
+
+  const resetComposer = () => {
+    setCorrecting(null);
+    setEntryType('note');
+    setBody('');
+    setContact('');
+    setMentionQuery(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      await onAddEntry({
+        type: entryType,
+        body: body.trim(),
+        mentions: resolveMentions(body, users),
+        contact: entryType === 'external_contact' ? contact.trim() : undefined,
+        corrects: correcting?.id
+      });
+      resetComposer();
+    } catch (err) {
+      const { message } = err as { message?: string };
+      setError(message || 'Failed to add timeline entry');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderDetails = (entry: IncidentTimelineEntry) => {
+    switch (entry.type) {
+      case 'evidence_added':
+        return <p className="text-xs text-gray-500 font-mono">SHA-256 {entry.sha256.slice(0, 16)}…</p>;
+      case 'note':
+      case 'action_taken':
+      case 'external_contact':
+        return <p className="text-sm text-gray-700 whitespace-pre-wrap mt-1">{entry.body}</p>;
+      default:
+        return null;
+    }
+  };
+
+  const chronology = getChronology(timeline);
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">Incident Timeline</h3>
+
+      {chronology.length === 0 ? (
+        <p className="text-gray-500 italic mb-4">No timeline entries</p>
+      ) : (
+        <ol className="space-y-4 mb-6">
+          {chronology.map(({ entry, corrections }) => {
+            const Icon = entryIcons[entry.type] || MessageSquare;
+            const latest = corrections[corrections.length - 1];
+            const shown = latest || entry;
+
+            return (
+              <li key={entry.id} className="flex items-start space-x-3">
+                <div className={`w-7 h-7 rounded-full flex items-center justify-center flex-shrink-0 ${timelineEntryColors[entry.type] || 'bg-gray-400'}`}>
+                  <Icon className="w-4 h-4 text-white" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-medium text-gray-900">{shown.action}</p>
+                    <span className="text-xs text-gray-500">
+                      {new Date(entry.timestamp).toLocaleString()}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {timelineEntryLabels[entry.type] || entry.type} · by {entry.user}
+                    {entry.merged_from_title && ` · from merged incident "${entry.merged_from_title}"`}
+                    {latest && ` · corrected ${new Date(latest.timestamp).toLocaleString()}`}
+                  </p>
+                  {renderDetails(shown)}
+                  {latest && isAuthoredEntry(entry) && (
+                    <details className="mt-1">
+                      <summary className="text-xs text-gray-500 cursor-pointer">Original entry</summary>
+                      <p className="text-sm text-gray-500 line-through whitespace-pre-wrap">{entry.body}</p>
+                    </details>
+                  )}
+                  {canAddEntries && isAuthoredEntry(entry) && entry.user_id === user?.id && (
+                    <button
+                      onClick={() => startCorrection(latest || entry)}
+                      className="mt-1 flex items-center space-x-1 text-xs text-blue-600 hover:text-blue-800"
+                    >
+                      <Pencil className="w-3 h-3" />
+                      <span>Correct</span>
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {canAddEntries && (
+        <form onSubmit={handleSubmit} className="border border-gray-200 rounded-lg p-4 space-y-3">
+          {correcting && (
+            <div className="flex items-center justify-between text-sm text-blue-700 bg-blue-50 rounded-lg px-3 py-2">
+              <span>Correcting your entry from {new Date(correcting.timestamp).toLocaleString()}</span>
+              <button type="button" onClick={resetComposer} className="text-blue-600 hover:text-blue-800">
+                Cancel
+              </button>
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-3">
+            <select
+              value={entryType}
+              onChange={(e) => setEntryType(e.target.value as AuthoredTimelineEntryType)}
+              disabled={!!correcting}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {authoredEntryTypes.map(type => (
+                <option key={type} value={type}>{timelineEntryLabels[type]}</option>
+              ))}
+            </select>
+            {entryType === 'external_contact' && (
+              <input
+                type="text"
+                value={contact}
+                onChange={(e) => setContact(e.target.value)}
+                placeholder="Who was contacted (e.g. police, insurer)"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            )}
+          </div>
+
+          <div className="relative">
+            <textarea
+              ref={textareaRef}
+              rows={3}
+              value={body}
+              onChange={handleBodyChange}
+              placeholder="Add an update. Type @ to mention a colleague."
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            {mentionSuggestions.length > 0 && (
+              <div className="absolute z-10 left-0 right-0 mt-1 bg-white border border-gray-200 rounded-lg shadow-lg max-h-48 overflow-y-auto">
+                {mentionSuggestions.map(candidate => (
+                  <button
+                    key={candidate.user_id}
+                    type="button"
+                    onClick={() => insertMention(candidate)}
+                    className="w-full text-left px-3 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                  >
+                    {candidate.full_name}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {error && (
+            <div className="flex items-center space-x-2 text-sm text-red-700">
+              <AlertTriangle className="w-4 h-4 text-red-500 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={submitting || !body.trim()}
+              className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+              <span>{correcting ? 'Add Correction' : 'Add Entry'}</span>
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default IncidentTimeline;
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { Shield, Brain, ChevronDown, ChevronUp, Info } from 'lucide-react';
 import { AppliedMitigation, MitigationDisplayProps } from '../types/mitigation';
+import { combinedControlEffectiveness, controlEffectiveness, formatEffectiveness } from '../utils/riskScoring';
 
 const MitigationDisplay: React.FC<MitigationDisplayProps> = ({
   mitigations,
@@ -13,11 +14,7 @@ const MitigationDisplay: React.FC<MitigationDisplayProps> = ({
     return null;
   }
 
-  // Calculate total risk reduction
-  const totalRiskReduction = mitigations.reduce(
-    (sum, mitigation) => sum + mitigation.applied_risk_reduction_score, 
-    0
-  );
+  const effectiveness = combinedControlEffectiveness(mitigations);
 
   return (
     <div className="border border-gray-200 rounded-lg overflow-hidden">
@@ -31,10 +28,10 @@ const MitigationDisplay: React.FC<MitigationDisplayProps> = ({
           <span className="bg-blue-100 text-blue-700 text-xs px-2 py-1 rounded-full">
             {mitigations.length}
           </span>
-          {totalRiskReduction > 0 && (
+          {effectiveness > 0 && (
             <div className="flex items-center space-x-1 bg-green-100 text-green-700 px-2 py-1 rounded-lg text-xs">
               <Brain className="w-3 h-3" />
-              <span>Risk reduction: -{totalRiskReduction}</span>
+              <span>Controls: -{formatEffectiveness(effectiveness)}</span>
             </div>
           )}
         </div>
@@ -58,7 +55,7 @@ const MitigationDisplay: React.FC<MitigationDisplayProps> = ({
                 </div>
                 <div className="flex items-center space-x-1 bg-green-100 text-green-700 px-2 py-1 rounded-lg text-xs">
                   <Brain className="w-3 h-3" />
-                  <span>-{mitigation.applied_risk_reduction_score}</span>
+                  <span>-{formatEffectiveness(controlEffectiveness(mitigation))}</span>
                 </div>
               </div>
               
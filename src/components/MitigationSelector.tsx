@@ -22,12 +22,21 @@ import {
   MitigationSelectorProps 
 } from '../types/mitigation';
 import AddMitigationForm from './AddMitigationForm';
+import {
+  assessScore,
+  controlEffectiveness,
+  formatEffectiveness,
+  MAX_CONTROL_EFFECTIVENESS,
+  RESIDUAL_SCORE_FLOOR
+} from '../utils/riskScoring';
 
 const MitigationSelector: React.FC<MitigationSelectorProps> = ({
   category,
   selectedMitigations,
   onMitigationsChange,
-  disabled = false
+  disabled = false,
+  inherentScore,
+  scoreDecimals = 0
 }) => {
   const [availableMitigations, setAvailableMitigations] = useState<Mitigation[]>([]);
   const [loading, setLoading] = useState(true);
@@ -160,11 +169,7 @@ const MitigationSelector: React.FC<MitigationSelectorProps> = ({
     return matchesSearch && isNotSelected;
   });
 
-  // Calculate total risk reduction from applied mitigations
-  const totalRiskReduction = selectedMitigations.reduce(
-    (sum, mitigation) => sum + mitigation.applied_risk_reduction_score, 
-    0
-  );
+  const assessment = assessScore(inherentScore ?? 0, selectedMitigations, scoreDecimals);
 
   return (
     <div className="space-y-4">
@@ -179,10 +184,18 @@ const MitigationSelector: React.FC<MitigationSelectorProps> = ({
           )}
         </h3>
         <div className="flex items-center space-x-2">
-          {totalRiskReduction > 0 && (
-            <div className="flex items-center space-x-1 bg-green-100 text-green-700 px-2 py-1 rounded-lg text-sm">
+          {assessment.effectiveness > 0 && (
+            <div
+              className="flex items-center space-x-1 bg-green-100 text-green-700 px-2 py-1 rounded-lg text-sm"
+              title={assessment.floored ? `Controls cannot reduce a score below ${formatEffectiveness(RESIDUAL_SCORE_FLOOR)} of its inherent value` : undefined}
+            >
               <Brain className="w-4 h-4" />
-              <span>Risk reduction: -{totalRiskReduction}</span>
+              <span>Controls: -{formatEffectiveness(assessment.effectiveness)}</span>
+            </div>
+          )}
+          {inherentScore !== undefined && (
+            <div className="text-sm text-gray-600 px-2 py-1 bg-gray-100 rounded-lg">
+              Inherent {assessment.inherent} → Residual <span className="font-semibold text-gray-900">{assessment.residual}</span>
             </div>
           )}
           <button
@@ -265,6 +278,9 @@ const MitigationSelector: React.FC<MitigationSelectorProps> = ({
                           className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                           disabled={disabled}
                         />
+                        <p className="mt-1 text-xs text-gray-500">
+                          Share of the remaining risk this control removes, counted up to {formatEffectiveness(MAX_CONTROL_EFFECTIVENESS)}
+                        </p>
                       </div>
                       
                       <div>
@@ -318,7 +334,7 @@ const MitigationSelector: React.FC<MitigationSelectorProps> = ({
                       <div className="flex items-center justify-between text-sm">
                         <div className="flex items-center space-x-1">
                           <Brain className="w-4 h-4 text-green-500" />
-                          <span className="text-green-700">Risk reduction: {mitigation.applied_risk_reduction_score}</span>
+                          <span className="text-green-700">Effectiveness: {formatEffectiveness(controlEffectiveness(mitigation))}</span>
                         </div>
                         <span className="text-gray-500 text-xs">
                           Applied by {mitigation.applied_by} on {new Date(mitigation.applied_at).toLocaleDateString()}
@@ -392,7 +408,9 @@ const MitigationSelector: React.FC<MitigationSelectorProps> = ({
                         </span>
                         <div className="flex items-center space-x-1">
                           <Brain className="w-3 h-3 text-green-500" />
-                          <span className="text-xs text-green-700">Risk reduction: {mitigation.default_risk_reduction_score}</span>
+                          <span className="text-xs text-green-700">
+                            Effectiveness: {formatEffectiveness(controlEffectiveness({ applied_risk_reduction_score: mitigation.default_risk_reduction_score }))}
+                          </span>
                         </div>
                         {mitigation.is_custom && (
                           <span className="text-xs px-2 py-1 rounded-full bg-purple-100 text-purple-700">
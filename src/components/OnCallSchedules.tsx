@@ -0,0 +1,612 @@
+import React, { useState } from 'react';
+import { AlertTriangle, ArrowDown, ArrowUp, Edit, PhoneCall, Plus, Save, Trash2, Users, X } from 'lucide-react';
+import ConfirmationModal from './common/ConfirmationModal';
+import { MentionableUser } from '../utils/incidentTimeline';
+import {
+  OnCallOverride,
+  OnCallSchedule,
+  ResponderTeam,
+  getOnCallUserId,
+  getShiftEnd,
+  shiftLengthOptions
+} from '../utils/incidentAssignment';
+import { OverrideDraft, ScheduleDraft, TeamDraft } from '../hooks/useOnCall';
+
+interface OnCallSchedulesProps {
+  teams: ResponderTeam[];
+  schedules: OnCallSchedule[];
+  overrides: OnCallOverride[];
+  users: MentionableUser[];
+  departments: string[];
+  canEdit: boolean;
+  onSaveTeam: (draft: TeamDraft, id?: string) => Promise<unknown>;
+  onDeleteTeam: (id: string) => Promise<void>;
+  onSaveSchedule: (draft: ScheduleDraft, id?: string) => Promise<unknown>;
+  onDeleteSchedule: (id: string) => Promise<void>;
+  onAddOverride: (draft: OverrideDraft) => Promise<unknown>;
+  onDeleteOverride: (override: OnCallOverride) => Promise<void>;
+}
+
+const emptyTeam: TeamDraft = { name: '', description: '', department: null, member_user_ids: [] };
+
+const emptySchedule = (): ScheduleDraft => {
+  const monday = new Date();
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+  monday.setHours(9, 0, 0, 0);
+  return {
+    name: '',
+    team_id: null,
+    department: null,
+    region: null,
+    participant_user_ids: [],
+    rotation_starts_at: monday.toISOString(),
+    shift_hours: 168,
+    auto_assign: true
+  };
+};
+
+// datetime-local inputs work in local time without a zone
+const toLocalInput = (iso: string) => {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+/**
+ * Responder teams and on-call rotations. New incidents are auto-assigned from the most specific
+ * schedule matching their department and location
+ */
+const OnCallSchedules: React.FC<OnCallSchedulesProps> = ({
+  teams,
+  schedules,
+  overrides,
+  users,
+  departments,
+  canEdit,
+  onSaveTeam,
+  onDeleteTeam,
+  onSaveSchedule,
+  onDeleteSchedule,
+  onAddOverride,
+  onDeleteOverride
+}) => {
+  const [scheduleDraft, setScheduleDraft] = useState<ScheduleDraft | null>(null);
+  const [editingScheduleId, setEditingScheduleId] = useState<string | undefined>();
+  const [teamDraft, setTeamDraft] = useState<TeamDraft | null>(null);
+  const [editingTeamId, setEditingTeamId] = useState<string | undefined>();
+  const [overrideDraft, setOverrideDraft] = useState<OverrideDraft | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<{ kind: 'team' | 'schedule'; id: string; name: string } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const userName = (userId: string | null) =>
+    users.find(candidate => candidate.user_id === userId)?.full_name || 'Nobody';
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    try {
+      setSaving(true);
+      setError(null);
+      await action();
+      return true;
+    } catch (err) {
+      const { message } = err as { message?: string };
+      setError(message || fallback);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveSchedule = async () => {
+    if (!scheduleDraft) return;
+    if (!scheduleDraft.name.trim()) {
+      setError('The schedule needs a name');
+      return;
+    }
+    if (await run(() => onSaveSchedule({
+      ...scheduleDraft,
+      name: scheduleDraft.name.trim(),
+      department: scheduleDraft.department || null,
+      region: scheduleDraft.region?.trim() || null
+    }, editingScheduleId), 'Failed to save the schedule')) {
+      setScheduleDraft(null);
+    }
+  };
+
+  const saveTeam = async () => {
+    if (!teamDraft) return;
+    if (!teamDraft.name.trim()) {
+      setError('The team needs a name');
+      return;
+    }
+    if (await run(() => onSaveTeam({
+      ...teamDraft,
+      name: teamDraft.name.trim(),
+      description: teamDraft.description?.trim() || null,
+      department: teamDraft.department || null
+    }, editingTeamId), 'Failed to save the team')) {
+      setTeamDraft(null);
+    }
+  };
+
+  const saveOverride = async () => {
+    if (!overrideDraft) return;
+    if (!overrideDraft.user_id || new Date(overrideDraft.ends_at) <= new Date(overrideDraft.starts_at)) {
+      setError('Pick a responder and an end after the start');
+      return;
+    }
+    if (await run(() => onAddOverride({ ...overrideDraft, reason: overrideDraft.reason?.trim() || null }), 'Failed to add the override')) {
+      setOverrideDraft(null);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!pendingDelete) return;
+    await run(
+      () => pendingDelete.kind === 'team' ? onDeleteTeam(pendingDelete.id) : onDeleteSchedule(pendingDelete.id),
+      `Failed to delete the ${pendingDelete.kind}`
+    );
+    setPendingDelete(null);
+  };
+
+  const moveParticipant = (index: number, offset: -1 | 1) => {
+    if (!scheduleDraft) return;
+    const participants = [...scheduleDraft.participant_user_ids!];
+    const [participant] = participants.splice(index, 1);
+    participants.splice(index + offset, 0, participant);
+    setScheduleDraft({ ...scheduleDraft, participant_user_ids: participants });
+  };
+
+  const renderScheduleForm = () => scheduleDraft && (
+    <div className="p-4 border border-blue-200 bg-blue-50 rounded-lg space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <input
+          type="text"
+          value={scheduleDraft.name}
+          onChange={(e) => setScheduleDraft({ ...scheduleDraft, name: e.target.value })}
+          placeholder="Schedule name"
+          className={inputClassName}
+        />
+        <select
+          value={scheduleDraft.team_id || ''}
+          onChange={(e) => setScheduleDraft({ ...scheduleDraft, team_id: e.target.value || null })}
+          className={inputClassName}
+        >
+          <option value="">No team</option>
+          {teams.map(team => <option key={team.id} value={team.id}>{team.name}</option>)}
+        </select>
+        <select
+          value={scheduleDraft.department || ''}
+          onChange={(e) => setScheduleDraft({ ...scheduleDraft, department: e.target.value || null })}
+          className={inputClassName}
+        >
+          <option value="">Any department</option>
+          {departments.map(department => <option key={department} value={department}>{department}</option>)}
+        </select>
+        <input
+          type="text"
+          value={scheduleDraft.region || ''}
+          onChange={(e) => setScheduleDraft({ ...scheduleDraft, region: e.target.value })}
+          placeholder="Region, matched against the incident location (optional)"
+          className={inputClassName}
+        />
+        <div>
+          <label className="block text-xs font-medium text-gray-500 uppercase mb-1">Rotation Starts</label>
+          <input
+            type="datetime-local"
+            value={toLocalInput(scheduleDraft.rotation_starts_at!)}
+            onChange={(e) => e.target.value && setScheduleDraft({ ...scheduleDraft, rotation_starts_at: new Date(e.target.value).toISOString() })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 uppercase mb-1">Shift Length</label>
+          <select
+            value={scheduleDraft.shift_hours}
+            onChange={(e) => setScheduleDraft({ ...scheduleDraft, shift_hours: Number(e.target.value) })}
+            className={inputClassName}
+          >
+            {shiftLengthOptions.map(option => <option key={option.hours} value={option.hours}>{option.label}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-500 uppercase mb-1">Rotation Order</label>
+        <div className="space-y-1 mb-2">
+          {scheduleDraft.participant_user_ids!.map((participantId, index) => (
+            <div key={participantId} className="flex items-center justify-between px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-sm">
+              <span>{index + 1}. {userName(participantId)}</span>
+              <div className="flex items-center space-x-1">
+                <button type="button" onClick={() => moveParticipant(index, -1)} disabled={index === 0} className="p-1 text-gray-500 hover:text-gray-700 disabled:opacity-30" title="Move up">
+                  <ArrowUp className="w-4 h-4" />
+                </button>
+                <button type="button" onClick={() => moveParticipant(index, 1)} disabled={index === scheduleDraft.participant_user_ids!.length - 1} className="p-1 text-gray-500 hover:text-gray-700 disabled:opacity-30" title="Move down">
+                  <ArrowDown className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setScheduleDraft({ ...scheduleDraft, participant_user_ids: scheduleDraft.participant_user_ids!.filter(id => id !== participantId) })}
+                  className="p-1 text-red-600 hover:text-red-800"
+                  title="Remove"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+        <select
+          value=""
+          onChange={(e) => e.target.value && setScheduleDraft({ ...scheduleDraft, participant_user_ids: [...scheduleDraft.participant_user_ids!, e.target.value] })}
+          className={inputClassName}
+        >
+          <option value="">Add responder...</option>
+          {users.filter(candidate => !scheduleDraft.participant_user_ids!.includes(candidate.user_id)).map(candidate => (
+            <option key={candidate.user_id} value={candidate.user_id}>{candidate.full_name}</option>
+          ))}
+        </select>
+      </div>
+
+      <label className="flex items-center space-x-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={scheduleDraft.auto_assign}
+          onChange={(e) => setScheduleDraft({ ...scheduleDraft, auto_assign: e.target.checked })}
+          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+        />
+        <span>Auto-assign new incidents to whoever is on call</span>
+      </label>
+
+      <div className="flex items-center space-x-2">
+        <button
+          onClick={saveSchedule}
+          disabled={saving}
+          className="flex items-center space-x-1 px-3 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          <Save className="w-4 h-4" />
+          <span>Save Schedule</span>
+        </button>
+        <button
+          onClick={() => setScheduleDraft(null)}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderTeamForm = () => teamDraft && (
+    <div className="p-4 border border-blue-200 bg-blue-50 rounded-lg space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <input
+          type="text"
+          value={teamDraft.name}
+          onChange={(e) => setTeamDraft({ ...teamDraft, name: e.target.value })}
+          placeholder="Team name"
+          className={inputClassName}
+        />
+        <select
+          value={teamDraft.department || ''}
+          onChange={(e) => setTeamDraft({ ...teamDraft, department: e.target.value || null })}
+          className={inputClassName}
+        >
+          <option value="">Any department</option>
+          {departments.map(department => <option key={department} value={department}>{department}</option>)}
+        </select>
+      </div>
+      <input
+        type="text"
+        value={teamDraft.description || ''}
+        onChange={(e) => setTeamDraft({ ...teamDraft, description: e.target.value })}
+        placeholder="Description (optional)"
+        className={inputClassName}
+      />
+      <div>
+        <label className="block text-xs font-medium text-gray-500 uppercase mb-1">Members</label>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-1 max-h-40 overflow-y-auto">
+          {users.map(candidate => (
+            <label key={candidate.user_id} className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={teamDraft.member_user_ids!.includes(candidate.user_id)}
+                onChange={() => setTeamDraft({
+                  ...teamDraft,
+                  member_user_ids: teamDraft.member_user_ids!.includes(candidate.user_id)
+                    ? teamDraft.member_user_ids!.filter(id => id !== candidate.user_id)
+                    : [...teamDraft.member_user_ids!, candidate.user_id]
+                })}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span>{candidate.full_name}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+      <div className="flex items-center space-x-2">
+        <button
+          onClick={saveTeam}
+          disabled={saving}
+          className="flex items-center space-x-1 px-3 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          <Save className="w-4 h-4" />
+          <span>Save Team</span>
+        </button>
+        <button
+          onClick={() => setTeamDraft(null)}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="p-6 space-y-8">
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+          <AlertTriangle className="w-5 h-5 text-red-500 flex-shrink-0" />
+          <span className="text-red-700 text-sm">{error}</span>
+        </div>
+      )}
+
+      {/* Schedules */}
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+            <PhoneCall className="w-5 h-5 text-gray-500" />
+            <span>On-Call Schedules</span>
+          </h3>
+          {canEdit && !scheduleDraft && (
+            <button
+              onClick={() => { setEditingScheduleId(undefined); setScheduleDraft(emptySchedule()); }}
+              className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add Schedule</span>
+            </button>
+          )}
+        </div>
+
+        {!editingScheduleId && renderScheduleForm()}
+
+        <div className="space-y-3 mt-3">
+          {schedules.map(schedule => {
+            const scheduleOverrides = overrides.filter(override => override.schedule_id === schedule.id);
+
+            if (editingScheduleId === schedule.id && scheduleDraft) {
+              return <div key={schedule.id}>{renderScheduleForm()}</div>;
+            }
+
+            return (
+              <div key={schedule.id} className="p-4 border border-gray-200 rounded-lg space-y-3">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <p className="font-medium text-gray-900">{schedule.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {schedule.department || 'Any department'} · {schedule.region || 'Any location'}
+                      {schedule.team_id && ` · ${teams.find(team => team.id === schedule.team_id)?.name}`}
+                      {' · '}{shiftLengthOptions.find(option => option.hours === schedule.shift_hours)?.label || `${schedule.shift_hours}h`} shifts
+                      {!schedule.auto_assign && ' · No auto-assignment'}
+                    </p>
+                  </div>
+                  {canEdit && (
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={() => {
+                          setEditingScheduleId(schedule.id);
+                          setScheduleDraft({
+                            name: schedule.name,
+                            team_id: schedule.team_id,
+                            department: schedule.department,
+                            region: schedule.region,
+                            participant_user_ids: schedule.participant_user_ids,
+                            rotation_starts_at: schedule.rotation_starts_at,
+                            shift_hours: schedule.shift_hours,
+                            auto_assign: schedule.auto_assign
+                          });
+                        }}
+                        className="text-gray-600 hover:text-gray-900"
+                        title="Edit schedule"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => setPendingDelete({ kind: 'schedule', id: schedule.id, name: schedule.name })}
+                        className="text-red-600 hover:text-red-800"
+                        title="Delete schedule"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm">
+                  <span className="text-gray-900">
+                    On call now: <span className="font-medium">{userName(getOnCallUserId(schedule, scheduleOverrides))}</span>
+                  </span>
+                  {schedule.participant_user_ids.length > 0 && (
+                    <span className="text-gray-500">
+                      Shift ends {getShiftEnd(schedule).toLocaleString()}, then {userName(getOnCallUserId(schedule, [], getShiftEnd(schedule)))}
+                    </span>
+                  )}
+                </div>
+
+                {scheduleOverrides.length > 0 && (
+                  <div className="space-y-1">
+                    {scheduleOverrides.map(override => (
+                      <div key={override.id} className="flex items-center justify-between px-3 py-1.5 bg-yellow-50 border border-yellow-200 rounded-lg text-sm">
+                        <span>
+                          {userName(override.user_id)} covers {new Date(override.starts_at).toLocaleString()} – {new Date(override.ends_at).toLocaleString()}
+                          {override.reason && <span className="text-gray-500"> ({override.reason})</span>}
+                        </span>
+                        {canEdit && (
+                          <button
+                            onClick={() => run(() => onDeleteOverride(override), 'Failed to remove the override')}
+                            className="text-red-600 hover:text-red-800"
+                            title="Remove override"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {canEdit && (overrideDraft?.schedule_id === schedule.id ? (
+                  <div className="grid grid-cols-1 md:grid-cols-5 gap-2">
+                    <select
+                      value={overrideDraft.user_id}
+                      onChange={(e) => setOverrideDraft({ ...overrideDraft, user_id: e.target.value })}
+                      className={inputClassName}
+                    >
+                      <option value="">Responder</option>
+                      {users.map(candidate => <option key={candidate.user_id} value={candidate.user_id}>{candidate.full_name}</option>)}
+                    </select>
+                    <input
+                      type="datetime-local"
+                      value={toLocalInput(overrideDraft.starts_at)}
+                      onChange={(e) => e.target.value && setOverrideDraft({ ...overrideDraft, starts_at: new Date(e.target.value).toISOString() })}
+                      className={inputClassName}
+                    />
+                    <input
+                      type="datetime-local"
+                      value={toLocalInput(overrideDraft.ends_at)}
+                      onChange={(e) => e.target.value && setOverrideDraft({ ...overrideDraft, ends_at: new Date(e.target.value).toISOString() })}
+                      className={inputClassName}
+                    />
+                    <input
+                      type="text"
+                      value={overrideDraft.reason || ''}
+                      onChange={(e) => setOverrideDraft({ ...overrideDraft, reason: e.target.value })}
+                      placeholder="Reason"
+                      className={inputClassName}
+                    />
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={saveOverride}
+                        disabled={saving}
+                        className="px-3 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
+                      >
+                        Add
+                      </button>
+                      <button onClick={() => setOverrideDraft(null)} className="text-gray-500 hover:text-gray-700" title="Cancel">
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => {
+                      const start = new Date();
+                      setOverrideDraft({
+                        schedule_id: schedule.id,
+                        user_id: '',
+                        starts_at: start.toISOString(),
+                        ends_at: new Date(start.getTime() + schedule.shift_hours * 3600000).toISOString(),
+                        reason: ''
+                      });
+                    }}
+                    className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    <Plus className="w-4 h-4" />
+                    <span>Add Override</span>
+                  </button>
+                ))}
+              </div>
+            );
+          })}
+          {schedules.length === 0 && !scheduleDraft && (
+            <p className="text-sm text-gray-500 italic">No on-call schedules; new incidents stay unassigned until someone picks them up.</p>
+          )}
+        </div>
+      </div>
+
+      {/* Teams */}
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+            <Users className="w-5 h-5 text-gray-500" />
+            <span>Responder Teams</span>
+          </h3>
+          {canEdit && !teamDraft && (
+            <button
+              onClick={() => { setEditingTeamId(undefined); setTeamDraft(emptyTeam); }}
+              className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add Team</span>
+            </button>
+          )}
+        </div>
+
+        {!editingTeamId && renderTeamForm()}
+
+        <div className="space-y-2 mt-3">
+          {teams.map(team => editingTeamId === team.id && teamDraft ? (
+            <div key={team.id}>{renderTeamForm()}</div>
+          ) : (
+            <div key={team.id} className="flex items-start justify-between p-3 bg-gray-50 rounded-lg">
+              <div>
+                <p className="font-medium text-gray-900">{team.name}</p>
+                <p className="text-xs text-gray-500">
+                  {team.department || 'Any department'} · {team.member_user_ids.map(userName).join(', ') || 'No members'}
+                </p>
+                {team.description && <p className="text-sm text-gray-600">{team.description}</p>}
+              </div>
+              {canEdit && (
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => {
+                      setEditingTeamId(team.id);
+                      setTeamDraft({
+                        name: team.name,
+                        description: team.description,
+                        department: team.department,
+                        member_user_ids: team.member_user_ids
+                      });
+                    }}
+                    className="text-gray-600 hover:text-gray-900"
+                    title="Edit team"
+                  >
+                    <Edit className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => setPendingDelete({ kind: 'team', id: team.id, name: team.name })}
+                    className="text-red-600 hover:text-red-800"
+                    title="Delete team"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+          {teams.length === 0 && !teamDraft && (
+            <p className="text-sm text-gray-500 italic">No responder teams</p>
+          )}
+        </div>
+      </div>
+
+      <ConfirmationModal
+        isOpen={!!pendingDelete}
+        onClose={() => setPendingDelete(null)}
+        onConfirm={confirmDelete}
+        title={pendingDelete?.kind === 'team' ? 'Delete Team' : 'Delete Schedule'}
+        message={pendingDelete?.kind === 'team'
+          ? `Delete the team "${pendingDelete?.name}"? Incidents assigned to it keep their assigned user, and its schedules stay without a team.`
+          : `Delete the schedule "${pendingDelete?.name}" and its overrides? New incidents will no longer be auto-assigned from it.`}
+        confirmText="Delete"
+        cancelText="Cancel"
+        type="danger"
+      />
+    </div>
+  );
+};
+
+export default OnCallSchedules;
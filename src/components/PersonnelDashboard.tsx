@@ -33,7 +33,8 @@ import {
   Loader2,
   Trash2,
   Edit,
-  Cake
+  Cake,
+  Lock
 } from 'lucide-react';
 import GoogleMapComponent from './common/GoogleMapComponent';
 import AddPersonnelForm from './AddPersonnelForm';
@@ -131,6 +132,14 @@ const PersonnelDashboard: React.FC = () => {
     }
   };
 
+  // Shown in place of fields the database withheld because the record's clearance is above the viewer's
+  const renderRedacted = (clearanceLevel: string) => (
+    <span className="inline-flex items-center text-gray-400" title={`Requires ${clearanceLevel} clearance`}>
+      <Lock className="w-3 h-3 mr-1" />
+      ••••••••
+    </span>
+  );
+
   const handleEditPersonnel = (personnel: any) => {
     setEditingPersonnel(personnel);
     setShowAddForm(true);
@@ -600,7 +609,7 @@ const PersonnelDashboard: React.FC = () => {
                         >
                           <Eye className="w-4 h-4" />
                         </button>
-                        {hasPermission('personnel.update') && (
+                        {hasPermission('personnel.update') && !person.sensitive_redacted && (
                           <button
                             onClick={() => handleEditPersonnel(person)}
                             className="text-gray-600 hover:text-gray-900"
@@ -666,7 +675,12 @@ const PersonnelDashboard: React.FC = () => {
                   {getStatusIcon(person.status)}
                   <span className="ml-2 capitalize">{person.status.replace('-', ' ')}</span>
                 </div>
-                {person.date_of_birth && (
+                {person.sensitive_redacted ? (
+                  <div className="flex items-center text-sm text-gray-600">
+                    <Cake className="w-4 h-4 mr-2" />
+                    {renderRedacted(person.clearance_level)}
+                  </div>
+                ) : person.date_of_birth && (
                   <div className="flex items-center text-sm text-gray-600">
                     <Cake className="w-4 h-4 mr-2" />
                     {formatDateOfBirth(person.date_of_birth)} 
@@ -699,7 +713,7 @@ const PersonnelDashboard: React.FC = () => {
                   View Details
                 </button>
                 
-                {hasPermission('personnel.update') && (
+                {hasPermission('personnel.update') && !person.sensitive_redacted && (
                   <button
                     onClick={() => handleEditPersonnel(person)}
                     className="px-3 py-2 bg-gray-100 text-gray-600 rounded-lg hover:bg-gray-200 transition-colors"
@@ -765,7 +779,7 @@ const PersonnelDashboard: React.FC = () => {
               </div>
             </div>
             <div className="flex items-center space-x-3">
-              {hasPermission('personnel.update') && (
+              {hasPermission('personnel.update') && !selectedPersonnel?.sensitive_redacted && (
                 <button
                   onClick={() => {
                     handleEditPersonnel(selectedPersonnel);
@@ -829,8 +843,12 @@ const PersonnelDashboard: React.FC = () => {
                 <div>
                   <label className="text-sm font-medium text-gray-500">Date of Birth</label>
                   <p className="text-gray-900">
-                    {formatDateOfBirth(selectedPersonnel?.date_of_birth)}
-                    {calculateAge(selectedPersonnel?.date_of_birth) && ` (${calculateAge(selectedPersonnel?.date_of_birth)} years)`}
+                    {selectedPersonnel?.sensitive_redacted ? renderRedacted(selectedPersonnel.clearance_level) : (
+                      <>
+                        {formatDateOfBirth(selectedPersonnel?.date_of_birth)}
+                        {calculateAge(selectedPersonnel?.date_of_birth) && ` (${calculateAge(selectedPersonnel?.date_of_birth)} years)`}
+                      </>
+                    )}
                   </p>
                 </div>
                 <div>
@@ -857,35 +875,39 @@ const PersonnelDashboard: React.FC = () => {
             
             <div>
               <h3 className="text-lg font-semibold text-gray-900 mb-4">Emergency Contact</h3>
-              <div className="space-y-3">
-                <div>
-                  <label className="text-sm font-medium text-gray-500">Name</label>
-                  <p className="text-gray-900">{(selectedPersonnel?.emergency_contact as any)?.name}</p>
-                </div>
-                <div>
-                  <label className="text-sm font-medium text-gray-500">Relationship</label>
-                  <p className="text-gray-900">{(selectedPersonnel?.emergency_contact as any)?.relationship}</p>
-                </div>
-                <div>
-                  <label className="text-sm font-medium text-gray-500">Phone</label>
-                  <div className="flex items-center space-x-2">
-                    <Phone className="w-4 h-4 text-gray-400" />
-                    <p className="text-gray-900">{(selectedPersonnel?.emergency_contact as any)?.phone}</p>
+              {selectedPersonnel?.sensitive_redacted ? (
+                <p className="text-gray-900">{renderRedacted(selectedPersonnel.clearance_level)}</p>
+              ) : (
+                <div className="space-y-3">
+                  <div>
+                    <label className="text-sm font-medium text-gray-500">Name</label>
+                    <p className="text-gray-900">{(selectedPersonnel?.emergency_contact as any)?.name}</p>
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium text-gray-500">Relationship</label>
+                    <p className="text-gray-900">{(selectedPersonnel?.emergency_contact as any)?.relationship}</p>
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium text-gray-500">Phone</label>
+                    <div className="flex items-center space-x-2">
+                      <Phone className="w-4 h-4 text-gray-400" />
+                      <p className="text-gray-900">{(selectedPersonnel?.emergency_contact as any)?.phone}</p>
+                    </div>
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium text-gray-500">Address</label>
+                    <p className="text-gray-900">
+                      {(selectedPersonnel?.emergency_contact as any)?.address && (
+                        <>{(selectedPersonnel?.emergency_contact as any)?.address}, </>
+                      )}
+                      {(selectedPersonnel?.emergency_contact as any)?.city && (
+                        <>{(selectedPersonnel?.emergency_contact as any)?.city}, </>
+                      )}
+                      {(selectedPersonnel?.emergency_contact as any)?.country || 'No address provided'}
+                    </p>
                   </div>
                 </div>
-                <div>
-                  <label className="text-sm font-medium text-gray-500">Address</label>
-                  <p className="text-gray-900">
-                    {(selectedPersonnel?.emergency_contact as any)?.address && (
-                      <>{(selectedPersonnel?.emergency_contact as any)?.address}, </>
-                    )}
-                    {(selectedPersonnel?.emergency_contact as any)?.city && (
-                      <>{(selectedPersonnel?.emergency_contact as any)?.city}, </>
-                    )}
-                    {(selectedPersonnel?.emergency_contact as any)?.country || 'No address provided'}
-                  </p>
-                </div>
-              </div>
+              )}
             </div>
           </div>
           
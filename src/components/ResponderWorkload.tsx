@@ -0,0 +1,183 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronRight, ExternalLink, Users } from 'lucide-react';
+import { Database } from '../lib/supabase';
+import { MentionableUser } from '../utils/incidentTimeline';
+import { IncidentWorkflow } from '../utils/incidentWorkflow';
+import { incidentSeverities, isSlaBreached } from '../utils/incidentSla';
+import { getResponderWorkload, getUnassignedIncidents } from '../utils/incidentAssignment';
+
+type IncidentReport = Database['public']['Tables']['incident_reports']['Row'];
+
+interface ResponderWorkloadProps {
+  incidents: IncidentReport[];
+  workflow: IncidentWorkflow;
+  users: MentionableUser[];
+  canEdit: boolean;
+  onReassign: (incidentId: string, userId: string | null) => Promise<void>;
+  onOpenIncident: (incidentId: string) => void;
+}
+
+const severityBadgeColors: Record<IncidentReport['severity'], string> = {
+  Critical: 'bg-red-100 text-red-700',
+  High: 'bg-orange-100 text-orange-700',
+  Medium: 'bg-yellow-100 text-yellow-700',
+  Low: 'bg-green-100 text-green-700'
+};
+
+/**
+ * Open incidents per responder, so managers can spot overloaded people and move incidents to others
+ */
+const ResponderWorkload: React.FC<ResponderWorkloadProps> = ({
+  incidents,
+  workflow,
+  users,
+  canEdit,
+  onReassign,
+  onOpenIncident
+}) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const workload = useMemo(() => getResponderWorkload(incidents, workflow, users), [incidents, workflow, users]);
+  const unassigned = useMemo(() => getUnassignedIncidents(incidents, workflow), [incidents, workflow]);
+
+  const handleReassign = async (incidentId: string, userId: string) => {
+    try {
+      setSavingId(incidentId);
+      setError(null);
+      await onReassign(incidentId, userId || null);
+    } catch (err) {
+      const { message } = err as { message?: string };
+      setError(message || 'Failed to reassign the incident');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const renderIncidents = (rows: IncidentReport[], currentUserId: string | null) => (
+    <div className="space-y-2">
+      {rows.map(incident => (
+        <div key={incident.id} className="flex items-center justify-between gap-3 p-2 bg-white border border-gray-200 rounded-lg">
+          <div className="min-w-0 flex items-center space-x-2">
+            <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${severityBadgeColors[incident.severity]}`}>
+              {incident.severity}
+            </span>
+            <button
+              onClick={() => onOpenIncident(incident.id)}
+              className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800 truncate"
+            >
+              <span className="truncate">{incident.title}</span>
+              <ExternalLink className="w-3 h-3 flex-shrink-0" />
+            </button>
+            <span className="text-xs text-gray-500 whitespace-nowrap">{incident.status}</span>
+            {isSlaBreached(incident) && (
+              <span className="text-xs text-red-600 whitespace-nowrap">SLA breached</span>
+            )}
+          </div>
+          {canEdit && (
+            <select
+              value={currentUserId || ''}
+              onChange={(e) => handleReassign(incident.id, e.target.value)}
+              disabled={savingId === incident.id}
+              className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+              title="Reassign"
+            >
+              <option value="">Unassigned</option>
+              {workload.map(row => (
+                <option key={row.user.user_id} value={row.user.user_id}>
+                  {row.user.full_name} ({row.incidents.length})
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="p-4 bg-gray-50 rounded-lg">
+          <p className="text-sm text-gray-500">Open incidents</p>
+          <p className="text-2xl font-bold text-gray-900">{unassigned.length + workload.reduce((total, row) => total + row.incidents.length, 0)}</p>
+        </div>
+        <div className="p-4 bg-gray-50 rounded-lg">
+          <p className="text-sm text-gray-500">Unassigned</p>
+          <p className={`text-2xl font-bold ${unassigned.length > 0 ? 'text-orange-600' : 'text-gray-900'}`}>{unassigned.length}</p>
+        </div>
+        <div className="p-4 bg-gray-50 rounded-lg">
+          <p className="text-sm text-gray-500">Responders with open incidents</p>
+          <p className="text-2xl font-bold text-gray-900">{workload.filter(row => row.incidents.length > 0).length}</p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+          <AlertTriangle className="w-5 h-5 text-red-500 flex-shrink-0" />
+          <span className="text-red-700 text-sm">{error}</span>
+        </div>
+      )}
+
+      {unassigned.length > 0 && (
+        <div>
+          <h3 className="text-md font-medium text-gray-900 mb-2">Unassigned</h3>
+          {renderIncidents(unassigned, null)}
+        </div>
+      )}
+
+      <div className="border border-gray-200 rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Responder</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Open</th>
+              {incidentSeverities.map(severity => (
+                <th key={severity} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{severity}</th>
+              ))}
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">SLA Breached</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {workload.map(row => (
+              <React.Fragment key={row.user.user_id}>
+                <tr
+                  onClick={() => row.incidents.length > 0 && setExpanded(expanded === row.user.user_id ? null : row.user.user_id)}
+                  className={row.incidents.length > 0 ? 'cursor-pointer hover:bg-gray-50' : ''}
+                >
+                  <td className="px-4 py-3 text-sm text-gray-900">
+                    <div className="flex items-center space-x-1">
+                      {row.incidents.length > 0 ? (
+                        expanded === row.user.user_id ? <ChevronDown className="w-4 h-4 text-gray-400" /> : <ChevronRight className="w-4 h-4 text-gray-400" />
+                      ) : (
+                        <Users className="w-4 h-4 text-gray-300" />
+                      )}
+                      <span>{row.user.full_name}</span>
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 text-sm font-semibold text-gray-900">{row.incidents.length}</td>
+                  {incidentSeverities.map(severity => (
+                    <td key={severity} className="px-4 py-3 text-sm text-gray-700">{row.bySeverity[severity] || '-'}</td>
+                  ))}
+                  <td className={`px-4 py-3 text-sm ${row.breached > 0 ? 'text-red-600 font-medium' : 'text-gray-700'}`}>
+                    {row.breached || '-'}
+                  </td>
+                </tr>
+                {expanded === row.user.user_id && (
+                  <tr>
+                    <td colSpan={incidentSeverities.length + 3} className="px-4 py-3 bg-gray-50">
+                      {renderIncidents(row.incidents, row.user.user_id)}
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ResponderWorkload;
@@ -0,0 +1,274 @@
+import React, { useState } from 'react';
+import { ShieldCheck, Loader2, AlertCircle, CheckCircle, XCircle, Send } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { useRiskAcceptances } from '../hooks/useRiskAcceptances';
+import {
+  acceptanceStatusLabels,
+  approverLabels,
+  canApproveAt,
+  getMaxExpiryDate,
+  getRequiredApprover,
+  resolveRiskAcceptancePolicy
+} from '../utils/riskAcceptance';
+import { resolveRiskAppetite } from '../utils/riskAppetite';
+import { Database } from '../lib/supabase';
+
+type Risk = Database['public']['Tables']['risks']['Row'];
+
+interface RiskAcceptanceProps {
+  risk: Risk;
+  // Called after a request is decided, since approving it changes the risk's status and treatment
+  onDecided?: () => void;
+}
+
+const statusColors = {
+  pending: 'bg-yellow-100 text-yellow-700',
+  approved: 'bg-teal-100 text-teal-700',
+  rejected: 'bg-red-100 text-red-700',
+  expired: 'bg-gray-100 text-gray-700',
+  revoked: 'bg-gray-100 text-gray-700'
+};
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Whether a risk is formally accepted, the request form its owner or a risk editor uses to ask for
+ * acceptance, and the approve or reject step for the approver its residual score band requires
+ */
+const RiskAcceptance: React.FC<RiskAcceptanceProps> = ({ risk, onDecided }) => {
+  const { user, profile, organization, hasPermission } = useAuth();
+  const { acceptances, activeAcceptance, users, loading, error, requestAcceptance, decideAcceptance } = useRiskAcceptances(risk);
+  const [requesting, setRequesting] = useState(false);
+  const [justification, setJustification] = useState('');
+  const [expiresOn, setExpiresOn] = useState('');
+  const [approverUserId, setApproverUserId] = useState('');
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const policy = resolveRiskAcceptancePolicy(organization?.settings);
+  const required = getRequiredApprover(policy, risk, resolveRiskAppetite(organization?.settings).bands);
+  const userNames = Object.fromEntries(users.map(u => [u.user_id, u.full_name]));
+  const eligibleApprovers = users.filter(u => u.user_id !== user?.id && canApproveAt(policy, u, required.approver));
+
+  const canRequest = !activeAcceptance
+    && risk.status !== 'closed'
+    && risk.status !== 'accepted'
+    && (risk.owner_user_id === user?.id || hasPermission('risks.update'));
+  const canDecide = activeAcceptance?.status === 'pending'
+    && !!profile
+    && activeAcceptance.requested_by !== user?.id
+    && canApproveAt(policy, profile, activeAcceptance.approver_level);
+  const approverId = activeAcceptance?.decided_by || activeAcceptance?.approver_user_id;
+  const pastAcceptances = acceptances.filter(acceptance => acceptance.id !== activeAcceptance?.id);
+
+  const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+  const maxExpiry = getMaxExpiryDate(required.maxDays);
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!justification.trim() || !expiresOn || !approverUserId) return;
+
+    setSubmitting(true);
+    const acceptance = await requestAcceptance(
+      justification.trim(),
+      new Date(`${expiresOn}T00:00:00`).toISOString(),
+      approverUserId
+    );
+    setSubmitting(false);
+
+    if (acceptance) {
+      setJustification('');
+      setExpiresOn('');
+      setApproverUserId('');
+      setRequesting(false);
+    }
+  };
+
+  const handleDecide = async (approve: boolean) => {
+    if (!activeAcceptance || (!approve && !notes.trim())) return;
+
+    setSubmitting(true);
+    const acceptance = await decideAcceptance(activeAcceptance.id, approve, notes);
+    setSubmitting(false);
+
+    if (acceptance) {
+      setNotes('');
+      onDecided?.();
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-6">
+        <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between bg-gray-50 rounded-lg p-4">
+        <div className="flex items-center space-x-2">
+          <ShieldCheck className="w-5 h-5 text-gray-500" />
+          <span className="text-sm text-gray-700">
+            Accepting this {required.level} risk needs {approverLabels[required.approver].toLowerCase()} approval for at
+            most {required.maxDays} days
+          </span>
+        </div>
+        {canRequest && !requesting && (
+          <button
+            type="button"
+            onClick={() => setRequesting(true)}
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            Request acceptance
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+          <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+          <span className="text-red-700 text-sm">{error}</span>
+        </div>
+      )}
+
+      {activeAcceptance && (
+        <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+          <div className="flex items-start justify-between">
+            <div>
+              <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${statusColors[activeAcceptance.status]}`}>
+                {acceptanceStatusLabels[activeAcceptance.status]}
+              </span>
+              <p className="text-sm text-gray-700 mt-2">{activeAcceptance.justification}</p>
+            </div>
+            <div className="text-right text-xs text-gray-500 flex-shrink-0 ml-4">
+              <div>Until {new Date(activeAcceptance.expires_at).toLocaleDateString()}</div>
+              <div>
+                Requested by {activeAcceptance.requested_by ? userNames[activeAcceptance.requested_by] || 'Unknown User' : 'Unknown User'}
+              </div>
+              <div>
+                {activeAcceptance.status === 'approved' ? 'Approved by ' : 'Awaiting '}
+                {approverId ? userNames[approverId] || 'Unknown User' : approverLabels[activeAcceptance.approver_level]}
+              </div>
+            </div>
+          </div>
+
+          {canDecide && (
+            <div className="space-y-3">
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={2}
+                placeholder="Notes (required to reject)"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <div className="flex justify-end space-x-2">
+                <button
+                  type="button"
+                  onClick={() => handleDecide(false)}
+                  disabled={submitting || !notes.trim()}
+                  className="flex items-center space-x-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                >
+                  <XCircle className="w-4 h-4" />
+                  <span>Reject</span>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDecide(true)}
+                  disabled={submitting}
+                  className="flex items-center space-x-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                >
+                  {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle className="w-4 h-4" />}
+                  <span>Approve</span>
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {canRequest && requesting && (
+        <form onSubmit={handleRequest} className="border border-gray-200 rounded-lg p-4 space-y-3">
+          <textarea
+            value={justification}
+            onChange={(e) => setJustification(e.target.value)}
+            rows={3}
+            placeholder="Why should this risk be accepted rather than treated? (required)"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Accepted until</label>
+              <input
+                type="date"
+                value={expiresOn}
+                min={toDateInput(tomorrow)}
+                max={toDateInput(maxExpiry)}
+                onChange={(e) => setExpiresOn(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Approver</label>
+              <select
+                value={approverUserId}
+                onChange={(e) => setApproverUserId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Select {approverLabels[required.approver].toLowerCase()}...</option>
+                {eligibleApprovers.map(approver => (
+                  <option key={approver.user_id} value={approver.user_id}>{approver.full_name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          {eligibleApprovers.length === 0 && (
+            <p className="text-xs text-gray-500">
+              Nobody else can approve at {approverLabels[required.approver].toLowerCase()} level yet. Ask an administrator to
+              check the risk acceptance settings.
+            </p>
+          )}
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => setRequesting(false)}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting || !justification.trim() || !expiresOn || !approverUserId}
+              className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+              <span>Request Acceptance</span>
+            </button>
+          </div>
+        </form>
+      )}
+
+      {pastAcceptances.length > 0 && (
+        <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+          {pastAcceptances.map(acceptance => (
+            <div key={acceptance.id} className="p-3 flex items-start justify-between">
+              <div>
+                <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${statusColors[acceptance.status]}`}>
+                  {acceptanceStatusLabels[acceptance.status]}
+                </span>
+                <p className="text-sm text-gray-700 mt-1">{acceptance.justification}</p>
+                {acceptance.decision_notes && <p className="text-sm text-gray-500 mt-1">{acceptance.decision_notes}</p>}
+              </div>
+              <span className="text-xs text-gray-500 flex-shrink-0 ml-4">
+                {new Date(acceptance.requested_at).toLocaleDateString()}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RiskAcceptance;
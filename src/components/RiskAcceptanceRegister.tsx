@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { Download, Loader2, AlertCircle } from 'lucide-react';
+import { useRiskAcceptanceRegister } from '../hooks/useRiskAcceptances';
+import { acceptanceStatusLabels, approverLabels } from '../utils/riskAcceptance';
+import { riskCategoryLabels } from '../utils/riskReviews';
+
+/**
+ * Every currently accepted risk with its justification, approver and expiry, optionally with past and
+ * rejected requests, for audits of what the organization has chosen to live with
+ */
+const RiskAcceptanceRegister: React.FC = () => {
+  const [includeHistory, setIncludeHistory] = useState(false);
+  const { acceptances, userNames, loading, error } = useRiskAcceptanceRegister(includeHistory);
+
+  const nameOf = (userId: string | null) => (userId ? userNames[userId] || 'Unknown User' : '—');
+
+  const handleExport = () => {
+    const headers = ['Risk', 'Category', 'Level', 'Residual Score', 'Status', 'Justification', 'Requested By', 'Approver Level', 'Approved By', 'Decided At', 'Expires At'];
+    const escape = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+    const csvContent = [
+      headers.join(','),
+      ...acceptances.map(acceptance => [
+        escape(acceptance.risk?.title || 'Deleted risk'),
+        acceptance.risk ? riskCategoryLabels[acceptance.risk.category] : '',
+        acceptance.risk_level,
+        acceptance.residual_risk_score,
+        acceptanceStatusLabels[acceptance.status],
+        escape(acceptance.justification),
+        escape(nameOf(acceptance.requested_by)),
+        approverLabels[acceptance.approver_level],
+        escape(nameOf(acceptance.decided_by)),
+        acceptance.decided_at || '',
+        acceptance.expires_at
+      ].join(','))
+    ].join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', `accepted_risks_${new Date().toISOString().split('T')[0]}.csv`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={includeHistory}
+            onChange={(e) => setIncludeHistory(e.target.checked)}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          <span>Include pending, rejected, expired and revoked requests</span>
+        </label>
+        <button
+          onClick={handleExport}
+          disabled={acceptances.length === 0}
+          className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+        >
+          <Download className="w-4 h-4" />
+          <span>Export</span>
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+          <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+          <span className="text-red-700 text-sm">{error}</span>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center p-8">
+          <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+        </div>
+      ) : acceptances.length === 0 ? (
+        <p className="text-center text-gray-500 py-8">
+          {includeHistory ? 'No risk has been put forward for acceptance yet.' : 'No risks are currently accepted.'}
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Risk</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Level / Residual</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Justification</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Requested By</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Approver</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expires</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {acceptances.map(acceptance => (
+                <tr key={acceptance.id}>
+                  <td className="px-4 py-3">
+                    <div className="text-sm font-medium text-gray-900">{acceptance.risk?.title || 'Deleted risk'}</div>
+                    <div className="text-xs text-gray-500">
+                      {acceptance.risk && riskCategoryLabels[acceptance.risk.category]}
+                      {includeHistory && ` · ${acceptanceStatusLabels[acceptance.status]}`}
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-700">
+                    {acceptance.risk_level} / {acceptance.residual_risk_score}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-700 max-w-xs">{acceptance.justification}</td>
+                  <td className="px-4 py-3 text-sm text-gray-700">{nameOf(acceptance.requested_by)}</td>
+                  <td className="px-4 py-3 text-sm text-gray-700">
+                    <div>{nameOf(acceptance.decided_by || acceptance.approver_user_id)}</div>
+                    <div className="text-xs text-gray-500">
+                      {approverLabels[acceptance.approver_level]}
+                      {acceptance.decided_at && ` · ${new Date(acceptance.decided_at).toLocaleDateString()}`}
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-700">{new Date(acceptance.expires_at).toLocaleDateString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        When an acceptance expires the risk returns to its previous status and its owner is asked to review it. An
+        acceptance is revoked as soon as the risk's residual score rises above the accepted one.
+      </p>
+    </div>
+  );
+};
+
+export default RiskAcceptanceRegister;
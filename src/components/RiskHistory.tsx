@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { History, Loader2, AlertCircle, ChevronDown, ChevronRight, User } from 'lucide-react';
+import { useRiskHistory } from '../hooks/useRiskHistory';
+import { diffRiskSnapshots } from '../utils/riskHistory';
+
+interface RiskHistoryProps {
+  riskId: string;
+}
+
+const operationLabels = {
+  created: 'Created',
+  updated: 'Updated',
+  deleted: 'Deleted'
+};
+
+/**
+ * Version history of a risk, each version shown as the changes from the one before it
+ */
+const RiskHistory: React.FC<RiskHistoryProps> = ({ riskId }) => {
+  const { versions, userNames, loading, error } = useRiskHistory(riskId);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const toggle = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-6">
+        <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+        <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+        <span className="text-red-700 text-sm">{error}</span>
+      </div>
+    );
+  }
+
+  if (versions.length === 0) {
+    return <p className="text-sm text-gray-500">No changes have been recorded for this risk.</p>;
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+      {versions.map((version, index) => {
+        // Versions are newest first, so the previous version is the next one in the list
+        const previous = versions[index + 1]?.snapshot || null;
+        const changes = version.operation === 'updated'
+          ? diffRiskSnapshots(previous, version.snapshot, userNames)
+          : [];
+        const isExpanded = expanded.has(version.id) || index === 0;
+
+        return (
+          <div key={version.id} className="p-4">
+            <button
+              type="button"
+              onClick={() => toggle(version.id)}
+              className="w-full flex items-start justify-between text-left"
+            >
+              <div className="flex items-start space-x-2">
+                {changes.length > 0 ? (
+                  isExpanded ? <ChevronDown className="w-4 h-4 mt-0.5 text-gray-400" /> : <ChevronRight className="w-4 h-4 mt-0.5 text-gray-400" />
+                ) : (
+                  <History className="w-4 h-4 mt-0.5 text-gray-400" />
+                )}
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    v{version.version} · {operationLabels[version.operation]}
+                    {changes.length > 0 && (
+                      <span className="font-normal text-gray-500"> — {changes.map(change => change.label).join(', ')}</span>
+                    )}
+                  </p>
+                  {version.change_reason && (
+                    <p className="text-sm text-gray-700 mt-1">“{version.change_reason}”</p>
+                  )}
+                </div>
+              </div>
+              <div className="text-right text-xs text-gray-500 flex-shrink-0 ml-4">
+                <div className="flex items-center justify-end space-x-1">
+                  <User className="w-3 h-3" />
+                  <span>{version.changed_by ? userNames[version.changed_by] || 'Unknown user' : 'System'}</span>
+                </div>
+                <div>{new Date(version.changed_at).toLocaleString()}</div>
+              </div>
+            </button>
+
+            {isExpanded && changes.length > 0 && (
+              <table className="w-full mt-3 text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500 uppercase tracking-wider">
+                    <th className="py-1 pr-4 text-left font-medium">Field</th>
+                    <th className="py-1 pr-4 text-left font-medium">Before</th>
+                    <th className="py-1 text-left font-medium">After</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {changes.map(change => (
+                    <tr key={change.field}>
+                      <td className="py-1 pr-4 text-gray-600 whitespace-nowrap">{change.label}</td>
+                      <td className="py-1 pr-4 text-red-700 line-through decoration-red-300">{change.from}</td>
+                      <td className="py-1 text-green-700">{change.to}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default RiskHistory;
@@ -23,14 +23,24 @@ import {
   ChevronRight,
   Loader2,
   Shield,
-  Brain
+  Brain,
+  History,
+  ShieldCheck
 } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
 import AddEditRiskForm from './AddEditRiskForm';
 import { useRisks } from '../hooks/useRisks';
 import Modal from './common/Modal';
 import MitigationDisplay from './MitigationDisplay';
+import RiskHistory from './RiskHistory';
+import RiskRegisterAsOf from './RiskRegisterAsOf';
+import RiskReviews from './RiskReviews';
+import RiskTreatment from './RiskTreatment';
+import RiskAcceptance from './RiskAcceptance';
+import RiskAcceptanceRegister from './RiskAcceptanceRegister';
 import { AppliedMitigation } from '../types/mitigation';
+import { formatEffectiveness, getRiskLevel } from '../utils/riskScoring';
+import { needsTreatmentDecision, resolveRiskAppetite, treatmentDecisionLabels } from '../utils/riskAppetite';
 import ConfirmationModal from './common/ConfirmationModal';
 import { aiService, DetectedRisk } from '../services/aiService';
 import { supabase } from '../lib/supabase';
@@ -57,6 +67,8 @@ const RiskManagement: React.FC = () => {
   const [showDeleteConfirmation, setShowDeleteConfirmation] = useState(false);
   const [riskToDelete, setRiskToDelete] = useState<{id: string, title: string} | null>(null);
   const [showAiDetectionModal, setShowAiDetectionModal] = useState(false);
+  const [showRegisterAsOf, setShowRegisterAsOf] = useState(false);
+  const [showAcceptanceRegister, setShowAcceptanceRegister] = useState(false);
   const [aiDetectionLoading, setAiDetectionLoading] = useState(false);
   const [aiDetectedRisks, setAiDetectedRisks] = useState<DetectedRisk[]>([]);
   const [aiDetectionError, setAiDetectionError] = useState<string | null>(null);
@@ -66,7 +78,7 @@ const RiskManagement: React.FC = () => {
     confidence_score: number;
   } | null>(null);
 
-  const { user, profile, hasPermission } = useAuth();
+  const { user, profile, organization, hasPermission, requireReauth } = useAuth();
   const { 
     risks, 
     userProfiles,
@@ -75,8 +87,12 @@ const RiskManagement: React.FC = () => {
     fetchRisks, 
     addRisk, 
     updateRisk, 
-    deleteRisk
+    deleteRisk,
+    recordTreatment,
+    refreshRisk
   } = useRisks();
+  const appetite = resolveRiskAppetite(organization?.settings);
+  const { bands } = appetite;
 
   const handleCreateRisk = async (formData: any) => {
     try {
@@ -102,8 +118,7 @@ const RiskManagement: React.FC = () => {
     try {
       const updateData = {
         ...formData,
-        organization_id: profile?.organization_id,
-        last_reviewed_at: new Date().toISOString()
+        organization_id: profile?.organization_id
       };
 
       await updateRisk(editingRisk.id, updateData);
@@ -122,6 +137,7 @@ const RiskManagement: React.FC = () => {
 
   const confirmDeleteRisk = async () => {
     if (!riskToDelete) return;
+    if (!await requireReauth('risks.delete')) return;
     
     try {
       // Delete the risk
@@ -158,7 +174,7 @@ const RiskManagement: React.FC = () => {
         { data: travelPlans }
       ] = await Promise.all([
         supabase.from('assets').select('*'),
-        supabase.from('personnel_details').select('*'),
+        supabase.from('personnel_directory').select('*'),
         supabase.from('incident_reports').select('*'),
         supabase.from('travel_plans').select('*')
       ]);
@@ -255,17 +271,12 @@ const RiskManagement: React.FC = () => {
   };
 
   const getRiskLevelColor = (score: number) => {
-    if (score <= 5) return 'text-green-600 bg-green-100 border-green-200';
-    if (score <= 12) return 'text-yellow-600 bg-yellow-100 border-yellow-200';
-    if (score <= 20) return 'text-orange-600 bg-orange-100 border-orange-200';
-    return 'text-red-600 bg-red-100 border-red-200';
-  };
-
-  const getRiskLevel = (score: number) => {
-    if (score <= 5) return 'Low';
-    if (score <= 12) return 'Medium';
-    if (score <= 20) return 'High';
-    return 'Critical';
+    switch (getRiskLevel(score, bands)) {
+      case 'Low': return 'text-green-600 bg-green-100 border-green-200';
+      case 'Medium': return 'text-yellow-600 bg-yellow-100 border-yellow-200';
+      case 'High': return 'text-orange-600 bg-orange-100 border-orange-200';
+      default: return 'text-red-600 bg-red-100 border-red-200';
+    }
   };
 
   const getStatusColor = (status: string) => {
@@ -274,6 +285,7 @@ const RiskManagement: React.FC = () => {
       case 'assessed': return 'bg-yellow-100 text-yellow-700';
       case 'mitigated': return 'bg-green-100 text-green-700';
       case 'monitoring': return 'bg-purple-100 text-purple-700';
+      case 'accepted': return 'bg-teal-100 text-teal-700';
       case 'closed': return 'bg-gray-100 text-gray-700';
       default: return 'bg-gray-100 text-gray-700';
     }
@@ -285,6 +297,7 @@ const RiskManagement: React.FC = () => {
       case 'assessed': return <Eye className="w-4 h-4" />;
       case 'mitigated': return <CheckCircle className="w-4 h-4" />;
       case 'monitoring': return <Activity className="w-4 h-4" />;
+      case 'accepted': return <ShieldCheck className="w-4 h-4" />;
       case 'closed': return <XCircle className="w-4 h-4" />;
       default: return <Clock className="w-4 h-4" />;
     }
@@ -309,10 +322,8 @@ const RiskManagement: React.FC = () => {
     const matchesStatus = filterStatus === 'all' || risk.status === filterStatus;
     
     let matchesRiskLevel = true;
-    if (filterRiskLevel === 'low') matchesRiskLevel = risk.risk_score <= 5;
-    else if (filterRiskLevel === 'medium') matchesRiskLevel = risk.risk_score > 5 && risk.risk_score <= 12;
-    else if (filterRiskLevel === 'high') matchesRiskLevel = risk.risk_score > 12 && risk.risk_score <= 20;
-    else if (filterRiskLevel === 'critical') matchesRiskLevel = risk.risk_score > 20;
+    if (filterRiskLevel === 'above_tolerance') matchesRiskLevel = needsTreatmentDecision(appetite, risk);
+    else if (filterRiskLevel !== 'all') matchesRiskLevel = getRiskLevel(risk.risk_score, bands).toLowerCase() === filterRiskLevel;
     
     return matchesSearch && matchesCategory && matchesStatus && matchesRiskLevel;
   });
@@ -339,10 +350,11 @@ const RiskManagement: React.FC = () => {
 
   const riskStats = {
     total: risks.length,
-    critical: risks.filter(r => r.risk_score > 20).length,
-    high: risks.filter(r => r.risk_score > 12 && r.risk_score <= 20).length,
-    medium: risks.filter(r => r.risk_score > 5 && r.risk_score <= 12).length,
-    low: risks.filter(r => r.risk_score <= 5).length,
+    critical: risks.filter(r => getRiskLevel(r.risk_score, bands) === 'Critical').length,
+    high: risks.filter(r => getRiskLevel(r.risk_score, bands) === 'High').length,
+    medium: risks.filter(r => getRiskLevel(r.risk_score, bands) === 'Medium').length,
+    low: risks.filter(r => getRiskLevel(r.risk_score, bands) === 'Low').length,
+    needsTreatment: risks.filter(r => needsTreatmentDecision(appetite, r)).length,
     open: risks.filter(r => !['closed', 'mitigated'].includes(r.status)).length,
     avgScore: risks.length > 0 ? Math.round(risks.reduce((sum, r) => sum + r.risk_score, 0) / risks.length) : 0,
     aiGenerated: risks.filter(r => r.is_ai_generated).length
@@ -382,6 +394,20 @@ const RiskManagement: React.FC = () => {
             <Plus className="w-4 h-4" />
             <span>Add Risk</span>
           </button>
+          <button
+            onClick={() => setShowRegisterAsOf(true)}
+            className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            <History className="w-4 h-4" />
+            <span>Register History</span>
+          </button>
+          <button
+            onClick={() => setShowAcceptanceRegister(true)}
+            className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            <ShieldCheck className="w-4 h-4" />
+            <span>Accepted Risks</span>
+          </button>
           <button className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors">
             <Download className="w-4 h-4" />
             <span>Export</span>
@@ -396,6 +422,23 @@ const RiskManagement: React.FC = () => {
         </div>
       )}
 
+      {riskStats.needsTreatment > 0 && (
+        <div className="p-4 bg-orange-50 border border-orange-200 rounded-lg flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <AlertTriangle className="w-5 h-5 text-orange-500 flex-shrink-0" />
+            <span className="text-orange-800 text-sm">
+              {riskStats.needsTreatment} {riskStats.needsTreatment === 1 ? 'risk is' : 'risks are'} above tolerance without a treatment decision.
+            </span>
+          </div>
+          <button
+            onClick={() => setFilterRiskLevel('above_tolerance')}
+            className="text-sm font-medium text-orange-700 hover:text-orange-900"
+          >
+            Show
+          </button>
+        </div>
+      )}
+
       {/* Statistics Overview */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-8 gap-4">
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 lg:col-span-2">
@@ -508,6 +551,7 @@ const RiskManagement: React.FC = () => {
               <option value="assessed">Assessed</option>
               <option value="mitigated">Mitigated</option>
               <option value="monitoring">Monitoring</option>
+              <option value="accepted">Accepted</option>
               <option value="closed">Closed</option>
             </select>
             
@@ -517,10 +561,11 @@ const RiskManagement: React.FC = () => {
               className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             >
               <option value="all">All Risk Levels</option>
-              <option value="low">Low (1-5)</option>
-              <option value="medium">Medium (6-12)</option>
-              <option value="high">High (13-20)</option>
-              <option value="critical">Critical (21-25)</option>
+              <option value="low">Low (1-{bands.low})</option>
+              <option value="medium">Medium ({bands.low + 1}-{bands.medium})</option>
+              <option value="high">High ({bands.medium + 1}-{bands.high})</option>
+              <option value="critical">Critical ({bands.high + 1}-25)</option>
+              <option value="above_tolerance">Above tolerance, undecided</option>
             </select>
           </div>
           
@@ -565,7 +610,7 @@ const RiskManagement: React.FC = () => {
                   onClick={() => handleSort('risk_score')}
                 >
                   <div className="flex items-center space-x-1">
-                    <span>Risk Score</span>
+                    <span>Inherent / Residual</span>
                     {sortField === 'risk_score' && (
                       sortDirection === 'asc' ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />
                     )}
@@ -624,7 +669,27 @@ const RiskManagement: React.FC = () => {
                       <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full border ${getRiskLevelColor(risk.risk_score)}`}>
                         {risk.risk_score}
                       </span>
-                      <span className="text-xs text-gray-500">{getRiskLevel(risk.risk_score)}</span>
+                      <span className="text-xs text-gray-500">{getRiskLevel(risk.risk_score, bands)}</span>
+                      <span className="text-gray-300">→</span>
+                      <span
+                        className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full border ${getRiskLevelColor(risk.residual_risk_score)}`}
+                        title="Residual score after controls"
+                      >
+                        {risk.residual_risk_score}
+                      </span>
+                      {needsTreatmentDecision(appetite, risk) ? (
+                        <span
+                          className="inline-flex items-center text-xs font-medium text-red-600"
+                          title="Above tolerance; a treatment decision is required"
+                        >
+                          <AlertTriangle className="w-3 h-3 mr-1" />
+                          Above tolerance
+                        </span>
+                      ) : risk.treatment_decision && (
+                        <span className="text-xs text-gray-500" title="Treatment decision">
+                          {treatmentDecisionLabels[risk.treatment_decision]}
+                        </span>
+                      )}
                     </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
@@ -727,7 +792,10 @@ const RiskManagement: React.FC = () => {
                 <h2 className="text-2xl font-bold text-gray-900">{selectedRisk?.title}</h2>
                 <div className="flex items-center space-x-2 mt-1">
                   <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full border ${getRiskLevelColor(selectedRisk?.risk_score)}`}>
-                    Risk Score: {selectedRisk?.risk_score}
+                    Inherent: {selectedRisk?.risk_score}
+                  </span>
+                  <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full border ${getRiskLevelColor(selectedRisk?.residual_risk_score)}`}>
+                    Residual: {selectedRisk?.residual_risk_score}
                   </span>
                   <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-blue-100 text-blue-700">
                     {selectedRisk?.category && getCategoryLabel(selectedRisk.category)}
@@ -814,6 +882,10 @@ const RiskManagement: React.FC = () => {
           {selectedRisk?.mitigations && (selectedRisk?.mitigations as AppliedMitigation[]).length > 0 && (
             <div>
               <h3 className="text-lg font-semibold text-gray-900 mb-3">Applied Mitigations</h3>
+              <p className="text-sm text-gray-600 mb-3">
+                Controls remove {formatEffectiveness(selectedRisk.control_effectiveness)} of the inherent score
+                ({selectedRisk.risk_score} → {selectedRisk.residual_risk_score}).
+              </p>
               <MitigationDisplay 
                 mitigations={selectedRisk?.mitigations as AppliedMitigation[]}
                 showCategory={true}
@@ -876,9 +948,85 @@ const RiskManagement: React.FC = () => {
               </div>
             </div>
           </div>
+
+          {selectedRisk && (
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 mb-3">Appetite &amp; Treatment</h3>
+              <RiskTreatment
+                key={selectedRisk.id}
+                risk={selectedRisk}
+                appetite={appetite}
+                userNames={userProfiles}
+                canDecide={hasPermission('risks.update')}
+                onRecord={async (decision, rationale) => {
+                  setSelectedRisk(await recordTreatment(selectedRisk.id, decision, rationale));
+                }}
+              />
+            </div>
+          )}
+
+          {selectedRisk && (
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 mb-3">Acceptance</h3>
+              <RiskAcceptance
+                key={selectedRisk.id}
+                risk={selectedRisk}
+                onDecided={async () => {
+                  const updated = await refreshRisk(selectedRisk.id);
+                  if (updated) setSelectedRisk(updated);
+                }}
+              />
+            </div>
+          )}
+
+          {selectedRisk && (
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 mb-3">Reviews</h3>
+              <RiskReviews
+                risk={selectedRisk}
+                onReviewed={(attestation) => {
+                  fetchRisks();
+                  // A changed assessment is updated straight away
+                  if (attestation === 'changed' && hasPermission('risks.update')) {
+                    openEditForm(selectedRisk);
+                    setSelectedRisk(null);
+                  } else {
+                    setSelectedRisk({ ...selectedRisk, last_reviewed_at: new Date().toISOString() });
+                  }
+                }}
+              />
+            </div>
+          )}
+
+          {selectedRisk && (
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 mb-3">History</h3>
+              <RiskHistory riskId={selectedRisk.id} />
+            </div>
+          )}
         </div>
       </Modal>
 
+      {/* Register as of a past date */}
+      <Modal
+        isOpen={showRegisterAsOf}
+        onClose={() => setShowRegisterAsOf(false)}
+        title="Risk Register History"
+        size="2xl"
+      >
+        <RiskRegisterAsOf />
+      </Modal>
+
+      {/* Accepted risks */}
+      <Modal
+        isOpen={showAcceptanceRegister}
+        onClose={() => setShowAcceptanceRegister(false)}
+        title="Accepted Risks"
+        size="2xl"
+      >
+        <RiskAcceptanceRegister />
+      </Modal>
+
       {/* Confirmation Modal for Delete */}
       <ConfirmationModal
         isOpen={showDeleteConfirmation}
@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import { Calendar, Download, Loader2, AlertCircle } from 'lucide-react';
+import { useRiskRegisterAsOf } from '../hooks/useRiskHistory';
+import { formatRiskHistoryValue } from '../utils/riskHistory';
+
+const toDateTimeInput = (date: Date) => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+};
+
+/**
+ * The risk register exactly as recorded at a chosen date and time, for audits of past decisions
+ */
+const RiskRegisterAsOf: React.FC = () => {
+  const [asOf, setAsOf] = useState(() => toDateTimeInput(new Date()));
+  const { versions, userNames, loading, error, fetchRegister } = useRiskRegisterAsOf();
+
+  useEffect(() => {
+    if (asOf) {
+      fetchRegister(new Date(asOf));
+    }
+  }, [asOf, fetchRegister]);
+
+  const handleExport = () => {
+    const headers = ['Title', 'Category', 'Status', 'Impact', 'Likelihood', 'Inherent Score', 'Residual Score', 'Owner', 'Version', 'Recorded At'];
+    const escape = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+    const csvContent = [
+      headers.join(','),
+      ...versions.map(version => [
+        escape(version.snapshot.title),
+        formatRiskHistoryValue('category', version.snapshot, userNames),
+        formatRiskHistoryValue('status', version.snapshot, userNames),
+        formatRiskHistoryValue('impact', version.snapshot, userNames),
+        formatRiskHistoryValue('likelihood', version.snapshot, userNames),
+        version.snapshot.risk_score,
+        version.snapshot.residual_risk_score ?? '',
+        escape(formatRiskHistoryValue('owner_user_id', version.snapshot, userNames)),
+        version.version,
+        version.changed_at
+      ].join(','))
+    ].join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', `risk_register_as_of_${asOf.split('T')[0]}.csv`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <label className="flex items-center space-x-2">
+          <Calendar className="w-4 h-4 text-gray-500" />
+          <span className="text-sm font-medium text-gray-700">Register as of</span>
+          <input
+            type="datetime-local"
+            value={asOf}
+            max={toDateTimeInput(new Date())}
+            onChange={(e) => setAsOf(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </label>
+        <button
+          onClick={handleExport}
+          disabled={versions.length === 0}
+          className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+        >
+          <Download className="w-4 h-4" />
+          <span>Export</span>
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+          <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+          <span className="text-red-700 text-sm">{error}</span>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center p-8">
+          <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+        </div>
+      ) : versions.length === 0 ? (
+        <p className="text-center text-gray-500 py-8">No risks were on the register at that time.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Risk</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Impact / Likelihood</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Inherent / Residual</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Owner</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Version</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {versions.map(version => (
+                <tr key={version.id}>
+                  <td className="px-4 py-3">
+                    <div className="text-sm font-medium text-gray-900">{version.snapshot.title}</div>
+                    <div className="text-xs text-gray-500">{formatRiskHistoryValue('category', version.snapshot, userNames)}</div>
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-700">{formatRiskHistoryValue('status', version.snapshot, userNames)}</td>
+                  <td className="px-4 py-3 text-sm text-gray-700">
+                    {formatRiskHistoryValue('impact', version.snapshot, userNames)} / {formatRiskHistoryValue('likelihood', version.snapshot, userNames)}
+                  </td>
+                  <td className="px-4 py-3 text-sm font-semibold text-gray-900">
+                    {version.snapshot.risk_score} / {formatRiskHistoryValue('residual_risk_score', version.snapshot, userNames)}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-700">{formatRiskHistoryValue('owner_user_id', version.snapshot, userNames)}</td>
+                  <td className="px-4 py-3 text-xs text-gray-500">
+                    v{version.version} · {new Date(version.changed_at).toLocaleDateString()}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Risks that existed before history was recorded show their state at that time, dated at their creation.
+      </p>
+    </div>
+  );
+};
+
+export default RiskRegisterAsOf;
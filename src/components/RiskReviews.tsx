@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { CalendarCheck, Loader2, AlertCircle, CheckCircle } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { useRiskReviews } from '../hooks/useRiskReviews';
+import { RiskReviewAttestation } from '../types/riskReview';
+import { attestationLabels, getDaysOverdue, getNextReviewDate, resolveRiskReviewPolicy } from '../utils/riskReviews';
+import { resolveRiskAppetite } from '../utils/riskAppetite';
+import { Database } from '../lib/supabase';
+
+type Risk = Database['public']['Tables']['risks']['Row'];
+
+interface RiskReviewsProps {
+  risk: Risk;
+  // Called after a review is recorded; on 'changed' the owner is expected to update the assessment
+  onReviewed?: (attestation: RiskReviewAttestation) => void;
+}
+
+/**
+ * When a risk is next due for review, the form its owner completes to attest that the assessment is still
+ * accurate or has changed, and the reviews recorded so far
+ */
+const RiskReviews: React.FC<RiskReviewsProps> = ({ risk, onReviewed }) => {
+  const { user, organization, hasPermission } = useAuth();
+  const { reviews, pendingReview, loading, error, completeReview } = useRiskReviews(risk.id);
+  const [attestation, setAttestation] = useState<RiskReviewAttestation>('still_accurate');
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const nextReview = pendingReview
+    ? new Date(pendingReview.due_at)
+    : getNextReviewDate(resolveRiskReviewPolicy(organization?.settings), risk, resolveRiskAppetite(organization?.settings).bands);
+  const daysOverdue = pendingReview ? getDaysOverdue(pendingReview) : 0;
+  const canReview = risk.status !== 'closed' && (risk.owner_user_id === user?.id || hasPermission('risks.update'));
+  const completedReviews = reviews.filter(review => review.status === 'completed');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (attestation === 'changed' && !notes.trim()) return;
+
+    setSubmitting(true);
+    const review = await completeReview(attestation, notes);
+    setSubmitting(false);
+
+    if (review) {
+      setNotes('');
+      setAttestation('still_accurate');
+      onReviewed?.(attestation);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-6">
+        <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between bg-gray-50 rounded-lg p-4">
+        <div className="flex items-center space-x-2">
+          <CalendarCheck className="w-5 h-5 text-gray-500" />
+          <span className="text-sm font-medium text-gray-700">Next review</span>
+        </div>
+        <span className={`text-sm font-medium ${daysOverdue > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+          {nextReview ? nextReview.toLocaleDateString() : 'Not scheduled'}
+          {daysOverdue > 0 && ` (${daysOverdue} day${daysOverdue === 1 ? '' : 's'} overdue)`}
+        </span>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+          <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+          <span className="text-red-700 text-sm">{error}</span>
+        </div>
+      )}
+
+      {canReview && (
+        <form onSubmit={handleSubmit} className="border border-gray-200 rounded-lg p-4 space-y-3">
+          <p className="text-sm font-medium text-gray-900">
+            {pendingReview ? 'This risk is due for review' : 'Record a review'}
+          </p>
+          <div className="flex items-center space-x-6">
+            {(Object.keys(attestationLabels) as RiskReviewAttestation[]).map(option => (
+              <label key={option} className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="radio"
+                  name="attestation"
+                  value={option}
+                  checked={attestation === option}
+                  onChange={() => setAttestation(option)}
+                  className="text-blue-600 focus:ring-blue-500"
+                />
+                <span>{attestationLabels[option]}</span>
+              </label>
+            ))}
+          </div>
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={2}
+            placeholder={attestation === 'changed' ? 'What changed since the last review? (required)' : 'Notes (optional)'}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          {attestation === 'changed' && (
+            <p className="text-xs text-gray-500">You will be asked to update the assessment after recording the review.</p>
+          )}
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={submitting || (attestation === 'changed' && !notes.trim())}
+              className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle className="w-4 h-4" />}
+              <span>Complete Review</span>
+            </button>
+          </div>
+        </form>
+      )}
+
+      {completedReviews.length > 0 && (
+        <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+          {completedReviews.map(review => (
+            <div key={review.id} className="p-3 flex items-start justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-900">{attestationLabels[review.attestation!]}</p>
+                {review.notes && <p className="text-sm text-gray-700 mt-1">{review.notes}</p>}
+              </div>
+              <span className="text-xs text-gray-500 flex-shrink-0 ml-4">
+                {review.completed_at && new Date(review.completed_at).toLocaleDateString()}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RiskReviews;
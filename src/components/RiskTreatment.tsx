@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { Gauge, Loader2, AlertCircle, CheckCircle } from 'lucide-react';
+import { Database } from '../lib/supabase';
+import { RiskTreatmentDecision } from '../types/riskTreatment';
+import {
+  RiskAppetite,
+  appetiteStatusLabels,
+  getAppetiteStatus,
+  getCategoryAppetite,
+  needsTreatmentDecision,
+  treatmentDecisionLabels
+} from '../utils/riskAppetite';
+
+type Risk = Database['public']['Tables']['risks']['Row'];
+
+interface RiskTreatmentProps {
+  risk: Risk;
+  appetite: RiskAppetite;
+  userNames: Record<string, string>;
+  canDecide: boolean;
+  onRecord: (decision: RiskTreatmentDecision, rationale: string) => Promise<unknown>;
+}
+
+const statusColors = {
+  within_appetite: 'bg-green-100 text-green-700',
+  above_appetite: 'bg-yellow-100 text-yellow-700',
+  above_tolerance: 'bg-red-100 text-red-700'
+};
+
+/**
+ * How a risk's residual score compares with its category's appetite and tolerance, and the treatment decision
+ * recorded for it
+ */
+const RiskTreatment: React.FC<RiskTreatmentProps> = ({ risk, appetite, userNames, canDecide, onRecord }) => {
+  const [decision, setDecision] = useState<RiskTreatmentDecision>(risk.treatment_decision || 'mitigate');
+  const [rationale, setRationale] = useState('');
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const limits = getCategoryAppetite(appetite, risk.category);
+  const status = getAppetiteStatus(appetite, risk);
+  const decisionRequired = needsTreatmentDecision(appetite, risk);
+  // Accepting a risk goes through an acceptance request, which records the decision once approved
+  const decisionOptions = (Object.keys(treatmentDecisionLabels) as RiskTreatmentDecision[]).filter(option => option !== 'accept');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!rationale.trim()) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      await onRecord(decision, rationale.trim());
+      setRationale('');
+      setEditing(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record the treatment decision');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between bg-gray-50 rounded-lg p-4">
+        <div className="flex items-center space-x-2">
+          <Gauge className="w-5 h-5 text-gray-500" />
+          <span className="text-sm text-gray-700">
+            Residual {risk.residual_risk_score} against appetite {limits.appetite} and tolerance {limits.tolerance}
+          </span>
+        </div>
+        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${statusColors[status]}`}>
+          {appetiteStatusLabels[status]}
+        </span>
+      </div>
+
+      {risk.treatment_decision && !editing && (
+        <div className="border border-gray-200 rounded-lg p-4">
+          <div className="flex items-start justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-900">Decision: {treatmentDecisionLabels[risk.treatment_decision]}</p>
+              {risk.treatment_rationale && <p className="text-sm text-gray-700 mt-1">{risk.treatment_rationale}</p>}
+            </div>
+            <div className="text-right text-xs text-gray-500 flex-shrink-0 ml-4">
+              <div>{risk.treatment_decided_by ? userNames[risk.treatment_decided_by] || 'Unknown User' : 'Unknown User'}</div>
+              <div>{risk.treatment_decided_at && new Date(risk.treatment_decided_at).toLocaleDateString()}</div>
+              <div>at residual {risk.treatment_residual_score}</div>
+            </div>
+          </div>
+          {canDecide && risk.treatment_decision !== 'accept' && (
+            <button
+              type="button"
+              onClick={() => setEditing(true)}
+              className="mt-2 text-sm text-blue-600 hover:text-blue-800"
+            >
+              Revise decision
+            </button>
+          )}
+        </div>
+      )}
+
+      {decisionRequired && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+          <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+          <span className="text-red-700 text-sm">This risk is above tolerance and needs a treatment decision.</span>
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+          <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+          <span className="text-red-700 text-sm">{error}</span>
+        </div>
+      )}
+
+      {canDecide && (editing || (!risk.treatment_decision && status !== 'within_appetite')) && (
+        <form onSubmit={handleSubmit} className="border border-gray-200 rounded-lg p-4 space-y-3">
+          <div className="flex items-center space-x-6">
+            {decisionOptions.map(option => (
+              <label key={option} className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="radio"
+                  name="treatment-decision"
+                  value={option}
+                  checked={decision === option}
+                  onChange={() => setDecision(option)}
+                  className="text-blue-600 focus:ring-blue-500"
+                />
+                <span>{treatmentDecisionLabels[option]}</span>
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">To accept the risk instead, request acceptance below.</p>
+          <textarea
+            value={rationale}
+            onChange={(e) => setRationale(e.target.value)}
+            rows={2}
+            placeholder="Rationale for this decision (required)"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <div className="flex justify-end space-x-2">
+            {editing && (
+              <button
+                type="button"
+                onClick={() => setEditing(false)}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={saving || !rationale.trim()}
+              className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle className="w-4 h-4" />}
+              <span>Record Decision</span>
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default RiskTreatment;
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { AlertTriangle, DollarSign, Plus, Trash2 } from 'lucide-react';
+import {
+  IncidentCostSettings as CostSettings,
+  commonCurrencies,
+  isCurrencyCode,
+  validateIncidentCostSettings
+} from '../../utils/incidentCosts';
+
+interface IncidentCostSettingsProps {
+  settings: CostSettings;
+  onChange: (settings: CostSettings) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Base currency that incident cost dashboards report in, and the exchange rates used to convert costs
+ * recorded in other currencies
+ */
+const IncidentCostSettings: React.FC<IncidentCostSettingsProps> = ({ settings, onChange, disabled = false }) => {
+  const [newCurrency, setNewCurrency] = useState('');
+  const errors = validateIncidentCostSettings(settings);
+  const baseCurrencies = [...new Set([settings.baseCurrency, ...commonCurrencies])];
+
+  const setRate = (currency: string, rate: number) => {
+    onChange({ ...settings, exchangeRates: { ...settings.exchangeRates, [currency]: rate } });
+  };
+
+  const withoutRate = (currency: string) =>
+    Object.fromEntries(Object.entries(settings.exchangeRates).filter(([code]) => code !== currency));
+
+  const addRate = () => {
+    const currency = newCurrency.trim().toUpperCase();
+    if (!isCurrencyCode(currency) || currency === settings.baseCurrency || currency in settings.exchangeRates) return;
+    setRate(currency, 1);
+    setNewCurrency('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+        <DollarSign className="w-5 h-5 text-blue-500" />
+        <span>Incident Costs</span>
+      </h2>
+      <p className="text-sm text-gray-600">
+        Costs can be recorded in any currency. Cost dashboards convert them to the base currency with the rates
+        below; costs in a currency without a rate are left out of totals.
+      </p>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Base currency</label>
+        <select
+          value={settings.baseCurrency}
+          // The new base currency needs no rate to itself
+          onChange={(e) => onChange({ baseCurrency: e.target.value, exchangeRates: withoutRate(e.target.value) })}
+          disabled={disabled}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          {baseCurrencies.map(currency => (
+            <option key={currency} value={currency}>{currency}</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Exchange rates</label>
+        <div className="space-y-2">
+          {Object.entries(settings.exchangeRates).map(([currency, rate]) => (
+            <div key={currency} className="flex items-center space-x-2">
+              <span className="w-24 text-sm text-gray-700">1 {currency} =</span>
+              <input
+                type="number"
+                min={0}
+                step="0.0001"
+                value={rate || ''}
+                onChange={(e) => setRate(currency, parseFloat(e.target.value) || 0)}
+                disabled={disabled}
+                className="w-32 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <span className="text-sm text-gray-700">{settings.baseCurrency}</span>
+              <button
+                type="button"
+                onClick={() => onChange({ ...settings, exchangeRates: withoutRate(currency) })}
+                disabled={disabled}
+                className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                title="Remove rate"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <div className="flex items-center space-x-2">
+            <input
+              type="text"
+              value={newCurrency}
+              onChange={(e) => setNewCurrency(e.target.value.toUpperCase())}
+              maxLength={3}
+              placeholder="EUR"
+              list="incident-cost-currencies"
+              disabled={disabled}
+              className="w-24 px-3 py-2 border border-gray-300 rounded-lg text-sm uppercase focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <datalist id="incident-cost-currencies">
+              {commonCurrencies
+                .filter(currency => currency !== settings.baseCurrency && !(currency in settings.exchangeRates))
+                .map(currency => <option key={currency} value={currency} />)}
+            </datalist>
+            <button
+              type="button"
+              onClick={addRate}
+              disabled={disabled || !isCurrencyCode(newCurrency)}
+              className="flex items-center space-x-1 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add Rate</span>
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <div className="flex items-center space-x-2 mb-1">
+            <AlertTriangle className="w-4 h-4 text-red-500 flex-shrink-0" />
+            <span className="text-red-700 text-sm font-medium">The cost settings cannot be saved yet</span>
+          </div>
+          <ul className="list-disc list-inside text-sm text-red-700">
+            {errors.map(message => <li key={message}>{message}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IncidentCostSettings;
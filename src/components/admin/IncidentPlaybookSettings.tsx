@@ -0,0 +1,300 @@
+import React, { useState } from 'react';
+import { ListChecks, Plus, Trash2, AlertTriangle, ArrowUp, ArrowDown } from 'lucide-react';
+import { useDepartments } from '../../hooks/useDepartments';
+import { IncidentRole, incidentRoleLabels } from '../../utils/incidentWorkflow';
+import {
+  IncidentPlaybook,
+  PlaybookStep,
+  createPlaybookFromTemplate,
+  createPlaybookId,
+  playbookTemplates,
+  validateIncidentPlaybooks
+} from '../../utils/incidentPlaybooks';
+
+interface IncidentPlaybookSettingsProps {
+  playbooks: IncidentPlaybook[];
+  onChange: (playbooks: IncidentPlaybook[]) => void;
+  disabled?: boolean;
+}
+
+const severities: IncidentPlaybook['severity'][] = ['Low', 'Medium', 'High', 'Critical'];
+
+/**
+ * Editor for the response playbooks reporters can pick when filing an incident. Incidents keep the
+ * checklist they started with, so edits only affect incidents that apply the playbook afterwards
+ */
+const IncidentPlaybookSettings: React.FC<IncidentPlaybookSettingsProps> = ({ playbooks, onChange, disabled = false }) => {
+  const { departments } = useDepartments();
+  const [template, setTemplate] = useState('');
+  const errors = validateIncidentPlaybooks(playbooks);
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  const updatePlaybook = (index: number, changes: Partial<IncidentPlaybook>) => {
+    onChange(playbooks.map((playbook, i) => i === index ? { ...playbook, ...changes } : playbook));
+  };
+
+  const addPlaybook = () => {
+    onChange([...playbooks, {
+      id: createPlaybookId(),
+      name: '',
+      description: '',
+      severity: 'Medium',
+      department: '',
+      immediateActions: '',
+      steps: [{ id: createPlaybookId(), title: '', role: null, targetMinutes: null }]
+    }]);
+  };
+
+  const addFromTemplate = (name: string) => {
+    const match = playbookTemplates.find(item => item.name === name);
+    if (match) {
+      onChange([...playbooks, createPlaybookFromTemplate(match)]);
+    }
+    setTemplate('');
+  };
+
+  const removePlaybook = (index: number) => {
+    onChange(playbooks.filter((_, i) => i !== index));
+  };
+
+  const updateStep = (index: number, stepIndex: number, changes: Partial<PlaybookStep>) => {
+    updatePlaybook(index, {
+      steps: playbooks[index].steps.map((step, i) => i === stepIndex ? { ...step, ...changes } : step)
+    });
+  };
+
+  const addStep = (index: number) => {
+    updatePlaybook(index, {
+      steps: [...playbooks[index].steps, { id: createPlaybookId(), title: '', role: null, targetMinutes: null }]
+    });
+  };
+
+  const moveStep = (index: number, stepIndex: number, offset: -1 | 1) => {
+    const steps = [...playbooks[index].steps];
+    const [step] = steps.splice(stepIndex, 1);
+    steps.splice(stepIndex + offset, 0, step);
+    updatePlaybook(index, { steps });
+  };
+
+  const removeStep = (index: number, stepIndex: number) => {
+    updatePlaybook(index, { steps: playbooks[index].steps.filter((_, i) => i !== stepIndex) });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+          <ListChecks className="w-5 h-5 text-blue-500" />
+          <span>Incident Playbooks</span>
+        </h2>
+        {!disabled && (
+          <div className="flex items-center space-x-2">
+            <select
+              value={template}
+              onChange={(e) => addFromTemplate(e.target.value)}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">Add from template...</option>
+              {playbookTemplates.map(item => (
+                <option key={item.name} value={item.name}>{item.name}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={addPlaybook}
+              className="flex items-center space-x-1 px-3 py-2 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add Playbook</span>
+            </button>
+          </div>
+        )}
+      </div>
+
+      <p className="text-sm text-gray-600">
+        Picking a playbook when reporting an incident fills in its severity, department and immediate actions,
+        and attaches the checklist below. Time targets count from when the incident was reported.
+      </p>
+
+      {errors.length > 0 && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <div className="flex items-center space-x-2 mb-1">
+            <AlertTriangle className="w-4 h-4 text-red-500 flex-shrink-0" />
+            <span className="text-red-700 text-sm font-medium">The playbooks cannot be saved yet</span>
+          </div>
+          <ul className="list-disc list-inside text-sm text-red-700">
+            {errors.map(message => <li key={message}>{message}</li>)}
+          </ul>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {playbooks.map((playbook, index) => (
+          <div key={playbook.id} className="p-4 border border-gray-200 rounded-lg space-y-3">
+            <div className="flex items-center space-x-2">
+              <input
+                type="text"
+                value={playbook.name}
+                onChange={(e) => updatePlaybook(index, { name: e.target.value })}
+                placeholder="Playbook name"
+                className={inputClassName}
+                disabled={disabled}
+              />
+              {!disabled && (
+                <button
+                  type="button"
+                  onClick={() => removePlaybook(index)}
+                  className="text-red-600 hover:text-red-800"
+                  title="Remove playbook"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+
+            <input
+              type="text"
+              value={playbook.description}
+              onChange={(e) => updatePlaybook(index, { description: e.target.value })}
+              placeholder="When to use this playbook"
+              className={inputClassName}
+              disabled={disabled}
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-gray-500 uppercase mb-1">Severity</label>
+                <select
+                  value={playbook.severity}
+                  onChange={(e) => updatePlaybook(index, { severity: e.target.value as IncidentPlaybook['severity'] })}
+                  className={inputClassName}
+                  disabled={disabled}
+                >
+                  {severities.map(severity => (
+                    <option key={severity} value={severity}>{severity}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-500 uppercase mb-1">Department</label>
+                <select
+                  value={playbook.department}
+                  onChange={(e) => updatePlaybook(index, { department: e.target.value })}
+                  className={inputClassName}
+                  disabled={disabled}
+                >
+                  <option value="">Leave for the reporter</option>
+                  {playbook.department && !departments.includes(playbook.department) && (
+                    <option value={playbook.department}>{playbook.department}</option>
+                  )}
+                  {departments.map(department => (
+                    <option key={department} value={department}>{department}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-gray-500 uppercase mb-1">Immediate Actions</label>
+              <textarea
+                value={playbook.immediateActions}
+                onChange={(e) => updatePlaybook(index, { immediateActions: e.target.value })}
+                rows={2}
+                className={inputClassName}
+                disabled={disabled}
+              />
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-xs font-medium text-gray-500 uppercase">Response Checklist</p>
+                {!disabled && (
+                  <button
+                    type="button"
+                    onClick={() => addStep(index)}
+                    className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    <Plus className="w-4 h-4" />
+                    <span>Add Step</span>
+                  </button>
+                )}
+              </div>
+              <div className="space-y-2">
+                {playbook.steps.map((step, stepIndex) => (
+                  <div key={step.id} className="grid grid-cols-12 gap-2 items-center">
+                    <span className="col-span-1 text-sm text-gray-500 text-right">{stepIndex + 1}.</span>
+                    <input
+                      type="text"
+                      value={step.title}
+                      onChange={(e) => updateStep(index, stepIndex, { title: e.target.value })}
+                      placeholder="Step"
+                      className={`${inputClassName} col-span-5`}
+                      disabled={disabled}
+                    />
+                    <select
+                      value={step.role || ''}
+                      onChange={(e) => updateStep(index, stepIndex, { role: (e.target.value || null) as IncidentRole | null })}
+                      className={`${inputClassName} col-span-2`}
+                      disabled={disabled}
+                    >
+                      <option value="">Any responder</option>
+                      {(Object.keys(incidentRoleLabels) as IncidentRole[]).map(role => (
+                        <option key={role} value={role}>{incidentRoleLabels[role]}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min={1}
+                      value={step.targetMinutes ?? ''}
+                      onChange={(e) => updateStep(index, stepIndex, { targetMinutes: e.target.value ? Number(e.target.value) : null })}
+                      placeholder="Minutes"
+                      title="Target in minutes after the incident was reported"
+                      className={`${inputClassName} col-span-2`}
+                      disabled={disabled}
+                    />
+                    {!disabled && (
+                      <div className="col-span-2 flex items-center justify-end space-x-1">
+                        <button
+                          type="button"
+                          onClick={() => moveStep(index, stepIndex, -1)}
+                          disabled={stepIndex === 0}
+                          className="p-1 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                          title="Move up"
+                        >
+                          <ArrowUp className="w-4 h-4" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => moveStep(index, stepIndex, 1)}
+                          disabled={stepIndex === playbook.steps.length - 1}
+                          className="p-1 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                          title="Move down"
+                        >
+                          <ArrowDown className="w-4 h-4" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => removeStep(index, stepIndex)}
+                          className="p-1 text-red-600 hover:text-red-800"
+                          title="Remove step"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        ))}
+        {playbooks.length === 0 && (
+          <p className="text-sm text-gray-500 italic">No playbooks yet; start from a template or add a blank one.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default IncidentPlaybookSettings;
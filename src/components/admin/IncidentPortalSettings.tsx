@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { CheckCircle, Copy, Globe, RefreshCw } from 'lucide-react';
+import { Database } from '../../lib/supabase';
+
+type IncidentPortal = NonNullable<Database['public']['Tables']['organizations']['Row']['settings']['incidentPortal']>;
+
+interface IncidentPortalSettingsProps {
+  portal: IncidentPortal | undefined;
+  onChange: (portal: IncidentPortal) => void;
+  disabled?: boolean;
+}
+
+const generatePortalToken = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(24)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Public report URL for people without an account. Reports submitted there wait in the unverified
+ * queue; regenerating the link stops the old one from working once settings are saved
+ */
+const IncidentPortalSettings: React.FC<IncidentPortalSettingsProps> = ({ portal, onChange, disabled = false }) => {
+  const [copied, setCopied] = useState(false);
+  const current: IncidentPortal = portal || { enabled: false, allowAnonymous: false, token: '' };
+  const portalUrl = current.token ? `${window.location.origin}/report/${current.token}` : '';
+
+  const copyUrl = async () => {
+    await navigator.clipboard.writeText(portalUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+        <Globe className="w-5 h-5 text-blue-500" />
+        <span>Public Reporting Portal</span>
+      </h2>
+      <p className="text-sm text-gray-600">
+        Lets contractors, guards and others without an account report incidents. Submissions are rate limited
+        per network and appear as unverified until triaged.
+      </p>
+
+      <label className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          checked={current.enabled}
+          onChange={(e) => onChange({
+            ...current,
+            enabled: e.target.checked,
+            token: current.token || generatePortalToken()
+          })}
+          disabled={disabled}
+          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+        />
+        <span className="text-sm text-gray-700">Enable the reporting portal</span>
+      </label>
+
+      <label className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          checked={current.allowAnonymous}
+          onChange={(e) => onChange({ ...current, allowAnonymous: e.target.checked })}
+          disabled={disabled || !current.enabled}
+          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+        />
+        <span className="text-sm text-gray-700">Allow anonymous reports</span>
+      </label>
+
+      {current.enabled && portalUrl && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Report URL</label>
+          <div className="flex items-center space-x-2">
+            <input
+              type="text"
+              readOnly
+              value={portalUrl}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg bg-gray-50 font-mono text-sm"
+            />
+            <button
+              type="button"
+              onClick={copyUrl}
+              className="p-2 text-blue-600 hover:text-blue-800"
+              title="Copy URL"
+            >
+              {copied ? <CheckCircle className="w-5 h-5" /> : <Copy className="w-5 h-5" />}
+            </button>
+            <button
+              type="button"
+              onClick={() => onChange({ ...current, token: generatePortalToken() })}
+              disabled={disabled}
+              className="flex items-center space-x-1 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              <RefreshCw className="w-4 h-4" />
+              <span>Regenerate</span>
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IncidentPortalSettings;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { Timer } from 'lucide-react';
+import {
+  IncidentSlaPolicy,
+  SlaTargetMinutes,
+  formatSlaMinutes,
+  incidentSeverities,
+  IncidentSeverity
+} from '../../utils/incidentSla';
+
+interface IncidentSlaSettingsProps {
+  policy: IncidentSlaPolicy;
+  onChange: (policy: IncidentSlaPolicy) => void;
+  disabled?: boolean;
+}
+
+const targetFields: { key: keyof SlaTargetMinutes; label: string }[] = [
+  { key: 'acknowledgeMinutes', label: 'Acknowledge' },
+  { key: 'assignMinutes', label: 'Assign' },
+  { key: 'resolveMinutes', label: 'Resolve' }
+];
+
+/**
+ * SLA targets per severity, in minutes from when an incident is reported. Saved with the rest of the
+ * organization settings; changes apply to incidents reported afterwards or whose severity changes
+ */
+const IncidentSlaSettings: React.FC<IncidentSlaSettingsProps> = ({ policy, onChange, disabled = false }) => {
+  const updateTarget = (severity: IncidentSeverity, key: keyof SlaTargetMinutes, value: number) => {
+    onChange({ ...policy, [severity]: { ...policy[severity], [key]: Math.max(1, value || 1) } });
+  };
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+        <Timer className="w-5 h-5 text-blue-500" />
+        <span>Incident SLAs</span>
+      </h2>
+      <p className="text-sm text-gray-600">
+        Minutes from when an incident is reported. Breaches are escalated to the department's managers and then
+        to admins. Changes apply to incidents reported afterwards.
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gray-50 border-b border-gray-200">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Severity</th>
+              {targetFields.map(field => (
+                <th key={field.key} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {field.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {incidentSeverities.map(severity => (
+              <tr key={severity}>
+                <td className="px-4 py-3 text-sm font-medium text-gray-900">{severity}</td>
+                {targetFields.map(field => (
+                  <td key={field.key} className="px-4 py-3">
+                    <input
+                      type="number"
+                      min="1"
+                      value={policy[severity][field.key]}
+                      onChange={(e) => updateTarget(severity, field.key, parseInt(e.target.value))}
+                      className="w-28 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      disabled={disabled}
+                    />
+                    <p className="text-xs text-gray-500 mt-1">{formatSlaMinutes(policy[severity][field.key])}</p>
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default IncidentSlaSettings;
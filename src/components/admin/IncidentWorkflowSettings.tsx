@@ -0,0 +1,308 @@
+import React from 'react';
+import { GitBranch, Plus, Trash2, AlertTriangle, RotateCcw } from 'lucide-react';
+import {
+  IncidentWorkflow,
+  IncidentState,
+  IncidentTransition,
+  IncidentRole,
+  TransitionRequiredField,
+  defaultIncidentWorkflow,
+  incidentRoleLabels,
+  requiredFieldLabels,
+  stateCategoryLabels,
+  stateColors,
+  validateIncidentWorkflow
+} from '../../utils/incidentWorkflow';
+
+interface IncidentWorkflowSettingsProps {
+  workflow: IncidentWorkflow;
+  onChange: (workflow: IncidentWorkflow) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Editor for the incident states and the transitions between them. Changes are saved with the rest of
+ * the organization settings
+ */
+const IncidentWorkflowSettings: React.FC<IncidentWorkflowSettingsProps> = ({ workflow, onChange, disabled = false }) => {
+  const errors = validateIncidentWorkflow(workflow);
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  const updateState = (index: number, changes: Partial<IncidentState>) => {
+    const previousName = workflow.states[index].name;
+    const states = workflow.states.map((state, i) => i === index ? { ...state, ...changes } : state);
+
+    // Keep transitions and the initial state pointing at a renamed state
+    if (changes.name !== undefined && changes.name !== previousName) {
+      onChange({
+        initialState: workflow.initialState === previousName ? changes.name : workflow.initialState,
+        states,
+        transitions: workflow.transitions.map(transition => ({
+          ...transition,
+          from: transition.from === previousName ? changes.name! : transition.from,
+          to: transition.to === previousName ? changes.name! : transition.to
+        }))
+      });
+      return;
+    }
+
+    onChange({ ...workflow, states });
+  };
+
+  const addState = () => {
+    onChange({
+      ...workflow,
+      states: [...workflow.states, { name: '', category: 'active', color: 'gray' }]
+    });
+  };
+
+  const removeState = (index: number) => {
+    const name = workflow.states[index].name;
+    onChange({
+      ...workflow,
+      states: workflow.states.filter((_, i) => i !== index),
+      transitions: workflow.transitions.filter(transition => transition.from !== name && transition.to !== name)
+    });
+  };
+
+  const updateTransition = (index: number, changes: Partial<IncidentTransition>) => {
+    onChange({
+      ...workflow,
+      transitions: workflow.transitions.map((transition, i) => i === index ? { ...transition, ...changes } : transition)
+    });
+  };
+
+  const toggleInList = <T extends string>(list: T[], value: T): T[] =>
+    list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+  const addTransition = () => {
+    const first = workflow.states[0]?.name || '';
+    const second = workflow.states[1]?.name || first;
+    onChange({
+      ...workflow,
+      transitions: [...workflow.transitions, { from: first, to: second, requiredFields: [], allowedRoles: [] }]
+    });
+  };
+
+  const removeTransition = (index: number) => {
+    onChange({ ...workflow, transitions: workflow.transitions.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+          <GitBranch className="w-5 h-5 text-blue-500" />
+          <span>Incident Workflow</span>
+        </h2>
+        {!disabled && (
+          <button
+            type="button"
+            onClick={() => onChange(defaultIncidentWorkflow)}
+            className="flex items-center space-x-2 px-3 py-2 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <RotateCcw className="w-4 h-4" />
+            <span>Reset to Default</span>
+          </button>
+        )}
+      </div>
+
+      <p className="text-sm text-gray-600">
+        Incidents can only move along the transitions listed below. Renaming or removing a state does not
+        change incidents that are already in it; move them to another state first.
+      </p>
+
+      {errors.length > 0 && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <div className="flex items-center space-x-2 mb-1">
+            <AlertTriangle className="w-4 h-4 text-red-500 flex-shrink-0" />
+            <span className="text-red-700 text-sm font-medium">The workflow cannot be saved yet</span>
+          </div>
+          <ul className="list-disc list-inside text-sm text-red-700">
+            {errors.map(message => <li key={message}>{message}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {/* States */}
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-md font-medium text-gray-900">States</h3>
+          {!disabled && (
+            <button
+              type="button"
+              onClick={addState}
+              className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add State</span>
+            </button>
+          )}
+        </div>
+        <div className="space-y-2">
+          {workflow.states.map((state, index) => (
+            <div key={index} className="grid grid-cols-12 gap-2 items-center">
+              <input
+                type="text"
+                value={state.name}
+                onChange={(e) => updateState(index, { name: e.target.value })}
+                placeholder="State name"
+                className={`${inputClassName} col-span-5`}
+                disabled={disabled}
+              />
+              <select
+                value={state.category}
+                onChange={(e) => updateState(index, { category: e.target.value as IncidentState['category'] })}
+                className={`${inputClassName} col-span-3`}
+                disabled={disabled}
+              >
+                {Object.entries(stateCategoryLabels).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              <select
+                value={state.color}
+                onChange={(e) => updateState(index, { color: e.target.value })}
+                className={`${inputClassName} col-span-3`}
+                disabled={disabled}
+              >
+                {stateColors.map(color => (
+                  <option key={color} value={color}>{color.charAt(0).toUpperCase() + color.slice(1)}</option>
+                ))}
+              </select>
+              {!disabled && (
+                <button
+                  type="button"
+                  onClick={() => removeState(index)}
+                  className="col-span-1 text-red-600 hover:text-red-800 justify-self-center"
+                  title="Remove state"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-4 max-w-sm">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Initial State
+          </label>
+          <select
+            value={workflow.initialState}
+            onChange={(e) => onChange({ ...workflow, initialState: e.target.value })}
+            className={inputClassName}
+            disabled={disabled}
+          >
+            {workflow.states.filter(state => state.name).map(state => (
+              <option key={state.name} value={state.name}>{state.name}</option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-1">New incidents start in this state</p>
+        </div>
+      </div>
+
+      {/* Transitions */}
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-md font-medium text-gray-900">Transitions</h3>
+          {!disabled && (
+            <button
+              type="button"
+              onClick={addTransition}
+              className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add Transition</span>
+            </button>
+          )}
+        </div>
+        <div className="space-y-3">
+          {workflow.transitions.map((transition, index) => (
+            <div key={index} className="p-4 border border-gray-200 rounded-lg space-y-3">
+              <div className="flex items-center space-x-2">
+                <select
+                  value={transition.from}
+                  onChange={(e) => updateTransition(index, { from: e.target.value })}
+                  className={inputClassName}
+                  disabled={disabled}
+                >
+                  {workflow.states.filter(state => state.name).map(state => (
+                    <option key={state.name} value={state.name}>{state.name}</option>
+                  ))}
+                </select>
+                <span className="text-gray-500">→</span>
+                <select
+                  value={transition.to}
+                  onChange={(e) => updateTransition(index, { to: e.target.value })}
+                  className={inputClassName}
+                  disabled={disabled}
+                >
+                  {workflow.states.filter(state => state.name).map(state => (
+                    <option key={state.name} value={state.name}>{state.name}</option>
+                  ))}
+                </select>
+                {!disabled && (
+                  <button
+                    type="button"
+                    onClick={() => removeTransition(index)}
+                    className="text-red-600 hover:text-red-800"
+                    title="Remove transition"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <p className="text-xs font-medium text-gray-500 uppercase mb-2">Required Fields</p>
+                  <div className="flex flex-wrap gap-3">
+                    {(Object.keys(requiredFieldLabels) as TransitionRequiredField[]).map(field => (
+                      <label key={field} className="flex items-center space-x-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={transition.requiredFields.includes(field)}
+                          onChange={() => updateTransition(index, { requiredFields: toggleInList(transition.requiredFields, field) })}
+                          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                          disabled={disabled}
+                        />
+                        <span>{requiredFieldLabels[field]}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <p className="text-xs font-medium text-gray-500 uppercase mb-2">Allowed Roles</p>
+                  <div className="flex flex-wrap gap-3">
+                    {(Object.keys(incidentRoleLabels) as IncidentRole[]).map(role => (
+                      <label key={role} className="flex items-center space-x-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={transition.allowedRoles.includes(role)}
+                          onChange={() => updateTransition(index, { allowedRoles: toggleInList(transition.allowedRoles, role) })}
+                          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                          disabled={disabled}
+                        />
+                        <span>{incidentRoleLabels[role]}</span>
+                      </label>
+                    ))}
+                  </div>
+                  {transition.allowedRoles.length === 0 && (
+                    <p className="text-xs text-gray-500 mt-1">Anyone who can update incidents</p>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+          {workflow.transitions.length === 0 && (
+            <p className="text-sm text-gray-500 italic">No transitions; incidents will stay in their initial state.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IncidentWorkflowSettings;
@@ -40,7 +40,7 @@ const OrganizationManagement: React.FC = () => {
   const [showDeleteConfirmation, setShowDeleteConfirmation] = useState(false);
   const [orgToDelete, setOrgToDelete] = useState<{id: string, name: string} | null>(null);
 
-  const { hasPermission, user } = useAuth();
+  const { hasPermission, user, requireReauth } = useAuth();
 
   useEffect(() => {
     fetchOrganizations();
@@ -174,6 +174,7 @@ const OrganizationManagement: React.FC = () => {
 
   const confirmDeleteOrganization = async () => {
     if (!orgToDelete) return;
+    if (!await requireReauth('organizations.delete')) return;
     
     try {
       // Get organization details before deletion for audit log
@@ -20,12 +20,31 @@ import {
   Edit, 
   X,
   Brain,
-  Zap
+  Zap,
+  GitBranch,
+  Target
 } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../hooks/useAuth';
 import Modal from '../common/Modal';
 import AIUsageMonitoring from './AIUsageMonitoring';
+import SsoSettings from './SsoSettings';
+import ScimSettings from './ScimSettings';
+import IncidentWorkflowSettings from './IncidentWorkflowSettings';
+import IncidentSlaSettings from './IncidentSlaSettings';
+import IncidentPortalSettings from './IncidentPortalSettings';
+import IncidentCostSettings from './IncidentCostSettings';
+import IncidentPlaybookSettings from './IncidentPlaybookSettings';
+import RiskAppetiteSettings from './RiskAppetiteSettings';
+import RiskReviewSettings from './RiskReviewSettings';
+import RiskAcceptanceSettings from './RiskAcceptanceSettings';
+import { resolveIncidentWorkflow, validateIncidentWorkflow } from '../../utils/incidentWorkflow';
+import { resolveIncidentSlaPolicy } from '../../utils/incidentSla';
+import { resolveIncidentPlaybooks, validateIncidentPlaybooks } from '../../utils/incidentPlaybooks';
+import { resolveIncidentCostSettings, validateIncidentCostSettings } from '../../utils/incidentCosts';
+import { resolveRiskReviewPolicy, validateRiskReviewPolicy } from '../../utils/riskReviews';
+import { resolveRiskAppetite, validateRiskAppetite } from '../../utils/riskAppetite';
+import { resolveRiskAcceptancePolicy, validateRiskAcceptancePolicy } from '../../utils/riskAcceptance';
 
 const OrganizationSettings: React.FC = () => {
   const [loading, setLoading] = useState(true);
@@ -64,7 +83,8 @@ const OrganizationSettings: React.FC = () => {
         maxDuration: 24,
         idleTimeout: 30,
         maxConcurrentSessions: 3,
-        requireReauth: true
+        requireReauth: true,
+        reauthWindow: 5
       },
       twoFactorAuth: {
         required: false,
@@ -115,7 +135,7 @@ const OrganizationSettings: React.FC = () => {
     headCount: 0,
     securityLevel: 'standard'
   });
-  const [activeTab, setActiveTab] = useState<'general' | 'notifications' | 'security' | 'odynsentinel'>('general');
+  const [activeTab, setActiveTab] = useState<'general' | 'notifications' | 'security' | 'incidents' | 'risks' | 'odynsentinel'>('general');
 
   const { organization, hasPermission } = useAuth();
 
@@ -166,6 +186,42 @@ const OrganizationSettings: React.FC = () => {
 
   const handleSaveSettings = async () => {
     if (!organization?.id) return;
+
+    if (settings.incidentWorkflow && validateIncidentWorkflow(settings.incidentWorkflow).length > 0) {
+      setError('Fix the incident workflow before saving');
+      setActiveTab('incidents');
+      return;
+    }
+
+    if (settings.incidentPlaybooks && validateIncidentPlaybooks(settings.incidentPlaybooks).length > 0) {
+      setError('Fix the incident playbooks before saving');
+      setActiveTab('incidents');
+      return;
+    }
+
+    if (settings.incidentCosts && validateIncidentCostSettings(settings.incidentCosts).length > 0) {
+      setError('Fix the incident cost settings before saving');
+      setActiveTab('incidents');
+      return;
+    }
+
+    if (settings.riskAppetite && validateRiskAppetite(settings.riskAppetite).length > 0) {
+      setError('Fix the risk appetite before saving');
+      setActiveTab('risks');
+      return;
+    }
+
+    if (settings.riskReviews && validateRiskReviewPolicy(settings.riskReviews).length > 0) {
+      setError('Fix the risk review settings before saving');
+      setActiveTab('risks');
+      return;
+    }
+
+    if (settings.riskAcceptance && validateRiskAcceptancePolicy(settings.riskAcceptance).length > 0) {
+      setError('Fix the risk acceptance settings before saving');
+      setActiveTab('risks');
+      return;
+    }
     
     try {
       setSaving(true);
@@ -370,6 +426,28 @@ const OrganizationSettings: React.FC = () => {
               <Shield className="w-5 h-5" />
               <span>Security</span>
             </button>
+            <button
+              onClick={() => setActiveTab('incidents')}
+              className={`flex items-center space-x-2 py-4 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'incidents'
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              <GitBranch className="w-5 h-5" />
+              <span>Incidents</span>
+            </button>
+            <button
+              onClick={() => setActiveTab('risks')}
+              className={`flex items-center space-x-2 py-4 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'risks'
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              <Target className="w-5 h-5" />
+              <span>Risks</span>
+            </button>
             <button
               onClick={() => setActiveTab('odynsentinel')}
               className={`flex items-center space-x-2 py-4 px-1 border-b-2 font-medium text-sm ${
@@ -1094,6 +1172,21 @@ const OrganizationSettings: React.FC = () => {
                     />
                   </div>
                   
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Re-authentication Window (minutes)
+                    </label>
+                    <input
+                      type="number"
+                      min="1"
+                      max="60"
+                      value={settings.security.sessionPolicy?.reauthWindow || 5}
+                      onChange={(e) => handleInputChange('security.sessionPolicy.reauthWindow', parseInt(e.target.value))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      disabled={!hasPermission('organizations.update') || !settings.security.sessionPolicy?.requireReauth}
+                    />
+                  </div>
+                  
                   <div className="flex items-center">
                     <input
                       type="checkbox"
@@ -1291,6 +1384,70 @@ const OrganizationSettings: React.FC = () => {
                   </div>
                 </div>
               </div>
+
+              {/* Single Sign-On */}
+              <SsoSettings />
+
+              {/* SCIM Provisioning */}
+              <ScimSettings />
+            </div>
+          )}
+
+          {/* Incidents Tab */}
+          {activeTab === 'incidents' && (
+            <div className="space-y-8">
+              <IncidentWorkflowSettings
+                workflow={resolveIncidentWorkflow(settings)}
+                onChange={(workflow) => handleInputChange('incidentWorkflow', workflow)}
+                disabled={!hasPermission('organizations.update')}
+              />
+
+              <IncidentSlaSettings
+                policy={resolveIncidentSlaPolicy(settings)}
+                onChange={(policy) => handleInputChange('incidentSla', policy)}
+                disabled={!hasPermission('organizations.update')}
+              />
+
+              <IncidentPlaybookSettings
+                playbooks={resolveIncidentPlaybooks(settings)}
+                onChange={(playbooks) => handleInputChange('incidentPlaybooks', playbooks)}
+                disabled={!hasPermission('organizations.update')}
+              />
+
+              <IncidentCostSettings
+                settings={resolveIncidentCostSettings(settings)}
+                onChange={(costs) => handleInputChange('incidentCosts', costs)}
+                disabled={!hasPermission('organizations.update')}
+              />
+
+              <IncidentPortalSettings
+                portal={settings.incidentPortal}
+                onChange={(portal) => handleInputChange('incidentPortal', portal)}
+                disabled={!hasPermission('organizations.update')}
+              />
+            </div>
+          )}
+
+          {/* Risks Tab */}
+          {activeTab === 'risks' && (
+            <div className="space-y-8">
+              <RiskAppetiteSettings
+                appetite={resolveRiskAppetite(settings)}
+                onChange={(appetite) => handleInputChange('riskAppetite', appetite)}
+                disabled={!hasPermission('organizations.update')}
+              />
+
+              <RiskReviewSettings
+                policy={resolveRiskReviewPolicy(settings)}
+                onChange={(policy) => handleInputChange('riskReviews', policy)}
+                disabled={!hasPermission('organizations.update')}
+              />
+
+              <RiskAcceptanceSettings
+                policy={resolveRiskAcceptancePolicy(settings)}
+                onChange={(policy) => handleInputChange('riskAcceptance', policy)}
+                disabled={!hasPermission('organizations.update')}
+              />
             </div>
           )}
 
@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, ShieldCheck } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { RiskAcceptanceApprover } from '../../types/riskAcceptance';
+import { RiskAcceptancePolicy, approverLabels, validateRiskAcceptancePolicy } from '../../utils/riskAcceptance';
+import { riskLevels } from '../../utils/riskScoring';
+
+interface RiskAcceptanceSettingsProps {
+  policy: RiskAcceptancePolicy;
+  onChange: (policy: RiskAcceptancePolicy) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Who approves accepting a risk, by the score band of its residual score, how long an acceptance may last
+ * before the risk reopens for review, and which users approve at executive level
+ */
+const RiskAcceptanceSettings: React.FC<RiskAcceptanceSettingsProps> = ({ policy, onChange, disabled = false }) => {
+  const [users, setUsers] = useState<{ user_id: string; full_name: string }[]>([]);
+  const errors = validateRiskAcceptancePolicy(policy);
+
+  useEffect(() => {
+    const fetchUsers = async () => {
+      const { data, error } = await supabase
+        .from('user_profiles')
+        .select('user_id, full_name')
+        .eq('active', true)
+        .order('full_name');
+
+      if (error) {
+        console.error('Error fetching users:', error);
+        return;
+      }
+
+      setUsers(data || []);
+    };
+
+    fetchUsers();
+  }, []);
+
+  const toggleExecutive = (userId: string) => {
+    const executiveUserIds = policy.executiveUserIds.includes(userId)
+      ? policy.executiveUserIds.filter(id => id !== userId)
+      : [...policy.executiveUserIds, userId];
+    onChange({ ...policy, executiveUserIds });
+  };
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+        <ShieldCheck className="w-5 h-5 text-blue-500" />
+        <span>Risk Acceptance</span>
+      </h2>
+      <p className="text-sm text-gray-600">
+        Accepting a risk needs approval by another user at the level its residual score band requires. When an
+        acceptance expires the risk reopens and its owner is asked to review it.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {riskLevels.map(level => (
+          <div key={level} className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700">{level} risks</label>
+            <select
+              value={policy.approvers[level]}
+              onChange={(e) => onChange({ ...policy, approvers: { ...policy.approvers, [level]: e.target.value as RiskAcceptanceApprover } })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              disabled={disabled}
+            >
+              {(Object.keys(approverLabels) as RiskAcceptanceApprover[]).map(approver => (
+                <option key={approver} value={approver}>{approverLabels[approver]}</option>
+              ))}
+            </select>
+            <div className="flex items-center space-x-2">
+              <input
+                type="number"
+                min="1"
+                value={policy.maxDays[level] || ''}
+                onChange={(e) => onChange({ ...policy, maxDays: { ...policy.maxDays, [level]: parseInt(e.target.value) || 0 } })}
+                className="w-24 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                disabled={disabled}
+              />
+              <span className="text-sm text-gray-500">days at most</span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Executives</label>
+        {users.length === 0 ? (
+          <p className="text-sm text-gray-500">No active users found.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2 max-h-48 overflow-y-auto">
+            {users.map(user => (
+              <label key={user.user_id} className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={policy.executiveUserIds.includes(user.user_id)}
+                  onChange={() => toggleExecutive(user.user_id)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  disabled={disabled}
+                />
+                <span>{user.full_name}</span>
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {errors.length > 0 && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <div className="flex items-center space-x-2 mb-1">
+            <AlertTriangle className="w-4 h-4 text-red-500 flex-shrink-0" />
+            <span className="text-red-700 text-sm font-medium">The acceptance settings cannot be saved yet</span>
+          </div>
+          <ul className="list-disc list-inside text-sm text-red-700">
+            {errors.map(message => <li key={message}>{message}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RiskAcceptanceSettings;
@@ -0,0 +1,191 @@
+import React from 'react';
+import { AlertTriangle, Gauge } from 'lucide-react';
+import {
+  RiskAppetite,
+  CategoryAppetite,
+  MAX_RISK_SCORE,
+  validateRiskAppetite
+} from '../../utils/riskAppetite';
+import { RiskCategory, riskCategories, riskCategoryLabels } from '../../utils/riskReviews';
+import { RiskBands } from '../../utils/riskScoring';
+
+interface RiskAppetiteSettingsProps {
+  appetite: RiskAppetite;
+  onChange: (appetite: RiskAppetite) => void;
+  disabled?: boolean;
+}
+
+const bandFields: { key: keyof RiskBands; label: string }[] = [
+  { key: 'low', label: 'Low up to' },
+  { key: 'medium', label: 'Medium up to' },
+  { key: 'high', label: 'High up to' }
+];
+
+/**
+ * Score bands used across the risk register, and the appetite and tolerance for residual risk per category.
+ * Risks above tolerance are flagged until someone records a treatment decision
+ */
+const RiskAppetiteSettings: React.FC<RiskAppetiteSettingsProps> = ({ appetite, onChange, disabled = false }) => {
+  const errors = validateRiskAppetite(appetite);
+
+  const setCategory = (category: RiskCategory, limits: CategoryAppetite | null) => {
+    const categories = { ...appetite.categories };
+    if (limits) {
+      categories[category] = limits;
+    } else {
+      delete categories[category];
+    }
+    onChange({ ...appetite, categories });
+  };
+
+  const inputClass = 'w-24 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+        <Gauge className="w-5 h-5 text-blue-500" />
+        <span>Risk Appetite</span>
+      </h2>
+      <p className="text-sm text-gray-600">
+        Scores run from 1 to {MAX_RISK_SCORE}. Residual scores up to the appetite are accepted as they are; risks
+        above the tolerance are flagged and need a formal treatment decision.
+      </p>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Score bands</label>
+        <div className="flex flex-wrap items-center gap-4">
+          {bandFields.map(field => (
+            <label key={field.key} className="flex items-center space-x-2 text-sm text-gray-700">
+              <span>{field.label}</span>
+              <input
+                type="number"
+                min="1"
+                max={MAX_RISK_SCORE - 1}
+                value={appetite.bands[field.key] || ''}
+                onChange={(e) => onChange({ ...appetite, bands: { ...appetite.bands, [field.key]: parseInt(e.target.value) || 0 } })}
+                className={inputClass}
+                disabled={disabled}
+              />
+            </label>
+          ))}
+          <span className="text-sm text-gray-500">Critical above High</span>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gray-50 border-b border-gray-200">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Appetite</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tolerance</th>
+              <th className="px-4 py-3"></th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            <tr>
+              <td className="px-4 py-3 text-sm font-medium text-gray-900">Default</td>
+              <td className="px-4 py-3">
+                <input
+                  type="number"
+                  min="1"
+                  max={MAX_RISK_SCORE}
+                  value={appetite.defaultAppetite || ''}
+                  onChange={(e) => onChange({ ...appetite, defaultAppetite: parseInt(e.target.value) || 0 })}
+                  className={inputClass}
+                  disabled={disabled}
+                />
+              </td>
+              <td className="px-4 py-3">
+                <input
+                  type="number"
+                  min="1"
+                  max={MAX_RISK_SCORE}
+                  value={appetite.defaultTolerance || ''}
+                  onChange={(e) => onChange({ ...appetite, defaultTolerance: parseInt(e.target.value) || 0 })}
+                  className={inputClass}
+                  disabled={disabled}
+                />
+              </td>
+              <td className="px-4 py-3"></td>
+            </tr>
+            {riskCategories.map(category => {
+              const limits = appetite.categories[category];
+
+              return (
+                <tr key={category}>
+                  <td className="px-4 py-3 text-sm text-gray-700">{riskCategoryLabels[category]}</td>
+                  {limits ? (
+                    <>
+                      <td className="px-4 py-3">
+                        <input
+                          type="number"
+                          min="1"
+                          max={MAX_RISK_SCORE}
+                          value={limits.appetite || ''}
+                          onChange={(e) => setCategory(category, { ...limits, appetite: parseInt(e.target.value) || 0 })}
+                          className={inputClass}
+                          disabled={disabled}
+                        />
+                      </td>
+                      <td className="px-4 py-3">
+                        <input
+                          type="number"
+                          min="1"
+                          max={MAX_RISK_SCORE}
+                          value={limits.tolerance || ''}
+                          onChange={(e) => setCategory(category, { ...limits, tolerance: parseInt(e.target.value) || 0 })}
+                          className={inputClass}
+                          disabled={disabled}
+                        />
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        <button
+                          type="button"
+                          onClick={() => setCategory(category, null)}
+                          disabled={disabled}
+                          className="text-sm text-gray-500 hover:text-gray-700 disabled:opacity-50"
+                        >
+                          Use default
+                        </button>
+                      </td>
+                    </>
+                  ) : (
+                    <>
+                      <td className="px-4 py-3 text-sm text-gray-400">{appetite.defaultAppetite}</td>
+                      <td className="px-4 py-3 text-sm text-gray-400">{appetite.defaultTolerance}</td>
+                      <td className="px-4 py-3 text-right">
+                        <button
+                          type="button"
+                          onClick={() => setCategory(category, { appetite: appetite.defaultAppetite, tolerance: appetite.defaultTolerance })}
+                          disabled={disabled}
+                          className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                        >
+                          Customize
+                        </button>
+                      </td>
+                    </>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <div className="flex items-center space-x-2 mb-1">
+            <AlertTriangle className="w-4 h-4 text-red-500 flex-shrink-0" />
+            <span className="text-red-700 text-sm font-medium">The risk appetite cannot be saved yet</span>
+          </div>
+          <ul className="list-disc list-inside text-sm text-red-700">
+            {errors.map(message => <li key={message}>{message}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RiskAppetiteSettings;
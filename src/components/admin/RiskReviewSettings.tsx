@@ -0,0 +1,124 @@
+import React from 'react';
+import { AlertTriangle, CalendarClock } from 'lucide-react';
+import {
+  RiskReviewPolicy,
+  RiskCategory,
+  riskCategories,
+  riskCategoryLabels,
+  validateRiskReviewPolicy
+} from '../../utils/riskReviews';
+import { riskLevels } from '../../utils/riskScoring';
+
+interface RiskReviewSettingsProps {
+  policy: RiskReviewPolicy;
+  onChange: (policy: RiskReviewPolicy) => void;
+  disabled?: boolean;
+}
+
+/**
+ * How often risks are reviewed, by score band and optionally by category, and when owners are reminded
+ * and overdue reviews escalated. Due dates are computed from the current policy, so changes apply to every
+ * open risk
+ */
+const RiskReviewSettings: React.FC<RiskReviewSettingsProps> = ({ policy, onChange, disabled = false }) => {
+  const errors = validateRiskReviewPolicy(policy);
+
+  const setCategoryDays = (category: RiskCategory, value: string) => {
+    const categoryDays = { ...policy.categoryDays };
+    if (value === '') {
+      delete categoryDays[category];
+    } else {
+      categoryDays[category] = parseInt(value) || 0;
+    }
+    onChange({ ...policy, categoryDays });
+  };
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+        <CalendarClock className="w-5 h-5 text-blue-500" />
+        <span>Risk Reviews</span>
+      </h2>
+      <p className="text-sm text-gray-600">
+        Days between reviews, counted from a risk's last review or its creation. When a category has its own
+        interval, the shorter of the two applies. Overdue reviews are escalated to the department's managers and
+        then to admins.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {riskLevels.map(level => (
+          <div key={level}>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{level} risks</label>
+            <input
+              type="number"
+              min="1"
+              value={policy.bandDays[level] || ''}
+              onChange={(e) => onChange({ ...policy, bandDays: { ...policy.bandDays, [level]: parseInt(e.target.value) || 0 } })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              disabled={disabled}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Category intervals</label>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {riskCategories.map(category => (
+            <div key={category} className="flex items-center justify-between space-x-3">
+              <span className="text-sm text-gray-700">{riskCategoryLabels[category]}</span>
+              <input
+                type="number"
+                min="1"
+                value={policy.categoryDays[category] ?? ''}
+                onChange={(e) => setCategoryDays(category, e.target.value)}
+                placeholder="Band interval"
+                className="w-36 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                disabled={disabled}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Remind owners (days before due)</label>
+          <input
+            type="number"
+            min="0"
+            value={policy.reminderDays}
+            onChange={(e) => onChange({ ...policy, reminderDays: parseInt(e.target.value) || 0 })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            disabled={disabled}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Escalate every (days overdue)</label>
+          <input
+            type="number"
+            min="1"
+            value={policy.escalationDays || ''}
+            onChange={(e) => onChange({ ...policy, escalationDays: parseInt(e.target.value) || 0 })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            disabled={disabled}
+          />
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <div className="flex items-center space-x-2 mb-1">
+            <AlertTriangle className="w-4 h-4 text-red-500 flex-shrink-0" />
+            <span className="text-red-700 text-sm font-medium">The review settings cannot be saved yet</span>
+          </div>
+          <ul className="list-disc list-inside text-sm text-red-700">
+            {errors.map(message => <li key={message}>{message}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RiskReviewSettings;
@@ -0,0 +1,414 @@
+import React, { useState, useEffect } from 'react';
+import {
+  KeySquare,
+  Plus,
+  Edit,
+  Trash2,
+  Lock,
+  Loader2,
+  AlertCircle,
+  CheckCircle
+} from 'lucide-react';
+import { supabase, Database } from '../../lib/supabase';
+import { useAuth } from '../../hooks/useAuth';
+import ConfirmationModal from '../common/ConfirmationModal';
+import { getPermissionActionLabel, groupPermissions, PermissionGroup } from '../../utils/permissions';
+
+type Role = Database['public']['Tables']['roles']['Row'];
+
+interface RoleWithUsage extends Role {
+  user_count: number;
+}
+
+const emptyForm = {
+  name: '',
+  description: '',
+  permissions: [] as string[]
+};
+
+/**
+ * Built-in roles and the organization's custom roles, with a permission editor for the latter
+ */
+const RoleManagement: React.FC = () => {
+  const [roles, setRoles] = useState<RoleWithUsage[]>([]);
+  const [permissionGroups, setPermissionGroups] = useState<PermissionGroup[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [editingRole, setEditingRole] = useState<RoleWithUsage | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [roleToDelete, setRoleToDelete] = useState<RoleWithUsage | null>(null);
+
+  const { profile, user, permissions, hasPermission } = useAuth();
+  const canManage = hasPermission('roles.manage');
+
+  useEffect(() => {
+    fetchRoles();
+  }, []);
+
+  const fetchRoles = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [
+        { data: roleRows, error: rolesError },
+        { data: catalog, error: catalogError },
+        { data: profiles, error: profilesError }
+      ] = await Promise.all([
+        supabase
+          .from('roles')
+          .select('*')
+          .order('is_system', { ascending: false })
+          .order('name'),
+        supabase
+          .from('permissions')
+          .select('*'),
+        supabase
+          .from('user_profiles')
+          .select('role, custom_role_id')
+      ]);
+
+      if (rolesError) throw rolesError;
+      if (catalogError) throw catalogError;
+      if (profilesError) throw profilesError;
+
+      setRoles((roleRows || []).map(role => ({
+        ...role,
+        user_count: (profiles || []).filter(p =>
+          role.is_system ? p.role === role.key && !p.custom_role_id : p.custom_role_id === role.id
+        ).length
+      })));
+      setPermissionGroups(groupPermissions(catalog || []));
+    } catch (err) {
+      console.error('Error fetching roles:', err);
+      setError('Failed to load roles');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const logAuditEvent = async (action: string, resourceId: string, details: Record<string, unknown>) => {
+    if (!profile?.organization_id) return;
+
+    const { error: auditError } = await supabase.from('audit_logs').insert({
+      user_id: user?.id || null,
+      organization_id: profile.organization_id,
+      action,
+      resource_type: 'role',
+      resource_id: resourceId,
+      details,
+      ip_address: null,
+      user_agent: navigator.userAgent
+    });
+
+    if (auditError) {
+      console.error('Error logging audit event:', auditError);
+    }
+  };
+
+  const openForm = (role?: RoleWithUsage, copy = false) => {
+    setEditingRole(role && !copy ? role : null);
+    setForm(role ? {
+      name: copy ? `${role.name} (copy)` : role.name,
+      description: role.description || '',
+      // A copy of a built-in role only keeps what the editor is allowed to grant
+      permissions: role.permissions.filter(permission => !copy || permissions.includes(permission))
+    } : emptyForm);
+    setError(null);
+    setSuccess(null);
+    setShowForm(true);
+  };
+
+  const togglePermission = (key: string) => {
+    setForm(prev => ({
+      ...prev,
+      permissions: prev.permissions.includes(key)
+        ? prev.permissions.filter(permission => permission !== key)
+        : [...prev.permissions, key]
+    }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile?.organization_id || !form.name.trim()) return;
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const values = {
+        name: form.name.trim(),
+        description: form.description.trim() || null,
+        permissions: form.permissions
+      };
+
+      if (editingRole) {
+        const { error: updateError } = await supabase
+          .from('roles')
+          .update(values)
+          .eq('id', editingRole.id);
+
+        if (updateError) throw updateError;
+
+        await logAuditEvent('role_updated', editingRole.id, {
+          role_name: values.name,
+          added_permissions: values.permissions.filter(p => !editingRole.permissions.includes(p)),
+          removed_permissions: editingRole.permissions.filter(p => !values.permissions.includes(p))
+        });
+        setSuccess(`Updated ${values.name}`);
+      } else {
+        const { data: created, error: insertError } = await supabase
+          .from('roles')
+          .insert({
+            ...values,
+            organization_id: profile.organization_id,
+            created_by: user?.id || null
+          })
+          .select('id')
+          .single();
+
+        if (insertError) throw insertError;
+
+        await logAuditEvent('role_created', created.id, {
+          role_name: values.name,
+          permissions: values.permissions
+        });
+        setSuccess(`Created ${values.name}`);
+      }
+
+      setShowForm(false);
+      setEditingRole(null);
+      await fetchRoles();
+    } catch (err) {
+      console.error('Error saving role:', err);
+      const { code, message } = err as { code?: string; message?: string };
+      setError(code === '23505' ? 'A role with this name already exists' : message || 'Failed to save role');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!roleToDelete) return;
+
+    const role = roleToDelete;
+    setRoleToDelete(null);
+    setError(null);
+    setSuccess(null);
+
+    const { error: deleteError } = await supabase
+      .from('roles')
+      .delete()
+      .eq('id', role.id);
+
+    if (deleteError) {
+      console.error('Error deleting role:', deleteError);
+      setError(deleteError.message || 'Failed to delete role');
+      return;
+    }
+
+    await logAuditEvent('role_deleted', role.id, {
+      role_name: role.name,
+      affected_users: role.user_count
+    });
+    setSuccess(`Deleted ${role.name}`);
+    await fetchRoles();
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-8 h-8 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          A custom role replaces the permissions of the user's base role. The base role still decides administrator access.
+        </p>
+        {canManage && (
+          <button
+            onClick={() => openForm()}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            <span>New Role</span>
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+          <AlertCircle className="w-4 h-4 text-red-500 flex-shrink-0" />
+          <span className="text-red-700 text-sm">{error}</span>
+        </div>
+      )}
+
+      {success && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg flex items-center space-x-2">
+          <CheckCircle className="w-4 h-4 text-green-500 flex-shrink-0" />
+          <span className="text-green-700 text-sm">{success}</span>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 divide-y divide-gray-200">
+        {roles.map(role => (
+          <div key={role.id} className="flex items-center justify-between px-6 py-4">
+            <div>
+              <div className="flex items-center space-x-2">
+                {role.is_system ? <Lock className="w-4 h-4 text-gray-400" /> : <KeySquare className="w-4 h-4 text-blue-500" />}
+                <span className="text-sm font-medium text-gray-900">{role.name}</span>
+                {role.is_system && (
+                  <span className="inline-flex px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-600">Built-in</span>
+                )}
+              </div>
+              {role.description && <p className="text-sm text-gray-500 mt-1">{role.description}</p>}
+              <p className="text-xs text-gray-500 mt-1">
+                {role.permissions.length} permissions · {role.user_count} {role.user_count === 1 ? 'user' : 'users'}
+              </p>
+            </div>
+            {canManage && (
+              <div className="flex items-center space-x-2">
+                {role.is_system ? (
+                  <button
+                    onClick={() => openForm(role, true)}
+                    className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+                  >
+                    Copy
+                  </button>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => openForm(role)}
+                      className="text-blue-600 hover:text-blue-900"
+                      title="Edit role"
+                    >
+                      <Edit className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => setRoleToDelete(role)}
+                      className="text-red-600 hover:text-red-900"
+                      title="Delete role"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {showForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6 border-b border-gray-200">
+              <h2 className="text-xl font-bold text-gray-900">{editingRole ? 'Edit Role' : 'New Role'}</h2>
+            </div>
+
+            <form onSubmit={handleSave} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Name
+                </label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="e.g. Travel Coordinator"
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Description
+                </label>
+                <input
+                  type="text"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Permissions
+                </label>
+                <p className="text-xs text-gray-500 mb-3">
+                  You can only grant permissions you hold yourself.
+                </p>
+                <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+                  {permissionGroups.map(group => (
+                    <div key={group.resource} className="flex flex-col md:flex-row md:items-center px-4 py-3">
+                      <span className="w-40 text-sm font-medium text-gray-900 mb-2 md:mb-0">{group.label}</span>
+                      <div className="flex flex-wrap gap-x-4 gap-y-2">
+                        {group.permissions.map(permission => (
+                          <label
+                            key={permission.key}
+                            className="flex items-center space-x-2 text-sm text-gray-700"
+                            title={permission.description}
+                          >
+                            <input
+                              type="checkbox"
+                              checked={form.permissions.includes(permission.key)}
+                              onChange={() => togglePermission(permission.key)}
+                              disabled={!permissions.includes(permission.key)}
+                              className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 disabled:opacity-50"
+                            />
+                            <span>{getPermissionActionLabel(permission.key)}</span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex justify-end space-x-4 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setShowForm(false)}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving || !form.name.trim()}
+                  className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+                  <span>{editingRole ? 'Save Role' : 'Create Role'}</span>
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      <ConfirmationModal
+        isOpen={!!roleToDelete}
+        onClose={() => setRoleToDelete(null)}
+        onConfirm={handleDelete}
+        title="Delete Role"
+        message={
+          roleToDelete?.user_count
+            ? `Delete "${roleToDelete.name}"? ${roleToDelete.user_count} ${roleToDelete.user_count === 1 ? 'user falls' : 'users fall'} back to the permissions of their base role.`
+            : `Delete "${roleToDelete?.name}"?`
+        }
+      />
+    </div>
+  );
+};
+
+export default RoleManagement;
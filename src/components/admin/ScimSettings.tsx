@@ -0,0 +1,297 @@
+import React, { useState, useEffect } from 'react';
+import {
+  RefreshCw,
+  Plus,
+  XCircle,
+  Loader2,
+  AlertTriangle,
+  CheckCircle,
+  Copy,
+  Link as LinkIcon
+} from 'lucide-react';
+import { useAuth } from '../../hooks/useAuth';
+import ConfirmationModal from '../common/ConfirmationModal';
+import {
+  createScimToken,
+  getScimGroups,
+  getScimTokens,
+  revokeScimToken,
+  updateScimGroupMapping,
+  ScimGroup,
+  ScimToken
+} from '../../services/authService';
+
+/**
+ * SCIM provisioning: bearer tokens for the HR / identity system and group-to-role/department mappings
+ */
+const ScimSettings: React.FC = () => {
+  const [tokens, setTokens] = useState<ScimToken[]>([]);
+  const [groups, setGroups] = useState<ScimGroup[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [tokenName, setTokenName] = useState('');
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [tokenToRevoke, setTokenToRevoke] = useState<ScimToken | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const { hasPermission } = useAuth();
+  const canManage = hasPermission('organizations.update');
+  const scimBaseUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/scim/v2`;
+
+  useEffect(() => {
+    fetchScimData();
+  }, []);
+
+  const fetchScimData = async () => {
+    setLoading(true);
+    const [tokensResult, groupsResult] = await Promise.all([getScimTokens(), getScimGroups()]);
+
+    if (tokensResult.error || groupsResult.error) {
+      setError(tokensResult.error || groupsResult.error);
+    } else {
+      setTokens(tokensResult.data || []);
+      setGroups(groupsResult.data || []);
+    }
+
+    setLoading(false);
+  };
+
+  const handleCreateToken = async () => {
+    if (!tokenName.trim()) return;
+
+    setBusy('create');
+    setError(null);
+    setSuccess(null);
+
+    const { data, error: createError } = await createScimToken(tokenName);
+
+    if (createError || !data) {
+      setError(createError || 'Failed to create SCIM token');
+    } else {
+      setNewSecret(data.secret);
+      setTokenName('');
+      await fetchScimData();
+    }
+
+    setBusy(null);
+  };
+
+  const handleRevokeToken = async () => {
+    if (!tokenToRevoke) return;
+
+    const token = tokenToRevoke;
+    setTokenToRevoke(null);
+    setBusy(token.id);
+    setError(null);
+    setSuccess(null);
+
+    const { error: revokeError } = await revokeScimToken(token.id);
+
+    if (revokeError) {
+      setError(revokeError);
+    } else {
+      setSuccess(`Revoked ${token.name}`);
+      await fetchScimData();
+    }
+
+    setBusy(null);
+  };
+
+  const handleMappingChange = async (group: ScimGroup, mapping: Partial<Pick<ScimGroup, 'mappedRole' | 'mappedDepartment'>>) => {
+    setBusy(group.id);
+    setError(null);
+    setSuccess(null);
+
+    const { error: mappingError } = await updateScimGroupMapping(group.id, {
+      mappedRole: mapping.mappedRole !== undefined ? mapping.mappedRole : group.mappedRole,
+      mappedDepartment: mapping.mappedDepartment !== undefined ? mapping.mappedDepartment : group.mappedDepartment
+    });
+
+    if (mappingError) {
+      setError(mappingError);
+    } else {
+      setSuccess(`Updated mapping for ${group.displayName}`);
+      await fetchScimData();
+    }
+
+    setBusy(null);
+  };
+
+  const formatDate = (value: string | null) => (value ? new Date(value).toLocaleString() : 'Never');
+
+  if (loading) {
+    return (
+      <div className="flex items-center space-x-2 text-gray-500">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        <span>Loading SCIM provisioning...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center space-x-2">
+        <RefreshCw className="w-5 h-5 text-gray-600" />
+        <span>SCIM Provisioning</span>
+      </h3>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+          <AlertTriangle className="w-4 h-4 text-red-500 flex-shrink-0" />
+          <span className="text-red-700 text-sm">{error}</span>
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg flex items-center space-x-2">
+          <CheckCircle className="w-4 h-4 text-green-500 flex-shrink-0" />
+          <span className="text-green-700 text-sm">{success}</span>
+        </div>
+      )}
+
+      <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg flex items-center space-x-2">
+        <LinkIcon className="w-4 h-4 text-blue-500 flex-shrink-0" />
+        <span className="text-blue-700 text-sm">
+          SCIM base URL: <code className="font-mono">{scimBaseUrl}</code>
+        </span>
+      </div>
+
+      {newSecret && (
+        <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+          <p className="text-sm text-yellow-800 mb-2">
+            Copy this token now. It will not be shown again.
+          </p>
+          <div className="flex items-center space-x-2">
+            <code className="flex-1 font-mono text-xs bg-white border border-yellow-200 rounded px-2 py-1 break-all">{newSecret}</code>
+            <button
+              type="button"
+              onClick={() => navigator.clipboard.writeText(newSecret)}
+              className="p-2 text-yellow-700 hover:text-yellow-900 transition-colors"
+              title="Copy token"
+            >
+              <Copy className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-6">
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Tokens</h4>
+
+          {canManage && (
+            <div className="flex space-x-2 mb-3">
+              <input
+                type="text"
+                value={tokenName}
+                onChange={(e) => setTokenName(e.target.value)}
+                placeholder="Token name, e.g. Workday"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <button
+                type="button"
+                onClick={handleCreateToken}
+                disabled={!tokenName.trim() || busy === 'create'}
+                className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {busy === 'create' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                <span>Create Token</span>
+              </button>
+            </div>
+          )}
+
+          {tokens.length === 0 ? (
+            <p className="text-sm text-gray-500">No SCIM tokens have been created.</p>
+          ) : (
+            <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+              {tokens.map(token => (
+                <div key={token.id} className="flex items-center justify-between px-4 py-3">
+                  <div>
+                    <div className="text-sm font-medium text-gray-900">
+                      {token.name} <span className="font-mono text-xs text-gray-500">{token.token_prefix}…</span>
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      Created {formatDate(token.created_at)} · Last used {formatDate(token.last_used_at)}
+                    </div>
+                  </div>
+                  {token.revoked_at ? (
+                    <span className="text-xs text-gray-500">Revoked {formatDate(token.revoked_at)}</span>
+                  ) : canManage && (
+                    <button
+                      type="button"
+                      onClick={() => setTokenToRevoke(token)}
+                      disabled={busy === token.id}
+                      className="flex items-center space-x-1 text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+                    >
+                      <XCircle className="w-4 h-4" />
+                      <span>Revoke</span>
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 mb-1">Group Mappings</h4>
+          <p className="text-xs text-gray-500 mb-2">
+            Members of a mapped group get its role (the most privileged one wins) and department.
+            Users removed from every role-mapped group fall back to the default role.
+          </p>
+
+          {groups.length === 0 ? (
+            <p className="text-sm text-gray-500">No groups have been provisioned yet.</p>
+          ) : (
+            <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+              {groups.map(group => (
+                <div key={group.id} className="grid grid-cols-1 md:grid-cols-3 gap-3 items-center px-4 py-3">
+                  <div className="text-sm font-medium text-gray-900">
+                    {group.displayName}
+                    <span className="ml-2 text-xs text-gray-500">{group.memberCount} members</span>
+                  </div>
+                  <select
+                    value={group.mappedRole || ''}
+                    onChange={(e) => handleMappingChange(group, { mappedRole: (e.target.value || null) as ScimGroup['mappedRole'] })}
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    disabled={!canManage || busy === group.id}
+                  >
+                    <option value="">No role</option>
+                    <option value="user">User</option>
+                    <option value="manager">Manager</option>
+                    <option value="admin">Admin</option>
+                  </select>
+                  <input
+                    type="text"
+                    defaultValue={group.mappedDepartment || ''}
+                    onBlur={(e) => {
+                      const department = e.target.value.trim() || null;
+                      if (department !== group.mappedDepartment) {
+                        handleMappingChange(group, { mappedDepartment: department });
+                      }
+                    }}
+                    placeholder="No department"
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    disabled={!canManage || busy === group.id}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <ConfirmationModal
+        isOpen={!!tokenToRevoke}
+        onClose={() => setTokenToRevoke(null)}
+        onConfirm={handleRevokeToken}
+        title="Revoke SCIM Token"
+        message={`Revoke the SCIM token "${tokenToRevoke?.name}"? Provisioning with it will stop immediately.`}
+        confirmText="Revoke"
+      />
+    </div>
+  );
+};
+
+export default ScimSettings;
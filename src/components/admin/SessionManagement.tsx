@@ -0,0 +1,300 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Search,
+  Monitor,
+  Clock,
+  XCircle,
+  AlertCircle,
+  CheckCircle,
+  Loader2,
+  RefreshCw,
+  Globe
+} from 'lucide-react';
+import { supabase, Database } from '../../lib/supabase';
+import { useAuth } from '../../hooks/useAuth';
+import { revokeSessions } from '../../services/authService';
+import { resolveSessionPolicy } from '../../utils/sessionPolicy';
+
+type UserSession = Database['public']['Tables']['user_sessions']['Row'];
+
+interface SessionWithUser extends UserSession {
+  full_name: string;
+  role: string;
+}
+
+const SessionManagement: React.FC = () => {
+  const [sessions, setSessions] = useState<SessionWithUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [userFilter, setUserFilter] = useState<string>('all');
+  const [revoking, setRevoking] = useState<string | null>(null);
+
+  const { organization, hasPermission, user } = useAuth();
+  const sessionPolicy = resolveSessionPolicy(organization?.settings);
+
+  useEffect(() => {
+    fetchSessions();
+  }, []);
+
+  const fetchSessions = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [{ data: sessionRows, error: sessionsError }, { data: profiles, error: profilesError }] = await Promise.all([
+        supabase
+          .from('user_sessions')
+          .select('*')
+          .is('ended_at', null)
+          .order('last_activity_at', { ascending: false }),
+        supabase
+          .from('user_profiles')
+          .select('user_id, full_name, role')
+      ]);
+
+      if (sessionsError) throw sessionsError;
+      if (profilesError) throw profilesError;
+
+      const profilesByUserId = new Map((profiles || []).map(profile => [profile.user_id, profile]));
+
+      setSessions((sessionRows || []).map(session => ({
+        ...session,
+        full_name: profilesByUserId.get(session.user_id)?.full_name || 'Unknown user',
+        role: profilesByUserId.get(session.user_id)?.role || 'user'
+      })));
+    } catch (err) {
+      console.error('Error fetching sessions:', err);
+      setError('Failed to load session data');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRevoke = async (target: { sessionId: string } | { userId: string }, label: string) => {
+    const key = 'sessionId' in target ? target.sessionId : target.userId;
+    setRevoking(key);
+    setError(null);
+    setSuccess(null);
+
+    const { data, error: revokeError } = await revokeSessions(target);
+
+    if (revokeError || !data) {
+      setError(revokeError || 'Failed to revoke session');
+    } else {
+      setSuccess(`Revoked ${data.revoked} session${data.revoked === 1 ? '' : 's'} for ${label}`);
+      setTimeout(() => setSuccess(null), 3000);
+      await fetchSessions();
+    }
+
+    setRevoking(null);
+  };
+
+  // Sessions past the idle timeout are ended on their next heartbeat
+  const isIdle = (session: UserSession) =>
+    sessionPolicy.idleTimeout > 0 &&
+    Date.now() - new Date(session.last_activity_at).getTime() > sessionPolicy.idleTimeout * 60 * 1000;
+
+  const describeDevice = (userAgent: string | null) => {
+    if (!userAgent) return 'Unknown device';
+    const browser = /Edg\//.test(userAgent) ? 'Edge'
+      : /Chrome\//.test(userAgent) ? 'Chrome'
+      : /Firefox\//.test(userAgent) ? 'Firefox'
+      : /Safari\//.test(userAgent) ? 'Safari'
+      : 'Browser';
+    const os = /Windows/.test(userAgent) ? 'Windows'
+      : /Mac OS X/.test(userAgent) ? 'macOS'
+      : /Android/.test(userAgent) ? 'Android'
+      : /iPhone|iPad/.test(userAgent) ? 'iOS'
+      : /Linux/.test(userAgent) ? 'Linux'
+      : 'Unknown OS';
+    return `${browser} on ${os}`;
+  };
+
+  const sessionUsers = Array.from(new Map(sessions.map(session => [session.user_id, session.full_name])).entries());
+
+  const filteredSessions = sessions.filter(session => {
+    const matchesSearch = session.full_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         (session.ip_address || '').includes(searchTerm) ||
+                         describeDevice(session.user_agent).toLowerCase().includes(searchTerm.toLowerCase());
+    const matchesUser = userFilter === 'all' || session.user_id === userFilter;
+    return matchesSearch && matchesUser;
+  });
+
+  if (!hasPermission('users.update')) {
+    return (
+      <div className="text-center py-12">
+        <AlertCircle className="w-12 h-12 text-yellow-500 mx-auto mb-4" />
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">Access Denied</h2>
+        <p className="text-gray-600">You don't have permission to manage sessions.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+          <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+          <span className="text-red-700 text-sm">{error}</span>
+        </div>
+      )}
+
+      {success && (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center space-x-2">
+          <CheckCircle className="w-5 h-5 text-green-500 flex-shrink-0" />
+          <span className="text-green-700 text-sm">{success}</span>
+        </div>
+      )}
+
+      {/* Policy summary */}
+      <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 text-sm text-blue-800">
+        Sessions end after {sessionPolicy.idleTimeout} minutes of inactivity or {sessionPolicy.maxDuration} hours in total.
+        Each user can have up to {sessionPolicy.maxConcurrentSessions} active sessions; signing in on another device ends the oldest one.
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="flex flex-col sm:flex-row sm:items-center space-y-4 sm:space-y-0 sm:space-x-4">
+          <div className="relative flex-1">
+            <Search className="w-5 h-5 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+            <input
+              type="text"
+              placeholder="Search sessions..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <select
+            value={userFilter}
+            onChange={(e) => setUserFilter(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="all">All Users</option>
+            {sessionUsers.map(([userId, fullName]) => (
+              <option key={userId} value={userId}>{fullName}</option>
+            ))}
+          </select>
+          {userFilter !== 'all' && (
+            <button
+              onClick={() => handleRevoke({ userId: userFilter }, sessionUsers.find(([userId]) => userId === userFilter)?.[1] || 'user')}
+              disabled={revoking === userFilter}
+              className="flex items-center space-x-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 transition-colors"
+            >
+              {revoking === userFilter ? <Loader2 className="w-4 h-4 animate-spin" /> : <XCircle className="w-4 h-4" />}
+              <span>Revoke All</span>
+            </button>
+          )}
+          <button
+            onClick={fetchSessions}
+            className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            <RefreshCw className="w-4 h-4" />
+            <span>Refresh</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Sessions List */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        {loading && sessions.length === 0 ? (
+          <div className="flex items-center justify-center p-8">
+            <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+          </div>
+        ) : filteredSessions.length === 0 ? (
+          <div className="p-8 text-center">
+            <Monitor className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-1">No active sessions found</h3>
+            <p className="text-gray-500">
+              {searchTerm || userFilter !== 'all' ? 'Try adjusting your filters' : 'Nobody is signed in right now'}
+            </p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    User
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Device
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Started
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Last Activity
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {filteredSessions.map((session) => (
+                  <tr key={session.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{session.full_name}</div>
+                      <div className="text-sm text-gray-500">
+                        {session.role.charAt(0).toUpperCase() + session.role.slice(1).replace('_', ' ')}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex items-center text-sm text-gray-900">
+                        <Monitor className="w-4 h-4 mr-2 text-gray-400" />
+                        {describeDevice(session.user_agent)}
+                      </div>
+                      {session.ip_address && (
+                        <div className="flex items-center text-sm text-gray-500">
+                          <Globe className="w-4 h-4 mr-2 text-gray-400" />
+                          {session.ip_address}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {new Date(session.created_at).toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex items-center text-sm text-gray-900">
+                        <Clock className="w-4 h-4 mr-1 text-gray-400" />
+                        {new Date(session.last_activity_at).toLocaleString()}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                        isIdle(session) ? 'bg-yellow-100 text-yellow-700' : 'bg-green-100 text-green-700'
+                      }`}>
+                        {isIdle(session) ? 'Idle' : 'Active'}
+                      </span>
+                      {session.user_id === user?.id && (
+                        <span className="ml-2 text-xs text-gray-500">(you)</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      <button
+                        onClick={() => handleRevoke({ sessionId: session.id }, session.full_name)}
+                        disabled={revoking === session.id}
+                        className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                        title="Revoke session"
+                      >
+                        {revoking === session.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <XCircle className="w-4 h-4" />}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SessionManagement;
@@ -0,0 +1,469 @@
+import React, { useState, useEffect } from 'react';
+import {
+  KeyRound,
+  Plus,
+  Trash2,
+  Save,
+  Loader2,
+  AlertTriangle,
+  CheckCircle,
+  Clock,
+  Link as LinkIcon
+} from 'lucide-react';
+import { useAuth } from '../../hooks/useAuth';
+import { getSsoConfig, saveSsoConfig, testSsoIssuer, verifySsoDomain, SsoConfig } from '../../services/authService';
+
+type MappedRole = SsoConfig['roleMapping'][string];
+
+const emptyConfig: SsoConfig = {
+  enabled: false,
+  issuer: '',
+  clientId: '',
+  clientSecret: '',
+  scopes: 'openid email profile',
+  emailDomains: [],
+  redirectUris: [],
+  roleClaim: null,
+  roleMapping: {},
+  departmentClaim: null,
+  defaultRole: 'user',
+  requireSso: false
+};
+
+/**
+ * OIDC provider configuration, stored by the sso edge function rather than in organizations.settings
+ * so the client secret never reaches the browser
+ */
+const SsoSettings: React.FC = () => {
+  const [config, setConfig] = useState<SsoConfig>(emptyConfig);
+  const [domainsInput, setDomainsInput] = useState('');
+  const [redirectUrisInput, setRedirectUrisInput] = useState(`${window.location.origin}/auth/sso/callback`);
+  const [roleMappings, setRoleMappings] = useState<{ claimValue: string; role: MappedRole }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [testing, setTesting] = useState(false);
+  const [verifyingDomain, setVerifyingDomain] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const { hasPermission } = useAuth();
+  const canManage = hasPermission('organizations.update');
+  const callbackUrl = `${window.location.origin}/auth/sso/callback`;
+
+  useEffect(() => {
+    fetchConfig();
+  }, []);
+
+  const fetchConfig = async () => {
+    setLoading(true);
+    const { data, error: fetchError } = await getSsoConfig();
+
+    if (fetchError) {
+      setError(fetchError);
+    } else if (data) {
+      setConfig({ ...data, clientSecret: '' });
+      setDomainsInput(data.emailDomains.join(', '));
+      setRedirectUrisInput(data.redirectUris.join(', '));
+      setRoleMappings(Object.entries(data.roleMapping).map(([claimValue, role]) => ({ claimValue, role })));
+    }
+
+    setLoading(false);
+  };
+
+  const updateConfig = <K extends keyof SsoConfig>(key: K, value: SsoConfig[K]) => {
+    setConfig(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleTest = async () => {
+    setTesting(true);
+    setError(null);
+    setSuccess(null);
+
+    const { data, error: testError } = await testSsoIssuer(config.issuer);
+
+    if (testError || !data) {
+      setError(testError || 'Failed to reach the issuer');
+    } else {
+      setSuccess(`Discovered ${data.issuer}`);
+    }
+
+    setTesting(false);
+  };
+
+  const handleVerifyDomain = async (domain: string) => {
+    setVerifyingDomain(domain);
+    setError(null);
+    setSuccess(null);
+
+    const { error: verifyError } = await verifySsoDomain(domain);
+
+    if (verifyError) {
+      setError(verifyError);
+    } else {
+      setSuccess(`${domain} is verified`);
+      await fetchConfig();
+    }
+
+    setVerifyingDomain(null);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+
+    const { error: saveError } = await saveSsoConfig({
+      ...config,
+      emailDomains: domainsInput.split(',').map(domain => domain.trim()).filter(Boolean),
+      redirectUris: redirectUrisInput.split(',').map(uri => uri.trim()).filter(Boolean),
+      roleMapping: Object.fromEntries(
+        roleMappings
+          .filter(mapping => mapping.claimValue.trim())
+          .map(mapping => [mapping.claimValue.trim(), mapping.role])
+      )
+    });
+
+    if (saveError) {
+      setError(saveError);
+    } else {
+      setSuccess('Single sign-on settings saved');
+      await fetchConfig();
+    }
+
+    setSaving(false);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center space-x-2 text-gray-500">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        <span>Loading single sign-on settings...</span>
+      </div>
+    );
+  }
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center space-x-2">
+        <KeyRound className="w-5 h-5 text-gray-600" />
+        <span>Single Sign-On (OIDC)</span>
+      </h3>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+          <AlertTriangle className="w-4 h-4 text-red-500 flex-shrink-0" />
+          <span className="text-red-700 text-sm">{error}</span>
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg flex items-center space-x-2">
+          <CheckCircle className="w-4 h-4 text-green-500 flex-shrink-0" />
+          <span className="text-green-700 text-sm">{success}</span>
+        </div>
+      )}
+
+      <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg flex items-center space-x-2">
+        <LinkIcon className="w-4 h-4 text-blue-500 flex-shrink-0" />
+        <span className="text-blue-700 text-sm">
+          Register <code className="font-mono">{callbackUrl}</code> as the redirect URI with your identity provider
+          and list it under Redirect URIs below.
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Issuer URL
+          </label>
+          <div className="flex space-x-2">
+            <input
+              type="url"
+              value={config.issuer}
+              onChange={(e) => updateConfig('issuer', e.target.value)}
+              placeholder="https://login.example.com"
+              className={inputClassName}
+              disabled={!canManage}
+            />
+            <button
+              type="button"
+              onClick={handleTest}
+              disabled={!config.issuer || testing}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 whitespace-nowrap"
+            >
+              {testing ? 'Testing...' : 'Test'}
+            </button>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Client ID
+          </label>
+          <input
+            type="text"
+            value={config.clientId}
+            onChange={(e) => updateConfig('clientId', e.target.value)}
+            className={inputClassName}
+            disabled={!canManage}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Client Secret
+          </label>
+          <input
+            type="password"
+            value={config.clientSecret || ''}
+            onChange={(e) => updateConfig('clientSecret', e.target.value)}
+            placeholder={config.hasClientSecret ? 'Stored - leave blank to keep' : ''}
+            autoComplete="new-password"
+            className={inputClassName}
+            disabled={!canManage}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Email Domains
+          </label>
+          <input
+            type="text"
+            value={domainsInput}
+            onChange={(e) => setDomainsInput(e.target.value)}
+            placeholder="example.com, example.org"
+            className={inputClassName}
+            disabled={!canManage}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Redirect URIs
+          </label>
+          <input
+            type="text"
+            value={redirectUrisInput}
+            onChange={(e) => setRedirectUrisInput(e.target.value)}
+            placeholder={callbackUrl}
+            className={inputClassName}
+            disabled={!canManage}
+          />
+        </div>
+
+        {config.domainVerifications && config.domainVerifications.length > 0 && (
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Domain Verification
+            </label>
+            <p className="text-xs text-gray-500 mb-2">
+              Logins are only routed to your identity provider for domains you have proven you own. Publish each
+              TXT record with your DNS provider, then verify it.
+            </p>
+            <div className="space-y-2">
+              {config.domainVerifications.map(verification => (
+                <div key={verification.domain} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium text-gray-900">{verification.domain}</div>
+                    {!verification.verifiedAt && (
+                      <div className="text-xs text-gray-500 font-mono break-all">
+                        {verification.recordName} TXT {verification.recordValue}
+                      </div>
+                    )}
+                  </div>
+                  {verification.verifiedAt ? (
+                    <span className="flex items-center space-x-1 text-sm text-green-600 flex-shrink-0 ml-4">
+                      <CheckCircle className="w-4 h-4" />
+                      <span>Verified</span>
+                    </span>
+                  ) : canManage ? (
+                    <button
+                      type="button"
+                      onClick={() => handleVerifyDomain(verification.domain)}
+                      disabled={verifyingDomain !== null}
+                      className="px-3 py-1 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 flex-shrink-0 ml-4"
+                    >
+                      {verifyingDomain === verification.domain ? 'Verifying...' : 'Verify'}
+                    </button>
+                  ) : (
+                    <span className="flex items-center space-x-1 text-sm text-yellow-600 flex-shrink-0 ml-4">
+                      <Clock className="w-4 h-4" />
+                      <span>Pending</span>
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Scopes
+          </label>
+          <input
+            type="text"
+            value={config.scopes}
+            onChange={(e) => updateConfig('scopes', e.target.value)}
+            className={inputClassName}
+            disabled={!canManage}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Role Claim
+          </label>
+          <input
+            type="text"
+            value={config.roleClaim || ''}
+            onChange={(e) => updateConfig('roleClaim', e.target.value || null)}
+            placeholder="groups"
+            className={inputClassName}
+            disabled={!canManage}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Department Claim
+          </label>
+          <input
+            type="text"
+            value={config.departmentClaim || ''}
+            onChange={(e) => updateConfig('departmentClaim', e.target.value || null)}
+            placeholder="department"
+            className={inputClassName}
+            disabled={!canManage}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Default Role
+          </label>
+          <select
+            value={config.defaultRole}
+            onChange={(e) => updateConfig('defaultRole', e.target.value as MappedRole)}
+            className={inputClassName}
+            disabled={!canManage}
+          >
+            <option value="user">User</option>
+            <option value="manager">Manager</option>
+            <option value="admin">Admin</option>
+          </select>
+        </div>
+
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Role Mapping
+          </label>
+          <p className="text-xs text-gray-500 mb-2">
+            Users whose role claim contains a listed value get the mapped role; the most privileged match wins.
+            Everyone else gets the default role.
+          </p>
+          <div className="space-y-2">
+            {roleMappings.map((mapping, index) => (
+              <div key={index} className="flex items-center space-x-2">
+                <input
+                  type="text"
+                  value={mapping.claimValue}
+                  onChange={(e) => setRoleMappings(prev => prev.map((m, i) => i === index ? { ...m, claimValue: e.target.value } : m))}
+                  placeholder="Claim value"
+                  className={inputClassName}
+                  disabled={!canManage}
+                />
+                <select
+                  value={mapping.role}
+                  onChange={(e) => setRoleMappings(prev => prev.map((m, i) => i === index ? { ...m, role: e.target.value as MappedRole } : m))}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  disabled={!canManage}
+                >
+                  <option value="user">User</option>
+                  <option value="manager">Manager</option>
+                  <option value="admin">Admin</option>
+                </select>
+                {canManage && (
+                  <button
+                    type="button"
+                    onClick={() => setRoleMappings(prev => prev.filter((_, i) => i !== index))}
+                    className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                    title="Remove mapping"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+            {canManage && (
+              <button
+                type="button"
+                onClick={() => setRoleMappings(prev => [...prev, { claimValue: '', role: 'user' }])}
+                className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800 font-medium"
+              >
+                <Plus className="w-4 h-4" />
+                <span>Add mapping</span>
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center">
+          <input
+            type="checkbox"
+            id="ssoEnabled"
+            checked={config.enabled}
+            onChange={(e) => updateConfig('enabled', e.target.checked)}
+            className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            disabled={!canManage}
+          />
+          <label htmlFor="ssoEnabled" className="ml-2 text-sm text-gray-700">
+            Enable single sign-on
+          </label>
+        </div>
+
+        <div className="flex items-center">
+          <input
+            type="checkbox"
+            id="requireSso"
+            checked={config.requireSso}
+            onChange={(e) => updateConfig('requireSso', e.target.checked)}
+            className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            disabled={!canManage || !config.enabled}
+          />
+          <label htmlFor="requireSso" className="ml-2 text-sm text-gray-700">
+            Require SSO (block password login except for super admins)
+          </label>
+        </div>
+      </div>
+
+      {canManage && (
+        <div className="mt-4 flex justify-end">
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {saving ? (
+              <>
+                <Loader2 className="w-4 h-4 animate-spin" />
+                <span>Saving...</span>
+              </>
+            ) : (
+              <>
+                <Save className="w-4 h-4" />
+                <span>Save SSO Settings</span>
+              </>
+            )}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SsoSettings;
@@ -16,13 +16,19 @@ import {
   Crown,
   UserCheck,
   Settings,
-  Inbox
+  Inbox,
+  Monitor,
+  KeySquare
 } from 'lucide-react';
 import { useAuth } from '../../hooks/useAuth';
 import { supabase, Database } from '../../lib/supabase';
 import InvitationManagement from './InvitationManagement';
+import SessionManagement from './SessionManagement';
+import RoleManagement from './RoleManagement';
+import { clearanceLevels } from '../../utils/constants';
 
 type UserProfile = Database['public']['Tables']['user_profiles']['Row'];
+type Role = Database['public']['Tables']['roles']['Row'];
 
 interface UserWithAuth extends UserProfile {
   email: string;
@@ -32,6 +38,7 @@ interface UserWithAuth extends UserProfile {
 
 const UserManagement: React.FC = () => {
   const [users, setUsers] = useState<UserWithAuth[]>([]);
+  const [customRoles, setCustomRoles] = useState<Role[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [roleFilter, setRoleFilter] = useState<string>('all');
@@ -39,13 +46,15 @@ const UserManagement: React.FC = () => {
   const [showEditModal, setShowEditModal] = useState(false);
   const [editForm, setEditForm] = useState({
     role: '',
+    customRoleId: '',
+    clearanceLevel: 'Unclassified',
     department: '',
     phone: ''
   });
-  const [activeTab, setActiveTab] = useState<'users' | 'invitations'>('users');
+  const [activeTab, setActiveTab] = useState<'users' | 'invitations' | 'sessions' | 'roles'>('users');
   const [showInviteForm, setShowInviteForm] = useState(false);
 
-  const { hasPermission, profile, user } = useAuth();
+  const { hasPermission, profile, user, requireReauth } = useAuth();
 
   useEffect(() => {
     fetchUsers();
@@ -55,13 +64,23 @@ const UserManagement: React.FC = () => {
     try {
       setLoading(true);
       
-      // Fetch user profiles
-      const { data: profiles, error: profilesError } = await supabase
-        .from('user_profiles')
-        .select('*')
-        .order('created_at', { ascending: false });
+      // Fetch user profiles and the organization's custom roles
+      const [{ data: profiles, error: profilesError }, { data: roles, error: rolesError }] = await Promise.all([
+        supabase
+          .from('user_profiles')
+          .select('*')
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('roles')
+          .select('*')
+          .eq('is_system', false)
+          .order('name')
+      ]);
 
       if (profilesError) throw profilesError;
+      if (rolesError) throw rolesError;
+
+      setCustomRoles(roles || []);
 
       // For each profile, get the auth user data
       const usersWithAuth: UserWithAuth[] = [];
@@ -114,6 +133,9 @@ const UserManagement: React.FC = () => {
   };
 
   const getStatusIcon = (user: UserWithAuth) => {
+    if (!user.active) {
+      return <XCircle className="w-4 h-4 text-gray-400" />;
+    }
     if (user.account_locked_until && new Date(user.account_locked_until) > new Date()) {
       return <XCircle className="w-4 h-4 text-red-500" />;
     }
@@ -123,10 +145,20 @@ const UserManagement: React.FC = () => {
     return <AlertCircle className="w-4 h-4 text-yellow-500" />;
   };
 
+  // Only super admins grant clearance above their own, and nobody else changes their own
+  const assignableClearanceLevels = profile?.role === 'super_admin'
+    ? clearanceLevels
+    : clearanceLevels.slice(0, clearanceLevels.indexOf(profile?.clearance_level || 'Unclassified') + 1);
+
+  const getCustomRoleName = (roleId: string | null) =>
+    roleId ? customRoles.find(role => role.id === roleId)?.name || 'Unknown role' : null;
+
   const handleEditUser = (user: UserWithAuth) => {
     setSelectedUser(user);
     setEditForm({
       role: user.role,
+      customRoleId: user.custom_role_id || '',
+      clearanceLevel: user.clearance_level,
       department: user.department || '',
       phone: user.phone || ''
     });
@@ -136,12 +168,14 @@ const UserManagement: React.FC = () => {
   const handleUpdateUser = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!selectedUser) return;
+    const roleChanged = editForm.role !== selectedUser.role || editForm.customRoleId !== (selectedUser.custom_role_id || '');
+    if (roleChanged && !await requireReauth('roles.assign')) return;
 
     try {
       // Get current user data for comparison
       const { data: currentUser } = await supabase
         .from('user_profiles')
-        .select('role, department, phone')
+        .select('role, custom_role_id, clearance_level, department, phone')
         .eq('id', selectedUser.id)
         .single();
       
@@ -149,6 +183,9 @@ const UserManagement: React.FC = () => {
         .from('user_profiles')
         .update({
           role: editForm.role as any,
+          // Super admins always keep the full built-in permission set
+          custom_role_id: editForm.role === 'super_admin' ? null : editForm.customRoleId || null,
+          clearance_level: editForm.clearanceLevel as UserProfile['clearance_level'],
           department: editForm.department || null,
           phone: editForm.phone || null,
           updated_at: new Date().toISOString()
@@ -164,6 +201,15 @@ const UserManagement: React.FC = () => {
         if (editForm.role !== currentUser.role) {
           changes.role = { from: currentUser.role, to: editForm.role };
         }
+        if ((editForm.customRoleId || null) !== currentUser.custom_role_id) {
+          changes.custom_role = {
+            from: getCustomRoleName(currentUser.custom_role_id),
+            to: getCustomRoleName(editForm.customRoleId || null)
+          };
+        }
+        if (editForm.clearanceLevel !== currentUser.clearance_level) {
+          changes.clearance_level = { from: currentUser.clearance_level, to: editForm.clearanceLevel };
+        }
         if (editForm.department !== currentUser.department) {
           changes.department = { from: currentUser.department, to: editForm.department };
         }
@@ -296,7 +342,7 @@ const UserManagement: React.FC = () => {
 
   const userStats = {
     total: users.length,
-    active: users.filter(u => !u.account_locked_until || new Date(u.account_locked_until) <= new Date()).length,
+    active: users.filter(u => u.active && (!u.account_locked_until || new Date(u.account_locked_until) <= new Date())).length,
     locked: users.filter(u => u.account_locked_until && new Date(u.account_locked_until) > new Date()).length,
     admins: users.filter(u => u.role === 'admin' || u.role === 'super_admin').length,
     twoFactorEnabled: users.filter(u => u.two_factor_enabled).length
@@ -353,6 +399,34 @@ const UserManagement: React.FC = () => {
               <span>Invitations</span>
             </div>
           </button>
+          {hasPermission('users.update') && (
+            <button
+              onClick={() => setActiveTab('sessions')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'sessions'
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              <div className="flex items-center space-x-2">
+                <Monitor className="w-5 h-5" />
+                <span>Sessions</span>
+              </div>
+            </button>
+          )}
+          <button
+            onClick={() => setActiveTab('roles')}
+            className={`py-4 px-1 border-b-2 font-medium text-sm ${
+              activeTab === 'roles'
+                ? 'border-blue-500 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            <div className="flex items-center space-x-2">
+              <KeySquare className="w-5 h-5" />
+              <span>Roles</span>
+            </div>
+          </button>
         </nav>
       </div>
 
@@ -494,6 +568,12 @@ const UserManagement: React.FC = () => {
                               {user.role.replace('_', ' ').toUpperCase()}
                             </span>
                           </div>
+                          {user.custom_role_id && (
+                            <div className="flex items-center space-x-1 mt-1 text-xs text-gray-500">
+                              <KeySquare className="w-3 h-3" />
+                              <span>{getCustomRoleName(user.custom_role_id)}</span>
+                            </div>
+                          )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <div className="text-sm text-gray-900">{user.department || 'Not assigned'}</div>
@@ -502,10 +582,12 @@ const UserManagement: React.FC = () => {
                           <div className="flex items-center space-x-2">
                             {getStatusIcon(user)}
                             <span className={`text-sm ${
+                              !user.active ? 'text-gray-500' :
                               isLocked ? 'text-red-600' : 
                               user.email_confirmed_at ? 'text-green-600' : 'text-yellow-600'
                             }`}>
-                              {isLocked ? 'Locked' : 
+                              {!user.active ? 'Deactivated' :
+                               isLocked ? 'Locked' : 
                                user.email_confirmed_at ? 'Active' : 'Pending'}
                             </span>
                           </div>
@@ -602,6 +684,44 @@ const UserManagement: React.FC = () => {
                     </select>
                   </div>
 
+                  {customRoles.length > 0 && editForm.role !== 'super_admin' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Custom Role
+                      </label>
+                      <select
+                        value={editForm.customRoleId}
+                        onChange={(e) => setEditForm({...editForm, customRoleId: e.target.value})}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        disabled={!hasPermission('roles.assign')}
+                      >
+                        <option value="">None (base role permissions)</option>
+                        {customRoles.map(role => (
+                          <option key={role.id} value={role.id}>{role.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Clearance Level
+                    </label>
+                    <select
+                      value={editForm.clearanceLevel}
+                      onChange={(e) => setEditForm({...editForm, clearanceLevel: e.target.value})}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      disabled={
+                        profile?.role !== 'super_admin' &&
+                        (selectedUser.user_id === user?.id || !assignableClearanceLevels.includes(selectedUser.clearance_level))
+                      }
+                    >
+                      {(assignableClearanceLevels.includes(editForm.clearanceLevel) ? assignableClearanceLevels : clearanceLevels).map(level => (
+                        <option key={level} value={level}>{level}</option>
+                      ))}
+                    </select>
+                  </div>
+
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
                       Department
@@ -648,6 +768,10 @@ const UserManagement: React.FC = () => {
             </div>
           )}
         </>
+      ) : activeTab === 'sessions' ? (
+        <SessionManagement />
+      ) : activeTab === 'roles' ? (
+        <RoleManagement />
       ) : (
         <InvitationManagement 
           showFormProp={showInviteForm} 
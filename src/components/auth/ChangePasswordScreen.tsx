@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import { Eye, EyeOff, Lock, KeyRound, AlertCircle, Loader2 } from 'lucide-react';
+import { useAuth } from '../../hooks/useAuth';
+import { getPasswordRequirements, meetsPasswordPolicy, PasswordPolicy } from '../../utils/passwordPolicy';
+
+interface ChangePasswordScreenProps {
+  // The credentials the sign-in was refused for; the server checks them again before changing the password
+  email: string;
+  currentPassword: string;
+  requiresTwoFactor: boolean;
+  policy: PasswordPolicy;
+  onChanged: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Full-screen password change shown by the login page when sign-in was refused because the password
+ * is older than the organization's passwordPolicy.maxAge
+ */
+const ChangePasswordScreen: React.FC<ChangePasswordScreenProps> = ({
+  email,
+  currentPassword,
+  requiresTwoFactor,
+  policy,
+  onChanged,
+  onCancel
+}) => {
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const { changeExpiredPassword } = useAuth();
+  const requirements = getPasswordRequirements(policy);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!meetsPasswordPolicy(password, policy)) {
+      setError('Your new password does not meet the password policy.');
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match.');
+      return;
+    }
+
+    if (requiresTwoFactor && code.length !== 6) {
+      setError('Enter the 6-digit code from your authenticator app.');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const result = await changeExpiredPassword(email, currentPassword, password, requiresTwoFactor ? code : undefined);
+      if (result.error) {
+        setError(result.error);
+      } else {
+        onChanged();
+      }
+    } catch (error) {
+      console.error('Error changing password:', error);
+      setError('Failed to change password. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-900 via-blue-800 to-purple-900 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black opacity-20"></div>
+
+      <div className="relative z-10 w-full max-w-md">
+        <div className="bg-white/95 backdrop-blur-sm rounded-2xl shadow-2xl p-8 border border-white/20">
+          <div className="text-center mb-8">
+            <div className="w-16 h-16 bg-gradient-to-r from-blue-600 to-purple-600 rounded-2xl flex items-center justify-center mx-auto mb-4 shadow-lg">
+              <KeyRound className="w-8 h-8 text-white" />
+            </div>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Password Expired</h1>
+            <p className="text-gray-600">
+              Your organization requires a new password every {policy.maxAge} days. Choose a new password to continue.
+            </p>
+          </div>
+
+          {error && (
+            <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+              <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+              <span className="text-red-700 text-sm">{error}</span>
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+              <label htmlFor="newPassword" className="block text-sm font-medium text-gray-700 mb-2">
+                New Password
+              </label>
+              <div className="relative">
+                <Lock className="w-5 h-5 text-gray-400 absolute left-3 top-1/2 transform -translate-y-1/2" />
+                <input
+                  id="newPassword"
+                  type={showPassword ? 'text' : 'password'}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="w-full pl-10 pr-12 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                  placeholder="Enter a new password"
+                  autoComplete="new-password"
+                  required
+                />
+                <button
+                  type="button"
+                  onClick={() => setShowPassword(!showPassword)}
+                  className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600 transition-colors duration-200"
+                >
+                  {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+                </button>
+              </div>
+
+              <div className="mt-2 text-xs text-gray-600">
+                Password must contain:
+                <ul className="mt-1 space-y-1">
+                  {requirements.map(requirement => (
+                    <li
+                      key={requirement.label}
+                      className={`flex items-center space-x-1 ${requirement.met(password) ? 'text-green-600' : 'text-gray-400'}`}
+                    >
+                      <span>•</span>
+                      <span>{requirement.label}</span>
+                    </li>
+                  ))}
+                </ul>
+                {policy.preventReuse > 0 && (
+                  <p className="mt-2 text-gray-500">
+                    You cannot reuse any of your last {policy.preventReuse} passwords.
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="confirmNewPassword" className="block text-sm font-medium text-gray-700 mb-2">
+                Confirm New Password
+              </label>
+              <div className="relative">
+                <Lock className="w-5 h-5 text-gray-400 absolute left-3 top-1/2 transform -translate-y-1/2" />
+                <input
+                  id="confirmNewPassword"
+                  type={showPassword ? 'text' : 'password'}
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                  placeholder="Confirm your new password"
+                  autoComplete="new-password"
+                  required
+                />
+              </div>
+              {confirmPassword && password !== confirmPassword && (
+                <p className="mt-1 text-xs text-red-600">Passwords do not match</p>
+              )}
+            </div>
+
+            {requiresTwoFactor && (
+              <div>
+                <label htmlFor="twoFactorCode" className="block text-sm font-medium text-gray-700 mb-2">
+                  Authenticator Code
+                </label>
+                <input
+                  id="twoFactorCode"
+                  type="text"
+                  inputMode="numeric"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                  className="w-full px-4 py-3 text-center text-2xl font-mono tracking-widest border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                  placeholder="000000"
+                  autoComplete="one-time-code"
+                  required
+                />
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full bg-gradient-to-r from-blue-600 to-purple-600 text-white py-3 px-4 rounded-lg font-semibold hover:from-blue-700 hover:to-purple-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-lg"
+            >
+              {loading ? (
+                <div className="flex items-center justify-center space-x-2">
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                  <span>Updating password...</span>
+                </div>
+              ) : (
+                'Change Password'
+              )}
+            </button>
+          </form>
+
+          <div className="mt-6 text-center">
+            <button
+              onClick={onCancel}
+              className="text-sm text-blue-600 hover:text-blue-800 font-medium transition-colors duration-200"
+            >
+              Back to sign in
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChangePasswordScreen;
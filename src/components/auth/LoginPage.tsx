@@ -1,8 +1,11 @@
 import React, { useState, useEffect } from 'react';
-import { Eye, EyeOff, Shield, Lock, Mail, AlertCircle, CheckCircle, Loader2, Brain } from 'lucide-react';
+import { Eye, EyeOff, Shield, Lock, Mail, AlertCircle, CheckCircle, Loader2, Brain, Clock, KeyRound } from 'lucide-react';
 import { useAuth } from '../../hooks/useAuth';
 import { useNavigate, useLocation, useSearchParams } from 'react-router-dom';
 import zxcvbn from 'zxcvbn';
+import { defaultPasswordPolicy, getPasswordRequirements, meetsPasswordPolicy, PasswordPolicy } from '../../utils/passwordPolicy';
+import { getSessionEndMessage } from '../../utils/sessionPolicy';
+import ChangePasswordScreen from './ChangePasswordScreen';
 
 interface PasswordStrength {
   score: number;
@@ -27,10 +30,13 @@ const LoginPage: React.FC = () => {
   const [passwordStrength, setPasswordStrength] = useState<PasswordStrength | null>(null);
   const [showTwoFactor, setShowTwoFactor] = useState(false);
   const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [expiredPassword, setExpiredPassword] = useState<{ requiresTwoFactor: boolean; policy: PasswordPolicy } | null>(null);
   const [searchParams] = useSearchParams();
   const invitationCode = searchParams.get('invitation');
 
-  const { signIn, signUp, resetPassword, verifyTwoFactor, user, getInvitationDetails } = useAuth();
+  const { signIn, signInWithSso, signUp, resetPassword, verifyTwoFactor, user, getInvitationDetails, sessionEndReason } = useAuth();
+  const sessionEndMessage = getSessionEndMessage(sessionEndReason);
   const navigate = useNavigate();
   const location = useLocation();
 
@@ -84,16 +90,6 @@ const LoginPage: React.FC = () => {
     }
   }, [password, isLogin]);
 
-  const validatePassword = (password: string): boolean => {
-    const minLength = password.length >= 8;
-    const hasSpecialChar = /[!@#$%^&*(),.?":{}|<>]/.test(password);
-    const hasNumber = /\d/.test(password);
-    const hasUpperCase = /[A-Z]/.test(password);
-    const hasLowerCase = /[a-z]/.test(password);
-
-    return minLength && hasSpecialChar && hasNumber && hasUpperCase && hasLowerCase;
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -106,6 +102,8 @@ const LoginPage: React.FC = () => {
         
         if (result.error) {
           setError(result.error);
+        } else if (result.passwordExpired) {
+          setExpiredPassword({ requiresTwoFactor: !!result.requiresTwoFactor, policy: result.policy || defaultPasswordPolicy });
         } else if (result.requiresTwoFactor) {
           setShowTwoFactor(true);
           setSuccess('Please enter your two-factor authentication code.');
@@ -120,7 +118,8 @@ const LoginPage: React.FC = () => {
         }
       } else {
         // Validation for signup
-        if (!validatePassword(password)) {
+        // The server enforces the organization's own policy; this is an early check against the defaults
+        if (!meetsPasswordPolicy(password, defaultPasswordPolicy)) {
           setError('Password must be at least 8 characters long and contain uppercase, lowercase, numbers, and special characters.');
           setLoading(false);
           return;
@@ -138,19 +137,7 @@ const LoginPage: React.FC = () => {
           return;
         }
 
-        // Get organization ID if there's an invitation code
-        let organizationId: string | undefined;
-        if (invitationCode) {
-          const invitationDetails = await getInvitationDetails(invitationCode);
-          if (invitationDetails.error) {
-            setError(invitationDetails.error);
-            setLoading(false);
-            return;
-          }
-          organizationId = invitationDetails.organizationId;
-        }
-
-        const result = await signUp(email, password, fullName, organizationId);
+        const result = await signUp(email, password, fullName, invitationCode || undefined);
         
         if (result.error) {
           setError(result.error);
@@ -173,7 +160,7 @@ const LoginPage: React.FC = () => {
     setLoading(true);
 
     try {
-      const result = await verifyTwoFactor(twoFactorCode);
+      const result = await verifyTwoFactor(email, password, twoFactorCode, useBackupCode ? 'backup' : 'totp');
       
       if (result.error) {
         setError(result.error);
@@ -193,6 +180,25 @@ const LoginPage: React.FC = () => {
     }
   };
 
+  const handleSsoSignIn = async () => {
+    if (!email) {
+      setError('Please enter your work email address first.');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+    setSuccess('');
+
+    // On success the browser leaves for the identity provider
+    const result = await signInWithSso(email);
+
+    if (result.error) {
+      setError(result.error);
+      setLoading(false);
+    }
+  };
+
   const handleForgotPassword = async () => {
     if (!email) {
       setError('Please enter your email address first.');
@@ -217,6 +223,26 @@ const LoginPage: React.FC = () => {
     }
   };
 
+  if (expiredPassword) {
+    return (
+      <ChangePasswordScreen
+        email={email}
+        currentPassword={password}
+        requiresTwoFactor={expiredPassword.requiresTwoFactor}
+        policy={expiredPassword.policy}
+        onChanged={() => {
+          setExpiredPassword(null);
+          setPassword('');
+          setSuccess('Your password has been changed. Sign in with your new password.');
+        }}
+        onCancel={() => {
+          setExpiredPassword(null);
+          setPassword('');
+        }}
+      />
+    );
+  }
+
   if (showTwoFactor) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-900 via-blue-800 to-purple-900 flex items-center justify-center p-4">
@@ -236,7 +262,11 @@ const LoginPage: React.FC = () => {
                 <Shield className="w-8 h-8 text-white" />
               </div>
               <h1 className="text-2xl font-bold text-gray-900 mb-2">Two-Factor Authentication</h1>
-              <p className="text-gray-600">Enter the 6-digit code from your authenticator app</p>
+              <p className="text-gray-600">
+                {useBackupCode
+                  ? 'Enter one of your saved backup codes'
+                  : 'Enter the 6-digit code from your authenticator app'}
+              </p>
             </div>
 
             {error && (
@@ -248,20 +278,33 @@ const LoginPage: React.FC = () => {
 
             <form onSubmit={handleTwoFactorSubmit} className="space-y-6">
               <div>
-                <input
-                  type="text"
-                  value={twoFactorCode}
-                  onChange={(e) => setTwoFactorCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
-                  placeholder="000000"
-                  className="w-full px-4 py-3 text-center text-2xl font-mono tracking-widest border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
-                  maxLength={6}
-                  required
-                />
+                {useBackupCode ? (
+                  <input
+                    type="text"
+                    value={twoFactorCode}
+                    onChange={(e) => setTwoFactorCode(e.target.value.toUpperCase().replace(/[^A-Z0-9-]/g, '').slice(0, 11))}
+                    placeholder="XXXXX-XXXXX"
+                    className="w-full px-4 py-3 text-center text-2xl font-mono tracking-widest border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                    maxLength={11}
+                    autoComplete="off"
+                    required
+                  />
+                ) : (
+                  <input
+                    type="text"
+                    value={twoFactorCode}
+                    onChange={(e) => setTwoFactorCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                    placeholder="000000"
+                    className="w-full px-4 py-3 text-center text-2xl font-mono tracking-widest border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                    maxLength={6}
+                    required
+                  />
+                )}
               </div>
 
               <button
                 type="submit"
-                disabled={loading || twoFactorCode.length !== 6}
+                disabled={loading || (useBackupCode ? twoFactorCode.replace(/-/g, '').length !== 10 : twoFactorCode.length !== 6)}
                 className="w-full bg-gradient-to-r from-blue-600 to-purple-600 text-white py-3 px-4 rounded-lg font-semibold hover:from-blue-700 hover:to-purple-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-lg"
               >
                 {loading ? (
@@ -274,6 +317,20 @@ const LoginPage: React.FC = () => {
                 )}
               </button>
 
+              <div className="text-center">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setUseBackupCode(!useBackupCode);
+                    setTwoFactorCode('');
+                    setError('');
+                  }}
+                  className="text-blue-600 hover:text-blue-800 text-sm font-medium transition-colors duration-200"
+                >
+                  {useBackupCode ? 'Use authenticator app instead' : 'Use a backup code instead'}
+                </button>
+              </div>
+
               <div className="text-center">
                 <button
                   type="button"
@@ -338,6 +395,13 @@ const LoginPage: React.FC = () => {
             </div>
           )}
 
+          {sessionEndMessage && !error && isLogin && (
+            <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-lg flex items-center space-x-2">
+              <Clock className="w-5 h-5 text-blue-500 flex-shrink-0" />
+              <span className="text-blue-700 text-sm">{sessionEndMessage}</span>
+            </div>
+          )}
+
           <form onSubmit={handleSubmit} className="space-y-6">
             {!isLogin && (
               <div>
@@ -423,26 +487,15 @@ const LoginPage: React.FC = () => {
                 <div className="mt-2 text-xs text-gray-600">
                   Password must contain:
                   <ul className="mt-1 space-y-1">
-                    <li className={`flex items-center space-x-1 ${password.length >= 8 ? 'text-green-600' : 'text-gray-400'}`}>
-                      <span>•</span>
-                      <span>At least 8 characters</span>
-                    </li>
-                    <li className={`flex items-center space-x-1 ${/[A-Z]/.test(password) ? 'text-green-600' : 'text-gray-400'}`}>
-                      <span>•</span>
-                      <span>One uppercase letter</span>
-                    </li>
-                    <li className={`flex items-center space-x-1 ${/[a-z]/.test(password) ? 'text-green-600' : 'text-gray-400'}`}>
-                      <span>•</span>
-                      <span>One lowercase letter</span>
-                    </li>
-                    <li className={`flex items-center space-x-1 ${/\d/.test(password) ? 'text-green-600' : 'text-gray-400'}`}>
-                      <span>•</span>
-                      <span>One number</span>
-                    </li>
-                    <li className={`flex items-center space-x-1 ${/[!@#$%^&*(),.?":{}|<>]/.test(password) ? 'text-green-600' : 'text-gray-400'}`}>
-                      <span>•</span>
-                      <span>One special character</span>
-                    </li>
+                    {getPasswordRequirements(defaultPasswordPolicy).map(requirement => (
+                      <li
+                        key={requirement.label}
+                        className={`flex items-center space-x-1 ${requirement.met(password) ? 'text-green-600' : 'text-gray-400'}`}
+                      >
+                        <span>•</span>
+                        <span>{requirement.label}</span>
+                      </li>
+                    ))}
                   </ul>
                 </div>
               )}
@@ -515,6 +568,25 @@ const LoginPage: React.FC = () => {
             </button>
           </form>
 
+          {isLogin && (
+            <div className="mt-6">
+              <div className="flex items-center">
+                <div className="flex-grow border-t border-gray-200" />
+                <span className="px-3 text-sm text-gray-500">or</span>
+                <div className="flex-grow border-t border-gray-200" />
+              </div>
+              <button
+                type="button"
+                onClick={handleSsoSignIn}
+                disabled={loading}
+                className="mt-4 w-full flex items-center justify-center space-x-2 border border-gray-300 text-gray-700 py-3 px-4 rounded-lg font-semibold hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+              >
+                <KeyRound className="w-5 h-5" />
+                <span>Sign in with SSO</span>
+              </button>
+            </div>
+          )}
+
           <div className="mt-6 text-center">
             <p className="text-gray-600">
               {isLogin ? "Don't have an account?" : "Already have an account?"}
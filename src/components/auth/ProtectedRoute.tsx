@@ -77,6 +77,26 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
     return <Navigate to="/join-organization" state={{ from: location }} replace />;
   }
 
+  // Deprovisioned accounts keep their data but may not use the app
+  if (!profile.active) {
+    console.log('🔒 ProtectedRoute: Account is deactivated', {
+      userId: user.id,
+      path: location.pathname
+    });
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="max-w-md mx-auto text-center">
+          <div className="bg-red-50 border border-red-200 rounded-lg p-6">
+            <h2 className="text-lg font-semibold text-red-800 mb-2">Account Deactivated</h2>
+            <p className="text-red-600">
+              Your account has been deactivated by your organization. Please contact your administrator.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   // Check if account is locked
   if (profile.account_locked_until && new Date(profile.account_locked_until) > new Date()) {
     console.log('🔒 ProtectedRoute: Account is locked until', {
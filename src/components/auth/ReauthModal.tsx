@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, Lock, Smartphone } from 'lucide-react';
+import ConfirmationModal from '../common/ConfirmationModal';
+import * as authService from '../../services/authService';
+
+interface ReauthModalProps {
+  isOpen: boolean;
+  permission: string | null;
+  twoFactorEnabled: boolean;
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+const permissionLabels: Record<string, string> = {
+  'organizations.delete': 'delete an organization',
+  'users.delete': 'delete a user',
+  'roles.assign': 'change a user\'s role',
+  'incidents.delete': 'delete an incident',
+  'risks.delete': 'delete a risk'
+};
+
+/**
+ * Step-up re-authentication prompt, shown before actions gated by sessionPolicy.requireReauth
+ */
+const ReauthModal: React.FC<ReauthModalProps> = ({
+  isOpen,
+  permission,
+  twoFactorEnabled,
+  onSuccess,
+  onCancel
+}) => {
+  const [method, setMethod] = useState<'password' | 'totp'>('password');
+  const [value, setValue] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setMethod('password');
+      setValue('');
+      setError('');
+    }
+  }, [isOpen]);
+
+  const handleConfirm = async () => {
+    if (!value || loading) return;
+
+    setLoading(true);
+    setError('');
+
+    const { error: reauthError } = await authService.reauthenticate(
+      method === 'totp' ? { code: value } : { password: value }
+    );
+
+    setLoading(false);
+
+    if (reauthError) {
+      setError(reauthError);
+      setValue('');
+      return;
+    }
+
+    onSuccess();
+  };
+
+  const action = (permission && permissionLabels[permission]) || 'perform this action';
+
+  return (
+    <ConfirmationModal
+      isOpen={isOpen}
+      onClose={onCancel}
+      onConfirm={handleConfirm}
+      title="Confirm It's You"
+      message={`Your organization requires you to re-authenticate before you ${action}.`}
+      confirmText={loading ? 'Verifying...' : 'Confirm'}
+      type="warning"
+      closeOnConfirm={false}
+      confirmDisabled={!value || loading}
+    >
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleConfirm();
+        }}
+        className="mt-4 space-y-3"
+      >
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+            <AlertCircle className="w-4 h-4 text-red-500 flex-shrink-0" />
+            <span className="text-red-700 text-sm">{error}</span>
+          </div>
+        )}
+
+        <div className="relative">
+          {method === 'totp' ? (
+            <Smartphone className="w-5 h-5 text-gray-400 absolute left-3 top-1/2 transform -translate-y-1/2" />
+          ) : (
+            <Lock className="w-5 h-5 text-gray-400 absolute left-3 top-1/2 transform -translate-y-1/2" />
+          )}
+          <input
+            type={method === 'totp' ? 'text' : 'password'}
+            inputMode={method === 'totp' ? 'numeric' : undefined}
+            maxLength={method === 'totp' ? 6 : undefined}
+            value={value}
+            onChange={(e) => setValue(method === 'totp' ? e.target.value.replace(/\D/g, '') : e.target.value)}
+            placeholder={method === 'totp' ? 'Enter the 6-digit code' : 'Enter your password'}
+            autoComplete={method === 'totp' ? 'one-time-code' : 'current-password'}
+            className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            autoFocus
+          />
+        </div>
+
+        {twoFactorEnabled && (
+          <button
+            type="button"
+            onClick={() => {
+              setMethod(method === 'totp' ? 'password' : 'totp');
+              setValue('');
+              setError('');
+            }}
+            className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+          >
+            {method === 'totp' ? 'Use your password instead' : 'Use your authenticator app instead'}
+          </button>
+        )}
+      </form>
+    </ConfirmationModal>
+  );
+};
+
+export default ReauthModal;
@@ -0,0 +1,81 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertCircle, KeyRound, Loader2 } from 'lucide-react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useAuth } from '../../hooks/useAuth';
+
+/**
+ * Landing page the identity provider redirects to after an SSO login.
+ * Exchanges the authorization code for a session and continues to the dashboard.
+ */
+const SsoCallback: React.FC = () => {
+  const [error, setError] = useState('');
+  const [searchParams] = useSearchParams();
+  const { completeSsoSignIn } = useAuth();
+  const navigate = useNavigate();
+  // The login state is single use, so the exchange must not run twice
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+
+    const code = searchParams.get('code');
+    const state = searchParams.get('state');
+    const providerError = searchParams.get('error_description') || searchParams.get('error');
+
+    if (providerError || !code || !state) {
+      setError(providerError || 'The identity provider did not return a sign-in code.');
+      return;
+    }
+
+    const complete = async () => {
+      const result = await completeSsoSignIn(code, state);
+      if (result.error) {
+        setError(result.error);
+      } else {
+        navigate('/dashboard', { replace: true });
+      }
+    };
+    complete();
+  }, [searchParams, completeSsoSignIn, navigate]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-900 via-blue-800 to-purple-900 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black opacity-20"></div>
+
+      <div className="relative z-10 w-full max-w-md">
+        <div className="bg-white/95 backdrop-blur-sm rounded-2xl shadow-2xl p-8 border border-white/20 text-center">
+          <div className="w-16 h-16 bg-gradient-to-r from-blue-600 to-purple-600 rounded-2xl flex items-center justify-center mx-auto mb-4 shadow-lg">
+            <KeyRound className="w-8 h-8 text-white" />
+          </div>
+
+          {error ? (
+            <>
+              <h1 className="text-2xl font-bold text-gray-900 mb-4">Single Sign-On Failed</h1>
+              <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2 text-left">
+                <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+                <span className="text-red-700 text-sm">{error}</span>
+              </div>
+              <button
+                onClick={() => navigate('/login', { replace: true })}
+                className="w-full bg-gradient-to-r from-blue-600 to-purple-600 text-white py-3 px-4 rounded-lg font-semibold hover:from-blue-700 hover:to-purple-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-all duration-200 shadow-lg"
+              >
+                Back to Sign In
+              </button>
+            </>
+          ) : (
+            <>
+              <h1 className="text-2xl font-bold text-gray-900 mb-2">Signing You In</h1>
+              <div className="flex items-center justify-center space-x-2 text-gray-600">
+                <Loader2 className="w-5 h-5 animate-spin" />
+                <span>Completing single sign-on...</span>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SsoCallback;
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
-import { Shield, Copy, Download, CheckCircle, AlertCircle, Loader2, QrCode, Key } from 'lucide-react';
+import { Shield, Copy, Download, CheckCircle, AlertCircle, AlertTriangle, Loader2, QrCode, Key, RefreshCw } from 'lucide-react';
 import { useAuth } from '../../hooks/useAuth';
+import { lowBackupCodeThreshold } from '../../utils/constants';
 
 const TwoFactorSetup: React.FC = () => {
   const [step, setStep] = useState<'setup' | 'verify' | 'complete'>('setup');
@@ -11,14 +12,53 @@ const TwoFactorSetup: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [copied, setCopied] = useState(false);
+  const [remainingBackupCodes, setRemainingBackupCodes] = useState<number | null>(null);
+  const [regenerateCode, setRegenerateCode] = useState('');
 
-  const { setupTwoFactor, enableTwoFactor, profile, refreshProfile } = useAuth();
+  const { setupTwoFactor, enableTwoFactor, getBackupCodeStatus, regenerateBackupCodes, profile, refreshProfile } = useAuth();
 
   useEffect(() => {
-    if (step === 'setup') {
+    if (step === 'setup' && !profile?.two_factor_enabled) {
       initializeSetup();
     }
-  }, [step]);
+  }, [step, profile?.two_factor_enabled]);
+
+  useEffect(() => {
+    if (!profile?.two_factor_enabled) return;
+
+    const loadBackupCodeStatus = async () => {
+      const result = await getBackupCodeStatus();
+      if (result.error) {
+        setError(result.error);
+      } else if (result.remainingBackupCodes !== undefined) {
+        setRemainingBackupCodes(result.remainingBackupCodes);
+      }
+    };
+    loadBackupCodeStatus();
+  }, [profile?.two_factor_enabled, getBackupCodeStatus]);
+
+  const handleRegenerate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+
+    try {
+      const result = await regenerateBackupCodes(regenerateCode);
+
+      if (result.error || !result.backupCodes) {
+        setError(result.error || 'Failed to regenerate backup codes');
+      } else {
+        setBackupCodes(result.backupCodes);
+        setRemainingBackupCodes(result.backupCodes.length);
+        setRegenerateCode('');
+      }
+    } catch (error) {
+      console.error('Failed to regenerate backup codes:', error);
+      setError('Failed to regenerate backup codes');
+    } finally {
+      setLoading(false);
+    }
+  };
 
   const initializeSetup = async () => {
     setLoading(true);
@@ -26,7 +66,6 @@ const TwoFactorSetup: React.FC = () => {
       const result = await setupTwoFactor();
       setQrCode(result.qrCode);
       setSecret(result.secret);
-      setBackupCodes(result.backupCodes);
     } catch (error) {
       setError('Failed to initialize two-factor authentication setup');
     } finally {
@@ -80,9 +119,49 @@ const TwoFactorSetup: React.FC = () => {
     URL.revokeObjectURL(url);
   };
 
+  const renderBackupCodes = () => (
+    <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6">
+      <div className="flex items-center space-x-3 mb-4">
+        <Key className="w-6 h-6 text-yellow-600" />
+        <h3 className="text-lg font-semibold text-yellow-800">Save Your Backup Codes</h3>
+      </div>
+      <p className="text-yellow-700 mb-4">
+        These backup codes can be used to access your account if you lose your authenticator device. 
+        Each code can only be used once.
+      </p>
+
+      <div className="grid grid-cols-2 gap-2 mb-4">
+        {backupCodes.map((code, index) => (
+          <div key={index} className="bg-white px-3 py-2 rounded border font-mono text-sm">
+            {code}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-center space-x-4">
+        <button
+          onClick={() => copyToClipboard(backupCodes.join('\n'))}
+          className="flex items-center space-x-2 px-4 py-2 bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 transition-colors"
+        >
+          <Copy className="w-4 h-4" />
+          <span>Copy Codes</span>
+        </button>
+        <button
+          onClick={downloadBackupCodes}
+          className="flex items-center space-x-2 px-4 py-2 bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 transition-colors"
+        >
+          <Download className="w-4 h-4" />
+          <span>Download Codes</span>
+        </button>
+      </div>
+    </div>
+  );
+
   if (profile?.two_factor_enabled) {
+    const lowOnCodes = remainingBackupCodes !== null && remainingBackupCodes <= lowBackupCodeThreshold;
+
     return (
-      <div className="max-w-2xl mx-auto">
+      <div className="max-w-2xl mx-auto space-y-6">
         <div className="bg-green-50 border border-green-200 rounded-lg p-6">
           <div className="flex items-center space-x-3 mb-4">
             <CheckCircle className="w-6 h-6 text-green-500" />
@@ -92,6 +171,66 @@ const TwoFactorSetup: React.FC = () => {
             Your account is protected with two-factor authentication. You'll need to enter a code from your authenticator app when signing in.
           </p>
         </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+            <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+            <span className="text-red-700 text-sm">{error}</span>
+          </div>
+        )}
+
+        {backupCodes.length > 0 ? (
+          renderBackupCodes()
+        ) : (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <div className="flex items-center space-x-3 mb-4">
+              <Key className="w-6 h-6 text-gray-600" />
+              <h3 className="text-lg font-semibold text-gray-900">Backup Codes</h3>
+            </div>
+
+            {lowOnCodes ? (
+              <div className="mb-4 p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex items-center space-x-2">
+                <AlertTriangle className="w-5 h-5 text-yellow-600 flex-shrink-0" />
+                <span className="text-yellow-800 text-sm">
+                  {remainingBackupCodes === 0
+                    ? 'You have no backup codes left. Generate a new set so you can still sign in if you lose your device.'
+                    : `Only ${remainingBackupCodes} backup code${remainingBackupCodes === 1 ? '' : 's'} left. Consider generating a new set.`}
+                </span>
+              </div>
+            ) : (
+              <p className="text-gray-600 mb-4">
+                {remainingBackupCodes === null
+                  ? 'Loading backup code status...'
+                  : `You have ${remainingBackupCodes} unused backup codes.`}
+              </p>
+            )}
+
+            <form onSubmit={handleRegenerate} className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Generating new codes invalidates all previous ones. Enter a code from your authenticator app to continue.
+              </p>
+              <div className="flex items-center space-x-3">
+                <input
+                  type="text"
+                  value={regenerateCode}
+                  onChange={(e) => setRegenerateCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                  placeholder="000000"
+                  className="w-40 px-4 py-2 text-center text-lg font-mono tracking-widest border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                  maxLength={6}
+                  required
+                />
+                <button
+                  type="submit"
+                  disabled={loading || regenerateCode.length !== 6}
+                  className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+                >
+                  {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                  <span>Regenerate Codes</span>
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
       </div>
     );
   }
@@ -231,41 +370,7 @@ const TwoFactorSetup: React.FC = () => {
               </p>
             </div>
 
-            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6">
-              <div className="flex items-center space-x-3 mb-4">
-                <Key className="w-6 h-6 text-yellow-600" />
-                <h3 className="text-lg font-semibold text-yellow-800">Save Your Backup Codes</h3>
-              </div>
-              <p className="text-yellow-700 mb-4">
-                These backup codes can be used to access your account if you lose your authenticator device. 
-                Each code can only be used once.
-              </p>
-              
-              <div className="grid grid-cols-2 gap-2 mb-4">
-                {backupCodes.map((code, index) => (
-                  <div key={index} className="bg-white px-3 py-2 rounded border font-mono text-sm">
-                    {code}
-                  </div>
-                ))}
-              </div>
-
-              <div className="flex justify-center space-x-4">
-                <button
-                  onClick={() => copyToClipboard(backupCodes.join('\n'))}
-                  className="flex items-center space-x-2 px-4 py-2 bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 transition-colors"
-                >
-                  <Copy className="w-4 h-4" />
-                  <span>Copy Codes</span>
-                </button>
-                <button
-                  onClick={downloadBackupCodes}
-                  className="flex items-center space-x-2 px-4 py-2 bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 transition-colors"
-                >
-                  <Download className="w-4 h-4" />
-                  <span>Download Codes</span>
-                </button>
-              </div>
-            </div>
+            {backupCodes.length > 0 && renderBackupCodes()}
 
             <div className="text-center">
               <button
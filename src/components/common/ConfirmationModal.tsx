@@ -10,6 +10,10 @@ interface ConfirmationModalProps {
   confirmText?: string;
   cancelText?: string;
   type?: 'danger' | 'warning' | 'info';
+  children?: React.ReactNode;
+  // Keep the modal open after confirming, e.g. while an async check runs
+  closeOnConfirm?: boolean;
+  confirmDisabled?: boolean;
 }
 
 const ConfirmationModal: React.FC<ConfirmationModalProps> = ({
@@ -20,7 +24,10 @@ const ConfirmationModal: React.FC<ConfirmationModalProps> = ({
   message,
   confirmText = 'Delete',
   cancelText = 'Cancel',
-  type = 'danger'
+  type = 'danger',
+  children,
+  closeOnConfirm = true,
+  confirmDisabled = false
 }) => {
   if (!isOpen) return null;
 
@@ -77,6 +84,7 @@ const ConfirmationModal: React.FC<ConfirmationModalProps> = ({
         
         <div className="p-6">
           <p className="text-gray-700">{message}</p>
+          {children}
         </div>
         
         <div className="p-6 border-t border-gray-200 flex justify-end space-x-3">
@@ -89,9 +97,10 @@ const ConfirmationModal: React.FC<ConfirmationModalProps> = ({
           <button
             onClick={() => {
               onConfirm();
-              onClose();
+              if (closeOnConfirm) onClose();
             }}
-            className={`px-4 py-2 rounded-lg transition-colors ${styles.confirmButton}`}
+            disabled={confirmDisabled}
+            className={`px-4 py-2 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${styles.confirmButton}`}
           >
             {confirmText}
           </button>
@@ -28,6 +28,7 @@ import RiskMatrixWidget from './RiskMatrixWidget';
 import SecurityStatusWidget from './SecurityStatusWidget';
 import PersonnelStatusWidget from './PersonnelStatusWidget';
 import ExternalEventsWidget from './ExternalEventsWidget';
+import OverdueRiskReviewsWidget from './OverdueRiskReviewsWidget';
 
 interface WidgetConfig {
   id: string;
@@ -174,6 +175,16 @@ const SortableWidget: React.FC<SortableWidgetProps> = ({ id, type, onRemove, onC
             dragHandleProps={{ ...attributes, ...listeners }}
           />
         );
+      case 'overdueRiskReviews':
+        return (
+          <OverdueRiskReviewsWidget
+            onRemove={() => onRemove(id)}
+            onCollapse={() => onCollapse(id)}
+            isCollapsed={isCollapsed}
+            className={className}
+            dragHandleProps={{ ...attributes, ...listeners }}
+          />
+        );
       default:
         return <div>Unknown widget type: {type}</div>;
     }
@@ -199,7 +210,8 @@ const DashboardLayout: React.FC = () => {
     { id: 'risk-matrix', type: 'riskMatrix', title: 'Risk Matrix', size: 'medium', position: 7, visible: true, collapsed: false },
     { id: 'security-status', type: 'securityStatus', title: 'Security Status', size: 'medium', position: 8, visible: true, collapsed: false },
     { id: 'personnel-status', type: 'personnelStatus', title: 'Personnel Status', size: 'medium', position: 9, visible: true, collapsed: false },
-    { id: 'external-events', type: 'externalEvents', title: 'External Events', size: 'full', position: 10, visible: true, collapsed: false }
+    { id: 'external-events', type: 'externalEvents', title: 'External Events', size: 'full', position: 10, visible: true, collapsed: false },
+    { id: 'overdue-risk-reviews', type: 'overdueRiskReviews', title: 'Overdue Risk Reviews', size: 'medium', position: 11, visible: true, collapsed: false }
   ];
 
   // Load widget configuration from localStorage or use defaults
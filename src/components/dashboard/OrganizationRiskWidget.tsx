@@ -53,7 +53,7 @@ const OrganizationRiskWidget: React.FC<OrganizationRiskWidgetProps> = ({
           { data: travelPlans }
         ] = await Promise.all([
           supabase.from('assets').select('*').eq('organization_id', organization.id),
-          supabase.from('personnel_details').select('*').eq('organization_id', organization.id),
+          supabase.from('personnel_directory').select('*').eq('organization_id', organization.id),
           supabase.from('incident_reports').select('*').eq('organization_id', organization.id),
           supabase.from('risks').select('*').eq('organization_id', organization.id),
           supabase.from('travel_plans').select('*').eq('organization_id', organization.id)
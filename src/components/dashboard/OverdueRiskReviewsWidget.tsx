@@ -0,0 +1,91 @@
+import React from 'react';
+import { CalendarClock, User, ArrowUpCircle } from 'lucide-react';
+import DashboardWidget from './DashboardWidget';
+import { useOverdueRiskReviews } from '../../hooks/useRiskReviews';
+import { getDaysOverdue } from '../../utils/riskReviews';
+import { Link } from 'react-router-dom';
+
+interface OverdueRiskReviewsWidgetProps {
+  onRemove?: () => void;
+  onCollapse?: () => void;
+  isCollapsed?: boolean;
+  className?: string;
+  dragHandleProps?: any;
+  limit?: number;
+}
+
+const escalationLabels = ['', 'Escalated to managers', 'Escalated to admins'];
+
+const OverdueRiskReviewsWidget: React.FC<OverdueRiskReviewsWidgetProps> = ({
+  onRemove,
+  onCollapse,
+  isCollapsed = false,
+  className = '',
+  dragHandleProps,
+  limit = 5
+}) => {
+  const { reviews, userNames, loading, error } = useOverdueRiskReviews();
+
+  return (
+    <DashboardWidget
+      title="Overdue Risk Reviews"
+      icon={<CalendarClock className="w-5 h-5 text-red-500" />}
+      isLoading={loading}
+      error={error}
+      onRemove={onRemove}
+      onCollapse={onCollapse}
+      isCollapsed={isCollapsed}
+      className={className}
+      dragHandleProps={dragHandleProps}
+    >
+      <div className="space-y-3">
+        {reviews.length === 0 ? (
+          <div className="text-center py-4">
+            <p className="text-gray-500">No risk reviews are overdue</p>
+          </div>
+        ) : (
+          reviews.slice(0, limit).map(review => {
+            const daysOverdue = getDaysOverdue(review);
+
+            return (
+              <div key={review.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors">
+                <div>
+                  <h4 className="font-medium text-gray-900">{review.risk?.title || 'Unknown risk'}</h4>
+                  <div className="flex items-center text-sm text-gray-600">
+                    <User className="w-3 h-3 mr-1" />
+                    {review.owner_user_id ? userNames[review.owner_user_id] || 'Unknown User' : 'Unassigned'}
+                  </div>
+                  {review.escalation_level > 0 && (
+                    <div className="flex items-center text-xs text-orange-600 mt-1">
+                      <ArrowUpCircle className="w-3 h-3 mr-1" />
+                      {escalationLabels[Math.min(review.escalation_level, escalationLabels.length - 1)]}
+                    </div>
+                  )}
+                </div>
+                <div className="flex flex-col items-end">
+                  <span className="font-bold text-red-600">{daysOverdue}d</span>
+                  <span className="text-xs text-gray-500">due {new Date(review.due_at).toLocaleDateString()}</span>
+                </div>
+              </div>
+            );
+          })
+        )}
+
+        {reviews.length > limit && (
+          <p className="text-xs text-gray-500 text-center">and {reviews.length - limit} more</p>
+        )}
+
+        <div className="pt-2 text-center">
+          <Link
+            to="/dashboard/risks"
+            className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+          >
+            View All Risks
+          </Link>
+        </div>
+      </div>
+    </DashboardWidget>
+  );
+};
+
+export default OverdueRiskReviewsWidget;
@@ -175,7 +175,7 @@ const OverviewDashboard: React.FC<OverviewDashboardProps> = ({ score, previousSc
 
       // Fetch personnel for overview
       const { data: personnel, error: personnelError } = await supabase
-        .from('personnel_details')
+        .from('personnel_directory')
         .select('*')
         .limit(4);
 
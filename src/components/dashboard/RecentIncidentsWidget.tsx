@@ -1,7 +1,10 @@
 import React from 'react';
-import { AlertCircle, MapPin, Clock, User, Shield } from 'lucide-react';
+import { AlertCircle, MapPin, Clock, User, Shield, Timer } from 'lucide-react';
 import DashboardWidget from './DashboardWidget';
 import { useIncidents } from '../../hooks/useIncidents';
+import { useAuth } from '../../hooks/useAuth';
+import { getStatusBadgeClass, resolveIncidentWorkflow } from '../../utils/incidentWorkflow';
+import { isSlaBreached } from '../../utils/incidentSla';
 import { Link } from 'react-router-dom';
 
 interface RecentIncidentsWidgetProps {
@@ -22,6 +25,8 @@ const RecentIncidentsWidget: React.FC<RecentIncidentsWidgetProps> = ({
   limit = 5
 }) => {
   const { incidents, loading, error } = useIncidents();
+  const { organization } = useAuth();
+  const workflow = resolveIncidentWorkflow(organization?.settings);
   
   // Sort incidents by date (most recent first) and take the most recent ones
   const recentIncidents = React.useMemo(() => {
@@ -42,14 +47,7 @@ const RecentIncidentsWidget: React.FC<RecentIncidentsWidgetProps> = ({
     }
   };
   
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'Open': return 'bg-red-100 text-red-700';
-      case 'In Progress': return 'bg-yellow-100 text-yellow-700';
-      case 'Closed': return 'bg-green-100 text-green-700';
-      default: return 'bg-gray-100 text-gray-700';
-    }
-  };
+  const getStatusColor = (status: string) => getStatusBadgeClass(workflow, status);
   
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -85,6 +83,12 @@ const RecentIncidentsWidget: React.FC<RecentIncidentsWidgetProps> = ({
                   <span className={`text-xs px-2 py-0.5 rounded-full ${getStatusColor(incident.status)}`}>
                     {incident.status}
                   </span>
+                  {isSlaBreached(incident) && (
+                    <span className="flex items-center text-xs px-2 py-0.5 rounded-full bg-red-600 text-white" title="SLA breached">
+                      <Timer className="w-3 h-3 mr-1" />
+                      SLA
+                    </span>
+                  )}
                 </div>
               </div>
               
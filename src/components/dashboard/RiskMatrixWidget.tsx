@@ -1,7 +1,11 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { AlertTriangle } from 'lucide-react';
 import DashboardWidget from './DashboardWidget';
 import { useRisks } from '../../hooks/useRisks';
+import { useAuth } from '../../hooks/useAuth';
+import { getRiskLevel } from '../../utils/riskScoring';
+import { getCategoryAppetite, needsTreatmentDecision, resolveRiskAppetite } from '../../utils/riskAppetite';
+import { RiskCategory, riskCategories, riskCategoryLabels } from '../../utils/riskReviews';
 
 interface RiskMatrixWidgetProps {
   onRemove?: () => void;
@@ -19,6 +23,14 @@ const RiskMatrixWidget: React.FC<RiskMatrixWidgetProps> = ({
   dragHandleProps
 }) => {
   const { risks, loading, error } = useRisks();
+  const { organization } = useAuth();
+  const [category, setCategory] = useState<RiskCategory | 'all'>('all');
+  const appetite = resolveRiskAppetite(organization?.settings);
+  const limits = category === 'all'
+    ? { appetite: appetite.defaultAppetite, tolerance: appetite.defaultTolerance }
+    : getCategoryAppetite(appetite, category);
+  const shownRisks = category === 'all' ? risks : risks.filter(risk => risk.category === category);
+  const undecidedCount = shownRisks.filter(risk => needsTreatmentDecision(appetite, risk)).length;
   
   // Calculate risk matrix data
   const getMatrixData = () => {
@@ -26,7 +38,7 @@ const RiskMatrixWidget: React.FC<RiskMatrixWidgetProps> = ({
     const matrix: number[][] = Array(5).fill(0).map(() => Array(5).fill(0));
     
     // Map risk impact and likelihood to matrix positions
-    risks.forEach(risk => {
+    shownRisks.forEach(risk => {
       let impactIndex: number;
       let likelihoodIndex: number;
       
@@ -60,19 +72,40 @@ const RiskMatrixWidget: React.FC<RiskMatrixWidgetProps> = ({
   const getCellColor = (impactIndex: number, likelihoodIndex: number) => {
     const riskScore = (impactIndex + 1) * (likelihoodIndex + 1);
     
-    if (riskScore <= 4) return 'bg-green-100 hover:bg-green-200';
-    if (riskScore <= 9) return 'bg-yellow-100 hover:bg-yellow-200';
-    if (riskScore <= 16) return 'bg-orange-100 hover:bg-orange-200';
-    return 'bg-red-100 hover:bg-red-200';
+    switch (getRiskLevel(riskScore, appetite.bands)) {
+      case 'Low': return 'bg-green-100 hover:bg-green-200';
+      case 'Medium': return 'bg-yellow-100 hover:bg-yellow-200';
+      case 'High': return 'bg-orange-100 hover:bg-orange-200';
+      default: return 'bg-red-100 hover:bg-red-200';
+    }
   };
   
   const getCellTextColor = (impactIndex: number, likelihoodIndex: number) => {
     const riskScore = (impactIndex + 1) * (likelihoodIndex + 1);
     
-    if (riskScore <= 4) return 'text-green-800';
-    if (riskScore <= 9) return 'text-yellow-800';
-    if (riskScore <= 16) return 'text-orange-800';
-    return 'text-red-800';
+    switch (getRiskLevel(riskScore, appetite.bands)) {
+      case 'Low': return 'text-green-800';
+      case 'Medium': return 'text-yellow-800';
+      case 'High': return 'text-orange-800';
+      default: return 'text-red-800';
+    }
+  };
+
+  // Appetite and tolerance lines run along the edges where cell scores cross the limit
+  const getLineStyle = (impactIndex: number, likelihoodIndex: number): React.CSSProperties => {
+    const scoreAt = (impact: number, likelihood: number) => (impact + 1) * (likelihood + 1);
+    const crosses = (limit: number, impact: number, likelihood: number) =>
+      impact >= 0 && likelihood >= 0 && scoreAt(impactIndex, likelihoodIndex) > limit && scoreAt(impact, likelihood) <= limit;
+    const lineFor = (impact: number, likelihood: number) => {
+      if (crosses(limits.tolerance, impact, likelihood)) return '2px solid #dc2626';
+      if (crosses(limits.appetite, impact, likelihood)) return '2px dashed #2563eb';
+      return undefined;
+    };
+
+    return {
+      borderLeft: lineFor(impactIndex, likelihoodIndex - 1),
+      borderBottom: lineFor(impactIndex - 1, likelihoodIndex)
+    };
   };
   
   const matrixData = getMatrixData();
@@ -92,6 +125,24 @@ const RiskMatrixWidget: React.FC<RiskMatrixWidgetProps> = ({
       dragHandleProps={dragHandleProps}
     >
       <div className="flex flex-col">
+        <div className="flex items-center justify-between mb-3">
+          <select
+            value={category}
+            onChange={(e) => setCategory(e.target.value as RiskCategory | 'all')}
+            className="px-2 py-1 border border-gray-300 rounded-lg text-xs focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="all">All categories</option>
+            {riskCategories.map(option => (
+              <option key={option} value={option}>{riskCategoryLabels[option]}</option>
+            ))}
+          </select>
+          {undecidedCount > 0 && (
+            <span className="text-xs font-medium text-red-600">
+              {undecidedCount} above tolerance without a decision
+            </span>
+          )}
+        </div>
+
         <div className="flex">
           {/* Empty top-left cell */}
           <div className="w-24 h-10 flex-shrink-0"></div>
@@ -120,6 +171,7 @@ const RiskMatrixWidget: React.FC<RiskMatrixWidgetProps> = ({
                 <div 
                   key={`cell-${impactIndex}-${likelihoodIndex}`}
                   className={`flex-1 aspect-square flex items-center justify-center border border-white ${getCellColor(4 - impactIndex, likelihoodIndex)}`}
+                  style={getLineStyle(4 - impactIndex, likelihoodIndex)}
                 >
                   <span className={`text-sm font-bold ${getCellTextColor(4 - impactIndex, likelihoodIndex)}`}>
                     {count > 0 ? count : ''}
@@ -150,8 +202,20 @@ const RiskMatrixWidget: React.FC<RiskMatrixWidgetProps> = ({
           </div>
         </div>
         
+        <div className="mt-2 flex justify-center space-x-4 text-xs text-gray-600">
+          <div className="flex items-center space-x-2">
+            <div className="w-4 border-t-2 border-dashed border-blue-600"></div>
+            <span>Appetite ({limits.appetite})</span>
+          </div>
+          <div className="flex items-center space-x-2">
+            <div className="w-4 border-t-2 border-red-600"></div>
+            <span>Tolerance ({limits.tolerance})</span>
+          </div>
+        </div>
+        
         <div className="mt-2 text-xs text-gray-500 text-center">
           <p>Impact (vertical) × Likelihood (horizontal)</p>
+          <p>Cells show inherent scores; appetite and tolerance apply to residual scores</p>
         </div>
       </div>
     </DashboardWidget>
@@ -2,6 +2,8 @@ import React from 'react';
 import { AlertTriangle } from 'lucide-react';
 import DashboardWidget from './DashboardWidget';
 import { useIncidents } from '../../hooks/useIncidents';
+import { useAuth } from '../../hooks/useAuth';
+import { isClosedStatus, resolveIncidentWorkflow } from '../../utils/incidentWorkflow';
 
 interface ThreatLevelWidgetProps {
   onRemove?: () => void;
@@ -26,14 +28,19 @@ const ThreatLevelWidget: React.FC<ThreatLevelWidgetProps> = ({
   dragHandleProps
 }) => {
   const { incidents, loading, error } = useIncidents();
+  const { organization } = useAuth();
   
   // Calculate threat levels from incidents
   const threatLevels = React.useMemo(() => {
+    // Only incidents that are not in a closed state of the workflow still pose a threat
+    const workflow = resolveIncidentWorkflow(organization?.settings);
+    const activeIncidents = incidents.filter(i => !isClosedStatus(workflow, i.status));
+
     // Count incidents by severity
-    const criticalCount = incidents.filter(i => i.severity === 'Critical').length;
-    const highCount = incidents.filter(i => i.severity === 'High').length;
-    const mediumCount = incidents.filter(i => i.severity === 'Medium').length;
-    const lowCount = incidents.filter(i => i.severity === 'Low').length;
+    const criticalCount = activeIncidents.filter(i => i.severity === 'Critical').length;
+    const highCount = activeIncidents.filter(i => i.severity === 'High').length;
+    const mediumCount = activeIncidents.filter(i => i.severity === 'Medium').length;
+    const lowCount = activeIncidents.filter(i => i.severity === 'Low').length;
     
     // Generate trend indicators (in a real app, this would compare to historical data)
     const criticalTrend = criticalCount > 2 ? '+2' : criticalCount > 0 ? '+1' : '0';
@@ -67,7 +74,7 @@ const ThreatLevelWidget: React.FC<ThreatLevelWidgetProps> = ({
         trend: lowTrend
       }
     ];
-  }, [incidents]);
+  }, [incidents, organization?.settings]);
   
   return (
     <DashboardWidget
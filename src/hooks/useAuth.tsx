@@ -1,7 +1,11 @@
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase, Database } from '../lib/supabase';
 import * as authService from '../services/authService';
+import { PasswordPolicy } from '../utils/passwordPolicy';
+import { reauthPermissions, resolveSessionPolicy, SessionEndReason } from '../utils/sessionPolicy';
+import { useSessionPolicy } from './useSessionPolicy';
+import ReauthModal from '../components/auth/ReauthModal';
 
 type UserProfile = Database['public']['Tables']['user_profiles']['Row'];
 type Organization = Database['public']['Tables']['organizations']['Row'];
@@ -12,17 +16,30 @@ interface AuthContextType {
   organization: Organization | null;
   session: Session | null;
   loading: boolean;
-  signIn: (email: string, password: string, rememberMe?: boolean) => Promise<{ error?: string; requiresTwoFactor?: boolean }>;
-  signUp: (email: string, password: string, fullName: string, organizationId?: string) => Promise<{ error?: string }>;
+  sessionEndReason: SessionEndReason;
+  signIn: (email: string, password: string, rememberMe?: boolean) => Promise<{
+    error?: string;
+    requiresTwoFactor?: boolean;
+    passwordExpired?: boolean;
+    policy?: PasswordPolicy;
+  }>;
+  signInWithSso: (email: string) => Promise<{ error?: string }>;
+  completeSsoSignIn: (code: string, state: string) => Promise<{ error?: string }>;
+  signUp: (email: string, password: string, fullName: string, invitationCode?: string) => Promise<{ error?: string }>;
   signOut: () => Promise<void>;
   resetPassword: (email: string) => Promise<{ error?: string }>;
   updatePassword: (password: string) => Promise<{ error?: string }>;
-  verifyTwoFactor: (token: string) => Promise<{ error?: string }>;
-  setupTwoFactor: () => Promise<{ secret: string; qrCode: string; backupCodes: string[] }>;
+  changeExpiredPassword: (email: string, currentPassword: string, password: string, code?: string) => Promise<{ error?: string }>;
+  verifyTwoFactor: (email: string, password: string, token: string, method?: 'totp' | 'backup') => Promise<{ error?: string; remainingBackupCodes?: number | null }>;
+  setupTwoFactor: () => Promise<{ secret: string; qrCode: string }>;
   enableTwoFactor: (token: string) => Promise<{ error?: string; backupCodes: string[] }>;
   disableTwoFactor: (password: string)=> Promise<{ error?: string }>;
+  getBackupCodeStatus: () => Promise<{ error?: string; remainingBackupCodes?: number }>;
+  regenerateBackupCodes: (token: string) => Promise<{ error?: string; backupCodes?: string[] }>;
+  permissions: string[];
   hasPermission: (permission: string) => boolean;
   hasRole: (role: string | string[]) => boolean;
+  requireReauth: (permission: string) => Promise<boolean>;
   refreshProfile: () => Promise<void>;
   joinOrganization: (invitationCode: string) => Promise<{ error?: string; organization?: { id: string; name: string } }>;
   getInvitationDetails: (invitationCode: string) => Promise<{ error?: string; organizationId?: string; organizationName?: string }>;
@@ -38,58 +55,19 @@ export const useAuth = () => {
   return context;
 };
 
-// Role-based permissions
-const ROLE_PERMISSIONS = {
-  super_admin: [
-    'users.create', 'users.read', 'users.update', 'users.delete',
-    'roles.assign', 'roles.revoke',
-    'assets.create', 'assets.read', 'assets.update', 'assets.delete',
-    'incidents.create', 'incidents.read', 'incidents.update', 'incidents.delete',
-    'risks.create', 'risks.read', 'risks.update', 'risks.delete',
-    'personnel.create', 'personnel.read', 'personnel.update', 'personnel.delete',
-    'travel.create', 'travel.read', 'travel.update', 'travel.delete',
-    'audit.read', 'system.configure',
-    'organizations.create', 'organizations.read', 'organizations.update', 'organizations.delete',
-    'mitigations.create', 'mitigations.read', 'mitigations.update', 'mitigations.delete'
-  ],
-  admin: [
-    'users.read', 'users.update', 'users.create',
-    'assets.create', 'assets.read', 'assets.update', 'assets.delete',
-    'incidents.create', 'incidents.read', 'incidents.update', 'incidents.delete',
-    'risks.create', 'risks.read', 'risks.update', 'risks.delete',
-    'personnel.create', 'personnel.read', 'personnel.update', 'personnel.delete',
-    'travel.create', 'travel.read', 'travel.update', 'travel.delete',
-    'audit.read',
-    'organizations.read',
-    'mitigations.create', 'mitigations.read', 'mitigations.update', 'mitigations.delete'
-  ],
-  manager: [
-    'assets.read', 'assets.update',
-    'incidents.create', 'incidents.read', 'incidents.update',
-    'risks.create', 'risks.read', 'risks.update',
-    'personnel.read', 'personnel.update',
-    'travel.create', 'travel.read', 'travel.update',
-    'mitigations.read', 'mitigations.create'
-  ],
-  user: [
-    'assets.read',
-    'incidents.read',
-    'risks.read',
-    'personnel.read',
-    'travel.create', 'travel.read',
-    'mitigations.read'
-  ]
-};
-
 // Helper function to wait for a specified duration
 const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [permissions, setPermissions] = useState<string[]>([]);
   const [organization, setOrganization] = useState<Organization | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
+  const [sessionEndReason, setSessionEndReason] = useState<SessionEndReason>(null);
+  const [reauthRequest, setReauthRequest] = useState<{ permission: string; resolve: (confirmed: boolean) => void } | null>(null);
+  const lastReauthAt = useRef<number | null>(null);
 
   useEffect(() => {
     const handleAuthChange = async (event?: string, session?: Session | null) => {
@@ -112,6 +90,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
             orgId: fetchedProfile?.organization_id
           });
           setProfile(fetchedProfile);
+          setPermissions(fetchedProfile ? await fetchPermissions() : []);
           
           if (fetchedProfile?.organization_id) {
             console.log('🏢 Fetching organization:', fetchedProfile.organization_id);
@@ -139,7 +118,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
             await logAuditEvent('logout', user.id, profile.organization_id);
           }
           console.log('🚫 No user in session, clearing profile and organization');
+          lastReauthAt.current = null;
           setProfile(null);
+          setPermissions([]);
           setOrganization(null);
         }
       } catch (error) {
@@ -288,6 +269,23 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  /**
+   * Effective permissions come from the database (the custom role if one is assigned, otherwise the
+   * system role) so the UI gates match what row level security enforces
+   */
+  const fetchPermissions = async (): Promise<string[]> => {
+    console.log('🔍 Fetching effective permissions');
+    const { data, error } = await supabase.rpc('get_my_permissions');
+
+    if (error) {
+      console.error('❌ Error fetching permissions:', error);
+      return [];
+    }
+
+    console.log('✅ Permissions fetched:', { count: (data as string[] | null)?.length ?? 0 });
+    return (data as string[] | null) || [];
+  };
+
   const fetchOrganization = async (organizationId: string): Promise<Organization | null> => {
     console.log('🔍 Fetching organization:', { organizationId });
     try {
@@ -361,8 +359,16 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  // Sessions are only tracked once the user belongs to an organization with a policy
+  useSessionPolicy(organization ? user?.id : undefined, organization?.settings, async (reason) => {
+    console.log('⏱️ useAuth: Session ended by policy:', { reason });
+    setSessionEndReason(reason);
+    await authService.signOut();
+  });
+
   const signIn = async (email: string, password: string, rememberMe = false) => {
     console.log('🔑 useAuth: Attempting sign in:', { email, rememberMe });
+    setSessionEndReason(null);
     
     const { data, error } = await authService.signInWithPassword(email, password);
     
@@ -371,6 +377,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       return { error };
     }
     
+    if (data?.passwordExpired) {
+      console.log('🔑 useAuth: Password expired, returning to UI');
+      return { passwordExpired: true, requiresTwoFactor: data.requiresTwoFactor, policy: data.policy };
+    }
+
     if (data?.requiresTwoFactor) {
       console.log('🔒 useAuth: 2FA required, returning to UI');
       return { requiresTwoFactor: true };
@@ -380,10 +391,40 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return {};
   };
 
-  const signUp = async (email: string, password: string, fullName: string, organizationId?: string) => {
-    console.log('📝 useAuth: Attempting sign up:', { email, fullName, hasOrganizationId: !!organizationId });
+  const signInWithSso = async (email: string) => {
+    console.log('🔑 useAuth: Starting SSO sign in:', { email });
+    setSessionEndReason(null);
+
+    const { data, error } = await authService.startSsoSignIn(email, `${window.location.origin}/auth/sso/callback`);
+
+    if (error || !data) {
+      console.warn('❌ useAuth: SSO sign in could not start:', error);
+      return { error: error || 'Failed to start single sign-on' };
+    }
+
+    // The identity provider redirects back to SsoCallback
+    window.location.assign(data.authorizationUrl);
+    return {};
+  };
+
+  const completeSsoSignIn = async (code: string, state: string) => {
+    console.log('🔑 useAuth: Completing SSO sign in');
+
+    const { error } = await authService.completeSsoSignIn(code, state);
+
+    if (error) {
+      console.warn('❌ useAuth: SSO sign in failed:', error);
+      return { error };
+    }
+
+    console.log('✅ useAuth: SSO sign in successful');
+    return {};
+  };
+
+  const signUp = async (email: string, password: string, fullName: string, invitationCode?: string) => {
+    console.log('📝 useAuth: Attempting sign up:', { email, fullName, hasInvitationCode: !!invitationCode });
     
-    const { data, error } = await authService.signUp(email, password, fullName, organizationId);
+    const { data, error } = await authService.signUp(email, password, fullName, invitationCode);
     
     if (error) {
       console.warn('❌ useAuth: Signup failed:', error);
@@ -432,25 +473,39 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     
     console.log('✅ useAuth: Password updated successfully');
     
-    if (profile?.organization_id) {
-      await logAuditEvent('password_updated', user?.id, profile.organization_id);
-    }
+    // The change-password function audits the change and resets password_changed_at
+    await refreshProfile();
     
     return {};
   };
 
-  const verifyTwoFactor = async (token: string) => {
+  // Nothing to refresh: no session exists until the user signs in with the new password
+  const changeExpiredPassword = async (email: string, currentPassword: string, password: string, code?: string) => {
+    console.log('🔄 useAuth: Replacing expired password');
+
+    const { error } = await authService.changeExpiredPassword(email, currentPassword, password, code);
+
+    if (error) {
+      console.warn('❌ useAuth: Expired password change failed:', error);
+      return { error };
+    }
+
+    console.log('✅ useAuth: Expired password replaced');
+    return {};
+  };
+
+  const verifyTwoFactor = async (email: string, password: string, token: string, method: 'totp' | 'backup' = 'totp') => {
     console.log('🔒 useAuth: Verifying 2FA token');
     
-    const { error } = await authService.verifyTwoFactor(token);
+    const { data, error } = await authService.verifyTwoFactor(email, password, token, method);
     
-    if (error) {
+    if (error || !data) {
       console.warn('❌ useAuth: 2FA verification failed:', error);
-      return { error };
+      return { error: error || 'Invalid two-factor code' };
     }
     
     console.log('✅ useAuth: 2FA verification successful');
-    return {};
+    return { remainingBackupCodes: data.remainingBackupCodes };
   };
 
   const setupTwoFactor = async () => {
@@ -475,7 +530,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       return { error: 'You must be logged in to enable 2FA' };
     }
     
-    const { data, error } = await authService.enableTwoFactor(user.id, token);
+    const { data, error } = await authService.enableTwoFactor(token);
     
     if (error || !data) {
       console.error('❌ useAuth: Error enabling 2FA:', error);
@@ -501,7 +556,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       return { error: 'You must be logged in to disable 2FA' };
     }
     
-    const { error } = await authService.disableTwoFactor(user.id, password);
+    const { error } = await authService.disableTwoFactor(password);
     
     if (error) {
       console.error('❌ useAuth: Error disabling 2FA:', error);
@@ -519,6 +574,32 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return {};
   };
 
+  // Stable, since components load the status in an effect
+  const getBackupCodeStatus = useCallback(async () => {
+    const { data, error } = await authService.getBackupCodeStatus();
+    
+    if (error || !data) {
+      console.warn('❌ useAuth: Error loading backup code status:', error);
+      return { error: error || 'Failed to load backup code status' };
+    }
+    
+    return { remainingBackupCodes: data.remainingBackupCodes };
+  }, []);
+
+  const regenerateBackupCodes = async (token: string) => {
+    console.log('🔒 useAuth: Regenerating backup codes');
+    
+    const { data, error } = await authService.regenerateBackupCodes(token);
+    
+    if (error || !data) {
+      console.error('❌ useAuth: Error regenerating backup codes:', error);
+      return { error: error || 'Failed to regenerate backup codes' };
+    }
+    
+    console.log('✅ useAuth: Backup codes regenerated');
+    return { backupCodes: data.backupCodes };
+  };
+
   const getInvitationDetails = async (invitationCode: string) => {
     console.log('🔍 useAuth: Getting invitation details for code:', invitationCode);
     
@@ -574,8 +655,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const hasPermission = (permission: string): boolean => {
     if (!profile) return false;
-    const rolePermissions = ROLE_PERMISSIONS[profile.role] || [];
-    return rolePermissions.includes(permission);
+    return permissions.includes(permission);
   };
 
   const hasRole = (role: string | string[]): boolean => {
@@ -598,6 +678,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           orgId: fetchedProfile?.organization_id
         });
         setProfile(fetchedProfile);
+        setPermissions(fetchedProfile ? await fetchPermissions() : []);
         
         if (fetchedProfile?.organization_id) {
           console.log('🏢 useAuth: Refreshing organization:', fetchedProfile.organization_id);
@@ -623,27 +704,73 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  /**
+   * Resolves true once the user may perform an action gated by step-up re-authentication,
+   * prompting for the password or a TOTP code unless a recent re-authentication still applies
+   */
+  const requireReauth = (permission: string): Promise<boolean> => {
+    const policy = resolveSessionPolicy(organization?.settings);
+
+    if (!policy.requireReauth || !reauthPermissions.includes(permission)) {
+      return Promise.resolve(true);
+    }
+
+    // Leave a minute of slack so the server-side window has not closed by the time the request lands
+    if (lastReauthAt.current && Date.now() - lastReauthAt.current < (policy.reauthWindow - 1) * 60 * 1000) {
+      return Promise.resolve(true);
+    }
+
+    return new Promise(resolve => setReauthRequest({ permission, resolve }));
+  };
+
+  const completeReauth = (confirmed: boolean) => {
+    if (confirmed) {
+      lastReauthAt.current = Date.now();
+    }
+    reauthRequest?.resolve(confirmed);
+    setReauthRequest(null);
+  };
+
   const value = {
     user,
     profile,
     organization,
     session,
     loading,
+    sessionEndReason,
     signIn,
+    signInWithSso,
+    completeSsoSignIn,
     signUp,
     signOut,
     resetPassword,
     updatePassword,
+    changeExpiredPassword,
     verifyTwoFactor,
     setupTwoFactor,
     enableTwoFactor,
     disableTwoFactor,
+    getBackupCodeStatus,
+    regenerateBackupCodes,
+    permissions,
     hasPermission,
     hasRole,
+    requireReauth,
     refreshProfile,
     joinOrganization,
     getInvitationDetails
   };
 
-  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+      <ReauthModal
+        isOpen={!!reauthRequest}
+        permission={reauthRequest?.permission || null}
+        twoFactorEnabled={!!profile?.two_factor_enabled}
+        onSuccess={() => completeReauth(true)}
+        onCancel={() => completeReauth(false)}
+      />
+    </AuthContext.Provider>
+  );
 };
\ No newline at end of file
@@ -0,0 +1,158 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase, Database } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import { CostAsset, IncidentCost } from '../utils/incidentCosts';
+
+type IncidentCostInsert = Database['public']['Tables']['incident_costs']['Insert'];
+
+export type CostDraft = Pick<IncidentCostInsert, 'category' | 'amount' | 'currency' | 'asset_id' | 'description' | 'incurred_on'>;
+
+/**
+ * Cost lines of the organization's incidents, plus its assets to tie costs and impact to
+ */
+export function useIncidentCosts() {
+  const [costs, setCosts] = useState<IncidentCost[]>([]);
+  const [assets, setAssets] = useState<CostAsset[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { user, profile } = useAuth();
+
+  const organizationId = profile?.organization_id;
+
+  const fetchCosts = useCallback(async () => {
+    if (!organizationId) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [costResult, assetResult] = await Promise.all([
+        supabase.from('incident_costs').select('*').order('incurred_on', { ascending: false }),
+        supabase.from('assets').select('id, name, type').order('name')
+      ]);
+
+      for (const result of [costResult, assetResult]) {
+        if (result.error) {
+          throw result.error;
+        }
+      }
+
+      setCosts(costResult.data || []);
+      setAssets(assetResult.data || []);
+    } catch (err) {
+      console.error('Error fetching incident costs:', err);
+      setError('Failed to load incident costs');
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId]);
+
+  useEffect(() => {
+    fetchCosts();
+  }, [fetchCosts]);
+
+  const saveCost = async (incidentId: string, draft: CostDraft, id?: string) => {
+    if (!organizationId) return null;
+
+    try {
+      setError(null);
+
+      const { data, error } = id
+        ? await supabase
+          .from('incident_costs')
+          .update({ ...draft, updated_at: new Date().toISOString() })
+          .eq('id', id)
+          .select()
+          .single()
+        : await supabase
+          .from('incident_costs')
+          .insert({ ...draft, incident_id: incidentId, organization_id: organizationId, created_by: user?.id || null })
+          .select()
+          .single();
+
+      if (error) {
+        throw error;
+      }
+
+      setCosts(prev => id ? prev.map(cost => cost.id === id ? data : cost) : [data, ...prev]);
+
+      await logAuditEvent(id ? 'incident_cost_updated' : 'incident_cost_added', incidentId, {
+        cost_id: data.id,
+        category: data.category,
+        amount: data.amount,
+        currency: data.currency,
+        asset_id: data.asset_id
+      });
+
+      return data as IncidentCost;
+    } catch (err) {
+      console.error('Error saving incident cost:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save the cost');
+      throw err;
+    }
+  };
+
+  const deleteCost = async (cost: IncidentCost) => {
+    try {
+      setError(null);
+
+      const { error } = await supabase
+        .from('incident_costs')
+        .delete()
+        .eq('id', cost.id);
+
+      if (error) {
+        throw error;
+      }
+
+      setCosts(prev => prev.filter(item => item.id !== cost.id));
+
+      await logAuditEvent('incident_cost_removed', cost.incident_id, {
+        cost_id: cost.id,
+        category: cost.category,
+        amount: cost.amount,
+        currency: cost.currency
+      });
+    } catch (err) {
+      console.error('Error removing incident cost:', err);
+      setError(err instanceof Error ? err.message : 'Failed to remove the cost');
+      throw err;
+    }
+  };
+
+  const logAuditEvent = async (action: string, incidentId: string, details?: Record<string, unknown>) => {
+    if (!organizationId) {
+      console.warn('Cannot log audit event: no organization ID available');
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from('audit_logs').insert({
+        user_id: user?.id || null,
+        organization_id: organizationId,
+        action,
+        resource_type: 'incident',
+        resource_id: incidentId,
+        details,
+        ip_address: null,
+        user_agent: navigator.userAgent
+      });
+
+      if (error) {
+        console.error('Error logging audit event:', error);
+      }
+    } catch (error) {
+      console.error('Unexpected error logging audit event:', error);
+    }
+  };
+
+  return {
+    costs,
+    assets,
+    loading,
+    error,
+    fetchCosts,
+    saveCost,
+    deleteCost
+  };
+}
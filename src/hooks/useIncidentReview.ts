@@ -0,0 +1,425 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase, Database } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import { createEventNotification } from '../services/notificationService';
+import { AppliedMitigation, MitigationFormData } from '../types/mitigation';
+
+type IncidentReport = Database['public']['Tables']['incident_reports']['Row'];
+type IncidentReview = Database['public']['Tables']['incident_reviews']['Row'];
+type IncidentReviewUpdate = Database['public']['Tables']['incident_reviews']['Update'];
+type ReviewAction = Database['public']['Tables']['incident_review_actions']['Row'];
+type ReviewActionUpdate = Database['public']['Tables']['incident_review_actions']['Update'];
+type Risk = Database['public']['Tables']['risks']['Row'];
+type RiskInsert = Database['public']['Tables']['risks']['Insert'];
+
+export type SpawnedRisk = Pick<Risk, 'id' | 'title' | 'status' | 'risk_score'>;
+
+export type NewReviewAction = Pick<ReviewAction, 'description' | 'owner_user_id' | 'due_date'>;
+
+export type ReviewRiskDraft = Pick<RiskInsert, 'title' | 'description' | 'category' | 'impact' | 'likelihood' | 'owner_user_id'>;
+
+/**
+ * The post-incident review of one incident with its action items and the risks raised from it
+ */
+export function useIncidentReview(incident: IncidentReport | null) {
+  const [review, setReview] = useState<IncidentReview | null>(null);
+  const [actions, setActions] = useState<ReviewAction[]>([]);
+  const [spawnedRisks, setSpawnedRisks] = useState<SpawnedRisk[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { user, profile } = useAuth();
+
+  const incidentId = incident?.id;
+
+  const fetchReview = useCallback(async () => {
+    if (!incidentId) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data: reviewData, error: reviewError } = await supabase
+        .from('incident_reviews')
+        .select('*')
+        .eq('incident_id', incidentId)
+        .maybeSingle();
+
+      if (reviewError) {
+        throw reviewError;
+      }
+
+      setReview(reviewData);
+
+      if (reviewData) {
+        const { data: actionData, error: actionError } = await supabase
+          .from('incident_review_actions')
+          .select('*')
+          .eq('review_id', reviewData.id)
+          .order('created_at');
+
+        if (actionError) {
+          throw actionError;
+        }
+
+        setActions(actionData || []);
+      } else {
+        setActions([]);
+      }
+
+      const { data: riskData, error: riskError } = await supabase
+        .from('risks')
+        .select('id, title, status, risk_score')
+        .eq('source_incident_id', incidentId)
+        .order('created_at');
+
+      if (riskError) {
+        throw riskError;
+      }
+
+      setSpawnedRisks(riskData || []);
+    } catch (err) {
+      console.error('Error fetching post-incident review:', err);
+      setError('Failed to load the post-incident review');
+    } finally {
+      setLoading(false);
+    }
+  }, [incidentId]);
+
+  useEffect(() => {
+    fetchReview();
+  }, [fetchReview]);
+
+  const startReview = async () => {
+    if (!incident) return null;
+
+    try {
+      setError(null);
+
+      // The database checks the incident is a closed High or Critical one
+      const { data, error } = await supabase
+        .from('incident_reviews')
+        .insert({ organization_id: incident.organization_id, incident_id: incident.id })
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      setReview(data);
+      setActions([]);
+
+      await logAuditEvent('incident_review_started', 'incident', incident.id, {
+        incident_title: incident.title,
+        review_id: data.id
+      });
+
+      return data as IncidentReview;
+    } catch (err) {
+      console.error('Error starting post-incident review:', err);
+      setError(err instanceof Error ? err.message : 'Failed to start the post-incident review');
+      throw err;
+    }
+  };
+
+  /**
+   * Saves the analysis. Setting the status to completed needs a root cause; the database stamps
+   * who completed the review and when
+   */
+  const saveReview = async (update: IncidentReviewUpdate) => {
+    if (!incident || !review) return null;
+
+    try {
+      setError(null);
+
+      const { data, error } = await supabase
+        .from('incident_reviews')
+        .update(update)
+        .eq('id', review.id)
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      setReview(data);
+
+      if (update.status && update.status !== review.status) {
+        await logAuditEvent(update.status === 'completed' ? 'incident_review_completed' : 'incident_review_reopened', 'incident', incident.id, {
+          incident_title: incident.title,
+          review_id: data.id,
+          root_cause: data.root_cause
+        });
+      }
+
+      return data as IncidentReview;
+    } catch (err) {
+      console.error('Error saving post-incident review:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save the post-incident review');
+      throw err;
+    }
+  };
+
+  const addAction = async (action: NewReviewAction) => {
+    if (!incident || !review) return null;
+
+    try {
+      setError(null);
+
+      const { data, error } = await supabase
+        .from('incident_review_actions')
+        .insert({ ...action, organization_id: review.organization_id, review_id: review.id })
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      setActions(prev => [...prev, data]);
+
+      await logAuditEvent('incident_review_action_added', 'incident', incident.id, {
+        incident_title: incident.title,
+        action_id: data.id,
+        owner_user_id: data.owner_user_id,
+        due_date: data.due_date
+      });
+
+      if (data.owner_user_id && data.owner_user_id !== user?.id) {
+        await createEventNotification({
+          organizationId: review.organization_id,
+          userId: data.owner_user_id,
+          eventType: 'created',
+          resourceType: 'incident',
+          resourceId: incident.id,
+          resourceName: incident.title,
+          details: `You own a post-incident review action${data.due_date ? ` due ${new Date(data.due_date).toLocaleDateString()}` : ''}: ${data.description}`,
+          priority: 'medium'
+        });
+      }
+
+      return data as ReviewAction;
+    } catch (err) {
+      console.error('Error adding review action:', err);
+      setError(err instanceof Error ? err.message : 'Failed to add the action item');
+      throw err;
+    }
+  };
+
+  const updateAction = async (id: string, update: ReviewActionUpdate) => {
+    if (!incident) return null;
+
+    try {
+      setError(null);
+
+      const previous = actions.find(action => action.id === id);
+
+      const { data, error } = await supabase
+        .from('incident_review_actions')
+        .update(update)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      setActions(prev => prev.map(action => action.id === id ? data : action));
+
+      await logAuditEvent('incident_review_action_updated', 'incident', incident.id, {
+        incident_title: incident.title,
+        action_id: id,
+        previous_status: previous?.status,
+        status: data.status,
+        owner_user_id: data.owner_user_id,
+        due_date: data.due_date
+      });
+
+      return data as ReviewAction;
+    } catch (err) {
+      console.error('Error updating review action:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update the action item');
+      throw err;
+    }
+  };
+
+  const deleteAction = async (id: string) => {
+    if (!incident) return;
+
+    try {
+      setError(null);
+
+      const deleted = actions.find(action => action.id === id);
+
+      const { error } = await supabase
+        .from('incident_review_actions')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        throw error;
+      }
+
+      setActions(prev => prev.filter(action => action.id !== id));
+
+      await logAuditEvent('incident_review_action_deleted', 'incident', incident.id, {
+        incident_title: incident.title,
+        action_id: id,
+        description: deleted?.description
+      });
+    } catch (err) {
+      console.error('Error deleting review action:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete the action item');
+      throw err;
+    }
+  };
+
+  /**
+   * Raises a risk from the review's findings, traced back to the incident through source_incident_id
+   */
+  const createRisk = async (draft: ReviewRiskDraft) => {
+    if (!incident) return null;
+
+    try {
+      setError(null);
+
+      const { data, error } = await supabase
+        .from('risks')
+        .insert({
+          ...draft,
+          organization_id: incident.organization_id,
+          status: 'identified',
+          department: incident.department,
+          identified_by_user_id: user?.id || null,
+          source_incident_id: incident.id
+        })
+        .select('id, title, status, risk_score')
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      setSpawnedRisks(prev => [...prev, data]);
+
+      await logAuditEvent('risk_created', 'risk', data.id, {
+        risk_title: draft.title,
+        risk_category: draft.category,
+        source_type: 'incident',
+        source_id: incident.id,
+        review_id: review?.id || null
+      });
+
+      if (draft.owner_user_id) {
+        await createEventNotification({
+          organizationId: incident.organization_id,
+          userId: draft.owner_user_id,
+          eventType: 'created',
+          resourceType: 'risk',
+          resourceId: data.id,
+          resourceName: draft.title,
+          details: `Raised from the post-incident review of "${incident.title}".`,
+          priority: 'medium'
+        });
+      }
+
+      return data as SpawnedRisk;
+    } catch (err) {
+      console.error('Error creating risk from review:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create the risk');
+      throw err;
+    }
+  };
+
+  /**
+   * Adds a mitigation to the organization's library and returns it ready to apply to the incident
+   */
+  const createMitigation = async (mitigation: MitigationFormData): Promise<AppliedMitigation | null> => {
+    if (!incident) return null;
+
+    try {
+      setError(null);
+
+      const { data, error } = await supabase
+        .from('mitigations')
+        .insert({ ...mitigation, organization_id: incident.organization_id, is_custom: true })
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      await logAuditEvent('mitigation_created', 'incident', incident.id, {
+        incident_title: incident.title,
+        mitigation_id: data.id,
+        mitigation_name: data.name,
+        review_id: review?.id || null
+      });
+
+      return {
+        mitigation_id: data.id,
+        name: data.name,
+        description: data.description || undefined,
+        category: data.category,
+        applied_risk_reduction_score: data.default_risk_reduction_score,
+        notes: 'Added from the post-incident review',
+        applied_at: new Date().toISOString(),
+        applied_by: user?.id
+      };
+    } catch (err) {
+      console.error('Error creating mitigation from review:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create the mitigation');
+      throw err;
+    }
+  };
+
+  const logAuditEvent = async (
+    action: string,
+    resourceType: 'incident' | 'risk',
+    resourceId: string,
+    details?: Record<string, unknown>
+  ) => {
+    if (!profile?.organization_id) {
+      console.warn('Cannot log audit event: no organization ID available');
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from('audit_logs').insert({
+        user_id: user?.id || null,
+        organization_id: profile.organization_id,
+        action,
+        resource_type: resourceType,
+        resource_id: resourceId,
+        details,
+        ip_address: null,
+        user_agent: navigator.userAgent
+      });
+
+      if (error) {
+        console.error('Error logging audit event:', error);
+      }
+    } catch (error) {
+      console.error('Unexpected error logging audit event:', error);
+    }
+  };
+
+  return {
+    review,
+    actions,
+    spawnedRisks,
+    loading,
+    error,
+    fetchReview,
+    startReview,
+    saveReview,
+    addAction,
+    updateAction,
+    deleteAction,
+    createRisk,
+    createMitigation
+  };
+}
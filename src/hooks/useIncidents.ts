@@ -1,11 +1,14 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase, Database } from '../lib/supabase';
 import { useAuth } from './useAuth';
-import { createEventNotification } from '../services/notificationService';
+import { createEventNotification, createMentionNotifications } from '../services/notificationService';
+import { TransitionRequiredField } from '../utils/incidentWorkflow';
+import { AuthoredTimelineEntry, NewTimelineEntry } from '../types/incidentTimeline';
 
 type IncidentReport = Database['public']['Tables']['incident_reports']['Row'];
 type IncidentInsert = Database['public']['Tables']['incident_reports']['Insert'];
 type IncidentUpdate = Database['public']['Tables']['incident_reports']['Update'];
+type IncidentLink = Database['public']['Tables']['incident_links']['Row'];
 
 export function useIncidents() {
   const [incidents, setIncidents] = useState<IncidentReport[]>([]);
@@ -80,6 +83,11 @@ export function useIncidents() {
           details: `${incidentData.severity} severity incident reported in ${incidentData.department}.`,
           priority: priority as any
         });
+
+        // The database assigns new incidents to whoever is on call for their department and location
+        if (data[0].assigned_to) {
+          await notifyAssignees(data[0], `You are on call and were assigned this ${data[0].severity} incident.`);
+        }
       }
       
       return data?.[0] || null;
@@ -178,6 +186,424 @@ export function useIncidents() {
     }
   };
 
+  /**
+   * Moves an incident along the organization's workflow. The database checks the transition, its
+   * required fields and role guard, and records the timeline entry and audit log itself
+   */
+  const transitionIncident = async (
+    id: string,
+    toStatus: string,
+    fields: Partial<Record<TransitionRequiredField, string | null>> = {}
+  ) => {
+    try {
+      setError(null);
+
+      const previous = incidents.find(incident => incident.id === id);
+
+      // The workflow checks assigned_to, which the database derives from the assignee's user id
+      const { assigned_to: assigneeId, ...otherFields } = fields;
+
+      const { data, error } = await supabase
+        .from('incident_reports')
+        .update({
+          ...otherFields,
+          ...(assigneeId !== undefined ? { assigned_user_id: assigneeId || null } : {}),
+          status: toStatus
+        })
+        .eq('id', id)
+        .select('*, assets(name, type, location)')
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      setIncidents(prev => prev.map(incident => incident.id === id ? data : incident));
+
+      if (data.assigned_user_id && data.assigned_user_id !== previous?.assigned_user_id) {
+        await notifyAssignees(data, `You were assigned this ${data.severity} incident.`);
+      }
+
+      const priority: 'critical' | 'high' | 'medium' | 'low' = data.severity === 'Critical' ? 'critical' :
+                      data.severity === 'High' ? 'high' :
+                      data.severity === 'Medium' ? 'medium' : 'low';
+
+      await createEventNotification({
+        organizationId: profile?.organization_id || '',
+        userId: null, // Send to all users in the organization
+        eventType: 'updated',
+        resourceType: 'incident',
+        resourceId: data.id,
+        resourceName: data.title,
+        details: `Status changed from ${previous?.status} to ${toStatus}.`,
+        priority
+      });
+
+      return data as IncidentReport;
+    } catch (err) {
+      console.error('Error changing incident status:', err);
+      setError(err instanceof Error ? err.message : 'Failed to change incident status');
+      throw err;
+    }
+  };
+
+  /**
+   * Stops the acknowledgment SLA timer; the database stamps the time and the acknowledging user
+   */
+  const acknowledgeIncident = async (id: string) => {
+    try {
+      setError(null);
+
+      const { data, error } = await supabase
+        .from('incident_reports')
+        .update({ acknowledged_by: user?.id })
+        .eq('id', id)
+        .select('*, assets(name, type, location)')
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      setIncidents(prev => prev.map(incident => incident.id === id ? data : incident));
+
+      await logAuditEvent('incident_acknowledged', id, {
+        incident_title: data.title,
+        incident_severity: data.severity,
+        acknowledged_at: data.acknowledged_at,
+        acknowledge_due_at: data.acknowledge_due_at
+      });
+
+      return data as IncidentReport;
+    } catch (err) {
+      console.error('Error acknowledging incident:', err);
+      setError(err instanceof Error ? err.message : 'Failed to acknowledge incident');
+      throw err;
+    }
+  };
+
+  /**
+   * Accepts a portal report into normal triage; the database stamps who verified it and when
+   */
+  const verifyIncident = async (id: string) => {
+    try {
+      setError(null);
+
+      const { data, error } = await supabase
+        .from('incident_reports')
+        .update({ verified: true })
+        .eq('id', id)
+        .select('*, assets(name, type, location)')
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      setIncidents(prev => prev.map(incident => incident.id === id ? data : incident));
+
+      await logAuditEvent('incident_verified', id, {
+        incident_title: data.title,
+        incident_source: data.source,
+        verified_at: data.verified_at
+      });
+
+      return data as IncidentReport;
+    } catch (err) {
+      console.error('Error verifying incident:', err);
+      setError(err instanceof Error ? err.message : 'Failed to verify incident');
+      throw err;
+    }
+  };
+
+  /**
+   * Appends a note, action or external contact to an incident's timeline and notifies the users it
+   * mentions. Entries cannot be edited; a correction is a new entry that points at the original
+   */
+  const addTimelineEntry = async (id: string, entry: NewTimelineEntry) => {
+    try {
+      setError(null);
+
+      const { data: created, error: entryError } = await supabase.rpc('add_incident_timeline_entry', {
+        p_incident_id: id,
+        p_type: entry.type,
+        p_body: entry.body,
+        p_mentions: entry.mentions,
+        p_contact: entry.contact || null,
+        p_corrects: entry.corrects || null
+      });
+
+      if (entryError) {
+        throw entryError;
+      }
+
+      const { data, error } = await supabase
+        .from('incident_reports')
+        .select('*, assets(name, type, location)')
+        .eq('id', id)
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      setIncidents(prev => prev.map(incident => incident.id === id ? data : incident));
+
+      const timelineEntry = created as AuthoredTimelineEntry;
+
+      await logAuditEvent(entry.corrects ? 'incident_timeline_entry_corrected' : 'incident_timeline_entry_added', id, {
+        incident_title: data.title,
+        entry_id: timelineEntry.id,
+        entry_type: timelineEntry.type,
+        corrects: timelineEntry.corrects || null,
+        mentions: timelineEntry.mentions || []
+      });
+
+      await createMentionNotifications({
+        organizationId: data.organization_id,
+        authorId: user?.id || null,
+        authorName: timelineEntry.user,
+        mentionedUserIds: timelineEntry.mentions || [],
+        resourceType: 'incident',
+        resourceId: id,
+        resourceName: data.title,
+        excerpt: timelineEntry.body
+      });
+
+      return data as IncidentReport;
+    } catch (err) {
+      console.error('Error adding timeline entry:', err);
+      setError(err instanceof Error ? err.message : 'Failed to add timeline entry');
+      throw err;
+    }
+  };
+
+  /**
+   * Records a relationship between two incidents, read from source to target
+   */
+  const linkIncidents = async (
+    sourceId: string,
+    targetId: string,
+    linkType: IncidentLink['link_type'],
+    note?: string
+  ) => {
+    try {
+      setError(null);
+
+      const { data, error } = await supabase
+        .from('incident_links')
+        .insert({
+          organization_id: profile?.organization_id || '',
+          source_incident_id: sourceId,
+          target_incident_id: targetId,
+          link_type: linkType,
+          note: note || null,
+          created_by: user?.id || null
+        })
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') {
+          throw new Error('These incidents are already linked this way.');
+        }
+        throw error;
+      }
+
+      await logAuditEvent('incident_linked', sourceId, {
+        link_id: data.id,
+        link_type: linkType,
+        target_incident_id: targetId
+      });
+
+      return data as IncidentLink;
+    } catch (err) {
+      console.error('Error linking incidents:', err);
+      setError(err instanceof Error ? err.message : 'Failed to link incidents');
+      throw err;
+    }
+  };
+
+  const unlinkIncidents = async (link: IncidentLink) => {
+    try {
+      setError(null);
+
+      const { error } = await supabase
+        .from('incident_links')
+        .delete()
+        .eq('id', link.id);
+
+      if (error) {
+        throw error;
+      }
+
+      await logAuditEvent('incident_unlinked', link.source_incident_id, {
+        link_id: link.id,
+        link_type: link.link_type,
+        target_incident_id: link.target_incident_id
+      });
+    } catch (err) {
+      console.error('Error unlinking incidents:', err);
+      setError(err instanceof Error ? err.message : 'Failed to unlink incidents');
+      throw err;
+    }
+  };
+
+  /**
+   * Folds duplicates into a master incident. The database combines their timelines, involved
+   * parties, documents and mitigations, links them as duplicates and leaves them as redirects;
+   * it also writes the audit log
+   */
+  const mergeIncidents = async (masterId: string, duplicateIds: string[]) => {
+    try {
+      setError(null);
+
+      const { error: mergeError } = await supabase.rpc('merge_incidents', {
+        p_master_id: masterId,
+        p_duplicate_ids: duplicateIds
+      });
+
+      if (mergeError) {
+        throw mergeError;
+      }
+
+      const { data, error } = await supabase
+        .from('incident_reports')
+        .select('*, assets(name, type, location)')
+        .in('id', [masterId, ...duplicateIds]);
+
+      if (error) {
+        throw error;
+      }
+
+      const merged = new Map((data || []).map(incident => [incident.id, incident]));
+      setIncidents(prev => prev.map(incident => merged.get(incident.id) || incident));
+
+      return (merged.get(masterId) || null) as IncidentReport | null;
+    } catch (err) {
+      console.error('Error merging incidents:', err);
+      setError(err instanceof Error ? err.message : 'Failed to merge incidents');
+      throw err;
+    }
+  };
+
+  /**
+   * Assigns an incident to a user, a team or both; null clears that part. The database keeps
+   * assigned_to in step, starts the SLA assignment timer and records the timeline entry
+   */
+  const assignIncident = async (id: string, assignee: { userId: string | null; teamId: string | null }) => {
+    try {
+      setError(null);
+
+      const previous = incidents.find(incident => incident.id === id);
+
+      const { data, error } = await supabase
+        .from('incident_reports')
+        .update({ assigned_user_id: assignee.userId, assigned_team_id: assignee.teamId })
+        .eq('id', id)
+        .select('*, assets(name, type, location)')
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      setIncidents(prev => prev.map(incident => incident.id === id ? data : incident));
+
+      await logAuditEvent('incident_assigned', id, {
+        incident_title: data.title,
+        previous_user_id: previous?.assigned_user_id,
+        previous_team_id: previous?.assigned_team_id,
+        assigned_user_id: data.assigned_user_id,
+        assigned_team_id: data.assigned_team_id,
+        assigned_to: data.assigned_to
+      });
+
+      if (data.assigned_user_id !== previous?.assigned_user_id || data.assigned_team_id !== previous?.assigned_team_id) {
+        await notifyAssignees(data, `You were assigned this ${data.severity} incident.`);
+      }
+
+      return data as IncidentReport;
+    } catch (err) {
+      console.error('Error assigning incident:', err);
+      setError(err instanceof Error ? err.message : 'Failed to assign incident');
+      throw err;
+    }
+  };
+
+  /**
+   * Attaches one of the organization's playbooks to an incident that has none yet. The database
+   * snapshots its checklist and records the timeline entry
+   */
+  const applyPlaybook = async (id: string, playbookId: string) => {
+    try {
+      setError(null);
+
+      const { data, error } = await supabase
+        .from('incident_reports')
+        .update({ playbook_id: playbookId })
+        .eq('id', id)
+        .select('*, assets(name, type, location)')
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      setIncidents(prev => prev.map(incident => incident.id === id ? data : incident));
+
+      await logAuditEvent('incident_playbook_applied', id, {
+        incident_title: data.title,
+        playbook_id: playbookId,
+        playbook_name: data.playbook?.name
+      });
+
+      return data as IncidentReport;
+    } catch (err) {
+      console.error('Error applying playbook:', err);
+      setError(err instanceof Error ? err.message : 'Failed to apply the playbook');
+      throw err;
+    }
+  };
+
+  /**
+   * Ticks or unticks a playbook checklist step; the database stamps who completed it, adds the
+   * timeline entry and writes the audit log
+   */
+  const completePlaybookStep = async (id: string, stepId: string, completed: boolean) => {
+    try {
+      setError(null);
+
+      const { error: stepError } = await supabase.rpc('set_incident_playbook_step', {
+        p_incident_id: id,
+        p_step_id: stepId,
+        p_completed: completed
+      });
+
+      if (stepError) {
+        throw stepError;
+      }
+
+      const { data, error } = await supabase
+        .from('incident_reports')
+        .select('*, assets(name, type, location)')
+        .eq('id', id)
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      setIncidents(prev => prev.map(incident => incident.id === id ? data : incident));
+
+      return data as IncidentReport;
+    } catch (err) {
+      console.error('Error updating playbook step:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update the checklist');
+      throw err;
+    }
+  };
+
   const deleteIncident = async (id: string) => {
     try {
       setLoading(true);
@@ -196,6 +622,10 @@ export function useIncidents() {
         .eq('id', id);
 
       if (error) {
+        // Evidence references the incident and must be removed deliberately first
+        if (error.code === '23503') {
+          throw new Error('This incident has evidence attached. Delete the evidence before deleting the incident.');
+        }
         throw error;
       }
 
@@ -233,6 +663,36 @@ export function useIncidents() {
     }
   };
 
+  /**
+   * Tells the assigned user, or every member of the assigned team when no user is named, about an
+   * assignment. The person who made it is not notified
+   */
+  const notifyAssignees = async (incident: IncidentReport, details: string) => {
+    let recipients = incident.assigned_user_id ? [incident.assigned_user_id] : [];
+
+    if (recipients.length === 0 && incident.assigned_team_id) {
+      const { data: team } = await supabase
+        .from('responder_teams')
+        .select('member_user_ids')
+        .eq('id', incident.assigned_team_id)
+        .maybeSingle();
+      recipients = team?.member_user_ids || [];
+    }
+
+    for (const recipient of recipients.filter(recipientId => recipientId !== user?.id)) {
+      await createEventNotification({
+        organizationId: incident.organization_id,
+        userId: recipient,
+        eventType: 'alert',
+        resourceType: 'incident',
+        resourceId: incident.id,
+        resourceName: incident.title,
+        details,
+        priority: incident.severity === 'Critical' ? 'critical' : incident.severity === 'High' ? 'high' : 'medium'
+      });
+    }
+  };
+
   const logAuditEvent = async (action: string, resourceId?: string, details?: Record<string, any>) => {
     if (!profile?.organization_id) {
       console.warn('Cannot log audit event: no organization ID available');
@@ -266,6 +726,16 @@ export function useIncidents() {
     fetchIncidents,
     addIncident,
     updateIncident,
+    transitionIncident,
+    acknowledgeIncident,
+    verifyIncident,
+    addTimelineEntry,
+    linkIncidents,
+    unlinkIncidents,
+    mergeIncidents,
+    assignIncident,
+    applyPlaybook,
+    completePlaybookStep,
     deleteIncident,
     logAuditEvent
   };
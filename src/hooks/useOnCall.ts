@@ -0,0 +1,315 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase, Database } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import { MentionableUser } from '../utils/incidentTimeline';
+import { OnCallOverride, OnCallSchedule, ResponderTeam } from '../utils/incidentAssignment';
+
+type ResponderTeamInsert = Database['public']['Tables']['responder_teams']['Insert'];
+type OnCallScheduleInsert = Database['public']['Tables']['on_call_schedules']['Insert'];
+
+export type TeamDraft = Pick<ResponderTeamInsert, 'name' | 'description' | 'department' | 'member_user_ids'>;
+
+export type ScheduleDraft = Pick<
+  OnCallScheduleInsert,
+  'name' | 'team_id' | 'department' | 'region' | 'participant_user_ids' | 'rotation_starts_at' | 'shift_hours' | 'auto_assign'
+>;
+
+export type OverrideDraft = Pick<OnCallOverride, 'schedule_id' | 'user_id' | 'starts_at' | 'ends_at' | 'reason'>;
+
+/**
+ * Responder teams, on-call schedules and their overrides for the current organization, plus the
+ * organization's users to pick responders from
+ */
+export function useOnCall() {
+  const [teams, setTeams] = useState<ResponderTeam[]>([]);
+  const [schedules, setSchedules] = useState<OnCallSchedule[]>([]);
+  const [overrides, setOverrides] = useState<OnCallOverride[]>([]);
+  const [users, setUsers] = useState<MentionableUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { user, profile } = useAuth();
+
+  const organizationId = profile?.organization_id;
+
+  const fetchOnCall = useCallback(async () => {
+    if (!organizationId) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [teamResult, scheduleResult, overrideResult, userResult] = await Promise.all([
+        supabase.from('responder_teams').select('*').order('name'),
+        supabase.from('on_call_schedules').select('*').order('name'),
+        // Past overrides no longer affect anyone
+        supabase.from('on_call_overrides').select('*').gte('ends_at', new Date().toISOString()).order('starts_at'),
+        supabase.from('user_profiles').select('user_id, full_name').eq('organization_id', organizationId).order('full_name')
+      ]);
+
+      for (const result of [teamResult, scheduleResult, overrideResult, userResult]) {
+        if (result.error) {
+          throw result.error;
+        }
+      }
+
+      setTeams(teamResult.data || []);
+      setSchedules(scheduleResult.data || []);
+      setOverrides(overrideResult.data || []);
+      setUsers(userResult.data || []);
+    } catch (err) {
+      console.error('Error fetching on-call schedules:', err);
+      setError('Failed to load on-call schedules');
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId]);
+
+  useEffect(() => {
+    fetchOnCall();
+  }, [fetchOnCall]);
+
+  const saveTeam = async (draft: TeamDraft, id?: string) => {
+    if (!organizationId) return null;
+
+    try {
+      setError(null);
+
+      const { data, error } = id
+        ? await supabase
+          .from('responder_teams')
+          .update({ ...draft, updated_at: new Date().toISOString() })
+          .eq('id', id)
+          .select()
+          .single()
+        : await supabase
+          .from('responder_teams')
+          .insert({ ...draft, organization_id: organizationId, created_by: user?.id || null })
+          .select()
+          .single();
+
+      if (error) {
+        if (error.code === '23505') {
+          throw new Error('A team with this name already exists');
+        }
+        throw error;
+      }
+
+      setTeams(prev => id ? prev.map(team => team.id === id ? data : team) : [...prev, data]);
+
+      await logAuditEvent(id ? 'responder_team_updated' : 'responder_team_created', 'responder_team', data.id, {
+        team_name: data.name,
+        member_count: data.member_user_ids.length
+      });
+
+      return data as ResponderTeam;
+    } catch (err) {
+      console.error('Error saving responder team:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save the team');
+      throw err;
+    }
+  };
+
+  const deleteTeam = async (id: string) => {
+    try {
+      setError(null);
+
+      const deleted = teams.find(team => team.id === id);
+
+      const { error } = await supabase
+        .from('responder_teams')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        throw error;
+      }
+
+      setTeams(prev => prev.filter(team => team.id !== id));
+      // Schedules owned by the team are kept without a team
+      setSchedules(prev => prev.map(schedule => schedule.team_id === id ? { ...schedule, team_id: null } : schedule));
+
+      await logAuditEvent('responder_team_deleted', 'responder_team', id, { team_name: deleted?.name });
+    } catch (err) {
+      console.error('Error deleting responder team:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete the team');
+      throw err;
+    }
+  };
+
+  const saveSchedule = async (draft: ScheduleDraft, id?: string) => {
+    if (!organizationId) return null;
+
+    try {
+      setError(null);
+
+      const { data, error } = id
+        ? await supabase
+          .from('on_call_schedules')
+          .update({ ...draft, updated_at: new Date().toISOString() })
+          .eq('id', id)
+          .select()
+          .single()
+        : await supabase
+          .from('on_call_schedules')
+          .insert({ ...draft, organization_id: organizationId, created_by: user?.id || null })
+          .select()
+          .single();
+
+      if (error) {
+        throw error;
+      }
+
+      setSchedules(prev => id ? prev.map(schedule => schedule.id === id ? data : schedule) : [...prev, data]);
+
+      await logAuditEvent(id ? 'on_call_schedule_updated' : 'on_call_schedule_created', 'on_call_schedule', data.id, {
+        schedule_name: data.name,
+        department: data.department,
+        region: data.region,
+        participant_count: data.participant_user_ids.length,
+        shift_hours: data.shift_hours,
+        auto_assign: data.auto_assign
+      });
+
+      return data as OnCallSchedule;
+    } catch (err) {
+      console.error('Error saving on-call schedule:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save the schedule');
+      throw err;
+    }
+  };
+
+  const deleteSchedule = async (id: string) => {
+    try {
+      setError(null);
+
+      const deleted = schedules.find(schedule => schedule.id === id);
+
+      const { error } = await supabase
+        .from('on_call_schedules')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        throw error;
+      }
+
+      setSchedules(prev => prev.filter(schedule => schedule.id !== id));
+      setOverrides(prev => prev.filter(override => override.schedule_id !== id));
+
+      await logAuditEvent('on_call_schedule_deleted', 'on_call_schedule', id, { schedule_name: deleted?.name });
+    } catch (err) {
+      console.error('Error deleting on-call schedule:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete the schedule');
+      throw err;
+    }
+  };
+
+  const addOverride = async (draft: OverrideDraft) => {
+    if (!organizationId) return null;
+
+    try {
+      setError(null);
+
+      const { data, error } = await supabase
+        .from('on_call_overrides')
+        .insert({ ...draft, organization_id: organizationId, created_by: user?.id || null })
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      setOverrides(prev => [...prev, data].sort((a, b) => a.starts_at.localeCompare(b.starts_at)));
+
+      await logAuditEvent('on_call_override_added', 'on_call_schedule', data.schedule_id, {
+        override_id: data.id,
+        user_id: data.user_id,
+        starts_at: data.starts_at,
+        ends_at: data.ends_at,
+        reason: data.reason
+      });
+
+      return data as OnCallOverride;
+    } catch (err) {
+      console.error('Error adding on-call override:', err);
+      setError(err instanceof Error ? err.message : 'Failed to add the override');
+      throw err;
+    }
+  };
+
+  const deleteOverride = async (override: OnCallOverride) => {
+    try {
+      setError(null);
+
+      const { error } = await supabase
+        .from('on_call_overrides')
+        .delete()
+        .eq('id', override.id);
+
+      if (error) {
+        throw error;
+      }
+
+      setOverrides(prev => prev.filter(item => item.id !== override.id));
+
+      await logAuditEvent('on_call_override_removed', 'on_call_schedule', override.schedule_id, {
+        override_id: override.id,
+        user_id: override.user_id,
+        starts_at: override.starts_at,
+        ends_at: override.ends_at
+      });
+    } catch (err) {
+      console.error('Error removing on-call override:', err);
+      setError(err instanceof Error ? err.message : 'Failed to remove the override');
+      throw err;
+    }
+  };
+
+  const logAuditEvent = async (
+    action: string,
+    resourceType: 'responder_team' | 'on_call_schedule',
+    resourceId: string,
+    details?: Record<string, unknown>
+  ) => {
+    if (!organizationId) {
+      console.warn('Cannot log audit event: no organization ID available');
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from('audit_logs').insert({
+        user_id: user?.id || null,
+        organization_id: organizationId,
+        action,
+        resource_type: resourceType,
+        resource_id: resourceId,
+        details,
+        ip_address: null,
+        user_agent: navigator.userAgent
+      });
+
+      if (error) {
+        console.error('Error logging audit event:', error);
+      }
+    } catch (error) {
+      console.error('Unexpected error logging audit event:', error);
+    }
+  };
+
+  return {
+    teams,
+    schedules,
+    overrides,
+    users,
+    loading,
+    error,
+    fetchOnCall,
+    saveTeam,
+    deleteTeam,
+    saveSchedule,
+    deleteSchedule,
+    addOverride,
+    deleteOverride
+  };
+}
@@ -3,7 +3,8 @@ import { supabase, Database } from '../lib/supabase';
 import { useAuth } from './useAuth';
 import { createEventNotification } from '../services/notificationService';
 
-type Personnel = Database['public']['Tables']['personnel_details']['Row'];
+// Reads go through the clearance-masked view; writes go to the table
+type Personnel = Database['public']['Views']['personnel_directory']['Row'];
 type PersonnelInsert = Database['public']['Tables']['personnel_details']['Insert'];
 type PersonnelUpdate = Database['public']['Tables']['personnel_details']['Update'];
 
@@ -20,7 +21,7 @@ export function usePersonnel() {
       
       // Include work_asset_id and date_of_birth in the select
       const { data, error: fetchError } = await supabase
-        .from('personnel_details')
+        .from('personnel_directory')
         .select('*, assets(name, type, location)')
         .order('created_at', { ascending: false });
 
@@ -41,21 +42,39 @@ export function usePersonnel() {
     fetchPersonnel();
   }, [fetchPersonnel]);
 
+  // authenticated cannot select the sensitive columns from personnel_details, so written rows are re-read from the view
+  const fetchPersonnelRecord = async (id: string): Promise<Personnel | null> => {
+    const { data, error: fetchError } = await supabase
+      .from('personnel_directory')
+      .select('*, assets(name, type, location)')
+      .eq('id', id)
+      .single();
+
+    if (fetchError) {
+      console.error('Error fetching personnel record:', fetchError);
+      return null;
+    }
+
+    return data;
+  };
+
   const addPersonnel = async (personnelData: PersonnelInsert) => {
     try {
       setLoading(true);
       setError(null);
 
-      const { data, error } = await supabase
+      const { data: inserted, error } = await supabase
         .from('personnel_details')
         .insert([personnelData])
-        .select();
+        .select('id');
 
       if (error) {
         throw error;
       }
 
-      setPersonnel(prev => [...(data || []), ...prev]);
+      const created = inserted?.[0] ? await fetchPersonnelRecord(inserted[0].id) : null;
+      const data = created ? [created] : [];
+      setPersonnel(prev => [...data, ...prev]);
       
       // Log the personnel creation in audit logs
       if (data?.[0]) {
@@ -103,16 +122,18 @@ export function usePersonnel() {
         .eq('id', id)
         .single();
 
-      const { data, error } = await supabase
+      const { error } = await supabase
         .from('personnel_details')
         .update(personnelData)
-        .eq('id', id)
-        .select();
+        .eq('id', id);
 
       if (error) {
         throw error;
       }
 
+      const updated = await fetchPersonnelRecord(id);
+      const data = updated ? [updated] : [];
+
       setPersonnel(prev => prev.map(person => person.id === id ? (data?.[0] || person) : person));
       
       // Log the personnel update in audit logs
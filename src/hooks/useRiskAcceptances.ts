@@ -0,0 +1,245 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase, Database } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import { createEventNotification } from '../services/notificationService';
+import { RiskAcceptance } from '../utils/riskAcceptance';
+
+type Risk = Database['public']['Tables']['risks']['Row'];
+type UserProfile = Database['public']['Tables']['user_profiles']['Row'];
+
+export type AcceptanceUser = Pick<UserProfile, 'user_id' | 'full_name' | 'role'>;
+
+export type RegisterAcceptance = RiskAcceptance & {
+  risk: Pick<Risk, 'id' | 'title' | 'category' | 'status' | 'residual_risk_score' | 'owner_user_id'> | null;
+};
+
+/**
+ * Acceptance requests for one risk, newest first, and the active users who could approve them
+ */
+export function useRiskAcceptances(risk: Risk | null) {
+  const [acceptances, setAcceptances] = useState<RiskAcceptance[]>([]);
+  const [users, setUsers] = useState<AcceptanceUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { user } = useAuth();
+
+  const riskId = risk?.id;
+
+  const fetchAcceptances = useCallback(async () => {
+    if (!riskId) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [
+        { data: acceptanceData, error: acceptanceError },
+        { data: userData, error: userError }
+      ] = await Promise.all([
+        supabase
+          .from('risk_acceptances')
+          .select('*')
+          .eq('risk_id', riskId)
+          .order('requested_at', { ascending: false }),
+        supabase
+          .from('user_profiles')
+          .select('user_id, full_name, role')
+          .eq('active', true)
+          .order('full_name')
+      ]);
+
+      if (acceptanceError) throw acceptanceError;
+      if (userError) throw userError;
+
+      setAcceptances(acceptanceData || []);
+      setUsers(userData || []);
+    } catch (err) {
+      console.error('Error fetching risk acceptances:', err);
+      setError('Failed to load risk acceptances');
+    } finally {
+      setLoading(false);
+    }
+  }, [riskId]);
+
+  useEffect(() => {
+    fetchAcceptances();
+  }, [fetchAcceptances]);
+
+  // The database checks the expiry against the band's maximum and that the approver is eligible
+  const requestAcceptance = async (justification: string, expiresAt: string, approverUserId: string) => {
+    if (!risk) return null;
+
+    try {
+      setError(null);
+
+      const { data, error } = await supabase.rpc('request_risk_acceptance', {
+        p_risk_id: risk.id,
+        p_justification: justification,
+        p_expires_at: expiresAt,
+        p_approver_user_id: approverUserId
+      });
+
+      if (error) throw error;
+
+      const acceptance = data as RiskAcceptance;
+
+      await createEventNotification({
+        organizationId: acceptance.organization_id,
+        userId: approverUserId,
+        eventType: 'created',
+        resourceType: 'risk',
+        resourceId: risk.id,
+        resourceName: risk.title,
+        details: `Your approval is requested to accept this ${acceptance.risk_level} risk until ${new Date(acceptance.expires_at).toLocaleDateString()}: ${acceptance.justification}`,
+        priority: acceptance.risk_level === 'Critical' || acceptance.risk_level === 'High' ? 'high' : 'medium'
+      });
+
+      await fetchAcceptances();
+      return acceptance;
+    } catch (err) {
+      console.error('Error requesting risk acceptance:', err);
+      setError(err instanceof Error ? err.message : 'Failed to request acceptance');
+      return null;
+    }
+  };
+
+  const decideAcceptance = async (acceptanceId: string, approve: boolean, notes: string) => {
+    if (!risk) return null;
+
+    try {
+      setError(null);
+
+      const { data, error } = await supabase.rpc('decide_risk_acceptance', {
+        p_acceptance_id: acceptanceId,
+        p_approve: approve,
+        p_notes: notes.trim() || null
+      });
+
+      if (error) throw error;
+
+      const acceptance = data as RiskAcceptance;
+
+      if (acceptance.requested_by && acceptance.requested_by !== user?.id) {
+        await createEventNotification({
+          organizationId: acceptance.organization_id,
+          userId: acceptance.requested_by,
+          eventType: approve ? 'approved' : 'rejected',
+          resourceType: 'risk',
+          resourceId: risk.id,
+          resourceName: risk.title,
+          details: approve
+            ? `The risk is accepted until ${new Date(acceptance.expires_at).toLocaleDateString()}`
+            : `The acceptance request was rejected: ${acceptance.decision_notes}`,
+          priority: 'medium'
+        });
+      }
+
+      await fetchAcceptances();
+      return acceptance;
+    } catch (err) {
+      console.error('Error deciding risk acceptance:', err);
+      setError(err instanceof Error ? err.message : 'Failed to record the decision');
+      return null;
+    }
+  };
+
+  return {
+    acceptances,
+    activeAcceptance: acceptances.find(acceptance => acceptance.status === 'pending' || acceptance.status === 'approved') || null,
+    users,
+    loading,
+    error,
+    fetchAcceptances,
+    requestAcceptance,
+    decideAcceptance
+  };
+}
+
+/**
+ * Acceptances across the register, soonest to expire first. Without history only current acceptances are
+ * listed
+ */
+export function useRiskAcceptanceRegister(includeHistory: boolean) {
+  const [acceptances, setAcceptances] = useState<RegisterAcceptance[]>([]);
+  const [userNames, setUserNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRegister = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      let query = supabase
+        .from('risk_acceptances')
+        .select('*')
+        .order('expires_at');
+
+      if (!includeHistory) {
+        query = query.eq('status', 'approved');
+      }
+
+      const { data: acceptanceData, error: acceptanceError } = await query;
+
+      if (acceptanceError) {
+        throw acceptanceError;
+      }
+
+      const riskIds = [...new Set((acceptanceData || []).map(acceptance => acceptance.risk_id))];
+      const risksById: Record<string, RegisterAcceptance['risk']> = {};
+
+      if (riskIds.length > 0) {
+        const { data: riskData, error: riskError } = await supabase
+          .from('risks')
+          .select('id, title, category, status, residual_risk_score, owner_user_id')
+          .in('id', riskIds);
+
+        if (riskError) {
+          throw riskError;
+        }
+
+        (riskData || []).forEach(risk => {
+          risksById[risk.id] = risk;
+        });
+      }
+
+      const register = (acceptanceData || []).map(acceptance => ({ ...acceptance, risk: risksById[acceptance.risk_id] || null }));
+      setAcceptances(register);
+
+      const userIds = [...new Set(
+        register
+          .flatMap(acceptance => [acceptance.requested_by, acceptance.approver_user_id, acceptance.decided_by, acceptance.risk?.owner_user_id])
+          .filter((id): id is string => !!id)
+      )];
+      if (userIds.length > 0) {
+        const { data: profileData, error: profileError } = await supabase
+          .from('user_profiles')
+          .select('user_id, full_name')
+          .in('user_id', userIds);
+
+        if (profileError) {
+          console.error('Error fetching user profiles:', profileError);
+        } else {
+          setUserNames(Object.fromEntries((profileData || []).map(profile => [profile.user_id, profile.full_name])));
+        }
+      }
+    } catch (err) {
+      console.error('Error fetching the acceptance register:', err);
+      setError('Failed to load accepted risks');
+    } finally {
+      setLoading(false);
+    }
+  }, [includeHistory]);
+
+  useEffect(() => {
+    fetchRegister();
+  }, [fetchRegister]);
+
+  return {
+    acceptances,
+    userNames,
+    loading,
+    error,
+    fetchRegister
+  };
+}
@@ -0,0 +1,117 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { RiskVersion } from '../utils/riskHistory';
+
+// Names of whoever changed or owned a risk in the given versions
+const fetchUserNames = async (versions: RiskVersion[]): Promise<Record<string, string>> => {
+  const userIds = new Set<string>();
+  versions.forEach(version => {
+    if (version.changed_by) userIds.add(version.changed_by);
+    if (version.snapshot.owner_user_id) userIds.add(version.snapshot.owner_user_id);
+  });
+
+  if (userIds.size === 0) {
+    return {};
+  }
+
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('user_id, full_name')
+    .in('user_id', Array.from(userIds));
+
+  if (error) {
+    console.error('Error fetching user profiles:', error);
+    return {};
+  }
+
+  return Object.fromEntries((data || []).map(profile => [profile.user_id, profile.full_name]));
+};
+
+/**
+ * Every recorded version of one risk, newest first
+ */
+export function useRiskHistory(riskId: string | null) {
+  const [versions, setVersions] = useState<RiskVersion[]>([]);
+  const [userNames, setUserNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(async () => {
+    if (!riskId) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error } = await supabase
+        .from('risk_versions')
+        .select('*')
+        .eq('risk_id', riskId)
+        .order('version', { ascending: false });
+
+      if (error) {
+        throw error;
+      }
+
+      setVersions(data || []);
+      setUserNames(await fetchUserNames(data || []));
+    } catch (err) {
+      console.error('Error fetching risk history:', err);
+      setError('Failed to load risk history');
+    } finally {
+      setLoading(false);
+    }
+  }, [riskId]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  return {
+    versions,
+    userNames,
+    loading,
+    error,
+    fetchHistory
+  };
+}
+
+/**
+ * The risk register as it was recorded at a point in time, e.g. at a past board meeting
+ */
+export function useRiskRegisterAsOf() {
+  const [versions, setVersions] = useState<RiskVersion[]>([]);
+  const [userNames, setUserNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRegister = useCallback(async (at: Date) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error } = await supabase.rpc('get_risk_register_as_of', { p_at: at.toISOString() });
+
+      if (error) {
+        throw error;
+      }
+
+      const register = (data || []) as RiskVersion[];
+      setVersions(register);
+      setUserNames(await fetchUserNames(register));
+    } catch (err) {
+      console.error('Error fetching risk register snapshot:', err);
+      setError('Failed to load the risk register for that date');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return {
+    versions,
+    userNames,
+    loading,
+    error,
+    fetchRegister
+  };
+}
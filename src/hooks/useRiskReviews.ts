@@ -0,0 +1,164 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase, Database } from '../lib/supabase';
+import { RiskReview } from '../utils/riskReviews';
+import { RiskReviewAttestation } from '../types/riskReview';
+
+type Risk = Database['public']['Tables']['risks']['Row'];
+
+export type OverdueRiskReview = RiskReview & {
+  risk: Pick<Risk, 'id' | 'title' | 'risk_score' | 'owner_user_id'> | null;
+};
+
+/**
+ * Periodic reviews of one risk, newest first
+ */
+export function useRiskReviews(riskId: string | null) {
+  const [reviews, setReviews] = useState<RiskReview[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReviews = useCallback(async () => {
+    if (!riskId) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error } = await supabase
+        .from('risk_reviews')
+        .select('*')
+        .eq('risk_id', riskId)
+        .order('due_at', { ascending: false });
+
+      if (error) {
+        throw error;
+      }
+
+      setReviews(data || []);
+    } catch (err) {
+      console.error('Error fetching risk reviews:', err);
+      setError('Failed to load risk reviews');
+    } finally {
+      setLoading(false);
+    }
+  }, [riskId]);
+
+  useEffect(() => {
+    fetchReviews();
+  }, [fetchReviews]);
+
+  // Completes the open review, or records an unscheduled one; the database checks the user may review the risk
+  const completeReview = async (attestation: RiskReviewAttestation, notes: string) => {
+    if (!riskId) return null;
+
+    try {
+      setError(null);
+
+      const { data, error } = await supabase.rpc('complete_risk_review', {
+        p_risk_id: riskId,
+        p_attestation: attestation,
+        p_notes: notes.trim() || null
+      });
+
+      if (error) {
+        throw error;
+      }
+
+      await fetchReviews();
+      return data as RiskReview;
+    } catch (err) {
+      console.error('Error completing risk review:', err);
+      setError(err instanceof Error ? err.message : 'Failed to complete the review');
+      return null;
+    }
+  };
+
+  return {
+    reviews,
+    pendingReview: reviews.find(review => review.status === 'pending') || null,
+    loading,
+    error,
+    fetchReviews,
+    completeReview
+  };
+}
+
+/**
+ * Open reviews that are past due, most overdue first
+ */
+export function useOverdueRiskReviews() {
+  const [reviews, setReviews] = useState<OverdueRiskReview[]>([]);
+  const [userNames, setUserNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchOverdueReviews = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data: reviewData, error: reviewError } = await supabase
+        .from('risk_reviews')
+        .select('*')
+        .eq('status', 'pending')
+        .lt('due_at', new Date().toISOString())
+        .order('due_at');
+
+      if (reviewError) {
+        throw reviewError;
+      }
+
+      const riskIds = (reviewData || []).map(review => review.risk_id);
+      const risksById: Record<string, OverdueRiskReview['risk']> = {};
+
+      if (riskIds.length > 0) {
+        const { data: riskData, error: riskError } = await supabase
+          .from('risks')
+          .select('id, title, risk_score, owner_user_id')
+          .in('id', riskIds);
+
+        if (riskError) {
+          throw riskError;
+        }
+
+        (riskData || []).forEach(risk => {
+          risksById[risk.id] = risk;
+        });
+      }
+
+      const overdue = (reviewData || []).map(review => ({ ...review, risk: risksById[review.risk_id] || null }));
+      setReviews(overdue);
+
+      const ownerIds = [...new Set(overdue.map(review => review.owner_user_id).filter((id): id is string => !!id))];
+      if (ownerIds.length > 0) {
+        const { data: profileData, error: profileError } = await supabase
+          .from('user_profiles')
+          .select('user_id, full_name')
+          .in('user_id', ownerIds);
+
+        if (profileError) {
+          console.error('Error fetching user profiles:', profileError);
+        } else {
+          setUserNames(Object.fromEntries((profileData || []).map(profile => [profile.user_id, profile.full_name])));
+        }
+      }
+    } catch (err) {
+      console.error('Error fetching overdue risk reviews:', err);
+      setError('Failed to load overdue risk reviews');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchOverdueReviews();
+  }, [fetchOverdueReviews]);
+
+  return {
+    reviews,
+    userNames,
+    loading,
+    error,
+    fetchOverdueReviews
+  };
+}
@@ -3,6 +3,7 @@ import { supabase, Database } from '../lib/supabase';
 import { useAuth } from './useAuth';
 import { AppliedMitigation } from '../types/mitigation';
 import { createEventNotification } from '../services/notificationService';
+import { RiskTreatmentDecision } from '../types/riskTreatment';
 
 type Risk = Database['public']['Tables']['risks']['Row'];
 type RiskInsert = Database['public']['Tables']['risks']['Insert'];
@@ -47,6 +48,9 @@ export function useRisks() {
         if (risk.identified_by_user_id && isValidUUID(risk.identified_by_user_id)) {
           userIds.add(risk.identified_by_user_id);
         }
+        if (risk.treatment_decided_by && isValidUUID(risk.treatment_decided_by)) {
+          userIds.add(risk.treatment_decided_by);
+        }
       });
 
       // Fetch user profiles for these user IDs
@@ -285,6 +289,49 @@ export function useRisks() {
     }
   };
 
+  // The database checks the user may edit risks and logs the decision
+  // Reloads one risk after the database changed it, e.g. when an acceptance is approved
+  const refreshRisk = async (id: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('risks')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+
+      setRisks(prev => prev.map(risk => risk.id === id ? data : risk));
+      return data as Risk;
+    } catch (err) {
+      console.error('Error refreshing risk:', err);
+      return null;
+    }
+  };
+
+  const recordTreatment = async (id: string, decision: RiskTreatmentDecision, rationale: string) => {
+    try {
+      setError(null);
+
+      const { data, error } = await supabase.rpc('record_risk_treatment', {
+        p_risk_id: id,
+        p_decision: decision,
+        p_rationale: rationale
+      });
+
+      if (error) throw error;
+
+      const updated = data as Risk;
+      setRisks(prev => prev.map(risk => risk.id === id ? updated : risk));
+
+      return updated;
+    } catch (err) {
+      console.error('Error recording risk treatment:', err);
+      setError(err instanceof Error ? err.message : 'Failed to record the treatment decision');
+      throw err;
+    }
+  };
+
   const logAuditEvent = async (action: string, resourceId?: string, details?: Record<string, any>) => {
     if (!profile?.organization_id) {
       console.warn('Cannot log audit event: no organization ID available');
@@ -320,6 +367,8 @@ export function useRisks() {
     addRisk,
     updateRisk,
     deleteRisk,
+    recordTreatment,
+    refreshRisk,
     logAuditEvent
   };
 }
\ No newline at end of file
@@ -0,0 +1,75 @@
+import { useEffect, useRef } from 'react';
+import { Database } from '../lib/supabase';
+import * as authService from '../services/authService';
+import { resolveSessionPolicy, SessionEndReason } from '../utils/sessionPolicy';
+
+type OrganizationSettings = Database['public']['Tables']['organizations']['Row']['settings'];
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'] as const;
+const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+const IDLE_CHECK_INTERVAL_MS = 15 * 1000;
+
+/**
+ * Enforces the organization's session policy for the signed-in user.
+ * Activity is reported to the sessions edge function, which also enforces maxDuration,
+ * maxConcurrentSessions and admin revocation; the client signs out after idleTimeout
+ * minutes without interaction or as soon as the server reports the session as ended.
+ */
+export const useSessionPolicy = (
+  userId: string | undefined,
+  settings: OrganizationSettings | undefined,
+  onSessionEnded: (reason: SessionEndReason) => void
+) => {
+  const onSessionEndedRef = useRef(onSessionEnded);
+  onSessionEndedRef.current = onSessionEnded;
+
+  const { idleTimeout } = resolveSessionPolicy(settings);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let lastActivity = Date.now();
+    let lastHeartbeat = 0;
+    let ended = false;
+
+    const endSession = (reason: SessionEndReason) => {
+      if (ended) return;
+      ended = true;
+      onSessionEndedRef.current(reason);
+    };
+
+    const recordActivity = () => {
+      lastActivity = Date.now();
+    };
+
+    const sendHeartbeat = async () => {
+      if (ended) return;
+      const active = lastActivity > lastHeartbeat;
+      lastHeartbeat = Date.now();
+
+      const { data } = await authService.sendSessionHeartbeat(active);
+      if (data && !data.valid) {
+        endSession(data.reason || 'revoked');
+      }
+    };
+
+    const checkIdle = async () => {
+      if (ended || idleTimeout <= 0) return;
+      if (Date.now() - lastActivity > idleTimeout * 60 * 1000) {
+        await authService.endSession('idle_timeout');
+        endSession('idle_timeout');
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, recordActivity, { passive: true }));
+    sendHeartbeat();
+    const heartbeatInterval = setInterval(sendHeartbeat, HEARTBEAT_INTERVAL_MS);
+    const idleInterval = setInterval(checkIdle, IDLE_CHECK_INTERVAL_MS);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, recordActivity));
+      clearInterval(heartbeatInterval);
+      clearInterval(idleInterval);
+    };
+  }, [userId, idleTimeout]);
+};
@@ -1,4 +1,12 @@
 import { createClient } from '@supabase/supabase-js';
+import { IncidentTimelineEntry } from '../types/incidentTimeline';
+import { FishboneAnalysis, ReviewActionStatus, ReviewStatus, RootCauseMethod } from '../types/incidentReview';
+import { AppliedPlaybook, PlaybookRole } from '../types/incidentPlaybook';
+import { IncidentCostCategory } from '../types/incidentCost';
+import { RiskVersionOperation } from '../types/riskHistory';
+import { RiskReviewAttestation, RiskReviewStatus } from '../types/riskReview';
+import { RiskTreatmentDecision } from '../types/riskTreatment';
+import { RiskAcceptanceApprover, RiskAcceptanceStatus } from '../types/riskAcceptance';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -70,6 +78,7 @@ export interface Database {
                 idleTimeout?: number;
                 maxConcurrentSessions?: number;
                 requireReauth?: boolean;
+                reauthWindow?: number;
               };
               twoFactorAuth?: {
                 required?: boolean;
@@ -127,6 +136,78 @@ export interface Database {
                 securityLevel: string;
               }[];
             };
+            incidentPortal?: {
+              enabled: boolean;
+              allowAnonymous: boolean;
+              token: string;
+            };
+            incidentCosts?: {
+              baseCurrency: string;
+              // Units of the base currency per unit of each other currency, e.g. { EUR: 1.08 } for USD
+              exchangeRates: Record<string, number>;
+            };
+            incidentPlaybooks?: {
+              id: string;
+              name: string;
+              description: string;
+              severity: 'Low' | 'Medium' | 'High' | 'Critical';
+              department: string;
+              immediateActions: string;
+              steps: {
+                id: string;
+                title: string;
+                role: PlaybookRole | null;
+                targetMinutes: number | null;
+              }[];
+            }[];
+            incidentSla?: Partial<Record<'Low' | 'Medium' | 'High' | 'Critical', {
+              acknowledgeMinutes: number;
+              assignMinutes: number;
+              resolveMinutes: number;
+            }>>;
+            riskAppetite?: {
+              // Upper score bound of the Low, Medium and High bands; higher scores are Critical
+              bands: { low: number; medium: number; high: number };
+              // Residual scores up to the appetite are accepted as they are, scores above the tolerance need
+              // a treatment decision. Categories without their own values use the defaults
+              defaultAppetite: number;
+              defaultTolerance: number;
+              categories: Partial<Record<Database['public']['Tables']['risks']['Row']['category'], {
+                appetite: number;
+                tolerance: number;
+              }>>;
+            };
+            riskAcceptance?: {
+              // Who approves accepting a risk, by the band of its residual score
+              approvers: Record<'Low' | 'Medium' | 'High' | 'Critical', RiskAcceptanceApprover>;
+              // Longest acceptance per band, in days
+              maxDays: Record<'Low' | 'Medium' | 'High' | 'Critical', number>;
+              // Users who approve at executive level
+              executiveUserIds: string[];
+            };
+            riskReviews?: {
+              // Days between reviews per score band and, optionally, per category; the shorter one applies
+              bandDays: Record<'Low' | 'Medium' | 'High' | 'Critical', number>;
+              categoryDays: Partial<Record<Database['public']['Tables']['risks']['Row']['category'], number>>;
+              // Owners are asked to review this many days before the review is due
+              reminderDays: number;
+              // An overdue review escalates to managers after this many days, and to admins after twice as many
+              escalationDays: number;
+            };
+            incidentWorkflow?: {
+              initialState: string;
+              states: {
+                name: string;
+                category: 'open' | 'active' | 'closed';
+                color: string;
+              }[];
+              transitions: {
+                from: string;
+                to: string;
+                requiredFields: ('assigned_to' | 'immediate_actions' | 'root_cause' | 'resolution_summary')[];
+                allowedRoles: ('super_admin' | 'admin' | 'manager' | 'user')[];
+              }[];
+            };
             ai?: {
               enabled?: boolean;
               model?: string;
@@ -206,6 +287,58 @@ export interface Database {
           updated_at?: string;
         };
       };
+      permissions: {
+        Row: {
+          key: string;
+          description: string;
+        };
+        Insert: {
+          key: string;
+          description: string;
+        };
+        Update: {
+          key?: string;
+          description?: string;
+        };
+      };
+      roles: {
+        Row: {
+          id: string;
+          organization_id: string | null;
+          key: 'super_admin' | 'admin' | 'manager' | 'user' | null;
+          name: string;
+          description: string | null;
+          permissions: string[];
+          is_system: boolean;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          organization_id?: string | null;
+          key?: 'super_admin' | 'admin' | 'manager' | 'user' | null;
+          name: string;
+          description?: string | null;
+          permissions?: string[];
+          is_system?: boolean;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          organization_id?: string | null;
+          key?: 'super_admin' | 'admin' | 'manager' | 'user' | null;
+          name?: string;
+          description?: string | null;
+          permissions?: string[];
+          is_system?: boolean;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
       user_profiles: {
         Row: {
           id: string;
@@ -216,11 +349,15 @@ export interface Database {
           department: string | null;
           phone: string | null;
           two_factor_enabled: boolean;
-          two_factor_secret: string | null;
-          backup_codes: string[] | null;
           last_login: string | null;
           failed_login_attempts: number;
           account_locked_until: string | null;
+          password_changed_at: string;
+          auth_provider: 'password' | 'sso';
+          active: boolean;
+          external_id: string | null;
+          custom_role_id: string | null;
+          clearance_level: 'Unclassified' | 'Confidential' | 'Secret' | 'Top Secret';
           created_at: string;
           updated_at: string;
         };
@@ -233,11 +370,15 @@ export interface Database {
           department?: string | null;
           phone?: string | null;
           two_factor_enabled?: boolean;
-          two_factor_secret?: string | null;
-          backup_codes?: string[] | null;
           last_login?: string | null;
           failed_login_attempts?: number;
           account_locked_until?: string | null;
+          password_changed_at?: string;
+          auth_provider?: 'password' | 'sso';
+          active?: boolean;
+          external_id?: string | null;
+          custom_role_id?: string | null;
+          clearance_level?: 'Unclassified' | 'Confidential' | 'Secret' | 'Top Secret';
           created_at?: string;
           updated_at?: string;
         };
@@ -250,11 +391,15 @@ export interface Database {
           department?: string | null;
           phone?: string | null;
           two_factor_enabled?: boolean;
-          two_factor_secret?: string | null;
-          backup_codes?: string[] | null;
           last_login?: string | null;
           failed_login_attempts?: number;
           account_locked_until?: string | null;
+          password_changed_at?: string;
+          auth_provider?: 'password' | 'sso';
+          active?: boolean;
+          external_id?: string | null;
+          custom_role_id?: string | null;
+          clearance_level?: 'Unclassified' | 'Confidential' | 'Secret' | 'Top Secret';
           created_at?: string;
           updated_at?: string;
         };
@@ -297,6 +442,50 @@ export interface Database {
           created_at?: string;
         };
       };
+      user_sessions: {
+        Row: {
+          id: string;
+          user_id: string;
+          organization_id: string;
+          auth_session_id: string;
+          user_agent: string | null;
+          ip_address: string | null;
+          created_at: string;
+          last_activity_at: string;
+          ended_at: string | null;
+          end_reason: 'signed_out' | 'idle_timeout' | 'max_duration' | 'evicted' | 'revoked' | 'deprovisioned' | 'password_expired' | null;
+          ended_by: string | null;
+          reauthenticated_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          organization_id: string;
+          auth_session_id: string;
+          user_agent?: string | null;
+          ip_address?: string | null;
+          created_at?: string;
+          last_activity_at?: string;
+          ended_at?: string | null;
+          end_reason?: 'signed_out' | 'idle_timeout' | 'max_duration' | 'evicted' | 'revoked' | 'deprovisioned' | 'password_expired' | null;
+          ended_by?: string | null;
+          reauthenticated_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          organization_id?: string;
+          auth_session_id?: string;
+          user_agent?: string | null;
+          ip_address?: string | null;
+          created_at?: string;
+          last_activity_at?: string;
+          ended_at?: string | null;
+          end_reason?: 'signed_out' | 'idle_timeout' | 'max_duration' | 'evicted' | 'revoked' | 'deprovisioned' | 'password_expired' | null;
+          ended_by?: string | null;
+          reauthenticated_at?: string | null;
+        };
+      };
       personnel_details: {
         Row: {
           id: string;
@@ -381,10 +570,42 @@ export interface Database {
           reporter_name: string;
           reporter_email: string;
           reporter_phone: string | null;
-          status: 'Open' | 'In Progress' | 'Closed';
+          status: string;
           assigned_to: string | null;
+          assigned_user_id: string | null;
+          assigned_team_id: string | null;
+          root_cause: string | null;
+          resolution_summary: string | null;
+          acknowledged_at: string | null;
+          acknowledged_by: string | null;
+          assigned_at: string | null;
+          resolved_at: string | null;
+          acknowledge_due_at: string | null;
+          assign_due_at: string | null;
+          resolve_due_at: string | null;
+          sla_breaches: {
+            type: 'acknowledge' | 'assign' | 'resolve';
+            due_at: string;
+            breached_at: string;
+            escalation_level: number;
+            escalated_to: string[];
+          }[];
+          escalation_level: number;
+          source: 'internal' | 'portal';
+          verified: boolean;
+          verified_at: string | null;
+          verified_by: string | null;
+          reporter_anonymous: boolean;
+          tracking_code_hash: string | null;
+          merged_into: string | null;
+          merged_at: string | null;
+          playbook_id: string | null;
+          playbook: AppliedPlaybook | null;
+          downtime_hours: number | null;
+          people_affected: number | null;
+          impacted_asset_ids: string[];
           documents: string[];
-          timeline: Record<string, any>[];
+          timeline: IncidentTimelineEntry[];
           mitigations: Record<string, any>[] | null;
           created_at: string;
           updated_at: string;
@@ -407,10 +628,19 @@ export interface Database {
           reporter_name: string;
           reporter_email: string;
           reporter_phone?: string | null;
-          status?: 'Open' | 'In Progress' | 'Closed';
+          status?: string;
           assigned_to?: string | null;
+          assigned_user_id?: string | null;
+          assigned_team_id?: string | null;
+          root_cause?: string | null;
+          resolution_summary?: string | null;
+          acknowledged_by?: string | null;
+          playbook_id?: string | null;
+          downtime_hours?: number | null;
+          people_affected?: number | null;
+          impacted_asset_ids?: string[];
           documents?: string[];
-          timeline?: Record<string, any>[];
+          timeline?: IncidentTimelineEntry[];
           mitigations?: Record<string, any>[] | null;
           created_at?: string;
           updated_at?: string;
@@ -433,15 +663,344 @@ export interface Database {
           reporter_name?: string;
           reporter_email?: string;
           reporter_phone?: string | null;
-          status?: 'Open' | 'In Progress' | 'Closed';
+          status?: string;
           assigned_to?: string | null;
+          assigned_user_id?: string | null;
+          assigned_team_id?: string | null;
+          root_cause?: string | null;
+          resolution_summary?: string | null;
+          acknowledged_by?: string | null;
+          verified?: boolean;
+          playbook_id?: string | null;
+          downtime_hours?: number | null;
+          people_affected?: number | null;
+          impacted_asset_ids?: string[];
           documents?: string[];
-          timeline?: Record<string, any>[];
+          timeline?: IncidentTimelineEntry[];
           mitigations?: Record<string, any>[] | null;
           created_at?: string;
           updated_at?: string;
         };
       };
+      responder_teams: {
+        Row: {
+          id: string;
+          organization_id: string;
+          name: string;
+          description: string | null;
+          department: string | null;
+          member_user_ids: string[];
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          organization_id: string;
+          name: string;
+          description?: string | null;
+          department?: string | null;
+          member_user_ids?: string[];
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          organization_id?: string;
+          name?: string;
+          description?: string | null;
+          department?: string | null;
+          member_user_ids?: string[];
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      on_call_schedules: {
+        Row: {
+          id: string;
+          organization_id: string;
+          name: string;
+          team_id: string | null;
+          department: string | null;
+          region: string | null;
+          participant_user_ids: string[];
+          rotation_starts_at: string;
+          shift_hours: number;
+          auto_assign: boolean;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          organization_id: string;
+          name: string;
+          team_id?: string | null;
+          department?: string | null;
+          region?: string | null;
+          participant_user_ids?: string[];
+          rotation_starts_at?: string;
+          shift_hours?: number;
+          auto_assign?: boolean;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          organization_id?: string;
+          name?: string;
+          team_id?: string | null;
+          department?: string | null;
+          region?: string | null;
+          participant_user_ids?: string[];
+          rotation_starts_at?: string;
+          shift_hours?: number;
+          auto_assign?: boolean;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      on_call_overrides: {
+        Row: {
+          id: string;
+          organization_id: string;
+          schedule_id: string;
+          user_id: string;
+          starts_at: string;
+          ends_at: string;
+          reason: string | null;
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          organization_id: string;
+          schedule_id: string;
+          user_id: string;
+          starts_at: string;
+          ends_at: string;
+          reason?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          organization_id?: string;
+          schedule_id?: string;
+          user_id?: string;
+          starts_at?: string;
+          ends_at?: string;
+          reason?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+        };
+      };
+      incident_links: {
+        Row: {
+          id: string;
+          organization_id: string;
+          source_incident_id: string;
+          target_incident_id: string;
+          link_type: 'duplicate_of' | 'related_to' | 'caused_by' | 'part_of_campaign';
+          note: string | null;
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          organization_id: string;
+          source_incident_id: string;
+          target_incident_id: string;
+          link_type: 'duplicate_of' | 'related_to' | 'caused_by' | 'part_of_campaign';
+          note?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          organization_id?: string;
+          source_incident_id?: string;
+          target_incident_id?: string;
+          link_type?: 'duplicate_of' | 'related_to' | 'caused_by' | 'part_of_campaign';
+          note?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+        };
+      };
+      incident_reviews: {
+        Row: {
+          id: string;
+          organization_id: string;
+          incident_id: string;
+          status: ReviewStatus;
+          summary: string | null;
+          rca_method: RootCauseMethod;
+          five_whys: string[];
+          fishbone: FishboneAnalysis;
+          root_cause: string | null;
+          contributing_factors: string[];
+          went_well: string[];
+          went_badly: string[];
+          created_by: string | null;
+          completed_at: string | null;
+          completed_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          organization_id: string;
+          incident_id: string;
+          status?: ReviewStatus;
+          summary?: string | null;
+          rca_method?: RootCauseMethod;
+          five_whys?: string[];
+          fishbone?: FishboneAnalysis;
+          root_cause?: string | null;
+          contributing_factors?: string[];
+          went_well?: string[];
+          went_badly?: string[];
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          status?: ReviewStatus;
+          summary?: string | null;
+          rca_method?: RootCauseMethod;
+          five_whys?: string[];
+          fishbone?: FishboneAnalysis;
+          root_cause?: string | null;
+          contributing_factors?: string[];
+          went_well?: string[];
+          went_badly?: string[];
+          updated_at?: string;
+        };
+      };
+      incident_review_actions: {
+        Row: {
+          id: string;
+          organization_id: string;
+          review_id: string;
+          description: string;
+          owner_user_id: string | null;
+          due_date: string | null;
+          status: ReviewActionStatus;
+          completed_at: string | null;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          organization_id: string;
+          review_id: string;
+          description: string;
+          owner_user_id?: string | null;
+          due_date?: string | null;
+          status?: ReviewActionStatus;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          description?: string;
+          owner_user_id?: string | null;
+          due_date?: string | null;
+          status?: ReviewActionStatus;
+          updated_at?: string;
+        };
+      };
+      incident_evidence: {
+        Row: {
+          id: string;
+          organization_id: string;
+          incident_id: string;
+          storage_path: string;
+          thumbnail_path: string | null;
+          file_name: string;
+          content_type: string;
+          size_bytes: number;
+          sha256: string;
+          description: string | null;
+          uploaded_by: string | null;
+          uploaded_at: string;
+        };
+        Insert: {
+          id?: string;
+          organization_id: string;
+          incident_id: string;
+          storage_path: string;
+          thumbnail_path?: string | null;
+          file_name: string;
+          content_type: string;
+          size_bytes: number;
+          sha256: string;
+          description?: string | null;
+          uploaded_by?: string | null;
+          uploaded_at?: string;
+        };
+        Update: {
+          id?: string;
+          organization_id?: string;
+          incident_id?: string;
+          storage_path?: string;
+          thumbnail_path?: string | null;
+          file_name?: string;
+          content_type?: string;
+          size_bytes?: number;
+          sha256?: string;
+          description?: string | null;
+          uploaded_by?: string | null;
+          uploaded_at?: string;
+        };
+      };
+      incident_costs: {
+        Row: {
+          id: string;
+          organization_id: string;
+          incident_id: string;
+          category: IncidentCostCategory;
+          amount: number;
+          currency: string;
+          asset_id: string | null;
+          description: string | null;
+          incurred_on: string;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          organization_id: string;
+          incident_id: string;
+          category: IncidentCostCategory;
+          amount: number;
+          currency: string;
+          asset_id?: string | null;
+          description?: string | null;
+          incurred_on?: string;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          category?: IncidentCostCategory;
+          amount?: number;
+          currency?: string;
+          asset_id?: string | null;
+          description?: string | null;
+          incurred_on?: string;
+          updated_at?: string;
+        };
+      };
       assets: {
         Row: {
           id: string;
@@ -576,10 +1135,13 @@ export interface Database {
           title: string;
           description: string;
           category: 'physical_security_vulnerabilities' | 'environmental_hazards' | 'natural_disasters' | 'infrastructure_failure' | 'personnel_safety_security' | 'asset_damage_loss';
-          status: 'identified' | 'assessed' | 'mitigated' | 'monitoring' | 'closed';
+          status: 'identified' | 'assessed' | 'mitigated' | 'monitoring' | 'accepted' | 'closed';
           impact: 'very_low' | 'low' | 'medium' | 'high' | 'very_high';
           likelihood: 'very_low' | 'low' | 'medium' | 'high' | 'very_high';
           risk_score: number;
+          residual_risk_score: number;
+          control_effectiveness: number;
+          applied_controls: { mitigation_id: string; name: string; effectiveness: number }[];
           mitigation_plan: string | null;
           owner_user_id: string | null;
           identified_by_user_id: string | null;
@@ -596,6 +1158,14 @@ export interface Database {
           source_travel_plan_id: string | null;
           ai_confidence: number | null;
           ai_detection_date: string | null;
+          // Reason for the change being saved; moved into risk_versions and always read back as null
+          change_reason: string | null;
+          // Only set through record_risk_treatment(); cleared when the residual score rises above the decided one
+          treatment_decision: RiskTreatmentDecision | null;
+          treatment_rationale: string | null;
+          treatment_residual_score: number | null;
+          treatment_decided_by: string | null;
+          treatment_decided_at: string | null;
         };
         Insert: {
           id?: string;
@@ -603,10 +1173,13 @@ export interface Database {
           title: string;
           description: string;
           category: 'physical_security_vulnerabilities' | 'environmental_hazards' | 'natural_disasters' | 'infrastructure_failure' | 'personnel_safety_security' | 'asset_damage_loss';
-          status?: 'identified' | 'assessed' | 'mitigated' | 'monitoring' | 'closed';
+          status?: 'identified' | 'assessed' | 'mitigated' | 'monitoring' | 'accepted' | 'closed';
           impact: 'very_low' | 'low' | 'medium' | 'high' | 'very_high';
           likelihood: 'very_low' | 'low' | 'medium' | 'high' | 'very_high';
           risk_score?: number;
+          residual_risk_score?: number;
+          control_effectiveness?: number;
+          applied_controls?: { mitigation_id: string; name: string; effectiveness: number }[];
           mitigation_plan?: string | null;
           owner_user_id?: string | null;
           identified_by_user_id?: string | null;
@@ -623,6 +1196,7 @@ export interface Database {
           source_travel_plan_id?: string | null;
           ai_confidence?: number | null;
           ai_detection_date?: string | null;
+          change_reason?: string | null;
         };
         Update: {
           id?: string;
@@ -630,10 +1204,13 @@ export interface Database {
           title?: string;
           description?: string;
           category?: 'physical_security_vulnerabilities' | 'environmental_hazards' | 'natural_disasters' | 'infrastructure_failure' | 'personnel_safety_security' | 'asset_damage_loss';
-          status?: 'identified' | 'assessed' | 'mitigated' | 'monitoring' | 'closed';
+          status?: 'identified' | 'assessed' | 'mitigated' | 'monitoring' | 'accepted' | 'closed';
           impact?: 'very_low' | 'low' | 'medium' | 'high' | 'very_high';
           likelihood?: 'very_low' | 'low' | 'medium' | 'high' | 'very_high';
           risk_score?: number;
+          residual_risk_score?: number;
+          control_effectiveness?: number;
+          applied_controls?: { mitigation_id: string; name: string; effectiveness: number }[];
           mitigation_plan?: string | null;
           owner_user_id?: string | null;
           identified_by_user_id?: string | null;
@@ -650,6 +1227,103 @@ export interface Database {
           source_travel_plan_id?: string | null;
           ai_confidence?: number | null;
           ai_detection_date?: string | null;
+          change_reason?: string | null;
+        };
+      };
+      risk_acceptances: {
+        Row: {
+          id: string;
+          organization_id: string;
+          risk_id: string;
+          status: RiskAcceptanceStatus;
+          justification: string;
+          residual_risk_score: number;
+          risk_level: 'Low' | 'Medium' | 'High' | 'Critical';
+          approver_level: RiskAcceptanceApprover;
+          approver_user_id: string | null;
+          previous_status: Database['public']['Tables']['risks']['Row']['status'];
+          expires_at: string;
+          requested_by: string | null;
+          requested_at: string;
+          decided_by: string | null;
+          decided_at: string | null;
+          decision_notes: string | null;
+          ended_at: string | null;
+        };
+        // Written by request_risk_acceptance(), decide_risk_acceptance() and expire_risk_acceptances() only
+        Insert: Record<string, never>;
+        Update: Record<string, never>;
+      };
+      risk_reviews: {
+        Row: {
+          id: string;
+          organization_id: string;
+          risk_id: string;
+          owner_user_id: string | null;
+          status: RiskReviewStatus;
+          due_at: string;
+          reminded_at: string | null;
+          escalation_level: number;
+          escalated_at: string | null;
+          attestation: RiskReviewAttestation | null;
+          notes: string | null;
+          completed_by: string | null;
+          completed_at: string | null;
+          created_at: string;
+        };
+        // Written by the risk-reviews function and complete_risk_review(); there are no insert or update policies
+        Insert: {
+          id?: string;
+          organization_id: string;
+          risk_id: string;
+          owner_user_id?: string | null;
+          status?: RiskReviewStatus;
+          due_at: string;
+          reminded_at?: string | null;
+          escalation_level?: number;
+          escalated_at?: string | null;
+          attestation?: RiskReviewAttestation | null;
+          notes?: string | null;
+          completed_by?: string | null;
+          completed_at?: string | null;
+          created_at?: string;
+        };
+        Update: Record<string, never>;
+      };
+      risk_versions: {
+        Row: {
+          id: string;
+          organization_id: string;
+          risk_id: string;
+          version: number;
+          operation: RiskVersionOperation;
+          changed_fields: string[];
+          change_reason: string | null;
+          snapshot: Omit<Database['public']['Tables']['risks']['Row'], 'change_reason'>;
+          changed_by: string | null;
+          changed_at: string;
+        };
+        // Written only by the record_risk_version trigger; there are no insert or update policies
+        Insert: {
+          id?: string;
+          organization_id: string;
+          risk_id: string;
+          version: number;
+          operation: RiskVersionOperation;
+          changed_fields?: string[];
+          change_reason?: string | null;
+          snapshot: Omit<Database['public']['Tables']['risks']['Row'], 'change_reason'>;
+          changed_by?: string | null;
+          changed_at?: string;
+        };
+        Update: Record<string, never>;
+      };
+    };
+    Views: {
+      // Clearance-masked personnel_details; date_of_birth and emergency_contact are null when redacted
+      personnel_directory: {
+        Row: Database['public']['Tables']['personnel_details']['Row'] & {
+          sensitive_redacted: boolean;
         };
       };
     };
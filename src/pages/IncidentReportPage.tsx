@@ -0,0 +1,529 @@
+import React, { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import {
+  AlertCircle,
+  CheckCircle,
+  Copy,
+  Crosshair,
+  Loader2,
+  Paperclip,
+  Search,
+  Send,
+  ShieldAlert,
+  Trash2
+} from 'lucide-react';
+import LocationSearchInput from '../components/common/LocationSearchInput';
+import { LocationData, reverseGeocode } from '../services/nominatimService';
+import { evidenceAccept, formatFileSize, isAllowedEvidenceType } from '../services/evidenceService';
+import {
+  PortalInfo,
+  PortalReport,
+  PortalReportStatus,
+  PortalSubmission,
+  getPortalInfo,
+  getPortalReportStatus,
+  submitPortalReport
+} from '../services/incidentPortalService';
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const statusCategoryText: Record<PortalReportStatus['category'], string> = {
+  open: 'Waiting to be handled',
+  active: 'Being handled',
+  closed: 'Closed'
+};
+
+/**
+ * Public report page for people without an account, reached through /report/<token>.
+ * Reporters get a tracking code to check progress later on the same page
+ */
+const IncidentReportPage: React.FC = () => {
+  const { token = '' } = useParams<{ token: string }>();
+  const [portal, setPortal] = useState<PortalInfo | null>(null);
+  const [loadingPortal, setLoadingPortal] = useState(true);
+  const [mode, setMode] = useState<'report' | 'status'>('report');
+  const [error, setError] = useState<string | null>(null);
+
+  // Report form
+  const [report, setReport] = useState<PortalReport>({
+    title: '',
+    description: '',
+    dateTime: '',
+    severity: 'Medium',
+    location: '',
+    coordinates: null,
+    department: '',
+    immediateActions: null,
+    anonymous: false,
+    reporterName: '',
+    reporterEmail: '',
+    reporterPhone: ''
+  });
+  const [locationData, setLocationData] = useState<LocationData | null>(null);
+  const [locating, setLocating] = useState(false);
+  const [files, setFiles] = useState<File[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [submission, setSubmission] = useState<PortalSubmission | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // Status check
+  const [trackingCode, setTrackingCode] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [reportStatus, setReportStatus] = useState<PortalReportStatus | null>(null);
+
+  useEffect(() => {
+    const loadPortal = async () => {
+      setLoadingPortal(true);
+      const { data, error: portalError } = await getPortalInfo(token);
+      setPortal(data);
+      setError(portalError);
+      setLoadingPortal(false);
+    };
+
+    loadPortal();
+  }, [token]);
+
+  const updateReport = <K extends keyof PortalReport>(field: K, value: PortalReport[K]) => {
+    setReport(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleLocationChange = (location: LocationData | null) => {
+    setLocationData(location);
+    if (location) {
+      updateReport('location', location.address ? `${location.address}, ${location.city}, ${location.country}` : `${location.city}, ${location.country}`);
+      updateReport('coordinates', location.coordinates);
+    }
+  };
+
+  const handleUseMyLocation = () => {
+    if (!navigator.geolocation) {
+      setError('Your browser does not support location detection');
+      return;
+    }
+
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      async (position) => {
+        const { latitude, longitude } = position.coords;
+        const location = await reverseGeocode(latitude, longitude);
+        if (location) {
+          handleLocationChange(location);
+        } else {
+          updateReport('location', `${latitude.toFixed(5)}, ${longitude.toFixed(5)}`);
+          updateReport('coordinates', [longitude, latitude]);
+        }
+        setLocating(false);
+      },
+      () => {
+        setError('Could not determine your location. Please enter it manually.');
+        setLocating(false);
+      },
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  };
+
+  const handleFilesSelected = (selected: FileList | null) => {
+    if (!selected || !portal) return;
+
+    const incoming = Array.from(selected);
+    const rejected = incoming.filter(file => !isAllowedEvidenceType(file) || file.size > portal.maxFileSize);
+    const accepted = incoming.filter(file => !rejected.includes(file));
+
+    setFiles(prev => [...prev, ...accepted].slice(0, portal.maxFiles));
+    setError(rejected.length > 0
+      ? `Only photos, PDFs and videos up to ${formatFileSize(portal.maxFileSize)} can be attached: ${rejected.map(file => file.name).join(', ')}`
+      : null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!report.location.trim()) {
+      setError('Please enter where the incident happened');
+      return;
+    }
+
+    setSubmitting(true);
+    const { data, error: submitError } = await submitPortalReport(token, {
+      ...report,
+      reporterName: report.anonymous ? null : report.reporterName,
+      reporterEmail: report.anonymous ? null : report.reporterEmail,
+      reporterPhone: report.anonymous ? null : report.reporterPhone || null
+    }, files);
+    setSubmitting(false);
+
+    if (submitError || !data) {
+      setError(submitError || 'Failed to submit the report');
+      return;
+    }
+
+    setSubmission(data);
+  };
+
+  const handleCheckStatus = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setReportStatus(null);
+
+    setChecking(true);
+    const { data, error: statusError } = await getPortalReportStatus(token, trackingCode);
+    setChecking(false);
+
+    if (statusError || !data) {
+      setError(statusError || 'No report found for this tracking code');
+      return;
+    }
+
+    setReportStatus(data);
+  };
+
+  const copyTrackingCode = async () => {
+    if (!submission) return;
+    await navigator.clipboard.writeText(submission.trackingCode);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const renderError = () => error && (
+    <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+      <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+      <span className="text-red-700 text-sm">{error}</span>
+    </div>
+  );
+
+  if (loadingPortal) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  if (!portal) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-8 max-w-md w-full text-center">
+          <ShieldAlert className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <h1 className="text-xl font-bold text-gray-900 mb-2">Reporting link not available</h1>
+          <p className="text-gray-600">{error || 'This reporting link is not valid or has been disabled.'}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 px-4">
+      <div className="max-w-3xl mx-auto">
+        <div className="text-center mb-8">
+          <div className="w-16 h-16 bg-gradient-to-r from-red-600 to-orange-500 rounded-2xl flex items-center justify-center mx-auto mb-4 shadow-lg">
+            <ShieldAlert className="w-8 h-8 text-white" />
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Report a Security Incident</h1>
+          <p className="text-gray-600">{portal.organizationName}</p>
+        </div>
+
+        <div className="flex justify-center space-x-2 mb-6">
+          {(['report', 'status'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => {
+                setMode(option);
+                setError(null);
+              }}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                mode === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {option === 'report' ? 'Submit a Report' : 'Check Report Status'}
+            </button>
+          ))}
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-8">
+          {renderError()}
+
+          {mode === 'status' ? (
+            <div className="space-y-6">
+              <form onSubmit={handleCheckStatus} className="flex space-x-3">
+                <input
+                  type="text"
+                  required
+                  value={trackingCode}
+                  onChange={(e) => setTrackingCode(e.target.value)}
+                  placeholder="Tracking code, e.g. ABCD-EFGH-JKLM"
+                  className={`${inputClassName} font-mono uppercase`}
+                />
+                <button
+                  type="submit"
+                  disabled={checking}
+                  className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  {checking ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+                  <span>Check</span>
+                </button>
+              </form>
+
+              {reportStatus && (
+                <div className="border border-gray-200 rounded-lg p-4 space-y-2">
+                  <h2 className="text-lg font-semibold text-gray-900">{reportStatus.title}</h2>
+                  <p className="text-sm text-gray-700">
+                    Status: <span className="font-medium">{reportStatus.status}</span>
+                    {' '}({statusCategoryText[reportStatus.category]})
+                  </p>
+                  {!reportStatus.verified && (
+                    <p className="text-sm text-yellow-700">Your report has been received and is awaiting review.</p>
+                  )}
+                  <p className="text-xs text-gray-500">
+                    Submitted {new Date(reportStatus.submittedAt).toLocaleString()} · Last updated {new Date(reportStatus.updatedAt).toLocaleString()}
+                  </p>
+                </div>
+              )}
+            </div>
+          ) : submission ? (
+            <div className="text-center space-y-4">
+              <CheckCircle className="w-12 h-12 text-green-500 mx-auto" />
+              <h2 className="text-xl font-semibold text-gray-900">Report submitted</h2>
+              <p className="text-gray-600">
+                Keep this tracking code to check the status of your report. It will not be shown again.
+              </p>
+              <div className="flex items-center justify-center space-x-3">
+                <span className="text-2xl font-mono font-bold tracking-wider text-gray-900">{submission.trackingCode}</span>
+                <button onClick={copyTrackingCode} className="text-blue-600 hover:text-blue-800" title="Copy tracking code">
+                  {copied ? <CheckCircle className="w-5 h-5" /> : <Copy className="w-5 h-5" />}
+                </button>
+              </div>
+              {submission.filesRejected > 0 && (
+                <p className="text-sm text-yellow-700">
+                  {submission.filesRejected} of your files could not be stored. The report itself was received.
+                </p>
+              )}
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">What happened? *</label>
+                  <input
+                    type="text"
+                    required
+                    value={report.title}
+                    onChange={(e) => updateReport('title', e.target.value)}
+                    className={inputClassName}
+                    placeholder="Short summary of the incident"
+                  />
+                </div>
+
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Description *</label>
+                  <textarea
+                    required
+                    rows={4}
+                    value={report.description}
+                    onChange={(e) => updateReport('description', e.target.value)}
+                    className={inputClassName}
+                    placeholder="Describe what you saw, who was involved and anything else that may help"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Date & Time *</label>
+                  <input
+                    type="datetime-local"
+                    required
+                    value={report.dateTime}
+                    onChange={(e) => updateReport('dateTime', e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Severity</label>
+                  <select
+                    value={report.severity}
+                    onChange={(e) => updateReport('severity', e.target.value as PortalReport['severity'])}
+                    className={inputClassName}
+                  >
+                    <option value="Low">Low</option>
+                    <option value="Medium">Medium</option>
+                    <option value="High">High</option>
+                    <option value="Critical">Critical</option>
+                  </select>
+                </div>
+
+                <div className="md:col-span-2">
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="block text-sm font-medium text-gray-700">Location *</label>
+                    <button
+                      type="button"
+                      onClick={handleUseMyLocation}
+                      disabled={locating}
+                      className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                    >
+                      {locating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Crosshair className="w-4 h-4" />}
+                      <span>Use my location</span>
+                    </button>
+                  </div>
+                  <LocationSearchInput
+                    value={locationData}
+                    onChange={handleLocationChange}
+                    placeholder="Search for the address or place"
+                  />
+                  {report.location && !locationData && (
+                    <p className="mt-1 text-xs text-gray-500">{report.location}</p>
+                  )}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Department or Site *</label>
+                  {portal.departments.length > 0 ? (
+                    <select
+                      required
+                      value={report.department}
+                      onChange={(e) => updateReport('department', e.target.value)}
+                      className={inputClassName}
+                    >
+                      <option value="">Select...</option>
+                      {portal.departments.map(department => (
+                        <option key={department} value={department}>{department}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      type="text"
+                      required
+                      value={report.department}
+                      onChange={(e) => updateReport('department', e.target.value)}
+                      className={inputClassName}
+                    />
+                  )}
+                </div>
+
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Immediate Actions Taken</label>
+                  <textarea
+                    rows={2}
+                    value={report.immediateActions || ''}
+                    onChange={(e) => updateReport('immediateActions', e.target.value || null)}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+
+              <div className="border-t border-gray-200 pt-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-semibold text-gray-900">Photos, Documents and Video</h3>
+                  <label className={`flex items-center space-x-2 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 transition-colors ${
+                    files.length >= portal.maxFiles ? 'opacity-50' : 'hover:bg-gray-50 cursor-pointer'
+                  }`}>
+                    <Paperclip className="w-4 h-4" />
+                    <span>Attach Files</span>
+                    <input
+                      type="file"
+                      multiple
+                      accept={evidenceAccept}
+                      disabled={files.length >= portal.maxFiles}
+                      className="hidden"
+                      onChange={(e) => {
+                        handleFilesSelected(e.target.files);
+                        e.target.value = '';
+                      }}
+                    />
+                  </label>
+                </div>
+                {files.length === 0 ? (
+                  <p className="text-sm text-gray-500">
+                    Up to {portal.maxFiles} files of at most {formatFileSize(portal.maxFileSize)} each.
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    {files.map((file, index) => (
+                      <div key={`${file.name}-${index}`} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg">
+                        <span className="text-sm text-gray-900 truncate">{file.name}</span>
+                        <div className="flex items-center space-x-3">
+                          <span className="text-xs text-gray-500">{formatFileSize(file.size)}</span>
+                          <button
+                            type="button"
+                            onClick={() => setFiles(prev => prev.filter((_, i) => i !== index))}
+                            className="text-red-600 hover:text-red-800"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="border-t border-gray-200 pt-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">Your Details</h3>
+                {portal.allowAnonymous && (
+                  <label className="flex items-center space-x-2 mb-4">
+                    <input
+                      type="checkbox"
+                      checked={report.anonymous}
+                      onChange={(e) => updateReport('anonymous', e.target.checked)}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span className="text-sm text-gray-700">Report anonymously</span>
+                  </label>
+                )}
+                {report.anonymous ? (
+                  <p className="text-sm text-gray-500">
+                    Your name and contact details will not be recorded. Use your tracking code to follow up.
+                  </p>
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Full Name *</label>
+                      <input
+                        type="text"
+                        required
+                        value={report.reporterName || ''}
+                        onChange={(e) => updateReport('reporterName', e.target.value)}
+                        className={inputClassName}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Email Address *</label>
+                      <input
+                        type="email"
+                        required
+                        value={report.reporterEmail || ''}
+                        onChange={(e) => updateReport('reporterEmail', e.target.value)}
+                        className={inputClassName}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Phone Number</label>
+                      <input
+                        type="tel"
+                        value={report.reporterPhone || ''}
+                        onChange={(e) => updateReport('reporterPhone', e.target.value)}
+                        className={inputClassName}
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <div className="flex justify-end pt-6 border-t border-gray-200">
+                <button
+                  type="submit"
+                  disabled={submitting}
+                  className="flex items-center space-x-2 px-6 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                >
+                  {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                  <span>{submitting ? 'Submitting...' : 'Submit Report'}</span>
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IncidentReportPage;
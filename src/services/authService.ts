@@ -1,5 +1,8 @@
 import { supabase } from '../lib/supabase';
 import { User, Session } from '@supabase/supabase-js';
+import QRCode from 'qrcode';
+import { SessionEndReason } from '../utils/sessionPolicy';
+import { PasswordPolicy } from '../utils/passwordPolicy';
 
 /**
  * Service for handling authentication-related operations with Supabase
@@ -10,53 +13,55 @@ export interface AuthResponse<T = any> {
 }
 
 /**
- * Sign in with email and password
+ * Sign in with email and password.
+ * Goes through the sign-in edge function, which counts failed attempts and refuses locked accounts.
  */
-export async function signInWithPassword(email: string, password: string): Promise<AuthResponse<{ user: User | null; session: Session | null; requiresTwoFactor?: boolean }>> {
+export async function signInWithPassword(email: string, password: string): Promise<AuthResponse<{
+  user: User | null;
+  session: Session | null;
+  requiresTwoFactor?: boolean;
+  passwordExpired?: boolean;
+  policy?: PasswordPolicy;
+}>> {
   try {
     console.log('🔑 AuthService: Attempting sign in:', { email });
-    const { data, error } = await supabase.auth.signInWithPassword({
-      email,
-      password,
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/sign-in`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ email, password })
     });
 
+    const result = await response.json();
+
+    // No session is issued until the password has been changed
+    if (result.passwordExpired) {
+      console.log('🔑 AuthService: Password expired, a new one is required');
+      return {
+        data: { user: null, session: null, passwordExpired: true, requiresTwoFactor: !!result.requiresTwoFactor, policy: result.policy },
+        error: null
+      };
+    }
+
+    if (!response.ok || !result.success) {
+      console.warn('❌ AuthService: Login failed:', result.error);
+      return { data: null, error: result.error || 'Invalid login credentials' };
+    }
+
+    if (result.requiresTwoFactor) {
+      console.log('🔒 AuthService: 2FA is enabled, waiting for verification');
+      return { data: { user: null, session: null, requiresTwoFactor: true }, error: null };
+    }
+
+    const { data, error } = await supabase.auth.setSession(result.session);
+
     if (error) {
-      console.warn('❌ AuthService: Login failed:', error.message);
+      console.warn('❌ AuthService: Failed to establish session:', error.message);
       return { data: null, error: error.message };
     }
 
     console.log('✅ AuthService: Sign in successful:', { userId: data.user?.id, email: data.user?.email });
-    
-    // Check if 2FA is enabled for this user
-    if (data.user) {
-      console.log('🔍 AuthService: Checking if 2FA is enabled for user');
-      const { data: profile, error: profileError } = await supabase
-        .from('user_profiles')
-        .select('two_factor_enabled')
-        .eq('user_id', data.user.id)
-        .single();
-
-      if (profileError) {
-        console.warn('❌ AuthService: Error checking 2FA status:', profileError.message);
-      } else if (profile?.two_factor_enabled) {
-        console.log('🔒 AuthService: 2FA is enabled, signing out temporarily');
-        // Sign out temporarily until 2FA is verified
-        await supabase.auth.signOut();
-        return { data: { user: null, session: null, requiresTwoFactor: true }, error: null };
-      } else {
-        console.log('🔓 AuthService: 2FA is not enabled, proceeding with login');
-        
-        // Reset failed login attempts on successful login
-        await supabase
-          .from('user_profiles')
-          .update({
-            failed_login_attempts: 0,
-            account_locked_until: null,
-            last_login: new Date().toISOString()
-          })
-          .eq('user_id', data.user.id);
-      }
-    }
 
     return { data: { user: data.user, session: data.session }, error: null };
   } catch (error) {
@@ -66,49 +71,49 @@ export async function signInWithPassword(email: string, password: string): Promi
 }
 
 /**
- * Sign up with email, password, and additional user data
+ * Sign up with email, password, and additional user data.
+ * Both paths go through an edge function so the password policy is enforced server-side.
  */
 export async function signUp(
   email: string, 
   password: string, 
   fullName: string, 
-  organizationId?: string
+  invitationCode?: string
 ): Promise<AuthResponse<User>> {
   try {
-    console.log('📝 AuthService: Attempting sign up:', { email, fullName, hasOrganizationId: !!organizationId });
+    console.log('📝 AuthService: Attempting sign up:', { email, fullName, hasInvitationCode: !!invitationCode });
     
-    // If organizationId is provided, this is a user joining an existing organization
-    if (organizationId) {
-      console.log('🏢 AuthService: User is joining an existing organization:', organizationId);
-      
-      // Prepare user metadata
-      const userData = {
-        full_name: fullName,
-        organization_id: organizationId,
-        role: 'user' // Default role for users joining an organization
-      };
+    // If invitationCode is provided, this is a user joining an existing organization
+    if (invitationCode) {
+      console.log('🏢 AuthService: User is registering through an invitation');
       
-      // Sign up the user with Supabase Auth
-      const { data, error } = await supabase.auth.signUp({
-        email,
-        password,
-        options: {
-          data: userData
-        }
+      // The accept-invitation function checks the inviting organization's password policy
+      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/accept-invitation`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          invitationCode,
+          email,
+          password,
+          fullName
+        })
       });
       
-      if (error) {
-        console.warn('❌ AuthService: Signup failed:', error.message);
-        return { data: null, error: error.message };
+      const result = await response.json();
+      
+      if (!response.ok || !result.success) {
+        console.warn('❌ AuthService: Signup failed:', result.error);
+        return { data: null, error: result.error || 'Failed to create account' };
       }
       
       console.log('✅ AuthService: Sign up successful for existing organization:', { 
-        userId: data.user?.id, 
-        email: data.user?.email,
-        organizationId
+        userId: result.user?.id, 
+        email: result.user?.email
       });
       
-      return { data: data.user, error: null };
+      return { data: result.user, error: null };
     } else {
       // User is creating a new organization - use the Edge Function
       console.log('🏢 AuthService: User is creating a new organization');
@@ -145,14 +150,11 @@ export async function signUp(
         organizationName: result.organization?.name
       });
       
-      // Sign in the user after successful creation
-      const { data: signInData, error: signInError } = await supabase.auth.signInWithPassword({
-        email,
-        password
-      });
+      // Sign in the user after successful creation, through the sign-in function so the session is registered
+      const { data: signInData, error: signInError } = await signInWithPassword(email, password);
       
-      if (signInError) {
-        console.warn('❌ AuthService: Auto sign-in after signup failed:', signInError.message);
+      if (signInError || !signInData?.user) {
+        console.warn('❌ AuthService: Auto sign-in after signup failed:', signInError);
         return { data: null, error: 'Account created but sign-in failed. Please sign in manually.' };
       }
       
@@ -170,6 +172,7 @@ export async function signUp(
 export async function signOut(): Promise<AuthResponse<null>> {
   try {
     console.log('🚪 AuthService: Signing out');
+    await endSession('signed_out');
     await supabase.auth.signOut();
     console.log('✅ AuthService: Sign out completed');
     return { data: null, error: null };
@@ -203,16 +206,33 @@ export async function resetPassword(email: string, redirectUrl?: string): Promis
 }
 
 /**
- * Update user password
+ * Update user password through the change-password edge function,
+ * which enforces the organization's password policy and reuse history
  */
 export async function updatePassword(password: string): Promise<AuthResponse<null>> {
   try {
     console.log('🔄 AuthService: Updating password');
-    const { error } = await supabase.auth.updateUser({ password });
+    const { data: sessionData } = await getSession();
+    const accessToken = sessionData?.access_token;
 
-    if (error) {
-      console.warn('❌ AuthService: Password update failed:', error.message);
-      return { data: null, error: error.message };
+    if (!accessToken) {
+      return { data: null, error: 'No access token available' };
+    }
+
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/change-password`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${accessToken}`
+      },
+      body: JSON.stringify({ password })
+    });
+
+    const result = await response.json();
+
+    if (!response.ok || !result.success) {
+      console.warn('❌ AuthService: Password update failed:', result.error);
+      return { data: null, error: result.error || 'Failed to update password' };
     }
 
     console.log('✅ AuthService: Password updated successfully');
@@ -223,6 +243,41 @@ export async function updatePassword(password: string): Promise<AuthResponse<nul
   }
 }
 
+/**
+ * Replace an expired password. The user has no session, so the change-password edge function checks the
+ * current password (and the TOTP code when 2FA is enabled) instead of a bearer token
+ */
+export async function changeExpiredPassword(
+  email: string,
+  currentPassword: string,
+  password: string,
+  code?: string
+): Promise<AuthResponse<null>> {
+  try {
+    console.log('🔄 AuthService: Replacing expired password:', { email });
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/change-password`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ email, currentPassword, password, code })
+    });
+
+    const result = await response.json();
+
+    if (!response.ok || !result.success) {
+      console.warn('❌ AuthService: Expired password change failed:', result.error);
+      return { data: null, error: result.error || 'Failed to update password' };
+    }
+
+    console.log('✅ AuthService: Expired password replaced');
+    return { data: null, error: null };
+  } catch (error) {
+    console.error('❌ AuthService: Unexpected error during password change:', error);
+    return { data: null, error: 'An unexpected error occurred during password update' };
+  }
+}
+
 /**
  * Get the current session
  */
@@ -256,15 +311,66 @@ export async function getUser(): Promise<AuthResponse<User>> {
 }
 
 /**
- * Verify two-factor authentication code
- * Note: This is a simplified implementation
+ * Call the two-factor edge function, which owns the TOTP secrets
+ */
+async function callTwoFactorFunction<T = Record<string, unknown>>(
+  action: 'setup' | 'enable' | 'verify' | 'disable' | 'status' | 'regenerate-backup-codes',
+  payload: Record<string, unknown> = {},
+  accessToken?: string
+): Promise<AuthResponse<T>> {
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/two-factor`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(accessToken ? { 'Authorization': `Bearer ${accessToken}` } : {})
+    },
+    body: JSON.stringify({ action, ...payload })
+  });
+
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    return { data: null, error: result.error || 'Two-factor request failed' };
+  }
+
+  return { data: result as T, error: null };
+}
+
+/**
+ * Verify a two-factor code after the password step and establish the session.
+ * The password is checked again server-side so a code alone never yields a session.
+ * With method 'backup', the token is a single-use backup code instead of a TOTP code.
  */
-export async function verifyTwoFactor(token: string): Promise<AuthResponse<null>> {
+export async function verifyTwoFactor(
+  email: string,
+  password: string,
+  token: string,
+  method: 'totp' | 'backup' = 'totp'
+): Promise<AuthResponse<{ session: Session; remainingBackupCodes: number | null }>> {
   try {
-    console.log('🔒 AuthService: Verifying 2FA token');
-    // In a real implementation, this would verify the TOTP token
-    // For now, we'll just return success
-    return { data: null, error: null };
+    console.log('🔒 AuthService: Verifying 2FA token:', { method });
+    const { data, error } = await callTwoFactorFunction<{
+      session: { access_token: string; refresh_token: string };
+      remainingBackupCodes: number | null;
+    }>(
+      'verify',
+      method === 'backup' ? { email, password, backupCode: token } : { email, password, code: token }
+    );
+
+    if (error || !data) {
+      console.warn('❌ AuthService: 2FA verification failed:', error);
+      return { data: null, error: error || 'Invalid two-factor code' };
+    }
+
+    const { data: sessionData, error: sessionError } = await supabase.auth.setSession(data.session);
+
+    if (sessionError || !sessionData.session) {
+      console.warn('❌ AuthService: Failed to establish session after 2FA:', sessionError?.message);
+      return { data: null, error: 'Failed to complete sign in' };
+    }
+
+    console.log('✅ AuthService: 2FA verification successful');
+    return { data: { session: sessionData.session, remainingBackupCodes: data.remainingBackupCodes }, error: null };
   } catch (error) {
     console.error('❌ AuthService: Error verifying 2FA token:', error);
     return { data: null, error: 'Failed to verify 2FA token' };
@@ -272,19 +378,30 @@ export async function verifyTwoFactor(token: string): Promise<AuthResponse<null>
 }
 
 /**
- * Set up two-factor authentication
- * Note: This is a simplified implementation
+ * Set up two-factor authentication.
+ * Generates a pending secret server-side and renders its otpauth:// URI as a QR code.
  */
-export async function setupTwoFactor(): Promise<AuthResponse<{ secret: string; qrCode: string; backupCodes: string[] }>> {
+export async function setupTwoFactor(): Promise<AuthResponse<{ secret: string; qrCode: string }>> {
   try {
     console.log('🔒 AuthService: Setting up 2FA');
-    // In a real implementation, this would generate a TOTP secret and QR code
-    const secret = 'JBSWY3DPEHPK3PXP'; // Example secret
-    const qrCode = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
-    const backupCodes = ['123456', '789012', '345678', '901234', '567890'];
-    
+    const { data: sessionData } = await getSession();
+    const accessToken = sessionData?.access_token;
+
+    if (!accessToken) {
+      return { data: null, error: 'No access token available' };
+    }
+
+    const { data, error } = await callTwoFactorFunction<{ secret: string; otpauthUrl: string }>('setup', {}, accessToken);
+
+    if (error || !data) {
+      console.warn('❌ AuthService: 2FA setup failed:', error);
+      return { data: null, error: error || 'Failed to set up 2FA' };
+    }
+
+    const qrCode = await QRCode.toDataURL(data.otpauthUrl, { width: 256, margin: 1 });
+
     return { 
-      data: { secret, qrCode, backupCodes }, 
+      data: { secret: data.secret, qrCode }, 
       error: null 
     };
   } catch (error) {
@@ -296,76 +413,109 @@ export async function setupTwoFactor(): Promise<AuthResponse<{ secret: string; q
 /**
  * Enable two-factor authentication
  */
-export async function enableTwoFactor(userId: string, token: string): Promise<AuthResponse<{ backupCodes: string[] }>> {
+export async function enableTwoFactor(token: string): Promise<AuthResponse<{ backupCodes: string[] }>> {
   try {
     console.log('🔒 AuthService: Enabling 2FA');
-    // In a real implementation, this would verify the token first
-    
-    // Generate backup codes
-    const backupCodes = Array.from({ length: 10 }, () => 
-      Math.random().toString(36).substring(2, 8).toUpperCase()
-    );
+    const { data: sessionData } = await getSession();
+    const accessToken = sessionData?.access_token;
 
-    console.log('🔄 AuthService: Updating user profile with 2FA settings');
-    const { error } = await supabase
-      .from('user_profiles')
-      .update({
-        two_factor_enabled: true,
-        backup_codes: backupCodes
-      })
-      .eq('user_id', userId);
+    if (!accessToken) {
+      return { data: null, error: 'No access token available' };
+    }
 
-    if (error) {
-      console.error('❌ AuthService: Error updating user profile:', error);
-      return { data: null, error: 'Failed to enable 2FA' };
+    // The edge function verifies the code against the pending secret before activating it,
+    // then issues backup codes and stores only their hashes
+    const { data, error } = await callTwoFactorFunction<{ backupCodes: string[] }>('enable', { code: token }, accessToken);
+
+    if (error || !data) {
+      console.warn('❌ AuthService: 2FA code rejected:', error);
+      return { data: null, error: error || 'Failed to enable 2FA' };
     }
 
     console.log('✅ AuthService: 2FA enabled successfully');
-    return { data: { backupCodes }, error: null };
+    return { data: { backupCodes: data.backupCodes }, error: null };
   } catch (error) {
     console.error('❌ AuthService: Error enabling 2FA:', error);
     return { data: null, error: 'Failed to enable 2FA' };
   }
 }
 
+/**
+ * Get the number of unused backup codes for the current user
+ */
+export async function getBackupCodeStatus(): Promise<AuthResponse<{ remainingBackupCodes: number }>> {
+  try {
+    const { data: sessionData } = await getSession();
+    const accessToken = sessionData?.access_token;
+
+    if (!accessToken) {
+      return { data: null, error: 'No access token available' };
+    }
+
+    const { data, error } = await callTwoFactorFunction<{ remainingBackupCodes: number }>('status', {}, accessToken);
+
+    if (error || !data) {
+      return { data: null, error: error || 'Failed to load backup code status' };
+    }
+
+    return { data: { remainingBackupCodes: data.remainingBackupCodes }, error: null };
+  } catch (error) {
+    console.error('❌ AuthService: Error loading backup code status:', error);
+    return { data: null, error: 'Failed to load backup code status' };
+  }
+}
+
+/**
+ * Replace all backup codes with a new set. Requires a current authenticator code.
+ */
+export async function regenerateBackupCodes(token: string): Promise<AuthResponse<{ backupCodes: string[] }>> {
+  try {
+    console.log('🔒 AuthService: Regenerating backup codes');
+    const { data: sessionData } = await getSession();
+    const accessToken = sessionData?.access_token;
+
+    if (!accessToken) {
+      return { data: null, error: 'No access token available' };
+    }
+
+    const { data, error } = await callTwoFactorFunction<{ backupCodes: string[] }>(
+      'regenerate-backup-codes',
+      { code: token },
+      accessToken
+    );
+
+    if (error || !data) {
+      console.warn('❌ AuthService: Failed to regenerate backup codes:', error);
+      return { data: null, error: error || 'Failed to regenerate backup codes' };
+    }
+
+    console.log('✅ AuthService: Backup codes regenerated');
+    return { data: { backupCodes: data.backupCodes }, error: null };
+  } catch (error) {
+    console.error('❌ AuthService: Error regenerating backup codes:', error);
+    return { data: null, error: 'Failed to regenerate backup codes' };
+  }
+}
+
 /**
  * Disable two-factor authentication
  */
-export async function disableTwoFactor(userId: string, password: string): Promise<AuthResponse<null>> {
+export async function disableTwoFactor(password: string): Promise<AuthResponse<null>> {
   try {
     console.log('🔒 AuthService: Disabling 2FA');
-    
-    // Get user email
-    const { data: userData, error: userError } = await supabase.auth.getUser();
-    if (userError || !userData.user) {
-      return { data: null, error: 'User not found' };
-    }
-    
-    // Verify password
-    console.log('🔍 AuthService: Verifying password before disabling 2FA');
-    const { error: authError } = await supabase.auth.signInWithPassword({
-      email: userData.user.email || '',
-      password
-    });
+    const { data: sessionData } = await getSession();
+    const accessToken = sessionData?.access_token;
 
-    if (authError) {
-      console.warn('❌ AuthService: Invalid password when disabling 2FA');
-      return { data: null, error: 'Invalid password' };
+    if (!accessToken) {
+      return { data: null, error: 'No access token available' };
     }
 
-    console.log('🔄 AuthService: Updating user profile to disable 2FA');
-    const { error } = await supabase
-      .from('user_profiles')
-      .update({
-        two_factor_enabled: false,
-        two_factor_secret: null,
-        backup_codes: null
-      })
-      .eq('user_id', userId);
+    // The edge function re-checks the password before removing the secret
+    const { error } = await callTwoFactorFunction('disable', { password }, accessToken);
 
     if (error) {
-      console.error('❌ AuthService: Error updating user profile:', error);
-      return { data: null, error: 'Failed to disable 2FA' };
+      console.warn('❌ AuthService: Failed to disable 2FA:', error);
+      return { data: null, error };
     }
 
     console.log('✅ AuthService: 2FA disabled successfully');
@@ -376,6 +526,392 @@ export async function disableTwoFactor(userId: string, password: string): Promis
   }
 }
 
+async function callSessionFunction<T = Record<string, unknown>>(
+  action: 'heartbeat' | 'end' | 'revoke' | 'reauthenticate',
+  payload: Record<string, unknown> = {}
+): Promise<AuthResponse<T>> {
+  const { data: sessionData } = await getSession();
+  const accessToken = sessionData?.access_token;
+
+  if (!accessToken) {
+    return { data: null, error: 'No access token available' };
+  }
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/sessions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`
+    },
+    body: JSON.stringify({ action, ...payload })
+  });
+
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    return { data: null, error: result.error || 'Session request failed' };
+  }
+
+  return { data: result as T, error: null };
+}
+
+/**
+ * Report the current session to the session policy engine.
+ * `valid: false` means the session has been ended server-side, or was never registered by a sign-in.
+ */
+export async function sendSessionHeartbeat(active: boolean): Promise<AuthResponse<{ valid: boolean; reason?: SessionEndReason }>> {
+  try {
+    return await callSessionFunction<{ valid: boolean; reason?: SessionEndReason }>('heartbeat', { active });
+  } catch (error) {
+    console.error('❌ AuthService: Error sending session heartbeat:', error);
+    return { data: null, error: 'Failed to send session heartbeat' };
+  }
+}
+
+/**
+ * Mark the current session as ended before signing out
+ */
+export async function endSession(reason: 'signed_out' | 'idle_timeout'): Promise<AuthResponse<null>> {
+  try {
+    const { error } = await callSessionFunction('end', { reason });
+    return { data: null, error };
+  } catch (error) {
+    console.error('❌ AuthService: Error ending session:', error);
+    return { data: null, error: 'Failed to end session' };
+  }
+}
+
+/**
+ * Confirm the password or a TOTP code so the current session may perform
+ * actions gated by step-up re-authentication for the next few minutes
+ */
+export async function reauthenticate(credential: { password: string } | { code: string }): Promise<AuthResponse<{ reauthenticatedAt: string }>> {
+  try {
+    console.log('🔐 AuthService: Re-authenticating session');
+    const { data, error } = await callSessionFunction<{ reauthenticatedAt: string }>('reauthenticate', credential);
+
+    if (error || !data) {
+      console.warn('❌ AuthService: Re-authentication failed:', error);
+      return { data: null, error: error || 'Re-authentication failed' };
+    }
+
+    return { data: { reauthenticatedAt: data.reauthenticatedAt }, error: null };
+  } catch (error) {
+    console.error('❌ AuthService: Error re-authenticating:', error);
+    return { data: null, error: 'Re-authentication failed' };
+  }
+}
+
+/**
+ * Revoke one session, or every active session of a user (admins only)
+ */
+export async function revokeSessions(target: { sessionId: string } | { userId: string }): Promise<AuthResponse<{ revoked: number }>> {
+  try {
+    console.log('🚫 AuthService: Revoking sessions:', target);
+    const { data, error } = await callSessionFunction<{ revoked: number }>('revoke', target);
+
+    if (error || !data) {
+      console.warn('❌ AuthService: Failed to revoke sessions:', error);
+      return { data: null, error: error || 'Failed to revoke sessions' };
+    }
+
+    return { data: { revoked: data.revoked }, error: null };
+  } catch (error) {
+    console.error('❌ AuthService: Error revoking sessions:', error);
+    return { data: null, error: 'Failed to revoke sessions' };
+  }
+}
+
+export interface SsoDomainVerification {
+  domain: string;
+  recordName: string;
+  recordValue: string;
+  verifiedAt: string | null;
+}
+
+// Organization OIDC provider as returned by the sso edge function; the client secret is write-only
+export interface SsoConfig {
+  enabled: boolean;
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  hasClientSecret?: boolean;
+  scopes: string;
+  emailDomains: string[];
+  // Read-only: the DNS challenge for each listed domain; logins route only through verified domains
+  domainVerifications?: SsoDomainVerification[];
+  redirectUris: string[];
+  roleClaim: string | null;
+  roleMapping: Record<string, 'admin' | 'manager' | 'user'>;
+  departmentClaim: string | null;
+  defaultRole: 'admin' | 'manager' | 'user';
+  requireSso: boolean;
+}
+
+/**
+ * Call the sso edge function. Starting and completing a login need no session;
+ * configuration actions are sent with the current access token.
+ */
+async function callSsoFunction<T = Record<string, unknown>>(
+  action: 'start' | 'callback' | 'get-config' | 'save-config' | 'test-config' | 'verify-domain',
+  payload: Record<string, unknown> = {},
+  authenticated = false
+): Promise<AuthResponse<T>> {
+  let accessToken: string | undefined;
+
+  if (authenticated) {
+    const { data: sessionData } = await getSession();
+    accessToken = sessionData?.access_token;
+
+    if (!accessToken) {
+      return { data: null, error: 'No access token available' };
+    }
+  }
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/sso`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(accessToken ? { 'Authorization': `Bearer ${accessToken}` } : {})
+    },
+    body: JSON.stringify({ action, ...payload })
+  });
+
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    return { data: null, error: result.error || 'Single sign-on request failed' };
+  }
+
+  return { data: result as T, error: null };
+}
+
+/**
+ * Start an SSO login for the organization that owns the email's domain.
+ * Returns the identity provider URL the browser should be sent to.
+ */
+export async function startSsoSignIn(email: string, redirectUri: string): Promise<AuthResponse<{ authorizationUrl: string }>> {
+  try {
+    console.log('🔑 AuthService: Starting SSO sign in:', { email });
+    const { data, error } = await callSsoFunction<{ authorizationUrl: string }>('start', { email, redirectUri });
+
+    if (error || !data) {
+      console.warn('❌ AuthService: Failed to start SSO sign in:', error);
+      return { data: null, error: error || 'Failed to start single sign-on' };
+    }
+
+    return { data: { authorizationUrl: data.authorizationUrl }, error: null };
+  } catch (error) {
+    console.error('❌ AuthService: Error starting SSO sign in:', error);
+    return { data: null, error: 'Failed to start single sign-on' };
+  }
+}
+
+/**
+ * Complete an SSO login with the code and state the identity provider redirected back with.
+ * The user's profile is created on first login.
+ */
+export async function completeSsoSignIn(code: string, state: string): Promise<AuthResponse<{ user: User | null; session: Session | null }>> {
+  try {
+    console.log('🔑 AuthService: Completing SSO sign in');
+    const { data, error } = await callSsoFunction<{ session: { access_token: string; refresh_token: string } }>('callback', { code, state });
+
+    if (error || !data) {
+      console.warn('❌ AuthService: SSO sign in failed:', error);
+      return { data: null, error: error || 'Single sign-on failed' };
+    }
+
+    const { data: sessionData, error: sessionError } = await supabase.auth.setSession(data.session);
+
+    if (sessionError) {
+      console.warn('❌ AuthService: Failed to establish session after SSO:', sessionError.message);
+      return { data: null, error: sessionError.message };
+    }
+
+    console.log('✅ AuthService: SSO sign in successful:', { userId: sessionData.user?.id });
+    return { data: { user: sessionData.user, session: sessionData.session }, error: null };
+  } catch (error) {
+    console.error('❌ AuthService: Error completing SSO sign in:', error);
+    return { data: null, error: 'Single sign-on failed' };
+  }
+}
+
+/**
+ * Load the organization's SSO configuration (admins only)
+ */
+export async function getSsoConfig(): Promise<AuthResponse<SsoConfig | null>> {
+  try {
+    const { data, error } = await callSsoFunction<{ config: SsoConfig | null }>('get-config', {}, true);
+    return { data: data?.config ?? null, error };
+  } catch (error) {
+    console.error('❌ AuthService: Error loading SSO configuration:', error);
+    return { data: null, error: 'Failed to load SSO configuration' };
+  }
+}
+
+/**
+ * Save the organization's SSO configuration (admins only).
+ * Leave clientSecret empty to keep the stored secret.
+ */
+export async function saveSsoConfig(config: SsoConfig): Promise<AuthResponse<null>> {
+  try {
+    console.log('🔑 AuthService: Saving SSO configuration');
+    const { error } = await callSsoFunction('save-config', { config }, true);
+    return { data: null, error };
+  } catch (error) {
+    console.error('❌ AuthService: Error saving SSO configuration:', error);
+    return { data: null, error: 'Failed to save SSO configuration' };
+  }
+}
+
+/**
+ * Check that an issuer publishes a usable OIDC discovery document (admins only)
+ */
+export async function testSsoIssuer(issuer: string): Promise<AuthResponse<{ issuer: string; authorizationEndpoint: string }>> {
+  try {
+    const { data, error } = await callSsoFunction<{ issuer: string; authorizationEndpoint: string }>('test-config', { issuer }, true);
+    return { data: data ? { issuer: data.issuer, authorizationEndpoint: data.authorizationEndpoint } : null, error };
+  } catch (error) {
+    console.error('❌ AuthService: Error testing SSO issuer:', error);
+    return { data: null, error: 'Failed to reach the issuer' };
+  }
+}
+
+/**
+ * Check the DNS TXT record that proves the organization owns an SSO email domain (super admins only)
+ */
+export async function verifySsoDomain(domain: string): Promise<AuthResponse<{ verifiedAt: string }>> {
+  try {
+    console.log('🔑 AuthService: Verifying SSO domain:', { domain });
+    const { data, error } = await callSsoFunction<{ verifiedAt: string }>('verify-domain', { domain }, true);
+    return { data: data ? { verifiedAt: data.verifiedAt } : null, error };
+  } catch (error) {
+    console.error('❌ AuthService: Error verifying SSO domain:', error);
+    return { data: null, error: 'Failed to verify the domain' };
+  }
+}
+
+export interface ScimToken {
+  id: string;
+  name: string;
+  token_prefix: string;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+export interface ScimGroup {
+  id: string;
+  displayName: string;
+  memberCount: number;
+  mappedRole: 'admin' | 'manager' | 'user' | null;
+  mappedDepartment: string | null;
+}
+
+/**
+ * Call the administrative routes of the scim edge function with the current access token
+ */
+async function callScimAdminFunction<T = Record<string, unknown>>(
+  method: 'GET' | 'POST' | 'PATCH' | 'DELETE',
+  path: string,
+  payload?: Record<string, unknown>
+): Promise<AuthResponse<T>> {
+  const { data: sessionData } = await getSession();
+  const accessToken = sessionData?.access_token;
+
+  if (!accessToken) {
+    return { data: null, error: 'No access token available' };
+  }
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/scim/admin/${path}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`
+    },
+    body: payload ? JSON.stringify(payload) : undefined
+  });
+
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    return { data: null, error: result.error || 'SCIM request failed' };
+  }
+
+  return { data: result as T, error: null };
+}
+
+/**
+ * List the organization's SCIM tokens (admins only)
+ */
+export async function getScimTokens(): Promise<AuthResponse<ScimToken[]>> {
+  try {
+    const { data, error } = await callScimAdminFunction<{ tokens: ScimToken[] }>('GET', 'tokens');
+    return { data: data?.tokens ?? null, error };
+  } catch (error) {
+    console.error('❌ AuthService: Error loading SCIM tokens:', error);
+    return { data: null, error: 'Failed to load SCIM tokens' };
+  }
+}
+
+/**
+ * Create a SCIM token. The secret is only returned once.
+ */
+export async function createScimToken(name: string): Promise<AuthResponse<{ token: ScimToken; secret: string }>> {
+  try {
+    console.log('🔑 AuthService: Creating SCIM token:', { name });
+    const { data, error } = await callScimAdminFunction<{ token: ScimToken; secret: string }>('POST', 'tokens', { name });
+    return { data: data ? { token: data.token, secret: data.secret } : null, error };
+  } catch (error) {
+    console.error('❌ AuthService: Error creating SCIM token:', error);
+    return { data: null, error: 'Failed to create SCIM token' };
+  }
+}
+
+/**
+ * Revoke a SCIM token so the provisioning system can no longer use it
+ */
+export async function revokeScimToken(tokenId: string): Promise<AuthResponse<null>> {
+  try {
+    console.log('🚫 AuthService: Revoking SCIM token:', { tokenId });
+    const { error } = await callScimAdminFunction('DELETE', `tokens/${tokenId}`);
+    return { data: null, error };
+  } catch (error) {
+    console.error('❌ AuthService: Error revoking SCIM token:', error);
+    return { data: null, error: 'Failed to revoke SCIM token' };
+  }
+}
+
+/**
+ * List groups pushed by the provisioning system with their role and department mappings
+ */
+export async function getScimGroups(): Promise<AuthResponse<ScimGroup[]>> {
+  try {
+    const { data, error } = await callScimAdminFunction<{ groups: ScimGroup[] }>('GET', 'groups');
+    return { data: data?.groups ?? null, error };
+  } catch (error) {
+    console.error('❌ AuthService: Error loading SCIM groups:', error);
+    return { data: null, error: 'Failed to load SCIM groups' };
+  }
+}
+
+/**
+ * Map a SCIM group to a role and/or department; members are updated immediately
+ */
+export async function updateScimGroupMapping(
+  groupId: string,
+  mapping: { mappedRole: ScimGroup['mappedRole']; mappedDepartment: string | null }
+): Promise<AuthResponse<null>> {
+  try {
+    console.log('🔑 AuthService: Updating SCIM group mapping:', { groupId, ...mapping });
+    const { error } = await callScimAdminFunction('PATCH', `groups/${groupId}`, mapping);
+    return { data: null, error };
+  } catch (error) {
+    console.error('❌ AuthService: Error updating SCIM group mapping:', error);
+    return { data: null, error: 'Failed to update group mapping' };
+  }
+}
+
 /**
  * Get invitation details
  */
@@ -0,0 +1,195 @@
+import { supabase, Database } from '../lib/supabase';
+
+/**
+ * Service for incident evidence in the private incident-evidence bucket. Files are uploaded directly
+ * to storage and then registered through the incident-evidence function, which hashes the stored
+ * object, signs download links and audits every download
+ */
+
+export type IncidentEvidence = Database['public']['Tables']['incident_evidence']['Row'];
+
+interface EvidenceResponse<T> {
+  data: T | null;
+  error: string | null;
+  reauthRequired?: boolean;
+}
+
+const BUCKET = 'incident-evidence';
+const THUMBNAIL_SIZE = 320;
+
+// Matches the bucket's allowed_mime_types and file_size_limit
+export const evidenceAccept = 'image/*,application/pdf,video/*';
+export const maxEvidenceSize = 100 * 1024 * 1024;
+
+export const isAllowedEvidenceType = (file: File): boolean =>
+  file.type.startsWith('image/') || file.type.startsWith('video/') || file.type === 'application/pdf';
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+async function callEvidenceFunction<T = Record<string, unknown>>(
+  action: 'register' | 'download' | 'thumbnails' | 'delete',
+  payload: Record<string, unknown> = {}
+): Promise<EvidenceResponse<T>> {
+  const { data: sessionData } = await supabase.auth.getSession();
+  const accessToken = sessionData.session?.access_token;
+
+  if (!accessToken) {
+    return { data: null, error: 'No access token available' };
+  }
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/incident-evidence`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`
+    },
+    body: JSON.stringify({ action, ...payload })
+  });
+
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    return { data: null, error: result.error || 'Evidence request failed', reauthRequired: !!result.reauthRequired };
+  }
+
+  return { data: result as T, error: null };
+}
+
+/**
+ * Hex SHA-256 of a file, checked against the stored object when the evidence is registered
+ */
+export async function computeSha256(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+const drawThumbnail = (source: CanvasImageSource, width: number, height: number): Promise<Blob | null> => {
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  canvas.getContext('2d')?.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.8));
+};
+
+/**
+ * JPEG preview of an image or of a video's first second; null for PDFs or files the browser cannot decode
+ */
+export async function createThumbnail(file: File): Promise<Blob | null> {
+  try {
+    if (file.type.startsWith('image/')) {
+      const bitmap = await createImageBitmap(file);
+      const thumbnail = await drawThumbnail(bitmap, bitmap.width, bitmap.height);
+      bitmap.close();
+      return thumbnail;
+    }
+
+    if (file.type.startsWith('video/')) {
+      const url = URL.createObjectURL(file);
+      try {
+        const video = document.createElement('video');
+        video.muted = true;
+        video.preload = 'metadata';
+        video.src = url;
+        await new Promise<void>((resolve, reject) => {
+          video.onloadeddata = () => resolve();
+          video.onerror = () => reject(new Error('Video could not be decoded'));
+        });
+        video.currentTime = Math.min(1, video.duration / 2 || 0);
+        await new Promise<void>(resolve => { video.onseeked = () => resolve(); });
+        return await drawThumbnail(video, video.videoWidth, video.videoHeight);
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+    }
+  } catch (error) {
+    console.warn('Could not create evidence thumbnail:', error);
+  }
+
+  return null;
+}
+
+/**
+ * Upload a file as evidence for an incident and register it with its SHA-256
+ */
+export async function uploadEvidence(
+  organizationId: string,
+  incidentId: string,
+  file: File,
+  description?: string
+): Promise<EvidenceResponse<IncidentEvidence>> {
+  if (!isAllowedEvidenceType(file)) {
+    return { data: null, error: `${file.name}: only photos, PDFs and videos can be attached` };
+  }
+  if (file.size > maxEvidenceSize) {
+    return { data: null, error: `${file.name}: files can be at most ${formatFileSize(maxEvidenceSize)}` };
+  }
+
+  try {
+    const folder = `${organizationId}/${incidentId}/${crypto.randomUUID()}`;
+    const path = `${folder}/${file.name.replace(/[^\w.-]+/g, '_')}`;
+    const [sha256, thumbnail] = await Promise.all([computeSha256(file), createThumbnail(file)]);
+
+    const { error: uploadError } = await supabase.storage
+      .from(BUCKET)
+      .upload(path, file, { contentType: file.type, upsert: false });
+
+    if (uploadError) {
+      return { data: null, error: `${file.name}: ${uploadError.message}` };
+    }
+
+    let thumbnailPath: string | null = null;
+    if (thumbnail) {
+      const { error: thumbnailError } = await supabase.storage
+        .from(BUCKET)
+        .upload(`${folder}/thumbnail.jpg`, thumbnail, { contentType: 'image/jpeg', upsert: false });
+      thumbnailPath = thumbnailError ? null : `${folder}/thumbnail.jpg`;
+    }
+
+    const { data, error } = await callEvidenceFunction<{ evidence: IncidentEvidence }>('register', {
+      incidentId,
+      path,
+      thumbnailPath,
+      fileName: file.name,
+      description: description || null,
+      sha256
+    });
+
+    return { data: data?.evidence || null, error: error && `${file.name}: ${error}` };
+  } catch (error) {
+    console.error('Error uploading evidence:', error);
+    return { data: null, error: `${file.name}: upload failed` };
+  }
+}
+
+export async function listEvidence(incidentId: string): Promise<EvidenceResponse<IncidentEvidence[]>> {
+  const { data, error } = await supabase
+    .from('incident_evidence')
+    .select('*')
+    .eq('incident_id', incidentId)
+    .order('uploaded_at', { ascending: true });
+
+  return { data: data || null, error: error?.message || null };
+}
+
+/**
+ * Short-lived signed URL for one file; the request is recorded in the audit log
+ */
+export async function getEvidenceDownloadUrl(evidenceId: string): Promise<EvidenceResponse<string>> {
+  const { data, error } = await callEvidenceFunction<{ url: string }>('download', { evidenceId });
+  return { data: data?.url || null, error };
+}
+
+export async function getEvidenceThumbnails(incidentId: string): Promise<EvidenceResponse<Record<string, string>>> {
+  const { data, error } = await callEvidenceFunction<{ thumbnails: Record<string, string> }>('thumbnails', { incidentId });
+  return { data: data?.thumbnails || null, error };
+}
+
+export async function deleteEvidence(evidenceId: string): Promise<EvidenceResponse<null>> {
+  const { error, reauthRequired } = await callEvidenceFunction('delete', { evidenceId });
+  return { data: null, error, reauthRequired };
+}
@@ -0,0 +1,103 @@
+/**
+ * Service for the public incident reporting portal. Used without a session, so requests to the
+ * incident-portal function carry only the anon key
+ */
+
+export interface PortalInfo {
+  organizationName: string;
+  allowAnonymous: boolean;
+  departments: string[];
+  maxFiles: number;
+  maxFileSize: number;
+}
+
+export interface PortalReport {
+  title: string;
+  description: string;
+  dateTime: string;
+  severity: 'Low' | 'Medium' | 'High' | 'Critical';
+  location: string;
+  coordinates: [number, number] | null;
+  department: string;
+  immediateActions: string | null;
+  anonymous: boolean;
+  reporterName: string | null;
+  reporterEmail: string | null;
+  reporterPhone: string | null;
+}
+
+export interface PortalSubmission {
+  trackingCode: string;
+  filesStored: number;
+  filesRejected: number;
+}
+
+export interface PortalReportStatus {
+  title: string;
+  status: string;
+  category: 'open' | 'active' | 'closed';
+  verified: boolean;
+  submittedAt: string;
+  updatedAt: string;
+}
+
+interface PortalResponse<T> {
+  data: T | null;
+  error: string | null;
+}
+
+const PORTAL_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/incident-portal`;
+
+async function callPortalFunction<T>(body: BodyInit, contentType?: string): Promise<PortalResponse<T>> {
+  try {
+    const response = await fetch(PORTAL_URL, {
+      method: 'POST',
+      headers: {
+        ...(contentType ? { 'Content-Type': contentType } : {}),
+        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`
+      },
+      body
+    });
+
+    const result = await response.json();
+
+    if (!response.ok || !result.success) {
+      return { data: null, error: result.error || 'Request failed' };
+    }
+
+    return { data: result as T, error: null };
+  } catch (error) {
+    console.error('Error calling reporting portal:', error);
+    return { data: null, error: 'Could not reach the reporting service. Please check your connection.' };
+  }
+}
+
+export async function getPortalInfo(token: string): Promise<PortalResponse<PortalInfo>> {
+  return callPortalFunction<PortalInfo>(JSON.stringify({ action: 'portal', token }), 'application/json');
+}
+
+/**
+ * Submit a report with its attachments; the tracking code in the result is only returned once
+ */
+export async function submitPortalReport(
+  token: string,
+  report: PortalReport,
+  files: File[]
+): Promise<PortalResponse<PortalSubmission>> {
+  const form = new FormData();
+  form.append('action', 'submit');
+  form.append('token', token);
+  form.append('report', JSON.stringify(report));
+  files.forEach(file => form.append('files', file));
+
+  // The browser sets the multipart boundary itself
+  return callPortalFunction<PortalSubmission>(form);
+}
+
+export async function getPortalReportStatus(token: string, trackingCode: string): Promise<PortalResponse<PortalReportStatus>> {
+  const { data, error } = await callPortalFunction<{ report: PortalReportStatus }>(
+    JSON.stringify({ action: 'status', token, trackingCode }),
+    'application/json'
+  );
+  return { data: data?.report || null, error };
+}
@@ -135,6 +135,48 @@ export async function createEventNotification({
   });
 }
 
+/**
+ * Notify users who were @mentioned in a comment, skipping the author
+ * @param params Parameters for the notifications
+ * @returns The number of notifications created
+ */
+export async function createMentionNotifications({
+  organizationId,
+  authorId,
+  authorName,
+  mentionedUserIds,
+  resourceType,
+  resourceId,
+  resourceName,
+  excerpt
+}: {
+  organizationId: string;
+  authorId: string | null;
+  authorName: string;
+  mentionedUserIds: string[];
+  resourceType: 'incident' | 'risk';
+  resourceId: string;
+  resourceName: string;
+  excerpt: string;
+}): Promise<number> {
+  const recipients = [...new Set(mentionedUserIds)].filter(userId => userId !== authorId);
+  const message = excerpt.length > 200 ? `${excerpt.slice(0, 200)}…` : excerpt;
+
+  const created = await Promise.all(recipients.map(userId => createNotification({
+    organization_id: organizationId,
+    user_id: userId,
+    type: 'info',
+    title: `${authorName} mentioned you on ${resourceName}`,
+    message,
+    category: resourceType,
+    priority: 'medium',
+    resource_type: resourceType,
+    resource_id: resourceId
+  })));
+
+  return created.filter(Boolean).length;
+}
+
 /**
  * Mark a notification as read
  * @param id The ID of the notification to mark as read
@@ -0,0 +1,7 @@
+export type IncidentCostCategory =
+  | 'direct_loss'
+  | 'recovery'
+  | 'business_interruption'
+  | 'legal'
+  | 'regulatory'
+  | 'other';
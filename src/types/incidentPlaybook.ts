@@ -0,0 +1,21 @@
+export type PlaybookRole = 'super_admin' | 'admin' | 'manager' | 'user';
+
+export interface AppliedPlaybookStep {
+  id: string;
+  title: string;
+  role: PlaybookRole | null;
+  // Minutes from when the incident was reported
+  target_minutes: number | null;
+  completed_at: string | null;
+  completed_by: string | null;
+  completed_by_name: string | null;
+}
+
+// Snapshot of a playbook taken when it was applied to an incident
+export interface AppliedPlaybook {
+  id: string;
+  name: string;
+  applied_at: string;
+  applied_by: string | null;
+  steps: AppliedPlaybookStep[];
+}
@@ -0,0 +1,10 @@
+export type ReviewStatus = 'draft' | 'completed';
+
+export type RootCauseMethod = 'five_whys' | 'fishbone';
+
+export type FishboneCategory = 'people' | 'process' | 'technology' | 'environment' | 'management' | 'external';
+
+// Causes listed under each fishbone category; categories without causes may be missing
+export type FishboneAnalysis = Partial<Record<FishboneCategory, string[]>>;
+
+export type ReviewActionStatus = 'open' | 'in_progress' | 'done' | 'cancelled';
@@ -0,0 +1,96 @@
+export type IncidentTimelineEntryType =
+  | 'status_change'
+  | 'note'
+  | 'action_taken'
+  | 'evidence_added'
+  | 'assignment'
+  | 'external_contact'
+  | 'sla_breach'
+  | 'merge'
+  | 'playbook';
+
+// Entry types responders write themselves; the others are recorded by the database and edge functions
+export type AuthoredTimelineEntryType = 'note' | 'action_taken' | 'external_contact';
+
+export interface BaseTimelineEntry {
+  id: string;
+  type: IncidentTimelineEntryType;
+  timestamp: string;
+  action: string;
+  user: string;
+  user_id: string | null;
+  // Set on entries that came from an incident merged into this one
+  merged_from?: string;
+  merged_from_title?: string;
+}
+
+export interface StatusChangeEntry extends BaseTimelineEntry {
+  type: 'status_change';
+  from: string | null;
+  to: string;
+}
+
+export interface AuthoredTimelineEntry extends BaseTimelineEntry {
+  type: AuthoredTimelineEntryType;
+  body: string;
+  mentions?: string[];
+  contact?: string | null;
+  corrects?: string | null;
+}
+
+export interface EvidenceAddedEntry extends BaseTimelineEntry {
+  type: 'evidence_added';
+  evidence_id: string;
+  file_name: string;
+  sha256: string;
+}
+
+export interface AssignmentEntry extends BaseTimelineEntry {
+  type: 'assignment';
+  // Assignee user ids
+  from: string | null;
+  to: string | null;
+  team_id?: string | null;
+  assignee: string | null;
+  // Set when an on-call schedule picked the assignee
+  on_call_schedule?: string | null;
+}
+
+export interface SlaBreachEntry extends BaseTimelineEntry {
+  type: 'sla_breach';
+  targets: string[];
+}
+
+export interface MergeEntry extends BaseTimelineEntry {
+  type: 'merge';
+  // On the master record
+  merged_incident_ids?: string[];
+  // On each merged incident
+  merged_into?: string;
+}
+
+export interface PlaybookEntry extends BaseTimelineEntry {
+  type: 'playbook';
+  playbook_name: string;
+  // Set when a checklist step was ticked or unticked rather than the playbook applied
+  step_id?: string;
+  step_title?: string;
+  completed?: boolean;
+}
+
+export type IncidentTimelineEntry =
+  | StatusChangeEntry
+  | AuthoredTimelineEntry
+  | EvidenceAddedEntry
+  | AssignmentEntry
+  | SlaBreachEntry
+  | MergeEntry
+  | PlaybookEntry;
+
+export interface NewTimelineEntry {
+  type: AuthoredTimelineEntryType;
+  body: string;
+  mentions: string[];
+  contact?: string;
+  corrects?: string;
+}
@@ -35,6 +35,9 @@ export interface MitigationSelectorProps {
   selectedMitigations: AppliedMitigation[];
   onMitigationsChange: (mitigations: AppliedMitigation[]) => void;
   disabled?: boolean;
+  // Score before controls; when given, the residual score after the selected controls is shown
+  inherentScore?: number;
+  scoreDecimals?: number;
 }
 
 export interface MitigationDisplayProps {
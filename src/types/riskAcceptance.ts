@@ -0,0 +1,3 @@
+export type RiskAcceptanceStatus = 'pending' | 'approved' | 'rejected' | 'expired' | 'revoked';
+
+export type RiskAcceptanceApprover = 'manager' | 'admin' | 'executive';
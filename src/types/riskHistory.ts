@@ -0,0 +1 @@
+export type RiskVersionOperation = 'created' | 'updated' | 'deleted';
@@ -0,0 +1,3 @@
+export type RiskReviewStatus = 'pending' | 'completed' | 'cancelled';
+
+export type RiskReviewAttestation = 'still_accurate' | 'changed';
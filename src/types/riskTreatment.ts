@@ -0,0 +1 @@
+export type RiskTreatmentDecision = 'mitigate' | 'transfer' | 'avoid' | 'accept';
@@ -223,4 +223,7 @@ export const fallbackDepartments = [
   'Finance',
   'Physical Security',
   'Data Security'
-];
\ No newline at end of file
+];
+
+// Warn users when this many unused two-factor backup codes or fewer remain
+export const lowBackupCodeThreshold = 3;
@@ -0,0 +1,111 @@
+import { Database } from '../lib/supabase';
+import { IncidentSeverity, incidentSeverities, isSlaBreached } from './incidentSla';
+import { IncidentWorkflow, isClosedStatus } from './incidentWorkflow';
+import { MentionableUser } from './incidentTimeline';
+
+type IncidentReport = Database['public']['Tables']['incident_reports']['Row'];
+export type ResponderTeam = Database['public']['Tables']['responder_teams']['Row'];
+export type OnCallSchedule = Database['public']['Tables']['on_call_schedules']['Row'];
+export type OnCallOverride = Database['public']['Tables']['on_call_overrides']['Row'];
+
+export interface ResponderWorkload {
+  user: MentionableUser;
+  incidents: IncidentReport[];
+  bySeverity: Record<IncidentSeverity, number>;
+  breached: number;
+}
+
+export const shiftLengthOptions: { hours: number; label: string }[] = [
+  { hours: 8, label: '8 hours' },
+  { hours: 12, label: '12 hours' },
+  { hours: 24, label: 'Daily' },
+  { hours: 168, label: 'Weekly' },
+  { hours: 336, label: 'Fortnightly' }
+];
+
+/**
+ * Who is on call for a schedule at a time. Mirrors get_on_call_user(), which decides automatic
+ * assignment: the latest override covering the time wins, otherwise participants take turns
+ */
+export function getOnCallUserId(
+  schedule: OnCallSchedule,
+  overrides: OnCallOverride[],
+  at: Date = new Date()
+): string | null {
+  const override = overrides
+    .filter(item => item.schedule_id === schedule.id && new Date(item.starts_at) <= at && new Date(item.ends_at) > at)
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())[0];
+
+  if (override) return override.user_id;
+
+  const count = schedule.participant_user_ids.length;
+  if (count === 0) return null;
+
+  const shift = Math.floor((at.getTime() - new Date(schedule.rotation_starts_at).getTime()) / (schedule.shift_hours * 3600000));
+  return schedule.participant_user_ids[((shift % count) + count) % count];
+}
+
+/**
+ * When the current shift of a schedule ends, ignoring overrides
+ */
+export function getShiftEnd(schedule: OnCallSchedule, at: Date = new Date()): Date {
+  const start = new Date(schedule.rotation_starts_at).getTime();
+  const length = schedule.shift_hours * 3600000;
+  return new Date(start + (Math.floor((at.getTime() - start) / length) + 1) * length);
+}
+
+/**
+ * The schedule a new incident would be auto-assigned from, mirroring assign_incident(): a schedule
+ * naming both a department and a region beats one naming only one of them, which beats a catch-all
+ */
+export function findOnCallSchedule(
+  incident: Pick<IncidentReport, 'department' | 'location'>,
+  schedules: OnCallSchedule[]
+): OnCallSchedule | null {
+  const department = incident.department.trim().toLowerCase();
+  const location = incident.location.toLowerCase();
+
+  const matching = schedules.filter(schedule =>
+    schedule.auto_assign &&
+    (!schedule.department?.trim() || schedule.department.trim().toLowerCase() === department) &&
+    (!schedule.region?.trim() || location.includes(schedule.region.trim().toLowerCase()))
+  );
+
+  const specificity = (schedule: OnCallSchedule) => Number(!!schedule.department?.trim()) + Number(!!schedule.region?.trim());
+
+  return matching.sort((a, b) =>
+    specificity(b) - specificity(a) || new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  )[0] || null;
+}
+
+/**
+ * Open incidents per responder, busiest first. Every user is listed so idle responders show up as
+ * candidates for rebalancing; merged incidents are left out
+ */
+export function getResponderWorkload(
+  incidents: IncidentReport[],
+  workflow: IncidentWorkflow,
+  users: MentionableUser[],
+  now: Date = new Date()
+): ResponderWorkload[] {
+  const open = incidents.filter(incident => !incident.merged_into && !isClosedStatus(workflow, incident.status));
+
+  return users
+    .map(user => {
+      const assigned = open.filter(incident => incident.assigned_user_id === user.user_id);
+      return {
+        user,
+        incidents: assigned,
+        bySeverity: Object.fromEntries(
+          incidentSeverities.map(severity => [severity, assigned.filter(incident => incident.severity === severity).length])
+        ) as Record<IncidentSeverity, number>,
+        breached: assigned.filter(incident => isSlaBreached(incident, now)).length
+      };
+    })
+    .sort((a, b) => b.incidents.length - a.incidents.length || a.user.full_name.localeCompare(b.user.full_name));
+}
+
+export const getUnassignedIncidents = (incidents: IncidentReport[], workflow: IncidentWorkflow): IncidentReport[] =>
+  incidents.filter(incident =>
+    !incident.merged_into && !isClosedStatus(workflow, incident.status) && !incident.assigned_user_id
+  );
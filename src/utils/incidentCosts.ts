@@ -0,0 +1,174 @@
+import { Database } from '../lib/supabase';
+import { IncidentCostCategory } from '../types/incidentCost';
+
+type OrganizationSettings = Database['public']['Tables']['organizations']['Row']['settings'];
+type IncidentReport = Database['public']['Tables']['incident_reports']['Row'];
+export type IncidentCost = Database['public']['Tables']['incident_costs']['Row'];
+export type IncidentCostSettings = NonNullable<OrganizationSettings['incidentCosts']>;
+export type CostAsset = Pick<Database['public']['Tables']['assets']['Row'], 'id' | 'name' | 'type'>;
+
+export type CostBreakdown = 'department' | 'asset' | 'category';
+
+export interface CostBreakdownRow {
+  key: string;
+  label: string;
+  total: number;
+  incidentCount: number;
+}
+
+export interface CostSummary {
+  total: number;
+  incidentCount: number;
+  downtimeHours: number;
+  peopleAffected: number;
+  // Currencies without an exchange rate, whose costs are left out of the totals
+  unconvertedCurrencies: string[];
+}
+
+export const incidentCostCategories: IncidentCostCategory[] = [
+  'direct_loss',
+  'recovery',
+  'business_interruption',
+  'legal',
+  'regulatory',
+  'other'
+];
+
+export const incidentCostCategoryLabels: Record<IncidentCostCategory, string> = {
+  direct_loss: 'Direct loss',
+  recovery: 'Recovery',
+  business_interruption: 'Business interruption',
+  legal: 'Legal',
+  regulatory: 'Regulatory',
+  other: 'Other'
+};
+
+export const commonCurrencies = ['USD', 'EUR', 'GBP', 'CHF', 'CAD', 'AUD', 'JPY', 'SGD', 'AED', 'ZAR'];
+
+export const defaultIncidentCostSettings: IncidentCostSettings = {
+  baseCurrency: 'USD',
+  exchangeRates: {}
+};
+
+export const resolveIncidentCostSettings = (settings?: OrganizationSettings | null): IncidentCostSettings => ({
+  ...defaultIncidentCostSettings,
+  ...(settings?.incidentCosts || {})
+});
+
+export const isCurrencyCode = (code: string) => /^[A-Z]{3}$/.test(code);
+
+/**
+ * Problems that would make cost reporting wrong, as messages to show next to the editor
+ */
+export const validateIncidentCostSettings = (settings: IncidentCostSettings): string[] => {
+  const errors: string[] = [];
+
+  if (!isCurrencyCode(settings.baseCurrency)) {
+    errors.push('The base currency must be a three-letter ISO code, e.g. USD.');
+  }
+  Object.entries(settings.exchangeRates).forEach(([currency, rate]) => {
+    if (!isCurrencyCode(currency)) {
+      errors.push(`${currency || 'An exchange rate'} is not a three-letter currency code.`);
+    } else if (!(rate > 0)) {
+      errors.push(`The exchange rate for ${currency} must be greater than zero.`);
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * An amount in the base currency, or null when there is no exchange rate for its currency
+ */
+export function convertToBaseCurrency(amount: number, currency: string, settings: IncidentCostSettings): number | null {
+  if (currency === settings.baseCurrency) return amount;
+  const rate = settings.exchangeRates[currency];
+  return rate > 0 ? amount * rate : null;
+}
+
+export const formatCurrency = (amount: number, currency: string): string => {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency, maximumFractionDigits: 0 }).format(amount);
+  } catch {
+    return `${Math.round(amount).toLocaleString()} ${currency}`;
+  }
+};
+
+const sumInBaseCurrency = (costs: IncidentCost[], settings: IncidentCostSettings) =>
+  costs.reduce((total, cost) => total + (convertToBaseCurrency(cost.amount, cost.currency, settings) ?? 0), 0);
+
+export const getUnconvertedCurrencies = (costs: IncidentCost[], settings: IncidentCostSettings): string[] =>
+  [...new Set(costs.map(cost => cost.currency))]
+    .filter(currency => convertToBaseCurrency(1, currency, settings) === null)
+    .sort();
+
+/**
+ * Total cost of one incident in the base currency
+ */
+export const getIncidentCostTotal = (incidentId: string, costs: IncidentCost[], settings: IncidentCostSettings): number =>
+  sumInBaseCurrency(costs.filter(cost => cost.incident_id === incidentId), settings);
+
+/**
+ * Headline figures for the dashboard. Merged duplicates are left out of the impact figures since their
+ * master describes the same event; their cost lines already moved to the master
+ */
+export function getCostSummary(
+  incidents: IncidentReport[],
+  costs: IncidentCost[],
+  settings: IncidentCostSettings
+): CostSummary {
+  const counted = incidents.filter(incident => !incident.merged_into);
+
+  return {
+    total: sumInBaseCurrency(costs, settings),
+    incidentCount: new Set(costs.map(cost => cost.incident_id)).size,
+    downtimeHours: counted.reduce((total, incident) => total + (incident.downtime_hours || 0), 0),
+    peopleAffected: counted.reduce((total, incident) => total + (incident.people_affected || 0), 0),
+    unconvertedCurrencies: getUnconvertedCurrencies(costs, settings)
+  };
+}
+
+/**
+ * Costs in the base currency grouped by the incident's department, the asset a cost line names or the
+ * cost category, most expensive first
+ */
+export function getCostBreakdown(
+  breakdown: CostBreakdown,
+  incidents: IncidentReport[],
+  costs: IncidentCost[],
+  assets: CostAsset[],
+  settings: IncidentCostSettings
+): CostBreakdownRow[] {
+  const incidentsById = new Map(incidents.map(incident => [incident.id, incident]));
+  const assetsById = new Map(assets.map(asset => [asset.id, asset]));
+  const groups = new Map<string, { label: string; costs: IncidentCost[] }>();
+
+  costs.forEach(cost => {
+    let key: string;
+    let label: string;
+
+    if (breakdown === 'department') {
+      key = incidentsById.get(cost.incident_id)?.department || '';
+      label = key || 'Unknown department';
+    } else if (breakdown === 'asset') {
+      key = cost.asset_id || '';
+      label = cost.asset_id ? assetsById.get(cost.asset_id)?.name || 'Deleted asset' : 'Not tied to an asset';
+    } else {
+      key = cost.category;
+      label = incidentCostCategoryLabels[cost.category];
+    }
+
+    const group = groups.get(key) || { label, costs: [] };
+    group.costs.push(cost);
+    groups.set(key, group);
+  });
+
+  return [...groups.entries()]
+    .map(([key, group]) => ({
+      key,
+      label: group.label,
+      total: sumInBaseCurrency(group.costs, settings),
+      incidentCount: new Set(group.costs.map(cost => cost.incident_id)).size
+    }))
+    .sort((a, b) => b.total - a.total || a.label.localeCompare(b.label));
+}
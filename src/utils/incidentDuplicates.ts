@@ -0,0 +1,116 @@
+import { Database } from '../lib/supabase';
+
+type IncidentReport = Database['public']['Tables']['incident_reports']['Row'];
+type IncidentLink = Database['public']['Tables']['incident_links']['Row'];
+
+export type IncidentLinkType = IncidentLink['link_type'];
+
+export interface DuplicateDraft {
+  id?: string;
+  title: string;
+  date_time: string;
+  location_coordinates: [number, number] | null;
+}
+
+export interface DuplicateCandidate {
+  incident: IncidentReport;
+  score: number; // 0 to 1
+  hoursApart: number;
+  distanceKm: number | null;
+  titleSimilarity: number;
+}
+
+export interface DuplicateOptions {
+  windowHours: number;
+  radiusKm: number;
+  threshold: number;
+}
+
+export const defaultDuplicateOptions: DuplicateOptions = {
+  windowHours: 24,
+  radiusKm: 5,
+  threshold: 0.5
+};
+
+export const incidentLinkTypes: IncidentLinkType[] = ['duplicate_of', 'related_to', 'caused_by', 'part_of_campaign'];
+
+// Links read from source to target; the inverse labels describe the same link seen from the target
+export const incidentLinkTypeLabels: Record<IncidentLinkType, { outgoing: string; incoming: string }> = {
+  duplicate_of: { outgoing: 'Duplicate of', incoming: 'Has duplicate' },
+  related_to: { outgoing: 'Related to', incoming: 'Related to' },
+  caused_by: { outgoing: 'Caused by', incoming: 'Caused' },
+  part_of_campaign: { outgoing: 'Part of campaign with', incoming: 'Part of campaign with' }
+};
+
+const trigrams = (text: string): Set<string> => {
+  const normalized = ` ${text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()} `;
+  const grams = new Set<string>();
+  for (let i = 0; i < normalized.length - 2; i++) {
+    grams.add(normalized.slice(i, i + 3));
+  }
+  return grams;
+};
+
+/**
+ * Trigram similarity of two titles, from 0 (nothing shared) to 1 (same words)
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const gramsA = trigrams(a);
+  const gramsB = trigrams(b);
+  if (gramsA.size === 0 || gramsB.size === 0) return 0;
+
+  let shared = 0;
+  gramsA.forEach(gram => {
+    if (gramsB.has(gram)) shared++;
+  });
+
+  return shared / (gramsA.size + gramsB.size - shared);
+}
+
+/**
+ * Great-circle distance in kilometres between two [longitude, latitude] points
+ */
+export function distanceKm(a: [number, number], b: [number, number]): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const [lonA, latA] = a;
+  const [lonB, latB] = b;
+  const dLat = toRadians(latB - latA);
+  const dLon = toRadians(lonB - lonA);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(latA)) * Math.cos(toRadians(latB)) * Math.sin(dLon / 2) ** 2;
+
+  return 6371 * 2 * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Existing incidents that may describe the same event as a draft report, best match first.
+ * Only incidents within the time window are considered; nearness, when both have coordinates,
+ * and title similarity make up the score
+ */
+export function findDuplicateCandidates(
+  draft: DuplicateDraft,
+  incidents: IncidentReport[],
+  options: DuplicateOptions = defaultDuplicateOptions
+): DuplicateCandidate[] {
+  const draftTime = new Date(draft.date_time).getTime();
+  if (!draft.title.trim() || Number.isNaN(draftTime)) return [];
+
+  return incidents
+    .filter(incident => incident.id !== draft.id && !incident.merged_into)
+    .map(incident => {
+      const hoursApart = Math.abs(new Date(incident.date_time).getTime() - draftTime) / 3600000;
+      const distance = draft.location_coordinates && incident.location_coordinates
+        ? distanceKm(draft.location_coordinates, incident.location_coordinates)
+        : null;
+      const similarity = titleSimilarity(draft.title, incident.title);
+
+      const timeScore = Math.max(0, 1 - hoursApart / options.windowHours);
+      const placeScore = distance === null ? null : Math.max(0, 1 - distance / options.radiusKm);
+      const score = placeScore === null
+        ? timeScore * 0.4 + similarity * 0.6
+        : timeScore * 0.3 + placeScore * 0.3 + similarity * 0.4;
+
+      return { incident, score, hoursApart, distanceKm: distance, titleSimilarity: similarity };
+    })
+    .filter(candidate => candidate.hoursApart <= options.windowHours && candidate.score >= options.threshold)
+    .sort((a, b) => b.score - a.score);
+}
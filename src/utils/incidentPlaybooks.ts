@@ -0,0 +1,158 @@
+import { Database } from '../lib/supabase';
+import { AppliedPlaybook, AppliedPlaybookStep } from '../types/incidentPlaybook';
+
+type OrganizationSettings = Database['public']['Tables']['organizations']['Row']['settings'];
+type IncidentReport = Database['public']['Tables']['incident_reports']['Row'];
+
+export type IncidentPlaybook = NonNullable<OrganizationSettings['incidentPlaybooks']>[number];
+export type PlaybookStep = IncidentPlaybook['steps'][number];
+
+export interface PlaybookStepStatus {
+  dueAt: string | null;
+  // 'pending' is open and not yet due, 'late' was completed after its target
+  state: 'done' | 'late' | 'overdue' | 'pending';
+}
+
+type PlaybookTemplate = Omit<IncidentPlaybook, 'id' | 'steps'> & { steps: Omit<PlaybookStep, 'id'>[] };
+
+// Starting points for common incident types; admins adapt them to their own procedures
+export const playbookTemplates: PlaybookTemplate[] = [
+  {
+    name: 'Theft',
+    description: 'Theft of equipment, vehicles or personal property',
+    severity: 'Medium',
+    department: 'Security',
+    immediateActions: 'Secured the area and preserved CCTV footage.',
+    steps: [
+      { title: 'Secure the scene and preserve evidence', role: 'user', targetMinutes: 30 },
+      { title: 'Collect CCTV footage and access logs', role: 'user', targetMinutes: 120 },
+      { title: 'Report to police and record the crime reference', role: 'manager', targetMinutes: 240 },
+      { title: 'Notify the insurer', role: 'manager', targetMinutes: 1440 },
+      { title: 'Review physical controls at the location', role: 'manager', targetMinutes: 4320 }
+    ]
+  },
+  {
+    name: 'Medical Emergency',
+    description: 'Injury or sudden illness on site or while travelling',
+    severity: 'High',
+    department: 'Health & Safety',
+    immediateActions: 'Called emergency services and administered first aid.',
+    steps: [
+      { title: 'Call emergency services', role: 'user', targetMinutes: 5 },
+      { title: 'Administer first aid and keep the area clear', role: 'user', targetMinutes: 10 },
+      { title: 'Notify next of kin', role: 'manager', targetMinutes: 120 },
+      { title: 'Record witness statements', role: 'user', targetMinutes: 1440 },
+      { title: 'File the regulatory injury report if required', role: 'manager', targetMinutes: 4320 }
+    ]
+  },
+  {
+    name: 'Bomb Threat',
+    description: 'Threat received by phone, email, letter or in person',
+    severity: 'Critical',
+    department: 'Security',
+    immediateActions: 'Recorded the exact wording of the threat and alerted security.',
+    steps: [
+      { title: 'Record the threat verbatim, caller details and time', role: 'user', targetMinutes: 5 },
+      { title: 'Notify police', role: 'manager', targetMinutes: 10 },
+      { title: 'Decide on search or evacuation with police', role: 'admin', targetMinutes: 20 },
+      { title: 'Evacuate or search following the site plan', role: 'manager', targetMinutes: 45 },
+      { title: 'Account for all personnel', role: 'manager', targetMinutes: 60 },
+      { title: 'Authorise re-entry', role: 'admin', targetMinutes: 240 }
+    ]
+  },
+  {
+    name: 'Data Breach',
+    description: 'Unauthorised access to or disclosure of personal or confidential data',
+    severity: 'High',
+    department: 'IT',
+    immediateActions: 'Isolated affected systems and preserved logs.',
+    steps: [
+      { title: 'Contain the breach and isolate affected systems', role: 'user', targetMinutes: 60 },
+      { title: 'Preserve logs and evidence', role: 'user', targetMinutes: 120 },
+      { title: 'Assess the data and people affected', role: 'manager', targetMinutes: 1440 },
+      { title: 'Notify the data protection authority if required', role: 'admin', targetMinutes: 4320 },
+      { title: 'Notify affected individuals if required', role: 'admin', targetMinutes: 4320 }
+    ]
+  },
+  {
+    name: 'Kidnap',
+    description: 'Abduction or suspected abduction of staff or dependants',
+    severity: 'Critical',
+    department: 'Security',
+    immediateActions: 'Confirmed the last known location and contact of the person.',
+    steps: [
+      { title: 'Confirm the facts and the last known location', role: 'manager', targetMinutes: 15 },
+      { title: 'Convene the crisis management team', role: 'admin', targetMinutes: 30 },
+      { title: 'Engage the kidnap and ransom insurer and response consultants', role: 'admin', targetMinutes: 60 },
+      { title: 'Notify authorities in coordination with the response consultants', role: 'admin', targetMinutes: 120 },
+      { title: 'Appoint a family liaison', role: 'manager', targetMinutes: 240 },
+      { title: 'Restrict information and brief staff on media silence', role: 'manager', targetMinutes: 240 }
+    ]
+  }
+];
+
+export const createPlaybookId = () => crypto.randomUUID();
+
+export const createPlaybookFromTemplate = (template: PlaybookTemplate): IncidentPlaybook => ({
+  ...template,
+  id: createPlaybookId(),
+  steps: template.steps.map(step => ({ ...step, id: createPlaybookId() }))
+});
+
+export const resolveIncidentPlaybooks = (settings?: OrganizationSettings | null): IncidentPlaybook[] =>
+  settings?.incidentPlaybooks || [];
+
+/**
+ * Problems that would make a playbook unusable; an empty list means the playbooks can be saved
+ */
+export const validateIncidentPlaybooks = (playbooks: IncidentPlaybook[]): string[] => {
+  const errors: string[] = [];
+  const names = playbooks.map(playbook => playbook.name.trim().toLowerCase());
+
+  if (names.some(name => !name)) {
+    errors.push('Every playbook needs a name.');
+  }
+  if (new Set(names).size !== names.length) {
+    errors.push('Playbook names must be unique.');
+  }
+
+  playbooks.forEach(playbook => {
+    if (playbook.steps.length === 0) {
+      errors.push(`Add at least one checklist step to ${playbook.name || 'each playbook'}.`);
+    }
+    if (playbook.steps.some(step => !step.title.trim())) {
+      errors.push(`Every checklist step of ${playbook.name || 'a playbook'} needs a title.`);
+    }
+    if (playbook.steps.some(step => step.targetMinutes !== null && step.targetMinutes < 1)) {
+      errors.push(`Time targets of ${playbook.name || 'a playbook'} must be at least one minute.`);
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Due time and state of a checklist step; targets count from when the incident was reported
+ */
+export function getPlaybookStepStatus(
+  incident: Pick<IncidentReport, 'created_at'>,
+  step: AppliedPlaybookStep,
+  now: Date = new Date()
+): PlaybookStepStatus {
+  const dueAt = step.target_minutes !== null
+    ? new Date(new Date(incident.created_at).getTime() + step.target_minutes * 60000).toISOString()
+    : null;
+
+  if (step.completed_at) {
+    return { dueAt, state: dueAt && new Date(step.completed_at) > new Date(dueAt) ? 'late' : 'done' };
+  }
+
+  return { dueAt, state: dueAt && new Date(dueAt) < now ? 'overdue' : 'pending' };
+}
+
+export function getPlaybookProgress(playbook: AppliedPlaybook): { done: number; total: number } {
+  return {
+    done: playbook.steps.filter(step => step.completed_at).length,
+    total: playbook.steps.length
+  };
+}
@@ -0,0 +1,62 @@
+import { Database } from '../lib/supabase';
+import { FishboneCategory, ReviewActionStatus, RootCauseMethod } from '../types/incidentReview';
+import { IncidentWorkflow, isClosedStatus } from './incidentWorkflow';
+
+type IncidentReport = Database['public']['Tables']['incident_reports']['Row'];
+type ReviewAction = Database['public']['Tables']['incident_review_actions']['Row'];
+
+export const reviewedSeverities: IncidentReport['severity'][] = ['High', 'Critical'];
+
+export const rootCauseMethodLabels: Record<RootCauseMethod, string> = {
+  five_whys: '5 Whys',
+  fishbone: 'Fishbone'
+};
+
+export const fishboneCategories: FishboneCategory[] = ['people', 'process', 'technology', 'environment', 'management', 'external'];
+
+export const fishboneCategoryLabels: Record<FishboneCategory, string> = {
+  people: 'People',
+  process: 'Process',
+  technology: 'Technology',
+  environment: 'Environment',
+  management: 'Management',
+  external: 'External'
+};
+
+export const reviewActionStatuses: ReviewActionStatus[] = ['open', 'in_progress', 'done', 'cancelled'];
+
+export const reviewActionStatusLabels: Record<ReviewActionStatus, string> = {
+  open: 'Open',
+  in_progress: 'In progress',
+  done: 'Done',
+  cancelled: 'Cancelled'
+};
+
+export const reviewActionStatusColors: Record<ReviewActionStatus, string> = {
+  open: 'bg-gray-100 text-gray-700',
+  in_progress: 'bg-blue-100 text-blue-700',
+  done: 'bg-green-100 text-green-700',
+  cancelled: 'bg-gray-100 text-gray-500'
+};
+
+// Mirrors the check in enforce_incident_review(), which is authoritative
+export const needsPostIncidentReview = (incident: IncidentReport, workflow: IncidentWorkflow): boolean =>
+  reviewedSeverities.includes(incident.severity) && isClosedStatus(workflow, incident.status) && !incident.merged_into;
+
+export const isActionOpen = (action: ReviewAction): boolean =>
+  action.status === 'open' || action.status === 'in_progress';
+
+// Due dates are calendar days, so an action is overdue from the day after it was due
+export const isActionOverdue = (action: ReviewAction, now: Date = new Date()): boolean =>
+  isActionOpen(action) && !!action.due_date && new Date(`${action.due_date}T23:59:59`) < now;
+
+/**
+ * Finished and total action items, leaving out cancelled ones
+ */
+export function getActionProgress(actions: ReviewAction[]): { done: number; total: number } {
+  const counted = actions.filter(action => action.status !== 'cancelled');
+  return {
+    done: counted.filter(action => action.status === 'done').length,
+    total: counted.length
+  };
+}
@@ -0,0 +1,125 @@
+import { Database } from '../lib/supabase';
+
+type OrganizationSettings = Database['public']['Tables']['organizations']['Row']['settings'];
+type IncidentReport = Database['public']['Tables']['incident_reports']['Row'];
+
+export type IncidentSeverity = IncidentReport['severity'];
+export type SlaTarget = IncidentReport['sla_breaches'][number]['type'];
+
+export interface SlaTargetMinutes {
+  acknowledgeMinutes: number;
+  assignMinutes: number;
+  resolveMinutes: number;
+}
+
+export type IncidentSlaPolicy = Record<IncidentSeverity, SlaTargetMinutes>;
+
+export interface SlaTimer {
+  type: SlaTarget;
+  dueAt: string | null;
+  metAt: string | null;
+  // 'pending' is not yet due, 'overdue' is past due and still open, 'missed' was met after the due time
+  state: 'met' | 'missed' | 'overdue' | 'pending';
+}
+
+export interface SlaComplianceRow {
+  severity: IncidentSeverity;
+  target: SlaTarget;
+  measured: number;
+  onTime: number;
+  compliance: number | null; // percentage, null while nothing was measured
+}
+
+export const incidentSeverities: IncidentSeverity[] = ['Critical', 'High', 'Medium', 'Low'];
+
+export const slaTargets: SlaTarget[] = ['acknowledge', 'assign', 'resolve'];
+
+export const slaTargetLabels: Record<SlaTarget, string> = {
+  acknowledge: 'Acknowledge',
+  assign: 'Assign',
+  resolve: 'Resolve'
+};
+
+// Kept in sync with default_incident_sla_policy() in the incident SLA migration, which is authoritative
+export const defaultIncidentSlaPolicy: IncidentSlaPolicy = {
+  Critical: { acknowledgeMinutes: 15, assignMinutes: 30, resolveMinutes: 240 },
+  High: { acknowledgeMinutes: 60, assignMinutes: 120, resolveMinutes: 1440 },
+  Medium: { acknowledgeMinutes: 240, assignMinutes: 480, resolveMinutes: 4320 },
+  Low: { acknowledgeMinutes: 1440, assignMinutes: 2880, resolveMinutes: 10080 }
+};
+
+export const resolveIncidentSlaPolicy = (settings?: OrganizationSettings | null): IncidentSlaPolicy => ({
+  ...defaultIncidentSlaPolicy,
+  ...(settings?.incidentSla || {})
+});
+
+export const getSlaTargetMinutes = (targets: SlaTargetMinutes, target: SlaTarget): number => {
+  switch (target) {
+    case 'acknowledge': return targets.acknowledgeMinutes;
+    case 'assign': return targets.assignMinutes;
+    case 'resolve': return targets.resolveMinutes;
+  }
+};
+
+/**
+ * Short human form of a minute count, e.g. 90 -> "1h 30m"
+ */
+export const formatSlaMinutes = (minutes: number): string => {
+  const absolute = Math.abs(Math.round(minutes));
+  const days = Math.floor(absolute / 1440);
+  const hours = Math.floor((absolute % 1440) / 60);
+  const mins = absolute % 60;
+  const parts = [days && `${days}d`, hours && `${hours}h`, (mins || absolute === 0) && `${mins}m`].filter(Boolean);
+  return parts.slice(0, 2).join(' ');
+};
+
+export const getIncidentSlaTimers = (incident: IncidentReport, now = new Date()): SlaTimer[] => {
+  const timers: { type: SlaTarget; dueAt: string | null; metAt: string | null }[] = [
+    { type: 'acknowledge', dueAt: incident.acknowledge_due_at, metAt: incident.acknowledged_at },
+    { type: 'assign', dueAt: incident.assign_due_at, metAt: incident.assigned_at },
+    { type: 'resolve', dueAt: incident.resolve_due_at, metAt: incident.resolved_at }
+  ];
+
+  return timers.map(timer => {
+    let state: SlaTimer['state'] = 'pending';
+    if (timer.metAt) {
+      state = timer.dueAt && new Date(timer.metAt) > new Date(timer.dueAt) ? 'missed' : 'met';
+    } else if (timer.dueAt && new Date(timer.dueAt) <= now) {
+      state = 'overdue';
+    }
+    return { ...timer, state };
+  });
+};
+
+/**
+ * Whether an incident missed or is missing any SLA target, including breaches the scheduler has not
+ * recorded yet
+ */
+export const isSlaBreached = (incident: IncidentReport, now = new Date()): boolean =>
+  (incident.sla_breaches?.length || 0) > 0 ||
+  getIncidentSlaTimers(incident, now).some(timer => timer.state === 'overdue' || timer.state === 'missed');
+
+/**
+ * Share of targets met on time per severity. Targets that are not due yet are left out
+ */
+export const getSlaComplianceReport = (incidents: IncidentReport[], now = new Date()): SlaComplianceRow[] =>
+  incidentSeverities.flatMap(severity => {
+    const timers = incidents
+      .filter(incident => incident.severity === severity)
+      .map(incident => getIncidentSlaTimers(incident, now));
+
+    return slaTargets.map(target => {
+      const decided = timers
+        .map(incidentTimers => incidentTimers.find(timer => timer.type === target)!)
+        .filter(timer => timer.state !== 'pending');
+      const onTime = decided.filter(timer => timer.state === 'met').length;
+
+      return {
+        severity,
+        target,
+        measured: decided.length,
+        onTime,
+        compliance: decided.length > 0 ? Math.round((onTime / decided.length) * 100) : null
+      };
+    });
+  });
@@ -0,0 +1,91 @@
+import {
+  AuthoredTimelineEntry,
+  AuthoredTimelineEntryType,
+  IncidentTimelineEntry,
+  IncidentTimelineEntryType
+} from '../types/incidentTimeline';
+
+export interface ChronologyItem {
+  entry: IncidentTimelineEntry;
+  // Corrections of an authored entry, oldest first; the last one is the current wording
+  corrections: AuthoredTimelineEntry[];
+}
+
+export interface MentionableUser {
+  user_id: string;
+  full_name: string;
+}
+
+export const timelineEntryLabels: Record<IncidentTimelineEntryType, string> = {
+  status_change: 'Status change',
+  note: 'Note',
+  action_taken: 'Action taken',
+  evidence_added: 'Evidence added',
+  assignment: 'Assignment',
+  external_contact: 'External contact',
+  sla_breach: 'SLA breach',
+  merge: 'Merge',
+  playbook: 'Playbook'
+};
+
+export const timelineEntryColors: Record<IncidentTimelineEntryType, string> = {
+  status_change: 'bg-blue-500',
+  note: 'bg-gray-400',
+  action_taken: 'bg-green-500',
+  evidence_added: 'bg-purple-500',
+  assignment: 'bg-indigo-500',
+  external_contact: 'bg-orange-500',
+  sla_breach: 'bg-red-500',
+  merge: 'bg-teal-500',
+  playbook: 'bg-cyan-600'
+};
+
+export const authoredEntryTypes: AuthoredTimelineEntryType[] = ['note', 'action_taken', 'external_contact'];
+
+export const isAuthoredEntry = (entry: IncidentTimelineEntry): entry is AuthoredTimelineEntry =>
+  (authoredEntryTypes as string[]).includes(entry.type);
+
+/**
+ * Timeline entries in chronological order, with corrections attached to the entry they correct
+ * rather than listed on their own
+ */
+export function getChronology(timeline: IncidentTimelineEntry[] | null | undefined): ChronologyItem[] {
+  const entries = [...(timeline || [])].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+  const items = new Map<string, ChronologyItem>();
+  const chronology: ChronologyItem[] = [];
+
+  entries.forEach(entry => {
+    const corrected = isAuthoredEntry(entry) && entry.corrects ? items.get(entry.corrects) : undefined;
+    if (corrected && isAuthoredEntry(entry)) {
+      corrected.corrections.push(entry);
+      // A correction of a correction belongs to the same original entry
+      items.set(entry.id, corrected);
+      return;
+    }
+
+    const item: ChronologyItem = { entry, corrections: [] };
+    items.set(entry.id, item);
+    chronology.push(item);
+  });
+
+  return chronology;
+}
+
+/**
+ * The partial name after an @ directly before the caret, or null when the caret is not in a mention
+ */
+export function getMentionQuery(text: string, caret: number): string | null {
+  const match = /(?:^|\s)@([^@\n]{0,40})$/.exec(text.slice(0, caret));
+  return match ? match[1] : null;
+}
+
+/**
+ * Users whose @name still appears in the text, so removing a mention from the draft drops it
+ */
+export function resolveMentions(text: string, candidates: MentionableUser[]): string[] {
+  return candidates
+    .filter(candidate => text.includes(`@${candidate.full_name}`))
+    .map(candidate => candidate.user_id);
+}
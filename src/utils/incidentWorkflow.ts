@@ -0,0 +1,146 @@
+import { Database } from '../lib/supabase';
+
+type OrganizationSettings = Database['public']['Tables']['organizations']['Row']['settings'];
+type UserRole = Database['public']['Tables']['user_profiles']['Row']['role'];
+
+export type IncidentWorkflow = NonNullable<OrganizationSettings['incidentWorkflow']>;
+export type IncidentState = IncidentWorkflow['states'][number];
+export type IncidentTransition = IncidentWorkflow['transitions'][number];
+export type IncidentStateCategory = IncidentState['category'];
+export type TransitionRequiredField = IncidentTransition['requiredFields'][number];
+export type IncidentRole = IncidentTransition['allowedRoles'][number];
+
+// Kept in sync with default_incident_workflow() in the incident workflow migration, which is authoritative
+export const defaultIncidentWorkflow: IncidentWorkflow = {
+  initialState: 'Reported',
+  states: [
+    { name: 'Reported', category: 'open', color: 'red' },
+    { name: 'Triaged', category: 'active', color: 'orange' },
+    { name: 'Contained', category: 'active', color: 'yellow' },
+    { name: 'Eradicated', category: 'active', color: 'blue' },
+    { name: 'Recovered', category: 'active', color: 'purple' },
+    { name: 'Closed', category: 'closed', color: 'green' },
+    { name: 'Reopened', category: 'open', color: 'red' }
+  ],
+  transitions: [
+    { from: 'Reported', to: 'Triaged', requiredFields: [], allowedRoles: [] },
+    { from: 'Triaged', to: 'Contained', requiredFields: ['assigned_to'], allowedRoles: [] },
+    { from: 'Triaged', to: 'Closed', requiredFields: ['root_cause', 'resolution_summary'], allowedRoles: ['manager', 'admin', 'super_admin'] },
+    { from: 'Contained', to: 'Eradicated', requiredFields: [], allowedRoles: [] },
+    { from: 'Eradicated', to: 'Recovered', requiredFields: [], allowedRoles: [] },
+    { from: 'Recovered', to: 'Closed', requiredFields: ['root_cause', 'resolution_summary'], allowedRoles: ['manager', 'admin', 'super_admin'] },
+    { from: 'Closed', to: 'Reopened', requiredFields: [], allowedRoles: ['admin', 'super_admin'] },
+    { from: 'Reopened', to: 'Triaged', requiredFields: [], allowedRoles: [] }
+  ]
+};
+
+export const stateCategoryLabels: Record<IncidentStateCategory, string> = {
+  open: 'Open',
+  active: 'In Progress',
+  closed: 'Closed'
+};
+
+export const requiredFieldLabels: Record<TransitionRequiredField, string> = {
+  assigned_to: 'Assignee',
+  immediate_actions: 'Immediate Actions',
+  root_cause: 'Root Cause',
+  resolution_summary: 'Resolution Summary'
+};
+
+export const incidentRoleLabels: Record<IncidentRole, string> = {
+  super_admin: 'Super Admin',
+  admin: 'Admin',
+  manager: 'Manager',
+  user: 'User'
+};
+
+export const stateColors = ['red', 'orange', 'yellow', 'green', 'blue', 'purple', 'gray'];
+
+const badgeClasses: Record<string, string> = {
+  red: 'bg-red-100 text-red-700',
+  orange: 'bg-orange-100 text-orange-700',
+  yellow: 'bg-yellow-100 text-yellow-700',
+  green: 'bg-green-100 text-green-700',
+  blue: 'bg-blue-100 text-blue-700',
+  purple: 'bg-purple-100 text-purple-700',
+  gray: 'bg-gray-100 text-gray-700'
+};
+
+/**
+ * The organization's incident workflow, or the default one when none is configured. The database
+ * falls back the same way in get_incident_workflow()
+ */
+export const resolveIncidentWorkflow = (settings?: OrganizationSettings | null): IncidentWorkflow => {
+  const workflow = settings?.incidentWorkflow;
+  return workflow && workflow.states?.length ? workflow : defaultIncidentWorkflow;
+};
+
+export const getIncidentState = (workflow: IncidentWorkflow, status: string): IncidentState | undefined =>
+  workflow.states.find(state => state.name === status);
+
+export const getStatusBadgeClass = (workflow: IncidentWorkflow, status: string): string =>
+  badgeClasses[getIncidentState(workflow, status)?.color || 'gray'] || badgeClasses.gray;
+
+export const getStatusCategory = (workflow: IncidentWorkflow, status: string): IncidentStateCategory =>
+  getIncidentState(workflow, status)?.category || 'open';
+
+export const isClosedStatus = (workflow: IncidentWorkflow, status: string): boolean =>
+  getStatusCategory(workflow, status) === 'closed';
+
+/**
+ * Transitions out of `status` the given role may take
+ */
+export const getAvailableTransitions = (
+  workflow: IncidentWorkflow,
+  status: string,
+  role?: UserRole | null
+): IncidentTransition[] =>
+  workflow.transitions.filter(transition =>
+    transition.from === status &&
+    (transition.allowedRoles.length === 0 || (!!role && transition.allowedRoles.includes(role)))
+  );
+
+export const getMissingRequiredFields = (
+  transition: IncidentTransition,
+  values: Partial<Record<TransitionRequiredField, string | null>>
+): TransitionRequiredField[] =>
+  transition.requiredFields.filter(field => !values[field]?.trim());
+
+/**
+ * Problems that would leave incidents stuck or unreadable; an empty list means the workflow can be saved
+ */
+export const validateIncidentWorkflow = (workflow: IncidentWorkflow): string[] => {
+  const errors: string[] = [];
+  const names = workflow.states.map(state => state.name.trim());
+
+  if (names.length === 0) {
+    errors.push('Add at least one state.');
+  }
+  if (names.some(name => !name)) {
+    errors.push('Every state needs a name.');
+  }
+  if (new Set(names.map(name => name.toLowerCase())).size !== names.length) {
+    errors.push('State names must be unique.');
+  }
+  if (!names.includes(workflow.initialState)) {
+    errors.push('The initial state must be one of the states.');
+  }
+  if (!workflow.states.some(state => state.category === 'closed')) {
+    errors.push('Add at least one closed state.');
+  }
+
+  workflow.transitions.forEach(transition => {
+    if (!names.includes(transition.from) || !names.includes(transition.to)) {
+      errors.push(`Transition ${transition.from || '?'} → ${transition.to || '?'} refers to an unknown state.`);
+    } else if (transition.from === transition.to) {
+      errors.push(`Transition ${transition.from} → ${transition.to} must change the state.`);
+    }
+  });
+
+  const pairs = workflow.transitions.map(transition => `${transition.from}→${transition.to}`);
+  if (new Set(pairs).size !== pairs.length) {
+    errors.push('Each transition can only be listed once.');
+  }
+
+  return errors;
+};
@@ -0,0 +1,43 @@
+import { Database } from '../lib/supabase';
+
+type OrganizationSettings = Database['public']['Tables']['organizations']['Row']['settings'];
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumbers: boolean;
+  requireSpecialChars: boolean;
+  maxAge: number;
+  preventReuse: number;
+}
+
+// Kept in sync with supabase/functions/_shared/passwordPolicy.ts, which is authoritative
+export const defaultPasswordPolicy: PasswordPolicy = {
+  minLength: 8,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireNumbers: true,
+  requireSpecialChars: true,
+  maxAge: 90,
+  preventReuse: 5
+};
+
+export const resolvePasswordPolicy = (settings?: OrganizationSettings | null): PasswordPolicy => ({
+  ...defaultPasswordPolicy,
+  ...(settings?.security?.passwordPolicy || {})
+});
+
+/**
+ * Requirements to render as a checklist next to a password field
+ */
+export const getPasswordRequirements = (policy: PasswordPolicy) => [
+  { label: `At least ${policy.minLength} characters`, met: (password: string) => password.length >= policy.minLength },
+  ...(policy.requireUppercase ? [{ label: 'One uppercase letter', met: (password: string) => /[A-Z]/.test(password) }] : []),
+  ...(policy.requireLowercase ? [{ label: 'One lowercase letter', met: (password: string) => /[a-z]/.test(password) }] : []),
+  ...(policy.requireNumbers ? [{ label: 'One number', met: (password: string) => /\d/.test(password) }] : []),
+  ...(policy.requireSpecialChars ? [{ label: 'One special character', met: (password: string) => /[^A-Za-z0-9]/.test(password) }] : [])
+];
+
+export const meetsPasswordPolicy = (password: string, policy: PasswordPolicy): boolean =>
+  getPasswordRequirements(policy).every(requirement => requirement.met(password));
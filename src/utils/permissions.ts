@@ -0,0 +1,55 @@
+import { Database } from '../lib/supabase';
+
+type Permission = Database['public']['Tables']['permissions']['Row'];
+
+export interface PermissionGroup {
+  resource: string;
+  label: string;
+  permissions: Permission[];
+}
+
+const resourceLabels: Record<string, string> = {
+  users: 'Users',
+  roles: 'Roles',
+  assets: 'Assets',
+  incidents: 'Incidents',
+  risks: 'Risks',
+  personnel: 'Personnel',
+  travel: 'Travel',
+  mitigations: 'Mitigations',
+  audit: 'Audit',
+  system: 'System',
+  organizations: 'Organizations'
+};
+
+const actionOrder = ['read', 'create', 'update', 'delete'];
+
+/**
+ * Groups the permission catalog by resource (the part before the dot) for the role editor
+ */
+export const groupPermissions = (catalog: Permission[]): PermissionGroup[] => {
+  const groups = new Map<string, PermissionGroup>();
+
+  for (const permission of catalog) {
+    const [resource] = permission.key.split('.');
+    if (!groups.has(resource)) {
+      groups.set(resource, { resource, label: resourceLabels[resource] || resource, permissions: [] });
+    }
+    groups.get(resource)!.permissions.push(permission);
+  }
+
+  const actionRank = (key: string) => {
+    const index = actionOrder.indexOf(key.split('.')[1]);
+    return index === -1 ? actionOrder.length : index;
+  };
+
+  return Array.from(groups.values()).map(group => ({
+    ...group,
+    permissions: [...group.permissions].sort((a, b) => actionRank(a.key) - actionRank(b.key) || a.key.localeCompare(b.key))
+  }));
+};
+
+export const getPermissionActionLabel = (key: string): string => {
+  const action = key.split('.')[1] || key;
+  return action.charAt(0).toUpperCase() + action.slice(1);
+};
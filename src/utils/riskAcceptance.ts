@@ -0,0 +1,82 @@
+import { Database } from '../lib/supabase';
+import { RiskAcceptanceApprover, RiskAcceptanceStatus } from '../types/riskAcceptance';
+import { RiskBands, RiskLevel, defaultRiskBands, getRiskLevel, riskLevels } from './riskScoring';
+
+type OrganizationSettings = Database['public']['Tables']['organizations']['Row']['settings'];
+type Risk = Database['public']['Tables']['risks']['Row'];
+type UserRole = Database['public']['Tables']['user_profiles']['Row']['role'];
+export type RiskAcceptance = Database['public']['Tables']['risk_acceptances']['Row'];
+export type RiskAcceptancePolicy = NonNullable<OrganizationSettings['riskAcceptance']>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Kept in sync with default_risk_acceptance_policy() in the risk acceptance migration, which is authoritative
+export const defaultRiskAcceptancePolicy: RiskAcceptancePolicy = {
+  approvers: { Low: 'manager', Medium: 'manager', High: 'admin', Critical: 'executive' },
+  maxDays: { Low: 365, Medium: 365, High: 180, Critical: 90 },
+  executiveUserIds: []
+};
+
+export const approverLabels: Record<RiskAcceptanceApprover, string> = {
+  manager: 'Manager',
+  admin: 'Administrator',
+  executive: 'Executive'
+};
+
+export const acceptanceStatusLabels: Record<RiskAcceptanceStatus, string> = {
+  pending: 'Pending approval',
+  approved: 'Accepted',
+  rejected: 'Rejected',
+  expired: 'Expired',
+  revoked: 'Revoked'
+};
+
+export const resolveRiskAcceptancePolicy = (settings?: OrganizationSettings | null): RiskAcceptancePolicy => ({
+  ...defaultRiskAcceptancePolicy,
+  ...(settings?.riskAcceptance || {})
+});
+
+/**
+ * The band a risk is accepted in, from its residual score, and the approver level that band requires
+ */
+export const getRequiredApprover = (
+  policy: RiskAcceptancePolicy,
+  risk: Pick<Risk, 'residual_risk_score'>,
+  bands: RiskBands = defaultRiskBands
+): { level: RiskLevel; approver: RiskAcceptanceApprover; maxDays: number } => {
+  const level = getRiskLevel(risk.residual_risk_score, bands);
+  return { level, approver: policy.approvers[level], maxDays: policy.maxDays[level] };
+};
+
+/**
+ * Mirrors can_approve_risk_acceptance() in the database: executives approve at every level, admins at admin
+ * and manager level, managers at manager level
+ */
+export const canApproveAt = (
+  policy: RiskAcceptancePolicy,
+  user: { user_id: string; role: UserRole },
+  approver: RiskAcceptanceApprover
+): boolean => {
+  if (policy.executiveUserIds.includes(user.user_id)) return true;
+  if (approver === 'admin') return user.role === 'admin' || user.role === 'super_admin';
+  if (approver === 'manager') return user.role !== 'user';
+  return false;
+};
+
+export const getMaxExpiryDate = (maxDays: number, now = new Date()): Date => new Date(now.getTime() + maxDays * DAY_MS);
+
+export const validateRiskAcceptancePolicy = (policy: RiskAcceptancePolicy): string[] => {
+  const errors: string[] = [];
+
+  riskLevels.forEach(level => {
+    if (!(policy.maxDays[level] >= 1)) {
+      errors.push(`${level} risks must be accepted for at least one day.`);
+    }
+  });
+  const executiveLevels = riskLevels.filter(level => policy.approvers[level] === 'executive');
+  if (executiveLevels.length > 0 && policy.executiveUserIds.length === 0) {
+    errors.push(`Choose at least one executive to approve ${executiveLevels.join(' and ')} risks.`);
+  }
+
+  return errors;
+};
@@ -0,0 +1,92 @@
+import { Database } from '../lib/supabase';
+import { RiskTreatmentDecision } from '../types/riskTreatment';
+import { defaultRiskBands } from './riskScoring';
+import { RiskCategory, riskCategoryLabels } from './riskReviews';
+
+type OrganizationSettings = Database['public']['Tables']['organizations']['Row']['settings'];
+type Risk = Database['public']['Tables']['risks']['Row'];
+export type RiskAppetite = NonNullable<OrganizationSettings['riskAppetite']>;
+export type CategoryAppetite = { appetite: number; tolerance: number };
+
+// Where a risk's residual score sits relative to its category's appetite and tolerance
+export type AppetiteStatus = 'within_appetite' | 'above_appetite' | 'above_tolerance';
+
+export const MAX_RISK_SCORE = 25;
+
+// Kept in sync with default_risk_appetite() in the risk appetite migration, which is authoritative
+export const defaultRiskAppetite: RiskAppetite = {
+  bands: defaultRiskBands,
+  defaultAppetite: 5,
+  defaultTolerance: 12,
+  categories: {}
+};
+
+export const treatmentDecisionLabels: Record<RiskTreatmentDecision, string> = {
+  mitigate: 'Mitigate',
+  transfer: 'Transfer',
+  avoid: 'Avoid',
+  accept: 'Accept'
+};
+
+export const appetiteStatusLabels: Record<AppetiteStatus, string> = {
+  within_appetite: 'Within appetite',
+  above_appetite: 'Above appetite',
+  above_tolerance: 'Above tolerance'
+};
+
+export const resolveRiskAppetite = (settings?: OrganizationSettings | null): RiskAppetite => ({
+  ...defaultRiskAppetite,
+  ...(settings?.riskAppetite || {})
+});
+
+export const getCategoryAppetite = (appetite: RiskAppetite, category: RiskCategory): CategoryAppetite =>
+  appetite.categories[category] || { appetite: appetite.defaultAppetite, tolerance: appetite.defaultTolerance };
+
+/**
+ * Compares a risk's residual score, i.e. the score left after its controls, with its category's appetite
+ */
+export const getAppetiteStatus = (
+  appetite: RiskAppetite,
+  risk: Pick<Risk, 'category' | 'residual_risk_score'>
+): AppetiteStatus => {
+  const limits = getCategoryAppetite(appetite, risk.category);
+  if (risk.residual_risk_score > limits.tolerance) return 'above_tolerance';
+  if (risk.residual_risk_score > limits.appetite) return 'above_appetite';
+  return 'within_appetite';
+};
+
+/**
+ * Open risks above tolerance need a formal treatment decision. A decision lapses when the residual score
+ * rises above the one it was made for, which the database enforces by clearing it
+ */
+export const needsTreatmentDecision = (
+  appetite: RiskAppetite,
+  risk: Pick<Risk, 'category' | 'residual_risk_score' | 'status' | 'treatment_decision'>
+): boolean =>
+  risk.status !== 'closed' && !risk.treatment_decision && getAppetiteStatus(appetite, risk) === 'above_tolerance';
+
+export const validateRiskAppetite = (appetite: RiskAppetite): string[] => {
+  const errors: string[] = [];
+  const { low, medium, high } = appetite.bands;
+
+  if (!(low >= 1 && low < medium && medium < high && high < MAX_RISK_SCORE)) {
+    errors.push(`Score bands must increase from Low to High and stay below ${MAX_RISK_SCORE}.`);
+  }
+
+  const checkLimits = (label: string, limits: CategoryAppetite) => {
+    if (!(limits.appetite >= 1 && limits.appetite <= MAX_RISK_SCORE && limits.tolerance >= 1 && limits.tolerance <= MAX_RISK_SCORE)) {
+      errors.push(`${label}: appetite and tolerance must be scores between 1 and ${MAX_RISK_SCORE}.`);
+    } else if (limits.tolerance < limits.appetite) {
+      errors.push(`${label}: tolerance cannot be below appetite.`);
+    }
+  };
+
+  checkLimits('Default', { appetite: appetite.defaultAppetite, tolerance: appetite.defaultTolerance });
+  Object.entries(appetite.categories).forEach(([category, limits]) => {
+    if (limits) {
+      checkLimits(riskCategoryLabels[category as RiskCategory] || category, limits);
+    }
+  });
+
+  return errors;
+};
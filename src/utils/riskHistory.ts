@@ -0,0 +1,105 @@
+import { Database } from '../lib/supabase';
+import { AppliedMitigation } from '../types/mitigation';
+import { assessRisk } from './riskScoring';
+
+type Risk = Database['public']['Tables']['risks']['Row'];
+export type RiskVersion = Database['public']['Tables']['risk_versions']['Row'];
+export type RiskSnapshot = RiskVersion['snapshot'];
+
+export interface RiskFieldChange {
+  field: keyof RiskSnapshot;
+  label: string;
+  from: string;
+  to: string;
+}
+
+// Fields shown in the history, in display order; bookkeeping columns are left out
+export const riskHistoryFields: { field: keyof RiskSnapshot; label: string }[] = [
+  { field: 'title', label: 'Title' },
+  { field: 'description', label: 'Description' },
+  { field: 'category', label: 'Category' },
+  { field: 'status', label: 'Status' },
+  { field: 'impact', label: 'Impact' },
+  { field: 'likelihood', label: 'Likelihood' },
+  { field: 'risk_score', label: 'Inherent score' },
+  { field: 'applied_controls', label: 'Controls' },
+  { field: 'residual_risk_score', label: 'Residual score' },
+  { field: 'owner_user_id', label: 'Owner' },
+  { field: 'department', label: 'Department' },
+  { field: 'due_date', label: 'Due date' },
+  { field: 'last_reviewed_at', label: 'Last reviewed' },
+  { field: 'mitigation_plan', label: 'Mitigation plan' },
+  { field: 'treatment_decision', label: 'Treatment decision' },
+  { field: 'treatment_rationale', label: 'Treatment rationale' }
+];
+
+const humanize = (value: string) => value.replace(/_/g, ' ').replace(/\b\w/g, letter => letter.toUpperCase());
+
+export const formatRiskHistoryValue = (
+  field: keyof RiskSnapshot,
+  snapshot: RiskSnapshot | null,
+  userNames: Record<string, string>
+): string => {
+  const value = snapshot?.[field];
+
+  if (value === null || value === undefined || value === '') {
+    return '—';
+  }
+
+  switch (field) {
+    case 'category':
+    case 'status':
+    case 'impact':
+    case 'likelihood':
+    case 'treatment_decision':
+      return humanize(String(value));
+    case 'owner_user_id':
+      return userNames[String(value)] || 'Unknown user';
+    case 'due_date':
+    case 'last_reviewed_at':
+      return new Date(String(value)).toLocaleDateString();
+    case 'applied_controls': {
+      const controls = value as RiskSnapshot['applied_controls'];
+      return controls.length > 0
+        ? controls.map(control => `${control.name} (${Math.round(control.effectiveness * 100)}%)`).join(', ')
+        : 'None';
+    }
+    default:
+      return String(value);
+  }
+};
+
+/**
+ * Field-by-field changes between two versions of a risk. Without a previous version every recorded
+ * field counts as changed
+ */
+export const diffRiskSnapshots = (
+  previous: RiskSnapshot | null,
+  next: RiskSnapshot,
+  userNames: Record<string, string>
+): RiskFieldChange[] =>
+  riskHistoryFields
+    .filter(({ field }) => JSON.stringify(previous?.[field] ?? null) !== JSON.stringify(next[field] ?? null))
+    .map(({ field, label }) => ({
+      field,
+      label,
+      from: formatRiskHistoryValue(field, previous, userNames),
+      to: formatRiskHistoryValue(field, next, userNames)
+    }));
+
+/**
+ * Whether saving the edit changes the inherent or residual score, which the database only accepts with
+ * a change reason
+ */
+export const requiresChangeReason = (
+  current: Pick<Risk, 'impact' | 'likelihood' | 'mitigations'>,
+  next: Pick<Risk, 'impact' | 'likelihood'> & { mitigations?: Risk['mitigations'] }
+): boolean => {
+  if (current.impact !== next.impact || current.likelihood !== next.likelihood) {
+    return true;
+  }
+
+  const before = assessRisk(current.impact, current.likelihood, (current.mitigations || []) as AppliedMitigation[]);
+  const after = assessRisk(next.impact, next.likelihood, (next.mitigations || []) as AppliedMitigation[]);
+  return before.residual !== after.residual;
+};
@@ -0,0 +1,100 @@
+import { Database } from '../lib/supabase';
+import { RiskReviewAttestation } from '../types/riskReview';
+import { RiskBands, defaultRiskBands, getRiskLevel } from './riskScoring';
+
+type OrganizationSettings = Database['public']['Tables']['organizations']['Row']['settings'];
+type Risk = Database['public']['Tables']['risks']['Row'];
+export type RiskReview = Database['public']['Tables']['risk_reviews']['Row'];
+export type RiskReviewPolicy = NonNullable<OrganizationSettings['riskReviews']>;
+export type RiskCategory = Risk['category'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const riskCategories: RiskCategory[] = [
+  'physical_security_vulnerabilities',
+  'environmental_hazards',
+  'natural_disasters',
+  'infrastructure_failure',
+  'personnel_safety_security',
+  'asset_damage_loss'
+];
+
+export const riskCategoryLabels: Record<RiskCategory, string> = {
+  physical_security_vulnerabilities: 'Physical Security Vulnerabilities',
+  environmental_hazards: 'Environmental Hazards',
+  natural_disasters: 'Natural Disasters',
+  infrastructure_failure: 'Infrastructure Failure',
+  personnel_safety_security: 'Personnel Safety & Security',
+  asset_damage_loss: 'Asset Damage/Loss'
+};
+
+export const attestationLabels: Record<RiskReviewAttestation, string> = {
+  still_accurate: 'Still accurate',
+  changed: 'Changed'
+};
+
+// Kept in sync with default_risk_review_policy() in the risk review migration, which is authoritative
+export const defaultRiskReviewPolicy: RiskReviewPolicy = {
+  bandDays: { Critical: 30, High: 90, Medium: 180, Low: 365 },
+  categoryDays: {},
+  reminderDays: 7,
+  escalationDays: 14
+};
+
+export const resolveRiskReviewPolicy = (settings?: OrganizationSettings | null): RiskReviewPolicy => ({
+  ...defaultRiskReviewPolicy,
+  ...(settings?.riskReviews || {})
+});
+
+/**
+ * Days between reviews of a risk: its score band's interval, or its category's when that is shorter
+ */
+export const getReviewIntervalDays = (
+  policy: RiskReviewPolicy,
+  risk: Pick<Risk, 'category' | 'risk_score'>,
+  bands: RiskBands = defaultRiskBands
+): number => {
+  const bandDays = policy.bandDays[getRiskLevel(risk.risk_score, bands)];
+  const categoryDays = policy.categoryDays[risk.category];
+  return categoryDays ? Math.min(bandDays, categoryDays) : bandDays;
+};
+
+/**
+ * When a risk is next due for review, counted from its last review or its creation. Closed risks are not
+ * reviewed
+ */
+export const getNextReviewDate = (
+  policy: RiskReviewPolicy,
+  risk: Pick<Risk, 'category' | 'risk_score' | 'status' | 'last_reviewed_at' | 'created_at'>,
+  bands: RiskBands = defaultRiskBands
+): Date | null => {
+  if (risk.status === 'closed') return null;
+  const base = new Date(risk.last_reviewed_at || risk.created_at).getTime();
+  return new Date(base + getReviewIntervalDays(policy, risk, bands) * DAY_MS);
+};
+
+export const getDaysOverdue = (review: Pick<RiskReview, 'due_at'>, now = new Date()): number =>
+  Math.max(0, Math.floor((now.getTime() - new Date(review.due_at).getTime()) / DAY_MS));
+
+export const validateRiskReviewPolicy = (policy: RiskReviewPolicy): string[] => {
+  const errors: string[] = [];
+
+  Object.entries(policy.bandDays).forEach(([band, days]) => {
+    if (!(days >= 1)) {
+      errors.push(`The review interval for ${band} risks must be at least one day.`);
+    }
+  });
+  Object.entries(policy.categoryDays).forEach(([category, days]) => {
+    if (days !== undefined && !(days >= 1)) {
+      errors.push(`The review interval for ${riskCategoryLabels[category as RiskCategory] || category} must be at least one day.`);
+    }
+  });
+  if (!(policy.reminderDays >= 0)) {
+    errors.push('Reminders cannot be sent a negative number of days before a review is due.');
+  }
+  if (!(policy.escalationDays >= 1)) {
+    errors.push('Overdue reviews must escalate after at least one day.');
+  }
+
+  return errors;
+};
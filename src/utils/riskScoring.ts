@@ -0,0 +1,137 @@
+import { Database } from '../lib/supabase';
+import { AppliedMitigation } from '../types/mitigation';
+
+type Risk = Database['public']['Tables']['risks']['Row'];
+
+export type RiskRating = Risk['impact'];
+
+export type RiskLevel = 'Low' | 'Medium' | 'High' | 'Critical';
+
+// Upper score bound of each band below Critical
+export type RiskBands = NonNullable<Database['public']['Tables']['organizations']['Row']['settings']['riskAppetite']>['bands'];
+
+// `effectiveness` is the fraction of the remaining risk the control removes, 0 to MAX_CONTROL_EFFECTIVENESS
+export type AppliedControl = Risk['applied_controls'][number];
+
+export interface ScoreAssessment {
+  inherent: number;
+  residual: number;
+  controls: AppliedControl[];
+  // Fraction of the inherent score removed by all controls together, after the floor
+  effectiveness: number;
+  // Whether the residual score was held up by RESIDUAL_SCORE_FLOOR
+  floored: boolean;
+}
+
+/**
+ * Scores stored as JSON on assets, personnel and travel plans. `overall` is the residual score, so
+ * everything that ranks or filters on it keeps working
+ */
+export interface ControlledScore {
+  overall: number;
+  inherentScore?: number;
+  residualScore?: number;
+  controls?: AppliedControl[];
+  controlEffectiveness?: number;
+  // Written before inherent and residual scores were recorded separately
+  originalScore?: number;
+}
+
+// Kept in sync with compute_risk_residual_score() in the residual risk migration, which is authoritative
+// for risks
+export const MAX_CONTROL_EFFECTIVENESS = 0.9;
+export const RESIDUAL_SCORE_FLOOR = 0.2;
+
+export const riskRatingValues: Record<RiskRating, number> = {
+  very_low: 1,
+  low: 2,
+  medium: 3,
+  high: 4,
+  very_high: 5
+};
+
+const round = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * A mitigation's reduction score (0-100) read as the share of the remaining risk it removes. No
+ * single control is trusted to remove more than MAX_CONTROL_EFFECTIVENESS
+ */
+export const controlEffectiveness = (mitigation: Pick<AppliedMitigation, 'applied_risk_reduction_score'>): number =>
+  Math.min(MAX_CONTROL_EFFECTIVENESS, Math.max(0, (mitigation.applied_risk_reduction_score || 0) / 100));
+
+/**
+ * Controls act one after another on what the previous ones left, so two 50% controls remove 75%, not
+ * 100%. The residual score never drops below RESIDUAL_SCORE_FLOOR of the inherent score
+ */
+export const assessScore = (inherent: number, mitigations: AppliedMitigation[], decimals = 0): ScoreAssessment => {
+  const controls = mitigations.map(mitigation => ({
+    mitigation_id: mitigation.mitigation_id,
+    name: mitigation.name,
+    effectiveness: controlEffectiveness(mitigation)
+  }));
+  const remaining = controls.reduce((product, control) => product * (1 - control.effectiveness), 1);
+  const floored = remaining < RESIDUAL_SCORE_FLOOR;
+  const effectiveness = floored ? 1 - RESIDUAL_SCORE_FLOOR : 1 - remaining;
+
+  return {
+    inherent,
+    residual: round(inherent * (1 - effectiveness), decimals),
+    controls,
+    effectiveness,
+    floored
+  };
+};
+
+export const combinedControlEffectiveness = (mitigations: AppliedMitigation[]): number =>
+  assessScore(0, mitigations).effectiveness;
+
+// Same scale as risks.risk_score, 1 to 25
+export const inherentRiskScore = (impact: RiskRating, likelihood: RiskRating): number =>
+  riskRatingValues[impact] * riskRatingValues[likelihood];
+
+export const riskLevels: RiskLevel[] = ['Critical', 'High', 'Medium', 'Low'];
+
+// Kept in sync with the bands of default_risk_appetite() in the risk appetite migration, which is authoritative
+export const defaultRiskBands: RiskBands = { low: 5, medium: 12, high: 20 };
+
+// Band of a risk score; organizations configure the bands in their risk appetite
+export const getRiskLevel = (score: number, bands: RiskBands = defaultRiskBands): RiskLevel => {
+  if (score <= bands.low) return 'Low';
+  if (score <= bands.medium) return 'Medium';
+  if (score <= bands.high) return 'High';
+  return 'Critical';
+};
+
+export const assessRisk = (impact: RiskRating, likelihood: RiskRating, mitigations: AppliedMitigation[]): ScoreAssessment =>
+  assessScore(inherentRiskScore(impact, likelihood), mitigations, 1);
+
+/**
+ * The score before controls. Older scores only kept the pre-mitigation value in `originalScore`, or
+ * nothing when no mitigations were applied
+ */
+export const inherentScoreOf = (score: ControlledScore): number =>
+  score.inherentScore ?? score.originalScore ?? score.overall;
+
+/**
+ * Records inherent score, controls and residual score on a JSON score, replacing whatever controls were
+ * applied before
+ */
+export const applyControls = <T extends ControlledScore>(score: T, mitigations: AppliedMitigation[]): T => {
+  const assessment = assessScore(inherentScoreOf(score), mitigations);
+  const controlled: T = {
+    ...score,
+    overall: assessment.residual,
+    inherentScore: assessment.inherent,
+    residualScore: assessment.residual,
+    controls: assessment.controls,
+    controlEffectiveness: assessment.effectiveness
+  };
+
+  delete controlled.originalScore;
+  return controlled;
+};
+
+export const formatEffectiveness = (effectiveness: number) => `${Math.round(effectiveness * 100)}%`;
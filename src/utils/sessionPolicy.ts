@@ -0,0 +1,51 @@
+import { Database } from '../lib/supabase';
+
+type OrganizationSettings = Database['public']['Tables']['organizations']['Row']['settings'];
+
+export type SessionEndReason = Database['public']['Tables']['user_sessions']['Row']['end_reason'];
+
+export interface SessionPolicy {
+  maxDuration: number; // hours
+  idleTimeout: number; // minutes
+  maxConcurrentSessions: number;
+  requireReauth: boolean;
+  reauthWindow: number; // minutes a step-up re-authentication stays valid
+}
+
+// Kept in sync with supabase/functions/_shared/sessionPolicy.ts, which is authoritative
+export const defaultSessionPolicy: SessionPolicy = {
+  maxDuration: 24,
+  idleTimeout: 30,
+  maxConcurrentSessions: 3,
+  requireReauth: true,
+  reauthWindow: 5
+};
+
+export const resolveSessionPolicy = (settings?: OrganizationSettings | null): SessionPolicy => ({
+  ...defaultSessionPolicy,
+  ...(settings?.security?.sessionPolicy || {})
+});
+
+/**
+ * Message shown on the login page after a session was ended by the policy
+ */
+export const getSessionEndMessage = (reason: SessionEndReason): string | null => {
+  switch (reason) {
+    case 'idle_timeout': return 'You were signed out after a period of inactivity.';
+    case 'max_duration': return 'Your session reached its maximum duration. Please sign in again.';
+    case 'evicted': return 'You were signed out because your account signed in on too many devices.';
+    case 'revoked': return 'Your session was ended by an administrator.';
+    case 'deprovisioned': return 'Your account has been deactivated.';
+    case 'password_expired': return 'Your password has expired. Sign in to choose a new one.';
+    default: return null;
+  }
+};
+
+// Permissions gated by step-up re-authentication; the database enforces the same ones with triggers
+export const reauthPermissions = [
+  'organizations.delete',
+  'users.delete',
+  'roles.assign',
+  'incidents.delete',
+  'risks.delete'
+];
@@ -0,0 +1,169 @@
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2.39.0';
+import { createEventNotification } from './notifications.ts';
+
+// Mirrors the lockout fields of organizations.settings.security.accessControl
+export interface LockoutPolicy {
+  maxFailedAttempts: number;
+  lockoutDuration: number; // minutes
+  autoLockAccount: boolean;
+}
+
+// Same defaults OrganizationSettings shows for an organization that has not saved its access control
+export const DEFAULT_LOCKOUT_POLICY: LockoutPolicy = {
+  maxFailedAttempts: 5,
+  lockoutDuration: 30,
+  autoLockAccount: true
+};
+
+export interface LoginAccount {
+  user_id: string;
+  organization_id: string;
+  full_name: string;
+  two_factor_enabled: boolean;
+  failed_login_attempts: number;
+  account_locked_until: string | null;
+  // Cleared when the user is deprovisioned through SCIM
+  active: boolean;
+}
+
+export interface FailedLoginResult {
+  attempts: number;
+  lockedUntil: string | null;
+  // True only for the failure that triggered the lock
+  justLocked: boolean;
+}
+
+export async function getLockoutPolicy(supabase: SupabaseClient, organizationId: string): Promise<LockoutPolicy> {
+  const { data: organization } = await supabase
+    .from('organizations')
+    .select('settings')
+    .eq('id', organizationId)
+    .maybeSingle();
+
+  const accessControl = (organization?.settings as { security?: { accessControl?: Partial<LockoutPolicy> } } | null)
+    ?.security?.accessControl;
+
+  return {
+    ...DEFAULT_LOCKOUT_POLICY,
+    ...(accessControl || {})
+  };
+}
+
+/**
+ * Looks up the profile behind an email address, null when there is no such account
+ */
+export async function getLoginAccount(supabase: SupabaseClient, email: string): Promise<LoginAccount | null> {
+  const { data, error } = await supabase.rpc('get_login_account', { p_email: email });
+
+  if (error) {
+    console.error('Error looking up login account:', error);
+    throw error;
+  }
+
+  return (data as LoginAccount[] | null)?.[0] || null;
+}
+
+export function isAccountLocked(account: Pick<LoginAccount, 'account_locked_until'>): boolean {
+  return !!account.account_locked_until && new Date(account.account_locked_until) > new Date();
+}
+
+export const DEACTIVATED_ERROR = 'This account has been deactivated. Contact your administrator.';
+
+export function describeLock(lockedUntil: string): string {
+  return `Account is locked due to too many failed login attempts. Try again after ${new Date(lockedUntil).toUTCString()} or contact an administrator.`;
+}
+
+async function insertAuditLog(
+  supabase: SupabaseClient,
+  account: LoginAccount,
+  action: string,
+  details: Record<string, unknown>
+) {
+  const { error } = await supabase.from('audit_logs').insert({
+    user_id: account.user_id,
+    organization_id: account.organization_id,
+    action,
+    resource_type: 'user',
+    resource_id: account.user_id,
+    details
+  });
+
+  if (error) {
+    console.error('Error logging audit event:', error);
+  }
+}
+
+/**
+ * Counts a failed login against the account, locks it once the organization's
+ * limit is reached, and records `login_failed` / `account_locked` audit entries.
+ * Admins are notified when the account becomes locked.
+ */
+export async function registerFailedLogin(
+  supabase: SupabaseClient,
+  account: LoginAccount,
+  reason: string
+): Promise<FailedLoginResult> {
+  const policy = await getLockoutPolicy(supabase, account.organization_id);
+
+  const { data, error } = await supabase.rpc('register_failed_login', {
+    p_user_id: account.user_id,
+    p_max_attempts: policy.maxFailedAttempts,
+    p_lockout_minutes: policy.lockoutDuration,
+    p_auto_lock: policy.autoLockAccount
+  });
+
+  if (error) {
+    console.error('Error registering failed login:', error);
+    throw error;
+  }
+
+  const row = (data as { failed_login_attempts: number; account_locked_until: string | null }[] | null)?.[0];
+  const attempts = row?.failed_login_attempts ?? account.failed_login_attempts + 1;
+  const lockedUntil = row?.account_locked_until ?? null;
+  const justLocked = !!lockedUntil && !isAccountLocked(account) && new Date(lockedUntil) > new Date();
+
+  await insertAuditLog(supabase, account, 'login_failed', {
+    reason,
+    failed_attempts: attempts,
+    max_attempts: policy.maxFailedAttempts
+  });
+
+  if (justLocked) {
+    await insertAuditLog(supabase, account, 'account_locked', {
+      failed_attempts: attempts,
+      locked_until: lockedUntil,
+      lockout_duration_minutes: policy.lockoutDuration
+    });
+
+    await createEventNotification(supabase, {
+      organizationId: account.organization_id,
+      eventType: 'alert',
+      resourceType: 'user',
+      resourceId: account.user_id,
+      resourceName: account.full_name,
+      details: `The account was locked after ${attempts} failed login attempts and will unlock at ${new Date(lockedUntil!).toUTCString()}.`,
+      category: 'security',
+      priority: 'high'
+    });
+  }
+
+  return { attempts, lockedUntil, justLocked };
+}
+
+/**
+ * Clears the failure counter after a complete, successful login
+ */
+export async function registerSuccessfulLogin(supabase: SupabaseClient, userId: string) {
+  const { error } = await supabase
+    .from('user_profiles')
+    .update({
+      failed_login_attempts: 0,
+      account_locked_until: null,
+      last_login: new Date().toISOString()
+    })
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Error resetting failed login attempts:', error);
+  }
+}
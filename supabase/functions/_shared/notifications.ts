@@ -0,0 +1,84 @@
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2.39.0';
+
+// Server-side counterpart of createEventNotification in src/services/notificationService.ts
+type EventType = 'created' | 'updated' | 'deleted' | 'approved' | 'rejected' | 'completed' | 'alert';
+type ResourceType = 'asset' | 'personnel' | 'incident' | 'risk' | 'travel_plan' | 'invitation' | 'organization' | 'user';
+
+const categoryMap: Record<ResourceType, string> = {
+  'asset': 'asset',
+  'personnel': 'personnel',
+  'incident': 'incident',
+  'risk': 'risk',
+  'travel_plan': 'travel',
+  'invitation': 'system',
+  'organization': 'system',
+  'user': 'personnel'
+};
+
+const typeMap: Record<EventType, 'info' | 'success' | 'warning' | 'alert'> = {
+  'created': 'info',
+  'updated': 'info',
+  'deleted': 'warning',
+  'approved': 'success',
+  'rejected': 'warning',
+  'completed': 'success',
+  'alert': 'alert'
+};
+
+const titleMap: Record<EventType, (label: string, name: string) => { title: string; message: string }> = {
+  'created': (label, name) => ({ title: `New ${label} created`, message: `${name} has been created.` }),
+  'updated': (label, name) => ({ title: `${label} updated`, message: `${name} has been updated.` }),
+  'deleted': (label, name) => ({ title: `${label} deleted`, message: `${name} has been deleted.` }),
+  'approved': (label, name) => ({ title: `${label} approved`, message: `${name} has been approved.` }),
+  'rejected': (label, name) => ({ title: `${label} rejected`, message: `${name} has been rejected.` }),
+  'completed': (label, name) => ({ title: `${label} completed`, message: `${name} has been completed.` }),
+  'alert': (label, name) => ({ title: `${label} alert`, message: `Alert for ${name}.` })
+};
+
+/**
+ * Create a notification for a specific event. Without a userId the notification
+ * is organization-wide, which the notifications RLS only shows to admins.
+ */
+export async function createEventNotification(
+  supabase: SupabaseClient,
+  {
+    organizationId,
+    userId,
+    eventType,
+    resourceType,
+    resourceId,
+    resourceName,
+    details,
+    category,
+    priority = 'medium'
+  }: {
+    organizationId: string;
+    userId?: string | null;
+    eventType: EventType;
+    resourceType: ResourceType;
+    resourceId?: string;
+    resourceName: string;
+    details?: string;
+    category?: string;
+    priority?: 'low' | 'medium' | 'high' | 'critical';
+  }
+) {
+  const { title, message } = titleMap[eventType](resourceType.replace('_', ' '), resourceName);
+
+  const { error } = await supabase.from('notifications').insert({
+    organization_id: organizationId,
+    user_id: userId || null,
+    type: typeMap[eventType],
+    title,
+    message: details ? `${message} ${details}` : message,
+    category: category || categoryMap[resourceType],
+    priority,
+    read: false,
+    resource_type: resourceType,
+    resource_id: resourceId || null
+  });
+
+  if (error) {
+    console.error('Error creating notification:', error);
+  }
+}
@@ -0,0 +1,144 @@
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2.39.0';
+
+// Mirrors organizations.settings.security.passwordPolicy
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumbers: boolean;
+  requireSpecialChars: boolean;
+  maxAge: number;
+  preventReuse: number;
+}
+
+// Same defaults OrganizationSettings shows for an organization that has not saved a policy
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireNumbers: true,
+  requireSpecialChars: true,
+  maxAge: 90,
+  preventReuse: 5
+};
+
+export function resolvePasswordPolicy(
+  settings: { security?: { passwordPolicy?: Partial<PasswordPolicy> } } | null | undefined
+): PasswordPolicy {
+  return {
+    ...DEFAULT_PASSWORD_POLICY,
+    ...(settings?.security?.passwordPolicy || {})
+  };
+}
+
+/**
+ * Returns a list of human-readable policy violations, empty when the password complies
+ */
+export function validatePassword(password: string, policy: PasswordPolicy): string[] {
+  const violations: string[] = [];
+
+  if (password.length < policy.minLength) {
+    violations.push(`at least ${policy.minLength} characters`);
+  }
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    violations.push('an uppercase letter');
+  }
+  if (policy.requireLowercase && !/[a-z]/.test(password)) {
+    violations.push('a lowercase letter');
+  }
+  if (policy.requireNumbers && !/\d/.test(password)) {
+    violations.push('a number');
+  }
+  if (policy.requireSpecialChars && !/[^A-Za-z0-9]/.test(password)) {
+    violations.push('a special character');
+  }
+
+  return violations;
+}
+
+export function describeViolations(violations: string[]): string {
+  return `Password must contain ${violations.join(', ')}.`;
+}
+
+export async function isPasswordReused(
+  supabase: SupabaseClient,
+  userId: string,
+  password: string,
+  policy: PasswordPolicy
+): Promise<boolean> {
+  if (!policy.preventReuse || policy.preventReuse <= 0) return false;
+
+  const { data, error } = await supabase.rpc('password_in_history', {
+    p_user_id: userId,
+    p_password: password,
+    p_depth: policy.preventReuse
+  });
+
+  if (error) {
+    console.error('Error checking password history:', error);
+    throw error;
+  }
+
+  return data === true;
+}
+
+/**
+ * Stores the new password in the history and restarts the maxAge window
+ */
+export async function recordPasswordChange(supabase: SupabaseClient, userId: string, password: string) {
+  const { error: historyError } = await supabase.rpc('record_password_history', {
+    p_user_id: userId,
+    p_password: password
+  });
+
+  if (historyError) {
+    console.error('Error recording password history:', historyError);
+  }
+
+  const { error: profileError } = await supabase
+    .from('user_profiles')
+    .update({ password_changed_at: new Date().toISOString() })
+    .eq('user_id', userId);
+
+  if (profileError) {
+    console.error('Error updating password_changed_at:', profileError);
+  }
+}
+
+export const PASSWORD_EXPIRED_ERROR = 'Your password has expired. Choose a new password to continue.';
+
+/**
+ * True once the password is older than the policy's maxAge (0 disables expiry)
+ */
+export function isPasswordExpired(passwordChangedAt: string | null | undefined, policy: PasswordPolicy): boolean {
+  if (!policy.maxAge || policy.maxAge <= 0 || !passwordChangedAt) return false;
+  return Date.now() >= new Date(passwordChangedAt).getTime() + policy.maxAge * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * Whether the user's password is older than their organization's maxAge, along with that policy.
+ * SSO accounts have no password of their own to rotate
+ */
+export async function getPasswordExpiry(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<{ expired: boolean; policy: PasswordPolicy }> {
+  const { data: profile, error } = await supabase
+    .from('user_profiles')
+    .select('password_changed_at, auth_provider, organizations(settings)')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading password age:', error);
+    throw error;
+  }
+
+  const organization = profile?.organizations as { settings?: Parameters<typeof resolvePasswordPolicy>[0] } | null | undefined;
+  const policy = resolvePasswordPolicy(organization?.settings);
+
+  return {
+    expired: !!profile && profile.auth_provider !== 'sso' && isPasswordExpired(profile.password_changed_at, policy),
+    policy
+  };
+}
@@ -0,0 +1,39 @@
+// Mirrors organizations.settings.security.sessionPolicy
+export interface SessionPolicy {
+  maxDuration: number; // hours
+  idleTimeout: number; // minutes
+  maxConcurrentSessions: number;
+  requireReauth: boolean;
+  reauthWindow: number; // minutes a step-up re-authentication stays valid
+}
+
+// Same defaults OrganizationSettings shows for an organization that has not saved a policy
+export const DEFAULT_SESSION_POLICY: SessionPolicy = {
+  maxDuration: 24,
+  idleTimeout: 30,
+  maxConcurrentSessions: 3,
+  requireReauth: true,
+  reauthWindow: 5
+};
+
+export function resolveSessionPolicy(
+  settings: { security?: { sessionPolicy?: Partial<SessionPolicy> } } | null | undefined
+): SessionPolicy {
+  return {
+    ...DEFAULT_SESSION_POLICY,
+    ...(settings?.security?.sessionPolicy || {})
+  };
+}
+
+/**
+ * Reads the `session_id` claim of a (already verified) Supabase access token
+ */
+export function getAuthSessionId(accessToken: string): string | null {
+  try {
+    const payload = accessToken.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    const claims = JSON.parse(atob(payload.padEnd(payload.length + (4 - payload.length % 4) % 4, '=')));
+    return typeof claims.session_id === 'string' ? claims.session_id : null;
+  } catch {
+    return null;
+  }
+}
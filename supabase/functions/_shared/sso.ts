@@ -0,0 +1,28 @@
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2.39.0';
+
+export const SSO_REQUIRED_ERROR = 'Your organization requires single sign-on. Use "Sign in with SSO" instead.';
+
+/**
+ * True when the user's organization has an enabled SSO provider that requires it.
+ * Super admins keep password login so an organization cannot lock itself out
+ * through a broken provider configuration.
+ */
+export async function isPasswordLoginBlocked(supabase: SupabaseClient, userId: string, organizationId: string): Promise<boolean> {
+  const { data: provider } = await supabase
+    .from('organization_sso_providers')
+    .select('enabled, require_sso')
+    .eq('organization_id', organizationId)
+    .maybeSingle();
+
+  if (!provider?.enabled || !provider.require_sso) {
+    return false;
+  }
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('role')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return profile?.role !== 'super_admin';
+}
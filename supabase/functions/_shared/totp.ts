@@ -0,0 +1,141 @@
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2.39.0';
+
+// RFC 6238 TOTP shared by two-factor login and step-up re-authentication
+export const TOTP_DIGITS = 6;
+export const TOTP_PERIOD_SECONDS = 30;
+// Accept codes from one step before and after the current one to tolerate clock drift
+const TOTP_DRIFT_STEPS = 1;
+const SECRET_BYTES = 20;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+function base32Decode(input: string): Uint8Array {
+  const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character in secret');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return new Uint8Array(bytes);
+}
+
+export function generateSecret(): string {
+  return base32Encode(crypto.getRandomValues(new Uint8Array(SECRET_BYTES)));
+}
+
+// RFC 4226 HOTP value for a single counter, used with time steps per RFC 6238
+async function generateCode(secret: string, step: number): Promise<string> {
+  const counter = new ArrayBuffer(8);
+  const view = new DataView(counter);
+  view.setUint32(0, Math.floor(step / 2 ** 32));
+  view.setUint32(4, step >>> 0);
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    base32Decode(secret),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  );
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, counter));
+
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let result = 0;
+  for (let i = 0; i < a.length; i++) {
+    result |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return result === 0;
+}
+
+/**
+ * Returns the matching time step for a code within the drift window, skipping
+ * any step at or before the last accepted one so a code cannot be replayed.
+ */
+export async function findMatchingStep(secret: string, code: string, lastUsedStep: number | null): Promise<number | null> {
+  if (!/^\d{6}$/.test(code)) return null;
+
+  const currentStep = Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS);
+  let matchedStep: number | null = null;
+
+  for (let drift = -TOTP_DRIFT_STEPS; drift <= TOTP_DRIFT_STEPS; drift++) {
+    const step = currentStep + drift;
+    if (lastUsedStep !== null && step <= lastUsedStep) continue;
+    if (timingSafeEqual(await generateCode(secret, step), code) && matchedStep === null) {
+      matchedStep = step;
+    }
+  }
+
+  return matchedStep;
+}
+
+// Record the accepted step only if no later step was accepted concurrently
+export async function consumeStep(supabase: SupabaseClient, userId: string, step: number, lastUsedStep: number | null): Promise<boolean> {
+  let query = supabase
+    .from('user_two_factor_secrets')
+    .update({ last_used_step: step, updated_at: new Date().toISOString() })
+    .eq('user_id', userId);
+
+  query = lastUsedStep === null ? query.is('last_used_step', null) : query.eq('last_used_step', lastUsedStep);
+
+  const { data, error } = await query.select('user_id');
+  return !error && !!data && data.length === 1;
+}
+
+/**
+ * Checks a code against the user's active secret and consumes its time step
+ */
+export async function verifyTotpCode(supabase: SupabaseClient, userId: string, code: string): Promise<boolean> {
+  const { data: row } = await supabase
+    .from('user_two_factor_secrets')
+    .select('secret, last_used_step')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (!row?.secret) return false;
+
+  const step = await findMatchingStep(row.secret, code, row.last_used_step);
+  return step !== null && await consumeStep(supabase, userId, step, row.last_used_step);
+}
@@ -0,0 +1,143 @@
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2.39.0';
+import { getAuthSessionId, resolveSessionPolicy } from './sessionPolicy.ts';
+
+// Mirrors the user_sessions.end_reason check constraint
+export type SessionEndReason = 'signed_out' | 'idle_timeout' | 'max_duration' | 'evicted' | 'revoked' | 'deprovisioned' | 'password_expired';
+
+export interface TrackedSession {
+  id: string;
+  auth_session_id: string;
+}
+
+/**
+ * Marks tracked sessions as ended and deletes their auth sessions so they cannot be refreshed
+ */
+export async function endSessions(
+  supabase: SupabaseClient,
+  sessions: TrackedSession[],
+  reason: SessionEndReason,
+  endedBy: string | null = null
+) {
+  if (sessions.length === 0) return;
+
+  const { error } = await supabase
+    .from('user_sessions')
+    .update({ ended_at: new Date().toISOString(), end_reason: reason, ended_by: endedBy })
+    .in('id', sessions.map(session => session.id))
+    .is('ended_at', null);
+
+  if (error) {
+    console.error('Error ending sessions:', error);
+    throw error;
+  }
+
+  for (const session of sessions) {
+    const { error: revokeError } = await supabase.rpc('revoke_auth_session', { p_session_id: session.auth_session_id });
+    if (revokeError) {
+      console.error('Error revoking auth session:', revokeError);
+    }
+  }
+}
+
+/**
+ * Ends every session of a user, including auth sessions that never sent a heartbeat.
+ * Returns how many tracked sessions were ended.
+ */
+export async function endAllUserSessions(
+  supabase: SupabaseClient,
+  userId: string,
+  reason: SessionEndReason,
+  endedBy: string | null = null
+): Promise<number> {
+  const { data: sessions } = await supabase
+    .from('user_sessions')
+    .select('id, auth_session_id')
+    .eq('user_id', userId)
+    .is('ended_at', null);
+
+  await endSessions(supabase, (sessions as TrackedSession[]) || [], reason, endedBy);
+
+  const { error } = await supabase.rpc('revoke_user_auth_sessions', { p_user_id: userId });
+  if (error) {
+    console.error('Error revoking auth sessions:', error);
+    throw error;
+  }
+
+  return sessions?.length || 0;
+}
+
+/**
+ * Registers a freshly issued session before it is handed to the client and evicts the user's oldest
+ * sessions beyond the concurrency limit. The database only serves organization data to registered
+ * sessions, so every function that issues a session calls this first
+ */
+export async function registerSession(supabase: SupabaseClient, req: Request, userId: string, accessToken: string) {
+  const authSessionId = getAuthSessionId(accessToken);
+  if (!authSessionId) {
+    throw new Error('Access token has no session id');
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('user_profiles')
+    .select('organization_id, organizations(settings)')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (profileError) {
+    console.error('Error loading session policy:', profileError);
+    throw profileError;
+  }
+
+  // Users without an organization have no session policy and no organization data to protect
+  if (!profile?.organization_id) return;
+
+  const { error } = await supabase
+    .from('user_sessions')
+    .insert({
+      user_id: userId,
+      organization_id: profile.organization_id,
+      auth_session_id: authSessionId,
+      user_agent: req.headers.get('user-agent'),
+      ip_address: req.headers.get('x-forwarded-for')?.split(',')[0].trim() || null
+    });
+
+  // Already registered, e.g. when a signed-in user accepts an invitation
+  if (error?.code === '23505') return;
+
+  if (error) {
+    console.error('Error registering session:', error);
+    throw error;
+  }
+
+  const organization = profile.organizations as { settings?: Parameters<typeof resolveSessionPolicy>[0] } | null;
+  const policy = resolveSessionPolicy(organization?.settings);
+  if (policy.maxConcurrentSessions <= 0) return;
+
+  const { data: activeSessions } = await supabase
+    .from('user_sessions')
+    .select('id, auth_session_id')
+    .eq('user_id', userId)
+    .is('ended_at', null)
+    .order('created_at', { ascending: false });
+
+  const evicted = ((activeSessions as TrackedSession[]) || []).slice(policy.maxConcurrentSessions);
+  if (evicted.length === 0) return;
+
+  await endSessions(supabase, evicted, 'evicted');
+
+  const { error: auditError } = await supabase.from('audit_logs').insert({
+    user_id: userId,
+    organization_id: profile.organization_id,
+    action: 'session_evicted',
+    resource_type: 'user',
+    resource_id: userId,
+    details: {
+      evicted_sessions: evicted.map(session => session.id),
+      max_concurrent_sessions: policy.maxConcurrentSessions
+    }
+  });
+
+  if (auditError) {
+    console.error('Error logging audit event:', auditError);
+  }
+}
@@ -1,8 +1,29 @@
 import { createClient } from 'npm:@supabase/supabase-js@2.39.0';
+import {
+  describeViolations,
+  getPasswordExpiry,
+  recordPasswordChange,
+  resolvePasswordPolicy,
+  validatePassword
+} from '../_shared/passwordPolicy.ts';
+import { registerSession } from '../_shared/userSessions.ts';
 
 // Define types for invitation request and response
 interface AcceptInvitationRequest {
   invitationCode: string;
+  // Present when a new account is being registered through the invitation
+  email?: string;
+  password?: string;
+  fullName?: string;
+}
+
+interface Invitation {
+  id: string;
+  organization_id: string;
+  invited_email: string;
+  role: string;
+  status: string;
+  expires_at: string;
 }
 
 interface AcceptInvitationResponse {
@@ -17,6 +38,7 @@ interface AcceptInvitationResponse {
 // Define constants
 const SUPABASE_URL = Deno.env.get('SUPABASE_URL') || '';
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY') || '';
 
 // Create Supabase client with service role key
 const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
@@ -43,6 +65,126 @@ async function logAuditEvent(userId: string, organizationId: string, action: str
   }
 }
 
+// Helper function to find a pending, unexpired invitation or build the error response
+async function findPendingInvitation(invitationCode: string): Promise<{ invitation?: Invitation; errorResponse?: Response }> {
+  const { data: invitation, error: invitationError } = await supabase
+    .from('organization_invitations')
+    .select('id, organization_id, invited_email, role, status, expires_at')
+    .eq('invitation_code', invitationCode)
+    .single();
+  
+  if (invitationError || !invitation) {
+    return {
+      errorResponse: new Response(JSON.stringify({ error: 'Invalid invitation code' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    };
+  }
+  
+  // Check if invitation is still valid
+  if (invitation.status !== 'pending') {
+    return {
+      errorResponse: new Response(JSON.stringify({ error: `Invitation is ${invitation.status}` }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    };
+  }
+  
+  // Check if invitation has expired
+  if (new Date(invitation.expires_at) < new Date()) {
+    // Update invitation status to expired
+    await supabase
+      .from('organization_invitations')
+      .update({ status: 'expired' })
+      .eq('id', invitation.id);
+    
+    return {
+      errorResponse: new Response(JSON.stringify({ error: 'Invitation has expired' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    };
+  }
+  
+  return { invitation };
+}
+
+// Register a new account for an invitation, enforcing the inviting organization's password policy
+async function handleRegistration(requestData: AcceptInvitationRequest): Promise<Response> {
+  const { email, password, fullName } = requestData;
+  
+  if (!email || !password || !fullName) {
+    return new Response(JSON.stringify({ error: 'Email, password, and full name are required' }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+  
+  const { invitation, errorResponse } = await findPendingInvitation(requestData.invitationCode);
+  if (!invitation) return errorResponse!;
+  
+  if (email.toLowerCase() !== invitation.invited_email.toLowerCase()) {
+    return new Response(JSON.stringify({ 
+      error: 'This invitation was sent to a different email address. Please sign up with the email address that received the invitation.' 
+    }), {
+      status: 403,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+  
+  const { data: organization } = await supabase
+    .from('organizations')
+    .select('settings')
+    .eq('id', invitation.organization_id)
+    .single();
+  
+  const passwordViolations = validatePassword(password, resolvePasswordPolicy(organization?.settings));
+  if (passwordViolations.length > 0) {
+    return new Response(JSON.stringify({ error: describeViolations(passwordViolations) }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+  
+  // Use the regular sign-up flow so the confirmation email is still sent
+  const anonClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false }
+  });
+  const { data: signUpData, error: signUpError } = await anonClient.auth.signUp({
+    email,
+    password,
+    options: {
+      data: {
+        full_name: fullName,
+        organization_id: invitation.organization_id,
+        role: 'user' // The invited role is applied when the invitation is accepted
+      }
+    }
+  });
+  
+  if (signUpError || !signUpData.user) {
+    return new Response(JSON.stringify({ error: signUpError?.message || 'Failed to create account' }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+  
+  await recordPasswordChange(supabase, signUpData.user.id, password);
+  
+  return new Response(JSON.stringify({
+    success: true,
+    user: {
+      id: signUpData.user.id,
+      email: signUpData.user.email
+    }
+  }), {
+    status: 200,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
 // Main handler function
 Deno.serve(async (req: Request) => {
   // Handle CORS preflight request
@@ -54,25 +196,6 @@ Deno.serve(async (req: Request) => {
   }
   
   try {
-    // Verify authentication
-    const authHeader = req.headers.get('Authorization');
-    if (!authHeader) {
-      return new Response(JSON.stringify({ error: 'Missing authorization header' }), {
-        status: 401,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      });
-    }
-    
-    const token = authHeader.replace('Bearer ', '');
-    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
-    
-    if (authError || !user) {
-      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
-        status: 401,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      });
-    }
-    
     // Parse request body
     const requestData: AcceptInvitationRequest = await req.json();
     
@@ -84,42 +207,34 @@ Deno.serve(async (req: Request) => {
       });
     }
     
-    // Find the invitation
-    const { data: invitation, error: invitationError } = await supabase
-      .from('organization_invitations')
-      .select('id, organization_id, invited_email, role, status, expires_at')
-      .eq('invitation_code', requestData.invitationCode)
-      .single();
+    const authHeader = req.headers.get('Authorization');
     
-    if (invitationError || !invitation) {
-      return new Response(JSON.stringify({ error: 'Invalid invitation code' }), {
-        status: 404,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      });
+    // New accounts have no session yet; they register with credentials instead
+    if (requestData.password) {
+      return await handleRegistration(requestData);
     }
     
-    // Check if invitation is still valid
-    if (invitation.status !== 'pending') {
-      return new Response(JSON.stringify({ error: `Invitation is ${invitation.status}` }), {
-        status: 400,
+    // Verify authentication
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Missing authorization header' }), {
+        status: 401,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       });
     }
     
-    // Check if invitation has expired
-    if (new Date(invitation.expires_at) < new Date()) {
-      // Update invitation status to expired
-      await supabase
-        .from('organization_invitations')
-        .update({ status: 'expired' })
-        .eq('id', invitation.id);
-      
-      return new Response(JSON.stringify({ error: 'Invitation has expired' }), {
-        status: 400,
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       });
     }
     
+    const { invitation, errorResponse } = await findPendingInvitation(requestData.invitationCode);
+    if (!invitation) return errorResponse!;
+    
     // Check if the user's email matches the invited email
     if (user.email !== invitation.invited_email) {
       return new Response(JSON.stringify({ 
@@ -202,6 +317,18 @@ Deno.serve(async (req: Request) => {
       });
     }
     
+    // The session the invitation was accepted with becomes an organization session. One that could not
+    // have come from the sign-in function (2FA enrolled, password expired) must sign in again instead
+    const { data: secretRow } = await supabase
+      .from('user_two_factor_secrets')
+      .select('secret')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!secretRow?.secret && !(await getPasswordExpiry(supabase, user.id)).expired) {
+      await registerSession(supabase, req, user.id, token);
+    }
+
     // Log audit event
     await logAuditEvent(user.id, invitation.organization_id, 'invitation_accepted', {
       invitation_id: invitation.id,
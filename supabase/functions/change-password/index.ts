@@ -0,0 +1,278 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.39.0';
+import {
+  DEACTIVATED_ERROR,
+  describeLock,
+  getLoginAccount,
+  isAccountLocked,
+  registerFailedLogin,
+  registerSuccessfulLogin
+} from '../_shared/accountLockout.ts';
+import {
+  describeViolations,
+  getPasswordExpiry,
+  isPasswordReused,
+  recordPasswordChange,
+  resolvePasswordPolicy,
+  validatePassword
+} from '../_shared/passwordPolicy.ts';
+import { isPasswordLoginBlocked, SSO_REQUIRED_ERROR } from '../_shared/sso.ts';
+import { verifyTotpCode } from '../_shared/totp.ts';
+
+// Define types for change password request. Users whose password has expired cannot get a session, so they
+// send their credentials (and a TOTP code when enrolled) instead of a bearer token
+interface ChangePasswordRequest {
+  password: string;
+  email?: string;
+  currentPassword?: string;
+  code?: string;
+}
+
+// Define constants
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') || '';
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY') || '';
+
+// Create Supabase client with service role key (bypasses RLS)
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+// Helper function to log audit event
+async function logAuditEvent(userId: string, organizationId: string, action: string, details: Record<string, unknown>) {
+  try {
+    await supabase.from('audit_logs').insert({
+      user_id: userId,
+      organization_id: organizationId,
+      action,
+      resource_type: 'user',
+      resource_id: userId,
+      details,
+    });
+  } catch (error) {
+    console.error('Error logging audit event:', error);
+  }
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+// Signing in with the new password succeeds only if it equals the current one. Only the probe session is
+// ended: the default global scope would sign the user out of every device they are using
+async function isCurrentPassword(email: string, password: string): Promise<boolean> {
+  const anonClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false }
+  });
+  const { data, error } = await anonClient.auth.signInWithPassword({ email, password });
+
+  if (!error && data.session) {
+    await supabase.auth.admin.signOut(data.session.access_token, 'local');
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Checks the credentials of a user whose password has expired with the same lockout, SSO and two-factor
+ * rules as the sign-in function. Failures count towards the lockout
+ */
+async function authenticateExpiredPassword(
+  email: string,
+  currentPassword: string,
+  code: string | undefined
+): Promise<{ user: { id: string; email?: string } } | { response: Response }> {
+  const account = await getLoginAccount(supabase, email);
+
+  if (account && !account.active) {
+    return { response: jsonResponse({ error: DEACTIVATED_ERROR }, 403) };
+  }
+
+  if (account && isAccountLocked(account)) {
+    return { response: jsonResponse({ error: describeLock(account.account_locked_until!), lockedUntil: account.account_locked_until }, 423) };
+  }
+
+  if (account && await isPasswordLoginBlocked(supabase, account.user_id, account.organization_id)) {
+    return { response: jsonResponse({ error: SSO_REQUIRED_ERROR, ssoRequired: true }, 403) };
+  }
+
+  const anonClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false }
+  });
+  const { data, error } = await anonClient.auth.signInWithPassword({ email, password: currentPassword });
+
+  if (error || !data.user || !data.session) {
+    if (account) {
+      const result = await registerFailedLogin(supabase, account, 'invalid_password');
+      if (result.justLocked) {
+        return { response: jsonResponse({ error: describeLock(result.lockedUntil!), lockedUntil: result.lockedUntil }, 423) };
+      }
+    }
+
+    return { response: jsonResponse({ error: 'Invalid login credentials' }, 401) };
+  }
+
+  await supabase.auth.admin.signOut(data.session.access_token, 'local');
+
+  // Anyone with a live session changes their password from the app instead
+  const { expired } = await getPasswordExpiry(supabase, data.user.id);
+  if (!expired) {
+    return { response: jsonResponse({ error: 'Your password has not expired. Sign in to change it.' }, 400) };
+  }
+
+  const { data: secretRow, error: secretError } = await supabase
+    .from('user_two_factor_secrets')
+    .select('secret')
+    .eq('user_id', data.user.id)
+    .maybeSingle();
+
+  if (secretError) {
+    throw secretError;
+  }
+
+  if (secretRow?.secret) {
+    if (!code) {
+      return { response: jsonResponse({ error: 'Verification code is required', requiresTwoFactor: true }, 400) };
+    }
+
+    if (!await verifyTotpCode(supabase, data.user.id, code)) {
+      if (account) {
+        const result = await registerFailedLogin(supabase, account, 'invalid_two_factor_code');
+        if (result.justLocked) {
+          return { response: jsonResponse({ error: describeLock(result.lockedUntil!), lockedUntil: result.lockedUntil }, 423) };
+        }
+      }
+
+      return { response: jsonResponse({ error: 'Invalid verification code', requiresTwoFactor: true }, 401) };
+    }
+  }
+
+  if (account) {
+    await registerSuccessfulLogin(supabase, account.user_id);
+  }
+
+  return { user: { id: data.user.id, email: data.user.email } };
+}
+
+// Main handler function
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight request
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders
+    });
+  }
+
+  try {
+    // Parse request body
+    const requestData: ChangePasswordRequest = await req.json();
+    let user: { id: string; email?: string };
+
+    if (requestData.email && requestData.currentPassword) {
+      const result = await authenticateExpiredPassword(requestData.email, requestData.currentPassword, requestData.code);
+      if ('response' in result) {
+        return result.response;
+      }
+      user = result.user;
+    } else {
+      // Verify authentication
+      const authHeader = req.headers.get('Authorization');
+      if (!authHeader) {
+        return new Response(JSON.stringify({ error: 'Missing authorization header' }), {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      const token = authHeader.replace('Bearer ', '');
+      const { data: { user: authUser }, error: authError } = await supabase.auth.getUser(token);
+
+      if (authError || !authUser) {
+        return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+      user = authUser;
+    }
+
+    if (!requestData.password) {
+      return new Response(JSON.stringify({ error: 'Password is required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Resolve the policy of the user's organization
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('organization_id, organizations(settings)')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    const organization = profile?.organizations as { settings?: Parameters<typeof resolvePasswordPolicy>[0] } | null | undefined;
+    const policy = resolvePasswordPolicy(organization?.settings);
+
+    const passwordViolations = validatePassword(requestData.password, policy);
+    if (passwordViolations.length > 0) {
+      return new Response(JSON.stringify({ error: describeViolations(passwordViolations) }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (policy.preventReuse > 0) {
+      const reused = await isPasswordReused(supabase, user.id, requestData.password, policy) ||
+        await isCurrentPassword(user.email || '', requestData.password);
+
+      if (reused) {
+        return new Response(JSON.stringify({
+          error: `Password must not match any of your last ${policy.preventReuse} passwords.`
+        }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
+    const { error: updateError } = await supabase.auth.admin.updateUserById(user.id, {
+      password: requestData.password
+    });
+
+    if (updateError) {
+      console.error('Error updating password:', updateError);
+      return new Response(JSON.stringify({ error: updateError.message || 'Failed to update password' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    await recordPasswordChange(supabase, user.id, requestData.password);
+
+    if (profile?.organization_id) {
+      await logAuditEvent(user.id, profile.organization_id, 'password_updated', {});
+    }
+
+    return new Response(JSON.stringify({ success: true }), {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Error processing request:', error);
+
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+});
@@ -1,4 +1,10 @@
 import { createClient } from 'npm:@supabase/supabase-js@2.39.0';
+import {
+  DEFAULT_PASSWORD_POLICY,
+  describeViolations,
+  recordPasswordChange,
+  validatePassword
+} from '../_shared/passwordPolicy.ts';
 
 // Define types for request and response
 interface CreateOrgAndAdminRequest {
@@ -86,6 +92,18 @@ Deno.serve(async (req: Request) => {
       });
     }
     
+    // A brand-new organization has no saved policy yet, so the defaults apply
+    const passwordViolations = validatePassword(requestData.password, DEFAULT_PASSWORD_POLICY);
+    if (passwordViolations.length > 0) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        error: describeViolations(passwordViolations) 
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+    
     // Step 1: Create the organization
     console.log('Creating organization for:', requestData.fullName);
     const organizationName = `${requestData.fullName}'s Organization`;
@@ -173,6 +191,9 @@ Deno.serve(async (req: Request) => {
       console.log('User profile created:', profile.id);
     }
     
+    // Seed the password history so preventReuse covers the initial password
+    await recordPasswordChange(supabase, authData.user.id, requestData.password);
+    
     // Step 4: Log audit event
     await logAuditEvent(
       authData.user.id, 
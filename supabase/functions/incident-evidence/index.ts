@@ -0,0 +1,350 @@
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2.39.0';
+
+/*
+ * Chain of custody for incident evidence in the private `incident-evidence` bucket.
+ *
+ *   register    hash an uploaded object and record it in incident_evidence
+ *   download    short-lived signed URL for one file, audited as evidence_downloaded
+ *   thumbnails  signed URLs for the preview images of an incident's evidence
+ *   delete      remove a record and its files, audited as evidence_deleted
+ *
+ * Records are read and deleted with the caller's own token, so the incident_evidence policies decide
+ * what a user may see or remove; storage access itself uses the service role.
+ */
+
+// Define types for evidence requests
+type EvidenceAction = 'register' | 'download' | 'thumbnails' | 'delete';
+
+interface EvidenceRequest {
+  action: EvidenceAction;
+  // register
+  incidentId?: string;
+  path?: string;
+  thumbnailPath?: string | null;
+  fileName?: string;
+  description?: string | null;
+  sha256?: string;
+  // download, delete
+  evidenceId?: string;
+}
+
+interface EvidenceRow {
+  id: string;
+  organization_id: string;
+  incident_id: string;
+  storage_path: string;
+  thumbnail_path: string | null;
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+  sha256: string;
+}
+
+// Define constants
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') || '';
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY') || '';
+const BUCKET = 'incident-evidence';
+const DOWNLOAD_URL_TTL = 60; // seconds
+const THUMBNAIL_URL_TTL = 300; // seconds
+
+// Create Supabase client with service role key (bypasses RLS)
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+// Helper function to log audit event
+async function logAuditEvent(req: Request, userId: string, organizationId: string, action: string, incidentId: string, details: Record<string, unknown> = {}) {
+  try {
+    await supabase.from('audit_logs').insert({
+      user_id: userId,
+      organization_id: organizationId,
+      action,
+      resource_type: 'incident',
+      resource_id: incidentId,
+      details,
+      user_agent: req.headers.get('user-agent'),
+      // The last entry is the one our proxy appended; earlier ones come from the client
+      ip_address: req.headers.get('x-forwarded-for')?.split(',').pop()?.trim() || null
+    });
+  } catch (error) {
+    console.error('Error logging audit event:', error);
+  }
+}
+
+async function sha256Hex(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function findEvidence(userClient: SupabaseClient, evidenceId: string): Promise<EvidenceRow | null> {
+  const { data } = await userClient
+    .from('incident_evidence')
+    .select('id, organization_id, incident_id, storage_path, thumbnail_path, file_name, content_type, size_bytes, sha256')
+    .eq('id', evidenceId)
+    .maybeSingle();
+
+  return data as EvidenceRow | null;
+}
+
+async function handleRegister(req: Request, userId: string, userClient: SupabaseClient, request: EvidenceRequest) {
+  const { incidentId, path, thumbnailPath, fileName, description, sha256 } = request;
+
+  if (!incidentId || !path || !fileName || !sha256) {
+    return jsonResponse({ success: false, error: 'Incident, path, file name and hash are required' }, 400);
+  }
+
+  // The caller must be able to see the incident, and the files must sit in its folder
+  const { data: incident } = await userClient
+    .from('incident_reports')
+    .select('id, organization_id, title')
+    .eq('id', incidentId)
+    .maybeSingle();
+
+  if (!incident) {
+    return jsonResponse({ success: false, error: 'Incident not found' }, 404);
+  }
+
+  const folder = `${incident.organization_id}/${incident.id}/`;
+  if (!path.startsWith(folder) || (thumbnailPath && !thumbnailPath.startsWith(folder))) {
+    return jsonResponse({ success: false, error: 'Evidence must be stored in the incident folder' }, 400);
+  }
+
+  const { data: file, error: downloadError } = await supabase.storage.from(BUCKET).download(path);
+  if (downloadError || !file) {
+    return jsonResponse({ success: false, error: 'Uploaded file not found' }, 404);
+  }
+
+  // The stored bytes are authoritative; a mismatch means the upload was altered or incomplete
+  const computedHash = await sha256Hex(await file.arrayBuffer());
+  if (computedHash !== sha256.toLowerCase()) {
+    await supabase.storage.from(BUCKET).remove([path, ...(thumbnailPath ? [thumbnailPath] : [])]);
+    return jsonResponse({ success: false, error: 'File hash does not match the uploaded file' }, 400);
+  }
+
+  const { data: evidence, error: insertError } = await supabase
+    .from('incident_evidence')
+    .insert({
+      organization_id: incident.organization_id,
+      incident_id: incident.id,
+      storage_path: path,
+      thumbnail_path: thumbnailPath || null,
+      file_name: fileName,
+      content_type: file.type || 'application/octet-stream',
+      size_bytes: file.size,
+      sha256: computedHash,
+      description: description || null,
+      uploaded_by: userId
+    })
+    .select()
+    .single();
+
+  if (insertError) {
+    console.error('Error recording evidence:', insertError);
+    return jsonResponse({ success: false, error: 'Failed to record evidence' }, 500);
+  }
+
+  const { data: uploader } = await supabase
+    .from('user_profiles')
+    .select('full_name')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  const { error: timelineError } = await supabase.rpc('append_incident_timeline_entry', {
+    p_incident_id: incident.id,
+    p_entry: {
+      type: 'evidence_added',
+      action: `Evidence added: ${fileName}`,
+      user: uploader?.full_name || 'Unknown',
+      user_id: userId,
+      evidence_id: evidence.id,
+      file_name: fileName,
+      sha256: computedHash
+    }
+  });
+
+  if (timelineError) {
+    console.error('Error adding evidence to the timeline:', timelineError);
+  }
+
+  await logAuditEvent(req, userId, incident.organization_id, 'evidence_uploaded', incident.id, {
+    incident_title: incident.title,
+    evidence_id: evidence.id,
+    file_name: fileName,
+    size_bytes: file.size,
+    sha256: computedHash
+  });
+
+  return jsonResponse({ success: true, evidence });
+}
+
+async function handleDownload(req: Request, userId: string, userClient: SupabaseClient, evidenceId?: string) {
+  if (!evidenceId) {
+    return jsonResponse({ success: false, error: 'Evidence ID is required' }, 400);
+  }
+
+  const evidence = await findEvidence(userClient, evidenceId);
+  if (!evidence) {
+    return jsonResponse({ success: false, error: 'Evidence not found' }, 404);
+  }
+
+  const { data, error } = await supabase.storage
+    .from(BUCKET)
+    .createSignedUrl(evidence.storage_path, DOWNLOAD_URL_TTL, { download: evidence.file_name });
+
+  if (error || !data) {
+    return jsonResponse({ success: false, error: 'Failed to create download link' }, 500);
+  }
+
+  await logAuditEvent(req, userId, evidence.organization_id, 'evidence_downloaded', evidence.incident_id, {
+    evidence_id: evidence.id,
+    file_name: evidence.file_name,
+    sha256: evidence.sha256,
+    expires_in: DOWNLOAD_URL_TTL
+  });
+
+  return jsonResponse({ success: true, url: data.signedUrl, expiresIn: DOWNLOAD_URL_TTL });
+}
+
+async function handleThumbnails(userClient: SupabaseClient, incidentId?: string) {
+  if (!incidentId) {
+    return jsonResponse({ success: false, error: 'Incident ID is required' }, 400);
+  }
+
+  const { data: evidence } = await userClient
+    .from('incident_evidence')
+    .select('id, thumbnail_path')
+    .eq('incident_id', incidentId)
+    .not('thumbnail_path', 'is', null);
+
+  const rows = (evidence || []) as { id: string; thumbnail_path: string }[];
+  if (rows.length === 0) {
+    return jsonResponse({ success: true, thumbnails: {} });
+  }
+
+  const { data, error } = await supabase.storage
+    .from(BUCKET)
+    .createSignedUrls(rows.map(row => row.thumbnail_path), THUMBNAIL_URL_TTL);
+
+  if (error || !data) {
+    return jsonResponse({ success: false, error: 'Failed to create thumbnail links' }, 500);
+  }
+
+  const thumbnails: Record<string, string> = {};
+  rows.forEach((row, index) => {
+    if (data[index]?.signedUrl) {
+      thumbnails[row.id] = data[index].signedUrl;
+    }
+  });
+
+  return jsonResponse({ success: true, thumbnails });
+}
+
+async function handleDelete(req: Request, userId: string, userClient: SupabaseClient, evidenceId?: string) {
+  if (!evidenceId) {
+    return jsonResponse({ success: false, error: 'Evidence ID is required' }, 400);
+  }
+
+  const evidence = await findEvidence(userClient, evidenceId);
+  if (!evidence) {
+    return jsonResponse({ success: false, error: 'Evidence not found' }, 404);
+  }
+
+  // Deleting as the caller applies the delete policy and the re-authentication trigger
+  const { data: deleted, error: deleteError } = await userClient
+    .from('incident_evidence')
+    .delete()
+    .eq('id', evidence.id)
+    .select('id');
+
+  if (deleteError) {
+    if (deleteError.hint === 'reauth_required') {
+      return jsonResponse({ success: false, error: 'Re-authentication required', reauthRequired: true }, 403);
+    }
+    return jsonResponse({ success: false, error: 'Failed to delete evidence' }, 500);
+  }
+
+  if (!deleted || deleted.length === 0) {
+    return jsonResponse({ success: false, error: 'You do not have permission to delete evidence' }, 403);
+  }
+
+  const { error: removeError } = await supabase.storage
+    .from(BUCKET)
+    .remove([evidence.storage_path, ...(evidence.thumbnail_path ? [evidence.thumbnail_path] : [])]);
+
+  if (removeError) {
+    console.error('Error removing evidence files:', removeError);
+  }
+
+  await logAuditEvent(req, userId, evidence.organization_id, 'evidence_deleted', evidence.incident_id, {
+    evidence_id: evidence.id,
+    file_name: evidence.file_name,
+    sha256: evidence.sha256,
+    files_removed: !removeError
+  });
+
+  return jsonResponse({ success: true });
+}
+
+// Main handler function
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight request
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders
+    });
+  }
+
+  try {
+    // Parse request body
+    const requestData: EvidenceRequest = await req.json();
+
+    // Verify authentication
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ success: false, error: 'Missing authorization header' }, 401);
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const userClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+      global: { headers: { Authorization: authHeader } },
+      auth: { persistSession: false }
+    });
+
+    switch (requestData.action) {
+      case 'register':
+        return await handleRegister(req, user.id, userClient, requestData);
+      case 'download':
+        return await handleDownload(req, user.id, userClient, requestData.evidenceId);
+      case 'thumbnails':
+        return await handleThumbnails(userClient, requestData.incidentId);
+      case 'delete':
+        return await handleDelete(req, user.id, userClient, requestData.evidenceId);
+      default:
+        return jsonResponse({ success: false, error: 'Unknown action' }, 400);
+    }
+  } catch (error) {
+    console.error('Error processing request:', error);
+
+    return jsonResponse({ success: false, error: 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,447 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.39.0';
+import { createEventNotification } from '../_shared/notifications.ts';
+
+/*
+ * Public incident reporting for people without an account, reached through an organization's
+ * report URL (/report/<token>). Requests carry only the anon key.
+ *
+ *   portal  organization name, departments and whether anonymous reports are allowed
+ *   submit  multipart form with a `report` JSON field and optional `files`; creates an unverified
+ *           incident, stores the files as evidence and returns a tracking code shown once
+ *   status  current status of a report, looked up by its tracking code
+ *
+ * Submissions and status checks are rate limited per client address instead of using a CAPTCHA.
+ */
+
+// Define types for portal requests
+type PortalAction = 'portal' | 'submit' | 'status';
+
+interface PortalReport {
+  title: string;
+  description: string;
+  dateTime: string;
+  severity?: 'Low' | 'Medium' | 'High' | 'Critical';
+  location: string;
+  coordinates?: [number, number] | null;
+  department: string;
+  immediateActions?: string | null;
+  anonymous?: boolean;
+  reporterName?: string | null;
+  reporterEmail?: string | null;
+  reporterPhone?: string | null;
+}
+
+interface PortalRequest {
+  action: PortalAction;
+  token?: string;
+  trackingCode?: string;
+}
+
+interface Portal {
+  organization_id: string;
+  organization_name: string;
+  allow_anonymous: boolean;
+  departments: string[];
+}
+
+// Define constants
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') || '';
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+const BUCKET = 'incident-evidence';
+const SUBMIT_LIMIT = { maxRequests: 5, windowMinutes: 60 };
+const STATUS_LIMIT = { maxRequests: 30, windowMinutes: 60 };
+const MAX_FILES = 5;
+const MAX_FILE_SIZE = 20 * 1024 * 1024;
+const TRACKING_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const SEVERITIES = ['Low', 'Medium', 'High', 'Critical'];
+
+// Create Supabase client with service role key (bypasses RLS)
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+async function sha256Hex(data: ArrayBuffer | string): Promise<string> {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// 12 characters from a 32 character alphabet, shown as XXXX-XXXX-XXXX
+function generateTrackingCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(12));
+  const chars = Array.from(bytes, byte => TRACKING_CODE_ALPHABET[byte % TRACKING_CODE_ALPHABET.length]);
+  return [0, 4, 8].map(start => chars.slice(start, start + 4).join('')).join('-');
+}
+
+const normalizeTrackingCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// The last x-forwarded-for entry is the one our proxy appended; the ones before it come from the client and
+// could be changed on every request
+const getClientAddress = (req: Request) => req.headers.get('x-forwarded-for')?.split(',').pop()?.trim() || null;
+
+// Client addresses are only kept hashed, and per organization
+async function hashClient(req: Request, organizationId: string): Promise<string> {
+  return sha256Hex(`${organizationId}:${getClientAddress(req) || 'unknown'}`);
+}
+
+async function findPortal(token?: string): Promise<Portal | null> {
+  if (!token) return null;
+
+  const { data } = await supabase.rpc('find_incident_portal', { p_token: token });
+  const portal = (data as Portal[] | null)?.[0];
+  return portal || null;
+}
+
+async function withinRateLimit(req: Request, portal: Portal, kind: 'submit' | 'status'): Promise<boolean> {
+  const limit = kind === 'submit' ? SUBMIT_LIMIT : STATUS_LIMIT;
+  const { data, error } = await supabase.rpc('register_portal_request', {
+    p_organization_id: portal.organization_id,
+    p_client_hash: await hashClient(req, portal.organization_id),
+    p_kind: kind,
+    p_max_requests: limit.maxRequests,
+    p_window_minutes: limit.windowMinutes
+  });
+
+  if (error) {
+    console.error('Error checking portal rate limit:', error);
+    return false;
+  }
+
+  return data === true;
+}
+
+const isFilled = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+const isOptionalText = (value: unknown) => value === undefined || value === null || typeof value === 'string';
+
+// The report comes from an anonymous form, so every field is checked for its type before it is used
+function validateReport(report: PortalReport, portal: Portal, files: File[]): string | null {
+  if (!isFilled(report.title) || !isFilled(report.description) || !isFilled(report.dateTime) || !isFilled(report.location) || !isFilled(report.department)) {
+    return 'Please fill in all required fields';
+  }
+  if (!isOptionalText(report.immediateActions) || !isOptionalText(report.reporterName)
+    || !isOptionalText(report.reporterEmail) || !isOptionalText(report.reporterPhone)) {
+    return 'Invalid report';
+  }
+  if (Number.isNaN(new Date(report.dateTime).getTime())) {
+    return 'Invalid date and time';
+  }
+  if (report.severity && !SEVERITIES.includes(report.severity)) {
+    return 'Invalid severity';
+  }
+  // Without a configured list the form asks for the department as free text
+  if (portal.departments.length > 0 && !portal.departments.includes(report.department.trim())) {
+    return 'Invalid department';
+  }
+  if (report.coordinates && (!Array.isArray(report.coordinates) || report.coordinates.length !== 2
+    || report.coordinates.some(value => typeof value !== 'number' || !Number.isFinite(value)))) {
+    return 'Invalid coordinates';
+  }
+  if (report.anonymous !== undefined && typeof report.anonymous !== 'boolean') {
+    return 'Invalid report';
+  }
+  if (report.anonymous && !portal.allow_anonymous) {
+    return 'This organization does not accept anonymous reports';
+  }
+  if (!report.anonymous && (!isFilled(report.reporterName) || !isFilled(report.reporterEmail))) {
+    return 'Please provide your name and email address';
+  }
+  if (files.length > MAX_FILES) {
+    return `At most ${MAX_FILES} files can be attached`;
+  }
+  const invalidFile = files.find(file =>
+    file.size > MAX_FILE_SIZE ||
+    !(file.type.startsWith('image/') || file.type.startsWith('video/') || file.type === 'application/pdf')
+  );
+  if (invalidFile) {
+    return `${invalidFile.name}: only photos, PDFs and videos up to 20 MB can be attached`;
+  }
+  return null;
+}
+
+async function storeEvidence(organizationId: string, incidentId: string, files: File[]): Promise<number> {
+  let stored = 0;
+
+  for (const file of files) {
+    const bytes = await file.arrayBuffer();
+    const sha256 = await sha256Hex(bytes);
+    const path = `${organizationId}/${incidentId}/${crypto.randomUUID()}/${file.name.replace(/[^\w.-]+/g, '_')}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(BUCKET)
+      .upload(path, bytes, { contentType: file.type, upsert: false });
+
+    if (uploadError) {
+      console.error('Error storing portal evidence:', uploadError);
+      continue;
+    }
+
+    const { data: evidence, error: insertError } = await supabase
+      .from('incident_evidence')
+      .insert({
+        organization_id: organizationId,
+        incident_id: incidentId,
+        storage_path: path,
+        file_name: file.name,
+        content_type: file.type,
+        size_bytes: file.size,
+        sha256,
+        description: 'Submitted through the reporting portal',
+        uploaded_by: null
+      })
+      .select('id')
+      .single();
+
+    if (insertError || !evidence) {
+      console.error('Error recording portal evidence:', insertError);
+      await supabase.storage.from(BUCKET).remove([path]);
+      continue;
+    }
+
+    await supabase.rpc('append_incident_timeline_entry', {
+      p_incident_id: incidentId,
+      p_entry: {
+        type: 'evidence_added',
+        action: `Evidence added: ${file.name}`,
+        user: 'Reporting portal',
+        evidence_id: evidence.id,
+        file_name: file.name,
+        sha256
+      }
+    });
+
+    stored++;
+  }
+
+  return stored;
+}
+
+async function handlePortal(token?: string) {
+  const portal = await findPortal(token);
+  if (!portal) {
+    return jsonResponse({ success: false, error: 'This reporting link is not valid' }, 404);
+  }
+
+  return jsonResponse({
+    success: true,
+    organizationName: portal.organization_name,
+    allowAnonymous: portal.allow_anonymous,
+    departments: portal.departments,
+    maxFiles: MAX_FILES,
+    maxFileSize: MAX_FILE_SIZE
+  });
+}
+
+async function handleSubmit(req: Request, form: FormData) {
+  const portal = await findPortal(form.get('token')?.toString());
+  if (!portal) {
+    return jsonResponse({ success: false, error: 'This reporting link is not valid' }, 404);
+  }
+
+  if (!await withinRateLimit(req, portal, 'submit')) {
+    return jsonResponse({ success: false, error: 'Too many reports from your network. Please try again later.' }, 429);
+  }
+
+  let report: PortalReport;
+  try {
+    report = JSON.parse(form.get('report')?.toString() || '{}');
+  } catch {
+    return jsonResponse({ success: false, error: 'Invalid report' }, 400);
+  }
+
+  if (!report || typeof report !== 'object' || Array.isArray(report)) {
+    return jsonResponse({ success: false, error: 'Invalid report' }, 400);
+  }
+
+  const files = form.getAll('files').filter((value): value is File => value instanceof File && value.size > 0);
+  const validationError = validateReport(report, portal, files);
+  if (validationError) {
+    return jsonResponse({ success: false, error: validationError }, 400);
+  }
+
+  const { data: workflow } = await supabase.rpc('get_incident_workflow', { p_organization_id: portal.organization_id });
+  const trackingCode = generateTrackingCode();
+  const severity = report.severity || 'Medium';
+
+  const { data: incident, error: insertError } = await supabase
+    .from('incident_reports')
+    .insert({
+      organization_id: portal.organization_id,
+      title: report.title.trim(),
+      description: report.description.trim(),
+      date_time: new Date(report.dateTime).toISOString(),
+      severity,
+      location: report.location.trim(),
+      location_coordinates: report.coordinates || null,
+      department: report.department.trim(),
+      involved_parties: [],
+      immediate_actions: report.immediateActions?.trim() || null,
+      reporter_user_id: null,
+      reporter_name: report.anonymous ? 'Anonymous reporter' : report.reporterName!.trim(),
+      reporter_email: report.anonymous ? '' : report.reporterEmail!.trim(),
+      reporter_phone: report.anonymous ? null : report.reporterPhone?.trim() || null,
+      reporter_anonymous: !!report.anonymous,
+      status: (workflow as { initialState?: string } | null)?.initialState || 'Reported',
+      source: 'portal',
+      verified: false,
+      tracking_code_hash: await sha256Hex(normalizeTrackingCode(trackingCode))
+    })
+    .select('id, title, assigned_user_id, assigned_team_id')
+    .single();
+
+  if (insertError || !incident) {
+    console.error('Error creating portal incident:', insertError);
+    return jsonResponse({ success: false, error: 'Failed to submit the report' }, 500);
+  }
+
+  const storedFiles = await storeEvidence(portal.organization_id, incident.id, files);
+
+  await supabase.from('audit_logs').insert({
+    user_id: null,
+    organization_id: portal.organization_id,
+    action: 'incident_portal_submitted',
+    resource_type: 'incident',
+    resource_id: incident.id,
+    details: {
+      incident_title: incident.title,
+      incident_severity: severity,
+      anonymous: !!report.anonymous,
+      files_attached: storedFiles
+    },
+    user_agent: req.headers.get('user-agent'),
+    ip_address: getClientAddress(req)
+  });
+
+  await createEventNotification(supabase, {
+    organizationId: portal.organization_id,
+    userId: null,
+    eventType: 'created',
+    resourceType: 'incident',
+    resourceId: incident.id,
+    resourceName: incident.title,
+    details: `${severity} severity incident submitted through the reporting portal and awaiting verification.`,
+    priority: severity === 'Critical' ? 'critical' : severity === 'High' ? 'high' : 'medium'
+  });
+
+  // The database assigns new incidents to whoever is on call for their department and location
+  let assignees = incident.assigned_user_id ? [incident.assigned_user_id] : [];
+  if (assignees.length === 0 && incident.assigned_team_id) {
+    const { data: team } = await supabase
+      .from('responder_teams')
+      .select('member_user_ids')
+      .eq('id', incident.assigned_team_id)
+      .maybeSingle();
+    assignees = team?.member_user_ids || [];
+  }
+
+  for (const userId of assignees) {
+    await createEventNotification(supabase, {
+      organizationId: portal.organization_id,
+      userId,
+      eventType: 'alert',
+      resourceType: 'incident',
+      resourceId: incident.id,
+      resourceName: incident.title,
+      details: `You are on call and were assigned this ${severity} portal report; verify it before responding.`,
+      priority: severity === 'Critical' ? 'critical' : severity === 'High' ? 'high' : 'medium'
+    });
+  }
+
+  return jsonResponse({
+    success: true,
+    trackingCode,
+    filesStored: storedFiles,
+    filesRejected: files.length - storedFiles
+  });
+}
+
+async function handleStatus(req: Request, token?: string, trackingCode?: string) {
+  const portal = await findPortal(token);
+  if (!portal) {
+    return jsonResponse({ success: false, error: 'This reporting link is not valid' }, 404);
+  }
+
+  if (!await withinRateLimit(req, portal, 'status')) {
+    return jsonResponse({ success: false, error: 'Too many status checks from your network. Please try again later.' }, 429);
+  }
+
+  if (!trackingCode) {
+    return jsonResponse({ success: false, error: 'Tracking code is required' }, 400);
+  }
+
+  const { data: incident } = await supabase
+    .from('incident_reports')
+    .select('title, status, verified, created_at, updated_at')
+    .eq('organization_id', portal.organization_id)
+    .eq('tracking_code_hash', await sha256Hex(normalizeTrackingCode(trackingCode)))
+    .maybeSingle();
+
+  if (!incident) {
+    return jsonResponse({ success: false, error: 'No report found for this tracking code' }, 404);
+  }
+
+  const { data: workflow } = await supabase.rpc('get_incident_workflow', { p_organization_id: portal.organization_id });
+  const state = ((workflow as { states?: { name: string; category: string }[] } | null)?.states || [])
+    .find(candidate => candidate.name === incident.status);
+
+  // Internal notes and assignments stay private; the reporter only sees progress
+  return jsonResponse({
+    success: true,
+    report: {
+      title: incident.title,
+      status: incident.status,
+      category: state?.category || 'open',
+      verified: incident.verified,
+      submittedAt: incident.created_at,
+      updatedAt: incident.updated_at
+    }
+  });
+}
+
+// Main handler function
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight request
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders
+    });
+  }
+
+  try {
+    // Submissions are multipart so files can be attached; everything else is JSON
+    if (req.headers.get('content-type')?.includes('multipart/form-data')) {
+      const form = await req.formData();
+      if (form.get('action') !== 'submit') {
+        return jsonResponse({ success: false, error: 'Unknown action' }, 400);
+      }
+      return await handleSubmit(req, form);
+    }
+
+    const requestData: PortalRequest = await req.json();
+
+    switch (requestData.action) {
+      case 'portal':
+        return await handlePortal(requestData.token);
+      case 'status':
+        return await handleStatus(req, requestData.token, requestData.trackingCode);
+      default:
+        return jsonResponse({ success: false, error: 'Unknown action' }, 400);
+    }
+  } catch (error) {
+    console.error('Error processing request:', error);
+
+    return jsonResponse({ success: false, error: 'Internal server error' }, 500);
+  }
+});
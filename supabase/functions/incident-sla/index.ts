@@ -0,0 +1,255 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.39.0';
+import { createEventNotification } from '../_shared/notifications.ts';
+
+/*
+ * Evaluates incident SLA timers and escalates breaches.
+ *
+ * Meant to run on a schedule (every minute, e.g. a pg_cron job calling this function with pg_net)
+ * and authenticated with the service role key. Each run records targets that passed their due time
+ * without being met in `incident_reports.sla_breaches`, raises `escalation_level` and sends a critical
+ * notification to the next escalation tier: the incident department's managers first, then the
+ * organization's admins. Each target of an incident is escalated once.
+ */
+
+// Define types for SLA evaluation
+type SlaTarget = 'acknowledge' | 'assign' | 'resolve';
+
+interface SlaBreach {
+  type: SlaTarget;
+  due_at: string;
+  breached_at: string;
+  escalation_level: number;
+  escalated_to: string[];
+}
+
+interface IncidentRow {
+  id: string;
+  organization_id: string;
+  title: string;
+  severity: string;
+  department: string;
+  status: string;
+  acknowledged_at: string | null;
+  assigned_at: string | null;
+  acknowledge_due_at: string | null;
+  assign_due_at: string | null;
+  resolve_due_at: string | null;
+  sla_breaches: SlaBreach[];
+  escalation_level: number;
+}
+
+interface StaffRow {
+  user_id: string;
+  role: string;
+  department: string | null;
+}
+
+const targetLabels: Record<SlaTarget, string> = {
+  acknowledge: 'time to acknowledge',
+  assign: 'time to assign',
+  resolve: 'time to resolve'
+};
+
+// Define constants
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') || '';
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+
+// Create Supabase client with service role key (bypasses RLS)
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+// Helper function to log audit event
+async function logAuditEvent(organizationId: string, action: string, resourceId: string, details: Record<string, unknown> = {}) {
+  try {
+    await supabase.from('audit_logs').insert({
+      user_id: null,
+      organization_id: organizationId,
+      action,
+      resource_type: 'incident',
+      resource_id: resourceId,
+      details,
+    });
+  } catch (error) {
+    console.error('Error logging audit event:', error);
+  }
+}
+
+/**
+ * Targets whose due time has passed without being met and that were not already recorded
+ */
+function findNewBreaches(incident: IncidentRow, now: Date): { type: SlaTarget; dueAt: string }[] {
+  const recorded = new Set((incident.sla_breaches || []).map(breach => breach.type));
+  const candidates: { type: SlaTarget; dueAt: string | null; met: boolean }[] = [
+    { type: 'acknowledge', dueAt: incident.acknowledge_due_at, met: !!incident.acknowledged_at },
+    { type: 'assign', dueAt: incident.assign_due_at, met: !!incident.assigned_at },
+    // The query only returns unresolved incidents
+    { type: 'resolve', dueAt: incident.resolve_due_at, met: false }
+  ];
+
+  return candidates
+    .filter(candidate => !candidate.met && !recorded.has(candidate.type) && candidate.dueAt && new Date(candidate.dueAt) <= now)
+    .map(candidate => ({ type: candidate.type, dueAt: candidate.dueAt! }));
+}
+
+/**
+ * Users to notify at an escalation level. The first escalation goes to the managers of the incident's
+ * department and falls back to admins when the department has none; later ones go to admins
+ */
+function getEscalationTargets(staff: StaffRow[], incident: IncidentRow, level: number): string[] {
+  const admins = staff.filter(member => member.role === 'admin' || member.role === 'super_admin');
+
+  if (level <= 1) {
+    const department = incident.department?.trim().toLowerCase();
+    const managers = staff.filter(member =>
+      member.role === 'manager' && !!department && member.department?.trim().toLowerCase() === department
+    );
+    if (managers.length > 0) {
+      return managers.map(member => member.user_id);
+    }
+  }
+
+  return admins.map(member => member.user_id);
+}
+
+async function escalateIncident(incident: IncidentRow, breaches: { type: SlaTarget; dueAt: string }[], staff: StaffRow[], now: Date) {
+  const level = (incident.escalation_level || 0) + 1;
+  const recipients = getEscalationTargets(staff, incident, level);
+  const breachedAt = now.toISOString();
+  const labels = breaches.map(breach => targetLabels[breach.type]).join(', ');
+
+  const { error } = await supabase
+    .from('incident_reports')
+    .update({
+      escalation_level: level,
+      sla_breaches: [
+        ...(incident.sla_breaches || []),
+        ...breaches.map(breach => ({
+          type: breach.type,
+          due_at: breach.dueAt,
+          breached_at: breachedAt,
+          escalation_level: level,
+          escalated_to: recipients
+        }))
+      ]
+    })
+    .eq('id', incident.id);
+
+  if (error) {
+    console.error(`Error recording SLA breach for incident ${incident.id}:`, error);
+    return false;
+  }
+
+  // Appended in the database, so entries added since this run read the incident are kept
+  const { error: timelineError } = await supabase.rpc('append_incident_timeline_entry', {
+    p_incident_id: incident.id,
+    p_entry: {
+      type: 'sla_breach',
+      action: `SLA breached (${labels}); escalated to level ${level}`,
+      targets: breaches.map(breach => breach.type)
+    }
+  });
+
+  if (timelineError) {
+    console.error(`Error adding SLA breach to the timeline of incident ${incident.id}:`, timelineError);
+  }
+
+  for (const userId of recipients) {
+    await createEventNotification(supabase, {
+      organizationId: incident.organization_id,
+      userId,
+      eventType: 'alert',
+      resourceType: 'incident',
+      resourceId: incident.id,
+      resourceName: incident.title,
+      details: `${incident.severity} incident breached its ${labels} SLA and was escalated to you.`,
+      priority: 'critical'
+    });
+  }
+
+  await logAuditEvent(incident.organization_id, 'incident_sla_breached', incident.id, {
+    incident_title: incident.title,
+    incident_severity: incident.severity,
+    incident_status: incident.status,
+    breaches: breaches.map(breach => ({ type: breach.type, due_at: breach.dueAt })),
+    escalation_level: level,
+    escalated_to: recipients
+  });
+
+  return true;
+}
+
+// Main handler function
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight request
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders
+    });
+  }
+
+  try {
+    // Only the scheduler may run the evaluation
+    const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+    if (!token || token !== SUPABASE_SERVICE_ROLE_KEY) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const now = new Date();
+    const nowIso = now.toISOString();
+
+    const { data: incidents, error: incidentsError } = await supabase
+      .from('incident_reports')
+      .select('id, organization_id, title, severity, department, status, acknowledged_at, assigned_at, acknowledge_due_at, assign_due_at, resolve_due_at, sla_breaches, escalation_level')
+      .is('resolved_at', null)
+      // Merged incidents live on in their master record
+      .is('merged_into', null)
+      .or(`acknowledge_due_at.lte.${nowIso},assign_due_at.lte.${nowIso},resolve_due_at.lte.${nowIso}`);
+
+    if (incidentsError) {
+      throw incidentsError;
+    }
+
+    const breached = ((incidents || []) as IncidentRow[])
+      .map(incident => ({ incident, breaches: findNewBreaches(incident, now) }))
+      .filter(({ breaches }) => breaches.length > 0);
+
+    const staffByOrganization = new Map<string, StaffRow[]>();
+    let escalated = 0;
+
+    for (const { incident, breaches } of breached) {
+      if (!staffByOrganization.has(incident.organization_id)) {
+        const { data: staff } = await supabase
+          .from('user_profiles')
+          .select('user_id, role, department')
+          .eq('organization_id', incident.organization_id)
+          .eq('active', true)
+          .in('role', ['manager', 'admin', 'super_admin']);
+        staffByOrganization.set(incident.organization_id, (staff || []) as StaffRow[]);
+      }
+
+      if (await escalateIncident(incident, breaches, staffByOrganization.get(incident.organization_id)!, now)) {
+        escalated++;
+      }
+    }
+
+    return jsonResponse({ success: true, evaluated: incidents?.length || 0, escalated });
+  } catch (error) {
+    console.error('Error evaluating incident SLAs:', error);
+
+    return jsonResponse({ success: false, error: 'Internal server error' }, 500);
+  }
+});
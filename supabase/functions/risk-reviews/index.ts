@@ -0,0 +1,396 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.39.0';
+import { createEventNotification } from '../_shared/notifications.ts';
+
+/*
+ * Drives periodic risk reviews.
+ *
+ * Meant to run on a schedule (daily, e.g. a pg_cron job calling this function with pg_net) and
+ * authenticated with the service role key. Each run opens a review task in `risk_reviews` for every open
+ * risk whose review comes due within the organization's reminder window and notifies its owner, reminds
+ * owners once more when the review becomes overdue, and escalates reviews that stay overdue: to the
+ * risk department's managers after `escalationDays`, then to the organization's admins after twice as
+ * long. Open tasks of closed risks are cancelled.
+ *
+ * Each run first expires risk acceptances whose period has ended. `expire_risk_acceptances()` puts those
+ * risks back in the status they had before and opens a review due straight away, and their owners are
+ * told the risk has reopened.
+ */
+
+// Define types for review evaluation
+type RiskLevel = 'Low' | 'Medium' | 'High' | 'Critical';
+
+interface RiskReviewPolicy {
+  bandDays: Record<RiskLevel, number>;
+  categoryDays: Record<string, number>;
+  reminderDays: number;
+  escalationDays: number;
+}
+
+interface RiskBands {
+  low: number;
+  medium: number;
+  high: number;
+}
+
+interface RiskRow {
+  id: string;
+  organization_id: string;
+  title: string;
+  category: string;
+  status: string;
+  risk_score: number;
+  owner_user_id: string | null;
+  department: string | null;
+  last_reviewed_at: string | null;
+  created_at: string;
+}
+
+interface ReviewRow {
+  id: string;
+  risk_id: string;
+  due_at: string;
+  reminded_at: string | null;
+  escalation_level: number;
+}
+
+interface ExpiredAcceptanceRow {
+  id: string;
+  organization_id: string;
+  risk_id: string;
+  expires_at: string;
+}
+
+interface StaffRow {
+  user_id: string;
+  role: string;
+  department: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_ESCALATION_LEVEL = 2;
+
+// Define constants
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') || '';
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+
+// Create Supabase client with service role key (bypasses RLS)
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+// Helper function to log audit event
+async function logAuditEvent(organizationId: string, action: string, resourceId: string, details: Record<string, unknown> = {}) {
+  try {
+    await supabase.from('audit_logs').insert({
+      user_id: null,
+      organization_id: organizationId,
+      action,
+      resource_type: 'risk',
+      resource_id: resourceId,
+      details,
+    });
+  } catch (error) {
+    console.error('Error logging audit event:', error);
+  }
+}
+
+// Mirrors getRiskLevel in src/utils/riskScoring.ts, with the organization's configured bands
+function getRiskLevel(score: number, bands: RiskBands): RiskLevel {
+  if (score <= bands.low) return 'Low';
+  if (score <= bands.medium) return 'Medium';
+  if (score <= bands.high) return 'High';
+  return 'Critical';
+}
+
+/**
+ * When a risk is due for review; mirrors getNextReviewDate in src/utils/riskReviews.ts
+ */
+function getReviewDueDate(policy: RiskReviewPolicy, bands: RiskBands, risk: RiskRow): Date {
+  const bandDays = policy.bandDays[getRiskLevel(risk.risk_score, bands)];
+  const categoryDays = policy.categoryDays?.[risk.category];
+  const days = categoryDays ? Math.min(bandDays, categoryDays) : bandDays;
+  return new Date(new Date(risk.last_reviewed_at || risk.created_at).getTime() + days * DAY_MS);
+}
+
+/**
+ * Users to notify at an escalation level: the managers of the risk's department first, falling back to
+ * admins when the department has none, and admins after that
+ */
+function getEscalationTargets(staff: StaffRow[], risk: RiskRow, level: number): string[] {
+  const admins = staff.filter(member => member.role === 'admin' || member.role === 'super_admin');
+
+  if (level <= 1) {
+    const department = risk.department?.trim().toLowerCase();
+    const managers = staff.filter(member =>
+      member.role === 'manager' && !!department && member.department?.trim().toLowerCase() === department
+    );
+    if (managers.length > 0) {
+      return managers.map(member => member.user_id);
+    }
+  }
+
+  return admins.map(member => member.user_id);
+}
+
+async function openReview(risk: RiskRow, dueAt: Date, now: Date) {
+  const { error } = await supabase
+    .from('risk_reviews')
+    .insert({
+      organization_id: risk.organization_id,
+      risk_id: risk.id,
+      owner_user_id: risk.owner_user_id,
+      due_at: dueAt.toISOString(),
+      reminded_at: now.toISOString()
+    });
+
+  if (error) {
+    console.error(`Error opening review for risk ${risk.id}:`, error);
+    return false;
+  }
+
+  await createEventNotification(supabase, {
+    organizationId: risk.organization_id,
+    // Risks without an owner go to the organization's admins
+    userId: risk.owner_user_id,
+    eventType: 'alert',
+    resourceType: 'risk',
+    resourceId: risk.id,
+    resourceName: risk.title,
+    details: `This risk is due for its periodic review by ${dueAt.toISOString().split('T')[0]}.`,
+    priority: dueAt <= now ? 'high' : 'medium'
+  });
+
+  return true;
+}
+
+async function remindOverdue(risk: RiskRow, review: ReviewRow, now: Date) {
+  await supabase
+    .from('risk_reviews')
+    .update({ reminded_at: now.toISOString() })
+    .eq('id', review.id);
+
+  await createEventNotification(supabase, {
+    organizationId: risk.organization_id,
+    userId: risk.owner_user_id,
+    eventType: 'alert',
+    resourceType: 'risk',
+    resourceId: risk.id,
+    resourceName: risk.title,
+    details: `The periodic review of this risk was due ${review.due_at.split('T')[0]} and is now overdue.`,
+    priority: 'high'
+  });
+}
+
+async function escalateReview(risk: RiskRow, review: ReviewRow, level: number, staff: StaffRow[], now: Date) {
+  const recipients = getEscalationTargets(staff, risk, level);
+
+  const { error } = await supabase
+    .from('risk_reviews')
+    .update({ escalation_level: level, escalated_at: now.toISOString() })
+    .eq('id', review.id);
+
+  if (error) {
+    console.error(`Error escalating review ${review.id}:`, error);
+    return false;
+  }
+
+  for (const userId of recipients) {
+    await createEventNotification(supabase, {
+      organizationId: risk.organization_id,
+      userId,
+      eventType: 'alert',
+      resourceType: 'risk',
+      resourceId: risk.id,
+      resourceName: risk.title,
+      details: `The periodic review of this risk has been overdue since ${review.due_at.split('T')[0]} and was escalated to you.`,
+      priority: level >= MAX_ESCALATION_LEVEL ? 'critical' : 'high'
+    });
+  }
+
+  await logAuditEvent(risk.organization_id, 'risk_review_escalated', risk.id, {
+    risk_title: risk.title,
+    review_id: review.id,
+    due_at: review.due_at,
+    owner_user_id: risk.owner_user_id,
+    escalation_level: level,
+    escalated_to: recipients
+  });
+
+  return true;
+}
+
+async function notifyExpiredAcceptances(acceptances: ExpiredAcceptanceRow[]) {
+  const { data: risks, error } = await supabase
+    .from('risks')
+    .select('id, title, owner_user_id')
+    .in('id', acceptances.map(acceptance => acceptance.risk_id));
+
+  if (error) {
+    console.error('Error loading risks of expired acceptances:', error);
+    return;
+  }
+
+  const risksById = new Map((risks || []).map(risk => [risk.id, risk]));
+
+  for (const acceptance of acceptances) {
+    const risk = risksById.get(acceptance.risk_id);
+    if (!risk) continue;
+
+    await createEventNotification(supabase, {
+      organizationId: acceptance.organization_id,
+      // Risks without an owner go to the organization's admins
+      userId: risk.owner_user_id,
+      eventType: 'alert',
+      resourceType: 'risk',
+      resourceId: risk.id,
+      resourceName: risk.title,
+      details: `The acceptance of this risk expired on ${acceptance.expires_at.split('T')[0]}. The risk has reopened and is due for review.`,
+      priority: 'high'
+    });
+  }
+}
+
+// Main handler function
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight request
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders
+    });
+  }
+
+  try {
+    // Only the scheduler may run the evaluation
+    const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+    if (!token || token !== SUPABASE_SERVICE_ROLE_KEY) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const now = new Date();
+
+    // Expired acceptances reopen their risks before the reviews are evaluated
+    const { data: expiredAcceptances, error: expiryError } = await supabase.rpc('expire_risk_acceptances');
+    if (expiryError) {
+      throw expiryError;
+    }
+    const expired = (expiredAcceptances || []) as ExpiredAcceptanceRow[];
+    if (expired.length > 0) {
+      await notifyExpiredAcceptances(expired);
+    }
+
+    // Closed risks are no longer reviewed
+    const { data: closedRisks } = await supabase.from('risks').select('id').eq('status', 'closed');
+    const closedIds = (closedRisks || []).map(risk => risk.id);
+    if (closedIds.length > 0) {
+      await supabase
+        .from('risk_reviews')
+        .update({ status: 'cancelled' })
+        .eq('status', 'pending')
+        .in('risk_id', closedIds);
+    }
+
+    const [riskResult, reviewResult] = await Promise.all([
+      supabase
+        .from('risks')
+        .select('id, organization_id, title, category, status, risk_score, owner_user_id, department, last_reviewed_at, created_at')
+        .neq('status', 'closed'),
+      supabase
+        .from('risk_reviews')
+        .select('id, risk_id, due_at, reminded_at, escalation_level')
+        .eq('status', 'pending')
+    ]);
+
+    if (riskResult.error) {
+      throw riskResult.error;
+    }
+    if (reviewResult.error) {
+      throw reviewResult.error;
+    }
+
+    const pendingByRisk = new Map(((reviewResult.data || []) as ReviewRow[]).map(review => [review.risk_id, review]));
+    const policyByOrganization = new Map<string, RiskReviewPolicy>();
+    const bandsByOrganization = new Map<string, RiskBands>();
+    const staffByOrganization = new Map<string, StaffRow[]>();
+    let opened = 0;
+    let reminded = 0;
+    let escalated = 0;
+
+    for (const risk of (riskResult.data || []) as RiskRow[]) {
+      if (!policyByOrganization.has(risk.organization_id)) {
+        const { data: policy, error: policyError } = await supabase.rpc('get_risk_review_policy', {
+          p_organization_id: risk.organization_id
+        });
+        if (policyError) {
+          throw policyError;
+        }
+        policyByOrganization.set(risk.organization_id, policy as RiskReviewPolicy);
+
+        const { data: appetite, error: appetiteError } = await supabase.rpc('get_risk_appetite', {
+          p_organization_id: risk.organization_id
+        });
+        if (appetiteError) {
+          throw appetiteError;
+        }
+        bandsByOrganization.set(risk.organization_id, (appetite as { bands: RiskBands }).bands);
+      }
+      const policy = policyByOrganization.get(risk.organization_id)!;
+      const review = pendingByRisk.get(risk.id);
+
+      if (!review) {
+        const dueAt = getReviewDueDate(policy, bandsByOrganization.get(risk.organization_id)!, risk);
+        if (dueAt.getTime() - policy.reminderDays * DAY_MS <= now.getTime() && await openReview(risk, dueAt, now)) {
+          opened++;
+        }
+        continue;
+      }
+
+      const dueAt = new Date(review.due_at);
+      if (dueAt > now) {
+        continue;
+      }
+
+      if (!review.reminded_at || new Date(review.reminded_at) < dueAt) {
+        await remindOverdue(risk, review, now);
+        reminded++;
+      }
+
+      const daysOverdue = Math.floor((now.getTime() - dueAt.getTime()) / DAY_MS);
+      const level = Math.min(MAX_ESCALATION_LEVEL, Math.floor(daysOverdue / Math.max(1, policy.escalationDays)));
+
+      if (level > (review.escalation_level || 0)) {
+        if (!staffByOrganization.has(risk.organization_id)) {
+          const { data: staff } = await supabase
+            .from('user_profiles')
+            .select('user_id, role, department')
+            .eq('organization_id', risk.organization_id)
+            .eq('active', true)
+            .in('role', ['manager', 'admin', 'super_admin']);
+          staffByOrganization.set(risk.organization_id, (staff || []) as StaffRow[]);
+        }
+
+        if (await escalateReview(risk, review, level, staffByOrganization.get(risk.organization_id)!, now)) {
+          escalated++;
+        }
+      }
+    }
+
+    return jsonResponse({ success: true, evaluated: riskResult.data?.length || 0, expired: expired.length, opened, reminded, escalated });
+  } catch (error) {
+    console.error('Error evaluating risk reviews:', error);
+
+    return jsonResponse({ success: false, error: 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,1239 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.39.0';
+import { endAllUserSessions } from '../_shared/userSessions.ts';
+
+/*
+ * SCIM 2.0 provisioning (RFC 7643 / 7644) for users and groups.
+ *
+ *   /scim/v2/Users[/{id}]     GET, POST, PUT, PATCH, DELETE
+ *   /scim/v2/Groups[/{id}]    GET, POST, PUT, PATCH, DELETE
+ *   /scim/v2/ServiceProviderConfig, /scim/v2/ResourceTypes, /scim/v2/Schemas
+ *
+ * SCIM clients authenticate with a per-organization bearer token. Token management and
+ * group-to-role/department mappings live under /scim/admin and take a user's access token.
+ * Deleting or deactivating a user locks the account and revokes its sessions; no data is deleted.
+ */
+
+// Define types for SCIM resources
+type MappedRole = 'admin' | 'manager' | 'user';
+
+interface ScimToken {
+  id: string;
+  organization_id: string;
+  name: string;
+}
+
+interface ProfileRow {
+  id: string;
+  user_id: string;
+  organization_id: string;
+  role: string;
+  full_name: string;
+  department: string | null;
+  phone: string | null;
+  active: boolean;
+  external_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface GroupRow {
+  id: string;
+  organization_id: string;
+  display_name: string;
+  external_id: string | null;
+  mapped_role: MappedRole | null;
+  mapped_department: string | null;
+  created_at: string;
+  updated_at: string;
+  scim_group_members: { user_id: string }[];
+}
+
+interface UserRecord {
+  profile: ProfileRow;
+  email: string;
+}
+
+interface Directory {
+  users: UserRecord[];
+  groups: GroupRow[];
+}
+
+// Attributes a SCIM request can set on a user; undefined leaves the current value
+interface UserChanges {
+  email?: string;
+  fullName?: string;
+  givenName?: string;
+  familyName?: string;
+  department?: string | null;
+  phone?: string | null;
+  active?: boolean;
+  externalId?: string | null;
+}
+
+interface PatchOperation {
+  op: string;
+  path?: string;
+  value?: unknown;
+}
+
+interface FilterClause {
+  path: string;
+  operator: string;
+  value?: unknown;
+}
+
+// Define constants
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') || '';
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+const SCIM_BASE_URL = `${SUPABASE_URL}/functions/v1/scim/v2`;
+
+const USER_SCHEMA = 'urn:ietf:params:scim:schemas:core:2.0:User';
+const ENTERPRISE_USER_SCHEMA = 'urn:ietf:params:scim:schemas:extension:enterprise:2.0:User';
+const GROUP_SCHEMA = 'urn:ietf:params:scim:schemas:core:2.0:Group';
+const LIST_RESPONSE_SCHEMA = 'urn:ietf:params:scim:api:messages:2.0:ListResponse';
+const PATCH_OP_SCHEMA = 'urn:ietf:params:scim:api:messages:2.0:PatchOp';
+const ERROR_SCHEMA = 'urn:ietf:params:scim:api:messages:2.0:Error';
+
+const MAX_PAGE_SIZE = 200;
+const MAPPED_ROLES: MappedRole[] = ['admin', 'manager', 'user'];
+// Deprovisioned accounts stay locked until SCIM reactivates them
+const DEPROVISIONED_LOCK_UNTIL = '9999-12-31T23:59:59Z';
+
+// Create Supabase client with service role key (bypasses RLS)
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+};
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+function scimResponse(body: Record<string, unknown> | null, status = 200) {
+  return new Response(body ? JSON.stringify(body) : null, {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/scim+json' }
+  });
+}
+
+function scimError(status: number, detail: string, scimType?: string) {
+  return scimResponse({ schemas: [ERROR_SCHEMA], status: String(status), scimType, detail }, status);
+}
+
+// Helper function to log audit event
+async function logAuditEvent(
+  token: ScimToken,
+  action: string,
+  resourceType: string,
+  resourceId: string | null,
+  details: Record<string, unknown> = {}
+) {
+  try {
+    await supabase.from('audit_logs').insert({
+      user_id: null,
+      organization_id: token.organization_id,
+      action,
+      resource_type: resourceType,
+      resource_id: resourceId,
+      details: { ...details, scim_token_id: token.id, scim_token_name: token.name },
+    });
+  } catch (error) {
+    console.error('Error logging audit event:', error);
+  }
+}
+
+async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function authenticateScimToken(req: Request): Promise<ScimToken | null> {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) return null;
+
+  const { data } = await supabase
+    .from('scim_tokens')
+    .select('id, organization_id, name')
+    .eq('token_hash', await hashToken(token))
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  if (data) {
+    await supabase.from('scim_tokens').update({ last_used_at: new Date().toISOString() }).eq('id', data.id);
+  }
+
+  return data as ScimToken | null;
+}
+
+async function loadDirectory(organizationId: string): Promise<Directory> {
+  const [{ data: profiles, error: profilesError }, { data: emails, error: emailsError }, { data: groups, error: groupsError }] = await Promise.all([
+    supabase
+      .from('user_profiles')
+      .select('id, user_id, organization_id, role, full_name, department, phone, active, external_id, created_at, updated_at')
+      .eq('organization_id', organizationId)
+      .order('created_at', { ascending: true }),
+    supabase.rpc('get_organization_user_emails', { p_organization_id: organizationId }),
+    supabase
+      .from('scim_groups')
+      .select('*, scim_group_members(user_id)')
+      .eq('organization_id', organizationId)
+      .order('display_name', { ascending: true })
+  ]);
+
+  if (profilesError || emailsError || groupsError) {
+    throw profilesError || emailsError || groupsError;
+  }
+
+  const emailsByUserId = new Map((emails as { user_id: string; email: string }[] || []).map(row => [row.user_id, row.email]));
+
+  return {
+    users: (profiles as ProfileRow[] || []).map(profile => ({ profile, email: emailsByUserId.get(profile.user_id) || '' })),
+    groups: (groups as GroupRow[]) || []
+  };
+}
+
+function splitName(fullName: string) {
+  const [givenName, ...rest] = fullName.trim().split(/\s+/);
+  return { givenName: givenName || '', familyName: rest.join(' ') };
+}
+
+function toScimUser(record: UserRecord, groups: GroupRow[]) {
+  const { profile, email } = record;
+
+  return {
+    schemas: [USER_SCHEMA, ENTERPRISE_USER_SCHEMA],
+    id: profile.user_id,
+    externalId: profile.external_id ?? undefined,
+    userName: email,
+    name: { formatted: profile.full_name, ...splitName(profile.full_name) },
+    displayName: profile.full_name,
+    emails: [{ value: email, type: 'work', primary: true }],
+    phoneNumbers: profile.phone ? [{ value: profile.phone, type: 'work' }] : [],
+    active: profile.active,
+    groups: groups
+      .filter(group => group.scim_group_members.some(member => member.user_id === profile.user_id))
+      .map(group => ({ value: group.id, display: group.display_name, $ref: `${SCIM_BASE_URL}/Groups/${group.id}` })),
+    [ENTERPRISE_USER_SCHEMA]: { department: profile.department ?? undefined },
+    meta: {
+      resourceType: 'User',
+      created: profile.created_at,
+      lastModified: profile.updated_at,
+      location: `${SCIM_BASE_URL}/Users/${profile.user_id}`
+    }
+  };
+}
+
+function toScimGroup(group: GroupRow, users: UserRecord[]) {
+  const namesByUserId = new Map(users.map(record => [record.profile.user_id, record.profile.full_name]));
+
+  return {
+    schemas: [GROUP_SCHEMA],
+    id: group.id,
+    externalId: group.external_id ?? undefined,
+    displayName: group.display_name,
+    members: group.scim_group_members.map(member => ({
+      value: member.user_id,
+      display: namesByUserId.get(member.user_id),
+      $ref: `${SCIM_BASE_URL}/Users/${member.user_id}`
+    })),
+    meta: {
+      resourceType: 'Group',
+      created: group.created_at,
+      lastModified: group.updated_at,
+      location: `${SCIM_BASE_URL}/Groups/${group.id}`
+    }
+  };
+}
+
+// Filterable attributes by lower-cased SCIM path
+function userAttributes(record: UserRecord): Record<string, unknown> {
+  const { profile, email } = record;
+  return {
+    'id': profile.user_id,
+    'username': email,
+    'externalid': profile.external_id,
+    'displayname': profile.full_name,
+    'name.formatted': profile.full_name,
+    'emails': email,
+    'emails.value': email,
+    'active': profile.active,
+    'department': profile.department,
+    [`${ENTERPRISE_USER_SCHEMA.toLowerCase()}:department`]: profile.department
+  };
+}
+
+function groupAttributes(group: GroupRow): Record<string, unknown> {
+  return {
+    'id': group.id,
+    'displayname': group.display_name,
+    'externalid': group.external_id,
+    'members': group.scim_group_members.map(member => member.user_id),
+    'members.value': group.scim_group_members.map(member => member.user_id)
+  };
+}
+
+/**
+ * Parses the subset of SCIM filters identity providers send: attribute comparisons joined by `and`.
+ * Returns null for anything else so the caller can answer with `invalidFilter`.
+ */
+function parseFilter(filter: string): FilterClause[] | null {
+  const clauses: FilterClause[] = [];
+
+  for (const rawClause of filter.split(/\s+and\s+/i)) {
+    // Value filters such as emails[type eq "work"] narrow multi-valued attributes; one email per user makes them moot
+    const clause = rawClause.trim().replace(/^\(|\)$/g, '').replace(/\[[^\]]*\]/g, '');
+    const present = clause.match(/^(\S+)\s+pr$/i);
+    if (present) {
+      clauses.push({ path: present[1].toLowerCase(), operator: 'pr' });
+      continue;
+    }
+
+    const comparison = clause.match(/^(\S+)\s+(eq|ne|co|sw|ew)\s+(.+)$/i);
+    if (!comparison) return null;
+
+    try {
+      clauses.push({ path: comparison[1].toLowerCase(), operator: comparison[2].toLowerCase(), value: JSON.parse(comparison[3]) });
+    } catch {
+      return null;
+    }
+  }
+
+  return clauses;
+}
+
+function matchesFilter(attributes: Record<string, unknown>, clauses: FilterClause[]): boolean {
+  return clauses.every(({ path, operator, value }) => {
+    const actual = attributes[path];
+    const candidates = Array.isArray(actual) ? actual : [actual];
+
+    if (operator === 'pr') {
+      return candidates.some(candidate => candidate !== null && candidate !== undefined && candidate !== '');
+    }
+
+    return candidates.some(candidate => {
+      // SCIM string comparisons are case-insensitive unless an attribute is caseExact; none of ours are
+      const left = typeof candidate === 'string' ? candidate.toLowerCase() : candidate;
+      const right = typeof value === 'string' ? value.toLowerCase() : value;
+
+      switch (operator) {
+        case 'eq': return left === right;
+        case 'ne': return left !== right;
+        case 'co': return typeof left === 'string' && typeof right === 'string' && left.includes(right);
+        case 'sw': return typeof left === 'string' && typeof right === 'string' && left.startsWith(right);
+        case 'ew': return typeof left === 'string' && typeof right === 'string' && left.endsWith(right);
+        default: return false;
+      }
+    });
+  });
+}
+
+function listResponse(url: URL, resources: Record<string, unknown>[]) {
+  const startIndex = Math.max(parseInt(url.searchParams.get('startIndex') || '1') || 1, 1);
+  const count = Math.min(Math.max(parseInt(url.searchParams.get('count') || String(MAX_PAGE_SIZE)) || 0, 0), MAX_PAGE_SIZE);
+  const page = resources.slice(startIndex - 1, startIndex - 1 + count);
+
+  return scimResponse({
+    schemas: [LIST_RESPONSE_SCHEMA],
+    totalResults: resources.length,
+    startIndex,
+    itemsPerPage: page.length,
+    Resources: page
+  });
+}
+
+// Azure AD sends booleans as "True"/"False" strings
+function toBoolean(value: unknown): boolean {
+  return typeof value === 'string' ? value.toLowerCase() === 'true' : !!value;
+}
+
+function firstValue(value: unknown): string | null {
+  const entry = Array.isArray(value)
+    ? (value.find(item => item?.primary) || value[0])
+    : value;
+  const raw = entry && typeof entry === 'object' ? (entry as { value?: unknown }).value : entry;
+  return typeof raw === 'string' && raw.trim() ? raw.trim() : null;
+}
+
+/**
+ * Reads user attributes from a full or partial SCIM User resource
+ */
+function readUserResource(resource: Record<string, unknown>): UserChanges {
+  const changes: UserChanges = {};
+  const name = resource.name as Record<string, unknown> | undefined;
+  const enterprise = resource[ENTERPRISE_USER_SCHEMA] as Record<string, unknown> | undefined;
+
+  if (typeof resource.userName === 'string') changes.email = resource.userName.trim().toLowerCase();
+  else if (resource.emails !== undefined) changes.email = firstValue(resource.emails)?.toLowerCase();
+
+  if (typeof name?.formatted === 'string' && name.formatted.trim()) changes.fullName = name.formatted.trim();
+  else if (typeof resource.displayName === 'string' && resource.displayName.trim()) changes.fullName = resource.displayName.trim();
+  if (typeof name?.givenName === 'string') changes.givenName = name.givenName.trim();
+  if (typeof name?.familyName === 'string') changes.familyName = name.familyName.trim();
+
+  if (resource.phoneNumbers !== undefined) changes.phone = firstValue(resource.phoneNumbers);
+  if (enterprise && 'department' in enterprise) changes.department = firstValue(enterprise.department);
+  if (resource.active !== undefined) changes.active = toBoolean(resource.active);
+  if (resource.externalId !== undefined) changes.externalId = firstValue(resource.externalId);
+
+  return changes;
+}
+
+/**
+ * Folds PATCH operations into user changes. Unknown paths are ignored, as RFC 7644 allows
+ * for attributes the service provider does not support.
+ */
+function readUserPatch(operations: PatchOperation[]): UserChanges {
+  const changes: UserChanges = {};
+
+  for (const operation of operations) {
+    const op = operation.op?.toLowerCase();
+    const isRemove = op === 'remove';
+
+    if (!operation.path) {
+      if (operation.value && typeof operation.value === 'object') {
+        // Path-less operations carry attributes keyed by path, e.g. { "name.givenName": "Ada" }
+        const value = operation.value as Record<string, unknown>;
+        Object.assign(changes, readUserResource(value));
+        Object.assign(changes, readUserPatch(
+          Object.entries(value)
+            .filter(([key]) => key.includes('.') || key.includes(':'))
+            .map(([path, nested]) => ({ op: operation.op, path, value: nested }))
+        ));
+      }
+      continue;
+    }
+
+    const path = operation.path.toLowerCase().replace(/\[[^\]]*\]/g, '');
+    const value = operation.value;
+
+    switch (path) {
+      case 'active':
+        changes.active = isRemove ? false : toBoolean(value);
+        break;
+      case 'username':
+      case 'emails':
+      case 'emails.value':
+        if (!isRemove) changes.email = firstValue(value)?.toLowerCase();
+        break;
+      case 'displayname':
+      case 'name.formatted':
+        if (!isRemove && typeof value === 'string' && value.trim()) changes.fullName = value.trim();
+        break;
+      case 'name.givenname':
+        changes.givenName = isRemove ? '' : String(value ?? '').trim();
+        break;
+      case 'name.familyname':
+        changes.familyName = isRemove ? '' : String(value ?? '').trim();
+        break;
+      case 'name':
+        if (!isRemove && value && typeof value === 'object') Object.assign(changes, readUserResource({ name: value }));
+        break;
+      case 'phonenumbers':
+      case 'phonenumbers.value':
+        changes.phone = isRemove ? null : firstValue(value);
+        break;
+      case 'externalid':
+        changes.externalId = isRemove ? null : firstValue(value);
+        break;
+      case `${ENTERPRISE_USER_SCHEMA.toLowerCase()}:department`:
+      case 'department':
+        changes.department = isRemove ? null : firstValue(value);
+        break;
+      case ENTERPRISE_USER_SCHEMA.toLowerCase():
+        if (!isRemove && value && typeof value === 'object') {
+          Object.assign(changes, readUserResource({ [ENTERPRISE_USER_SCHEMA]: value }));
+        }
+        break;
+    }
+  }
+
+  return changes;
+}
+
+function resolveFullName(changes: UserChanges, current: string): string {
+  if (changes.fullName) return changes.fullName;
+  if (changes.givenName === undefined && changes.familyName === undefined) return current;
+
+  const currentName = splitName(current);
+  const fullName = [changes.givenName ?? currentName.givenName, changes.familyName ?? currentName.familyName]
+    .filter(Boolean)
+    .join(' ');
+  return fullName || current;
+}
+
+async function getDefaultRole(organizationId: string): Promise<MappedRole> {
+  const { data: organization } = await supabase
+    .from('organizations')
+    .select('settings')
+    .eq('id', organizationId)
+    .maybeSingle();
+
+  const defaultRole = organization?.settings?.security?.accessControl?.defaultRole;
+  return MAPPED_ROLES.includes(defaultRole) ? defaultRole : 'user';
+}
+
+/**
+ * Applies group mappings to the given users: members of role-mapped groups get the most privileged
+ * mapped role, and members of department-mapped groups the first mapped department alphabetically.
+ * With `demoteUnmapped`, users left without any role-mapped group fall back to the default role;
+ * callers pass it when users lost a role-mapped group. Super admins are never changed.
+ */
+async function applyGroupMappings(
+  organizationId: string,
+  userIds: string[],
+  demoteUnmapped: boolean,
+  onChange: (userId: string, changes: Record<string, unknown>) => Promise<void>
+) {
+  if (userIds.length === 0) return;
+
+  const directory = await loadDirectory(organizationId);
+  const defaultRole = demoteUnmapped ? await getDefaultRole(organizationId) : null;
+
+  for (const userId of new Set(userIds)) {
+    const record = directory.users.find(user => user.profile.user_id === userId);
+    if (!record || record.profile.role === 'super_admin') continue;
+
+    const memberGroups = directory.groups.filter(group => group.scim_group_members.some(member => member.user_id === userId));
+    const mappedRoles = memberGroups.map(group => group.mapped_role).filter(Boolean);
+    const role = MAPPED_ROLES.find(candidate => mappedRoles.includes(candidate)) || defaultRole;
+    const department = memberGroups.find(group => group.mapped_department)?.mapped_department;
+
+    const updates: Record<string, unknown> = {};
+    if (role && role !== record.profile.role) updates.role = role;
+    if (department && department !== record.profile.department) updates.department = department;
+
+    if (Object.keys(updates).length === 0) continue;
+
+    const { error } = await supabase.from('user_profiles').update(updates).eq('id', record.profile.id);
+    if (error) {
+      console.error('Error applying group mappings:', error);
+      throw error;
+    }
+
+    await onChange(userId, {
+      source: 'group_mapping',
+      previous_role: updates.role ? record.profile.role : undefined,
+      ...updates
+    });
+  }
+}
+
+function auditMappingChanges(token: ScimToken) {
+  return (userId: string, changes: Record<string, unknown>) => logAuditEvent(token, 'scim_user_updated', 'user', userId, changes);
+}
+
+async function deprovisionUser(token: ScimToken, profile: ProfileRow) {
+  const { error } = await supabase
+    .from('user_profiles')
+    .update({ active: false, account_locked_until: DEPROVISIONED_LOCK_UNTIL })
+    .eq('id', profile.id);
+
+  if (error) {
+    console.error('Error deprovisioning user:', error);
+    throw error;
+  }
+
+  const revokedSessions = await endAllUserSessions(supabase, profile.user_id, 'deprovisioned');
+
+  await logAuditEvent(token, 'scim_user_deactivated', 'user', profile.user_id, {
+    full_name: profile.full_name,
+    revoked_sessions: revokedSessions
+  });
+}
+
+async function reactivateUser(token: ScimToken, profile: ProfileRow) {
+  const { error } = await supabase
+    .from('user_profiles')
+    .update({ active: true, account_locked_until: null, failed_login_attempts: 0 })
+    .eq('id', profile.id);
+
+  if (error) {
+    console.error('Error reactivating user:', error);
+    throw error;
+  }
+
+  await logAuditEvent(token, 'scim_user_reactivated', 'user', profile.user_id, { full_name: profile.full_name });
+}
+
+/**
+ * Writes user changes to the auth user and profile, then deactivates or reactivates as requested.
+ * Returns an error response when the change is not allowed.
+ */
+async function saveUser(token: ScimToken, record: UserRecord, changes: UserChanges): Promise<Response | null> {
+  const { profile } = record;
+
+  if (changes.active === false && profile.role === 'super_admin') {
+    return scimError(400, 'Super administrators cannot be deprovisioned through SCIM', 'mutability');
+  }
+
+  if (changes.email && changes.email !== record.email.toLowerCase()) {
+    const { data: existingUserId } = await supabase.rpc('get_auth_user_id_by_email', { p_email: changes.email });
+    if (existingUserId && existingUserId !== profile.user_id) {
+      return scimError(409, 'userName is already in use', 'uniqueness');
+    }
+
+    const { error } = await supabase.auth.admin.updateUserById(profile.user_id, { email: changes.email, email_confirm: true });
+    if (error) {
+      console.error('Error updating user email:', error);
+      return scimError(400, `Failed to update userName: ${error.message}`, 'invalidValue');
+    }
+  }
+
+  const updates: Record<string, unknown> = {};
+  const fullName = resolveFullName(changes, profile.full_name);
+  if (fullName !== profile.full_name) updates.full_name = fullName;
+  if (changes.department !== undefined && changes.department !== profile.department) updates.department = changes.department;
+  if (changes.phone !== undefined && changes.phone !== profile.phone) updates.phone = changes.phone;
+  if (changes.externalId !== undefined && changes.externalId !== profile.external_id) updates.external_id = changes.externalId;
+
+  if (Object.keys(updates).length > 0) {
+    const { error } = await supabase.from('user_profiles').update(updates).eq('id', profile.id);
+    if (error) {
+      console.error('Error updating user profile:', error);
+      throw error;
+    }
+  }
+
+  if (Object.keys(updates).length > 0 || (changes.email && changes.email !== record.email.toLowerCase())) {
+    await logAuditEvent(token, 'scim_user_updated', 'user', profile.user_id, {
+      ...updates,
+      email: changes.email !== record.email.toLowerCase() ? changes.email : undefined
+    });
+  }
+
+  if (changes.active === false && profile.active) {
+    await deprovisionUser(token, profile);
+  } else if (changes.active === true && !profile.active) {
+    await reactivateUser(token, profile);
+  }
+
+  return null;
+}
+
+async function findUser(token: ScimToken, userId: string) {
+  const directory = await loadDirectory(token.organization_id);
+  const record = directory.users.find(user => user.profile.user_id === userId) || null;
+  return { directory, record };
+}
+
+async function respondWithUser(token: ScimToken, userId: string, status = 200) {
+  const { directory, record } = await findUser(token, userId);
+  if (!record) return scimError(404, 'User not found');
+  return scimResponse(toScimUser(record, directory.groups), status);
+}
+
+async function handleListUsers(token: ScimToken, url: URL) {
+  const filter = url.searchParams.get('filter');
+  const clauses = filter ? parseFilter(filter) : [];
+  if (!clauses) return scimError(400, 'Unsupported filter', 'invalidFilter');
+
+  const directory = await loadDirectory(token.organization_id);
+  const users = directory.users.filter(record => matchesFilter(userAttributes(record), clauses));
+
+  await logAuditEvent(token, 'scim_users_listed', 'user', null, { filter, results: users.length });
+
+  return listResponse(url, users.map(record => toScimUser(record, directory.groups)));
+}
+
+async function handleCreateUser(token: ScimToken, resource: Record<string, unknown>) {
+  const changes = readUserResource(resource);
+  if (!changes.email || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(changes.email)) {
+    return scimError(400, 'userName must be an email address', 'invalidValue');
+  }
+
+  let userId = (await supabase.rpc('get_auth_user_id_by_email', { p_email: changes.email })).data as string | null;
+
+  if (userId) {
+    const { data: existingProfile } = await supabase
+      .from('user_profiles')
+      .select('organization_id')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (existingProfile) {
+      return scimError(409, existingProfile.organization_id === token.organization_id
+        ? 'User already exists'
+        : 'userName belongs to another organization', 'uniqueness');
+    }
+  }
+
+  const fullName = resolveFullName(changes, changes.email.split('@')[0]);
+  const role = await getDefaultRole(token.organization_id);
+
+  if (!userId) {
+    const { data: authData, error: createError } = await supabase.auth.admin.createUser({
+      email: changes.email,
+      email_confirm: true,
+      user_metadata: {
+        full_name: fullName,
+        organization_id: token.organization_id,
+        role
+      }
+    });
+
+    if (createError || !authData.user) {
+      console.error('Error creating SCIM user:', createError);
+      return scimError(400, `Failed to create user: ${createError?.message || 'Unknown error'}`);
+    }
+
+    userId = authData.user.id;
+  }
+
+  // Users of an organization with SSO sign in through it rather than with a password
+  const { data: ssoProvider } = await supabase
+    .from('organization_sso_providers')
+    .select('enabled')
+    .eq('organization_id', token.organization_id)
+    .maybeSingle();
+
+  const { data: profile, error: profileError } = await supabase
+    .from('user_profiles')
+    .insert({
+      user_id: userId,
+      organization_id: token.organization_id,
+      role,
+      full_name: fullName,
+      department: changes.department ?? null,
+      phone: changes.phone ?? null,
+      external_id: changes.externalId ?? null,
+      auth_provider: ssoProvider?.enabled ? 'sso' : 'password'
+    })
+    .select('id, user_id, organization_id, role, full_name, department, phone, active, external_id, created_at, updated_at')
+    .single();
+
+  if (profileError) {
+    console.error('Error creating SCIM user profile:', profileError);
+    throw profileError;
+  }
+
+  await logAuditEvent(token, 'scim_user_created', 'user', userId, {
+    email: changes.email,
+    full_name: fullName,
+    role,
+    department: changes.department ?? null
+  });
+
+  if (changes.active === false) {
+    await deprovisionUser(token, profile as ProfileRow);
+  }
+
+  return respondWithUser(token, userId, 201);
+}
+
+async function handleReplaceUser(token: ScimToken, userId: string, resource: Record<string, unknown>) {
+  const { record } = await findUser(token, userId);
+  if (!record) return scimError(404, 'User not found');
+
+  // PUT replaces the resource, so omitted optional attributes are cleared. An omitted `active` keeps the
+  // current state: reactivating a deprovisioned user takes an explicit `active: true`
+  const changes: UserChanges = {
+    department: null,
+    phone: null,
+    externalId: null,
+    active: record.profile.active,
+    ...readUserResource(resource)
+  };
+
+  const errorResponse = await saveUser(token, record, changes);
+  return errorResponse || respondWithUser(token, userId);
+}
+
+async function handlePatchUser(token: ScimToken, userId: string, body: Record<string, unknown>) {
+  if (!Array.isArray(body.Operations)) {
+    return scimError(400, 'Operations are required', 'invalidSyntax');
+  }
+
+  const { record } = await findUser(token, userId);
+  if (!record) return scimError(404, 'User not found');
+
+  const errorResponse = await saveUser(token, record, readUserPatch(body.Operations as PatchOperation[]));
+  return errorResponse || respondWithUser(token, userId);
+}
+
+async function handleDeleteUser(token: ScimToken, userId: string) {
+  const { record } = await findUser(token, userId);
+  if (!record) return scimError(404, 'User not found');
+
+  // Deleting through SCIM only deprovisions; incidents, risks and audit history keep their owner
+  const errorResponse = await saveUser(token, record, { active: false });
+  return errorResponse || scimResponse(null, 204);
+}
+
+// Keeps only member ids that are users of the token's organization
+function readMemberIds(value: unknown, directory: Directory): string[] {
+  const orgUserIds = new Set(directory.users.map(record => record.profile.user_id));
+  const members = Array.isArray(value) ? value : value ? [value] : [];
+
+  return members
+    .map(member => (member && typeof member === 'object' ? (member as { value?: unknown }).value : member))
+    .filter((id): id is string => typeof id === 'string' && orgUserIds.has(id));
+}
+
+async function setGroupMembers(groupId: string, memberIds: string[]) {
+  const { error: deleteError } = await supabase.from('scim_group_members').delete().eq('group_id', groupId);
+  if (deleteError) throw deleteError;
+
+  if (memberIds.length > 0) {
+    const { error } = await supabase
+      .from('scim_group_members')
+      .insert([...new Set(memberIds)].map(userId => ({ group_id: groupId, user_id: userId })));
+    if (error) throw error;
+  }
+}
+
+async function respondWithGroup(token: ScimToken, groupId: string, status = 200) {
+  const directory = await loadDirectory(token.organization_id);
+  const group = directory.groups.find(candidate => candidate.id === groupId);
+  if (!group) return scimError(404, 'Group not found');
+  return scimResponse(toScimGroup(group, directory.users), status);
+}
+
+async function handleListGroups(token: ScimToken, url: URL) {
+  const filter = url.searchParams.get('filter');
+  const clauses = filter ? parseFilter(filter) : [];
+  if (!clauses) return scimError(400, 'Unsupported filter', 'invalidFilter');
+
+  const directory = await loadDirectory(token.organization_id);
+  const groups = directory.groups.filter(group => matchesFilter(groupAttributes(group), clauses));
+  const excludeMembers = url.searchParams.get('excludedAttributes')?.toLowerCase().includes('members');
+
+  await logAuditEvent(token, 'scim_groups_listed', 'scim_group', null, { filter, results: groups.length });
+
+  return listResponse(url, groups.map(group => {
+    const resource = toScimGroup(group, directory.users);
+    return excludeMembers ? { ...resource, members: undefined } : resource;
+  }));
+}
+
+async function handleCreateGroup(token: ScimToken, resource: Record<string, unknown>) {
+  const displayName = typeof resource.displayName === 'string' ? resource.displayName.trim() : '';
+  if (!displayName) return scimError(400, 'displayName is required', 'invalidValue');
+
+  const directory = await loadDirectory(token.organization_id);
+  if (directory.groups.some(group => group.display_name.toLowerCase() === displayName.toLowerCase())) {
+    return scimError(409, 'A group with this displayName already exists', 'uniqueness');
+  }
+
+  const { data: group, error } = await supabase
+    .from('scim_groups')
+    .insert({
+      organization_id: token.organization_id,
+      display_name: displayName,
+      external_id: firstValue(resource.externalId)
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('Error creating SCIM group:', error);
+    throw error;
+  }
+
+  const memberIds = readMemberIds(resource.members, directory);
+  await setGroupMembers(group.id, memberIds);
+
+  await logAuditEvent(token, 'scim_group_created', 'scim_group', group.id, { display_name: displayName, members: memberIds });
+  await applyGroupMappings(token.organization_id, memberIds, false, auditMappingChanges(token));
+
+  return respondWithGroup(token, group.id, 201);
+}
+
+async function updateGroup(token: ScimToken, group: GroupRow, updates: { displayName?: string; externalId?: string | null }, memberIds: string[]) {
+  const previousMemberIds = group.scim_group_members.map(member => member.user_id);
+
+  if (updates.displayName !== undefined || updates.externalId !== undefined) {
+    const { error } = await supabase
+      .from('scim_groups')
+      .update({
+        display_name: updates.displayName ?? group.display_name,
+        external_id: updates.externalId !== undefined ? updates.externalId : group.external_id,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', group.id);
+
+    if (error) {
+      if (error.code === '23505') return scimError(409, 'A group with this displayName already exists', 'uniqueness');
+      throw error;
+    }
+  }
+
+  const added = memberIds.filter(id => !previousMemberIds.includes(id));
+  const removed = previousMemberIds.filter(id => !memberIds.includes(id));
+
+  if (added.length > 0 || removed.length > 0) {
+    await setGroupMembers(group.id, memberIds);
+  }
+
+  await logAuditEvent(token, 'scim_group_updated', 'scim_group', group.id, {
+    display_name: updates.displayName ?? group.display_name,
+    added_members: added,
+    removed_members: removed
+  });
+
+  await applyGroupMappings(token.organization_id, added, false, auditMappingChanges(token));
+  await applyGroupMappings(token.organization_id, removed, !!group.mapped_role, auditMappingChanges(token));
+  return null;
+}
+
+async function handleReplaceGroup(token: ScimToken, groupId: string, resource: Record<string, unknown>) {
+  const directory = await loadDirectory(token.organization_id);
+  const group = directory.groups.find(candidate => candidate.id === groupId);
+  if (!group) return scimError(404, 'Group not found');
+
+  const displayName = typeof resource.displayName === 'string' ? resource.displayName.trim() : '';
+  if (!displayName) return scimError(400, 'displayName is required', 'invalidValue');
+
+  const errorResponse = await updateGroup(
+    token,
+    group,
+    { displayName, externalId: firstValue(resource.externalId) },
+    readMemberIds(resource.members, directory)
+  );
+  return errorResponse || respondWithGroup(token, groupId);
+}
+
+async function handlePatchGroup(token: ScimToken, groupId: string, body: Record<string, unknown>) {
+  if (!Array.isArray(body.Operations)) {
+    return scimError(400, 'Operations are required', 'invalidSyntax');
+  }
+
+  const directory = await loadDirectory(token.organization_id);
+  const group = directory.groups.find(candidate => candidate.id === groupId);
+  if (!group) return scimError(404, 'Group not found');
+
+  const updates: { displayName?: string; externalId?: string | null } = {};
+  let memberIds = group.scim_group_members.map(member => member.user_id);
+
+  for (const operation of body.Operations as PatchOperation[]) {
+    const op = operation.op?.toLowerCase();
+    const rawPath = operation.path || '';
+    const path = rawPath.toLowerCase();
+
+    // A path-less replace carries attributes by name
+    if (!path && operation.value && typeof operation.value === 'object') {
+      const value = operation.value as Record<string, unknown>;
+      if (typeof value.displayName === 'string') updates.displayName = value.displayName.trim();
+      if (value.externalId !== undefined) updates.externalId = firstValue(value.externalId);
+      if (value.members !== undefined) {
+        const ids = readMemberIds(value.members, directory);
+        memberIds = op === 'add' ? [...memberIds, ...ids] : ids;
+      }
+      continue;
+    }
+
+    if (path === 'displayname' && op !== 'remove' && typeof operation.value === 'string') {
+      updates.displayName = operation.value.trim();
+    } else if (path === 'externalid') {
+      updates.externalId = op === 'remove' ? null : firstValue(operation.value);
+    } else if (path.startsWith('members')) {
+      // members[value eq "id"] removes one member; a bare members path uses the value list
+      const filtered = rawPath.match(/members\[\s*value\s+eq\s+"([^"]+)"\s*\]/i);
+      const ids = filtered ? [filtered[1]] : readMemberIds(operation.value, directory);
+
+      if (op === 'add') {
+        memberIds = [...memberIds, ...readMemberIds(ids, directory)];
+      } else if (op === 'remove') {
+        memberIds = filtered || operation.value !== undefined ? memberIds.filter(id => !ids.includes(id)) : [];
+      } else if (op === 'replace') {
+        memberIds = readMemberIds(ids, directory);
+      }
+    }
+  }
+
+  const errorResponse = await updateGroup(token, group, updates, [...new Set(memberIds)]);
+  return errorResponse || respondWithGroup(token, groupId);
+}
+
+async function handleDeleteGroup(token: ScimToken, groupId: string) {
+  const directory = await loadDirectory(token.organization_id);
+  const group = directory.groups.find(candidate => candidate.id === groupId);
+  if (!group) return scimError(404, 'Group not found');
+
+  const { error } = await supabase.from('scim_groups').delete().eq('id', groupId);
+  if (error) {
+    console.error('Error deleting SCIM group:', error);
+    throw error;
+  }
+
+  const memberIds = group.scim_group_members.map(member => member.user_id);
+  await logAuditEvent(token, 'scim_group_deleted', 'scim_group', groupId, { display_name: group.display_name, members: memberIds });
+  await applyGroupMappings(token.organization_id, memberIds, !!group.mapped_role, auditMappingChanges(token));
+
+  return scimResponse(null, 204);
+}
+
+function handleDiscovery(resource: string) {
+  switch (resource) {
+    case 'ServiceProviderConfig':
+      return scimResponse({
+        schemas: ['urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig'],
+        patch: { supported: true },
+        bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+        filter: { supported: true, maxResults: MAX_PAGE_SIZE },
+        changePassword: { supported: false },
+        sort: { supported: false },
+        etag: { supported: false },
+        authenticationSchemes: [{
+          type: 'oauthbearertoken',
+          name: 'Bearer Token',
+          description: 'Organization SCIM token created in Organization Settings',
+          primary: true
+        }]
+      });
+    case 'ResourceTypes':
+      return listResponse(new URL('http://local'), [
+        { schemas: ['urn:ietf:params:scim:schemas:core:2.0:ResourceType'], id: 'User', name: 'User', endpoint: '/Users', schema: USER_SCHEMA, schemaExtensions: [{ schema: ENTERPRISE_USER_SCHEMA, required: false }] },
+        { schemas: ['urn:ietf:params:scim:schemas:core:2.0:ResourceType'], id: 'Group', name: 'Group', endpoint: '/Groups', schema: GROUP_SCHEMA }
+      ]);
+    case 'Schemas':
+      return listResponse(new URL('http://local'), [
+        { id: USER_SCHEMA, name: 'User' },
+        { id: ENTERPRISE_USER_SCHEMA, name: 'EnterpriseUser' },
+        { id: GROUP_SCHEMA, name: 'Group' }
+      ]);
+    default:
+      return scimError(404, 'Resource not found');
+  }
+}
+
+async function handleScimRequest(req: Request, url: URL, route: string[]) {
+  const token = await authenticateScimToken(req);
+  if (!token) {
+    return scimError(401, 'Invalid or revoked SCIM token');
+  }
+
+  const [resource, id] = route;
+  const method = req.method;
+  const body = ['POST', 'PUT', 'PATCH'].includes(method) ? await req.json() : null;
+
+  if (method === 'PATCH' && !(body?.schemas as string[] | undefined)?.includes(PATCH_OP_SCHEMA)) {
+    return scimError(400, `PATCH requests must use the ${PATCH_OP_SCHEMA} schema`, 'invalidSyntax');
+  }
+
+  if (resource === 'Users') {
+    if (!id && method === 'GET') return handleListUsers(token, url);
+    if (!id && method === 'POST') return handleCreateUser(token, body);
+    if (id && method === 'GET') {
+      await logAuditEvent(token, 'scim_user_read', 'user', id);
+      return respondWithUser(token, id);
+    }
+    if (id && method === 'PUT') return handleReplaceUser(token, id, body);
+    if (id && method === 'PATCH') return handlePatchUser(token, id, body);
+    if (id && method === 'DELETE') return handleDeleteUser(token, id);
+  }
+
+  if (resource === 'Groups') {
+    if (!id && method === 'GET') return handleListGroups(token, url);
+    if (!id && method === 'POST') return handleCreateGroup(token, body);
+    if (id && method === 'GET') {
+      await logAuditEvent(token, 'scim_group_read', 'scim_group', id);
+      return respondWithGroup(token, id);
+    }
+    if (id && method === 'PUT') return handleReplaceGroup(token, id, body);
+    if (id && method === 'PATCH') return handlePatchGroup(token, id, body);
+    if (id && method === 'DELETE') return handleDeleteGroup(token, id);
+  }
+
+  if (method === 'GET' && !id) return handleDiscovery(resource);
+
+  return scimError(404, 'Resource not found');
+}
+
+// Token and group mapping management for administrators, authenticated with a user access token
+async function handleAdminRequest(req: Request, route: string[]) {
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) {
+    return jsonResponse({ success: false, error: 'Missing authorization header' }, 401);
+  }
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''));
+  if (authError || !user) {
+    return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+  }
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('organization_id, role')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (!profile || !['admin', 'super_admin'].includes(profile.role)) {
+    return jsonResponse({ success: false, error: 'Only administrators can manage SCIM provisioning' }, 403);
+  }
+
+  const [resource, id] = route;
+  const organizationId = profile.organization_id;
+
+  // Mirrors the organizations.update permission that guards the rest of OrganizationSettings
+  if (req.method !== 'GET' && profile.role !== 'super_admin') {
+    return jsonResponse({ success: false, error: 'Only super administrators can change SCIM provisioning' }, 403);
+  }
+
+  const audit = async (action: string, resourceType: string, resourceId: string, details: Record<string, unknown>) => {
+    const { error } = await supabase.from('audit_logs').insert({
+      user_id: user.id,
+      organization_id: organizationId,
+      action,
+      resource_type: resourceType,
+      resource_id: resourceId,
+      details
+    });
+    if (error) console.error('Error logging audit event:', error);
+  };
+
+  if (resource === 'tokens' && req.method === 'GET') {
+    const { data: tokens, error } = await supabase
+      .from('scim_tokens')
+      .select('id, name, token_prefix, created_at, last_used_at, revoked_at')
+      .eq('organization_id', organizationId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return jsonResponse({ success: true, tokens });
+  }
+
+  if (resource === 'tokens' && req.method === 'POST') {
+    const { name } = await req.json();
+    if (!name?.trim()) {
+      return jsonResponse({ success: false, error: 'Token name is required' }, 400);
+    }
+
+    const secret = `scim_${Array.from(crypto.getRandomValues(new Uint8Array(32))).map(byte => byte.toString(16).padStart(2, '0')).join('')}`;
+    const { data: token, error } = await supabase
+      .from('scim_tokens')
+      .insert({
+        organization_id: organizationId,
+        name: name.trim(),
+        token_hash: await hashToken(secret),
+        token_prefix: secret.slice(0, 12),
+        created_by: user.id
+      })
+      .select('id, name, token_prefix, created_at, last_used_at, revoked_at')
+      .single();
+
+    if (error) throw error;
+
+    await audit('scim_token_created', 'scim_token', token.id, { name: token.name });
+
+    // The secret is only ever returned here
+    return jsonResponse({ success: true, token, secret });
+  }
+
+  if (resource === 'tokens' && id && req.method === 'DELETE') {
+    const { data: token, error } = await supabase
+      .from('scim_tokens')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('organization_id', organizationId)
+      .is('revoked_at', null)
+      .select('id, name')
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!token) return jsonResponse({ success: false, error: 'Token not found' }, 404);
+
+    await audit('scim_token_revoked', 'scim_token', token.id, { name: token.name });
+    return jsonResponse({ success: true });
+  }
+
+  if (resource === 'groups' && req.method === 'GET') {
+    const { groups } = await loadDirectory(organizationId);
+    return jsonResponse({
+      success: true,
+      groups: groups.map(group => ({
+        id: group.id,
+        displayName: group.display_name,
+        memberCount: group.scim_group_members.length,
+        mappedRole: group.mapped_role,
+        mappedDepartment: group.mapped_department
+      }))
+    });
+  }
+
+  if (resource === 'groups' && id && req.method === 'PATCH') {
+    const { mappedRole, mappedDepartment } = await req.json();
+    if (mappedRole && !MAPPED_ROLES.includes(mappedRole)) {
+      return jsonResponse({ success: false, error: 'Groups can only map to admin, manager or user' }, 400);
+    }
+
+    const { data: previous } = await supabase
+      .from('scim_groups')
+      .select('mapped_role')
+      .eq('id', id)
+      .eq('organization_id', organizationId)
+      .maybeSingle();
+
+    const { data: group, error } = await supabase
+      .from('scim_groups')
+      .update({
+        mapped_role: mappedRole || null,
+        mapped_department: mappedDepartment?.trim() || null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .eq('organization_id', organizationId)
+      .select('id, display_name, scim_group_members(user_id)')
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!group) return jsonResponse({ success: false, error: 'Group not found' }, 404);
+
+    await audit('scim_group_mapping_updated', 'scim_group', group.id, {
+      display_name: group.display_name,
+      mapped_role: mappedRole || null,
+      mapped_department: mappedDepartment?.trim() || null
+    });
+
+    // Members that lose a role mapping fall back to their other groups or the default role
+    await applyGroupMappings(
+      organizationId,
+      group.scim_group_members.map((member: { user_id: string }) => member.user_id),
+      !!previous?.mapped_role,
+      (userId, changes) => audit('scim_user_updated', 'user', userId, changes)
+    );
+
+    return jsonResponse({ success: true });
+  }
+
+  return jsonResponse({ success: false, error: 'Unknown action' }, 404);
+}
+
+// Main handler function
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight request
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders
+    });
+  }
+
+  const url = new URL(req.url);
+  const segments = url.pathname.split('/').filter(Boolean);
+  const route = segments.slice(segments.indexOf('scim') + 1);
+
+  try {
+    if (route[0] === 'v2') {
+      return await handleScimRequest(req, url, route.slice(1));
+    }
+
+    if (route[0] === 'admin') {
+      return await handleAdminRequest(req, route.slice(1));
+    }
+
+    return scimError(404, 'Resource not found');
+  } catch (error) {
+    console.error('Error processing request:', error);
+
+    return route[0] === 'admin'
+      ? jsonResponse({ success: false, error: 'Internal server error' }, 500)
+      : scimError(500, 'Internal server error');
+  }
+});
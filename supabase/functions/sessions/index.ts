@@ -0,0 +1,338 @@
+import { createClient, User } from 'npm:@supabase/supabase-js@2.39.0';
+import { getAuthSessionId, resolveSessionPolicy } from '../_shared/sessionPolicy.ts';
+import { getLoginAccount, registerFailedLogin } from '../_shared/accountLockout.ts';
+import { getPasswordExpiry, PASSWORD_EXPIRED_ERROR } from '../_shared/passwordPolicy.ts';
+import { verifyTotpCode } from '../_shared/totp.ts';
+import { endSessions, SessionEndReason } from '../_shared/userSessions.ts';
+
+// Define types for session requests
+type SessionAction = 'heartbeat' | 'end' | 'revoke' | 'reauthenticate';
+
+interface SessionRequest {
+  action: SessionAction;
+  // heartbeat: whether the user interacted with the app since the previous heartbeat
+  active?: boolean;
+  // end: why the client is ending its own session
+  reason?: 'signed_out' | 'idle_timeout';
+  // revoke: a single session, or every active session of a user
+  sessionId?: string;
+  userId?: string;
+  // reauthenticate: either the current password or a TOTP code
+  password?: string;
+  code?: string;
+}
+
+interface SessionRow {
+  id: string;
+  user_id: string;
+  organization_id: string;
+  auth_session_id: string;
+  created_at: string;
+  last_activity_at: string;
+  ended_at: string | null;
+  end_reason: SessionEndReason | null;
+}
+
+interface CallerProfile {
+  organization_id: string;
+  role: string;
+  active: boolean;
+  organizations: { settings: Parameters<typeof resolveSessionPolicy>[0] } | null;
+}
+
+// Define constants
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') || '';
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY') || '';
+
+// Create Supabase client with service role key (bypasses RLS)
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+// Helper function to log audit event
+async function logAuditEvent(userId: string, organizationId: string, action: string, resourceId: string, details: Record<string, unknown> = {}) {
+  try {
+    await supabase.from('audit_logs').insert({
+      user_id: userId,
+      organization_id: organizationId,
+      action,
+      resource_type: 'user',
+      resource_id: resourceId,
+      details,
+    });
+  } catch (error) {
+    console.error('Error logging audit event:', error);
+  }
+}
+
+async function getCallerProfile(userId: string): Promise<CallerProfile | null> {
+  const { data } = await supabase
+    .from('user_profiles')
+    .select('organization_id, role, active, organizations(settings)')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return data as CallerProfile | null;
+}
+
+// Sessions are registered by the functions that issue them; one without a row never went through them
+async function findSession(authSessionId: string) {
+  const { data: existing } = await supabase
+    .from('user_sessions')
+    .select('*')
+    .eq('auth_session_id', authSessionId)
+    .maybeSingle();
+
+  return existing as SessionRow | null;
+}
+
+async function handleHeartbeat(user: User, authSessionId: string, active: boolean) {
+  const profile = await getCallerProfile(user.id);
+  if (!profile?.organization_id) {
+    // Users without an organization have no session policy to enforce
+    return jsonResponse({ success: true, valid: true });
+  }
+
+  // Deprovisioned users must not register the sessions they still hold an access token for
+  if (!profile.active) {
+    return jsonResponse({ success: true, valid: false, reason: 'deprovisioned' });
+  }
+
+  const policy = resolveSessionPolicy(profile.organizations?.settings);
+  const session = await findSession(authSessionId);
+
+  // Obtained from the auth API directly, bypassing the lockout, two-factor and expiry checks
+  if (!session) {
+    await supabase.rpc('revoke_auth_session', { p_session_id: authSessionId });
+    return jsonResponse({ success: true, valid: false, reason: 'signed_out' });
+  }
+
+  if (session.ended_at) {
+    return jsonResponse({ success: true, valid: false, reason: session.end_reason });
+  }
+
+  const now = Date.now();
+  let expiredReason: SessionEndReason | null = null;
+
+  // Sessions signed in before the password expired end with it, so the user has to choose a new one
+  if ((await getPasswordExpiry(supabase, user.id)).expired) {
+    expiredReason = 'password_expired';
+  } else if (policy.maxDuration > 0 && now - new Date(session.created_at).getTime() > policy.maxDuration * 60 * 60 * 1000) {
+    expiredReason = 'max_duration';
+  } else if (policy.idleTimeout > 0 && !active && now - new Date(session.last_activity_at).getTime() > policy.idleTimeout * 60 * 1000) {
+    expiredReason = 'idle_timeout';
+  }
+
+  if (expiredReason) {
+    await endSessions(supabase, [session], expiredReason);
+    await logAuditEvent(user.id, profile.organization_id, 'session_expired', user.id, {
+      session_id: session.id,
+      reason: expiredReason
+    });
+    return jsonResponse({ success: true, valid: false, reason: expiredReason });
+  }
+
+  if (active) {
+    await supabase
+      .from('user_sessions')
+      .update({ last_activity_at: new Date(now).toISOString() })
+      .eq('id', session.id);
+  }
+
+  return jsonResponse({
+    success: true,
+    valid: true,
+    sessionId: session.id,
+    expiresAt: policy.maxDuration > 0
+      ? new Date(new Date(session.created_at).getTime() + policy.maxDuration * 60 * 60 * 1000).toISOString()
+      : null
+  });
+}
+
+async function handleEnd(user: User, authSessionId: string, reason: 'signed_out' | 'idle_timeout') {
+  const { data: session } = await supabase
+    .from('user_sessions')
+    .select('*')
+    .eq('auth_session_id', authSessionId)
+    .is('ended_at', null)
+    .maybeSingle();
+
+  if (session) {
+    await endSessions(supabase, [session as SessionRow], reason);
+    if (reason === 'idle_timeout') {
+      await logAuditEvent(user.id, session.organization_id, 'session_expired', user.id, {
+        session_id: session.id,
+        reason
+      });
+    }
+  }
+
+  return jsonResponse({ success: true });
+}
+
+// Confirms the password or a TOTP code and stamps the current session for step-up checks
+async function handleReauthenticate(user: User, authSessionId: string, password: string | undefined, code: string | undefined) {
+  const profile = await getCallerProfile(user.id);
+  if (!profile?.organization_id) {
+    return jsonResponse({ success: false, error: 'User profile not found' }, 404);
+  }
+
+  let verified = false;
+
+  if (code) {
+    verified = await verifyTotpCode(supabase, user.id, code);
+  } else if (password && user.email) {
+    const anonClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+      auth: { persistSession: false, autoRefreshToken: false }
+    });
+    const { data, error } = await anonClient.auth.signInWithPassword({ email: user.email, password });
+    if (!error && data.session) {
+      // Only the check was needed, not a second session
+      await supabase.auth.admin.signOut(data.session.access_token, 'local');
+      verified = true;
+    }
+  }
+
+  if (!verified) {
+    // Failed step-up attempts count towards the account lockout like failed logins
+    const account = user.email ? await getLoginAccount(supabase, user.email) : null;
+    if (account) {
+      await registerFailedLogin(supabase, account, code ? 'reauth_invalid_code' : 'reauth_invalid_password');
+    }
+    return jsonResponse({ success: false, error: code ? 'Invalid two-factor code' : 'Incorrect password' }, 401);
+  }
+
+  if ((await getPasswordExpiry(supabase, user.id)).expired) {
+    return jsonResponse({ success: false, error: PASSWORD_EXPIRED_ERROR, passwordExpired: true }, 403);
+  }
+
+  const session = await findSession(authSessionId);
+
+  if (!session || session.ended_at) {
+    return jsonResponse({ success: false, error: 'Session has ended' }, 401);
+  }
+
+  const reauthenticatedAt = new Date().toISOString();
+  const { error } = await supabase
+    .from('user_sessions')
+    .update({ reauthenticated_at: reauthenticatedAt, last_activity_at: reauthenticatedAt })
+    .eq('id', session.id);
+
+  if (error) {
+    console.error('Error recording re-authentication:', error);
+    return jsonResponse({ success: false, error: 'Failed to record re-authentication' }, 500);
+  }
+
+  await logAuditEvent(user.id, profile.organization_id, 'reauthenticated', user.id, {
+    session_id: session.id,
+    method: code ? 'totp' : 'password'
+  });
+
+  return jsonResponse({ success: true, reauthenticatedAt });
+}
+
+async function handleRevoke(user: User, sessionId: string | undefined, userId: string | undefined) {
+  const profile = await getCallerProfile(user.id);
+  if (!profile || !['admin', 'super_admin'].includes(profile.role)) {
+    return jsonResponse({ success: false, error: 'Only administrators can revoke sessions' }, 403);
+  }
+
+  let query = supabase
+    .from('user_sessions')
+    .select('*')
+    .eq('organization_id', profile.organization_id)
+    .is('ended_at', null);
+
+  if (sessionId) {
+    query = query.eq('id', sessionId);
+  } else if (userId) {
+    query = query.eq('user_id', userId);
+  } else {
+    return jsonResponse({ success: false, error: 'A session or user is required' }, 400);
+  }
+
+  const { data: sessions, error } = await query;
+  if (error) {
+    console.error('Error loading sessions:', error);
+    return jsonResponse({ success: false, error: 'Failed to load sessions' }, 500);
+  }
+
+  const revoked = (sessions as SessionRow[]) || [];
+  if (revoked.length === 0) {
+    return jsonResponse({ success: false, error: 'No active session found' }, 404);
+  }
+
+  await endSessions(supabase, revoked, 'revoked', user.id);
+
+  for (const session of revoked) {
+    await logAuditEvent(user.id, profile.organization_id, 'session_revoked', session.user_id, {
+      session_id: session.id,
+      target_user_id: session.user_id
+    });
+  }
+
+  return jsonResponse({ success: true, revoked: revoked.length });
+}
+
+// Main handler function
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight request
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders
+    });
+  }
+
+  try {
+    // Parse request body
+    const requestData: SessionRequest = await req.json();
+
+    // Verify authentication
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ success: false, error: 'Missing authorization header' }, 401);
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    const authSessionId = getAuthSessionId(token);
+
+    if (authError || !user || !authSessionId) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    switch (requestData.action) {
+      case 'heartbeat':
+        return await handleHeartbeat(user, authSessionId, requestData.active !== false);
+      case 'end':
+        return await handleEnd(user, authSessionId, requestData.reason === 'idle_timeout' ? 'idle_timeout' : 'signed_out');
+      case 'revoke':
+        return await handleRevoke(user, requestData.sessionId, requestData.userId);
+      case 'reauthenticate':
+        if (!requestData.password && !requestData.code) {
+          return jsonResponse({ success: false, error: 'Password or verification code is required' }, 400);
+        }
+        return await handleReauthenticate(user, authSessionId, requestData.password, requestData.code);
+      default:
+        return jsonResponse({ success: false, error: 'Unknown action' }, 400);
+    }
+  } catch (error) {
+    console.error('Error processing request:', error);
+
+    return jsonResponse({ success: false, error: 'Internal server error' }, 500);
+  }
+});
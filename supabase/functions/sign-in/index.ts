@@ -0,0 +1,152 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.39.0';
+import {
+  DEACTIVATED_ERROR,
+  describeLock,
+  getLoginAccount,
+  isAccountLocked,
+  registerFailedLogin,
+  registerSuccessfulLogin
+} from '../_shared/accountLockout.ts';
+import { getPasswordExpiry, PASSWORD_EXPIRED_ERROR } from '../_shared/passwordPolicy.ts';
+import { isPasswordLoginBlocked, SSO_REQUIRED_ERROR } from '../_shared/sso.ts';
+import { registerSession } from '../_shared/userSessions.ts';
+
+// Define types for sign-in request
+interface SignInRequest {
+  email: string;
+  password: string;
+}
+
+// Define constants
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') || '';
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY') || '';
+
+// Create Supabase client with service role key (bypasses RLS)
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+// Whether the user has an active TOTP enrollment. The profile flag only mirrors this for display
+async function hasTwoFactorSecret(userId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('user_two_factor_secrets')
+    .select('secret')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return !!data?.secret;
+}
+
+// Main handler function
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight request
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders
+    });
+  }
+
+  try {
+    // Parse request body
+    const { email, password }: SignInRequest = await req.json();
+
+    if (!email || !password) {
+      return jsonResponse({ success: false, error: 'Email and password are required' }, 400);
+    }
+
+    const account = await getLoginAccount(supabase, email);
+
+    // Refuse deactivated and locked accounts before the password is even checked
+    if (account && !account.active) {
+      return jsonResponse({ success: false, error: DEACTIVATED_ERROR }, 403);
+    }
+
+    if (account && isAccountLocked(account)) {
+      return jsonResponse({
+        success: false,
+        error: describeLock(account.account_locked_until!),
+        lockedUntil: account.account_locked_until
+      }, 423);
+    }
+
+    if (account && await isPasswordLoginBlocked(supabase, account.user_id, account.organization_id)) {
+      return jsonResponse({ success: false, error: SSO_REQUIRED_ERROR, ssoRequired: true }, 403);
+    }
+
+    const anonClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+      auth: { persistSession: false, autoRefreshToken: false }
+    });
+    const { data, error } = await anonClient.auth.signInWithPassword({ email, password });
+
+    if (error || !data.user || !data.session) {
+      if (account) {
+        const result = await registerFailedLogin(supabase, account, 'invalid_password');
+        if (result.justLocked) {
+          return jsonResponse({
+            success: false,
+            error: describeLock(result.lockedUntil!),
+            lockedUntil: result.lockedUntil
+          }, 423);
+        }
+      }
+
+      return jsonResponse({ success: false, error: error?.message || 'Invalid login credentials' }, 401);
+    }
+
+    // An expired password gets no session; the change-password function takes the credentials instead
+    const { expired, policy } = await getPasswordExpiry(supabase, data.user.id);
+    if (expired) {
+      await supabase.auth.admin.signOut(data.session.access_token, 'local');
+      return jsonResponse({
+        success: false,
+        error: PASSWORD_EXPIRED_ERROR,
+        passwordExpired: true,
+        requiresTwoFactor: await hasTwoFactorSecret(data.user.id),
+        policy
+      }, 403);
+    }
+
+    // The two-factor function checks the password again and issues its own session
+    if (await hasTwoFactorSecret(data.user.id)) {
+      await supabase.auth.admin.signOut(data.session.access_token, 'local');
+      return jsonResponse({ success: true, requiresTwoFactor: true });
+    }
+
+    if (account) {
+      await registerSuccessfulLogin(supabase, account.user_id);
+    }
+
+    await registerSession(supabase, req, data.user.id, data.session.access_token);
+
+    return jsonResponse({
+      success: true,
+      session: {
+        access_token: data.session.access_token,
+        refresh_token: data.session.refresh_token
+      }
+    });
+
+  } catch (error) {
+    console.error('Error processing request:', error);
+
+    return jsonResponse({ success: false, error: 'Internal server error' }, 500);
+  }
+});
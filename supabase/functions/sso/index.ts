@@ -0,0 +1,902 @@
+import { createClient, User } from 'npm:@supabase/supabase-js@2.39.0';
+import { createRemoteJWKSet, JWTPayload, jwtVerify } from 'npm:jose@5.2.0';
+import {
+  DEACTIVATED_ERROR,
+  describeLock,
+  getLoginAccount,
+  isAccountLocked,
+  registerSuccessfulLogin
+} from '../_shared/accountLockout.ts';
+import { registerSession } from '../_shared/userSessions.ts';
+
+/*
+ * OpenID Connect single sign-on (authorization code flow with PKCE).
+ *
+ * Issuers must use https. For local testing against a mock OIDC issuer, http is
+ * accepted for localhost, or for any host when SSO_ALLOW_HTTP_ISSUERS=true is set
+ * in the function's environment.
+ */
+
+// Define types for SSO requests
+type SsoAction = 'start' | 'callback' | 'get-config' | 'save-config' | 'test-config' | 'verify-domain';
+type ProvisionedRole = 'admin' | 'manager' | 'user';
+
+interface SsoConfigInput {
+  enabled: boolean;
+  issuer: string;
+  clientId: string;
+  // Omitted to keep the stored secret
+  clientSecret?: string;
+  scopes?: string;
+  emailDomains: string[];
+  redirectUris: string[];
+  roleClaim?: string | null;
+  roleMapping?: Record<string, ProvisionedRole>;
+  departmentClaim?: string | null;
+  defaultRole?: ProvisionedRole;
+  requireSso?: boolean;
+}
+
+interface SsoRequest {
+  action: SsoAction;
+  // start: the user's work email and where the identity provider sends them back
+  email?: string;
+  redirectUri?: string;
+  // callback: parameters the identity provider appended to the redirect
+  code?: string;
+  state?: string;
+  // save-config / test-config / verify-domain
+  config?: SsoConfigInput;
+  issuer?: string;
+  domain?: string;
+}
+
+interface SsoProviderRow {
+  id: string;
+  organization_id: string;
+  enabled: boolean;
+  issuer: string;
+  client_id: string;
+  client_secret: string;
+  scopes: string;
+  email_domains: string[];
+  redirect_uris: string[];
+  role_claim: string | null;
+  role_mapping: Record<string, ProvisionedRole>;
+  department_claim: string | null;
+  default_role: ProvisionedRole;
+  require_sso: boolean;
+}
+
+interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+// Define constants
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') || '';
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY') || '';
+const ALLOW_HTTP_ISSUERS = Deno.env.get('SSO_ALLOW_HTTP_ISSUERS') === 'true';
+const LOGIN_STATE_TTL_MINUTES = 10;
+const DOMAIN_CHALLENGE_PREFIX = '_sso-challenge';
+const DNS_OVER_HTTPS_URL = 'https://cloudflare-dns.com/dns-query';
+const PROVISIONED_ROLES: ProvisionedRole[] = ['admin', 'manager', 'user'];
+
+// Create Supabase client with service role key (bypasses RLS)
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+// Helper function to log audit event
+async function logAuditEvent(userId: string, organizationId: string, action: string, resourceType: string, resourceId: string, details: Record<string, unknown> = {}) {
+  try {
+    await supabase.from('audit_logs').insert({
+      user_id: userId,
+      organization_id: organizationId,
+      action,
+      resource_type: resourceType,
+      resource_id: resourceId,
+      details,
+    });
+  } catch (error) {
+    console.error('Error logging audit event:', error);
+  }
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function randomToken(): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+async function pkceChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return base64UrlEncode(new Uint8Array(digest));
+}
+
+function normalizeIssuer(issuer: string): string {
+  return issuer.trim().replace(/\/+$/, '');
+}
+
+function getEmailDomain(email: string): string {
+  return email.split('@').pop()?.trim().toLowerCase() || '';
+}
+
+/**
+ * Returns why an issuer URL is unacceptable, or null when it can be used
+ */
+function validateIssuer(issuer: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(issuer);
+  } catch {
+    return 'Issuer must be a valid URL';
+  }
+
+  if (url.protocol === 'https:') return null;
+
+  const isLocalhost = ['localhost', '127.0.0.1', '[::1]'].includes(url.hostname);
+  if (url.protocol === 'http:' && (isLocalhost || ALLOW_HTTP_ISSUERS)) return null;
+
+  return 'Issuer must use https';
+}
+
+/**
+ * Returns why a redirect URI is unacceptable, or null when it can be listed. Same scheme rules as issuers
+ */
+function validateRedirectUri(redirectUri: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(redirectUri);
+  } catch {
+    return `Redirect URI ${redirectUri} is not a valid URL`;
+  }
+
+  if (url.hash) return `Redirect URI ${redirectUri} must not contain a fragment`;
+  if (url.protocol === 'https:') return null;
+
+  const isLocalhost = ['localhost', '127.0.0.1', '[::1]'].includes(url.hostname);
+  if (url.protocol === 'http:' && (isLocalhost || ALLOW_HTTP_ISSUERS)) return null;
+
+  return `Redirect URI ${redirectUri} must use https`;
+}
+
+// The organization whose ownership of the domain is proven; unverified claims route nothing
+async function getVerifiedDomainOwner(domain: string): Promise<string | null> {
+  const { data } = await supabase
+    .from('sso_domain_verifications')
+    .select('organization_id')
+    .eq('domain', domain)
+    .not('verified_at', 'is', null)
+    .maybeSingle();
+
+  return data?.organization_id ?? null;
+}
+
+// TXT records published at the domain's challenge name, resolved over DNS-over-HTTPS
+async function fetchChallengeRecords(domain: string): Promise<string[]> {
+  const url = new URL(DNS_OVER_HTTPS_URL);
+  url.search = new URLSearchParams({ name: `${DOMAIN_CHALLENGE_PREFIX}.${domain}`, type: 'TXT' }).toString();
+
+  const response = await fetch(url, { headers: { Accept: 'application/dns-json' } });
+  if (!response.ok) {
+    throw new Error(`DNS lookup returned ${response.status}`);
+  }
+
+  const result = await response.json() as { Answer?: { type: number; data: string }[] };
+  // Long TXT records come back as several quoted strings
+  return (result.Answer || [])
+    .filter(answer => answer.type === 16)
+    .map(answer => answer.data.replace(/"\s*"/g, '').replace(/^"|"$/g, ''));
+}
+
+async function fetchDiscovery(issuer: string): Promise<OidcDiscovery> {
+  const response = await fetch(`${normalizeIssuer(issuer)}/.well-known/openid-configuration`);
+  if (!response.ok) {
+    throw new Error(`Discovery document returned ${response.status}`);
+  }
+
+  const discovery = await response.json() as OidcDiscovery;
+  if (!discovery.authorization_endpoint || !discovery.token_endpoint || !discovery.jwks_uri) {
+    throw new Error('Discovery document is missing required endpoints');
+  }
+  if (normalizeIssuer(discovery.issuer || '') !== normalizeIssuer(issuer)) {
+    throw new Error(`Discovery document is for issuer ${discovery.issuer}`);
+  }
+
+  return discovery;
+}
+
+// Reads a claim by name, following dots into nested objects (e.g. `realm_access.roles`)
+function getClaim(claims: Record<string, unknown>, path: string | null): unknown {
+  if (!path) return undefined;
+  if (path in claims) return claims[path];
+
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    claims
+  );
+}
+
+/**
+ * Maps the role claim through the provider's mapping, picking the most privileged
+ * match. Returns null when the claim holds nothing that is mapped.
+ */
+function mapRole(provider: SsoProviderRow, claims: Record<string, unknown>): ProvisionedRole | null {
+  const value = getClaim(claims, provider.role_claim);
+  const values = (Array.isArray(value) ? value : [value]).filter(v => typeof v === 'string') as string[];
+  const mapped = values
+    .map(v => provider.role_mapping[v])
+    .filter((role): role is ProvisionedRole => PROVISIONED_ROLES.includes(role));
+
+  if (mapped.length === 0) return null;
+  return PROVISIONED_ROLES.find(role => mapped.includes(role)) || null;
+}
+
+function getDepartment(provider: SsoProviderRow, claims: Record<string, unknown>): string | null {
+  const value = getClaim(claims, provider.department_claim);
+  const department = Array.isArray(value) ? value[0] : value;
+  return typeof department === 'string' && department.trim() ? department.trim() : null;
+}
+
+function getFullName(claims: Record<string, unknown>, email: string): string {
+  if (typeof claims.name === 'string' && claims.name.trim()) return claims.name.trim();
+
+  const parts = [claims.given_name, claims.family_name].filter(part => typeof part === 'string' && part.trim());
+  return parts.length > 0 ? parts.join(' ') : email.split('@')[0];
+}
+
+async function getCallerAdminProfile(user: User) {
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('organization_id, role')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  return profile && ['admin', 'super_admin'].includes(profile.role) ? profile : null;
+}
+
+async function handleStart(email: string, redirectUri: string) {
+  const domain = getEmailDomain(email);
+  const organizationId = domain ? await getVerifiedDomainOwner(domain) : null;
+
+  const { data: provider } = organizationId
+    ? await supabase
+      .from('organization_sso_providers')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .eq('enabled', true)
+      .contains('email_domains', [domain])
+      .maybeSingle()
+    : { data: null };
+
+  if (!provider) {
+    return jsonResponse({ success: false, error: 'Single sign-on is not configured for this email domain' }, 404);
+  }
+
+  // The authorization code is sent wherever this points, so only the organization's own URIs are accepted
+  if (!(provider as SsoProviderRow).redirect_uris.includes(redirectUri)) {
+    return jsonResponse({ success: false, error: 'This redirect URI is not allowed for your organization' }, 400);
+  }
+
+  let discovery: OidcDiscovery;
+  try {
+    discovery = await fetchDiscovery(provider.issuer);
+  } catch (error) {
+    console.error('Error loading OIDC discovery document:', error);
+    return jsonResponse({ success: false, error: 'Could not reach your identity provider' }, 502);
+  }
+
+  // Drop abandoned attempts while we are here
+  await supabase
+    .from('sso_login_states')
+    .delete()
+    .lt('created_at', new Date(Date.now() - LOGIN_STATE_TTL_MINUTES * 60 * 1000).toISOString());
+
+  const state = randomToken();
+  const nonce = randomToken();
+  const codeVerifier = randomToken();
+
+  const { error } = await supabase.from('sso_login_states').insert({
+    state,
+    organization_id: provider.organization_id,
+    nonce,
+    code_verifier: codeVerifier,
+    redirect_uri: redirectUri
+  });
+
+  if (error) {
+    console.error('Error storing SSO login state:', error);
+    return jsonResponse({ success: false, error: 'Failed to start single sign-on' }, 500);
+  }
+
+  const authorizationUrl = new URL(discovery.authorization_endpoint);
+  authorizationUrl.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: provider.client_id,
+    redirect_uri: redirectUri,
+    scope: provider.scopes,
+    state,
+    nonce,
+    code_challenge: await pkceChallenge(codeVerifier),
+    code_challenge_method: 'S256',
+    login_hint: email
+  }).toString();
+
+  return jsonResponse({ success: true, authorizationUrl: authorizationUrl.toString() });
+}
+
+// Exchanges the authorization code and returns the verified ID token claims, merged with userinfo when available
+async function exchangeCode(provider: SsoProviderRow, discovery: OidcDiscovery, code: string, redirectUri: string, codeVerifier: string, nonce: string) {
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUri,
+    code_verifier: codeVerifier
+  });
+  const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+
+  // client_secret_basic is the OIDC default when the provider does not list its methods
+  const authMethods = discovery.token_endpoint_auth_methods_supported || ['client_secret_basic'];
+  if (authMethods.includes('client_secret_basic')) {
+    headers.Authorization = `Basic ${btoa(`${encodeURIComponent(provider.client_id)}:${encodeURIComponent(provider.client_secret)}`)}`;
+  } else {
+    body.set('client_id', provider.client_id);
+    body.set('client_secret', provider.client_secret);
+  }
+
+  const tokenResponse = await fetch(discovery.token_endpoint, { method: 'POST', headers, body });
+  const tokens = await tokenResponse.json();
+  if (!tokenResponse.ok || typeof tokens.id_token !== 'string') {
+    throw new Error(`Token exchange failed: ${tokens.error_description || tokens.error || tokenResponse.status}`);
+  }
+
+  const { payload } = await jwtVerify(tokens.id_token, createRemoteJWKSet(new URL(discovery.jwks_uri)), {
+    issuer: discovery.issuer,
+    audience: provider.client_id
+  });
+
+  if (payload.nonce !== nonce) {
+    throw new Error('ID token nonce does not match');
+  }
+
+  let claims: JWTPayload = payload;
+
+  // Role and department claims are often only released through userinfo
+  if (discovery.userinfo_endpoint && typeof tokens.access_token === 'string') {
+    const userInfoResponse = await fetch(discovery.userinfo_endpoint, {
+      headers: { Authorization: `Bearer ${tokens.access_token}` }
+    });
+    if (userInfoResponse.ok) {
+      const userInfo = await userInfoResponse.json();
+      if (userInfo.sub === payload.sub) {
+        claims = { ...userInfo, ...payload };
+      }
+    }
+  }
+
+  return claims as Record<string, unknown>;
+}
+
+/**
+ * Creates the auth user and profile on first login, or brings an existing profile
+ * in line with the identity provider's claims. Returns null with an error response
+ * when the account may not sign in.
+ */
+async function provisionUser(provider: SsoProviderRow, email: string, claims: Record<string, unknown>) {
+  const mappedRole = mapRole(provider, claims);
+  const department = getDepartment(provider, claims);
+  const fullName = getFullName(claims, email);
+
+  const { data: existingUserId, error: lookupError } = await supabase.rpc('get_auth_user_id_by_email', { p_email: email });
+  if (lookupError) {
+    console.error('Error looking up user by email:', lookupError);
+    throw lookupError;
+  }
+
+  let userId = existingUserId as string | null;
+  let provisioned = false;
+
+  if (!userId) {
+    const role = mappedRole || provider.default_role;
+    const { data: authData, error: createError } = await supabase.auth.admin.createUser({
+      email,
+      email_confirm: true,
+      user_metadata: {
+        full_name: fullName,
+        organization_id: provider.organization_id,
+        role
+      }
+    });
+
+    if (createError || !authData.user) {
+      console.error('Error creating SSO user:', createError);
+      throw createError || new Error('Failed to create user');
+    }
+
+    userId = authData.user.id;
+    provisioned = true;
+  }
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('id, organization_id, role')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (profile && profile.organization_id !== provider.organization_id) {
+    return { error: jsonResponse({ success: false, error: 'This account belongs to a different organization' }, 403) };
+  }
+
+  if (!profile) {
+    const { error: insertError } = await supabase.from('user_profiles').insert({
+      user_id: userId,
+      organization_id: provider.organization_id,
+      role: mappedRole || provider.default_role,
+      full_name: fullName,
+      department,
+      auth_provider: 'sso'
+    });
+
+    if (insertError) {
+      console.error('Error creating SSO user profile:', insertError);
+      throw insertError;
+    }
+  } else {
+    const updates: Record<string, unknown> = { auth_provider: 'sso' };
+    // The identity provider owns role and department once they are mapped; super admins are never demoted
+    if (mappedRole && profile.role !== 'super_admin') updates.role = mappedRole;
+    if (department) updates.department = department;
+
+    const { error: updateError } = await supabase.from('user_profiles').update(updates).eq('id', profile.id);
+    if (updateError) {
+      console.error('Error updating SSO user profile:', updateError);
+      throw updateError;
+    }
+  }
+
+  return { userId, provisioned, role: mappedRole || profile?.role || provider.default_role, department };
+}
+
+async function handleCallback(req: Request, code: string, state: string) {
+  // Login states are single use
+  const { data: loginState } = await supabase
+    .from('sso_login_states')
+    .delete()
+    .eq('state', state)
+    .select()
+    .maybeSingle();
+
+  if (!loginState || Date.now() - new Date(loginState.created_at).getTime() > LOGIN_STATE_TTL_MINUTES * 60 * 1000) {
+    return jsonResponse({ success: false, error: 'The sign-in request expired. Please try again.' }, 400);
+  }
+
+  const { data: provider } = await supabase
+    .from('organization_sso_providers')
+    .select('*')
+    .eq('organization_id', loginState.organization_id)
+    .eq('enabled', true)
+    .maybeSingle();
+
+  if (!provider) {
+    return jsonResponse({ success: false, error: 'Single sign-on is no longer enabled for this organization' }, 400);
+  }
+
+  let claims: Record<string, unknown>;
+  try {
+    const discovery = await fetchDiscovery(provider.issuer);
+    claims = await exchangeCode(provider, discovery, code, loginState.redirect_uri, loginState.code_verifier, loginState.nonce);
+  } catch (error) {
+    console.error('Error completing OIDC login:', error);
+    return jsonResponse({ success: false, error: 'Your identity provider did not confirm the sign-in' }, 401);
+  }
+
+  const email = typeof claims.email === 'string' ? claims.email.trim().toLowerCase() : '';
+  if (!email || claims.email_verified === false) {
+    return jsonResponse({ success: false, error: 'Your identity provider did not share a verified email address' }, 403);
+  }
+
+  // A provider may only sign in addresses from the domains the organization claimed and verified
+  const emailDomain = getEmailDomain(email);
+  if (
+    !(provider as SsoProviderRow).email_domains.includes(emailDomain) ||
+    await getVerifiedDomainOwner(emailDomain) !== provider.organization_id
+  ) {
+    return jsonResponse({ success: false, error: 'Your email domain is not allowed for this organization' }, 403);
+  }
+
+  const existingAccount = await getLoginAccount(supabase, email);
+  if (existingAccount && !existingAccount.active) {
+    return jsonResponse({ success: false, error: DEACTIVATED_ERROR }, 403);
+  }
+
+  if (existingAccount && isAccountLocked(existingAccount)) {
+    return jsonResponse({
+      success: false,
+      error: describeLock(existingAccount.account_locked_until!),
+      lockedUntil: existingAccount.account_locked_until
+    }, 423);
+  }
+
+  const result = await provisionUser(provider as SsoProviderRow, email, claims);
+  if ('error' in result) {
+    return result.error;
+  }
+
+  // Issue a Supabase session for the user through a one-time magic link token
+  const { data: linkData, error: linkError } = await supabase.auth.admin.generateLink({ type: 'magiclink', email });
+  if (linkError || !linkData.properties?.hashed_token) {
+    console.error('Error generating SSO sign-in link:', linkError);
+    return jsonResponse({ success: false, error: 'Failed to create a session' }, 500);
+  }
+
+  const anonClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false }
+  });
+  const { data: sessionData, error: sessionError } = await anonClient.auth.verifyOtp({
+    token_hash: linkData.properties.hashed_token,
+    type: 'magiclink'
+  });
+
+  if (sessionError || !sessionData.session) {
+    console.error('Error creating SSO session:', sessionError);
+    return jsonResponse({ success: false, error: 'Failed to create a session' }, 500);
+  }
+
+  await registerSuccessfulLogin(supabase, result.userId);
+  await registerSession(supabase, req, result.userId, sessionData.session.access_token);
+
+  if (result.provisioned) {
+    await logAuditEvent(result.userId, provider.organization_id, 'sso_user_provisioned', 'user', result.userId, {
+      email,
+      role: result.role,
+      department: result.department,
+      issuer: provider.issuer
+    });
+  }
+
+  await logAuditEvent(result.userId, provider.organization_id, 'sso_login', 'user', result.userId, {
+    issuer: provider.issuer,
+    subject: claims.sub,
+    role: result.role
+  });
+
+  return jsonResponse({
+    success: true,
+    session: {
+      access_token: sessionData.session.access_token,
+      refresh_token: sessionData.session.refresh_token
+    }
+  });
+}
+
+async function handleGetConfig(organizationId: string) {
+  const { data: provider } = await supabase
+    .from('organization_sso_providers')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .maybeSingle();
+
+  if (!provider) {
+    return jsonResponse({ success: true, config: null });
+  }
+
+  const { data: verifications } = await supabase
+    .from('sso_domain_verifications')
+    .select('domain, token, verified_at')
+    .eq('organization_id', organizationId);
+
+  // The client secret is write-only
+  return jsonResponse({
+    success: true,
+    config: {
+      enabled: provider.enabled,
+      issuer: provider.issuer,
+      clientId: provider.client_id,
+      hasClientSecret: !!provider.client_secret,
+      scopes: provider.scopes,
+      emailDomains: provider.email_domains,
+      domainVerifications: (verifications || []).map(verification => ({
+        domain: verification.domain,
+        recordName: `${DOMAIN_CHALLENGE_PREFIX}.${verification.domain}`,
+        recordValue: `sso-verification=${verification.token}`,
+        verifiedAt: verification.verified_at
+      })),
+      redirectUris: provider.redirect_uris,
+      roleClaim: provider.role_claim,
+      roleMapping: provider.role_mapping,
+      departmentClaim: provider.department_claim,
+      defaultRole: provider.default_role,
+      requireSso: provider.require_sso
+    }
+  });
+}
+
+async function handleSaveConfig(user: User, organizationId: string, config: SsoConfigInput) {
+  const issuer = normalizeIssuer(config.issuer || '');
+  const issuerError = validateIssuer(issuer);
+  if (issuerError) {
+    return jsonResponse({ success: false, error: issuerError }, 400);
+  }
+
+  if (!config.clientId?.trim()) {
+    return jsonResponse({ success: false, error: 'Client ID is required' }, 400);
+  }
+
+  const emailDomains = [...new Set((config.emailDomains || []).map(domain => domain.trim().toLowerCase().replace(/^@/, '')).filter(Boolean))];
+  if (config.enabled && emailDomains.length === 0) {
+    return jsonResponse({ success: false, error: 'At least one email domain is required' }, 400);
+  }
+
+  const redirectUris = [...new Set((config.redirectUris || []).map(uri => uri.trim()).filter(Boolean))];
+  if (config.enabled && redirectUris.length === 0) {
+    return jsonResponse({ success: false, error: 'At least one redirect URI is required' }, 400);
+  }
+
+  const redirectUriError = redirectUris.map(validateRedirectUri).find(Boolean);
+  if (redirectUriError) {
+    return jsonResponse({ success: false, error: redirectUriError }, 400);
+  }
+
+  const defaultRole = config.defaultRole || 'user';
+  const roleMapping = config.roleMapping || {};
+  if (![defaultRole, ...Object.values(roleMapping)].every(role => PROVISIONED_ROLES.includes(role))) {
+    return jsonResponse({ success: false, error: 'Roles can only be mapped to admin, manager or user' }, 400);
+  }
+
+  const { data: existing } = await supabase
+    .from('organization_sso_providers')
+    .select('id, client_secret')
+    .eq('organization_id', organizationId)
+    .maybeSingle();
+
+  const clientSecret = config.clientSecret || existing?.client_secret;
+  if (!clientSecret) {
+    return jsonResponse({ success: false, error: 'Client secret is required' }, 400);
+  }
+
+  if (emailDomains.length > 0) {
+    const { data: conflicts } = await supabase
+      .from('sso_domain_verifications')
+      .select('domain')
+      .neq('organization_id', organizationId)
+      .not('verified_at', 'is', null)
+      .in('domain', emailDomains);
+
+    if (conflicts && conflicts.length > 0) {
+      return jsonResponse({ success: false, error: `${conflicts[0].domain} is already verified by another organization` }, 409);
+    }
+  }
+
+  if (config.enabled) {
+    try {
+      await fetchDiscovery(issuer);
+    } catch (error) {
+      return jsonResponse({ success: false, error: `Could not load the issuer's discovery document: ${(error as Error).message}` }, 400);
+    }
+  }
+
+  const { error } = await supabase
+    .from('organization_sso_providers')
+    .upsert({
+      organization_id: organizationId,
+      enabled: !!config.enabled,
+      issuer,
+      client_id: config.clientId.trim(),
+      client_secret: clientSecret,
+      scopes: config.scopes?.trim() || 'openid email profile',
+      email_domains: emailDomains,
+      redirect_uris: redirectUris,
+      role_claim: config.roleClaim?.trim() || null,
+      role_mapping: roleMapping,
+      department_claim: config.departmentClaim?.trim() || null,
+      default_role: defaultRole,
+      require_sso: !!config.requireSso,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'organization_id' });
+
+  if (error) {
+    console.error('Error saving SSO configuration:', error);
+    return jsonResponse({ success: false, error: 'Failed to save SSO configuration' }, 500);
+  }
+
+  // Every listed domain gets a challenge; removed domains lose theirs along with any verification
+  let staleDomains = supabase
+    .from('sso_domain_verifications')
+    .delete()
+    .eq('organization_id', organizationId);
+  if (emailDomains.length > 0) {
+    staleDomains = staleDomains.not('domain', 'in', `(${emailDomains.map(domain => `"${domain}"`).join(',')})`);
+  }
+  await staleDomains;
+
+  if (emailDomains.length > 0) {
+    await supabase
+      .from('sso_domain_verifications')
+      .upsert(
+        emailDomains.map(domain => ({ organization_id: organizationId, domain, token: randomToken() })),
+        { onConflict: 'organization_id,domain', ignoreDuplicates: true }
+      );
+  }
+
+  await logAuditEvent(user.id, organizationId, 'sso_config_updated', 'organization', organizationId, {
+    enabled: !!config.enabled,
+    issuer,
+    email_domains: emailDomains,
+    redirect_uris: redirectUris,
+    require_sso: !!config.requireSso,
+    client_secret_changed: !!config.clientSecret
+  });
+
+  return jsonResponse({ success: true });
+}
+
+// Marks a listed domain as the organization's once its challenge TXT record is published
+async function handleVerifyDomain(user: User, organizationId: string, domain: string) {
+  const { data: verification } = await supabase
+    .from('sso_domain_verifications')
+    .select('token, verified_at')
+    .eq('organization_id', organizationId)
+    .eq('domain', domain)
+    .maybeSingle();
+
+  if (!verification) {
+    return jsonResponse({ success: false, error: 'Save the domain in your SSO settings first' }, 404);
+  }
+
+  if (verification.verified_at) {
+    return jsonResponse({ success: true, verifiedAt: verification.verified_at });
+  }
+
+  let records: string[];
+  try {
+    records = await fetchChallengeRecords(domain);
+  } catch (error) {
+    console.error('Error resolving domain challenge:', error);
+    return jsonResponse({ success: false, error: 'Could not look up the DNS record' }, 502);
+  }
+
+  if (!records.includes(`sso-verification=${verification.token}`)) {
+    return jsonResponse({
+      success: false,
+      error: `No TXT record with the verification value was found at ${DOMAIN_CHALLENGE_PREFIX}.${domain}`
+    }, 400);
+  }
+
+  const verifiedAt = new Date().toISOString();
+  const { error } = await supabase
+    .from('sso_domain_verifications')
+    .update({ verified_at: verifiedAt })
+    .eq('organization_id', organizationId)
+    .eq('domain', domain);
+
+  // Only one organization can hold a verified domain
+  if (error?.code === '23505') {
+    return jsonResponse({ success: false, error: `${domain} is already verified by another organization` }, 409);
+  }
+
+  if (error) {
+    console.error('Error recording domain verification:', error);
+    return jsonResponse({ success: false, error: 'Failed to verify the domain' }, 500);
+  }
+
+  await logAuditEvent(user.id, organizationId, 'sso_domain_verified', 'organization', organizationId, { domain });
+
+  return jsonResponse({ success: true, verifiedAt });
+}
+
+async function handleTestConfig(issuer: string) {
+  const issuerError = validateIssuer(issuer);
+  if (issuerError) {
+    return jsonResponse({ success: false, error: issuerError }, 400);
+  }
+
+  try {
+    const discovery = await fetchDiscovery(issuer);
+    return jsonResponse({
+      success: true,
+      issuer: discovery.issuer,
+      authorizationEndpoint: discovery.authorization_endpoint
+    });
+  } catch (error) {
+    return jsonResponse({ success: false, error: `Could not load the issuer's discovery document: ${(error as Error).message}` }, 400);
+  }
+}
+
+// Main handler function
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight request
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders
+    });
+  }
+
+  try {
+    // Parse request body
+    const requestData: SsoRequest = await req.json();
+
+    // Signing in happens before the user has a session
+    if (requestData.action === 'start') {
+      if (!requestData.email || !requestData.redirectUri) {
+        return jsonResponse({ success: false, error: 'Email and redirect URI are required' }, 400);
+      }
+      return await handleStart(requestData.email, requestData.redirectUri);
+    }
+
+    if (requestData.action === 'callback') {
+      if (!requestData.code || !requestData.state) {
+        return jsonResponse({ success: false, error: 'Authorization code and state are required' }, 400);
+      }
+      return await handleCallback(req, requestData.code, requestData.state);
+    }
+
+    // Configuration requires an administrator
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ success: false, error: 'Missing authorization header' }, 401);
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const profile = await getCallerAdminProfile(user);
+    if (!profile) {
+      return jsonResponse({ success: false, error: 'Only administrators can manage single sign-on' }, 403);
+    }
+
+    switch (requestData.action) {
+      case 'get-config':
+        return await handleGetConfig(profile.organization_id);
+      case 'save-config':
+        // Mirrors the organizations.update permission that guards the rest of OrganizationSettings
+        if (profile.role !== 'super_admin') {
+          return jsonResponse({ success: false, error: 'Only super administrators can change single sign-on' }, 403);
+        }
+        if (!requestData.config) {
+          return jsonResponse({ success: false, error: 'Configuration is required' }, 400);
+        }
+        return await handleSaveConfig(user, profile.organization_id, requestData.config);
+      case 'verify-domain':
+        if (profile.role !== 'super_admin') {
+          return jsonResponse({ success: false, error: 'Only super administrators can change single sign-on' }, 403);
+        }
+        if (!requestData.domain) {
+          return jsonResponse({ success: false, error: 'Domain is required' }, 400);
+        }
+        return await handleVerifyDomain(user, profile.organization_id, requestData.domain.trim().toLowerCase());
+      case 'test-config':
+        return await handleTestConfig(normalizeIssuer(requestData.issuer || ''));
+      default:
+        return jsonResponse({ success: false, error: 'Unknown action' }, 400);
+    }
+  } catch (error) {
+    console.error('Error processing request:', error);
+
+    return jsonResponse({ success: false, error: 'Internal server error' }, 500);
+  }
+});
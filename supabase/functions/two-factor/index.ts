@@ -0,0 +1,488 @@
+import { createClient, User } from 'npm:@supabase/supabase-js@2.39.0';
+import { consumeStep, findMatchingStep, generateSecret, TOTP_DIGITS, TOTP_PERIOD_SECONDS } from '../_shared/totp.ts';
+import {
+  DEACTIVATED_ERROR,
+  describeLock,
+  getLoginAccount,
+  isAccountLocked,
+  registerFailedLogin,
+  registerSuccessfulLogin
+} from '../_shared/accountLockout.ts';
+import { getPasswordExpiry, PASSWORD_EXPIRED_ERROR } from '../_shared/passwordPolicy.ts';
+import { isPasswordLoginBlocked, SSO_REQUIRED_ERROR } from '../_shared/sso.ts';
+import { registerSession } from '../_shared/userSessions.ts';
+
+// Define types for two-factor requests
+type TwoFactorAction = 'setup' | 'enable' | 'verify' | 'disable' | 'status' | 'regenerate-backup-codes';
+
+interface TwoFactorRequest {
+  action: TwoFactorAction;
+  code?: string;
+  backupCode?: string;
+  email?: string;
+  password?: string;
+}
+
+interface TwoFactorSecretRow {
+  user_id: string;
+  secret: string | null;
+  pending_secret: string | null;
+  last_used_step: number | null;
+}
+
+interface OrganizationSettings {
+  security?: {
+    twoFactorAuth?: {
+      backupCodes?: boolean;
+    };
+  };
+}
+
+// Define constants
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') || '';
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY') || '';
+
+const TOTP_ISSUER = 'Odyn';
+
+const BACKUP_CODE_COUNT = 10;
+const BACKUP_CODE_LENGTH = 10;
+// 32 symbols without look-alikes (0/O, 1/I) so a random byte maps without modulo bias
+const BACKUP_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const LOW_BACKUP_CODES_THRESHOLD = 3;
+
+// Create Supabase client with service role key (bypasses RLS)
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+// Helper function to log audit event
+async function logAuditEvent(userId: string, action: string, details: Record<string, unknown> = {}) {
+  try {
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('organization_id')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (!profile?.organization_id) return;
+
+    await supabase.from('audit_logs').insert({
+      user_id: userId,
+      organization_id: profile.organization_id,
+      action,
+      resource_type: 'user',
+      resource_id: userId,
+      details,
+    });
+  } catch (error) {
+    console.error('Error logging audit event:', error);
+  }
+}
+
+function normalizeBackupCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+// Salted with the user id, so equal codes of different users hash differently
+async function hashBackupCode(userId: string, code: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(`${userId}:${normalizeBackupCode(code)}`)
+  );
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function generateBackupCode(): string {
+  const raw = Array.from(crypto.getRandomValues(new Uint8Array(BACKUP_CODE_LENGTH)))
+    .map(byte => BACKUP_CODE_ALPHABET[byte & 31])
+    .join('');
+  return `${raw.slice(0, BACKUP_CODE_LENGTH / 2)}-${raw.slice(BACKUP_CODE_LENGTH / 2)}`;
+}
+
+async function backupCodesAllowed(userId: string): Promise<boolean> {
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('organizations(settings)')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  const organization = profile?.organizations as { settings?: OrganizationSettings } | null | undefined;
+  return organization?.settings?.security?.twoFactorAuth?.backupCodes !== false;
+}
+
+/**
+ * Replaces the user's backup codes with a fresh set. Only hashes are stored;
+ * the plaintext codes are returned once so the user can save them.
+ */
+async function issueBackupCodes(userId: string): Promise<string[]> {
+  const { error: deleteError } = await supabase
+    .from('user_backup_codes')
+    .delete()
+    .eq('user_id', userId);
+
+  if (deleteError) throw deleteError;
+
+  const codes = Array.from({ length: BACKUP_CODE_COUNT }, generateBackupCode);
+  const rows = await Promise.all(codes.map(async code => ({
+    user_id: userId,
+    code_hash: await hashBackupCode(userId, code)
+  })));
+
+  const { error: insertError } = await supabase.from('user_backup_codes').insert(rows);
+  if (insertError) throw insertError;
+
+  return codes;
+}
+
+// Mark a matching unused code as used; the used_at filter makes each code single-use
+async function consumeBackupCode(userId: string, code: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('user_backup_codes')
+    .update({ used_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .eq('code_hash', await hashBackupCode(userId, code))
+    .is('used_at', null)
+    .select('id');
+
+  return !error && !!data && data.length === 1;
+}
+
+async function countRemainingBackupCodes(userId: string): Promise<number> {
+  const { count } = await supabase
+    .from('user_backup_codes')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .is('used_at', null);
+
+  return count ?? 0;
+}
+
+async function warnLowBackupCodes(userId: string, remaining: number) {
+  if (remaining > LOW_BACKUP_CODES_THRESHOLD) return;
+
+  try {
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('organization_id')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (!profile?.organization_id) return;
+
+    await supabase.from('notifications').insert({
+      user_id: userId,
+      organization_id: profile.organization_id,
+      type: 'warning',
+      title: 'Backup codes running low',
+      message: remaining === 0
+        ? 'You have no backup codes left. Generate a new set from your two-factor settings.'
+        : `Only ${remaining} backup code${remaining === 1 ? '' : 's'} left. Generate a new set from your two-factor settings.`,
+      category: 'security',
+      priority: remaining === 0 ? 'critical' : 'high',
+      resource_type: 'user',
+      resource_id: userId
+    });
+  } catch (error) {
+    console.error('Error creating backup code notification:', error);
+  }
+}
+
+async function getSecretRow(userId: string): Promise<TwoFactorSecretRow | null> {
+  const { data } = await supabase
+    .from('user_two_factor_secrets')
+    .select('user_id, secret, pending_secret, last_used_step')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return data;
+}
+
+async function getUserFromRequest(req: Request): Promise<User | null> {
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) return null;
+
+  const token = authHeader.replace('Bearer ', '');
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+  return error ? null : user;
+}
+
+// Check a password without touching the caller's own session
+async function verifyPassword(email: string, password: string) {
+  const anonClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false }
+  });
+  return anonClient.auth.signInWithPassword({ email, password });
+}
+
+async function handleSetup(user: User) {
+  const secret = generateSecret();
+
+  const { error } = await supabase
+    .from('user_two_factor_secrets')
+    .upsert({
+      user_id: user.id,
+      pending_secret: secret,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'user_id' });
+
+  if (error) {
+    console.error('Error storing pending secret:', error);
+    return jsonResponse({ success: false, error: 'Failed to start two-factor setup' }, 500);
+  }
+
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${user.email ?? user.id}`);
+  const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(TOTP_ISSUER)}` +
+    `&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_PERIOD_SECONDS}`;
+
+  return jsonResponse({ success: true, secret, otpauthUrl });
+}
+
+async function handleEnable(user: User, code: string) {
+  const row = await getSecretRow(user.id);
+  if (!row?.pending_secret) {
+    return jsonResponse({ success: false, error: 'Two-factor setup has not been started' }, 400);
+  }
+
+  const step = await findMatchingStep(row.pending_secret, code, null);
+  if (step === null) {
+    await logAuditEvent(user.id, 'two_factor_failed', { stage: 'enable' });
+    return jsonResponse({ success: false, error: 'Invalid verification code' }, 400);
+  }
+
+  const { error: secretError } = await supabase
+    .from('user_two_factor_secrets')
+    .update({
+      secret: row.pending_secret,
+      pending_secret: null,
+      last_used_step: step,
+      updated_at: new Date().toISOString()
+    })
+    .eq('user_id', user.id);
+
+  if (secretError) {
+    console.error('Error activating secret:', secretError);
+    return jsonResponse({ success: false, error: 'Failed to enable two-factor authentication' }, 500);
+  }
+
+  const { error: profileError } = await supabase
+    .from('user_profiles')
+    .update({ two_factor_enabled: true })
+    .eq('user_id', user.id);
+
+  if (profileError) {
+    console.error('Error updating user profile:', profileError);
+    return jsonResponse({ success: false, error: 'Failed to enable two-factor authentication' }, 500);
+  }
+
+  const backupCodes = await backupCodesAllowed(user.id) ? await issueBackupCodes(user.id) : [];
+
+  return jsonResponse({ success: true, backupCodes });
+}
+
+async function handleVerify(req: Request, email: string, password: string, code: string | undefined, backupCode: string | undefined) {
+  const account = await getLoginAccount(supabase, email);
+  if (account && !account.active) {
+    return jsonResponse({ success: false, error: DEACTIVATED_ERROR }, 403);
+  }
+
+  if (account && isAccountLocked(account)) {
+    return jsonResponse({ success: false, error: describeLock(account.account_locked_until!), lockedUntil: account.account_locked_until }, 423);
+  }
+
+  if (account && await isPasswordLoginBlocked(supabase, account.user_id, account.organization_id)) {
+    return jsonResponse({ success: false, error: SSO_REQUIRED_ERROR, ssoRequired: true }, 403);
+  }
+
+  const { data: signInData, error: signInError } = await verifyPassword(email, password);
+  if (signInError || !signInData.user || !signInData.session) {
+    const result = account ? await registerFailedLogin(supabase, account, 'invalid_password') : null;
+    if (result?.justLocked) {
+      return jsonResponse({ success: false, error: describeLock(result.lockedUntil!), lockedUntil: result.lockedUntil }, 423);
+    }
+    return jsonResponse({ success: false, error: 'Invalid login credentials' }, 401);
+  }
+
+  const user = signInData.user;
+  const session = signInData.session;
+
+  // Same as the sign-in function: an expired password gets no session, the code is not consumed
+  const { expired, policy } = await getPasswordExpiry(supabase, user.id);
+  if (expired) {
+    await supabase.auth.admin.signOut(session.access_token, 'local');
+    return jsonResponse({ success: false, error: PASSWORD_EXPIRED_ERROR, passwordExpired: true, requiresTwoFactor: true, policy }, 403);
+  }
+
+  const row = await getSecretRow(user.id);
+  let consumed = false;
+  let remainingBackupCodes: number | null = null;
+
+  if (backupCode) {
+    consumed = !!row?.secret && await consumeBackupCode(user.id, backupCode);
+    if (consumed) {
+      remainingBackupCodes = await countRemainingBackupCodes(user.id);
+      await logAuditEvent(user.id, 'backup_code_used', { remaining: remainingBackupCodes });
+      await warnLowBackupCodes(user.id, remainingBackupCodes);
+    }
+  } else if (code && row?.secret) {
+    const step = await findMatchingStep(row.secret, code, row.last_used_step);
+    consumed = step !== null && await consumeStep(supabase, user.id, step, row.last_used_step);
+  }
+
+  if (!consumed) {
+    // Do not leave a usable session behind for a failed second factor
+    await supabase.auth.admin.signOut(session.access_token, 'local');
+    await logAuditEvent(user.id, 'two_factor_failed', { stage: 'login', method: backupCode ? 'backup_code' : 'totp' });
+    // Guessing second factors counts towards the lockout just like guessing passwords
+    const result = account ? await registerFailedLogin(supabase, account, 'invalid_two_factor_code') : null;
+    if (result?.justLocked) {
+      return jsonResponse({ success: false, error: describeLock(result.lockedUntil!), lockedUntil: result.lockedUntil }, 423);
+    }
+    return jsonResponse({ success: false, error: backupCode ? 'Invalid or already used backup code' : 'Invalid two-factor code' }, 401);
+  }
+
+  await registerSuccessfulLogin(supabase, user.id);
+  await registerSession(supabase, req, user.id, session.access_token);
+
+  return jsonResponse({
+    success: true,
+    session: {
+      access_token: session.access_token,
+      refresh_token: session.refresh_token
+    },
+    remainingBackupCodes
+  });
+}
+
+async function handleStatus(user: User) {
+  const row = await getSecretRow(user.id);
+
+  return jsonResponse({
+    success: true,
+    enabled: !!row?.secret,
+    remainingBackupCodes: row?.secret ? await countRemainingBackupCodes(user.id) : 0
+  });
+}
+
+async function handleRegenerateBackupCodes(user: User, code: string) {
+  const row = await getSecretRow(user.id);
+  if (!row?.secret) {
+    return jsonResponse({ success: false, error: 'Two-factor authentication is not enabled' }, 400);
+  }
+
+  if (!await backupCodesAllowed(user.id)) {
+    return jsonResponse({ success: false, error: 'Backup codes are disabled for your organization' }, 403);
+  }
+
+  // Require a fresh authenticator code so a hijacked session cannot mint new codes
+  const step = await findMatchingStep(row.secret, code, row.last_used_step);
+  if (step === null || !await consumeStep(supabase, user.id, step, row.last_used_step)) {
+    await logAuditEvent(user.id, 'two_factor_failed', { stage: 'regenerate_backup_codes' });
+    return jsonResponse({ success: false, error: 'Invalid verification code' }, 400);
+  }
+
+  const backupCodes = await issueBackupCodes(user.id);
+  await logAuditEvent(user.id, 'backup_codes_regenerated', { count: backupCodes.length });
+
+  return jsonResponse({ success: true, backupCodes });
+}
+
+async function handleDisable(user: User, password: string) {
+  const { error: passwordError } = await verifyPassword(user.email || '', password);
+  if (passwordError) {
+    return jsonResponse({ success: false, error: 'Invalid password' }, 401);
+  }
+
+  const { error: secretError } = await supabase
+    .from('user_two_factor_secrets')
+    .delete()
+    .eq('user_id', user.id);
+
+  const { error: backupCodesError } = await supabase
+    .from('user_backup_codes')
+    .delete()
+    .eq('user_id', user.id);
+
+  const { error: profileError } = await supabase
+    .from('user_profiles')
+    .update({ two_factor_enabled: false })
+    .eq('user_id', user.id);
+
+  if (secretError || backupCodesError || profileError) {
+    console.error('Error disabling two-factor authentication:', secretError || backupCodesError || profileError);
+    return jsonResponse({ success: false, error: 'Failed to disable two-factor authentication' }, 500);
+  }
+
+  return jsonResponse({ success: true });
+}
+
+// Main handler function
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight request
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders
+    });
+  }
+
+  try {
+    // Parse request body
+    const requestData: TwoFactorRequest = await req.json();
+
+    // Verification happens before a session exists, so it authenticates with credentials instead
+    if (requestData.action === 'verify') {
+      if (!requestData.email || !requestData.password || !(requestData.code || requestData.backupCode)) {
+        return jsonResponse({ success: false, error: 'Email, password and a code are required' }, 400);
+      }
+      return await handleVerify(req, requestData.email, requestData.password, requestData.code, requestData.backupCode);
+    }
+
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    switch (requestData.action) {
+      case 'setup':
+        return await handleSetup(user);
+      case 'enable':
+        if (!requestData.code) {
+          return jsonResponse({ success: false, error: 'Verification code is required' }, 400);
+        }
+        return await handleEnable(user, requestData.code);
+      case 'disable':
+        if (!requestData.password) {
+          return jsonResponse({ success: false, error: 'Password is required' }, 400);
+        }
+        return await handleDisable(user, requestData.password);
+      case 'status':
+        return await handleStatus(user);
+      case 'regenerate-backup-codes':
+        if (!requestData.code) {
+          return jsonResponse({ success: false, error: 'Verification code is required' }, 400);
+        }
+        return await handleRegenerateBackupCodes(user, requestData.code);
+      default:
+        return jsonResponse({ success: false, error: 'Unknown action' }, 400);
+    }
+  } catch (error) {
+    console.error('Error processing request:', error);
+
+    return jsonResponse({ success: false, error: 'Internal server error' }, 500);
+  }
+});
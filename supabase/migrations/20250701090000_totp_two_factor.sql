@@ -0,0 +1,51 @@
+/*
+  # Server-side TOTP secrets
+
+  1. New Tables
+    - `user_two_factor_secrets`
+      - `user_id` (uuid, primary key, references auth.users)
+      - `secret` (text, base32 TOTP secret of the active enrollment, nullable)
+      - `pending_secret` (text, base32 secret awaiting first verification, nullable)
+      - `last_used_step` (bigint, last accepted 30-second time step, used for replay protection)
+      - `created_at` / `updated_at` (timestamp with time zone)
+  2. Changes
+    - Existing `user_profiles.two_factor_secret` values are copied into the new table
+    - `user_profiles.two_factor_secret` is dropped so the secret is never readable by clients
+    - Profiles flagged `two_factor_enabled` without a secret to carry over are reset, so those users
+      enroll again instead of being asked for a code that can never verify
+  3. Security
+    - Enable RLS on `user_two_factor_secrets` without any policies; only the
+      `two-factor` edge function (service role) can read or write secrets
+*/
+
+CREATE TABLE IF NOT EXISTS public.user_two_factor_secrets (
+    user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    secret text,
+    pending_secret text,
+    last_used_step bigint,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.user_two_factor_secrets ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON public.user_two_factor_secrets FROM anon, authenticated;
+
+-- Carry over any secrets that were stored on the profile
+INSERT INTO public.user_two_factor_secrets (user_id, secret)
+SELECT user_id, two_factor_secret
+FROM public.user_profiles
+WHERE two_factor_secret IS NOT NULL
+ON CONFLICT (user_id) DO NOTHING;
+
+-- The client only ever set the flag, so most enrollments have no secret to carry over
+UPDATE public.user_profiles p
+SET two_factor_enabled = false
+WHERE p.two_factor_enabled
+  AND NOT EXISTS (
+    SELECT 1
+    FROM public.user_two_factor_secrets s
+    WHERE s.user_id = p.user_id AND s.secret IS NOT NULL
+  );
+
+ALTER TABLE public.user_profiles DROP COLUMN IF EXISTS two_factor_secret;
@@ -0,0 +1,52 @@
+/*
+  # Hashed, single-use backup codes
+
+  1. New Tables
+    - `user_backup_codes`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `code_hash` (text, SHA-256 of the user id and the normalized code)
+      - `used_at` (timestamp with time zone, set once the code has been consumed)
+      - `created_at` (timestamp with time zone)
+  2. Changes
+    - Existing plaintext `user_profiles.backup_codes` are not carried over: they were generated with a weak
+      random source. Users who had codes are notified to generate a new set
+    - `user_profiles.backup_codes` is dropped so codes are never stored in plaintext
+  3. Security
+    - Enable RLS on `user_backup_codes` without any policies; codes are issued,
+      counted and consumed only by the `two-factor` edge function (service role)
+*/
+
+CREATE TABLE IF NOT EXISTS public.user_backup_codes (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    code_hash text NOT NULL,
+    used_at timestamp with time zone,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    UNIQUE (user_id, code_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_backup_codes_user_id ON public.user_backup_codes (user_id);
+
+ALTER TABLE public.user_backup_codes ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON public.user_backup_codes FROM anon, authenticated;
+
+-- Legacy codes came from Math.random() and are invalidated rather than hashed
+INSERT INTO public.notifications (user_id, organization_id, type, title, message, category, priority, resource_type, resource_id)
+SELECT
+    p.user_id,
+    p.organization_id,
+    'warning',
+    'Backup codes reset',
+    'Your previous backup codes are no longer valid. Generate a new set from your two-factor settings.',
+    'security',
+    'high',
+    'user',
+    p.user_id
+FROM public.user_profiles p
+WHERE p.backup_codes IS NOT NULL
+  AND cardinality(p.backup_codes) > 0
+  AND p.organization_id IS NOT NULL;
+
+ALTER TABLE public.user_profiles DROP COLUMN IF EXISTS backup_codes;
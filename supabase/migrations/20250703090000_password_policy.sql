@@ -0,0 +1,71 @@
+/*
+  # Password policy enforcement
+
+  1. New Tables
+    - `user_password_history`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `password_hash` (text, bcrypt hash of a previously used password)
+      - `created_at` (timestamp with time zone)
+  2. Changes
+    - `user_profiles.password_changed_at` records when the password was last set,
+      used to force rotation once `passwordPolicy.maxAge` days have passed
+  3. Functions
+    - `record_password_history(user_id, password)` stores a bcrypt hash of a new password
+    - `password_in_history(user_id, password, depth)` checks the last `depth` passwords
+  4. Security
+    - Enable RLS on `user_password_history` without any policies
+    - Both functions can only be executed by the service role (edge functions)
+*/
+
+ALTER TABLE public.user_profiles
+  ADD COLUMN IF NOT EXISTS password_changed_at timestamp with time zone DEFAULT now() NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.user_password_history (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    password_hash text NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_password_history_user_id
+  ON public.user_password_history (user_id, created_at DESC);
+
+ALTER TABLE public.user_password_history ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON public.user_password_history FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.record_password_history(p_user_id uuid, p_password text)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  INSERT INTO public.user_password_history (user_id, password_hash)
+  VALUES (p_user_id, crypt(p_password, gen_salt('bf')));
+$$;
+
+CREATE OR REPLACE FUNCTION public.password_in_history(p_user_id uuid, p_password text, p_depth integer)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM (
+      SELECT password_hash
+      FROM public.user_password_history
+      WHERE user_id = p_user_id
+      ORDER BY created_at DESC
+      LIMIT GREATEST(p_depth, 0)
+    ) recent
+    WHERE recent.password_hash = crypt(p_password, recent.password_hash)
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_password_history(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.password_in_history(uuid, text, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_password_history(uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.password_in_history(uuid, text, integer) TO service_role;
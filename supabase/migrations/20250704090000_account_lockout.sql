@@ -0,0 +1,95 @@
+/*
+  # Account lockout after failed logins
+
+  1. Functions
+    - `get_login_account(email)` resolves an email to the user's profile lockout state
+    - `register_failed_login(user_id, max_attempts, lockout_minutes, auto_lock)` atomically
+      increments `failed_login_attempts` and sets `account_locked_until` once the limit is hit.
+      A failure after an expired lock starts counting from one again.
+  2. Security
+    - Both functions can only be executed by the service role (sign-in edge function)
+    - Users can no longer reset their own `failed_login_attempts` or `account_locked_until`;
+      admins still unlock other users from User Management
+*/
+
+CREATE OR REPLACE FUNCTION public.get_login_account(p_email text)
+RETURNS TABLE (
+  user_id uuid,
+  organization_id uuid,
+  full_name text,
+  two_factor_enabled boolean,
+  failed_login_attempts integer,
+  account_locked_until timestamp with time zone
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.user_id, p.organization_id, p.full_name, p.two_factor_enabled, p.failed_login_attempts, p.account_locked_until
+  FROM auth.users u
+  JOIN public.user_profiles p ON p.user_id = u.id
+  WHERE lower(u.email) = lower(p_email)
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION public.register_failed_login(
+  p_user_id uuid,
+  p_max_attempts integer,
+  p_lockout_minutes integer,
+  p_auto_lock boolean
+)
+RETURNS TABLE (failed_login_attempts integer, account_locked_until timestamp with time zone)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH next_attempt AS (
+    SELECT
+      p.id,
+      CASE
+        WHEN p.account_locked_until IS NOT NULL AND p.account_locked_until <= now() THEN 1
+        ELSE COALESCE(p.failed_login_attempts, 0) + 1
+      END AS attempts
+    FROM public.user_profiles p
+    WHERE p.user_id = p_user_id
+  )
+  UPDATE public.user_profiles p
+  SET
+    failed_login_attempts = n.attempts,
+    account_locked_until = CASE
+      WHEN p_auto_lock AND p_max_attempts > 0 AND n.attempts >= p_max_attempts
+        THEN now() + make_interval(mins => GREATEST(p_lockout_minutes, 1))
+      WHEN p.account_locked_until IS NOT NULL AND p.account_locked_until <= now()
+        THEN NULL
+      ELSE p.account_locked_until
+    END
+  FROM next_attempt n
+  WHERE p.id = n.id
+  RETURNING p.failed_login_attempts, p.account_locked_until;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_login_account(text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.register_failed_login(uuid, integer, integer, boolean) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_login_account(text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.register_failed_login(uuid, integer, integer, boolean) TO service_role;
+
+-- Keep users from clearing their own lockout through the profile update policy
+CREATE OR REPLACE FUNCTION public.protect_lockout_columns()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND OLD.user_id = auth.uid() THEN
+    NEW.failed_login_attempts := OLD.failed_login_attempts;
+    NEW.account_locked_until := OLD.account_locked_until;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_lockout_columns ON public.user_profiles;
+CREATE TRIGGER protect_lockout_columns
+  BEFORE UPDATE ON public.user_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_lockout_columns();
@@ -0,0 +1,62 @@
+/*
+  # Session tracking
+
+  1. New Tables
+    - `user_sessions`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `organization_id` (uuid, references organizations)
+      - `auth_session_id` (uuid, the `session_id` claim of the user's access token)
+      - `user_agent`, `ip_address` (text, captured when the session is first seen)
+      - `created_at`, `last_activity_at` (timestamp with time zone)
+      - `ended_at` (timestamp with time zone, null while the session is active)
+      - `end_reason` (text, enum: signed_out, idle_timeout, max_duration, evicted, revoked)
+      - `ended_by` (uuid, admin who revoked the session)
+  2. Functions
+    - `revoke_auth_session(session_id)` deletes the Supabase auth session so its refresh token stops working
+  3. Security
+    - Enable RLS on `user_sessions`
+    - Users can read their own sessions, admins can read all sessions in their organization
+    - Sessions are only written by the `sessions` edge function (service role)
+*/
+
+CREATE TABLE IF NOT EXISTS public.user_sessions (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    organization_id uuid REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+    auth_session_id uuid NOT NULL UNIQUE,
+    user_agent text,
+    ip_address text,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    last_activity_at timestamp with time zone DEFAULT now() NOT NULL,
+    ended_at timestamp with time zone,
+    end_reason text CHECK (end_reason IN ('signed_out', 'idle_timeout', 'max_duration', 'evicted', 'revoked')),
+    ended_by uuid REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_active_user
+  ON public.user_sessions (user_id, created_at)
+  WHERE ended_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_user_sessions_organization_id ON public.user_sessions (organization_id);
+
+ALTER TABLE public.user_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own sessions or all within their organization if admin"
+ON public.user_sessions FOR SELECT
+TO authenticated
+USING (
+    user_id = auth.uid() OR
+    (get_my_user_role() IN ('admin', 'super_admin') AND organization_id = get_my_organization_id())
+);
+
+CREATE OR REPLACE FUNCTION public.revoke_auth_session(p_session_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM auth.sessions WHERE id = p_session_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.revoke_auth_session(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_auth_session(uuid) TO service_role;
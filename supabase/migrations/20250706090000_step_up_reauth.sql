@@ -0,0 +1,105 @@
+/*
+  # Step-up re-authentication
+
+  1. Changes
+    - `user_sessions.reauthenticated_at` records when the session last confirmed a password or TOTP code
+  2. Functions
+    - `has_recent_reauth(permission)` is true when the caller's current session re-authenticated within
+      `sessionPolicy.reauthWindow` minutes (default 5), or when `sessionPolicy.requireReauth` is off.
+      Requests without a user (service role) are always allowed.
+    - `enforce_reauth()` trigger function, declared per permission through its trigger argument
+    - `enforce_role_change_reauth()` guards role changes on `user_profiles`
+  3. Gated permissions
+    - `organizations.delete`, `users.delete`, `roles.assign`, `incidents.delete`, `risks.delete`
+*/
+
+ALTER TABLE public.user_sessions
+  ADD COLUMN IF NOT EXISTS reauthenticated_at timestamp with time zone;
+
+CREATE OR REPLACE FUNCTION public.has_recent_reauth(p_permission text)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings jsonb;
+  v_window integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN true;
+  END IF;
+
+  SELECT o.settings INTO v_settings
+  FROM public.user_profiles p
+  JOIN public.organizations o ON o.id = p.organization_id
+  WHERE p.user_id = auth.uid();
+
+  IF COALESCE((v_settings #>> '{security,sessionPolicy,requireReauth}')::boolean, true) = false THEN
+    RETURN true;
+  END IF;
+
+  v_window := COALESCE((v_settings #>> '{security,sessionPolicy,reauthWindow}')::integer, 5);
+
+  RETURN EXISTS (
+    SELECT 1
+    FROM public.user_sessions s
+    WHERE s.auth_session_id = NULLIF(auth.jwt() ->> 'session_id', '')::uuid
+      AND s.user_id = auth.uid()
+      AND s.ended_at IS NULL
+      AND s.reauthenticated_at > now() - make_interval(mins => v_window)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_reauth()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT public.has_recent_reauth(TG_ARGV[0]) THEN
+    RAISE EXCEPTION 'Re-authentication required for %', TG_ARGV[0]
+      USING ERRCODE = '42501', HINT = 'reauth_required';
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_role_change_reauth()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role AND NOT public.has_recent_reauth('roles.assign') THEN
+    RAISE EXCEPTION 'Re-authentication required for roles.assign'
+      USING ERRCODE = '42501', HINT = 'reauth_required';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reauth_organizations_delete ON public.organizations;
+CREATE TRIGGER reauth_organizations_delete
+  BEFORE DELETE ON public.organizations
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_reauth('organizations.delete');
+
+DROP TRIGGER IF EXISTS reauth_users_delete ON public.user_profiles;
+CREATE TRIGGER reauth_users_delete
+  BEFORE DELETE ON public.user_profiles
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_reauth('users.delete');
+
+DROP TRIGGER IF EXISTS reauth_roles_assign ON public.user_profiles;
+CREATE TRIGGER reauth_roles_assign
+  BEFORE UPDATE OF role ON public.user_profiles
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_role_change_reauth();
+
+DROP TRIGGER IF EXISTS reauth_incidents_delete ON public.incident_reports;
+CREATE TRIGGER reauth_incidents_delete
+  BEFORE DELETE ON public.incident_reports
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_reauth('incidents.delete');
+
+DROP TRIGGER IF EXISTS reauth_risks_delete ON public.risks;
+CREATE TRIGGER reauth_risks_delete
+  BEFORE DELETE ON public.risks
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_reauth('risks.delete');
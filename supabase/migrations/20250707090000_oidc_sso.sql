@@ -0,0 +1,86 @@
+/*
+  # OIDC single sign-on
+
+  1. New Tables
+    - `organization_sso_providers` - one OIDC provider per organization: issuer, client credentials,
+      the email domains routed to it, and how ID token claims map to role and department
+    - `sso_login_states` - pending authorization requests (state, nonce, PKCE verifier), consumed by the callback
+  2. Changes
+    - `user_profiles.auth_provider` records whether the account signs in with a password or through SSO;
+      SSO accounts are exempt from password expiry, and users cannot change it on their own profile
+  3. Functions
+    - `get_auth_user_id_by_email(email)` resolves an auth user regardless of whether it has a profile yet
+  4. Security
+    - Both tables hold secrets and are only reachable through the `sso` edge function (service role)
+*/
+
+CREATE TABLE IF NOT EXISTS public.organization_sso_providers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL UNIQUE REFERENCES public.organizations(id) ON DELETE CASCADE,
+  enabled boolean NOT NULL DEFAULT false,
+  issuer text NOT NULL,
+  client_id text NOT NULL,
+  client_secret text NOT NULL,
+  scopes text NOT NULL DEFAULT 'openid email profile',
+  email_domains text[] NOT NULL DEFAULT '{}',
+  role_claim text,
+  role_mapping jsonb NOT NULL DEFAULT '{}'::jsonb,
+  department_claim text,
+  default_role text NOT NULL DEFAULT 'user' CHECK (default_role IN ('admin', 'manager', 'user')),
+  require_sso boolean NOT NULL DEFAULT false,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS organization_sso_providers_email_domains_idx
+  ON public.organization_sso_providers USING gin (email_domains);
+
+CREATE TABLE IF NOT EXISTS public.sso_login_states (
+  state text PRIMARY KEY,
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  nonce text NOT NULL,
+  code_verifier text NOT NULL,
+  redirect_uri text NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.organization_sso_providers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sso_login_states ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON public.organization_sso_providers FROM anon, authenticated;
+REVOKE ALL ON public.sso_login_states FROM anon, authenticated;
+
+ALTER TABLE public.user_profiles
+  ADD COLUMN IF NOT EXISTS auth_provider text NOT NULL DEFAULT 'password'
+  CHECK (auth_provider IN ('password', 'sso'));
+
+CREATE OR REPLACE FUNCTION public.get_auth_user_id_by_email(p_email text)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT u.id
+  FROM auth.users u
+  WHERE lower(u.email) = lower(p_email)
+  LIMIT 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_auth_user_id_by_email(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_auth_user_id_by_email(text) TO service_role;
+
+-- Extends the lockout protection so users cannot switch their own profile back to password sign-in
+CREATE OR REPLACE FUNCTION public.protect_lockout_columns()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND OLD.user_id = auth.uid() THEN
+    NEW.failed_login_attempts := OLD.failed_login_attempts;
+    NEW.account_locked_until := OLD.account_locked_until;
+    NEW.auth_provider := OLD.auth_provider;
+  END IF;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,141 @@
+/*
+  # SCIM 2.0 provisioning
+
+  1. New Tables
+    - `scim_tokens` - per-organization bearer tokens for the `scim` edge function; only a SHA-256
+      hash and a short display prefix are stored
+    - `scim_groups` - groups pushed by the identity provider, optionally mapped to a role or department
+    - `scim_group_members` - group membership by user
+  2. Changes
+    - `user_profiles.active` is cleared when a user is deprovisioned; the account is also locked and its
+      sessions revoked, but no data is deleted
+    - `user_profiles.external_id` holds the provisioning system's identifier
+    - `user_sessions.end_reason` gains `deprovisioned`
+    - `get_login_account` also returns `active` so deactivated accounts cannot sign in
+  3. Functions
+    - `get_organization_user_emails(organization_id)` resolves emails for SCIM user listings
+    - `revoke_user_auth_sessions(user_id)` deletes every auth session of a user, tracked or not
+  4. Security
+    - All three tables are only reachable through the `scim` edge function (service role)
+*/
+
+CREATE TABLE IF NOT EXISTS public.scim_tokens (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  token_hash text NOT NULL UNIQUE,
+  token_prefix text NOT NULL,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  last_used_at timestamp with time zone,
+  revoked_at timestamp with time zone
+);
+
+CREATE INDEX IF NOT EXISTS idx_scim_tokens_organization_id ON public.scim_tokens (organization_id);
+
+CREATE TABLE IF NOT EXISTS public.scim_groups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  display_name text NOT NULL,
+  external_id text,
+  mapped_role text CHECK (mapped_role IN ('admin', 'manager', 'user')),
+  mapped_department text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, display_name)
+);
+
+CREATE TABLE IF NOT EXISTS public.scim_group_members (
+  group_id uuid NOT NULL REFERENCES public.scim_groups(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (group_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_scim_group_members_user_id ON public.scim_group_members (user_id);
+
+ALTER TABLE public.scim_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.scim_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.scim_group_members ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON public.scim_tokens FROM anon, authenticated;
+REVOKE ALL ON public.scim_groups FROM anon, authenticated;
+REVOKE ALL ON public.scim_group_members FROM anon, authenticated;
+
+ALTER TABLE public.user_profiles
+  ADD COLUMN IF NOT EXISTS active boolean NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS external_id text;
+
+ALTER TABLE public.user_sessions DROP CONSTRAINT IF EXISTS user_sessions_end_reason_check;
+ALTER TABLE public.user_sessions
+  ADD CONSTRAINT user_sessions_end_reason_check
+  CHECK (end_reason IN ('signed_out', 'idle_timeout', 'max_duration', 'evicted', 'revoked', 'deprovisioned'));
+
+-- The return type changes, so the function has to be recreated
+DROP FUNCTION IF EXISTS public.get_login_account(text);
+CREATE FUNCTION public.get_login_account(p_email text)
+RETURNS TABLE (
+  user_id uuid,
+  organization_id uuid,
+  full_name text,
+  two_factor_enabled boolean,
+  failed_login_attempts integer,
+  account_locked_until timestamp with time zone,
+  active boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.user_id, p.organization_id, p.full_name, p.two_factor_enabled, p.failed_login_attempts, p.account_locked_until, p.active
+  FROM auth.users u
+  JOIN public.user_profiles p ON p.user_id = u.id
+  WHERE lower(u.email) = lower(p_email)
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_organization_user_emails(p_organization_id uuid)
+RETURNS TABLE (user_id uuid, email text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT u.id, u.email::text
+  FROM auth.users u
+  JOIN public.user_profiles p ON p.user_id = u.id
+  WHERE p.organization_id = p_organization_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.revoke_user_auth_sessions(p_user_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM auth.sessions WHERE user_id = p_user_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_login_account(text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_organization_user_emails(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.revoke_user_auth_sessions(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_login_account(text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_organization_user_emails(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.revoke_user_auth_sessions(uuid) TO service_role;
+
+-- Users cannot reactivate themselves
+CREATE OR REPLACE FUNCTION public.protect_lockout_columns()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND OLD.user_id = auth.uid() THEN
+    NEW.failed_login_attempts := OLD.failed_login_attempts;
+    NEW.account_locked_until := OLD.account_locked_until;
+    NEW.auth_provider := OLD.auth_provider;
+    NEW.active := OLD.active;
+  END IF;
+  RETURN NEW;
+END;
+$$;
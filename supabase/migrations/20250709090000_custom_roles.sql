@@ -0,0 +1,369 @@
+/*
+  # Custom roles
+
+  1. New Tables
+    - `permissions` - catalog of every permission string the application checks
+    - `roles` - named permission sets. The four built-in roles (`super_admin`, `admin`, `manager`, `user`)
+      are system rows with no organization; organizations add their own custom roles
+  2. Changes
+    - `user_profiles.custom_role_id` optionally assigns a custom role. It replaces the permissions of the
+      user's base `role`, which still decides the admin tier (settings, SSO, SCIM)
+    - Role changes and custom role assignments share the `roles.assign` re-authentication gate
+  3. Functions
+    - `get_my_permissions()` returns the caller's effective permissions
+    - `has_permission(permission)` is used by the client and by row level security; requests without a
+      user (service role) are always allowed
+  4. Security
+    - Custom roles are managed with `roles.manage` and can never grant a permission the editor lacks
+    - Restrictive policies on assets, incidents, risks, personnel, travel plans and mitigations require
+      the matching `<resource>.read/create/update/delete` permission on top of the organization policies
+*/
+
+CREATE TABLE IF NOT EXISTS public.permissions (
+  key text PRIMARY KEY,
+  description text NOT NULL
+);
+
+INSERT INTO public.permissions (key, description) VALUES
+  ('users.create', 'Invite and create users'),
+  ('users.read', 'View users'),
+  ('users.update', 'Edit users and manage their sessions'),
+  ('users.delete', 'Delete users'),
+  ('roles.assign', 'Change user roles'),
+  ('roles.revoke', 'Remove user roles'),
+  ('roles.manage', 'Create and edit custom roles'),
+  ('assets.create', 'Create assets'),
+  ('assets.read', 'View assets'),
+  ('assets.update', 'Edit assets'),
+  ('assets.delete', 'Delete assets'),
+  ('incidents.create', 'Report incidents'),
+  ('incidents.read', 'View incidents'),
+  ('incidents.update', 'Edit incidents'),
+  ('incidents.delete', 'Delete incidents'),
+  ('risks.create', 'Create risks'),
+  ('risks.read', 'View risks'),
+  ('risks.update', 'Edit risks'),
+  ('risks.delete', 'Delete risks'),
+  ('personnel.create', 'Create personnel records'),
+  ('personnel.read', 'View personnel records'),
+  ('personnel.update', 'Edit personnel records'),
+  ('personnel.delete', 'Delete personnel records'),
+  ('travel.create', 'Create travel plans'),
+  ('travel.read', 'View travel plans'),
+  ('travel.update', 'Edit travel plans'),
+  ('travel.delete', 'Delete travel plans'),
+  ('mitigations.create', 'Create mitigations'),
+  ('mitigations.read', 'View mitigations'),
+  ('mitigations.update', 'Edit mitigations'),
+  ('mitigations.delete', 'Delete mitigations'),
+  ('audit.read', 'View audit logs'),
+  ('system.configure', 'Configure the system'),
+  ('organizations.create', 'Create organizations'),
+  ('organizations.read', 'View organization settings'),
+  ('organizations.update', 'Edit organization settings'),
+  ('organizations.delete', 'Delete organizations')
+ON CONFLICT (key) DO UPDATE SET description = EXCLUDED.description;
+
+CREATE TABLE IF NOT EXISTS public.roles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES public.organizations(id) ON DELETE CASCADE,
+  key text CHECK (key IN ('super_admin', 'admin', 'manager', 'user')),
+  name text NOT NULL,
+  description text,
+  permissions text[] NOT NULL DEFAULT '{}',
+  is_system boolean NOT NULL DEFAULT false,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CHECK (is_system = (organization_id IS NULL)),
+  CHECK (is_system = (key IS NOT NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_roles_system_key ON public.roles (key) WHERE is_system;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_roles_organization_name ON public.roles (organization_id, lower(name)) WHERE NOT is_system;
+
+INSERT INTO public.roles (key, name, description, permissions, is_system) VALUES
+  ('super_admin', 'Super Admin', 'Full access, including organization and role management', ARRAY[
+    'users.create', 'users.read', 'users.update', 'users.delete',
+    'roles.assign', 'roles.revoke', 'roles.manage',
+    'assets.create', 'assets.read', 'assets.update', 'assets.delete',
+    'incidents.create', 'incidents.read', 'incidents.update', 'incidents.delete',
+    'risks.create', 'risks.read', 'risks.update', 'risks.delete',
+    'personnel.create', 'personnel.read', 'personnel.update', 'personnel.delete',
+    'travel.create', 'travel.read', 'travel.update', 'travel.delete',
+    'audit.read', 'system.configure',
+    'organizations.create', 'organizations.read', 'organizations.update', 'organizations.delete',
+    'mitigations.create', 'mitigations.read', 'mitigations.update', 'mitigations.delete'
+  ], true),
+  ('admin', 'Admin', 'Manages users and all security data', ARRAY[
+    'users.read', 'users.update', 'users.create',
+    'assets.create', 'assets.read', 'assets.update', 'assets.delete',
+    'incidents.create', 'incidents.read', 'incidents.update', 'incidents.delete',
+    'risks.create', 'risks.read', 'risks.update', 'risks.delete',
+    'personnel.create', 'personnel.read', 'personnel.update', 'personnel.delete',
+    'travel.create', 'travel.read', 'travel.update', 'travel.delete',
+    'audit.read',
+    'organizations.read',
+    'mitigations.create', 'mitigations.read', 'mitigations.update', 'mitigations.delete'
+  ], true),
+  ('manager', 'Manager', 'Maintains security data without deleting it', ARRAY[
+    'assets.read', 'assets.update',
+    'incidents.create', 'incidents.read', 'incidents.update',
+    'risks.create', 'risks.read', 'risks.update',
+    'personnel.read', 'personnel.update',
+    'travel.create', 'travel.read', 'travel.update',
+    'mitigations.read', 'mitigations.create'
+  ], true),
+  ('user', 'User', 'Read access and own travel plans', ARRAY[
+    'assets.read',
+    'incidents.read',
+    'risks.read',
+    'personnel.read',
+    'travel.create', 'travel.read',
+    'mitigations.read'
+  ], true)
+ON CONFLICT (key) WHERE is_system DO UPDATE
+  SET name = EXCLUDED.name,
+      description = EXCLUDED.description,
+      permissions = EXCLUDED.permissions;
+
+ALTER TABLE public.user_profiles
+  ADD COLUMN IF NOT EXISTS custom_role_id uuid REFERENCES public.roles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_user_profiles_custom_role_id ON public.user_profiles (custom_role_id);
+
+-- 1. Permission resolution
+
+CREATE OR REPLACE FUNCTION public.get_my_permissions()
+RETURNS text[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(custom.permissions, system.permissions, '{}'::text[])
+  FROM public.user_profiles p
+  LEFT JOIN public.roles custom ON custom.id = p.custom_role_id
+  LEFT JOIN public.roles system ON system.is_system AND system.key = p.role
+  WHERE p.user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_permission(p_permission text)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN true;
+  END IF;
+
+  RETURN p_permission = ANY(COALESCE(public.get_my_permissions(), '{}'::text[]));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_my_permissions() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.has_permission(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_my_permissions() TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.has_permission(text) TO authenticated, service_role;
+
+-- 2. Role validation
+
+CREATE OR REPLACE FUNCTION public.validate_role_permissions()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_unknown text;
+  v_missing text;
+BEGIN
+  NEW.permissions := ARRAY(SELECT DISTINCT unnest(NEW.permissions) ORDER BY 1);
+
+  SELECT permission INTO v_unknown
+  FROM unnest(NEW.permissions) AS permission
+  WHERE permission NOT IN (SELECT key FROM public.permissions)
+  LIMIT 1;
+
+  IF v_unknown IS NOT NULL THEN
+    RAISE EXCEPTION 'Unknown permission %', v_unknown
+      USING ERRCODE = '23514';
+  END IF;
+
+  -- Editors cannot hand out more than they hold themselves
+  IF auth.uid() IS NOT NULL THEN
+    SELECT permission INTO v_missing
+    FROM unnest(NEW.permissions) AS permission
+    WHERE NOT public.has_permission(permission)
+    LIMIT 1;
+
+    IF v_missing IS NOT NULL THEN
+      RAISE EXCEPTION 'Cannot grant % without holding it', v_missing
+        USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_role_permissions ON public.roles;
+CREATE TRIGGER validate_role_permissions
+  BEFORE INSERT OR UPDATE ON public.roles
+  FOR EACH ROW EXECUTE FUNCTION public.validate_role_permissions();
+
+-- 3. Role assignment
+
+CREATE OR REPLACE FUNCTION public.validate_custom_role_assignment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.custom_role_id IS NOT DISTINCT FROM OLD.custom_role_id AND NEW.role = OLD.role THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.custom_role_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF (TG_OP = 'INSERT' OR NEW.custom_role_id IS DISTINCT FROM OLD.custom_role_id)
+    AND NOT public.has_permission('roles.assign') THEN
+    RAISE EXCEPTION 'Permission denied for roles.assign'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.roles
+    WHERE id = NEW.custom_role_id
+      AND organization_id = NEW.organization_id
+      AND NOT is_system
+  ) THEN
+    RAISE EXCEPTION 'Custom role does not belong to the user''s organization'
+      USING ERRCODE = '23514';
+  END IF;
+
+  -- Super admins keep their full permission set so an organization can never lock itself out
+  IF NEW.role = 'super_admin' THEN
+    RAISE EXCEPTION 'Super admins cannot be given a custom role'
+      USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_custom_role_assignment ON public.user_profiles;
+CREATE TRIGGER validate_custom_role_assignment
+  BEFORE INSERT OR UPDATE OF custom_role_id, role ON public.user_profiles
+  FOR EACH ROW EXECUTE FUNCTION public.validate_custom_role_assignment();
+
+CREATE OR REPLACE FUNCTION public.enforce_role_change_reauth()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF (NEW.role IS DISTINCT FROM OLD.role OR NEW.custom_role_id IS DISTINCT FROM OLD.custom_role_id)
+    AND NOT public.has_recent_reauth('roles.assign') THEN
+    RAISE EXCEPTION 'Re-authentication required for roles.assign'
+      USING ERRCODE = '42501', HINT = 'reauth_required';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reauth_roles_assign ON public.user_profiles;
+CREATE TRIGGER reauth_roles_assign
+  BEFORE UPDATE OF role, custom_role_id ON public.user_profiles
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_role_change_reauth();
+
+-- 4. Row level security for the catalog and roles
+
+ALTER TABLE public.permissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.roles ENABLE ROW LEVEL SECURITY;
+
+REVOKE INSERT, UPDATE, DELETE ON public.permissions FROM anon, authenticated;
+
+DROP POLICY IF EXISTS "Authenticated users can read permissions" ON public.permissions;
+CREATE POLICY "Authenticated users can read permissions"
+  ON public.permissions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Users can read system and organization roles" ON public.roles;
+CREATE POLICY "Users can read system and organization roles"
+  ON public.roles
+  FOR SELECT
+  TO authenticated
+  USING (is_system OR organization_id = get_my_organization_id());
+
+DROP POLICY IF EXISTS "Role managers can create organization roles" ON public.roles;
+CREATE POLICY "Role managers can create organization roles"
+  ON public.roles
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (NOT is_system AND organization_id = get_my_organization_id() AND has_permission('roles.manage'));
+
+DROP POLICY IF EXISTS "Role managers can update organization roles" ON public.roles;
+CREATE POLICY "Role managers can update organization roles"
+  ON public.roles
+  FOR UPDATE
+  TO authenticated
+  USING (NOT is_system AND organization_id = get_my_organization_id() AND has_permission('roles.manage'))
+  WITH CHECK (NOT is_system AND organization_id = get_my_organization_id() AND has_permission('roles.manage'));
+
+DROP POLICY IF EXISTS "Role managers can delete organization roles" ON public.roles;
+CREATE POLICY "Role managers can delete organization roles"
+  ON public.roles
+  FOR DELETE
+  TO authenticated
+  USING (NOT is_system AND organization_id = get_my_organization_id() AND has_permission('roles.manage'));
+
+-- 5. Permission enforcement on security data
+-- Restrictive policies are ANDed with the existing organization policies, so they only narrow access
+
+DO $$
+DECLARE
+  v_target record;
+BEGIN
+  FOR v_target IN
+    SELECT * FROM (VALUES
+      ('assets', 'assets'),
+      ('incident_reports', 'incidents'),
+      ('risks', 'risks'),
+      ('personnel_details', 'personnel'),
+      ('travel_plans', 'travel'),
+      ('mitigations', 'mitigations')
+    ) AS t(table_name, resource)
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', 'Require ' || v_target.resource || '.read', v_target.table_name);
+    EXECUTE format(
+      'CREATE POLICY %I ON public.%I AS RESTRICTIVE FOR SELECT TO authenticated USING (public.has_permission(%L))',
+      'Require ' || v_target.resource || '.read', v_target.table_name, v_target.resource || '.read'
+    );
+
+    EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', 'Require ' || v_target.resource || '.create', v_target.table_name);
+    EXECUTE format(
+      'CREATE POLICY %I ON public.%I AS RESTRICTIVE FOR INSERT TO authenticated WITH CHECK (public.has_permission(%L))',
+      'Require ' || v_target.resource || '.create', v_target.table_name, v_target.resource || '.create'
+    );
+
+    EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', 'Require ' || v_target.resource || '.update', v_target.table_name);
+    EXECUTE format(
+      'CREATE POLICY %I ON public.%I AS RESTRICTIVE FOR UPDATE TO authenticated USING (public.has_permission(%L))',
+      'Require ' || v_target.resource || '.update', v_target.table_name, v_target.resource || '.update'
+    );
+
+    EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', 'Require ' || v_target.resource || '.delete', v_target.table_name);
+    EXECUTE format(
+      'CREATE POLICY %I ON public.%I AS RESTRICTIVE FOR DELETE TO authenticated USING (public.has_permission(%L))',
+      'Require ' || v_target.resource || '.delete', v_target.table_name, v_target.resource || '.delete'
+    );
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,274 @@
+/*
+  # Department and clearance scoping
+
+  1. Changes
+    - `user_profiles.clearance_level` is the viewer's clearance (`Unclassified` < `Confidential` < `Secret`
+      < `Top Secret`, matching `clearanceLevels` in the client). Existing super admins start at `Top Secret`
+      so someone can grant clearances; everyone else starts at `Unclassified`
+  2. Functions
+    - `clearance_rank(level)` orders clearance levels
+    - `can_access_department(department)` is true for admins and super admins, and otherwise for the
+      caller's own department and for records that belong to no department. Requests without a user
+      (service role) are always allowed
+    - Users without a department (most existing profiles) therefore keep seeing records that are not
+      assigned to a department, their own incidents and their own travel plans, but none of any
+      department's records until an admin assigns them one
+    - `can_view_clearance(level)` is true when the caller's clearance is at least `level`
+  3. Views
+    - `personnel_directory` is the readable form of `personnel_details`. `date_of_birth` and
+      `emergency_contact` are null and `sensitive_redacted` is true when the record's clearance is above
+      the viewer's
+  4. Security
+    - Restrictive policies limit personnel, incidents and travel plans to the caller's department.
+      Reporters keep access to their own incidents and travelers to their own travel plans
+    - `authenticated` loses SELECT on `personnel_details.date_of_birth` and `emergency_contact`, so the
+      sensitive fields are only readable through the view. Columns added to `personnel_details` later
+      must be granted explicitly
+    - Personnel records above the viewer's clearance cannot be edited, and nobody but a super admin can
+      set a record's or a user's clearance above their own
+    - Users below admin cannot change their own department
+*/
+
+ALTER TABLE public.user_profiles
+  ADD COLUMN IF NOT EXISTS clearance_level text NOT NULL DEFAULT 'Unclassified'
+    CHECK (clearance_level IN ('Unclassified', 'Confidential', 'Secret', 'Top Secret'));
+
+UPDATE public.user_profiles SET clearance_level = 'Top Secret' WHERE role = 'super_admin';
+
+-- 1. Helpers
+
+CREATE OR REPLACE FUNCTION public.clearance_rank(p_level text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_level
+    WHEN 'Unclassified' THEN 0
+    WHEN 'Confidential' THEN 1
+    WHEN 'Secret' THEN 2
+    WHEN 'Top Secret' THEN 3
+    -- Unknown levels are treated as the most restrictive
+    ELSE 3
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_access_department(p_department text)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_role text;
+  v_department text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN true;
+  END IF;
+
+  SELECT role, department INTO v_role, v_department
+  FROM public.user_profiles
+  WHERE user_id = auth.uid();
+
+  IF v_role IN ('admin', 'super_admin') THEN
+    RETURN true;
+  END IF;
+
+  -- Records without a department are organization-wide
+  IF NULLIF(btrim(p_department), '') IS NULL THEN
+    RETURN true;
+  END IF;
+
+  RETURN NULLIF(btrim(v_department), '') IS NOT NULL
+    AND lower(btrim(p_department)) = lower(btrim(v_department));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_view_clearance(p_level text)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_clearance text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN true;
+  END IF;
+
+  SELECT clearance_level INTO v_clearance
+  FROM public.user_profiles
+  WHERE user_id = auth.uid();
+
+  RETURN v_clearance IS NOT NULL AND public.clearance_rank(v_clearance) >= public.clearance_rank(p_level);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.can_access_department(text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.can_view_clearance(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.can_access_department(text) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.can_view_clearance(text) TO authenticated, service_role;
+
+-- 2. Department scoping
+
+DROP POLICY IF EXISTS "Scope personnel to department" ON public.personnel_details;
+CREATE POLICY "Scope personnel to department"
+  ON public.personnel_details
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (public.can_access_department(department))
+  WITH CHECK (public.can_access_department(department));
+
+DROP POLICY IF EXISTS "Scope incidents to department" ON public.incident_reports;
+CREATE POLICY "Scope incidents to department"
+  ON public.incident_reports
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (public.can_access_department(department) OR reporter_user_id = auth.uid())
+  WITH CHECK (public.can_access_department(department) OR reporter_user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Scope travel plans to department" ON public.travel_plans;
+CREATE POLICY "Scope travel plans to department"
+  ON public.travel_plans
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (public.can_access_department(traveler_department) OR traveler_user_id = auth.uid())
+  WITH CHECK (public.can_access_department(traveler_department) OR traveler_user_id = auth.uid());
+
+-- 3. Clearance-masked personnel view
+-- The view runs with its owner's rights so it can read the revoked columns; it repeats the
+-- organization, permission and department checks of the base table's policies
+
+CREATE OR REPLACE VIEW public.personnel_directory
+WITH (security_barrier = true)
+AS
+SELECT
+  p.id,
+  p.organization_id,
+  p.name,
+  p.employee_id,
+  p.category,
+  p.department,
+  p.current_location,
+  p.work_location,
+  p.work_asset_id,
+  CASE WHEN public.can_view_clearance(p.clearance_level) THEN p.date_of_birth END AS date_of_birth,
+  p.clearance_level,
+  CASE WHEN public.can_view_clearance(p.clearance_level) THEN p.emergency_contact END AS emergency_contact,
+  p.travel_status,
+  p.ai_risk_score,
+  p.status,
+  p.last_seen,
+  p.mitigations,
+  p.created_at,
+  p.updated_at,
+  NOT public.can_view_clearance(p.clearance_level) AS sensitive_redacted
+FROM public.personnel_details p
+WHERE p.organization_id = get_my_organization_id()
+  AND public.has_permission('personnel.read')
+  AND public.can_access_department(p.department);
+
+REVOKE ALL ON public.personnel_directory FROM anon, authenticated;
+GRANT SELECT ON public.personnel_directory TO authenticated;
+
+REVOKE SELECT ON public.personnel_details FROM anon, authenticated;
+GRANT SELECT (
+  id,
+  organization_id,
+  name,
+  employee_id,
+  category,
+  department,
+  current_location,
+  work_location,
+  work_asset_id,
+  clearance_level,
+  travel_status,
+  ai_risk_score,
+  status,
+  last_seen,
+  mitigations,
+  created_at,
+  updated_at
+) ON public.personnel_details TO authenticated;
+
+-- 4. Clearance on writes
+
+CREATE OR REPLACE FUNCTION public.protect_personnel_clearance()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT public.can_view_clearance(NEW.clearance_level) THEN
+    RAISE EXCEPTION 'Clearance % is above your own', NEW.clearance_level
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NOT public.can_view_clearance(OLD.clearance_level) THEN
+    RAISE EXCEPTION 'Clearance % is required to edit this record', OLD.clearance_level
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_personnel_clearance ON public.personnel_details;
+CREATE TRIGGER protect_personnel_clearance
+  BEFORE INSERT OR UPDATE ON public.personnel_details
+  FOR EACH ROW EXECUTE FUNCTION public.protect_personnel_clearance();
+
+CREATE OR REPLACE FUNCTION public.protect_user_access_scope()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_my_role text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT role INTO v_my_role FROM public.user_profiles WHERE user_id = auth.uid();
+
+  -- A user moving themselves into another department would gain access to its records
+  IF NEW.department IS DISTINCT FROM OLD.department
+    AND NEW.user_id = auth.uid()
+    AND v_my_role NOT IN ('admin', 'super_admin') THEN
+    RAISE EXCEPTION 'Not allowed to change your own department'
+      USING ERRCODE = '42501';
+  END IF;
+
+  -- Super admins grant any clearance; others need users.update, cannot change their own and cannot exceed it
+  IF NEW.clearance_level IS DISTINCT FROM OLD.clearance_level
+    AND v_my_role IS DISTINCT FROM 'super_admin'
+    AND (
+      NEW.user_id = auth.uid()
+      OR NOT public.has_permission('users.update')
+      OR NOT public.can_view_clearance(NEW.clearance_level)
+      OR NOT public.can_view_clearance(OLD.clearance_level)
+    ) THEN
+    RAISE EXCEPTION 'Not allowed to change this clearance'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_user_access_scope ON public.user_profiles;
+CREATE TRIGGER protect_user_access_scope
+  BEFORE UPDATE OF clearance_level, department ON public.user_profiles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_user_access_scope();
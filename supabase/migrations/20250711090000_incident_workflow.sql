@@ -0,0 +1,203 @@
+/*
+  # Configurable incident workflow
+
+  1. Changes
+    - `incident_reports.status` is no longer limited to Open / In Progress / Closed; valid states come from
+      the organization's workflow in `organizations.settings.incidentWorkflow`, or the default workflow
+      Reported -> Triaged -> Contained -> Eradicated -> Recovered -> Closed -> Reopened
+    - Existing incidents move from Open to Reported and from In Progress to Triaged
+    - `incident_reports.root_cause` and `resolution_summary` can be required by transitions
+  2. Functions
+    - `default_incident_workflow()` mirrors `defaultIncidentWorkflow` in the client
+    - `get_incident_workflow(organization_id)` resolves an organization's workflow. It reads any
+      organization's settings, so only the service role and the enforcement triggers may call it
+  3. Enforcement
+    - New incidents start in the workflow's initial state
+    - Status changes must follow a configured transition, satisfy its required fields and, when the
+      transition lists roles, be made by one of them. Requests without a user (service role) may move
+      between any two states of the workflow
+    - Every transition appends a `status_change` entry to `timeline` and writes an
+      `incident_status_changed` audit log
+*/
+
+ALTER TABLE public.incident_reports
+  ADD COLUMN IF NOT EXISTS root_cause text,
+  ADD COLUMN IF NOT EXISTS resolution_summary text;
+
+-- The original status check constraint is not named in the schema history, so drop whichever exists
+DO $$
+DECLARE
+  v_constraint record;
+BEGIN
+  FOR v_constraint IN
+    SELECT conname
+    FROM pg_constraint
+    WHERE conrelid = 'public.incident_reports'::regclass
+      AND contype = 'c'
+      AND pg_get_constraintdef(oid) ILIKE '%status%'
+  LOOP
+    EXECUTE format('ALTER TABLE public.incident_reports DROP CONSTRAINT %I', v_constraint.conname);
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE public.incident_reports ALTER COLUMN status TYPE text USING status::text;
+ALTER TABLE public.incident_reports ALTER COLUMN status SET DEFAULT 'Reported';
+
+-- 1. Workflow definition
+
+CREATE OR REPLACE FUNCTION public.default_incident_workflow()
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT '{
+    "initialState": "Reported",
+    "states": [
+      { "name": "Reported", "category": "open", "color": "red" },
+      { "name": "Triaged", "category": "active", "color": "orange" },
+      { "name": "Contained", "category": "active", "color": "yellow" },
+      { "name": "Eradicated", "category": "active", "color": "blue" },
+      { "name": "Recovered", "category": "active", "color": "purple" },
+      { "name": "Closed", "category": "closed", "color": "green" },
+      { "name": "Reopened", "category": "open", "color": "red" }
+    ],
+    "transitions": [
+      { "from": "Reported", "to": "Triaged", "requiredFields": [], "allowedRoles": [] },
+      { "from": "Triaged", "to": "Contained", "requiredFields": ["assigned_to"], "allowedRoles": [] },
+      { "from": "Triaged", "to": "Closed", "requiredFields": ["root_cause", "resolution_summary"], "allowedRoles": ["manager", "admin", "super_admin"] },
+      { "from": "Contained", "to": "Eradicated", "requiredFields": [], "allowedRoles": [] },
+      { "from": "Eradicated", "to": "Recovered", "requiredFields": [], "allowedRoles": [] },
+      { "from": "Recovered", "to": "Closed", "requiredFields": ["root_cause", "resolution_summary"], "allowedRoles": ["manager", "admin", "super_admin"] },
+      { "from": "Closed", "to": "Reopened", "requiredFields": [], "allowedRoles": ["admin", "super_admin"] },
+      { "from": "Reopened", "to": "Triaged", "requiredFields": [], "allowedRoles": [] }
+    ]
+  }'::jsonb;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_incident_workflow(p_organization_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT settings -> 'incidentWorkflow'
+      FROM public.organizations
+      WHERE id = p_organization_id
+        AND jsonb_typeof(settings #> '{incidentWorkflow,states}') = 'array'
+        AND jsonb_array_length(settings #> '{incidentWorkflow,states}') > 0
+    ),
+    public.default_incident_workflow()
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_incident_workflow(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_incident_workflow(uuid) TO service_role;
+
+UPDATE public.incident_reports SET status = 'Reported' WHERE status = 'Open';
+UPDATE public.incident_reports SET status = 'Triaged' WHERE status = 'In Progress';
+
+-- 2. Transition enforcement
+
+CREATE OR REPLACE FUNCTION public.enforce_incident_workflow()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_workflow jsonb;
+  v_transition jsonb;
+  v_field text;
+  v_role text;
+  v_actor text;
+BEGIN
+  v_workflow := public.get_incident_workflow(NEW.organization_id);
+
+  IF NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_workflow -> 'states') AS state
+    WHERE state ->> 'name' = NEW.status
+  ) THEN
+    RAISE EXCEPTION 'Unknown incident status %', NEW.status
+      USING ERRCODE = '23514';
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF auth.uid() IS NOT NULL AND NEW.status <> v_workflow ->> 'initialState' THEN
+      RAISE EXCEPTION 'New incidents must start in %', v_workflow ->> 'initialState'
+        USING ERRCODE = '23514';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT role, full_name INTO v_role, v_actor
+  FROM public.user_profiles
+  WHERE user_id = auth.uid();
+
+  IF auth.uid() IS NOT NULL THEN
+    SELECT transition INTO v_transition
+    FROM jsonb_array_elements(v_workflow -> 'transitions') AS transition
+    WHERE transition ->> 'from' = OLD.status
+      AND transition ->> 'to' = NEW.status
+    LIMIT 1;
+
+    IF v_transition IS NULL THEN
+      RAISE EXCEPTION 'Incidents cannot move from % to %', OLD.status, NEW.status
+        USING ERRCODE = '23514';
+    END IF;
+
+    IF jsonb_array_length(COALESCE(v_transition -> 'allowedRoles', '[]'::jsonb)) > 0
+      AND NOT (COALESCE(v_transition -> 'allowedRoles', '[]'::jsonb) ? v_role) THEN
+      RAISE EXCEPTION 'Your role cannot move incidents from % to %', OLD.status, NEW.status
+        USING ERRCODE = '42501';
+    END IF;
+
+    FOR v_field IN
+      SELECT jsonb_array_elements_text(COALESCE(v_transition -> 'requiredFields', '[]'::jsonb))
+    LOOP
+      IF NULLIF(btrim(to_jsonb(NEW) ->> v_field), '') IS NULL THEN
+        RAISE EXCEPTION 'Field % is required to move to %', v_field, NEW.status
+          USING ERRCODE = '23502', HINT = v_field;
+      END IF;
+    END LOOP;
+  END IF;
+
+  NEW.timeline := COALESCE(NEW.timeline, '[]'::jsonb) || jsonb_build_array(jsonb_build_object(
+    'type', 'status_change',
+    'timestamp', now(),
+    'action', format('Status changed from %s to %s', OLD.status, NEW.status),
+    'user', COALESCE(v_actor, 'System'),
+    'user_id', auth.uid(),
+    'from', OLD.status,
+    'to', NEW.status
+  ));
+
+  INSERT INTO public.audit_logs (user_id, organization_id, action, resource_type, resource_id, details)
+  VALUES (
+    auth.uid(),
+    NEW.organization_id,
+    'incident_status_changed',
+    'incident',
+    NEW.id,
+    jsonb_build_object(
+      'incident_title', NEW.title,
+      'from', OLD.status,
+      'to', NEW.status
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_incident_workflow ON public.incident_reports;
+CREATE TRIGGER enforce_incident_workflow
+  BEFORE INSERT OR UPDATE OF status ON public.incident_reports
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_incident_workflow();
@@ -0,0 +1,176 @@
+/*
+  # Incident SLA timers
+
+  1. Changes
+    - `incident_reports` records when an incident was acknowledged, assigned and resolved
+      (`acknowledged_at`, `acknowledged_by`, `assigned_at`, `resolved_at`) and when each is due
+      (`acknowledge_due_at`, `assign_due_at`, `resolve_due_at`)
+    - `sla_breaches` lists the targets the `incident-sla` function found breached, and
+      `escalation_level` counts how often the incident was escalated
+  2. Functions
+    - `default_incident_sla_policy()` mirrors `defaultIncidentSlaPolicy` in the client; organizations
+      override it per severity in `organizations.settings.incidentSla`
+    - `get_incident_sla_policy(organization_id)` resolves an organization's policy. Like
+      `get_incident_workflow` it is limited to the service role and the triggers that use it
+  3. Enforcement
+    - Due timestamps are computed from `created_at` and the policy for the incident's severity, and are
+      recomputed when the severity changes. Users cannot set `created_at`: it is the time of the insert
+      and never changes afterwards
+    - An incident is acknowledged by setting `acknowledged_by` or by its first status change, assigned
+      when `assigned_to` is first set, and resolved when it enters a closed state of the workflow.
+      Reopening clears `resolved_at`
+    - Only requests without a user (the `incident-sla` function) can change `sla_breaches` and
+      `escalation_level`, and nobody can move the timestamps by hand
+*/
+
+ALTER TABLE public.incident_reports
+  ADD COLUMN IF NOT EXISTS acknowledged_at timestamptz,
+  ADD COLUMN IF NOT EXISTS acknowledged_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS assigned_at timestamptz,
+  ADD COLUMN IF NOT EXISTS resolved_at timestamptz,
+  ADD COLUMN IF NOT EXISTS acknowledge_due_at timestamptz,
+  ADD COLUMN IF NOT EXISTS assign_due_at timestamptz,
+  ADD COLUMN IF NOT EXISTS resolve_due_at timestamptz,
+  ADD COLUMN IF NOT EXISTS sla_breaches jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS escalation_level integer NOT NULL DEFAULT 0;
+
+-- The incident-sla function scans unresolved incidents by due time
+CREATE INDEX IF NOT EXISTS incident_reports_unresolved_idx
+  ON public.incident_reports (organization_id, resolve_due_at)
+  WHERE resolved_at IS NULL;
+
+-- 1. Policy
+
+CREATE OR REPLACE FUNCTION public.default_incident_sla_policy()
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT '{
+    "Critical": { "acknowledgeMinutes": 15, "assignMinutes": 30, "resolveMinutes": 240 },
+    "High": { "acknowledgeMinutes": 60, "assignMinutes": 120, "resolveMinutes": 1440 },
+    "Medium": { "acknowledgeMinutes": 240, "assignMinutes": 480, "resolveMinutes": 4320 },
+    "Low": { "acknowledgeMinutes": 1440, "assignMinutes": 2880, "resolveMinutes": 10080 }
+  }'::jsonb;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_incident_sla_policy(p_organization_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.default_incident_sla_policy() || COALESCE(
+    (
+      SELECT settings -> 'incidentSla'
+      FROM public.organizations
+      WHERE id = p_organization_id
+        AND jsonb_typeof(settings -> 'incidentSla') = 'object'
+    ),
+    '{}'::jsonb
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_incident_sla_policy(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_incident_sla_policy(uuid) TO service_role;
+
+-- Existing incidents get timers from their creation time. Incidents that already left the initial state
+-- count as acknowledged, assigned ones as assigned and closed ones as resolved, all as of their last update
+UPDATE public.incident_reports i
+SET
+  acknowledge_due_at = i.created_at + make_interval(mins => (p.target ->> 'acknowledgeMinutes')::integer),
+  assign_due_at = i.created_at + make_interval(mins => (p.target ->> 'assignMinutes')::integer),
+  resolve_due_at = i.created_at + make_interval(mins => (p.target ->> 'resolveMinutes')::integer),
+  acknowledged_at = CASE WHEN i.status <> p.workflow ->> 'initialState' THEN i.updated_at END,
+  assigned_at = CASE WHEN NULLIF(btrim(i.assigned_to), '') IS NOT NULL THEN i.updated_at END,
+  resolved_at = CASE WHEN EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p.workflow -> 'states') AS state
+    WHERE state ->> 'name' = i.status AND state ->> 'category' = 'closed'
+  ) THEN i.updated_at END
+FROM (
+  SELECT
+    id,
+    public.get_incident_sla_policy(organization_id) -> severity::text AS target,
+    public.get_incident_workflow(organization_id) AS workflow
+  FROM public.incident_reports
+) p
+WHERE p.id = i.id
+  AND i.acknowledge_due_at IS NULL;
+
+-- 2. Timers
+
+CREATE OR REPLACE FUNCTION public.maintain_incident_sla()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_target jsonb;
+  v_closed boolean;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    -- Timestamps only move forward through the rules below
+    NEW.acknowledged_at := OLD.acknowledged_at;
+    NEW.assigned_at := OLD.assigned_at;
+    NEW.resolved_at := OLD.resolved_at;
+    NEW.acknowledge_due_at := OLD.acknowledge_due_at;
+    NEW.assign_due_at := OLD.assign_due_at;
+    NEW.resolve_due_at := OLD.resolve_due_at;
+    NEW.created_at := OLD.created_at;
+
+    IF NEW.acknowledged_by IS DISTINCT FROM OLD.acknowledged_by AND OLD.acknowledged_at IS NULL THEN
+      NEW.acknowledged_at := now();
+      NEW.acknowledged_by := COALESCE(auth.uid(), NEW.acknowledged_by);
+    ELSE
+      NEW.acknowledged_by := OLD.acknowledged_by;
+    END IF;
+
+    IF auth.uid() IS NOT NULL THEN
+      NEW.sla_breaches := OLD.sla_breaches;
+      NEW.escalation_level := OLD.escalation_level;
+    END IF;
+  ELSE
+    NEW.acknowledged_at := NULL;
+    NEW.acknowledged_by := NULL;
+    NEW.assigned_at := NULL;
+    NEW.resolved_at := NULL;
+    NEW.sla_breaches := '[]'::jsonb;
+    NEW.escalation_level := 0;
+    -- Only requests without a user (edge functions, imports) may backdate an incident
+    NEW.created_at := CASE WHEN auth.uid() IS NULL THEN COALESCE(NEW.created_at, now()) ELSE now() END;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.severity IS DISTINCT FROM OLD.severity THEN
+    v_target := public.get_incident_sla_policy(NEW.organization_id) -> NEW.severity::text;
+    NEW.acknowledge_due_at := NEW.created_at + make_interval(mins => (v_target ->> 'acknowledgeMinutes')::integer);
+    NEW.assign_due_at := NEW.created_at + make_interval(mins => (v_target ->> 'assignMinutes')::integer);
+    NEW.resolve_due_at := NEW.created_at + make_interval(mins => (v_target ->> 'resolveMinutes')::integer);
+  END IF;
+
+  IF NULLIF(btrim(NEW.assigned_to), '') IS NOT NULL AND NEW.assigned_at IS NULL THEN
+    NEW.assigned_at := now();
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.acknowledged_at IS NULL THEN
+      NEW.acknowledged_at := now();
+      NEW.acknowledged_by := auth.uid();
+    END IF;
+
+    SELECT state ->> 'category' = 'closed' INTO v_closed
+    FROM jsonb_array_elements(public.get_incident_workflow(NEW.organization_id) -> 'states') AS state
+    WHERE state ->> 'name' = NEW.status;
+
+    NEW.resolved_at := CASE WHEN COALESCE(v_closed, false) THEN COALESCE(NEW.resolved_at, now()) END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS maintain_incident_sla ON public.incident_reports;
+CREATE TRIGGER maintain_incident_sla
+  BEFORE INSERT OR UPDATE ON public.incident_reports
+  FOR EACH ROW EXECUTE FUNCTION public.maintain_incident_sla();
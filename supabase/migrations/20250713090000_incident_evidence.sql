@@ -0,0 +1,93 @@
+/*
+  # Incident evidence
+
+  1. Storage
+    - Private `incident-evidence` bucket for photos, PDFs and video up to 100 MB. Objects live under
+      `<organization_id>/<incident_id>/<evidence_id>/`, next to an optional `thumbnail.jpg`
+    - Users who can create or update incidents may upload into their organization's folder for an
+      incident they can see. Nobody reads, replaces or removes objects directly; the
+      `incident-evidence` function hands out short-lived signed URLs and deletes files
+  2. New Tables
+    - `incident_evidence` records each file with the SHA-256 the `incident-evidence` function computed
+      from the stored object at registration, for chain of custody
+  3. Security
+    - Evidence is visible to whoever can see its incident and cannot be edited. Deleting evidence needs
+      `incidents.delete` and a recent re-authentication
+    - An incident cannot be deleted while evidence is attached, so files are never orphaned
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'incident-evidence',
+  'incident-evidence',
+  false,
+  104857600,
+  ARRAY['image/*', 'application/pdf', 'video/*']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- 1. Evidence records
+
+CREATE TABLE IF NOT EXISTS public.incident_evidence (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  -- NO ACTION rather than RESTRICT so deleting a whole organization, which cascades to both tables, still works
+  incident_id uuid NOT NULL REFERENCES public.incident_reports(id) ON DELETE NO ACTION,
+  storage_path text NOT NULL UNIQUE,
+  thumbnail_path text,
+  file_name text NOT NULL,
+  content_type text NOT NULL,
+  size_bytes bigint NOT NULL CHECK (size_bytes >= 0),
+  sha256 text NOT NULL CHECK (sha256 ~ '^[0-9a-f]{64}$'),
+  description text,
+  uploaded_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  uploaded_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS incident_evidence_incident_idx ON public.incident_evidence (incident_id);
+
+ALTER TABLE public.incident_evidence ENABLE ROW LEVEL SECURITY;
+
+-- Reading goes through incident_reports, so its organization, permission and department policies apply
+DROP POLICY IF EXISTS "Users can read evidence of visible incidents" ON public.incident_evidence;
+CREATE POLICY "Users can read evidence of visible incidents"
+  ON public.incident_evidence
+  FOR SELECT
+  TO authenticated
+  USING (
+    organization_id = get_my_organization_id()
+    AND EXISTS (SELECT 1 FROM public.incident_reports i WHERE i.id = incident_id)
+  );
+
+DROP POLICY IF EXISTS "Incident deleters can delete evidence" ON public.incident_evidence;
+CREATE POLICY "Incident deleters can delete evidence"
+  ON public.incident_evidence
+  FOR DELETE
+  TO authenticated
+  USING (
+    organization_id = get_my_organization_id()
+    AND has_permission('incidents.delete')
+    AND EXISTS (SELECT 1 FROM public.incident_reports i WHERE i.id = incident_id)
+  );
+
+DROP TRIGGER IF EXISTS reauth_incident_evidence_delete ON public.incident_evidence;
+CREATE TRIGGER reauth_incident_evidence_delete
+  BEFORE DELETE ON public.incident_evidence
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_reauth('incidents.delete');
+
+-- 2. Storage access
+
+DROP POLICY IF EXISTS "Incident editors can upload evidence" ON storage.objects;
+CREATE POLICY "Incident editors can upload evidence"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'incident-evidence'
+    AND (storage.foldername(name))[1] = get_my_organization_id()::text
+    AND (public.has_permission('incidents.create') OR public.has_permission('incidents.update'))
+    AND EXISTS (
+      SELECT 1 FROM public.incident_reports i
+      WHERE i.id::text = (storage.foldername(name))[2]
+    )
+  );
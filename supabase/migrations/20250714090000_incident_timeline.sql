@@ -0,0 +1,315 @@
+/*
+  # Structured incident timeline
+
+  1. Changes
+    - Every `incident_reports.timeline` entry has an `id` and a `type`: status_change, note,
+      action_taken, evidence_added, assignment, external_contact or sla_breach. Existing entries get
+      ids, and entries written before types existed become notes
+    - New incidents start with a `status_change` entry into the initial state, and changes to
+      `assigned_to` append an `assignment` entry
+  2. Functions
+    - `add_incident_timeline_entry(incident_id, type, body, mentions, contact, corrects)` appends a
+      note, action taken or external contact as the caller. Mentions are kept only for users of the
+      caller's organization
+    - `append_incident_timeline_entry(incident_id, entry)` appends a system entry for edge functions
+  3. Security
+    - The timeline is append-only. Direct writes from users are ignored, entries are never edited or
+      removed, and a correction is a new entry whose `corrects` points at an earlier entry by the
+      same author
+*/
+
+-- 1. Existing entries
+
+UPDATE public.incident_reports
+SET timeline = (
+  SELECT COALESCE(jsonb_agg(
+    CASE
+      WHEN entry ? 'type' THEN entry
+      ELSE entry || jsonb_build_object('type', 'note', 'body', entry ->> 'action', 'user_id', NULL)
+    END || jsonb_build_object('id', COALESCE(entry ->> 'id', gen_random_uuid()::text))
+    ORDER BY position
+  ), '[]'::jsonb)
+  FROM jsonb_array_elements(timeline) WITH ORDINALITY AS entries(entry, position)
+)
+WHERE jsonb_typeof(timeline) = 'array';
+
+UPDATE public.incident_reports SET timeline = '[]'::jsonb WHERE timeline IS NULL;
+
+-- 2. Append-only enforcement
+
+CREATE OR REPLACE FUNCTION public.enforce_incident_timeline()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor text;
+BEGIN
+  SELECT full_name INTO v_actor FROM public.user_profiles WHERE user_id = auth.uid();
+
+  IF TG_OP = 'INSERT' THEN
+    IF auth.uid() IS NOT NULL OR jsonb_array_length(COALESCE(NEW.timeline, '[]'::jsonb)) = 0 THEN
+      NEW.timeline := jsonb_build_array(jsonb_build_object(
+        'id', gen_random_uuid(),
+        'type', 'status_change',
+        'timestamp', now(),
+        'action', 'Incident reported',
+        'user', COALESCE(v_actor, NEW.reporter_name, 'System'),
+        'user_id', auth.uid(),
+        'from', NULL,
+        'to', NEW.status
+      ));
+    END IF;
+  ELSIF auth.uid() IS NOT NULL
+    AND COALESCE(current_setting('app.incident_timeline_append', true), '') <> 'on' THEN
+    -- Only add_incident_timeline_entry may add entries on behalf of a user
+    NEW.timeline := OLD.timeline;
+  END IF;
+
+  IF NEW.assigned_to IS DISTINCT FROM (CASE WHEN TG_OP = 'UPDATE' THEN OLD.assigned_to END) THEN
+    -- assigned_to holds the assignee's display name, not a user id
+    NEW.timeline := NEW.timeline || jsonb_build_array(jsonb_build_object(
+      'id', gen_random_uuid(),
+      'type', 'assignment',
+      'timestamp', now(),
+      'action', CASE WHEN NEW.assigned_to IS NULL THEN 'Incident unassigned'
+                     ELSE format('Assigned to %s', NEW.assigned_to) END,
+      'user', COALESCE(v_actor, 'System'),
+      'user_id', auth.uid(),
+      'from', CASE WHEN TG_OP = 'UPDATE' THEN OLD.assigned_to END,
+      'to', NEW.assigned_to,
+      'assignee', NEW.assigned_to
+    ));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Named to fire before enforce_incident_workflow, which appends status changes after this check
+DROP TRIGGER IF EXISTS enforce_incident_timeline ON public.incident_reports;
+CREATE TRIGGER enforce_incident_timeline
+  BEFORE INSERT OR UPDATE ON public.incident_reports
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_incident_timeline();
+
+-- Status change entries now carry an id like every other entry
+CREATE OR REPLACE FUNCTION public.enforce_incident_workflow()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_workflow jsonb;
+  v_transition jsonb;
+  v_field text;
+  v_role text;
+  v_actor text;
+BEGIN
+  v_workflow := public.get_incident_workflow(NEW.organization_id);
+
+  IF NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_workflow -> 'states') AS state
+    WHERE state ->> 'name' = NEW.status
+  ) THEN
+    RAISE EXCEPTION 'Unknown incident status %', NEW.status
+      USING ERRCODE = '23514';
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF auth.uid() IS NOT NULL AND NEW.status <> v_workflow ->> 'initialState' THEN
+      RAISE EXCEPTION 'New incidents must start in %', v_workflow ->> 'initialState'
+        USING ERRCODE = '23514';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT role, full_name INTO v_role, v_actor
+  FROM public.user_profiles
+  WHERE user_id = auth.uid();
+
+  IF auth.uid() IS NOT NULL THEN
+    SELECT transition INTO v_transition
+    FROM jsonb_array_elements(v_workflow -> 'transitions') AS transition
+    WHERE transition ->> 'from' = OLD.status
+      AND transition ->> 'to' = NEW.status
+    LIMIT 1;
+
+    IF v_transition IS NULL THEN
+      RAISE EXCEPTION 'Incidents cannot move from % to %', OLD.status, NEW.status
+        USING ERRCODE = '23514';
+    END IF;
+
+    IF jsonb_array_length(COALESCE(v_transition -> 'allowedRoles', '[]'::jsonb)) > 0
+      AND NOT (COALESCE(v_transition -> 'allowedRoles', '[]'::jsonb) ? v_role) THEN
+      RAISE EXCEPTION 'Your role cannot move incidents from % to %', OLD.status, NEW.status
+        USING ERRCODE = '42501';
+    END IF;
+
+    FOR v_field IN
+      SELECT jsonb_array_elements_text(COALESCE(v_transition -> 'requiredFields', '[]'::jsonb))
+    LOOP
+      IF NULLIF(btrim(to_jsonb(NEW) ->> v_field), '') IS NULL THEN
+        RAISE EXCEPTION 'Field % is required to move to %', v_field, NEW.status
+          USING ERRCODE = '23502', HINT = v_field;
+      END IF;
+    END LOOP;
+  END IF;
+
+  NEW.timeline := COALESCE(NEW.timeline, '[]'::jsonb) || jsonb_build_array(jsonb_build_object(
+    'id', gen_random_uuid(),
+    'type', 'status_change',
+    'timestamp', now(),
+    'action', format('Status changed from %s to %s', OLD.status, NEW.status),
+    'user', COALESCE(v_actor, 'System'),
+    'user_id', auth.uid(),
+    'from', OLD.status,
+    'to', NEW.status
+  ));
+
+  INSERT INTO public.audit_logs (user_id, organization_id, action, resource_type, resource_id, details)
+  VALUES (
+    auth.uid(),
+    NEW.organization_id,
+    'incident_status_changed',
+    'incident',
+    NEW.id,
+    jsonb_build_object(
+      'incident_title', NEW.title,
+      'from', OLD.status,
+      'to', NEW.status
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- 3. Adding entries
+
+-- Runs as the caller, so the incident update policies decide who may add to a timeline
+CREATE OR REPLACE FUNCTION public.add_incident_timeline_entry(
+  p_incident_id uuid,
+  p_type text,
+  p_body text,
+  p_mentions uuid[] DEFAULT '{}',
+  p_contact text DEFAULT NULL,
+  p_corrects uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_timeline jsonb;
+  v_corrected jsonb;
+  v_actor text;
+  v_mentions jsonb;
+  v_entry jsonb;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_type NOT IN ('note', 'action_taken', 'external_contact') THEN
+    RAISE EXCEPTION 'Timeline entries of type % are recorded automatically', p_type
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF NULLIF(btrim(p_body), '') IS NULL THEN
+    RAISE EXCEPTION 'Timeline entries need a description' USING ERRCODE = '23502';
+  END IF;
+
+  SELECT timeline INTO v_timeline
+  FROM public.incident_reports
+  WHERE id = p_incident_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Incident not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_corrects IS NOT NULL THEN
+    SELECT entry INTO v_corrected
+    FROM jsonb_array_elements(v_timeline) AS entry
+    WHERE entry ->> 'id' = p_corrects::text;
+
+    IF v_corrected IS NULL THEN
+      RAISE EXCEPTION 'The entry being corrected does not exist' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_corrected ->> 'user_id' IS DISTINCT FROM auth.uid()::text OR v_corrected ->> 'type' <> p_type THEN
+      RAISE EXCEPTION 'You can only correct your own entries, keeping their type'
+        USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  SELECT full_name INTO v_actor FROM public.user_profiles WHERE user_id = auth.uid();
+
+  SELECT COALESCE(jsonb_agg(user_id), '[]'::jsonb) INTO v_mentions
+  FROM public.user_profiles
+  WHERE organization_id = get_my_organization_id()
+    AND user_id = ANY(COALESCE(p_mentions, '{}'));
+
+  v_entry := jsonb_build_object(
+    'id', gen_random_uuid(),
+    'type', p_type,
+    'timestamp', now(),
+    'action', CASE p_type
+                WHEN 'note' THEN 'Note added'
+                WHEN 'action_taken' THEN 'Action taken'
+                ELSE format('Contacted %s', COALESCE(NULLIF(btrim(p_contact), ''), 'external party'))
+              END || CASE WHEN p_corrects IS NOT NULL THEN ' (correction)' ELSE '' END,
+    'user', COALESCE(v_actor, 'Unknown'),
+    'user_id', auth.uid(),
+    'body', btrim(p_body),
+    'mentions', v_mentions,
+    'contact', NULLIF(btrim(p_contact), ''),
+    'corrects', p_corrects
+  );
+
+  PERFORM set_config('app.incident_timeline_append', 'on', true);
+
+  UPDATE public.incident_reports
+  SET timeline = COALESCE(timeline, '[]'::jsonb) || jsonb_build_array(v_entry)
+  WHERE id = p_incident_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You do not have permission to update this incident' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM set_config('app.incident_timeline_append', 'off', true);
+
+  RETURN v_entry;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.add_incident_timeline_entry(uuid, text, text, uuid[], text, uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.append_incident_timeline_entry(p_incident_id uuid, p_entry jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry jsonb;
+BEGIN
+  v_entry := jsonb_build_object('id', gen_random_uuid(), 'timestamp', now(), 'user', 'System', 'user_id', NULL)
+    || p_entry;
+
+  UPDATE public.incident_reports
+  SET timeline = COALESCE(timeline, '[]'::jsonb) || jsonb_build_array(v_entry)
+  WHERE id = p_incident_id;
+
+  RETURN v_entry;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.append_incident_timeline_entry(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.append_incident_timeline_entry(uuid, jsonb) TO service_role;
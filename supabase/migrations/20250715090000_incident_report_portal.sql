@@ -0,0 +1,163 @@
+/*
+  # Public incident reporting portal
+
+  1. Changes
+    - `incident_reports.source` is `internal` for reports filed by users and `portal` for reports
+      submitted through an organization's public report URL
+    - `incident_reports.verified` is false for portal reports until someone triages them, which
+      stamps `verified_at` and `verified_by`
+    - `incident_reports.reporter_anonymous` marks portal reports submitted without contact details
+    - `incident_reports.tracking_code_hash` stores the SHA-256 of the tracking code the reporter uses
+      to check the status of a portal report
+  2. New Tables
+    - `incident_portal_requests` counts portal submissions and status checks per hashed client address
+      for rate limiting
+  3. Functions
+    - `register_portal_request(organization_id, client_hash, kind, max_requests, window_minutes)`
+      records a request and returns whether it is within the limit
+    - `find_incident_portal(token)` resolves an enabled portal token to its organization
+  4. Security
+    - Portal fields are written by the `incident-portal` function only; users can only verify a report
+    - The portal tables and functions are for the service role
+*/
+
+ALTER TABLE public.incident_reports
+  ADD COLUMN IF NOT EXISTS source text NOT NULL DEFAULT 'internal' CHECK (source IN ('internal', 'portal')),
+  ADD COLUMN IF NOT EXISTS verified boolean NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS verified_at timestamptz,
+  ADD COLUMN IF NOT EXISTS verified_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS reporter_anonymous boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS tracking_code_hash text UNIQUE;
+
+CREATE INDEX IF NOT EXISTS incident_reports_unverified_idx
+  ON public.incident_reports (organization_id)
+  WHERE NOT verified;
+
+-- 1. Portal fields
+
+CREATE OR REPLACE FUNCTION public.protect_incident_portal_fields()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.source := 'internal';
+    NEW.verified := true;
+    NEW.verified_at := NULL;
+    NEW.verified_by := NULL;
+    NEW.reporter_anonymous := false;
+    NEW.tracking_code_hash := NULL;
+    RETURN NEW;
+  END IF;
+
+  NEW.source := OLD.source;
+  NEW.reporter_anonymous := OLD.reporter_anonymous;
+  NEW.tracking_code_hash := OLD.tracking_code_hash;
+
+  -- Verifying is one way and records who triaged the report
+  IF NEW.verified AND NOT OLD.verified THEN
+    NEW.verified_at := now();
+    NEW.verified_by := auth.uid();
+  ELSE
+    NEW.verified := OLD.verified;
+    NEW.verified_at := OLD.verified_at;
+    NEW.verified_by := OLD.verified_by;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_incident_portal_fields ON public.incident_reports;
+CREATE TRIGGER protect_incident_portal_fields
+  BEFORE INSERT OR UPDATE ON public.incident_reports
+  FOR EACH ROW EXECUTE FUNCTION public.protect_incident_portal_fields();
+
+-- 2. Rate limiting
+
+CREATE TABLE IF NOT EXISTS public.incident_portal_requests (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  client_hash text NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('submit', 'status')),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS incident_portal_requests_lookup_idx
+  ON public.incident_portal_requests (organization_id, client_hash, kind, created_at);
+
+ALTER TABLE public.incident_portal_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.register_portal_request(
+  p_organization_id uuid,
+  p_client_hash text,
+  p_kind text,
+  p_max_requests integer,
+  p_window_minutes integer
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_recent integer;
+BEGIN
+  -- Serialize requests from the same client so concurrent ones cannot all slip under the limit
+  PERFORM pg_advisory_xact_lock(hashtext(p_organization_id::text || p_client_hash || p_kind));
+
+  DELETE FROM public.incident_portal_requests
+  WHERE created_at < now() - interval '1 day';
+
+  SELECT count(*) INTO v_recent
+  FROM public.incident_portal_requests
+  WHERE organization_id = p_organization_id
+    AND client_hash = p_client_hash
+    AND kind = p_kind
+    AND created_at > now() - make_interval(mins => p_window_minutes);
+
+  IF v_recent >= p_max_requests THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.incident_portal_requests (organization_id, client_hash, kind)
+  VALUES (p_organization_id, p_client_hash, p_kind);
+
+  RETURN true;
+END;
+$$;
+
+-- 3. Portal lookup
+
+CREATE OR REPLACE FUNCTION public.find_incident_portal(p_token text)
+RETURNS TABLE (organization_id uuid, organization_name text, allow_anonymous boolean, departments jsonb)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    o.id,
+    o.name,
+    COALESCE((o.settings #>> '{incidentPortal,allowAnonymous}')::boolean, false),
+    COALESCE(
+      (SELECT jsonb_agg(department ->> 'name') FROM jsonb_array_elements(o.settings #> '{departments,list}') AS department),
+      '[]'::jsonb
+    )
+  FROM public.organizations o
+  WHERE length(p_token) >= 32
+    AND o.settings #>> '{incidentPortal,token}' = p_token
+    AND COALESCE((o.settings #>> '{incidentPortal,enabled}')::boolean, false)
+  LIMIT 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.register_portal_request(uuid, text, text, integer, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.find_incident_portal(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.register_portal_request(uuid, text, text, integer, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION public.find_incident_portal(text) TO service_role;
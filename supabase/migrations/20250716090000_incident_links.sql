@@ -0,0 +1,259 @@
+/*
+  # Incident links and merging
+
+  1. New Tables
+    - `incident_links` relates two incidents of an organization as `duplicate_of`, `related_to`,
+      `caused_by` or `part_of_campaign`, read from source to target
+  2. Changes
+    - `incident_reports.merged_into` and `merged_at` mark an incident that was merged into another.
+      The merged incident stays readable and acts as a redirect to the master record
+  3. Functions
+    - `merge_incidents(master_id, duplicate_ids)` combines the timelines, involved parties and
+      personnel, documents and mitigations of the duplicates into the master, links each duplicate
+      as `duplicate_of` the master and marks it merged. Evidence stays with the incident it was
+      submitted for
+  4. Security
+    - Links can be read when both incidents are visible; adding or removing them and merging needs
+      `incidents.update`
+    - `merged_into` and `merged_at` can only be set through `merge_incidents`
+*/
+
+-- 1. Links
+
+CREATE TABLE IF NOT EXISTS public.incident_links (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  source_incident_id uuid NOT NULL REFERENCES public.incident_reports(id) ON DELETE CASCADE,
+  target_incident_id uuid NOT NULL REFERENCES public.incident_reports(id) ON DELETE CASCADE,
+  link_type text NOT NULL CHECK (link_type IN ('duplicate_of', 'related_to', 'caused_by', 'part_of_campaign')),
+  note text,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (source_incident_id <> target_incident_id),
+  UNIQUE (source_incident_id, target_incident_id, link_type)
+);
+
+CREATE INDEX IF NOT EXISTS incident_links_target_idx ON public.incident_links (target_incident_id);
+
+ALTER TABLE public.incident_links ENABLE ROW LEVEL SECURITY;
+
+-- The incident subqueries run under the incident_reports policies, so both ends must be visible
+DROP POLICY IF EXISTS "Users can read links between visible incidents" ON public.incident_links;
+CREATE POLICY "Users can read links between visible incidents"
+  ON public.incident_links
+  FOR SELECT
+  TO authenticated
+  USING (
+    organization_id = get_my_organization_id()
+    AND EXISTS (SELECT 1 FROM public.incident_reports i WHERE i.id = source_incident_id)
+    AND EXISTS (SELECT 1 FROM public.incident_reports i WHERE i.id = target_incident_id)
+  );
+
+DROP POLICY IF EXISTS "Incident editors can link incidents" ON public.incident_links;
+CREATE POLICY "Incident editors can link incidents"
+  ON public.incident_links
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    organization_id = get_my_organization_id()
+    AND has_permission('incidents.update')
+    AND created_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM public.incident_reports i
+      WHERE i.id = source_incident_id AND i.organization_id = get_my_organization_id()
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.incident_reports i
+      WHERE i.id = target_incident_id AND i.organization_id = get_my_organization_id()
+    )
+  );
+
+DROP POLICY IF EXISTS "Incident editors can unlink incidents" ON public.incident_links;
+CREATE POLICY "Incident editors can unlink incidents"
+  ON public.incident_links
+  FOR DELETE
+  TO authenticated
+  USING (
+    organization_id = get_my_organization_id()
+    AND has_permission('incidents.update')
+  );
+
+-- 2. Merged incidents
+
+ALTER TABLE public.incident_reports
+  ADD COLUMN IF NOT EXISTS merged_into uuid REFERENCES public.incident_reports(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS merged_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS incident_reports_merged_into_idx
+  ON public.incident_reports (merged_into)
+  WHERE merged_into IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.protect_incident_merge()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR COALESCE(current_setting('app.incident_merge', true), '') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.merged_into := NULL;
+    NEW.merged_at := NULL;
+  ELSE
+    NEW.merged_into := OLD.merged_into;
+    NEW.merged_at := OLD.merged_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_incident_merge ON public.incident_reports;
+CREATE TRIGGER protect_incident_merge
+  BEFORE INSERT OR UPDATE ON public.incident_reports
+  FOR EACH ROW EXECUTE FUNCTION public.protect_incident_merge();
+
+-- 3. Merging
+
+-- Runs as the caller, so the incident policies decide which incidents can be read and updated
+CREATE OR REPLACE FUNCTION public.merge_incidents(p_master_id uuid, p_duplicate_ids uuid[])
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_master public.incident_reports%ROWTYPE;
+  v_duplicate public.incident_reports%ROWTYPE;
+  v_actor text;
+  v_timeline jsonb;
+  v_mitigations jsonb;
+  v_count integer := 0;
+BEGIN
+  IF auth.uid() IS NULL OR NOT has_permission('incidents.update') THEN
+    RAISE EXCEPTION 'You do not have permission to merge incidents' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_duplicate_ids IS NULL OR cardinality(p_duplicate_ids) = 0 OR p_master_id = ANY(p_duplicate_ids) THEN
+    RAISE EXCEPTION 'Choose one or more other incidents to merge' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_master FROM public.incident_reports WHERE id = p_master_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Incident not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_master.merged_into IS NOT NULL THEN
+    RAISE EXCEPTION 'This incident was itself merged into another incident' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT full_name INTO v_actor FROM public.user_profiles WHERE user_id = auth.uid();
+
+  v_timeline := COALESCE(v_master.timeline, '[]'::jsonb);
+  v_mitigations := COALESCE(v_master.mitigations, '[]'::jsonb);
+
+  PERFORM set_config('app.incident_timeline_append', 'on', true);
+  PERFORM set_config('app.incident_merge', 'on', true);
+
+  FOR v_duplicate IN
+    SELECT * FROM public.incident_reports
+    WHERE id = ANY(p_duplicate_ids)
+    ORDER BY date_time
+    FOR UPDATE
+  LOOP
+    IF v_duplicate.organization_id <> v_master.organization_id OR v_duplicate.merged_into IS NOT NULL THEN
+      RAISE EXCEPTION 'Incident % cannot be merged', v_duplicate.title USING ERRCODE = '22023';
+    END IF;
+
+    -- Entries keep their ids and remember which incident they came from
+    v_timeline := v_timeline || COALESCE((
+      SELECT jsonb_agg(entry || jsonb_build_object('merged_from', v_duplicate.id, 'merged_from_title', v_duplicate.title))
+      FROM jsonb_array_elements(v_duplicate.timeline) AS entry
+    ), '[]'::jsonb);
+
+    v_master.involved_parties := ARRAY(
+      SELECT DISTINCT party FROM unnest(COALESCE(v_master.involved_parties, '{}') || COALESCE(v_duplicate.involved_parties, '{}')) AS party
+    );
+    v_master.involved_personnel_ids := NULLIF(ARRAY(
+      SELECT DISTINCT person FROM unnest(COALESCE(v_master.involved_personnel_ids, '{}') || COALESCE(v_duplicate.involved_personnel_ids, '{}')) AS person
+    ), '{}');
+    v_master.documents := ARRAY(
+      SELECT DISTINCT document FROM unnest(COALESCE(v_master.documents, '{}') || COALESCE(v_duplicate.documents, '{}')) AS document
+    );
+    v_mitigations := v_mitigations || COALESCE(v_duplicate.mitigations, '[]'::jsonb);
+
+    UPDATE public.incident_reports
+    SET
+      merged_into = v_master.id,
+      merged_at = now(),
+      timeline = COALESCE(timeline, '[]'::jsonb) || jsonb_build_array(jsonb_build_object(
+        'id', gen_random_uuid(),
+        'type', 'merge',
+        'timestamp', now(),
+        'action', format('Merged into %s', v_master.title),
+        'user', COALESCE(v_actor, 'Unknown'),
+        'user_id', auth.uid(),
+        'merged_into', v_master.id
+      ))
+    WHERE id = v_duplicate.id;
+
+    INSERT INTO public.incident_links (organization_id, source_incident_id, target_incident_id, link_type, note, created_by)
+    VALUES (v_master.organization_id, v_duplicate.id, v_master.id, 'duplicate_of', 'Merged', auth.uid())
+    ON CONFLICT (source_incident_id, target_incident_id, link_type) DO NOTHING;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  IF v_count <> cardinality(ARRAY(SELECT DISTINCT unnest(p_duplicate_ids))) THEN
+    RAISE EXCEPTION 'Some incidents to merge were not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- One mitigation per mitigation_id, keeping the master's own entry first
+  SELECT COALESCE(jsonb_agg(mitigation ORDER BY position), '[]'::jsonb) INTO v_mitigations
+  FROM (
+    SELECT DISTINCT ON (COALESCE(mitigation ->> 'mitigation_id', mitigation::text)) mitigation, position
+    FROM jsonb_array_elements(v_mitigations) WITH ORDINALITY AS mitigations(mitigation, position)
+    ORDER BY COALESCE(mitigation ->> 'mitigation_id', mitigation::text), position
+  ) AS distinct_mitigations;
+
+  SELECT COALESCE(jsonb_agg(entry ORDER BY (entry ->> 'timestamp')::timestamptz, position), '[]'::jsonb) INTO v_timeline
+  FROM jsonb_array_elements(v_timeline) WITH ORDINALITY AS entries(entry, position);
+
+  UPDATE public.incident_reports
+  SET
+    involved_parties = v_master.involved_parties,
+    involved_personnel_ids = v_master.involved_personnel_ids,
+    documents = v_master.documents,
+    mitigations = v_mitigations,
+    timeline = v_timeline || jsonb_build_array(jsonb_build_object(
+      'id', gen_random_uuid(),
+      'type', 'merge',
+      'timestamp', now(),
+      'action', format('Merged %s %s into this incident', v_count, CASE WHEN v_count = 1 THEN 'incident' ELSE 'incidents' END),
+      'user', COALESCE(v_actor, 'Unknown'),
+      'user_id', auth.uid(),
+      'merged_incident_ids', to_jsonb(p_duplicate_ids)
+    ))
+  WHERE id = v_master.id;
+
+  PERFORM set_config('app.incident_timeline_append', 'off', true);
+  PERFORM set_config('app.incident_merge', 'off', true);
+
+  INSERT INTO public.audit_logs (user_id, organization_id, action, resource_type, resource_id, details)
+  VALUES (
+    auth.uid(),
+    v_master.organization_id,
+    'incidents_merged',
+    'incident',
+    v_master.id,
+    jsonb_build_object('incident_title', v_master.title, 'merged_incident_ids', to_jsonb(p_duplicate_ids))
+  );
+
+  RETURN v_master.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.merge_incidents(uuid, uuid[]) TO authenticated;
@@ -0,0 +1,250 @@
+/*
+  # Post-incident reviews
+
+  1. New Tables
+    - `incident_reviews` holds one post-incident review (PIR) per incident: a summary, a root-cause
+      analysis as 5 whys or fishbone categories, the root cause, contributing factors and what went
+      well or badly. A review is a draft until it is completed, which stamps `completed_at` and
+      `completed_by`
+    - `incident_review_actions` are the review's action items, each with an owner and due date, tracked
+      from open to done or cancelled
+  2. Enforcement
+    - Reviews can only be started for High or Critical incidents in a closed state of the organization's
+      workflow
+    - Completing a review needs a root cause
+    - Finishing an action item stamps `completed_at`; reopening it clears the stamp
+  3. Security
+    - Reviews and action items are visible to whoever can see the incident. Writing them needs
+      `incidents.update`
+    - Owners of an action item can move it through its statuses without `incidents.update`, but cannot
+      change anything else about it
+*/
+
+-- 1. Reviews
+
+CREATE TABLE IF NOT EXISTS public.incident_reviews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  incident_id uuid NOT NULL UNIQUE REFERENCES public.incident_reports(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'completed')),
+  summary text,
+  rca_method text NOT NULL DEFAULT 'five_whys' CHECK (rca_method IN ('five_whys', 'fishbone')),
+  -- Answers to successive "why?" questions, the first explaining the incident itself
+  five_whys jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(five_whys) = 'array'),
+  -- Causes per fishbone category, e.g. {"people": ["..."], "process": ["..."]}
+  fishbone jsonb NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(fishbone) = 'object'),
+  root_cause text,
+  contributing_factors text[] NOT NULL DEFAULT '{}',
+  went_well text[] NOT NULL DEFAULT '{}',
+  went_badly text[] NOT NULL DEFAULT '{}',
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  completed_at timestamptz,
+  completed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.incident_reviews ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read reviews of visible incidents" ON public.incident_reviews;
+CREATE POLICY "Users can read reviews of visible incidents"
+  ON public.incident_reviews
+  FOR SELECT
+  TO authenticated
+  USING (
+    organization_id = get_my_organization_id()
+    AND EXISTS (SELECT 1 FROM public.incident_reports i WHERE i.id = incident_id)
+  );
+
+DROP POLICY IF EXISTS "Incident editors can start reviews" ON public.incident_reviews;
+CREATE POLICY "Incident editors can start reviews"
+  ON public.incident_reviews
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    organization_id = get_my_organization_id()
+    AND has_permission('incidents.update')
+    AND EXISTS (
+      SELECT 1 FROM public.incident_reports i
+      WHERE i.id = incident_id AND i.organization_id = get_my_organization_id()
+    )
+  );
+
+DROP POLICY IF EXISTS "Incident editors can update reviews" ON public.incident_reviews;
+CREATE POLICY "Incident editors can update reviews"
+  ON public.incident_reviews
+  FOR UPDATE
+  TO authenticated
+  USING (
+    organization_id = get_my_organization_id()
+    AND has_permission('incidents.update')
+    AND EXISTS (SELECT 1 FROM public.incident_reports i WHERE i.id = incident_id)
+  )
+  WITH CHECK (organization_id = get_my_organization_id());
+
+CREATE OR REPLACE FUNCTION public.enforce_incident_review()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_incident public.incident_reports%ROWTYPE;
+  v_category text;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT * INTO v_incident FROM public.incident_reports WHERE id = NEW.incident_id;
+
+    SELECT state ->> 'category' INTO v_category
+    FROM jsonb_array_elements(public.get_incident_workflow(v_incident.organization_id) -> 'states') AS state
+    WHERE state ->> 'name' = v_incident.status
+    LIMIT 1;
+
+    IF v_incident.severity NOT IN ('High', 'Critical') OR v_category IS DISTINCT FROM 'closed' THEN
+      RAISE EXCEPTION 'Post-incident reviews are for closed High and Critical incidents'
+        USING ERRCODE = '23514';
+    END IF;
+
+    NEW.organization_id := v_incident.organization_id;
+    NEW.created_by := auth.uid();
+    NEW.status := 'draft';
+  ELSE
+    NEW.organization_id := OLD.organization_id;
+    NEW.incident_id := OLD.incident_id;
+    NEW.created_by := OLD.created_by;
+    NEW.created_at := OLD.created_at;
+  END IF;
+
+  IF NEW.status = 'completed' AND (TG_OP = 'INSERT' OR OLD.status <> 'completed') THEN
+    IF NULLIF(btrim(NEW.root_cause), '') IS NULL THEN
+      RAISE EXCEPTION 'A root cause is required to complete the review'
+        USING ERRCODE = '23502', HINT = 'root_cause';
+    END IF;
+    NEW.completed_at := now();
+    NEW.completed_by := auth.uid();
+  ELSIF NEW.status = 'draft' THEN
+    NEW.completed_at := NULL;
+    NEW.completed_by := NULL;
+  ELSE
+    NEW.completed_at := OLD.completed_at;
+    NEW.completed_by := OLD.completed_by;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_incident_review ON public.incident_reviews;
+CREATE TRIGGER enforce_incident_review
+  BEFORE INSERT OR UPDATE ON public.incident_reviews
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_incident_review();
+
+-- 2. Action items
+
+CREATE TABLE IF NOT EXISTS public.incident_review_actions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  review_id uuid NOT NULL REFERENCES public.incident_reviews(id) ON DELETE CASCADE,
+  description text NOT NULL CHECK (btrim(description) <> ''),
+  owner_user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  due_date date,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'in_progress', 'done', 'cancelled')),
+  completed_at timestamptz,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS incident_review_actions_review_idx ON public.incident_review_actions (review_id);
+CREATE INDEX IF NOT EXISTS incident_review_actions_owner_idx
+  ON public.incident_review_actions (owner_user_id)
+  WHERE status IN ('open', 'in_progress');
+
+ALTER TABLE public.incident_review_actions ENABLE ROW LEVEL SECURITY;
+
+-- The review subquery runs under the incident_reviews policy, which in turn needs the incident to be visible
+DROP POLICY IF EXISTS "Users can read actions of visible reviews" ON public.incident_review_actions;
+CREATE POLICY "Users can read actions of visible reviews"
+  ON public.incident_review_actions
+  FOR SELECT
+  TO authenticated
+  USING (
+    organization_id = get_my_organization_id()
+    AND (
+      owner_user_id = auth.uid()
+      OR EXISTS (SELECT 1 FROM public.incident_reviews r WHERE r.id = review_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Incident editors can add review actions" ON public.incident_review_actions;
+CREATE POLICY "Incident editors can add review actions"
+  ON public.incident_review_actions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    organization_id = get_my_organization_id()
+    AND has_permission('incidents.update')
+    AND EXISTS (SELECT 1 FROM public.incident_reviews r WHERE r.id = review_id)
+  );
+
+DROP POLICY IF EXISTS "Editors and owners can update review actions" ON public.incident_review_actions;
+CREATE POLICY "Editors and owners can update review actions"
+  ON public.incident_review_actions
+  FOR UPDATE
+  TO authenticated
+  USING (
+    organization_id = get_my_organization_id()
+    AND (has_permission('incidents.update') OR owner_user_id = auth.uid())
+  )
+  WITH CHECK (organization_id = get_my_organization_id());
+
+DROP POLICY IF EXISTS "Incident editors can delete review actions" ON public.incident_review_actions;
+CREATE POLICY "Incident editors can delete review actions"
+  ON public.incident_review_actions
+  FOR DELETE
+  TO authenticated
+  USING (
+    organization_id = get_my_organization_id()
+    AND has_permission('incidents.update')
+  );
+
+CREATE OR REPLACE FUNCTION public.enforce_incident_review_action()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT organization_id INTO NEW.organization_id FROM public.incident_reviews WHERE id = NEW.review_id;
+    NEW.created_by := auth.uid();
+  ELSE
+    NEW.organization_id := OLD.organization_id;
+    NEW.review_id := OLD.review_id;
+    NEW.created_by := OLD.created_by;
+    NEW.created_at := OLD.created_at;
+
+    -- Owners without edit rights only report progress
+    IF auth.uid() IS NOT NULL AND NOT has_permission('incidents.update') THEN
+      NEW.description := OLD.description;
+      NEW.owner_user_id := OLD.owner_user_id;
+      NEW.due_date := OLD.due_date;
+    END IF;
+  END IF;
+
+  IF NEW.status = 'done' THEN
+    NEW.completed_at := CASE WHEN TG_OP = 'UPDATE' AND OLD.status = 'done' THEN OLD.completed_at ELSE now() END;
+  ELSE
+    NEW.completed_at := NULL;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_incident_review_action ON public.incident_review_actions;
+CREATE TRIGGER enforce_incident_review_action
+  BEFORE INSERT OR UPDATE ON public.incident_review_actions
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_incident_review_action();
@@ -0,0 +1,204 @@
+/*
+  # Incident playbooks
+
+  1. Changes
+    - Admins define response playbooks in `organizations.settings.incidentPlaybooks`. Each one pre-fills
+      a new incident and carries an ordered checklist whose steps name a responsible role and a target
+      in minutes from when the incident was reported
+    - `incident_reports.playbook_id` names the playbook an incident follows. Setting it snapshots the
+      playbook into `incident_reports.playbook`, so later edits to the playbook do not change the
+      checklist of incidents already following it
+    - Applying a playbook and ticking or unticking its steps append `playbook` entries to the timeline
+  2. Functions
+    - `set_incident_playbook_step(incident_id, step_id, completed)` ticks or unticks a checklist step as
+      the caller
+  3. Security
+    - A playbook can be applied once, when the incident is reported or later; it cannot be swapped
+    - The snapshot is built from the organization's settings and only changes through
+      `set_incident_playbook_step`
+*/
+
+ALTER TABLE public.incident_reports
+  ADD COLUMN IF NOT EXISTS playbook_id text,
+  ADD COLUMN IF NOT EXISTS playbook jsonb;
+
+-- 1. Snapshot on apply
+
+CREATE OR REPLACE FUNCTION public.protect_incident_playbook()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_definition jsonb;
+  v_actor text;
+BEGIN
+  IF COALESCE(current_setting('app.incident_playbook', true), '') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    -- Once applied, the playbook stays; only set_incident_playbook_step changes its checklist
+    IF OLD.playbook_id IS NOT NULL OR NEW.playbook_id IS NULL THEN
+      NEW.playbook_id := OLD.playbook_id;
+      NEW.playbook := OLD.playbook;
+      RETURN NEW;
+    END IF;
+  ELSIF NEW.playbook_id IS NULL THEN
+    NEW.playbook := NULL;
+    RETURN NEW;
+  END IF;
+
+  SELECT playbook INTO v_definition
+  FROM public.organizations o,
+    jsonb_array_elements(COALESCE(o.settings -> 'incidentPlaybooks', '[]'::jsonb)) AS playbook
+  WHERE o.id = NEW.organization_id
+    AND playbook ->> 'id' = NEW.playbook_id;
+
+  IF v_definition IS NULL THEN
+    RAISE EXCEPTION 'Unknown incident playbook' USING ERRCODE = '23503';
+  END IF;
+
+  NEW.playbook := jsonb_build_object(
+    'id', v_definition ->> 'id',
+    'name', v_definition ->> 'name',
+    'applied_at', now(),
+    'applied_by', auth.uid(),
+    'steps', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', step ->> 'id',
+        'title', step ->> 'title',
+        'role', step -> 'role',
+        'target_minutes', step -> 'targetMinutes',
+        'completed_at', NULL,
+        'completed_by', NULL,
+        'completed_by_name', NULL
+      ) ORDER BY position)
+      FROM jsonb_array_elements(COALESCE(v_definition -> 'steps', '[]'::jsonb)) WITH ORDINALITY AS steps(step, position)
+    ), '[]'::jsonb)
+  );
+
+  SELECT full_name INTO v_actor FROM public.user_profiles WHERE user_id = auth.uid();
+
+  -- Runs after enforce_incident_timeline, so the entry is not discarded as a direct timeline write
+  NEW.timeline := COALESCE(NEW.timeline, '[]'::jsonb) || jsonb_build_array(jsonb_build_object(
+    'id', gen_random_uuid(),
+    'type', 'playbook',
+    'timestamp', now(),
+    'action', format('Playbook "%s" applied', v_definition ->> 'name'),
+    'user', COALESCE(v_actor, 'System'),
+    'user_id', auth.uid(),
+    'playbook_name', v_definition ->> 'name'
+  ));
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_incident_playbook ON public.incident_reports;
+CREATE TRIGGER protect_incident_playbook
+  BEFORE INSERT OR UPDATE ON public.incident_reports
+  FOR EACH ROW EXECUTE FUNCTION public.protect_incident_playbook();
+
+-- 2. Checklist
+
+-- Runs as the caller, so the incident update policies decide who may tick steps
+CREATE OR REPLACE FUNCTION public.set_incident_playbook_step(
+  p_incident_id uuid,
+  p_step_id text,
+  p_completed boolean
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_incident public.incident_reports%ROWTYPE;
+  v_step jsonb;
+  v_actor text;
+  v_playbook jsonb;
+BEGIN
+  IF auth.uid() IS NULL OR NOT has_permission('incidents.update') THEN
+    RAISE EXCEPTION 'You do not have permission to update this incident' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_incident FROM public.incident_reports WHERE id = p_incident_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Incident not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT step INTO v_step
+  FROM jsonb_array_elements(COALESCE(v_incident.playbook -> 'steps', '[]'::jsonb)) AS step
+  WHERE step ->> 'id' = p_step_id;
+
+  IF v_step IS NULL THEN
+    RAISE EXCEPTION 'Checklist step not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF (v_step ->> 'completed_at' IS NOT NULL) = p_completed THEN
+    RETURN v_incident.playbook;
+  END IF;
+
+  SELECT full_name INTO v_actor FROM public.user_profiles WHERE user_id = auth.uid();
+
+  v_playbook := jsonb_set(v_incident.playbook, '{steps}', (
+    SELECT jsonb_agg(
+      CASE WHEN step ->> 'id' = p_step_id THEN step || jsonb_build_object(
+        'completed_at', CASE WHEN p_completed THEN to_jsonb(now()) ELSE 'null'::jsonb END,
+        'completed_by', CASE WHEN p_completed THEN to_jsonb(auth.uid()) ELSE 'null'::jsonb END,
+        'completed_by_name', CASE WHEN p_completed THEN to_jsonb(COALESCE(v_actor, 'Unknown')) ELSE 'null'::jsonb END
+      ) ELSE step END
+      ORDER BY position
+    )
+    FROM jsonb_array_elements(v_incident.playbook -> 'steps') WITH ORDINALITY AS steps(step, position)
+  ));
+
+  PERFORM set_config('app.incident_playbook', 'on', true);
+  PERFORM set_config('app.incident_timeline_append', 'on', true);
+
+  UPDATE public.incident_reports
+  SET
+    playbook = v_playbook,
+    timeline = COALESCE(timeline, '[]'::jsonb) || jsonb_build_array(jsonb_build_object(
+      'id', gen_random_uuid(),
+      'type', 'playbook',
+      'timestamp', now(),
+      'action', format('%s: %s', CASE WHEN p_completed THEN 'Completed' ELSE 'Reopened' END, v_step ->> 'title'),
+      'user', COALESCE(v_actor, 'Unknown'),
+      'user_id', auth.uid(),
+      'playbook_name', v_playbook ->> 'name',
+      'step_id', p_step_id,
+      'step_title', v_step ->> 'title',
+      'completed', p_completed
+    ))
+  WHERE id = p_incident_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You do not have permission to update this incident' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM set_config('app.incident_playbook', 'off', true);
+  PERFORM set_config('app.incident_timeline_append', 'off', true);
+
+  INSERT INTO public.audit_logs (user_id, organization_id, action, resource_type, resource_id, details)
+  VALUES (
+    auth.uid(),
+    v_incident.organization_id,
+    CASE WHEN p_completed THEN 'incident_playbook_step_completed' ELSE 'incident_playbook_step_reopened' END,
+    'incident',
+    v_incident.id,
+    jsonb_build_object(
+      'incident_title', v_incident.title,
+      'playbook_name', v_playbook ->> 'name',
+      'step_id', p_step_id,
+      'step_title', v_step ->> 'title'
+    )
+  );
+
+  RETURN v_playbook;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_incident_playbook_step(uuid, text, boolean) TO authenticated;
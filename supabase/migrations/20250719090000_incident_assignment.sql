@@ -0,0 +1,319 @@
+/*
+  # Incident assignment and on-call rotations
+
+  1. New Tables
+    - `responder_teams`: named groups of responders, optionally owning a department
+    - `on_call_schedules`: a rotation of responders for a department, a region or both. Each
+      participant is on call for `shift_hours` in turn, counted from `rotation_starts_at`
+    - `on_call_overrides`: puts another responder on call for part of a schedule, e.g. to cover leave
+  2. Changes
+    - Incidents are assigned to a user (`assigned_user_id`), a team (`assigned_team_id`) or both.
+      `assigned_to` is kept as the assignee's display name, so workflow required fields, SLA timers and
+      existing lists keep working; it can no longer be written directly. Existing free-text assignees
+      that match a user's name in the same organization are linked to that user
+    - A new incident without an assignee goes to whoever is on call for the most specific schedule
+      matching its department and location, and the team owning that schedule
+    - Assignment timeline entries carry the assignee ids and record automatic assignments
+  3. Functions
+    - `get_on_call_user(schedule_id, at)` returns who is on call for a schedule at a time
+  4. Security
+    - Organization members can read teams and schedules; changing them needs `incidents.update`
+    - Assignees and teams must belong to the incident's organization
+*/
+
+-- 1. Teams and schedules
+
+CREATE TABLE IF NOT EXISTS public.responder_teams (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  description text,
+  department text,
+  member_user_ids uuid[] NOT NULL DEFAULT '{}',
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_responder_teams_organization_name
+  ON public.responder_teams (organization_id, lower(name));
+
+CREATE TABLE IF NOT EXISTS public.on_call_schedules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  team_id uuid REFERENCES public.responder_teams(id) ON DELETE SET NULL,
+  -- Either may be left empty to match every department or location
+  department text,
+  region text,
+  participant_user_ids uuid[] NOT NULL DEFAULT '{}',
+  rotation_starts_at timestamp with time zone NOT NULL DEFAULT date_trunc('week', now()),
+  shift_hours integer NOT NULL DEFAULT 168 CHECK (shift_hours > 0),
+  auto_assign boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_on_call_schedules_organization_id ON public.on_call_schedules (organization_id);
+
+CREATE TABLE IF NOT EXISTS public.on_call_overrides (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  schedule_id uuid NOT NULL REFERENCES public.on_call_schedules(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  starts_at timestamp with time zone NOT NULL,
+  ends_at timestamp with time zone NOT NULL,
+  reason text,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_on_call_overrides_schedule_id ON public.on_call_overrides (schedule_id, starts_at);
+
+ALTER TABLE public.responder_teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.on_call_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.on_call_overrides ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view responder teams" ON public.responder_teams;
+CREATE POLICY "Members can view responder teams"
+  ON public.responder_teams FOR SELECT TO authenticated
+  USING (organization_id = get_my_organization_id());
+
+DROP POLICY IF EXISTS "Responders can manage responder teams" ON public.responder_teams;
+CREATE POLICY "Responders can manage responder teams"
+  ON public.responder_teams FOR ALL TO authenticated
+  USING (organization_id = get_my_organization_id() AND has_permission('incidents.update'))
+  WITH CHECK (organization_id = get_my_organization_id() AND has_permission('incidents.update'));
+
+DROP POLICY IF EXISTS "Members can view on-call schedules" ON public.on_call_schedules;
+CREATE POLICY "Members can view on-call schedules"
+  ON public.on_call_schedules FOR SELECT TO authenticated
+  USING (organization_id = get_my_organization_id());
+
+DROP POLICY IF EXISTS "Responders can manage on-call schedules" ON public.on_call_schedules;
+CREATE POLICY "Responders can manage on-call schedules"
+  ON public.on_call_schedules FOR ALL TO authenticated
+  USING (organization_id = get_my_organization_id() AND has_permission('incidents.update'))
+  WITH CHECK (organization_id = get_my_organization_id() AND has_permission('incidents.update'));
+
+DROP POLICY IF EXISTS "Members can view on-call overrides" ON public.on_call_overrides;
+CREATE POLICY "Members can view on-call overrides"
+  ON public.on_call_overrides FOR SELECT TO authenticated
+  USING (organization_id = get_my_organization_id());
+
+DROP POLICY IF EXISTS "Responders can manage on-call overrides" ON public.on_call_overrides;
+CREATE POLICY "Responders can manage on-call overrides"
+  ON public.on_call_overrides FOR ALL TO authenticated
+  USING (organization_id = get_my_organization_id() AND has_permission('incidents.update'))
+  WITH CHECK (organization_id = get_my_organization_id() AND has_permission('incidents.update'));
+
+-- 2. Who is on call
+
+CREATE OR REPLACE FUNCTION public.get_on_call_user(p_schedule_id uuid, p_at timestamptz DEFAULT now())
+RETURNS uuid
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_schedule public.on_call_schedules%ROWTYPE;
+  v_user_id uuid;
+  v_count integer;
+  v_shift bigint;
+BEGIN
+  SELECT * INTO v_schedule FROM public.on_call_schedules WHERE id = p_schedule_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- The most recently added override wins when several cover the same time
+  SELECT user_id INTO v_user_id
+  FROM public.on_call_overrides
+  WHERE schedule_id = p_schedule_id AND starts_at <= p_at AND ends_at > p_at
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF v_user_id IS NOT NULL THEN
+    RETURN v_user_id;
+  END IF;
+
+  v_count := cardinality(v_schedule.participant_user_ids);
+  IF v_count = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  v_shift := floor(extract(epoch FROM p_at - v_schedule.rotation_starts_at) / (v_schedule.shift_hours * 3600));
+
+  -- Positive modulo, so times before the rotation started wrap around too
+  RETURN v_schedule.participant_user_ids[((v_shift % v_count) + v_count) % v_count + 1];
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_on_call_user(uuid, timestamptz) TO authenticated;
+
+-- 3. Assignment
+
+ALTER TABLE public.incident_reports
+  ADD COLUMN IF NOT EXISTS assigned_user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS assigned_team_id uuid REFERENCES public.responder_teams(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_incident_reports_assigned_user_id ON public.incident_reports (assigned_user_id);
+
+-- Runs before assign_incident exists and leaves assigned_to as it is, so no timeline entries are added
+UPDATE public.incident_reports i
+SET assigned_user_id = p.user_id
+FROM public.user_profiles p
+WHERE i.assigned_user_id IS NULL
+  AND NULLIF(btrim(i.assigned_to), '') IS NOT NULL
+  AND p.organization_id = i.organization_id
+  AND lower(btrim(p.full_name)) = lower(btrim(i.assigned_to));
+
+CREATE OR REPLACE FUNCTION public.assign_incident()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_schedule public.on_call_schedules%ROWTYPE;
+  v_user_name text;
+  v_team_name text;
+BEGIN
+  PERFORM set_config('app.incident_on_call_schedule', '', true);
+
+  IF TG_OP = 'INSERT' AND NEW.assigned_user_id IS NULL AND NEW.assigned_team_id IS NULL THEN
+    -- Schedules naming both a department and a region are more specific than catch-all ones
+    SELECT s.* INTO v_schedule
+    FROM public.on_call_schedules s
+    WHERE s.organization_id = NEW.organization_id
+      AND s.auto_assign
+      AND (NULLIF(btrim(s.department), '') IS NULL OR lower(btrim(s.department)) = lower(btrim(NEW.department)))
+      AND (NULLIF(btrim(s.region), '') IS NULL OR NEW.location ILIKE '%' || btrim(s.region) || '%')
+    ORDER BY (NULLIF(btrim(s.department), '') IS NOT NULL)::integer + (NULLIF(btrim(s.region), '') IS NOT NULL)::integer DESC,
+      s.created_at
+    LIMIT 1;
+
+    IF v_schedule.id IS NOT NULL THEN
+      NEW.assigned_user_id := public.get_on_call_user(v_schedule.id, now());
+      NEW.assigned_team_id := v_schedule.team_id;
+
+      -- A rotation can outlive a participant's membership; never block reporting because of it
+      IF NOT EXISTS (
+        SELECT 1 FROM public.user_profiles
+        WHERE user_id = NEW.assigned_user_id AND organization_id = NEW.organization_id
+      ) THEN
+        NEW.assigned_user_id := NULL;
+      END IF;
+
+      IF NEW.assigned_user_id IS NOT NULL OR NEW.assigned_team_id IS NOT NULL THEN
+        PERFORM set_config('app.incident_on_call_schedule', v_schedule.name, true);
+      END IF;
+    END IF;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.assigned_user_id IS NOT DISTINCT FROM OLD.assigned_user_id
+    AND NEW.assigned_team_id IS NOT DISTINCT FROM OLD.assigned_team_id THEN
+    NEW.assigned_to := OLD.assigned_to;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.assigned_user_id IS NOT NULL THEN
+    SELECT full_name INTO v_user_name
+    FROM public.user_profiles
+    WHERE user_id = NEW.assigned_user_id AND organization_id = NEW.organization_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'The assignee is not a member of this organization' USING ERRCODE = '23503';
+    END IF;
+  END IF;
+
+  IF NEW.assigned_team_id IS NOT NULL THEN
+    SELECT name INTO v_team_name
+    FROM public.responder_teams
+    WHERE id = NEW.assigned_team_id AND organization_id = NEW.organization_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'The team does not belong to this organization' USING ERRCODE = '23503';
+    END IF;
+  END IF;
+
+  NEW.assigned_to := CASE
+    WHEN v_user_name IS NOT NULL AND v_team_name IS NOT NULL THEN format('%s (%s)', v_user_name, v_team_name)
+    ELSE COALESCE(v_user_name, v_team_name)
+  END;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Named to fire before enforce_incident_timeline, enforce_incident_workflow and maintain_incident_sla,
+-- which all read assigned_to
+DROP TRIGGER IF EXISTS assign_incident ON public.incident_reports;
+CREATE TRIGGER assign_incident
+  BEFORE INSERT OR UPDATE ON public.incident_reports
+  FOR EACH ROW EXECUTE FUNCTION public.assign_incident();
+
+-- 4. Assignment timeline entries follow the assignee ids
+
+CREATE OR REPLACE FUNCTION public.enforce_incident_timeline()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor text;
+  v_schedule text;
+BEGIN
+  SELECT full_name INTO v_actor FROM public.user_profiles WHERE user_id = auth.uid();
+
+  IF TG_OP = 'INSERT' THEN
+    IF auth.uid() IS NOT NULL OR jsonb_array_length(COALESCE(NEW.timeline, '[]'::jsonb)) = 0 THEN
+      NEW.timeline := jsonb_build_array(jsonb_build_object(
+        'id', gen_random_uuid(),
+        'type', 'status_change',
+        'timestamp', now(),
+        'action', 'Incident reported',
+        'user', COALESCE(v_actor, NEW.reporter_name, 'System'),
+        'user_id', auth.uid(),
+        'from', NULL,
+        'to', NEW.status
+      ));
+    END IF;
+  ELSIF auth.uid() IS NOT NULL
+    AND COALESCE(current_setting('app.incident_timeline_append', true), '') <> 'on' THEN
+    -- Only add_incident_timeline_entry may add entries on behalf of a user
+    NEW.timeline := OLD.timeline;
+  END IF;
+
+  -- assign_incident has already turned the assignee ids into assigned_to
+  IF NEW.assigned_to IS DISTINCT FROM (CASE WHEN TG_OP = 'UPDATE' THEN OLD.assigned_to END) THEN
+    -- Set by assign_incident when an on-call schedule picked the assignee
+    v_schedule := NULLIF(current_setting('app.incident_on_call_schedule', true), '');
+
+    NEW.timeline := NEW.timeline || jsonb_build_array(jsonb_build_object(
+      'id', gen_random_uuid(),
+      'type', 'assignment',
+      'timestamp', now(),
+      'action', CASE
+        WHEN NEW.assigned_to IS NULL THEN 'Incident unassigned'
+        WHEN v_schedule IS NOT NULL THEN format('Assigned to %s (on call for %s)', NEW.assigned_to, v_schedule)
+        ELSE format('Assigned to %s', NEW.assigned_to)
+      END,
+      'user', CASE WHEN v_schedule IS NOT NULL THEN 'System' ELSE COALESCE(v_actor, 'System') END,
+      'user_id', CASE WHEN v_schedule IS NOT NULL THEN NULL ELSE auth.uid() END,
+      'from', CASE WHEN TG_OP = 'UPDATE' THEN OLD.assigned_user_id END,
+      'to', NEW.assigned_user_id,
+      'team_id', NEW.assigned_team_id,
+      'assignee', NEW.assigned_to,
+      'on_call_schedule', v_schedule
+    ));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,284 @@
+/*
+  # Incident costs and business impact
+
+  1. Changes
+    - `incident_reports` records the business impact of an incident: `downtime_hours`,
+      `people_affected` and `impacted_asset_ids`, the assets the incident affected. Existing incidents
+      that happened at an asset list that asset as impacted
+    - `assets.incidents` (`total`, `lastIncident`, `severity`) is derived from the incidents that
+      impacted the asset instead of being entered by hand. `severity` is the highest severity among the
+      asset's incidents of the past year, lowercased as before
+  2. New Tables
+    - `incident_costs` are the cost lines of an incident, each with a category (direct loss, recovery,
+      business interruption, legal, regulatory or other), an amount in an ISO 4217 currency and
+      optionally the impacted asset it relates to
+  3. Merging
+    - Merging an incident into another moves its cost lines and impacted assets to the master incident
+  4. Security
+    - Cost lines are visible to whoever can see the incident. Writing them needs `incidents.update`
+    - Impacted assets and cost line assets must belong to the incident's organization
+    - Clients can no longer write `assets.incidents`
+*/
+
+-- 1. Impact on incidents
+
+ALTER TABLE public.incident_reports
+  ADD COLUMN IF NOT EXISTS downtime_hours numeric(10,2) CHECK (downtime_hours >= 0),
+  ADD COLUMN IF NOT EXISTS people_affected integer CHECK (people_affected >= 0),
+  ADD COLUMN IF NOT EXISTS impacted_asset_ids uuid[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_incident_reports_impacted_asset_ids
+  ON public.incident_reports USING gin (impacted_asset_ids);
+
+UPDATE public.incident_reports
+SET impacted_asset_ids = ARRAY[location_asset_id]
+WHERE location_asset_id IS NOT NULL
+  AND cardinality(impacted_asset_ids) = 0;
+
+-- Unknown assets and assets of other organizations are dropped rather than rejected, so an incident
+-- listing an asset that was since deleted can still be edited
+CREATE OR REPLACE FUNCTION public.validate_incident_impact()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.impacted_asset_ids IS DISTINCT FROM OLD.impacted_asset_ids THEN
+    NEW.impacted_asset_ids := ARRAY(
+      SELECT a.id
+      FROM public.assets a
+      WHERE a.id = ANY(COALESCE(NEW.impacted_asset_ids, '{}'))
+        AND a.organization_id = NEW.organization_id
+      ORDER BY a.name
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_incident_impact ON public.incident_reports;
+CREATE TRIGGER validate_incident_impact
+  BEFORE INSERT OR UPDATE ON public.incident_reports
+  FOR EACH ROW EXECUTE FUNCTION public.validate_incident_impact();
+
+-- 2. Cost lines
+
+CREATE TABLE IF NOT EXISTS public.incident_costs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  incident_id uuid NOT NULL REFERENCES public.incident_reports(id) ON DELETE CASCADE,
+  category text NOT NULL CHECK (category IN (
+    'direct_loss', 'recovery', 'business_interruption', 'legal', 'regulatory', 'other'
+  )),
+  amount numeric(14,2) NOT NULL CHECK (amount >= 0),
+  currency text NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+  asset_id uuid REFERENCES public.assets(id) ON DELETE SET NULL,
+  description text,
+  incurred_on date NOT NULL DEFAULT CURRENT_DATE,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_incident_costs_incident_id ON public.incident_costs (incident_id);
+CREATE INDEX IF NOT EXISTS idx_incident_costs_organization_id ON public.incident_costs (organization_id, incurred_on);
+
+ALTER TABLE public.incident_costs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read costs of visible incidents" ON public.incident_costs;
+CREATE POLICY "Users can read costs of visible incidents"
+  ON public.incident_costs
+  FOR SELECT
+  TO authenticated
+  USING (
+    organization_id = get_my_organization_id()
+    AND EXISTS (SELECT 1 FROM public.incident_reports i WHERE i.id = incident_id)
+  );
+
+DROP POLICY IF EXISTS "Incident editors can add costs" ON public.incident_costs;
+CREATE POLICY "Incident editors can add costs"
+  ON public.incident_costs
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    organization_id = get_my_organization_id()
+    AND has_permission('incidents.update')
+    AND EXISTS (
+      SELECT 1 FROM public.incident_reports i
+      WHERE i.id = incident_id AND i.organization_id = get_my_organization_id()
+    )
+  );
+
+DROP POLICY IF EXISTS "Incident editors can update costs" ON public.incident_costs;
+CREATE POLICY "Incident editors can update costs"
+  ON public.incident_costs
+  FOR UPDATE
+  TO authenticated
+  USING (
+    organization_id = get_my_organization_id()
+    AND has_permission('incidents.update')
+    AND EXISTS (SELECT 1 FROM public.incident_reports i WHERE i.id = incident_id)
+  )
+  WITH CHECK (organization_id = get_my_organization_id());
+
+DROP POLICY IF EXISTS "Incident editors can delete costs" ON public.incident_costs;
+CREATE POLICY "Incident editors can delete costs"
+  ON public.incident_costs
+  FOR DELETE
+  TO authenticated
+  USING (
+    organization_id = get_my_organization_id()
+    AND has_permission('incidents.update')
+    AND EXISTS (SELECT 1 FROM public.incident_reports i WHERE i.id = incident_id)
+  );
+
+CREATE OR REPLACE FUNCTION public.enforce_incident_cost()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT organization_id INTO NEW.organization_id FROM public.incident_reports WHERE id = NEW.incident_id;
+    NEW.created_by := auth.uid();
+    NEW.created_at := now();
+  ELSE
+    NEW.organization_id := OLD.organization_id;
+    NEW.created_by := OLD.created_by;
+    NEW.created_at := OLD.created_at;
+
+    -- Cost lines follow their incident when it is merged, and otherwise stay with it
+    IF COALESCE(current_setting('app.incident_merge', true), '') <> 'on' THEN
+      NEW.incident_id := OLD.incident_id;
+    END IF;
+  END IF;
+
+  IF NEW.asset_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.assets WHERE id = NEW.asset_id AND organization_id = NEW.organization_id
+  ) THEN
+    RAISE EXCEPTION 'The asset does not belong to this organization' USING ERRCODE = '23503';
+  END IF;
+
+  NEW.currency := upper(NEW.currency);
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_incident_cost ON public.incident_costs;
+CREATE TRIGGER enforce_incident_cost
+  BEFORE INSERT OR UPDATE ON public.incident_costs
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_incident_cost();
+
+-- 3. Asset incident summaries
+
+CREATE OR REPLACE FUNCTION public.refresh_asset_incident_summary(p_asset_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_asset_ids IS NULL OR cardinality(p_asset_ids) = 0 THEN
+    RETURN;
+  END IF;
+
+  PERFORM set_config('app.asset_incident_summary', 'on', true);
+
+  -- Merged duplicates describe the same event as their master, so only the master counts
+  UPDATE public.assets a
+  SET incidents = jsonb_build_object(
+    'total', summary.total,
+    'lastIncident', COALESCE(to_jsonb(summary.last_incident), to_jsonb('None'::text)),
+    'severity', lower(COALESCE(summary.severity, 'Low'))
+  )
+  FROM (
+    SELECT
+      asset.id,
+      count(i.id) AS total,
+      max(i.date_time) AS last_incident,
+      (array_agg(i.severity ORDER BY array_position(ARRAY['Critical', 'High', 'Medium', 'Low'], i.severity::text))
+        FILTER (WHERE i.date_time > now() - interval '1 year'))[1] AS severity
+    FROM unnest(p_asset_ids) AS asset(id)
+    LEFT JOIN public.incident_reports i
+      ON asset.id = ANY(i.impacted_asset_ids) AND i.merged_into IS NULL
+    GROUP BY asset.id
+  ) AS summary
+  WHERE a.id = summary.id;
+
+  PERFORM set_config('app.asset_incident_summary', 'off', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_asset_incident_summary(uuid[]) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.protect_asset_incident_summary()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF COALESCE(current_setting('app.asset_incident_summary', true), '') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.incidents := jsonb_build_object('total', 0, 'lastIncident', 'None', 'severity', 'low');
+  ELSE
+    NEW.incidents := OLD.incidents;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_asset_incident_summary ON public.assets;
+CREATE TRIGGER protect_asset_incident_summary
+  BEFORE INSERT OR UPDATE ON public.assets
+  FOR EACH ROW EXECUTE FUNCTION public.protect_asset_incident_summary();
+
+CREATE OR REPLACE FUNCTION public.sync_incident_impact()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.refresh_asset_incident_summary(NEW.impacted_asset_ids);
+    RETURN NULL;
+  ELSIF TG_OP = 'DELETE' THEN
+    PERFORM public.refresh_asset_incident_summary(OLD.impacted_asset_ids);
+    RETURN NULL;
+  END IF;
+
+  IF OLD.merged_into IS NULL AND NEW.merged_into IS NOT NULL THEN
+    UPDATE public.incident_reports
+    SET impacted_asset_ids = ARRAY(SELECT DISTINCT unnest(impacted_asset_ids || NEW.impacted_asset_ids))
+    WHERE id = NEW.merged_into;
+
+    UPDATE public.incident_costs SET incident_id = NEW.merged_into WHERE incident_id = NEW.id;
+  END IF;
+
+  IF NEW.impacted_asset_ids IS DISTINCT FROM OLD.impacted_asset_ids
+    OR NEW.severity IS DISTINCT FROM OLD.severity
+    OR NEW.date_time IS DISTINCT FROM OLD.date_time
+    OR NEW.merged_into IS DISTINCT FROM OLD.merged_into THEN
+    PERFORM public.refresh_asset_incident_summary(ARRAY(
+      SELECT DISTINCT unnest(OLD.impacted_asset_ids || NEW.impacted_asset_ids)
+    ));
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_incident_impact ON public.incident_reports;
+CREATE TRIGGER sync_incident_impact
+  AFTER INSERT OR UPDATE OR DELETE ON public.incident_reports
+  FOR EACH ROW EXECUTE FUNCTION public.sync_incident_impact();
+
+-- Replaces the hand-entered summaries
+SELECT public.refresh_asset_incident_summary(ARRAY(SELECT id FROM public.assets));
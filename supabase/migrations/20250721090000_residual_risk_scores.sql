@@ -0,0 +1,91 @@
+/*
+  # Inherent and residual risk scores
+
+  1. Changes
+    - `risks.risk_score` stays the inherent score, impact × likelihood on a 1 to 25 scale
+    - `risks.applied_controls` lists each applied mitigation with the effectiveness it was scored at,
+      `risks.control_effectiveness` is the share of the inherent score the controls remove together and
+      `risks.residual_risk_score` is what is left
+  2. Control effectiveness model
+    - A mitigation's reduction score (0-100) is the share of the remaining risk it removes, capped at 90%
+    - Controls combine multiplicatively, so two 50% controls remove 75% rather than all of the risk
+    - The residual score never drops below 20% of the inherent score
+    - The same model scores assets, personnel and travel plans in the app (src/utils/riskScoring.ts)
+  3. Security
+    - The residual columns are computed on every write, so clients cannot set them
+*/
+
+ALTER TABLE public.risks
+  ADD COLUMN IF NOT EXISTS applied_controls jsonb NOT NULL DEFAULT '[]',
+  ADD COLUMN IF NOT EXISTS control_effectiveness numeric(4,3) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS residual_risk_score numeric(4,1);
+
+CREATE OR REPLACE FUNCTION public.risk_rating_value(p_rating text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_rating
+    WHEN 'very_low' THEN 1
+    WHEN 'low' THEN 2
+    WHEN 'medium' THEN 3
+    WHEN 'high' THEN 4
+    WHEN 'very_high' THEN 5
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.compute_risk_residual_score()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_max_control_effectiveness constant numeric := 0.9;
+  v_residual_floor constant numeric := 0.2;
+  v_inherent integer;
+  v_remaining numeric := 1;
+  v_controls jsonb := '[]';
+  v_mitigation jsonb;
+  v_effectiveness numeric;
+BEGIN
+  v_inherent := risk_rating_value(NEW.impact) * risk_rating_value(NEW.likelihood);
+
+  IF NEW.mitigations IS NOT NULL AND jsonb_typeof(to_jsonb(NEW.mitigations)) = 'array' THEN
+    FOR v_mitigation IN SELECT value FROM jsonb_array_elements(to_jsonb(NEW.mitigations))
+    LOOP
+      v_effectiveness := LEAST(
+        v_max_control_effectiveness,
+        GREATEST(0, COALESCE((v_mitigation->>'applied_risk_reduction_score')::numeric, 0) / 100)
+      );
+      v_remaining := v_remaining * (1 - v_effectiveness);
+      v_controls := v_controls || jsonb_build_array(jsonb_build_object(
+        'mitigation_id', v_mitigation->>'mitigation_id',
+        'name', v_mitigation->>'name',
+        'effectiveness', v_effectiveness
+      ));
+    END LOOP;
+  END IF;
+
+  v_remaining := GREATEST(v_residual_floor, v_remaining);
+
+  NEW.applied_controls := v_controls;
+  NEW.control_effectiveness := round(1 - v_remaining, 3);
+  NEW.residual_risk_score := round(v_inherent * v_remaining, 1);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS compute_risk_residual_score ON public.risks;
+CREATE TRIGGER compute_risk_residual_score
+  BEFORE INSERT OR UPDATE ON public.risks
+  FOR EACH ROW EXECUTE FUNCTION public.compute_risk_residual_score();
+
+-- Fires the trigger for existing risks
+UPDATE public.risks SET mitigations = mitigations;
+
+ALTER TABLE public.risks
+  ALTER COLUMN residual_risk_score SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_risks_residual_risk_score
+  ON public.risks (organization_id, residual_risk_score DESC);
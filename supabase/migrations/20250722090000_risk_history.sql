@@ -0,0 +1,165 @@
+/*
+  # Risk register history
+
+  1. New Tables
+    - `risk_versions`: an append-only copy of a risk after every change, with who made it, when, which
+      fields changed and why. Deleting a risk records a final `deleted` version, and the history is kept
+  2. Changes
+    - `risks.change_reason` carries the reason for an update into its version and is cleared again, so
+      it never leaks into the next change
+    - Changing impact, likelihood or the applied controls, i.e. the inherent or residual score, needs a
+      change reason when a user makes the change
+    - Existing risks get a first version dated at their creation, holding their state when history started
+  3. Functions
+    - `get_risk_register_as_of(at)` returns every risk as it was recorded at a point in time
+  4. Security
+    - Versions are readable like the risks they belong to (organization and `risks.read`) and only ever
+      written by the trigger
+*/
+
+CREATE TABLE IF NOT EXISTS public.risk_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  -- Not a foreign key, so the history of deleted risks stays available for past registers
+  risk_id uuid NOT NULL,
+  version integer NOT NULL,
+  operation text NOT NULL CHECK (operation IN ('created', 'updated', 'deleted')),
+  changed_fields text[] NOT NULL DEFAULT '{}',
+  change_reason text,
+  snapshot jsonb NOT NULL,
+  changed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (risk_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_risk_versions_organization_changed_at
+  ON public.risk_versions (organization_id, changed_at);
+
+ALTER TABLE public.risk_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view risk history" ON public.risk_versions;
+CREATE POLICY "Users can view risk history"
+  ON public.risk_versions
+  FOR SELECT
+  TO authenticated
+  USING (organization_id = get_my_organization_id() AND has_permission('risks.read'));
+
+ALTER TABLE public.risks
+  ADD COLUMN IF NOT EXISTS change_reason text;
+
+-- Runs after compute_risk_residual_score (triggers fire in name order), so residual changes are seen
+CREATE OR REPLACE FUNCTION public.enforce_risk_change_reason()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_reason text := NULLIF(btrim(COALESCE(NEW.change_reason, '')), '');
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND auth.uid() IS NOT NULL
+    AND v_reason IS NULL
+    AND (
+      NEW.impact IS DISTINCT FROM OLD.impact
+      OR NEW.likelihood IS DISTINCT FROM OLD.likelihood
+      OR NEW.residual_risk_score IS DISTINCT FROM OLD.residual_risk_score
+    ) THEN
+    RAISE EXCEPTION 'A reason is required when changing the risk score' USING ERRCODE = '23514';
+  END IF;
+
+  PERFORM set_config('app.risk_change_reason', COALESCE(v_reason, ''), true);
+  NEW.change_reason := NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_risk_change_reason ON public.risks;
+CREATE TRIGGER enforce_risk_change_reason
+  BEFORE INSERT OR UPDATE ON public.risks
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_risk_change_reason();
+
+CREATE OR REPLACE FUNCTION public.record_risk_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row public.risks%ROWTYPE;
+  v_operation text;
+  v_changed_fields text[] := '{}';
+  v_version integer;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_row := OLD;
+    v_operation := 'deleted';
+  ELSE
+    v_row := NEW;
+    v_operation := CASE TG_OP WHEN 'INSERT' THEN 'created' ELSE 'updated' END;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT COALESCE(array_agg(n.key ORDER BY n.key), '{}') INTO v_changed_fields
+    FROM jsonb_each(to_jsonb(NEW)) n
+    JOIN jsonb_each(to_jsonb(OLD)) o ON o.key = n.key
+    WHERE n.value IS DISTINCT FROM o.value
+      AND n.key NOT IN ('updated_at', 'change_reason');
+
+    -- Saving a risk without changes does not make a new version
+    IF cardinality(v_changed_fields) = 0 THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  SELECT COALESCE(max(version), 0) + 1 INTO v_version
+  FROM public.risk_versions
+  WHERE risk_id = v_row.id;
+
+  INSERT INTO public.risk_versions (
+    organization_id, risk_id, version, operation, changed_fields, change_reason, snapshot, changed_by
+  )
+  VALUES (
+    v_row.organization_id,
+    v_row.id,
+    v_version,
+    v_operation,
+    v_changed_fields,
+    NULLIF(current_setting('app.risk_change_reason', true), ''),
+    to_jsonb(v_row) - 'change_reason',
+    auth.uid()
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_risk_version ON public.risks;
+CREATE TRIGGER record_risk_version
+  AFTER INSERT OR UPDATE OR DELETE ON public.risks
+  FOR EACH ROW EXECUTE FUNCTION public.record_risk_version();
+
+INSERT INTO public.risk_versions (organization_id, risk_id, version, operation, snapshot, changed_at)
+SELECT r.organization_id, r.id, 1, 'created', to_jsonb(r) - 'change_reason', r.created_at
+FROM public.risks r
+WHERE NOT EXISTS (SELECT 1 FROM public.risk_versions v WHERE v.risk_id = r.id);
+
+-- Latest version of every risk at p_at, leaving out risks that were deleted by then
+CREATE OR REPLACE FUNCTION public.get_risk_register_as_of(p_at timestamptz)
+RETURNS SETOF public.risk_versions
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT latest.*
+  FROM (
+    SELECT DISTINCT ON (v.risk_id) v.*
+    FROM public.risk_versions v
+    WHERE v.changed_at <= p_at
+    ORDER BY v.risk_id, v.version DESC
+  ) latest
+  WHERE latest.operation <> 'deleted'
+  ORDER BY (latest.snapshot->>'risk_score')::numeric DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_risk_register_as_of(timestamptz) TO authenticated;
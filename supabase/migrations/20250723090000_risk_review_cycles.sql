@@ -0,0 +1,179 @@
+/*
+  # Periodic risk review cycles
+
+  1. New Tables
+    - `risk_reviews`: review tasks for risk owners. The `risk-reviews` function opens a task when a risk's
+      review comes due, reminds the owner and escalates overdue reviews. Completing a task records the
+      owner's attestation, `still_accurate` or `changed`, with notes
+  2. Functions
+    - `default_risk_review_policy()` mirrors `defaultRiskReviewPolicy` in the client; organizations
+      override it in `organizations.settings.riskReviews`
+    - `get_risk_review_policy(organization_id)` resolves an organization's policy; only the service role
+      (the `risk-reviews` function) may call it, since it reads any organization's settings
+    - `complete_risk_review(risk_id, attestation, notes)` completes the open review of a risk, or records
+      an unscheduled one, and sets `risks.last_reviewed_at`
+  3. Review cycle
+    - A risk is due for review a number of days after its last review, or its creation when it was never
+      reviewed. The days come from its score band and, when set, its category; the shorter one applies
+    - Closed risks are not reviewed; their open review tasks are cancelled
+  4. Security
+    - Reviews are readable like risks. Only the risk's owner or users with `risks.update` can complete a
+      review; tasks are otherwise only written by the `risk-reviews` function
+*/
+
+-- 1. Policy
+
+CREATE OR REPLACE FUNCTION public.default_risk_review_policy()
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT '{
+    "bandDays": { "Critical": 30, "High": 90, "Medium": 180, "Low": 365 },
+    "categoryDays": {},
+    "reminderDays": 7,
+    "escalationDays": 14
+  }'::jsonb;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_risk_review_policy(p_organization_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.default_risk_review_policy() || COALESCE(
+    (
+      SELECT settings -> 'riskReviews'
+      FROM public.organizations
+      WHERE id = p_organization_id
+        AND jsonb_typeof(settings -> 'riskReviews') = 'object'
+    ),
+    '{}'::jsonb
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_risk_review_policy(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_risk_review_policy(uuid) TO service_role;
+
+-- 2. Review tasks
+
+CREATE TABLE IF NOT EXISTS public.risk_reviews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  risk_id uuid NOT NULL REFERENCES public.risks(id) ON DELETE CASCADE,
+  owner_user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'cancelled')),
+  due_at timestamp with time zone NOT NULL,
+  reminded_at timestamp with time zone,
+  escalation_level integer NOT NULL DEFAULT 0,
+  escalated_at timestamp with time zone,
+  attestation text CHECK (attestation IN ('still_accurate', 'changed')),
+  notes text,
+  completed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  completed_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CHECK (status <> 'completed' OR (attestation IS NOT NULL AND completed_at IS NOT NULL))
+);
+
+-- A risk has at most one open review
+CREATE UNIQUE INDEX IF NOT EXISTS idx_risk_reviews_pending_risk
+  ON public.risk_reviews (risk_id)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_risk_reviews_organization_due_at
+  ON public.risk_reviews (organization_id, due_at)
+  WHERE status = 'pending';
+
+ALTER TABLE public.risk_reviews ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view risk reviews" ON public.risk_reviews;
+CREATE POLICY "Users can view risk reviews"
+  ON public.risk_reviews
+  FOR SELECT
+  TO authenticated
+  USING (organization_id = get_my_organization_id() AND has_permission('risks.read'));
+
+-- 3. Completing reviews
+
+CREATE OR REPLACE FUNCTION public.complete_risk_review(p_risk_id uuid, p_attestation text, p_notes text DEFAULT NULL)
+RETURNS public.risk_reviews
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_risk public.risks%ROWTYPE;
+  v_review public.risk_reviews%ROWTYPE;
+  v_notes text := NULLIF(btrim(COALESCE(p_notes, '')), '');
+BEGIN
+  SELECT * INTO v_risk
+  FROM public.risks
+  WHERE id = p_risk_id AND organization_id = get_my_organization_id()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Risk not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF auth.uid() IS NULL OR (v_risk.owner_user_id IS DISTINCT FROM auth.uid() AND NOT has_permission('risks.update')) THEN
+    RAISE EXCEPTION 'Only the risk owner or a risk editor can review this risk' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_attestation IS NULL OR p_attestation NOT IN ('still_accurate', 'changed') THEN
+    RAISE EXCEPTION 'Choose whether the assessment is still accurate or has changed' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_attestation = 'changed' AND v_notes IS NULL THEN
+    RAISE EXCEPTION 'Describe what changed since the last review' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.risk_reviews
+  SET status = 'completed',
+      attestation = p_attestation,
+      notes = v_notes,
+      completed_by = auth.uid(),
+      completed_at = now()
+  WHERE risk_id = p_risk_id AND status = 'pending'
+  RETURNING * INTO v_review;
+
+  -- Reviews can also happen before one is due
+  IF NOT FOUND THEN
+    INSERT INTO public.risk_reviews (
+      organization_id, risk_id, owner_user_id, status, due_at, attestation, notes, completed_by, completed_at
+    )
+    VALUES (
+      v_risk.organization_id, v_risk.id, v_risk.owner_user_id, 'completed', now(), p_attestation, v_notes, auth.uid(), now()
+    )
+    RETURNING * INTO v_review;
+  END IF;
+
+  UPDATE public.risks
+  SET last_reviewed_at = now(),
+      change_reason = CASE p_attestation
+        WHEN 'still_accurate' THEN 'Periodic review: assessment still accurate'
+        ELSE 'Periodic review: ' || v_notes
+      END
+  WHERE id = p_risk_id;
+
+  INSERT INTO public.audit_logs (user_id, organization_id, action, resource_type, resource_id, details)
+  VALUES (
+    auth.uid(),
+    v_risk.organization_id,
+    'risk_reviewed',
+    'risk',
+    v_risk.id,
+    jsonb_build_object(
+      'risk_title', v_risk.title,
+      'attestation', p_attestation,
+      'notes', v_notes,
+      'due_at', v_review.due_at
+    )
+  );
+
+  RETURN v_review;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.complete_risk_review(uuid, text, text) TO authenticated;
@@ -0,0 +1,195 @@
+/*
+  # Risk appetite and tolerance
+
+  1. Changes
+    - `risks` records a formal treatment decision (`mitigate`, `transfer`, `avoid` or `accept`) with its
+      rationale, who made it and when, and the residual score it was made for
+  2. Functions
+    - `default_risk_appetite()` mirrors `defaultRiskAppetite` in the client; organizations override it in
+      `organizations.settings.riskAppetite`
+    - `get_risk_appetite(organization_id)` resolves an organization's score bands and per-category appetite
+      and tolerance, `get_risk_tolerance(organization_id, category)` the tolerance of one category
+    - `record_risk_treatment(risk_id, decision, rationale)` records the treatment decision for a risk
+  3. Treatment decisions
+    - Risks whose residual score is above their category's tolerance need a treatment decision. The decision
+      lapses when the residual score later rises above the score it was made for
+    - Decisions can only be changed through `record_risk_treatment`, which logs them in `audit_logs`
+  4. Security
+    - Only users with `risks.update` can record treatment decisions
+    - `get_risk_appetite` and `get_risk_tolerance` read any organization's settings, so only the service
+      role and the functions above may call them
+*/
+
+-- 1. Appetite
+
+CREATE OR REPLACE FUNCTION public.default_risk_appetite()
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT '{
+    "bands": { "low": 5, "medium": 12, "high": 20 },
+    "defaultAppetite": 5,
+    "defaultTolerance": 12,
+    "categories": {}
+  }'::jsonb;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_risk_appetite(p_organization_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.default_risk_appetite() || COALESCE(
+    (
+      SELECT settings -> 'riskAppetite'
+      FROM public.organizations
+      WHERE id = p_organization_id
+        AND jsonb_typeof(settings -> 'riskAppetite') = 'object'
+    ),
+    '{}'::jsonb
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_risk_tolerance(p_organization_id uuid, p_category text)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (appetite -> 'categories' -> p_category ->> 'tolerance')::numeric,
+    (appetite ->> 'defaultTolerance')::numeric
+  )
+  FROM (SELECT public.get_risk_appetite(p_organization_id) AS appetite) resolved;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_risk_appetite(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_risk_tolerance(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_risk_appetite(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_risk_tolerance(uuid, text) TO service_role;
+
+-- 2. Treatment decisions
+
+ALTER TABLE public.risks
+  ADD COLUMN IF NOT EXISTS treatment_decision text CHECK (treatment_decision IN ('mitigate', 'transfer', 'avoid', 'accept')),
+  ADD COLUMN IF NOT EXISTS treatment_rationale text,
+  ADD COLUMN IF NOT EXISTS treatment_residual_score numeric(4,1),
+  ADD COLUMN IF NOT EXISTS treatment_decided_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS treatment_decided_at timestamp with time zone;
+
+-- Runs after compute_risk_residual_score (triggers fire in name order), so it sees the new residual score
+CREATE OR REPLACE FUNCTION public.guard_risk_treatment()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- Only record_risk_treatment() may change the decision
+  IF COALESCE(current_setting('app.risk_treatment', true), '') <> 'on' THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.treatment_decision := NULL;
+      NEW.treatment_rationale := NULL;
+      NEW.treatment_residual_score := NULL;
+      NEW.treatment_decided_by := NULL;
+      NEW.treatment_decided_at := NULL;
+    ELSE
+      NEW.treatment_decision := OLD.treatment_decision;
+      NEW.treatment_rationale := OLD.treatment_rationale;
+      NEW.treatment_residual_score := OLD.treatment_residual_score;
+      NEW.treatment_decided_by := OLD.treatment_decided_by;
+      NEW.treatment_decided_at := OLD.treatment_decided_at;
+    END IF;
+  END IF;
+
+  -- A decision covers the residual score it was made for, not a worse one
+  IF NEW.treatment_decision IS NOT NULL AND NEW.residual_risk_score > NEW.treatment_residual_score THEN
+    NEW.treatment_decision := NULL;
+    NEW.treatment_rationale := NULL;
+    NEW.treatment_residual_score := NULL;
+    NEW.treatment_decided_by := NULL;
+    NEW.treatment_decided_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_risk_treatment ON public.risks;
+CREATE TRIGGER guard_risk_treatment
+  BEFORE INSERT OR UPDATE ON public.risks
+  FOR EACH ROW EXECUTE FUNCTION public.guard_risk_treatment();
+
+CREATE OR REPLACE FUNCTION public.record_risk_treatment(p_risk_id uuid, p_decision text, p_rationale text)
+RETURNS public.risks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_risk public.risks%ROWTYPE;
+  v_rationale text := NULLIF(btrim(COALESCE(p_rationale, '')), '');
+  v_tolerance numeric;
+BEGIN
+  IF auth.uid() IS NULL OR NOT has_permission('risks.update') THEN
+    RAISE EXCEPTION 'Only risk editors can record treatment decisions' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_risk
+  FROM public.risks
+  WHERE id = p_risk_id AND organization_id = get_my_organization_id()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Risk not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_decision IS NULL OR p_decision NOT IN ('mitigate', 'transfer', 'avoid', 'accept') THEN
+    RAISE EXCEPTION 'Choose whether to mitigate, transfer, avoid or accept the risk' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_rationale IS NULL THEN
+    RAISE EXCEPTION 'Explain the treatment decision' USING ERRCODE = '22023';
+  END IF;
+
+  v_tolerance := public.get_risk_tolerance(v_risk.organization_id, v_risk.category);
+
+  PERFORM set_config('app.risk_treatment', 'on', true);
+
+  UPDATE public.risks
+  SET treatment_decision = p_decision,
+      treatment_rationale = v_rationale,
+      treatment_residual_score = v_risk.residual_risk_score,
+      treatment_decided_by = auth.uid(),
+      treatment_decided_at = now(),
+      change_reason = 'Treatment decision: ' || p_decision
+  WHERE id = p_risk_id
+  RETURNING * INTO v_risk;
+
+  PERFORM set_config('app.risk_treatment', '', true);
+
+  INSERT INTO public.audit_logs (user_id, organization_id, action, resource_type, resource_id, details)
+  VALUES (
+    auth.uid(),
+    v_risk.organization_id,
+    'risk_treatment_decided',
+    'risk',
+    v_risk.id,
+    jsonb_build_object(
+      'risk_title', v_risk.title,
+      'decision', p_decision,
+      'rationale', v_rationale,
+      'residual_risk_score', v_risk.residual_risk_score,
+      'tolerance', v_tolerance,
+      'above_tolerance', v_risk.residual_risk_score > v_tolerance
+    )
+  );
+
+  RETURN v_risk;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_risk_treatment(uuid, text, text) TO authenticated;
@@ -0,0 +1,599 @@
+/*
+  # Risk acceptance
+
+  1. New Tables
+    - `risk_acceptances`: requests to formally accept a risk, with the justification, the approver level its
+      residual score band requires, the approver asked and the one who decided, and when the acceptance
+      expires
+  2. Changes
+    - `risks.status` gains `accepted`. Only an approved acceptance puts a risk in that state, and moving it
+      out of `accepted` by hand revokes the acceptance
+    - An acceptance covers the residual score it was requested for. When the score rises above it, and so
+      possibly into a band needing a higher approver, the acceptance is revoked and the risk returns to the
+      status it had before
+    - An `accept` treatment decision now only comes from an approved acceptance and lapses when the risk
+      leaves `accepted`; `record_risk_treatment` no longer records it
+  3. Functions
+    - `default_risk_acceptance_policy()` mirrors `defaultRiskAcceptancePolicy` in the client; organizations
+      override it in `organizations.settings.riskAcceptance`. It sets the approver level per score band
+      (`manager`, `admin` or `executive`), the longest acceptance per band in days, and who the executives are
+    - `request_risk_acceptance(risk_id, justification, expires_at, approver_user_id)` opens a request
+    - `decide_risk_acceptance(acceptance_id, approve, notes)` approves or rejects it. Approving accepts the
+      risk and records `accept` as its treatment decision
+    - `expire_risk_acceptances()` is run by the `risk-reviews` function. Expired acceptances put the risk
+      back in the status it had before and open a review for its owner
+  4. Security
+    - Acceptances are readable like risks and only written through these functions, which log every step
+      in `audit_logs`. The risk owner or users with `risks.update` can request; approvers need the level the
+      band requires and cannot approve their own request
+    - `get_risk_acceptance_policy`, `get_risk_level` and `can_approve_risk_acceptance` take any organization,
+      so only the service role and the functions above may call them
+*/
+
+-- 1. Policy
+
+CREATE OR REPLACE FUNCTION public.default_risk_acceptance_policy()
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT '{
+    "approvers": { "Low": "manager", "Medium": "manager", "High": "admin", "Critical": "executive" },
+    "maxDays": { "Low": 365, "Medium": 365, "High": 180, "Critical": 90 },
+    "executiveUserIds": []
+  }'::jsonb;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_risk_acceptance_policy(p_organization_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.default_risk_acceptance_policy() || COALESCE(
+    (
+      SELECT settings -> 'riskAcceptance'
+      FROM public.organizations
+      WHERE id = p_organization_id
+        AND jsonb_typeof(settings -> 'riskAcceptance') = 'object'
+    ),
+    '{}'::jsonb
+  );
+$$;
+
+-- Score band of a risk score with the organization's configured bands; mirrors getRiskLevel in the client
+CREATE OR REPLACE FUNCTION public.get_risk_level(p_organization_id uuid, p_score numeric)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_score <= (bands ->> 'low')::numeric THEN 'Low'
+    WHEN p_score <= (bands ->> 'medium')::numeric THEN 'Medium'
+    WHEN p_score <= (bands ->> 'high')::numeric THEN 'High'
+    ELSE 'Critical'
+  END
+  FROM (SELECT public.get_risk_appetite(p_organization_id) -> 'bands' AS bands) resolved;
+$$;
+
+-- Executives can approve at every level, admins at admin and manager level, managers at manager level
+CREATE OR REPLACE FUNCTION public.can_approve_risk_acceptance(p_user_id uuid, p_organization_id uuid, p_level text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_profiles up
+    WHERE up.user_id = p_user_id
+      AND up.organization_id = p_organization_id
+      AND up.active
+      AND (
+        COALESCE(public.get_risk_acceptance_policy(p_organization_id) -> 'executiveUserIds', '[]'::jsonb) ? p_user_id::text
+        OR (p_level = 'admin' AND up.role IN ('admin', 'super_admin'))
+        OR (p_level = 'manager' AND up.role IN ('manager', 'admin', 'super_admin'))
+      )
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_risk_acceptance_policy(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_risk_level(uuid, numeric) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.can_approve_risk_acceptance(uuid, uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_risk_acceptance_policy(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_risk_level(uuid, numeric) TO service_role;
+GRANT EXECUTE ON FUNCTION public.can_approve_risk_acceptance(uuid, uuid, text) TO service_role;
+
+-- 2. Acceptances
+
+ALTER TABLE public.risks DROP CONSTRAINT IF EXISTS risks_status_check;
+ALTER TABLE public.risks
+  ADD CONSTRAINT risks_status_check
+  CHECK (status IN ('identified', 'assessed', 'mitigated', 'monitoring', 'accepted', 'closed'));
+
+CREATE TABLE IF NOT EXISTS public.risk_acceptances (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  risk_id uuid NOT NULL REFERENCES public.risks(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'expired', 'revoked')),
+  justification text NOT NULL CHECK (btrim(justification) <> ''),
+  residual_risk_score numeric(4,1) NOT NULL,
+  risk_level text NOT NULL CHECK (risk_level IN ('Low', 'Medium', 'High', 'Critical')),
+  approver_level text NOT NULL CHECK (approver_level IN ('manager', 'admin', 'executive')),
+  approver_user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- Status to return the risk to when the acceptance ends
+  previous_status text NOT NULL,
+  expires_at timestamp with time zone NOT NULL,
+  requested_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  requested_at timestamp with time zone NOT NULL DEFAULT now(),
+  decided_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  decided_at timestamp with time zone,
+  decision_notes text,
+  ended_at timestamp with time zone
+);
+
+-- A risk has at most one open or active acceptance
+CREATE UNIQUE INDEX IF NOT EXISTS idx_risk_acceptances_active_risk
+  ON public.risk_acceptances (risk_id)
+  WHERE status IN ('pending', 'approved');
+
+CREATE INDEX IF NOT EXISTS idx_risk_acceptances_approved_expires_at
+  ON public.risk_acceptances (expires_at)
+  WHERE status = 'approved';
+
+ALTER TABLE public.risk_acceptances ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view risk acceptances" ON public.risk_acceptances;
+CREATE POLICY "Users can view risk acceptances"
+  ON public.risk_acceptances
+  FOR SELECT
+  TO authenticated
+  USING (organization_id = get_my_organization_id() AND has_permission('risks.read'));
+
+-- Only decide_risk_acceptance() and expire_risk_acceptances() may move a risk into or out of `accepted`
+-- without revoking the acceptance. Runs after compute_risk_residual_score(), so the score is current
+CREATE OR REPLACE FUNCTION public.guard_risk_acceptance()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_acceptance public.risk_acceptances%ROWTYPE;
+BEGIN
+  IF COALESCE(current_setting('app.risk_acceptance', true), '') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'accepted' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'accepted') THEN
+    RAISE EXCEPTION 'Risks can only be accepted through an approved acceptance request' USING ERRCODE = '42501';
+  END IF;
+
+  -- A higher band always means a higher score, so this also catches acceptances whose approver level is no
+  -- longer enough. Pending requests are revoked too, so they cannot be approved at the old level
+  IF TG_OP = 'UPDATE' AND NEW.residual_risk_score > OLD.residual_risk_score THEN
+    UPDATE public.risk_acceptances
+    SET status = 'revoked',
+        ended_at = now()
+    WHERE risk_id = NEW.id
+      AND status IN ('pending', 'approved')
+      AND residual_risk_score < NEW.residual_risk_score
+    RETURNING * INTO v_acceptance;
+
+    IF FOUND THEN
+      IF OLD.status = 'accepted' AND NEW.status = 'accepted' THEN
+        NEW.status := v_acceptance.previous_status;
+      END IF;
+
+      INSERT INTO public.audit_logs (user_id, organization_id, action, resource_type, resource_id, details)
+      VALUES (
+        auth.uid(),
+        NEW.organization_id,
+        'risk_acceptance_revoked',
+        'risk',
+        NEW.id,
+        jsonb_build_object(
+          'risk_title', NEW.title,
+          'acceptance_id', v_acceptance.id,
+          'accepted_residual_score', v_acceptance.residual_risk_score,
+          'residual_risk_score', NEW.residual_risk_score,
+          'new_status', NEW.status
+        )
+      );
+
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status = 'accepted' AND NEW.status <> 'accepted' THEN
+    UPDATE public.risk_acceptances
+    SET status = 'revoked',
+        ended_at = now()
+    WHERE risk_id = NEW.id AND status = 'approved';
+
+    INSERT INTO public.audit_logs (user_id, organization_id, action, resource_type, resource_id, details)
+    VALUES (
+      auth.uid(),
+      NEW.organization_id,
+      'risk_acceptance_revoked',
+      'risk',
+      NEW.id,
+      jsonb_build_object('risk_title', NEW.title, 'new_status', NEW.status)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_risk_acceptance ON public.risks;
+CREATE TRIGGER guard_risk_acceptance
+  BEFORE INSERT OR UPDATE ON public.risks
+  FOR EACH ROW EXECUTE FUNCTION public.guard_risk_acceptance();
+
+-- Same as in the risk appetite migration, and an `accept` decision lapses when the risk is no longer accepted
+CREATE OR REPLACE FUNCTION public.guard_risk_treatment()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- Only record_risk_treatment() and decide_risk_acceptance() may change the decision
+  IF COALESCE(current_setting('app.risk_treatment', true), '') <> 'on' THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.treatment_decision := NULL;
+      NEW.treatment_rationale := NULL;
+      NEW.treatment_residual_score := NULL;
+      NEW.treatment_decided_by := NULL;
+      NEW.treatment_decided_at := NULL;
+    ELSE
+      NEW.treatment_decision := OLD.treatment_decision;
+      NEW.treatment_rationale := OLD.treatment_rationale;
+      NEW.treatment_residual_score := OLD.treatment_residual_score;
+      NEW.treatment_decided_by := OLD.treatment_decided_by;
+      NEW.treatment_decided_at := OLD.treatment_decided_at;
+    END IF;
+  END IF;
+
+  -- A decision covers the residual score it was made for, not a worse one, and accepting covers only the
+  -- time the risk is accepted
+  IF NEW.treatment_decision IS NOT NULL AND (
+    NEW.residual_risk_score > NEW.treatment_residual_score
+    OR (NEW.treatment_decision = 'accept' AND NEW.status <> 'accepted')
+  ) THEN
+    NEW.treatment_decision := NULL;
+    NEW.treatment_rationale := NULL;
+    NEW.treatment_residual_score := NULL;
+    NEW.treatment_decided_by := NULL;
+    NEW.treatment_decided_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_risk_treatment(p_risk_id uuid, p_decision text, p_rationale text)
+RETURNS public.risks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_risk public.risks%ROWTYPE;
+  v_rationale text := NULLIF(btrim(COALESCE(p_rationale, '')), '');
+  v_tolerance numeric;
+BEGIN
+  IF auth.uid() IS NULL OR NOT has_permission('risks.update') THEN
+    RAISE EXCEPTION 'Only risk editors can record treatment decisions' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_risk
+  FROM public.risks
+  WHERE id = p_risk_id AND organization_id = get_my_organization_id()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Risk not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_decision = 'accept' THEN
+    RAISE EXCEPTION 'Risks are accepted through an acceptance request' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_decision IS NULL OR p_decision NOT IN ('mitigate', 'transfer', 'avoid') THEN
+    RAISE EXCEPTION 'Choose whether to mitigate, transfer or avoid the risk' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_rationale IS NULL THEN
+    RAISE EXCEPTION 'Explain the treatment decision' USING ERRCODE = '22023';
+  END IF;
+
+  v_tolerance := public.get_risk_tolerance(v_risk.organization_id, v_risk.category);
+
+  PERFORM set_config('app.risk_treatment', 'on', true);
+
+  UPDATE public.risks
+  SET treatment_decision = p_decision,
+      treatment_rationale = v_rationale,
+      treatment_residual_score = v_risk.residual_risk_score,
+      treatment_decided_by = auth.uid(),
+      treatment_decided_at = now(),
+      change_reason = 'Treatment decision: ' || p_decision
+  WHERE id = p_risk_id
+  RETURNING * INTO v_risk;
+
+  PERFORM set_config('app.risk_treatment', '', true);
+
+  INSERT INTO public.audit_logs (user_id, organization_id, action, resource_type, resource_id, details)
+  VALUES (
+    auth.uid(),
+    v_risk.organization_id,
+    'risk_treatment_decided',
+    'risk',
+    v_risk.id,
+    jsonb_build_object(
+      'risk_title', v_risk.title,
+      'decision', p_decision,
+      'rationale', v_rationale,
+      'residual_risk_score', v_risk.residual_risk_score,
+      'tolerance', v_tolerance,
+      'above_tolerance', v_risk.residual_risk_score > v_tolerance
+    )
+  );
+
+  RETURN v_risk;
+END;
+$$;
+
+-- 3. Workflow
+
+CREATE OR REPLACE FUNCTION public.request_risk_acceptance(
+  p_risk_id uuid,
+  p_justification text,
+  p_expires_at timestamp with time zone,
+  p_approver_user_id uuid
+)
+RETURNS public.risk_acceptances
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_risk public.risks%ROWTYPE;
+  v_acceptance public.risk_acceptances%ROWTYPE;
+  v_policy jsonb;
+  v_level text;
+  v_approver_level text;
+  v_justification text := NULLIF(btrim(COALESCE(p_justification, '')), '');
+BEGIN
+  SELECT * INTO v_risk
+  FROM public.risks
+  WHERE id = p_risk_id AND organization_id = get_my_organization_id()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Risk not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF auth.uid() IS NULL OR (v_risk.owner_user_id IS DISTINCT FROM auth.uid() AND NOT has_permission('risks.update')) THEN
+    RAISE EXCEPTION 'Only the risk owner or a risk editor can request acceptance of this risk' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_risk.status IN ('accepted', 'closed') THEN
+    RAISE EXCEPTION 'Only open risks can be accepted' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_justification IS NULL THEN
+    RAISE EXCEPTION 'Explain why the risk should be accepted' USING ERRCODE = '22023';
+  END IF;
+
+  v_policy := public.get_risk_acceptance_policy(v_risk.organization_id);
+  v_level := public.get_risk_level(v_risk.organization_id, v_risk.residual_risk_score);
+  v_approver_level := v_policy -> 'approvers' ->> v_level;
+
+  IF p_expires_at IS NULL
+    OR p_expires_at <= now()
+    OR p_expires_at > now() + make_interval(days => (v_policy -> 'maxDays' ->> v_level)::integer) THEN
+    RAISE EXCEPTION '% risks can be accepted for at most % days', v_level, v_policy -> 'maxDays' ->> v_level
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF p_approver_user_id IS NULL
+    OR p_approver_user_id = auth.uid()
+    OR NOT public.can_approve_risk_acceptance(p_approver_user_id, v_risk.organization_id, v_approver_level) THEN
+    RAISE EXCEPTION 'Accepting a % risk needs approval by another user at % level', v_level, v_approver_level
+      USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.risk_acceptances (
+    organization_id, risk_id, justification, residual_risk_score, risk_level, approver_level, approver_user_id,
+    previous_status, expires_at, requested_by
+  )
+  VALUES (
+    v_risk.organization_id, v_risk.id, v_justification, v_risk.residual_risk_score, v_level, v_approver_level,
+    p_approver_user_id, v_risk.status, p_expires_at, auth.uid()
+  )
+  RETURNING * INTO v_acceptance;
+
+  INSERT INTO public.audit_logs (user_id, organization_id, action, resource_type, resource_id, details)
+  VALUES (
+    auth.uid(),
+    v_risk.organization_id,
+    'risk_acceptance_requested',
+    'risk',
+    v_risk.id,
+    jsonb_build_object(
+      'risk_title', v_risk.title,
+      'acceptance_id', v_acceptance.id,
+      'justification', v_justification,
+      'residual_risk_score', v_risk.residual_risk_score,
+      'approver_level', v_approver_level,
+      'approver_user_id', p_approver_user_id,
+      'expires_at', p_expires_at
+    )
+  );
+
+  RETURN v_acceptance;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.decide_risk_acceptance(p_acceptance_id uuid, p_approve boolean, p_notes text DEFAULT NULL)
+RETURNS public.risk_acceptances
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_acceptance public.risk_acceptances%ROWTYPE;
+  v_risk public.risks%ROWTYPE;
+  v_notes text := NULLIF(btrim(COALESCE(p_notes, '')), '');
+BEGIN
+  SELECT * INTO v_acceptance
+  FROM public.risk_acceptances
+  WHERE id = p_acceptance_id AND organization_id = get_my_organization_id()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Acceptance request not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_acceptance.status <> 'pending' THEN
+    RAISE EXCEPTION 'This acceptance request has already been decided' USING ERRCODE = '22023';
+  END IF;
+
+  IF auth.uid() IS NULL
+    OR auth.uid() IS NOT DISTINCT FROM v_acceptance.requested_by
+    OR NOT public.can_approve_risk_acceptance(auth.uid(), v_acceptance.organization_id, v_acceptance.approver_level) THEN
+    RAISE EXCEPTION 'Only another user at % level can decide this request', v_acceptance.approver_level
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF p_approve IS NOT TRUE AND v_notes IS NULL THEN
+    RAISE EXCEPTION 'Explain why the request is rejected' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_approve AND v_acceptance.expires_at <= now() THEN
+    RAISE EXCEPTION 'The requested acceptance period has already ended' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.risk_acceptances
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+      decided_by = auth.uid(),
+      decided_at = now(),
+      decision_notes = v_notes
+  WHERE id = p_acceptance_id
+  RETURNING * INTO v_acceptance;
+
+  IF p_approve THEN
+    PERFORM set_config('app.risk_acceptance', 'on', true);
+    PERFORM set_config('app.risk_treatment', 'on', true);
+
+    UPDATE public.risks
+    SET status = 'accepted',
+        treatment_decision = 'accept',
+        treatment_rationale = v_acceptance.justification,
+        treatment_residual_score = residual_risk_score,
+        treatment_decided_by = auth.uid(),
+        treatment_decided_at = now(),
+        change_reason = 'Risk accepted until ' || to_char(v_acceptance.expires_at, 'YYYY-MM-DD')
+    WHERE id = v_acceptance.risk_id
+    RETURNING * INTO v_risk;
+
+    PERFORM set_config('app.risk_acceptance', '', true);
+    PERFORM set_config('app.risk_treatment', '', true);
+  ELSE
+    SELECT * INTO v_risk FROM public.risks WHERE id = v_acceptance.risk_id;
+  END IF;
+
+  INSERT INTO public.audit_logs (user_id, organization_id, action, resource_type, resource_id, details)
+  VALUES (
+    auth.uid(),
+    v_acceptance.organization_id,
+    CASE WHEN p_approve THEN 'risk_accepted' ELSE 'risk_acceptance_rejected' END,
+    'risk',
+    v_acceptance.risk_id,
+    jsonb_build_object(
+      'risk_title', v_risk.title,
+      'acceptance_id', v_acceptance.id,
+      'justification', v_acceptance.justification,
+      'residual_risk_score', v_acceptance.residual_risk_score,
+      'approver_level', v_acceptance.approver_level,
+      'requested_by', v_acceptance.requested_by,
+      'expires_at', v_acceptance.expires_at,
+      'notes', v_notes
+    )
+  );
+
+  RETURN v_acceptance;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.expire_risk_acceptances()
+RETURNS SETOF public.risk_acceptances
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_acceptance public.risk_acceptances%ROWTYPE;
+  v_risk public.risks%ROWTYPE;
+BEGIN
+  FOR v_acceptance IN
+    SELECT *
+    FROM public.risk_acceptances
+    WHERE status = 'approved' AND expires_at <= now()
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE public.risk_acceptances
+    SET status = 'expired',
+        ended_at = now()
+    WHERE id = v_acceptance.id
+    RETURNING * INTO v_acceptance;
+
+    -- guard_risk_treatment() clears the `accept` decision with the status
+    PERFORM set_config('app.risk_acceptance', 'on', true);
+
+    UPDATE public.risks
+    SET status = v_acceptance.previous_status,
+        change_reason = 'Risk acceptance expired'
+    WHERE id = v_acceptance.risk_id AND status = 'accepted'
+    RETURNING * INTO v_risk;
+
+    PERFORM set_config('app.risk_acceptance', '', true);
+
+    -- Reopened for review straight away; the risk-reviews function tells the owner
+    IF v_risk.id IS NOT NULL THEN
+      INSERT INTO public.risk_reviews (organization_id, risk_id, owner_user_id, due_at, reminded_at)
+      VALUES (v_risk.organization_id, v_risk.id, v_risk.owner_user_id, now(), now())
+      ON CONFLICT DO NOTHING;
+    END IF;
+
+    INSERT INTO public.audit_logs (user_id, organization_id, action, resource_type, resource_id, details)
+    VALUES (
+      NULL,
+      v_acceptance.organization_id,
+      'risk_acceptance_expired',
+      'risk',
+      v_acceptance.risk_id,
+      jsonb_build_object(
+        'risk_title', v_risk.title,
+        'acceptance_id', v_acceptance.id,
+        'expires_at', v_acceptance.expires_at,
+        'reopened_status', v_acceptance.previous_status
+      )
+    );
+
+    v_risk := NULL;
+    RETURN NEXT v_acceptance;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.request_risk_acceptance(uuid, text, timestamp with time zone, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.decide_risk_acceptance(uuid, boolean, text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.expire_risk_acceptances() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.expire_risk_acceptances() TO service_role;
@@ -0,0 +1,24 @@
+/*
+  # Protect the two-factor flag
+
+  1. Security
+    - Users can no longer change their own `user_profiles.two_factor_enabled`; only the `two-factor`
+      function (service role) sets it when an enrollment is completed or removed. Sign-in decides whether
+      a code is required from `user_two_factor_secrets`, so the flag stays a display copy of that
+*/
+
+CREATE OR REPLACE FUNCTION public.protect_lockout_columns()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND OLD.user_id = auth.uid() THEN
+    NEW.failed_login_attempts := OLD.failed_login_attempts;
+    NEW.account_locked_until := OLD.account_locked_until;
+    NEW.auth_provider := OLD.auth_provider;
+    NEW.active := OLD.active;
+    NEW.two_factor_enabled := OLD.two_factor_enabled;
+  END IF;
+  RETURN NEW;
+END;
+$$;
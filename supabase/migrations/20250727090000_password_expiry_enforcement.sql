@@ -0,0 +1,34 @@
+/*
+  # Enforce password expiry on the server
+
+  1. Changes
+    - `user_sessions.end_reason` gains `password_expired`: the `sessions` function ends sessions whose
+      user's password is older than the organization's `passwordPolicy.maxAge`
+
+  2. Security
+    - Users can no longer change their own `user_profiles.password_changed_at`; only the
+      `change-password` function (service role) stamps it. The `sign-in` and `two-factor` functions
+      refuse to issue a session for an expired password, so the age cannot be reset from the client
+*/
+
+CREATE OR REPLACE FUNCTION public.protect_lockout_columns()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND OLD.user_id = auth.uid() THEN
+    NEW.failed_login_attempts := OLD.failed_login_attempts;
+    NEW.account_locked_until := OLD.account_locked_until;
+    NEW.auth_provider := OLD.auth_provider;
+    NEW.active := OLD.active;
+    NEW.two_factor_enabled := OLD.two_factor_enabled;
+    NEW.password_changed_at := OLD.password_changed_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+ALTER TABLE public.user_sessions DROP CONSTRAINT IF EXISTS user_sessions_end_reason_check;
+ALTER TABLE public.user_sessions
+  ADD CONSTRAINT user_sessions_end_reason_check
+  CHECK (end_reason IN ('signed_out', 'idle_timeout', 'max_duration', 'evicted', 'revoked', 'deprovisioned', 'password_expired'));
@@ -0,0 +1,123 @@
+/*
+  # Enforce sign-in checks outside the edge functions
+
+  The lockout, two-factor, password expiry and session policy checks live in the `sign-in`, `two-factor`
+  and `sso` functions, but the auth API hands out sessions to anyone calling
+  `/token?grant_type=password` with the anon key. These changes make such sessions useless.
+
+  1. Functions
+    - `hook_password_verification_attempt(event)` is a GoTrue password verification hook that rejects
+      deactivated and locked accounts on every password check, including direct auth API calls. It does
+      not count failures: the edge functions do, and would count the same attempt twice.
+      Enable it under Authentication > Hooks > Password Verification Attempt (or
+      `[auth.hook.password_verification_attempt]` in config.toml) with
+      `pg-functions://postgres/public/hook_password_verification_attempt`
+    - `is_registered_session()` is true when the caller's access token belongs to an active
+      `user_sessions` row. Only the functions that issue sessions register them; the `sessions`
+      function no longer registers sessions it has not seen before
+  2. Changes
+    - `get_my_organization_id()`, `get_my_user_role()` and `get_my_permissions()` (and with it
+      `has_permission()`) return nothing for unregistered sessions, so organization-scoped RLS policies
+      deny them
+    - Sessions still active when this runs may have been registered by a heartbeat of a session that
+      skipped the checks above. They are ended, and everyone signs in again once
+*/
+
+-- 1. Password verification hook
+
+CREATE OR REPLACE FUNCTION public.hook_password_verification_attempt(event jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_active boolean;
+  v_locked_until timestamp with time zone;
+BEGIN
+  SELECT active, account_locked_until INTO v_active, v_locked_until
+  FROM public.user_profiles
+  WHERE user_id = (event ->> 'user_id')::uuid;
+
+  IF FOUND AND (NOT v_active OR v_locked_until > now()) THEN
+    RETURN jsonb_build_object(
+      'decision', 'reject',
+      'message', 'This account is locked or deactivated.',
+      'should_logout_user', true
+    );
+  END IF;
+
+  RETURN jsonb_build_object('decision', 'continue');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.hook_password_verification_attempt(jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.hook_password_verification_attempt(jsonb) TO supabase_auth_admin;
+
+-- 2. Registered sessions
+
+CREATE OR REPLACE FUNCTION public.is_registered_session()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_sessions s
+    WHERE s.user_id = auth.uid()
+      AND s.auth_session_id = NULLIF(auth.jwt() ->> 'session_id', '')::uuid
+      AND s.ended_at IS NULL
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_registered_session() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_registered_session() TO authenticated, service_role;
+
+CREATE OR REPLACE FUNCTION public.get_my_organization_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT organization_id
+  FROM public.user_profiles
+  WHERE user_id = auth.uid()
+    AND public.is_registered_session();
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_my_user_role()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role
+  FROM public.user_profiles
+  WHERE user_id = auth.uid()
+    AND public.is_registered_session();
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_my_permissions()
+RETURNS text[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(custom.permissions, system.permissions, '{}'::text[])
+  FROM public.user_profiles p
+  LEFT JOIN public.roles custom ON custom.id = p.custom_role_id
+  LEFT JOIN public.roles system ON system.is_system AND system.key = p.role
+  WHERE p.user_id = auth.uid()
+    AND public.is_registered_session();
+$$;
+
+-- 3. Existing sessions
+
+UPDATE public.user_sessions
+SET ended_at = now(), end_reason = 'signed_out'
+WHERE ended_at IS NULL;
@@ -0,0 +1,41 @@
+/*
+  # SSO redirect URIs and domain verification
+
+  1. New Tables
+    - `sso_domain_verifications` - one row per email domain an organization listed for its provider,
+      with the token to publish in a DNS TXT record at `_sso-challenge.<domain>` and when it was verified.
+      A domain can be verified by one organization only
+  2. Changes
+    - `organization_sso_providers.redirect_uris` lists where the identity provider may send users back.
+      The `sso` function refuses to start a login for any other redirect URI
+    - Existing providers keep their domains but must verify them, and add their redirect URI, before
+      their logins are routed again: until now the first organization to list a domain owned it
+  3. Security
+    - The table is only reachable through the `sso` edge function (service role)
+*/
+
+ALTER TABLE public.organization_sso_providers
+  ADD COLUMN IF NOT EXISTS redirect_uris text[] NOT NULL DEFAULT '{}';
+
+CREATE TABLE IF NOT EXISTS public.sso_domain_verifications (
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  domain text NOT NULL,
+  token text NOT NULL,
+  verified_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (organization_id, domain)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS sso_domain_verifications_verified_domain_idx
+  ON public.sso_domain_verifications (domain)
+  WHERE verified_at IS NOT NULL;
+
+ALTER TABLE public.sso_domain_verifications ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON public.sso_domain_verifications FROM anon, authenticated;
+
+INSERT INTO public.sso_domain_verifications (organization_id, domain, token)
+SELECT p.organization_id, d.domain, replace(gen_random_uuid()::text, '-', '')
+FROM public.organization_sso_providers p
+CROSS JOIN LATERAL unnest(p.email_domains) AS d(domain)
+ON CONFLICT (organization_id, domain) DO NOTHING;